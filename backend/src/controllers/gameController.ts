@@ -6,13 +6,19 @@ import Game from '../models/Game';
 import GameMove from '../models/GameMove';
 import GameHistory from '../models/GameHistory';
 import { initializeBoard, generateRoomCode } from '../services/gameEngine';
+import { clearClock, getClockSnapshot } from '../services/gameClockService';
+import { clearSpectators } from '../services/spectatorService';
+import { isBotDifficulty, isBotGame, getBotName, CARO_BOT_ID } from '../services/caroBot';
+import { getOrderedMoves } from '../services/gameHistoryService';
+import { RENJU_MIN_BOARD_SIZE } from '../services/ruleEngine';
+import { IHistoryMove } from '../models/GameHistory';
 import { AuthRequest } from '../middleware/authMiddleware';
 import { io } from '../server';
 import User from '../models/User';
 
 export const createGame = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { boardSize = 15, rules = {}, guestId, guestName } = req.body;
+    const { boardSize = 15, rules = {}, guestId, guestName, botDifficulty } = req.body;
     const authReq = req as AuthRequest;
     
     // Try to get user from token (optional auth - allow both authenticated and guest)
@@ -31,6 +37,11 @@ export const createGame = async (req: Request, res: Response): Promise<void> =>
     // Use userId from token or from authReq.user (fallback)
     const finalUserId = userId || authReq.user?.userId || null;
 
+    if (rules.renju && boardSize < RENJU_MIN_BOARD_SIZE) {
+      res.status(400).json({ message: `Renju needs a board of at least ${RENJU_MIN_BOARD_SIZE}×${RENJU_MIN_BOARD_SIZE}` });
+      return;
+    }
+
     const roomId = uuidv4();
     const roomCode = await generateRoomCode();
     const board = initializeBoard(boardSize);
@@ -42,6 +53,12 @@ export const createGame = async (req: Request, res: Response): Promise<void> =>
       player1: finalUserId ? (finalUserId as any) : null,
       player1GuestId: finalUserId ? null : guestId || null,
       player1GuestName: finalUserId ? null : (guestName || null),
+      // Bot games seat the server-side bot as player 2 right away
+      ...(isBotDifficulty(botDifficulty) && {
+        player2GuestId: CARO_BOT_ID,
+        player2GuestName: getBotName(botDifficulty),
+        botDifficulty,
+      }),
       boardSize,
       board,
       rules: {
@@ -49,6 +66,14 @@ export const createGame = async (req: Request, res: Response): Promise<void> =>
         allowUndo: rules.allowUndo !== undefined ? rules.allowUndo : true,
         maxUndoPerGame: rules.maxUndoPerGame || 3,
         timeLimit: rules.timeLimit || null,
+        gameTimeLimit: rules.gameTimeLimit || null,
+        timeIncrement: rules.timeIncrement || 0,
+        exactFive: rules.exactFive || false,
+        renju: rules.renju || false,
+        // The bot only plays standard openings
+        opening: !isBotDifficulty(botDifficulty) && ['swap', 'swap2'].includes(rules.opening)
+          ? rules.opening
+          : 'standard',
       },
       gameStatus: 'waiting',
     });
@@ -86,12 +111,17 @@ export const createGame = async (req: Request, res: Response): Promise<void> =>
       player2GuestName: game.player2GuestName,
       player1Marker: game.player1Marker,
       player2Marker: game.player2Marker,
+      botDifficulty: game.botDifficulty || null,
       boardSize: game.boardSize,
       board: game.board,
       currentPlayer: game.currentPlayer,
       gameStatus: game.gameStatus,
       winner: game.winner,
+      winReason: game.winReason || null,
       rules: game.rules,
+      clock: getClockSnapshot(game),
+      blackPlayer: game.blackPlayer ?? null,
+      opening: game.opening,
       score: game.score,
       createdAt: game.createdAt.toISOString(),
       updatedAt: game.updatedAt.toISOString(),
@@ -129,12 +159,17 @@ export const getGame = async (req: Request, res: Response): Promise<void> => {
       player2GuestName: game.player2GuestName,
       player1Marker: game.player1Marker,
       player2Marker: game.player2Marker,
+      botDifficulty: game.botDifficulty || null,
       boardSize: game.boardSize,
       board: game.board,
       currentPlayer: game.currentPlayer,
       gameStatus: game.gameStatus,
       winner: game.winner,
+      winReason: game.winReason || null,
       rules: game.rules,
+      clock: getClockSnapshot(game),
+      blackPlayer: game.blackPlayer ?? null,
+      opening: game.opening,
       score: game.score,
       createdAt: game.createdAt.toISOString(),
       updatedAt: game.updatedAt.toISOString(),
@@ -169,12 +204,17 @@ export const getGameByCode = async (req: Request, res: Response): Promise<void>
       player2GuestName: game.player2GuestName,
       player1Marker: game.player1Marker,
       player2Marker: game.player2Marker,
+      botDifficulty: game.botDifficulty || null,
       boardSize: game.boardSize,
       board: game.board,
       currentPlayer: game.currentPlayer,
       gameStatus: game.gameStatus,
       winner: game.winner,
+      winReason: game.winReason || null,
       rules: game.rules,
+      clock: getClockSnapshot(game),
+      blackPlayer: game.blackPlayer ?? null,
+      opening: game.opening,
       score: game.score,
       createdAt: game.createdAt.toISOString(),
       updatedAt: game.updatedAt.toISOString(),
@@ -248,6 +288,7 @@ export const joinGame = async (req: Request, res: Response): Promise<void> => {
         player2GuestName: game.player2GuestName,
         player1Marker: game.player1Marker,
         player2Marker: game.player2Marker,
+        botDifficulty: game.botDifficulty || null,
         boardSize: game.boardSize,
         board: game.board,
         currentPlayer: game.currentPlayer,
@@ -352,12 +393,17 @@ export const joinGame = async (req: Request, res: Response): Promise<void> => {
       player2GuestName: game.player2GuestName,
       player1Marker: game.player1Marker,
       player2Marker: game.player2Marker,
+      botDifficulty: game.botDifficulty || null,
       boardSize: game.boardSize,
       board: game.board,
       currentPlayer: game.currentPlayer,
       gameStatus: game.gameStatus,
       winner: game.winner,
+      winReason: game.winReason || null,
       rules: game.rules,
+      clock: getClockSnapshot(game),
+      blackPlayer: game.blackPlayer ?? null,
+      opening: game.opening,
       score: game.score,
       createdAt: game.createdAt.toISOString(),
       updatedAt: game.updatedAt.toISOString(),
@@ -609,6 +655,12 @@ export const leaveGame = async (req: Request, res: Response): Promise<void> => {
       game.player2GuestId = null;
     }
 
+    // The bot never keeps a room on its own - free its seat so the game is deleted
+    if (isPlayer1 && isBotGame(game)) {
+      game.player2GuestId = null;
+      game.player2GuestName = null;
+    }
+
     // Check players AFTER removing (before save) - this is the actual state after removal
     const hasPlayer1AfterLocal = !!(game.player1 || game.player1GuestId);
     const hasPlayer2AfterLocal = !!(game.player2 || game.player2GuestId);
@@ -676,6 +728,7 @@ export const leaveGame = async (req: Request, res: Response): Promise<void> => {
 
       // Emit socket event to notify all clients
       io.emit('game-deleted', { roomId });
+      clearSpectators(io, roomId);
       
       res.json({ 
         message: wasFinished ? 'Game finished - saved to history and deleted' : 'Game deleted - no players remaining', 
@@ -759,6 +812,8 @@ export const leaveGame = async (req: Request, res: Response): Promise<void> => {
       // Delete game moves if game was reset (to reset undo count)
       if (gameReset) {
         await GameMove.deleteMany({ gameId: updatedGame._id });
+        updatedGame.winReason = null;
+        clearClock(roomId);
       }
 
       await updatedGame.save();
@@ -1055,12 +1110,43 @@ export const updateMarker = async (req: Request, res: Response): Promise<void> =
       message: 'Marker updated successfully',
       player1Marker: game.player1Marker,
       player2Marker: game.player2Marker,
+      botDifficulty: game.botDifficulty || null,
     });
   } catch (error: any) {
     res.status(500).json({ message: error.message });
   }
 };
 
+const formatMoves = (moves: IHistoryMove[]) => moves.map(m => ({
+  player: m.player,
+  row: m.row,
+  col: m.col,
+  moveNumber: m.moveNumber,
+  timestamp: new Date(m.timestamp).toISOString(),
+  isUndone: m.isUndone,
+}));
+
+/**
+ * Moves of the room's current round in play order (undone moves included and flagged).
+ * Guests keep their history in localStorage, so they fetch the moves here when a game ends.
+ */
+export const getGameMoves = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const game = await Game.findOne({ roomId }).select('_id');
+
+    if (!game) {
+      res.status(404).json({ message: 'Game not found' });
+      return;
+    }
+
+    const moves = await getOrderedMoves(game._id);
+    res.json({ moves: formatMoves(moves) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
 export const getGameHistory = async (req: Request, res: Response): Promise<void> => {
   try {
     const authReq = req as AuthRequest;
@@ -1103,7 +1189,7 @@ export const getGameHistory = async (req: Request, res: Response): Promise<void>
     let games = await GameHistory.find(query)
       .sort({ finishedAt: -1 })
       .limit(50)
-      .select('roomId roomCode boardSize board winner winningLine finishedAt createdAt player1 player2 score')
+      .select('roomId roomCode boardSize board winner winningLine moves finishedAt createdAt player1 player2 score')
       .populate('player1', 'username')
       .populate('player2', 'username')
       .lean();
@@ -1123,7 +1209,7 @@ export const getGameHistory = async (req: Request, res: Response): Promise<void>
       games = await GameHistory.find(query)
         .sort({ finishedAt: -1 })
         .limit(50)
-        .select('roomId roomCode boardSize board winner winningLine finishedAt createdAt player1 player2 score')
+        .select('roomId roomCode boardSize board winner winningLine moves finishedAt createdAt player1 player2 score')
         .populate('player1', 'username')
         .populate('player2', 'username')
         .lean();
@@ -1176,6 +1262,7 @@ export const getGameHistory = async (req: Request, res: Response): Promise<void>
         board: game.board,
         winner: game.winner,
         winningLine: game.winningLine,
+        moves: formatMoves(game.moves || []),
         result, // 'win' | 'loss' | 'draw'
         opponentUsername,
         finishedAt: game.finishedAt?.toISOString() || null,
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import GameStats from '../models/GameStats';
 import GameType from '../models/GameType';
+import Game from '../models/Game';
 import { AuthRequest } from '../middleware/authMiddleware';
 import { createSessionAfterSubmission } from '../middleware/validateScore';
 
@@ -159,6 +160,16 @@ export const submitGameResult = async (req: AuthRequest, res: Response): Promise
       return;
     }
 
+    // Games against the Caro bot are unranked
+    const roomId = req.body.gameData?.roomId;
+    if (gameId === 'caro' && typeof roomId === 'string') {
+      const room = await Game.findOne({ roomId }).select('botDifficulty').lean();
+      if (room?.botDifficulty) {
+        res.status(400).json({ message: 'Bot games do not count toward stats' });
+        return;
+      }
+    }
+
     // Find or create stats
     let stats = await GameStats.findOne({
       userId,
@@ -6,10 +6,15 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
 import GoGame from '../models/GoGame';
+import GoGameHistory from '../models/GoGameHistory';
+import GoProblemProgress from '../models/GoProblemProgress';
 import User from '../models/User';
 import { AuthRequest } from '../middleware/authMiddleware';
 import { generateGoRoomCode } from '../services/go-engine';
+import { buildSgf, parseSgf, replaySgf } from '../services/go-sgf';
+import { checkGoProblemAttempt, getGoProblem, listGoProblems, toPublicProblem } from '../services/go-problems';
 import { io } from '../server';
 
 // ─── Helper: extract userId from token (optional auth) ──────────
@@ -73,10 +78,15 @@ export const createRoom = async (req: Request, res: Response): Promise<void> =>
     const settings = {
       boardSize: rules.boardSize || 19,
       komi: rules.komi ?? 6.5,
+      ruleset: ['chinese', 'japanese', 'korean', 'aga'].includes(rules.ruleset) ? rules.ruleset : 'chinese',
       handicap: rules.handicap || 0,
       mainTime: rules.mainTime || 0,
       byoyomiPeriods: rules.byoyomiPeriods ?? 3,
       byoyomiTime: rules.byoyomiTime || 30,
+      timeSystem: ['byoyomi', 'canadian', 'fischer'].includes(rules.timeSystem) ? rules.timeSystem : 'byoyomi',
+      canadianStones: rules.canadianStones || 25,
+      canadianTime: rules.canadianTime || 600,
+      fischerIncrement: rules.fischerIncrement ?? 10,
     };
 
     const game = new GoGame({
@@ -402,3 +412,322 @@ export const getGameState = async (req: Request, res: Response): Promise<void> =
     res.status(500).json({ message: error.message || 'Failed to get game state' });
   }
 };
+
+// ─── GET /api/go/:roomId/sgf ─────────────────────────────────────
+
+export const exportSgf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const game = await GoGame.findOne({ roomId });
+
+    if (!game) {
+      res.status(404).json({ message: 'Game not found' });
+      return;
+    }
+
+    const nameFor = async (color: 'black' | 'white'): Promise<string> => {
+      const player = game.players.find(p => p.color === color);
+      if (!player) return color === 'black' ? 'Black' : 'White';
+      return resolvePlayerName(player.userId?.toString(), player.guestId, player.guestName);
+    };
+
+    const sgf = buildSgf(game, { black: await nameFor('black'), white: await nameFor('white') });
+
+    res.setHeader('Content-Type', 'application/x-go-sgf; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="go-${game.roomCode}.sgf"`);
+    res.send(sgf);
+  } catch (error: any) {
+    console.error('[go:exportSgf] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to export SGF' });
+  }
+};
+
+// ─── POST /api/go/import ─────────────────────────────────────────
+
+/**
+ * Replay an uploaded SGF through the engine and store it as a finished,
+ * review-only room. Clients open it with go:join-room { spectate: true }.
+ */
+export const importSgf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sgf, guestId } = req.body;
+
+    if (typeof sgf !== 'string' || !sgf.trim()) {
+      res.status(400).json({ message: 'sgf is required' });
+      return;
+    }
+
+    const userId = await extractUserId(req);
+    const importerId = userId || guestId;
+
+    if (!importerId) {
+      res.status(400).json({ message: 'Must provide userId (via token) or guestId' });
+      return;
+    }
+
+    let record;
+    try {
+      record = parseSgf(sgf);
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+      return;
+    }
+
+    const seat = (slot: 1 | 2, color: 'black' | 'white', name: string | null) => ({
+      slot,
+      guestId: `sgf-${color}`,
+      guestName: (name || (color === 'black' ? 'Black' : 'White')).slice(0, 20),
+      color,
+      captures: 0,
+      mainTimeLeft: 0,
+      byoyomiPeriodsLeft: 0,
+      passed: false,
+      scoringAgreed: false,
+      isConnected: false,
+    });
+
+    const game = new GoGame({
+      roomId: uuidv4(),
+      roomCode: await generateGoRoomCode(),
+      gameType: 'go',
+      hostPlayerId: importerId,
+      settings: {
+        boardSize: record.boardSize,
+        komi: record.komi,
+        ruleset: record.ruleset,
+        handicap: record.handicap,
+        mainTime: 0,
+      },
+      players: [seat(1, 'black', record.blackName), seat(2, 'white', record.whiteName)],
+      isReview: true,
+    });
+
+    try {
+      replaySgf(game, record);
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+      return;
+    }
+
+    const now = new Date();
+    game.gameStatus = 'finished';
+    game.phase = 'play';
+    game.startedAt = now;
+    game.finishedAt = now;
+
+    if (record.result) {
+      const winnerPlayer = game.players.find(p => p.color === record.result!.winner)!;
+      game.winner = {
+        slot: winnerPlayer.slot,
+        color: winnerPlayer.color,
+        guestId: winnerPlayer.guestId,
+        guestName: winnerPlayer.guestName,
+      };
+      game.winReason = record.result.winReason;
+    }
+
+    await game.save();
+
+    res.status(201).json({
+      roomId: game.roomId,
+      roomCode: game.roomCode,
+      settings: game.settings,
+      moveCount: game.moveCount,
+      blackName: game.players[0].guestName,
+      whiteName: game.players[1].guestName,
+      result: record.result,
+      date: record.date,
+    });
+  } catch (error: any) {
+    console.error('[go:importSgf] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to import SGF' });
+  }
+};
+
+// ─── GET /api/go/history ─────────────────────────────────────────
+
+/** Archived games of the authenticated user, newest first */
+export const getGoHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ message: 'Unauthorized' });
+      return;
+    }
+
+    const games = await GoGameHistory.find({ playerUserIds: new mongoose.Types.ObjectId(userId) })
+      .sort({ finishedAt: -1 })
+      .select('roomCode settings players winner winReason finalScore moveCount startedAt finishedAt')
+      .lean();
+
+    const history = games.map(game => {
+      const me = game.players.find(p => p.userId?.toString() === userId);
+      let result: 'win' | 'loss' | null = null;
+      if (me && game.winner) result = game.winner.color === me.color ? 'win' : 'loss';
+
+      return {
+        id: game._id.toString(),
+        roomCode: game.roomCode,
+        settings: game.settings,
+        players: game.players.map(p => ({ slot: p.slot, color: p.color, name: p.name, isBot: p.isBot })),
+        myColor: me?.color || null,
+        result,
+        winner: game.winner,
+        winReason: game.winReason,
+        finalScore: game.finalScore,
+        moveCount: game.moveCount,
+        startedAt: game.startedAt?.toISOString() || null,
+        finishedAt: game.finishedAt.toISOString(),
+      };
+    });
+
+    res.json({ history, total: history.length });
+  } catch (error: any) {
+    console.error('[go:getGoHistory] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to get history' });
+  }
+};
+
+// ─── GET /api/go/history/:historyId ──────────────────────────────
+
+/** Full archived game (moves, final position, territory) for the replay viewer */
+export const getGoHistoryDetail = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const { historyId } = req.params;
+    if (!userId) {
+      res.status(401).json({ message: 'Unauthorized' });
+      return;
+    }
+    if (!mongoose.Types.ObjectId.isValid(historyId)) {
+      res.status(404).json({ message: 'Game not found' });
+      return;
+    }
+
+    const game = await GoGameHistory.findOne({
+      _id: historyId,
+      playerUserIds: new mongoose.Types.ObjectId(userId),
+    }).lean();
+
+    if (!game) {
+      res.status(404).json({ message: 'Game not found' });
+      return;
+    }
+
+    res.json({
+      id: game._id.toString(),
+      roomCode: game.roomCode,
+      settings: game.settings,
+      players: game.players.map(p => ({
+        slot: p.slot, color: p.color, name: p.name, captures: p.captures, isBot: p.isBot,
+      })),
+      initialBoard: game.initialBoard,
+      finalBoard: game.finalBoard,
+      moveHistory: game.moveHistory,
+      moveCount: game.moveCount,
+      deadStones: game.deadStones,
+      territory: game.territory,
+      finalScore: game.finalScore,
+      winner: game.winner,
+      winReason: game.winReason,
+      startedAt: game.startedAt?.toISOString() || null,
+      finishedAt: game.finishedAt.toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[go:getGoHistoryDetail] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to get game' });
+  }
+};
+
+// ─── GET /api/go/problems ────────────────────────────────────────
+
+/** Built-in problems (without solutions), plus the caller's progress when signed in */
+export const getGoProblems = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await extractUserId(req);
+    const progress: Record<string, { attempts: number; solved: boolean }> = {};
+
+    if (userId) {
+      const records = await GoProblemProgress.find({ userId: new mongoose.Types.ObjectId(userId) })
+        .select('problemId attempts solved')
+        .lean();
+      for (const r of records) progress[r.problemId] = { attempts: r.attempts, solved: r.solved };
+    }
+
+    const problems = listGoProblems().map(p => ({
+      id: p.id,
+      titleKey: p.titleKey,
+      difficulty: p.difficulty,
+      goal: p.goal,
+      toPlay: p.toPlay,
+      boardSize: p.boardSize,
+      attempts: progress[p.id]?.attempts ?? 0,
+      solved: progress[p.id]?.solved ?? false,
+    }));
+
+    res.json({ problems, total: problems.length });
+  } catch (error: any) {
+    console.error('[go:getGoProblems] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to get problems' });
+  }
+};
+
+// ─── GET /api/go/problems/:problemId ─────────────────────────────
+
+export const getGoProblemById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const problem = getGoProblem(req.params.problemId);
+    if (!problem) {
+      res.status(404).json({ message: 'Problem not found' });
+      return;
+    }
+    res.json(toPublicProblem(problem));
+  } catch (error: any) {
+    console.error('[go:getGoProblemById] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to get problem' });
+  }
+};
+
+// ─── POST /api/go/problems/:problemId/attempt ────────────────────
+
+/**
+ * Check the solver's moves so far ({ moves: {row, col}[] }). A finished attempt
+ * (correct or wrong) counts toward the signed-in user's progress; guests just get the verdict.
+ */
+export const submitGoProblemAttempt = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { problemId } = req.params;
+    const result = checkGoProblemAttempt(problemId, req.body?.moves);
+    if (!result.ok) {
+      res.status(result.error === 'GO_PROBLEM_NOT_FOUND' ? 404 : 400).json({ message: result.error });
+      return;
+    }
+
+    const outcome = result.value;
+    let solved: boolean | null = null;
+    const userId = await extractUserId(req);
+
+    if (userId && outcome.status !== 'continue') {
+      const now = new Date();
+      const progress = await GoProblemProgress.findOneAndUpdate(
+        { userId: new mongoose.Types.ObjectId(userId), problemId },
+        {
+          $inc: { attempts: 1 },
+          $set: { lastAttemptAt: now },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      );
+      if (outcome.status === 'correct' && !progress.solved) {
+        progress.solved = true;
+        progress.solvedAt = now;
+        await progress.save();
+      }
+      solved = progress.solved;
+    }
+
+    res.json({ ...outcome, solved });
+  } catch (error: any) {
+    console.error('[go:submitGoProblemAttempt] Error:', error.message);
+    res.status(500).json({ message: error.message || 'Failed to check attempt' });
+  }
+};
@@ -1,13 +1,17 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import GameStats from '../models/GameStats';
 import GameType from '../models/GameType';
 import Leaderboard from '../models/Leaderboard';
 import User from '../models/User';
+import RatingHistory from '../models/RatingHistory';
 import { IRanking } from '../models/Leaderboard';
 
+type SortBy = 'rating' | 'score';
+
 /**
  * Get leaderboard for a specific game
- * Supports daily, weekly, and all-time periods
+ * Supports daily, weekly, and all-time periods, ranked by rating (default) or score
  */
 export const getLeaderboard = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -15,12 +19,18 @@ export const getLeaderboard = async (req: Request, res: Response): Promise<void>
     const period = (req.query.period as string) || 'all-time';
     const limit = parseInt(req.query.limit as string) || 50;
     const offset = parseInt(req.query.offset as string) || 0;
+    const sortBy = parseSortBy(req);
 
     if (!['daily', 'weekly', 'all-time'].includes(period)) {
       res.status(400).json({ message: 'Invalid period. Must be daily, weekly, or all-time' });
       return;
     }
 
+    if (!sortBy) {
+      res.status(400).json({ message: 'Invalid sortBy. Must be rating or score' });
+      return;
+    }
+
     // Verify game exists
     const gameType = await GameType.findOne({ gameId, isActive: true });
     if (!gameType) {
@@ -30,7 +40,25 @@ export const getLeaderboard = async (req: Request, res: Response): Promise<void>
 
     let leaderboardData;
 
-    if (period === 'all-time') {
+    if (sortBy === 'rating') {
+      // Ratings are current values, so every period queries GameStats directly
+      const stats = await GameStats.find(getRatingFilter(gameId, period))
+        .populate('userId', 'username')
+        .sort(RATING_SORT)
+        .limit(limit)
+        .skip(offset);
+
+      leaderboardData = stats.map((stat, index) => ({
+        rank: offset + index + 1,
+        userId: stat.userId,
+        username: (stat.userId as any)?.username || 'Unknown',
+        ...formatRating(stat),
+        score: stat.totalScore,
+        wins: stat.wins,
+        losses: stat.losses,
+        draws: stat.draws,
+      }));
+    } else if (period === 'all-time') {
       // Query directly from GameStats for all-time
       const stats = await GameStats.find({ gameId })
         .populate('userId', 'username')
@@ -89,6 +117,7 @@ export const getLeaderboard = async (req: Request, res: Response): Promise<void>
     res.json({
       gameId,
       period,
+      sortBy,
       rankings: leaderboardData,
       limit,
       offset,
@@ -106,12 +135,18 @@ export const getUserRank = async (req: Request, res: Response): Promise<void> =>
   try {
     const { gameId, userId } = req.params;
     const period = (req.query.period as string) || 'all-time';
+    const sortBy = parseSortBy(req);
 
     if (!['daily', 'weekly', 'all-time'].includes(period)) {
       res.status(400).json({ message: 'Invalid period. Must be daily, weekly, or all-time' });
       return;
     }
 
+    if (!sortBy) {
+      res.status(400).json({ message: 'Invalid sortBy. Must be rating or score' });
+      return;
+    }
+
     // Verify game exists
     const gameType = await GameType.findOne({ gameId, isActive: true });
     if (!gameType) {
@@ -132,7 +167,12 @@ export const getUserRank = async (req: Request, res: Response): Promise<void> =>
     let rank: number | null;
     let totalPlayers: number;
 
-    if (period === 'all-time') {
+    if (sortBy === 'rating') {
+      const filter = getRatingFilter(gameId, period);
+      const isListed = await GameStats.exists({ ...filter, _id: userStats._id });
+      rank = isListed ? await countRatedAbove(filter, userStats.rating) + 1 : null;
+      totalPlayers = await GameStats.countDocuments(filter);
+    } else if (period === 'all-time') {
       // Count users with better stats
       rank = await GameStats.countDocuments({
         gameId,
@@ -181,6 +221,7 @@ export const getUserRank = async (req: Request, res: Response): Promise<void> =>
         losses: userStats.losses,
         draws: userStats.draws,
         totalScore: userStats.totalScore,
+        ...formatRating(userStats),
       },
     });
   } catch (error: any) {
@@ -196,12 +237,18 @@ export const getRankAroundUser = async (req: Request, res: Response): Promise<vo
     const { gameId, userId } = req.params;
     const period = (req.query.period as string) || 'all-time';
     const range = parseInt(req.query.range as string) || 5;
+    const sortBy = parseSortBy(req);
 
     if (!['daily', 'weekly', 'all-time'].includes(period)) {
       res.status(400).json({ message: 'Invalid period. Must be daily, weekly, or all-time' });
       return;
     }
 
+    if (!sortBy) {
+      res.status(400).json({ message: 'Invalid sortBy. Must be rating or score' });
+      return;
+    }
+
     // Verify game exists
     const gameType = await GameType.findOne({ gameId, isActive: true });
     if (!gameType) {
@@ -221,7 +268,34 @@ export const getRankAroundUser = async (req: Request, res: Response): Promise<vo
     let rankings: any[];
     let userRank: number | null = null;
 
-    if (period === 'all-time') {
+    if (sortBy === 'rating') {
+      const filter = getRatingFilter(gameId, period);
+      const isListed = await GameStats.exists({ ...filter, _id: userStats._id });
+
+      if (isListed) {
+        userRank = await countRatedAbove(filter, userStats.rating) + 1;
+        const startRank = Math.max(1, userRank - range);
+        const endRank = userRank + range;
+
+        const stats = await GameStats.find(filter)
+          .populate('userId', 'username')
+          .sort(RATING_SORT)
+          .skip(startRank - 1)
+          .limit(endRank - startRank + 1);
+
+        rankings = stats.map((stat, index) => ({
+          rank: startRank + index,
+          userId: stat.userId,
+          username: (stat.userId as any)?.username || 'Unknown',
+          ...formatRating(stat),
+          score: stat.totalScore,
+          wins: stat.wins,
+          isCurrentUser: (stat.userId as any)?._id?.toString() === userId,
+        }));
+      } else {
+        rankings = [];
+      }
+    } else if (period === 'all-time') {
       // Find user's rank
       userRank = await GameStats.countDocuments({
         gameId,
@@ -309,8 +383,79 @@ export const getRankAroundUser = async (req: Request, res: Response): Promise<vo
   }
 };
 
+/**
+ * Get a user's rating history for a game (newest first)
+ */
+export const getRatingHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { gameId, userId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ message: 'Invalid user ID' });
+      return;
+    }
+
+    const history = await RatingHistory.find({ userId, gameId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('ratingBefore ratingAfter deviationAfter change place playerCount createdAt')
+      .lean();
+
+    res.json({
+      gameId,
+      history: history.map((h) => ({
+        rating: h.ratingAfter,
+        ratingDeviation: h.deviationAfter,
+        change: h.change,
+        place: h.place,
+        playerCount: h.playerCount,
+        date: h.createdAt,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
 // Helper functions
 
+const RATING_SORT = { rating: -1, ratingDeviation: 1, _id: 1 } as const;
+
+/**
+ * Read ?sortBy= (defaults to rating); null when invalid
+ */
+function parseSortBy(req: Request): SortBy | null {
+  const sortBy = (req.query.sortBy as string) || 'rating';
+  return sortBy === 'rating' || sortBy === 'score' ? sortBy : null;
+}
+
+/**
+ * Rated players for a period: all-time lists everyone with a rated game,
+ * daily/weekly list players who played a rated game in that period
+ */
+function getRatingFilter(gameId: string, period: string): Record<string, any> {
+  const filter: Record<string, any> = { gameId, ratedGames: { $gt: 0 } };
+  if (period !== 'all-time') {
+    const periodStart = getPeriodStart(period);
+    filter.lastRatedAt = { $gte: periodStart, $lt: getPeriodEnd(period, periodStart) };
+  }
+  return filter;
+}
+
+function countRatedAbove(filter: Record<string, any>, rating: number): Promise<number> {
+  return GameStats.countDocuments({ ...filter, rating: { $gt: rating } });
+}
+
+function formatRating(stat: { rating: number; ratingDeviation: number; ratedGames: number; peakRating: number }) {
+  return {
+    rating: Math.round(stat.rating),
+    ratingDeviation: Math.round(stat.ratingDeviation),
+    ratedGames: stat.ratedGames,
+    peakRating: Math.round(stat.peakRating),
+  };
+}
+
 /**
  * Get period start date
  */
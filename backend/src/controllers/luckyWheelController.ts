@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
-import LuckyWheelConfig, { IWheelItem } from '../models/LuckyWheelConfig';
+import LuckyWheelConfig, { IWheelItem, ILuckyWheelConfig } from '../models/LuckyWheelConfig';
+import LuckyWheelSpin from '../models/LuckyWheelSpin';
 import { AuthRequest } from '../middleware/authMiddleware';
 
 // Default items nếu user chưa có config
@@ -16,6 +17,86 @@ const defaultItems: IWheelItem[] = [
   { label: 'Giải 8 🎁', weight: 1 },
 ];
 
+const DEFAULT_WHEEL_NAME = 'Vòng quay 1';
+const MAX_WHEELS = 10;
+const MAX_HISTORY_LIMIT = 200;
+
+/**
+ * Validate wheel items, returns an error message or null
+ */
+const getItemsError = (items: unknown): string | null => {
+  if (!Array.isArray(items) || items.length < 2 || items.length > 12) {
+    return 'Items must be an array with 2-12 items';
+  }
+  for (const item of items) {
+    if (!item || !item.label || typeof item.label !== 'string' || item.label.trim().length === 0) {
+      return 'Each item must have a valid label';
+    }
+    if (typeof item.weight !== 'number' || item.weight < 0 || item.weight > 100) {
+      return 'Each item weight must be between 0 and 100';
+    }
+  }
+  return null;
+};
+
+/**
+ * Build the config query for the current user (authenticated) or guest
+ */
+const getOwnerQuery = (req: Request): { userId: string } | { guestId: string } | null => {
+  const userId = (req as AuthRequest).user?.userId;
+  if (userId) return { userId };
+  const guestId = req.body?.guestId || req.query.guestId as string;
+  return guestId ? { guestId } : null;
+};
+
+/**
+ * Migrate single-list configs: wrap `items` into a first named wheel
+ * Returns true if the config was changed
+ */
+const ensureWheels = (config: ILuckyWheelConfig): boolean => {
+  if (config.wheels.length > 0 && config.activeWheelId && config.wheels.id(config.activeWheelId)) {
+    return false;
+  }
+  if (config.wheels.length === 0) {
+    config.wheels.push({
+      name: DEFAULT_WHEEL_NAME,
+      items: config.items.map(item => ({ label: item.label, weight: item.weight })),
+    });
+  }
+  config.activeWheelId = config.wheels[0]._id;
+  return true;
+};
+
+const serializeWheels = (config: ILuckyWheelConfig) => ({
+  activeWheelId: config.activeWheelId,
+  wheels: config.wheels.map(wheel => ({
+    _id: wheel._id,
+    name: wheel.name,
+    items: wheel.items,
+    eliminationMode: wheel.eliminationMode,
+    eliminated: wheel.eliminated,
+    createdAt: wheel.createdAt,
+  })),
+});
+
+/**
+ * Load (or create with default items) the config of the current user, with wheels migrated
+ * Sends the error response and returns null if the owner can't be resolved
+ */
+const loadOwnerConfig = async (req: Request, res: Response): Promise<ILuckyWheelConfig | null> => {
+  const query = getOwnerQuery(req);
+  if (!query) {
+    res.status(400).json({ message: 'Either userId (authenticated) or guestId must be provided' });
+    return null;
+  }
+  let config = await LuckyWheelConfig.findOne(query);
+  if (!config) {
+    config = new LuckyWheelConfig({ ...query, items: defaultItems });
+  }
+  ensureWheels(config);
+  return config;
+};
+
 interface SaveConfigRequest extends Request {
   body: {
     items: IWheelItem[];
@@ -33,23 +114,12 @@ export const saveConfig = async (req: SaveConfigRequest, res: Response): Promise
     const authReq = req as AuthRequest;
 
     // Validate items
-    if (!Array.isArray(items) || items.length < 2 || items.length > 12) {
-      res.status(400).json({ message: 'Items must be an array with 2-12 items' });
+    const itemsError = getItemsError(items);
+    if (itemsError) {
+      res.status(400).json({ message: itemsError });
       return;
     }
 
-    // Validate each item
-    for (const item of items) {
-      if (!item.label || typeof item.label !== 'string' || item.label.trim().length === 0) {
-        res.status(400).json({ message: 'Each item must have a valid label' });
-        return;
-      }
-      if (typeof item.weight !== 'number' || item.weight < 0 || item.weight > 100) {
-        res.status(400).json({ message: 'Each item weight must be between 0 and 100' });
-        return;
-      }
-    }
-
     // Determine if authenticated or guest
     const userId = authReq.user?.userId;
     const finalGuestId = guestId || (userId ? undefined : req.body.guestId);
@@ -67,7 +137,8 @@ export const saveConfig = async (req: SaveConfigRequest, res: Response): Promise
     const existingConfig = await LuckyWheelConfig.findOne(query);
 
     if (existingConfig) {
-      // Update existing config
+      // Update existing config (pre-save hook copies items into the active wheel)
+      ensureWheels(existingConfig);
       existingConfig.items = items;
       if (finalGuestId && guestName) {
         existingConfig.guestId = finalGuestId;
@@ -88,6 +159,7 @@ export const saveConfig = async (req: SaveConfigRequest, res: Response): Promise
         guestName: guestName || undefined,
         items,
       });
+      ensureWheels(newConfig);
       await newConfig.save();
       res.status(201).json({
         message: 'Config saved successfully',
@@ -114,6 +186,8 @@ export const getMyConfig = async (req: Request, res: Response): Promise<void> =>
         config: null,
         items: defaultItems,
         isDefault: true,
+        wheels: [],
+        activeWheelId: null,
       });
       return;
     }
@@ -130,13 +204,18 @@ export const getMyConfig = async (req: Request, res: Response): Promise<void> =>
         config: null,
         items: defaultItems,
         isDefault: true,
+        wheels: [],
+        activeWheelId: null,
       });
       return;
     }
 
     // Update lastActivityAt when config is accessed (for guest users)
+    const migrated = ensureWheels(config);
     if (config.guestId) {
       config.lastActivityAt = new Date();
+    }
+    if (migrated || config.guestId) {
       await config.save();
     }
 
@@ -152,6 +231,7 @@ export const getMyConfig = async (req: Request, res: Response): Promise<void> =>
       },
       items: config.items,
       isDefault: false,
+      ...serializeWheels(config),
     });
   } catch (error: any) {
     res.status(500).json({ message: error.message || 'Failed to get config' });
@@ -171,6 +251,7 @@ export const deleteGuestConfig = async (req: Request, res: Response): Promise<vo
     }
 
     const result = await LuckyWheelConfig.deleteOne({ guestId });
+    await LuckyWheelSpin.deleteMany({ guestId });
 
     if (result.deletedCount === 0) {
       res.status(404).json({ message: 'Config not found' });
@@ -283,6 +364,7 @@ const enforceMaxGuestConfigs = async (): Promise<number> => {
     // Delete oldest configs
     const idsToDelete = oldestConfigs.map(c => c._id);
     const result = await LuckyWheelConfig.deleteMany({ _id: { $in: idsToDelete } });
+    await LuckyWheelSpin.deleteMany({ guestId: { $in: oldestConfigs.map(c => c.guestId) } });
 
     // Emit socket events for deleted guests
     try {
@@ -314,10 +396,15 @@ export const cleanupInactiveGuests = async (): Promise<number> => {
       return 0;
     }
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    const result = await LuckyWheelConfig.deleteMany({
+    const inactiveQuery = {
       guestId: { $ne: null },
       lastActivityAt: { $lt: twentyFourHoursAgo },
-    });
+    };
+    const inactiveGuestIds = await LuckyWheelConfig.find(inactiveQuery).distinct('guestId');
+    const result = await LuckyWheelConfig.deleteMany(inactiveQuery);
+    if (inactiveGuestIds.length > 0) {
+      await LuckyWheelSpin.deleteMany({ guestId: { $in: inactiveGuestIds } });
+    }
     return result.deletedCount;
   } catch (error: any) {
     const name = error?.name || '';
@@ -369,3 +456,311 @@ export const getUserConfig = async (req: Request, res: Response): Promise<void>
     res.status(500).json({ message: error.message || 'Failed to get user config' });
   }
 };
+
+// ─── Multiple Wheels ───────────────────────────────────────────
+
+/**
+ * Create a new named wheel and make it active
+ */
+export const createWheel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, items } = req.body;
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    if (config.wheels.length >= MAX_WHEELS) {
+      res.status(400).json({ message: `You can have at most ${MAX_WHEELS} wheels` });
+      return;
+    }
+    if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 50) {
+      res.status(400).json({ message: 'Wheel name must be 1-50 characters' });
+      return;
+    }
+    const wheelItems: IWheelItem[] = items ?? defaultItems;
+    const itemsError = getItemsError(wheelItems);
+    if (itemsError) {
+      res.status(400).json({ message: itemsError });
+      return;
+    }
+
+    config.wheels.push({
+      name: name.trim(),
+      items: wheelItems.map(item => ({ label: item.label.trim(), weight: item.weight })),
+    });
+    const wheel = config.wheels[config.wheels.length - 1];
+    config.activeWheelId = wheel._id;
+    config.items = wheel.items;
+    config.lastActivityAt = new Date();
+    await config.save();
+
+    res.status(201).json({ message: 'Wheel created successfully', items: config.items, ...serializeWheels(config) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to create wheel' });
+  }
+};
+
+/**
+ * Rename a wheel, replace its items or toggle elimination mode
+ * Changing items or the mode starts a fresh elimination round
+ */
+export const updateWheel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, items, eliminationMode } = req.body;
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    const wheel = config.wheels.id(req.params.wheelId);
+    if (!wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 50) {
+        res.status(400).json({ message: 'Wheel name must be 1-50 characters' });
+        return;
+      }
+      wheel.name = name.trim();
+    }
+    if (items !== undefined) {
+      const itemsError = getItemsError(items);
+      if (itemsError) {
+        res.status(400).json({ message: itemsError });
+        return;
+      }
+      wheel.items = items.map((item: IWheelItem) => ({ label: item.label.trim(), weight: item.weight }));
+      wheel.eliminated = [];
+    }
+    if (typeof eliminationMode === 'boolean' && eliminationMode !== wheel.eliminationMode) {
+      wheel.eliminationMode = eliminationMode;
+      wheel.eliminated = [];
+    }
+    if (config.activeWheelId?.equals(wheel._id)) {
+      config.items = wheel.items;
+    }
+    await config.save();
+
+    res.json({ message: 'Wheel updated successfully', items: config.items, ...serializeWheels(config) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to update wheel' });
+  }
+};
+
+/**
+ * Delete a wheel and its spin history (the last wheel can't be deleted)
+ */
+export const deleteWheel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    const wheel = config.wheels.id(req.params.wheelId);
+    if (!wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+    if (config.wheels.length <= 1) {
+      res.status(400).json({ message: 'At least one wheel is required' });
+      return;
+    }
+
+    const wasActive = config.activeWheelId?.equals(wheel._id);
+    wheel.deleteOne();
+    if (wasActive) {
+      config.activeWheelId = config.wheels[0]._id;
+      config.items = config.wheels[0].items;
+    }
+    await config.save();
+    await LuckyWheelSpin.deleteMany({ wheelId: wheel._id });
+
+    res.json({ message: 'Wheel deleted successfully', items: config.items, ...serializeWheels(config) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to delete wheel' });
+  }
+};
+
+/**
+ * Switch the active wheel (the one shown on the wheel page)
+ */
+export const activateWheel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    const wheel = config.wheels.id(req.params.wheelId);
+    if (!wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+
+    config.activeWheelId = wheel._id;
+    config.items = wheel.items;
+    config.lastActivityAt = new Date();
+    await config.save();
+
+    res.json({ message: 'Wheel activated', items: config.items, ...serializeWheels(config) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to activate wheel' });
+  }
+};
+
+// ─── Spin History & Elimination ────────────────────────────────
+
+/**
+ * Record a spin result for a wheel
+ * In elimination mode the winning item is removed from play until one remains
+ */
+export const recordSpin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { index } = req.body;
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    const wheel = config.wheels.id(req.params.wheelId);
+    if (!wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= wheel.items.length) {
+      res.status(400).json({ message: 'Invalid item index' });
+      return;
+    }
+
+    const eliminated = wheel.eliminationMode ? wheel.eliminated : [];
+    if (eliminated.includes(index)) {
+      res.status(400).json({ message: 'Item was already eliminated' });
+      return;
+    }
+    const inPlay = wheel.items.filter((_, i) => !eliminated.includes(i));
+    if (wheel.eliminationMode && inPlay.length <= 1) {
+      res.status(400).json({ message: 'Only one item remains, reset the round to spin again' });
+      return;
+    }
+
+    const item = wheel.items[index];
+    const ownerQuery = getOwnerQuery(req)!;
+    const spin = await LuckyWheelSpin.create({
+      ...ownerQuery,
+      wheelId: wheel._id,
+      label: item.label,
+      weight: item.weight,
+      totalWeight: inPlay.reduce((sum, i) => sum + i.weight, 0),
+      itemCount: inPlay.length,
+    });
+
+    if (wheel.eliminationMode) {
+      wheel.eliminated.push(index);
+    }
+    config.lastActivityAt = new Date();
+    await config.save();
+
+    res.status(201).json({
+      spin,
+      eliminated: wheel.eliminated,
+      remaining: wheel.items.length - wheel.eliminated.length,
+    });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to record spin' });
+  }
+};
+
+/**
+ * Bring every eliminated item back into play
+ */
+export const resetElimination = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await loadOwnerConfig(req, res);
+    if (!config) return;
+
+    const wheel = config.wheels.id(req.params.wheelId);
+    if (!wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+
+    wheel.eliminated = [];
+    await config.save();
+
+    res.json({ message: 'Elimination round reset', eliminated: wheel.eliminated });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to reset elimination' });
+  }
+};
+
+/**
+ * Get recent spins of a wheel plus per-item frequency stats over its whole history
+ */
+export const getSpinHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerQuery = getOwnerQuery(req);
+    if (!ownerQuery) {
+      res.status(400).json({ message: 'Either userId (authenticated) or guestId must be provided' });
+      return;
+    }
+    const config = await LuckyWheelConfig.findOne(ownerQuery);
+    const wheel = config?.wheels.id(req.params.wheelId);
+    if (!config || !wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_HISTORY_LIMIT);
+    const spinQuery = { ...ownerQuery, wheelId: wheel._id };
+    // aggregate() skips schema casting, so the userId needs to be an ObjectId
+    const matchQuery = 'userId' in ownerQuery
+      ? { userId: new mongoose.Types.ObjectId(ownerQuery.userId), wheelId: wheel._id }
+      : spinQuery;
+
+    const [history, counts] = await Promise.all([
+      LuckyWheelSpin.find(spinQuery).sort({ spunAt: -1 }).limit(limit)
+        .select('label weight totalWeight itemCount spunAt').lean(),
+      LuckyWheelSpin.aggregate<{ _id: string; count: number }>([
+        { $match: matchQuery },
+        { $group: { _id: '$label', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    // Expected share uses the wheel's current weights (labels may repeat)
+    const total = counts.reduce((sum, c) => sum + c.count, 0);
+    const totalWeight = wheel.items.reduce((sum, item) => sum + item.weight, 0);
+    const labels = Array.from(new Set([...wheel.items.map(item => item.label), ...counts.map(c => c._id)]));
+    const stats = labels.map(label => {
+      const count = counts.find(c => c._id === label)?.count || 0;
+      const weight = wheel.items.filter(item => item.label === label).reduce((sum, item) => sum + item.weight, 0);
+      return {
+        label,
+        count,
+        percentage: total > 0 ? Math.round((count / total) * 1000) / 10 : 0,
+        expected: totalWeight > 0 ? Math.round((weight / totalWeight) * 1000) / 10 : 0,
+      };
+    }).sort((a, b) => b.count - a.count);
+
+    res.json({ history, stats, total });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to get spin history' });
+  }
+};
+
+/**
+ * Clear the spin history of a wheel
+ */
+export const clearSpinHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerQuery = getOwnerQuery(req);
+    if (!ownerQuery) {
+      res.status(400).json({ message: 'Either userId (authenticated) or guestId must be provided' });
+      return;
+    }
+    const config = await LuckyWheelConfig.findOne(ownerQuery);
+    const wheel = config?.wheels.id(req.params.wheelId);
+    if (!config || !wheel) {
+      res.status(404).json({ message: 'Wheel not found' });
+      return;
+    }
+
+    const result = await LuckyWheelSpin.deleteMany({ ...ownerQuery, wheelId: wheel._id });
+    res.json({ message: 'History cleared', deletedCount: result.deletedCount });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to clear history' });
+  }
+};
@@ -0,0 +1,243 @@
+import { Response } from 'express';
+import MissingWord from '../models/MissingWord';
+import DictionaryOverride from '../models/DictionaryOverride';
+import DictionaryAuditLog from '../models/DictionaryAuditLog';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { getDictionary, normalizeWord } from '../services/word-chain-dictionary';
+import {
+  DictionaryActor,
+  MAX_WORDS_PER_CHANGE,
+  parseWordInput,
+  changeDictionaryWords,
+  reloadDictionaryFromDisk,
+} from '../services/word-chain-dictionary-admin';
+
+const MISSING_WORD_SORTS: Record<string, string> = {
+  count: 'count',
+  lastSeen: 'lastSeenAt',
+  firstSeen: 'firstSeenAt',
+  word: 'word',
+  challenges: 'challenges',
+};
+
+function getActor(req: AuthRequest): DictionaryActor {
+  return { userId: req.user!.userId, username: req.user!.username };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * List reported missing/disputed words
+ * Query: status (pending|accepted|rejected|all), search, sort, order (asc|desc), page, limit
+ */
+export const listMissingWords = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const skip = (page - 1) * limit;
+    const status = (req.query.status as string) || 'pending';
+    const search = (req.query.search as string)?.trim();
+    const sortField = MISSING_WORD_SORTS[req.query.sort as string] || 'count';
+    const order = req.query.order === 'asc' ? 1 : -1;
+
+    const query: any = {};
+    if (status !== 'all') query.status = status;
+    if (search) query.word = { $regex: escapeRegex(normalizeWord(search)) };
+
+    const [docs, total, statusCounts] = await Promise.all([
+      MissingWord.find(query)
+        .sort({ [sortField]: order, word: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      MissingWord.countDocuments(query),
+      MissingWord.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    ]);
+
+    const dict = getDictionary();
+    const counts: Record<string, number> = { pending: 0, accepted: 0, rejected: 0 };
+    for (const entry of statusCounts) counts[entry._id] = entry.count;
+
+    res.json({
+      words: docs.map(doc => ({
+        word: doc.word,
+        count: doc.count,
+        status: doc.status,
+        kind: doc.kind || 'missing',
+        votes: doc.votes || { accept: 0, reject: 0 },
+        challenges: doc.challenges || 0,
+        lastChallengeResult: doc.lastChallengeResult || null,
+        firstSeenAt: doc.firstSeenAt,
+        lastSeenAt: doc.lastSeenAt,
+        inDictionary: dict.allWords.has(doc.word),
+      })),
+      counts,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to list missing words' });
+  }
+};
+
+/**
+ * Accept or reject reported words in bulk
+ * Body: { words: string[], status: 'accepted' | 'rejected' }
+ */
+export const reviewMissingWords = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { status } = req.body;
+    if (status !== 'accepted' && status !== 'rejected') {
+      res.status(400).json({ message: 'status must be accepted or rejected' });
+      return;
+    }
+
+    const { words, invalid } = parseWordInput(req.body.words);
+    if (words.length === 0 && invalid.length === 0) {
+      res.status(400).json({ message: `words must be a non-empty array (max ${MAX_WORDS_PER_CHANGE})` });
+      return;
+    }
+
+    // Invalid input can still be rejected — it just never enters the dictionary
+    if (status === 'rejected' && invalid.length > 0) {
+      await MissingWord.updateMany({ word: { $in: invalid } }, { $set: { status: 'rejected' } });
+    }
+
+    const result = await changeDictionaryWords(
+      getActor(req),
+      status === 'accepted' ? 'accept' : 'reject',
+      words,
+      status === 'accepted' ? invalid : []
+    );
+    res.json({ message: 'Words reviewed', ...result });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to review words' });
+  }
+};
+
+/**
+ * Look up words in the live dictionary plus the current admin overrides
+ * Query: search (prefix match, min 1 char)
+ */
+export const getDictionaryInfo = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const dict = getDictionary();
+    const search = normalizeWord((req.query.search as string) || '');
+
+    const matches: string[] = [];
+    if (search) {
+      for (const word of dict.allWords) {
+        if (word.startsWith(search)) {
+          matches.push(word);
+          if (matches.length >= 50) break;
+        }
+      }
+      matches.sort();
+    }
+
+    const overrides = await DictionaryOverride.find()
+      .sort({ updatedAt: -1 })
+      .limit(200)
+      .populate('updatedBy', 'username')
+      .lean();
+
+    res.json({
+      totalWords: dict.totalWords,
+      totalCompound: dict.totalCompound,
+      totalSingle: dict.totalSingle,
+      search,
+      exact: search ? dict.allWords.has(search) : false,
+      matches,
+      overrides: overrides.map(o => ({
+        word: o.word,
+        action: o.action,
+        updatedBy: (o.updatedBy as any)?.username || null,
+        updatedAt: o.updatedAt,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to load dictionary' });
+  }
+};
+
+/**
+ * Add arbitrary words to the live dictionary
+ * Body: { words: string[] }
+ */
+export const addDictionaryWords = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { words, invalid } = parseWordInput(req.body.words);
+    if (words.length === 0) {
+      res.status(400).json({ message: 'No valid Vietnamese words to add', invalid });
+      return;
+    }
+
+    const result = await changeDictionaryWords(getActor(req), 'add', words, invalid);
+    res.json({ message: 'Words added', ...result });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to add words' });
+  }
+};
+
+/**
+ * Remove arbitrary words from the live dictionary
+ * Body: { words: string[] }
+ */
+export const removeDictionaryWords = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { words, invalid } = parseWordInput(req.body.words);
+    if (words.length === 0) {
+      res.status(400).json({ message: 'No valid Vietnamese words to remove', invalid });
+      return;
+    }
+
+    const result = await changeDictionaryWords(getActor(req), 'remove', words, invalid);
+    res.json({ message: 'Words removed', ...result });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to remove words' });
+  }
+};
+
+/**
+ * Re-read the wordlist files and re-apply overrides (no server restart)
+ */
+export const reloadDictionary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const dict = await reloadDictionaryFromDisk(getActor(req));
+    res.json({ message: 'Dictionary reloaded', dictionarySize: dict.totalWords });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to reload dictionary' });
+  }
+};
+
+/**
+ * Dictionary audit log, newest first
+ * Query: page, limit
+ */
+export const listDictionaryAudit = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      DictionaryAuditLog.find().sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      DictionaryAuditLog.countDocuments(),
+    ]);
+
+    res.json({
+      entries: entries.map(e => ({
+        id: String(e._id),
+        action: e.action,
+        words: e.words,
+        username: e.username,
+        dictionarySize: e.dictionarySize,
+        createdAt: e.createdAt,
+      })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to load audit log' });
+  }
+};
@@ -9,7 +9,7 @@ import bcrypt from 'bcryptjs';
 import WordChainGame from '../models/WordChainGame';
 import User from '../models/User';
 import { AuthRequest } from '../middleware/authMiddleware';
-import { generateWordChainRoomCode } from '../services/word-chain-engine';
+import { generateWordChainRoomCode, parseScoringRules, balanceTeams } from '../services/word-chain-engine';
 import { io } from '../server';
 
 // ─── Helper: extract userId from token (optional auth) ──────
@@ -94,6 +94,7 @@ export const createRoom = async (req: Request, res: Response): Promise<void> =>
         gameMode: rules.gameMode || 'classic',
         allowRepeat: rules.allowRepeat || false,
         showHint: rules.showHint !== undefined ? rules.showHint : true,
+        scoring: parseScoringRules(rules.scoring),
       },
       password: hashedPassword,
       players: [{
@@ -104,8 +105,10 @@ export const createRoom = async (req: Request, res: Response): Promise<void> =>
         lives: livesFromRules,
         score: 0,
         wordsPlayed: 0,
+        streak: 0,
         isEliminated: false,
         isConnected: true,
+        team: rules.gameMode === 'team' ? 1 : null,
       }],
       gameStatus: 'waiting',
     });
@@ -227,19 +230,22 @@ export const joinRoom = async (req: Request, res: Response): Promise<void> => {
       lives: game.rules.lives,
       score: 0,
       wordsPlayed: 0,
+      streak: 0,
       isEliminated: false,
       isConnected: true,
     };
 
     game.players.push(newPlayer as any);
+    balanceTeams(game.players, game.rules.gameMode === 'team');
     await game.save();
 
     // Resolve name for notification
     const playerName = await resolvePlayerName(userId, guestId, guestName);
+    const team = game.players.find(p => p.slot === newSlot)?.team ?? null;
 
     // Notify room about new player
     io.to(game.roomId).emit('word-chain:player-joined', {
-      player: { ...newPlayer, name: playerName },
+      player: { ...newPlayer, team, name: playerName },
       playerCount: game.players.length,
       maxPlayers: game.maxPlayers,
     });
@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DictionaryAuditAction = 'accept' | 'reject' | 'add' | 'remove' | 'reload';
+
+/** Who changed the Word Chain dictionary, how, and which words */
+export interface IDictionaryAuditLog extends Document {
+  action: DictionaryAuditAction;
+  words: string[];
+  userId: mongoose.Types.ObjectId;
+  username: string;
+  dictionarySize: number; // live word count after the change
+  createdAt: Date;
+}
+
+const DictionaryAuditLogSchema = new Schema({
+  action: { type: String, enum: ['accept', 'reject', 'add', 'remove', 'reload'], required: true },
+  words: { type: [String], default: [] },
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  username: { type: String, default: '' },
+  dictionarySize: { type: Number, default: 0 },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+DictionaryAuditLogSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IDictionaryAuditLog>('DictionaryAuditLog', DictionaryAuditLogSchema);
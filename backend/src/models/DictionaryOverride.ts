@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Admin edit on top of the Word Chain wordlist file: 'add' puts a word in the live
+ * dictionary, 'remove' takes one out. Applied at startup and on every admin change.
+ */
+export interface IDictionaryOverride extends Document {
+  word: string;
+  action: 'add' | 'remove';
+  updatedBy: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DictionaryOverrideSchema = new Schema({
+  word: { type: String, required: true, unique: true, trim: true, lowercase: true },
+  action: { type: String, enum: ['add', 'remove'], required: true, index: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, {
+  timestamps: true,
+});
+
+export default mongoose.model<IDictionaryOverride>('DictionaryOverride', DictionaryOverrideSchema);
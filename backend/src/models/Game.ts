@@ -1,10 +1,30 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { WinReason, CaroOpening, OpeningPhase } from '../types/game.types';
 
 export interface IGameRules {
   blockTwoEnds: boolean;
   allowUndo: boolean;
   maxUndoPerGame: number;
-  timeLimit: number | null;
+  timeLimit: number | null;      // Seconds allowed per move (null = no move clock)
+  gameTimeLimit: number | null;  // Seconds in each player's bank for the whole game (null = no bank)
+  timeIncrement: number;         // Fischer increment in seconds added to the bank after each move
+  exactFive: boolean;            // Overlines (6+) don't win for either side
+  renju: boolean;                // Black may not make double-three, double-four or overline
+  opening: CaroOpening;          // Swap/Swap2: tentative stones first, then a color choice
+}
+
+export interface IOpeningState {
+  phase: OpeningPhase;
+  firstPlayer: 1 | 2 | null;     // Lays the first three stones; tentatively black until colors are chosen
+  stonesPlaced: number;
+  chooser: 1 | 2 | null;         // Whoever must pick a color (or, in Swap2, to add two stones)
+  extended: boolean;             // Swap2: the second player added two more stones
+}
+
+export interface IGameClock {
+  player1TimeLeft: number | null; // Milliseconds left in player 1's bank
+  player2TimeLeft: number | null; // Milliseconds left in player 2's bank
+  turnStartedAt: Date | null;     // When the current player's turn began
 }
 
 export interface IGameScore {
@@ -24,6 +44,8 @@ export interface IGame extends Document {
   player2GuestName: string | null; // Guest display name for player 2
   player1Marker: string | null; // Custom marker for player 1
   player2Marker: string | null; // Custom marker for player 2
+  botDifficulty: 'easy' | 'medium' | 'hard' | null; // Set when player 2 is the server-side bot
+  isRated: boolean; // false for unrated quick-match rooms
   password: string | null; // Hashed password for the game room (only host can set)
   boardSize: number;
   board: number[][];
@@ -31,7 +53,11 @@ export interface IGame extends Document {
   gameStatus: 'waiting' | 'playing' | 'finished' | 'abandoned';
   winner: 1 | 2 | null | 'draw';
   winningLine?: Array<{ row: number; col: number }>;
+  winReason: WinReason | null;
+  blackPlayer: 1 | 2 | null; // Side bound by Renju restrictions; set once the opening is settled
+  opening: IOpeningState;
   rules: IGameRules;
+  clock: IGameClock;
   score: IGameScore;
   moves: mongoose.Types.ObjectId[];
   createdAt: Date;
@@ -56,8 +82,70 @@ const GameRulesSchema: Schema = new Schema({
     type: Number,
     default: null,
   },
+  gameTimeLimit: {
+    type: Number,
+    default: null,
+  },
+  timeIncrement: {
+    type: Number,
+    default: 0,
+  },
+  exactFive: {
+    type: Boolean,
+    default: false,
+  },
+  renju: {
+    type: Boolean,
+    default: false,
+  },
+  opening: {
+    type: String,
+    enum: ['standard', 'swap', 'swap2'],
+    default: 'standard',
+  },
 });
 
+const OpeningStateSchema: Schema = new Schema({
+  phase: {
+    type: String,
+    enum: ['none', 'placing', 'choosing'],
+    default: 'none',
+  },
+  firstPlayer: {
+    type: Number,
+    enum: [1, 2, null],
+    default: null,
+  },
+  stonesPlaced: {
+    type: Number,
+    default: 0,
+  },
+  chooser: {
+    type: Number,
+    enum: [1, 2, null],
+    default: null,
+  },
+  extended: {
+    type: Boolean,
+    default: false,
+  },
+}, { _id: false });
+
+const GameClockSchema: Schema = new Schema({
+  player1TimeLeft: {
+    type: Number,
+    default: null,
+  },
+  player2TimeLeft: {
+    type: Number,
+    default: null,
+  },
+  turnStartedAt: {
+    type: Date,
+    default: null,
+  },
+}, { _id: false });
+
 const GameScoreSchema: Schema = new Schema({
   player1: {
     type: Number,
@@ -130,6 +218,15 @@ const GameSchema: Schema = new Schema({
     default: null,
     maxlength: 200000, // Support base64 images (up to ~150KB image)
   },
+  botDifficulty: {
+    type: String,
+    enum: ['easy', 'medium', 'hard', null],
+    default: null,
+  },
+  isRated: {
+    type: Boolean,
+    default: true,
+  },
   password: {
     type: String,
     default: null,
@@ -165,10 +262,28 @@ const GameSchema: Schema = new Schema({
     }],
     default: undefined,
   },
+  winReason: {
+    type: String,
+    enum: ['line', 'surrender', 'timeout', null],
+    default: null,
+  },
+  blackPlayer: {
+    type: Number,
+    enum: [1, 2, null],
+    default: null,
+  },
+  opening: {
+    type: OpeningStateSchema,
+    default: { phase: 'none', firstPlayer: null, stonesPlaced: 0, chooser: null, extended: false },
+  },
   rules: {
     type: GameRulesSchema,
     required: true,
   },
+  clock: {
+    type: GameClockSchema,
+    default: { player1TimeLeft: null, player2TimeLeft: null, turnStartedAt: null },
+  },
   score: {
     type: GameScoreSchema,
     default: { player1: 0, player2: 0 },
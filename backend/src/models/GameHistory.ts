@@ -1,4 +1,14 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { WinReason } from '../types/game.types';
+
+export interface IHistoryMove {
+  player: 1 | 2;
+  row: number;
+  col: number;
+  moveNumber: number;
+  timestamp: Date;
+  isUndone: boolean; // taken back with an undo; kept so replays can show it
+}
 
 export interface IGameHistory extends Document {
   originalGameId: string; // Reference to original game _id (if needed)
@@ -13,6 +23,8 @@ export interface IGameHistory extends Document {
   board: number[][];
   winner: 1 | 2 | null | 'draw';
   winningLine?: Array<{ row: number; col: number }>;
+  winReason: WinReason | null;
+  moves: IHistoryMove[]; // Every move in play order, including undone ones
   score: {
     player1: number;
     player2: number;
@@ -22,12 +34,42 @@ export interface IGameHistory extends Document {
     allowUndo: boolean;
     maxUndoPerGame: number;
     timeLimit: number | null;
+    gameTimeLimit: number | null;
+    timeIncrement: number;
   };
   finishedAt: Date;
   createdAt: Date; // Original game creation date
   savedAt: Date; // When this history record was created
 }
 
+const HistoryMoveSchema: Schema = new Schema({
+  player: {
+    type: Number,
+    enum: [1, 2],
+    required: true,
+  },
+  row: {
+    type: Number,
+    required: true,
+  },
+  col: {
+    type: Number,
+    required: true,
+  },
+  moveNumber: {
+    type: Number,
+    required: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  isUndone: {
+    type: Boolean,
+    default: false,
+  },
+}, { _id: false });
+
 const GameHistorySchema: Schema = new Schema({
   originalGameId: {
     type: String,
@@ -90,6 +132,14 @@ const GameHistorySchema: Schema = new Schema({
     }],
     default: undefined,
   },
+  winReason: {
+    type: String,
+    default: null,
+  },
+  moves: {
+    type: [HistoryMoveSchema],
+    default: [],
+  },
   score: {
     player1: {
       type: Number,
@@ -117,6 +167,14 @@ const GameHistorySchema: Schema = new Schema({
       type: Number,
       default: null,
     },
+    gameTimeLimit: {
+      type: Number,
+      default: null,
+    },
+    timeIncrement: {
+      type: Number,
+      default: 0,
+    },
   },
   finishedAt: {
     type: Date,
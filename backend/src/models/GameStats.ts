@@ -28,6 +28,13 @@ export interface IGameStats extends Document {
   avgGameDuration: number; // seconds
   lastTenGames: ('W' | 'L' | 'D')[];
   lastPlayed: Date;
+  // Glicko-2 skill rating (updated server-side by ratingService)
+  rating: number;
+  ratingDeviation: number;
+  ratingVolatility: number;
+  ratedGames: number;
+  peakRating: number;
+  lastRatedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -101,6 +108,32 @@ const GameStatsSchema: Schema = new Schema({
     type: Date,
     default: Date.now,
   },
+  // Glicko-2 skill rating
+  rating: {
+    type: Number,
+    default: 1500,
+  },
+  ratingDeviation: {
+    type: Number,
+    default: 350,
+  },
+  ratingVolatility: {
+    type: Number,
+    default: 0.06,
+  },
+  ratedGames: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  peakRating: {
+    type: Number,
+    default: 1500,
+  },
+  lastRatedAt: {
+    type: Date,
+    default: null,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -123,6 +156,10 @@ GameStatsSchema.index({ userId: 1 });
 // This prevents collection scans when filtering by lastPlayed
 GameStatsSchema.index({ gameId: 1, lastPlayed: -1, totalScore: -1 });
 
+// Rating leaderboards only list players with at least one rated game
+GameStatsSchema.index({ gameId: 1, ratedGames: 1, rating: -1 });
+GameStatsSchema.index({ gameId: 1, lastRatedAt: -1, rating: -1 });
+
 // Update updatedAt before save
 GameStatsSchema.pre('save', function (next) {
   this.updatedAt = new Date();
@@ -16,19 +16,28 @@ const GoPlayerSchema = new Schema({
   captures: { type: Number, default: 0 },
   mainTimeLeft: { type: Number, default: 0 },
   byoyomiPeriodsLeft: { type: Number, default: 3 },
+  periodTimeLeft: { type: Number, default: 30 },
+  stonesLeft: { type: Number, default: 0 },
   passed: { type: Boolean, default: false },
   scoringAgreed: { type: Boolean, default: false },
   isConnected: { type: Boolean, default: true },
   disconnectedAt: { type: Date, default: null },
+  isBot: { type: Boolean, default: false },
 }, { _id: false });
 
 const GoSettingsSchema = new Schema({
   boardSize: { type: Number, enum: [9, 13, 19], default: 19 },
   komi: { type: Number, default: 6.5 },
+  ruleset: { type: String, enum: ['chinese', 'japanese', 'korean', 'aga'], default: 'chinese' },
   handicap: { type: Number, default: 0, min: 0, max: 9 },
   mainTime: { type: Number, default: 0, min: 0 },     // 0 = no timer
   byoyomiPeriods: { type: Number, default: 3, min: 0 },
   byoyomiTime: { type: Number, default: 30, min: 5 }, // seconds per period
+  timeSystem: { type: String, enum: ['byoyomi', 'canadian', 'fischer'], default: 'byoyomi' },
+  canadianStones: { type: Number, default: 25, min: 1 },
+  canadianTime: { type: Number, default: 600, min: 30 }, // seconds per overtime block
+  fischerIncrement: { type: Number, default: 10, min: 0 },
+  botLevel: { type: String, enum: ['easy', 'medium', 'hard', null], default: null },
 }, { _id: false });
 
 const GoMoveSchema = new Schema({
@@ -76,15 +85,18 @@ const GoGameSchema = new Schema({
   consecutivePasses: { type: Number, default: 0 },
   koPoint: { type: Schema.Types.Mixed, default: null }, // { row, col } | null
   moveCount: { type: Number, default: 0 },
+  clockStartedAt: { type: Date, default: null }, // null while the clock is stopped
 
   // Scoring phase
   deadStones: { type: [String], default: [] },          // "row-col" keys
   territory: {
     type: Schema.Types.Mixed,
-    default: () => ({ black: [], white: [], neutral: [] }),
+    default: () => ({ black: [], white: [], neutral: [], seki: [] }),
   },
 
   moveHistory: { type: [GoMoveSchema], default: [] },
+  isReview: { type: Boolean, default: false }, // imported from SGF, view only
+  isRated: { type: Boolean, default: true },
 
   winner: { type: Schema.Types.Mixed, default: null },
   winReason: { type: String, enum: ['score', 'resign', 'timeout', null], default: null },
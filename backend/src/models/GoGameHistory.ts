@@ -0,0 +1,63 @@
+/**
+ * GoGameHistory — archived finished Go games for per-user history and replay.
+ * Written once when a game ends (see go-history.ts); GoGame rooms are swept by cleanup.
+ */
+import mongoose, { Schema } from 'mongoose';
+import { IGoGameHistory } from '../types/go.types';
+
+// ─── Sub-schemas ───────────────────────────────────────────────
+
+const GoHistoryPlayerSchema = new Schema({
+  slot: { type: Number, required: true, min: 1, max: 2 },
+  color: { type: String, enum: ['black', 'white'], required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  name: { type: String, required: true },
+  captures: { type: Number, default: 0 },
+  isBot: { type: Boolean, default: false },
+}, { _id: false });
+
+const GoHistoryMoveSchema = new Schema({
+  row: { type: Number, required: true },
+  col: { type: Number, required: true },
+  color: { type: String, enum: ['black', 'white'], required: true },
+  captures: { type: [Schema.Types.Mixed], default: [] }, // { row, col }[]
+  isPass: { type: Boolean, default: false },
+  moveNumber: { type: Number, required: true },
+  timestamp: { type: Date, default: Date.now },
+}, { _id: false });
+
+// ─── Main Schema ───────────────────────────────────────────────
+
+const GoGameHistorySchema = new Schema({
+  roomId: { type: String, required: true },
+  roomCode: { type: String, required: true },
+  settings: { type: Schema.Types.Mixed, required: true },
+  players: { type: [GoHistoryPlayerSchema], default: [] },
+  playerUserIds: { type: [Schema.Types.ObjectId], ref: 'User', default: [] },
+
+  initialBoard: { type: [[Number]], required: true },
+  finalBoard: { type: [[Number]], required: true },
+  moveHistory: { type: [GoHistoryMoveSchema], default: [] },
+  moveCount: { type: Number, default: 0 },
+
+  deadStones: { type: [String], default: [] },
+  territory: {
+    type: Schema.Types.Mixed,
+    default: () => ({ black: [], white: [], neutral: [], seki: [] }),
+  },
+  finalScore: { type: Schema.Types.Mixed, default: null },
+  winner: { type: Schema.Types.Mixed, default: null },
+  winReason: { type: String, enum: ['score', 'resign', 'timeout', null], default: null },
+
+  startedAt: { type: Date, default: null },
+  finishedAt: { type: Date, required: true },
+  savedAt: { type: Date, default: Date.now },
+});
+
+// ─── Indexes ───────────────────────────────────────────────────
+
+// A room can host several games (go:new-game), so a game is roomId + start time
+GoGameHistorySchema.index({ roomId: 1, startedAt: 1 }, { unique: true });
+GoGameHistorySchema.index({ playerUserIds: 1, finishedAt: -1 });
+
+export default mongoose.model<IGoGameHistory>('GoGameHistory', GoGameHistorySchema);
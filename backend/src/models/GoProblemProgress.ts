@@ -0,0 +1,21 @@
+/**
+ * GoProblemProgress — a signed-in user's record on one tsumego problem.
+ * Problems themselves are built in (see go-problem-set.ts); only progress is stored.
+ */
+import mongoose, { Schema } from 'mongoose';
+import { IGoProblemProgress } from '../types/go.types';
+
+const GoProblemProgressSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  problemId: { type: String, required: true },
+  attempts: { type: Number, default: 0 },   // finished attempts (correct or wrong)
+  solved: { type: Boolean, default: false },
+  solvedAt: { type: Date, default: null },
+  lastAttemptAt: { type: Date, default: Date.now },
+});
+
+// ─── Indexes ───────────────────────────────────────────────────
+
+GoProblemProgressSchema.index({ userId: 1, problemId: 1 }, { unique: true });
+
+export default mongoose.model<IGoProblemProgress>('GoProblemProgress', GoProblemProgressSchema);
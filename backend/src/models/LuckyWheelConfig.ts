@@ -5,11 +5,22 @@ export interface IWheelItem {
   weight: number;
 }
 
+export interface IWheel {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  items: IWheelItem[];
+  eliminationMode: boolean;          // Item trúng bị loại sau mỗi lượt quay
+  eliminated: number[];              // Index các item đã bị loại trong vòng hiện tại
+  createdAt: Date;
+}
+
 export interface ILuckyWheelConfig extends Document {
   userId?: mongoose.Types.ObjectId;  // null nếu là guest
   guestId?: string;                  // null nếu là authenticated user
   guestName?: string;                 // Tên hiển thị của guest
-  items: IWheelItem[];
+  items: IWheelItem[];               // Items của wheel đang active (giữ để tương thích admin/socket)
+  wheels: mongoose.Types.DocumentArray<IWheel & mongoose.Types.Subdocument>;
+  activeWheelId?: mongoose.Types.ObjectId;
   lastActivityAt?: Date;             // Track last activity for session cleanup
   createdAt: Date;
   updatedAt: Date;
@@ -31,6 +42,37 @@ const WheelItemSchema = new Schema({
   },
 }, { _id: false });
 
+const itemsValidator = {
+  validator: (items: IWheelItem[]) => items.length >= 2 && items.length <= 12,
+  message: 'Items must be between 2 and 12',
+};
+
+const WheelSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50,
+  },
+  items: {
+    type: [WheelItemSchema],
+    required: true,
+    validate: itemsValidator,
+  },
+  eliminationMode: {
+    type: Boolean,
+    default: false,
+  },
+  eliminated: {
+    type: [Number],
+    default: [],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
 const LuckyWheelConfigSchema: Schema = new Schema({
   userId: {
     type: Schema.Types.ObjectId,
@@ -50,10 +92,15 @@ const LuckyWheelConfigSchema: Schema = new Schema({
   items: {
     type: [WheelItemSchema],
     required: true,
-    validate: {
-      validator: (items: IWheelItem[]) => items.length >= 2 && items.length <= 12,
-      message: 'Items must be between 2 and 12',
-    },
+    validate: itemsValidator,
+  },
+  wheels: {
+    type: [WheelSchema],
+    default: [],
+  },
+  activeWheelId: {
+    type: Schema.Types.ObjectId,
+    default: null,
   },
   createdAt: {
     type: Date,
@@ -76,10 +123,20 @@ LuckyWheelConfigSchema.index({ updatedAt: -1 });
 LuckyWheelConfigSchema.index({ lastActivityAt: 1 }); // For cleanup queries
 
 // Update updatedAt và lastActivityAt trước khi save
+// Items sửa trực tiếp (admin, config cũ) được chép vào wheel đang active
 LuckyWheelConfigSchema.pre('save', function(next) {
-  this.updatedAt = new Date();
-  if (!this.lastActivityAt) {
-    this.lastActivityAt = new Date();
+  const config = this as unknown as ILuckyWheelConfig;
+  config.updatedAt = new Date();
+  if (!config.lastActivityAt) {
+    config.lastActivityAt = new Date();
+  }
+  if (config.isModified('items') && config.activeWheelId) {
+    const active = config.wheels.id(config.activeWheelId);
+    const items = config.items.map(item => ({ label: item.label, weight: item.weight }));
+    if (active && JSON.stringify(active.items.map(item => ({ label: item.label, weight: item.weight }))) !== JSON.stringify(items)) {
+      active.items = items;
+      active.eliminated = [];
+    }
   }
   next();
 });
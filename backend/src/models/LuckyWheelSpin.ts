@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILuckyWheelSpin extends Document {
+  userId?: mongoose.Types.ObjectId;  // null for guests
+  guestId?: string;                  // null for authenticated users
+  wheelId: mongoose.Types.ObjectId;  // subdocument id in LuckyWheelConfig.wheels
+  label: string;
+  weight: number;                    // weight of the winning item at spin time
+  totalWeight: number;               // total weight of the items in play at spin time
+  itemCount: number;                 // items in play (shrinks in elimination mode)
+  spunAt: Date;
+}
+
+const LuckyWheelSpinSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  guestId: { type: String, default: null },
+  wheelId: { type: Schema.Types.ObjectId, required: true },
+  label: { type: String, required: true, trim: true, maxlength: 100 },
+  weight: { type: Number, required: true, min: 0 },
+  totalWeight: { type: Number, required: true, min: 0 },
+  itemCount: { type: Number, required: true, min: 1 },
+  spunAt: { type: Date, default: Date.now },
+});
+
+// History is always read per wheel, newest first
+LuckyWheelSpinSchema.index({ wheelId: 1, spunAt: -1 });
+LuckyWheelSpinSchema.index({ guestId: 1 });
+
+export default mongoose.model<ILuckyWheelSpin>('LuckyWheelSpin', LuckyWheelSpinSchema);
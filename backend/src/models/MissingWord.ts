@@ -7,6 +7,10 @@ export interface IMissingWord extends Document {
   firstSeenAt: Date;
   lastSeenAt: Date;
   status: 'pending' | 'accepted' | 'rejected';
+  kind: 'missing' | 'disputed'; // disputed = in the dictionary but voted on as nonsense
+  votes: { accept: number; reject: number };
+  challenges: number;
+  lastChallengeResult?: 'accepted' | 'rejected';
 }
 
 const MissingWordSchema = new Schema({
@@ -21,6 +25,14 @@ const MissingWordSchema = new Schema({
     default: 'pending',
     index: true 
   },
+  // In-game challenge votes (see word-chain-challenge.ts)
+  kind: { type: String, enum: ['missing', 'disputed'], default: 'missing' },
+  votes: {
+    accept: { type: Number, default: 0 },
+    reject: { type: Number, default: 0 },
+  },
+  challenges: { type: Number, default: 0 },
+  lastChallengeResult: { type: String, enum: ['accepted', 'rejected'] },
 }, {
   timestamps: true // adds createdAt, updatedAt automatically but we use custom fields too
 });
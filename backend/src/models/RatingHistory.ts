@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRatingOpponent {
+  userId: mongoose.Types.ObjectId;
+  rating: number;
+  score: number; // 1 = beat this opponent, 0.5 = tie, 0 = lost to them
+}
+
+export interface IRatingHistory extends Document {
+  userId: mongoose.Types.ObjectId;
+  gameId: string;
+  matchKey: string; // Unique per finished game (e.g. "<roomId>:<finishedAt>")
+  ratingBefore: number;
+  ratingAfter: number;
+  deviationBefore: number;
+  deviationAfter: number;
+  change: number;
+  place: number; // 1 = first; equal places are ties
+  playerCount: number;
+  opponents: IRatingOpponent[];
+  createdAt: Date;
+}
+
+const RatingOpponentSchema: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  rating: {
+    type: Number,
+    required: true,
+  },
+  score: {
+    type: Number,
+    required: true,
+  },
+}, { _id: false });
+
+const RatingHistorySchema: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  gameId: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+  },
+  matchKey: {
+    type: String,
+    required: true,
+  },
+  ratingBefore: {
+    type: Number,
+    required: true,
+  },
+  ratingAfter: {
+    type: Number,
+    required: true,
+  },
+  deviationBefore: {
+    type: Number,
+    required: true,
+  },
+  deviationAfter: {
+    type: Number,
+    required: true,
+  },
+  change: {
+    type: Number,
+    required: true,
+  },
+  place: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  playerCount: {
+    type: Number,
+    required: true,
+    min: 2,
+  },
+  opponents: {
+    type: [RatingOpponentSchema],
+    default: [],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// A finished game is rated at most once per player
+RatingHistorySchema.index({ gameId: 1, matchKey: 1, userId: 1 }, { unique: true });
+
+// Rating chart for a user
+RatingHistorySchema.index({ userId: 1, gameId: 1, createdAt: -1 });
+
+export default mongoose.model<IRatingHistory>('RatingHistory', RatingHistorySchema);
@@ -51,6 +51,7 @@ const TinhTuySettingsSchema = new Schema({
   turnDuration: { type: Number, default: 60, min: 30, max: 120 },
   password: { type: String, default: null, select: false },
   abilitiesEnabled: { type: Boolean, default: true },
+  auctionEnabled: { type: Boolean, default: false },
 }, { _id: false });
 
 // ─── Main Schema ───────────────────────────────────────────────
@@ -78,7 +79,7 @@ const TinhTuyGameSchema = new Schema({
   currentPlayerSlot: { type: Number, default: 1 },
   turnPhase: {
     type: String,
-    enum: ['ROLL_DICE', 'MOVING', 'AWAITING_ACTION', 'AWAITING_BUILD', 'AWAITING_FREE_HOUSE', 'AWAITING_FREE_HOTEL', 'AWAITING_CARD', 'AWAITING_CARD_DISPLAY', 'AWAITING_TRAVEL', 'AWAITING_FESTIVAL', 'AWAITING_SELL', 'AWAITING_DESTROY_PROPERTY', 'AWAITING_DOWNGRADE_BUILDING', 'AWAITING_BUYBACK', 'AWAITING_CARD_DESTINATION', 'AWAITING_FORCED_TRADE', 'AWAITING_RENT_FREEZE', 'AWAITING_BUY_BLOCK_TARGET', 'AWAITING_EMINENT_DOMAIN', 'AWAITING_ABILITY_CHOICE', 'AWAITING_OWL_PICK', 'AWAITING_HORSE_ADJUST', 'AWAITING_HORSE_MOVE', 'AWAITING_SHIBA_REROLL_PICK', 'AWAITING_RABBIT_BONUS', 'ISLAND_TURN', 'END_TURN'],
+    enum: ['ROLL_DICE', 'MOVING', 'AWAITING_ACTION', 'AWAITING_BUILD', 'AWAITING_FREE_HOUSE', 'AWAITING_FREE_HOTEL', 'AWAITING_CARD', 'AWAITING_CARD_DISPLAY', 'AWAITING_TRAVEL', 'AWAITING_FESTIVAL', 'AWAITING_SELL', 'AWAITING_DESTROY_PROPERTY', 'AWAITING_DOWNGRADE_BUILDING', 'AWAITING_BUYBACK', 'AWAITING_CARD_DESTINATION', 'AWAITING_FORCED_TRADE', 'AWAITING_RENT_FREEZE', 'AWAITING_BUY_BLOCK_TARGET', 'AWAITING_EMINENT_DOMAIN', 'AWAITING_ABILITY_CHOICE', 'AWAITING_OWL_PICK', 'AWAITING_HORSE_ADJUST', 'AWAITING_HORSE_MOVE', 'AWAITING_SHIBA_REROLL_PICK', 'AWAITING_RABBIT_BONUS', 'AWAITING_AUCTION', 'ISLAND_TURN', 'END_TURN'],
     default: 'ROLL_DICE',
   },
   turnStartedAt: { type: Date, default: null },
@@ -93,6 +94,8 @@ const TinhTuyGameSchema = new Schema({
   round: { type: Number, default: 0 },
   gameStartedAt: { type: Date, default: null },
   finishedAt: { type: Date, default: null },
+  /** Timed mode: round being played when the clock ran out (null = clock still running) */
+  finalRound: { type: Number, default: null },
 
   /** Global festival — only one on the board at a time { slot, cellIndex, multiplier } */
   festival: { type: Schema.Types.Mixed, default: null },
@@ -100,10 +103,15 @@ const TinhTuyGameSchema = new Schema({
   /** Frozen properties — rent is 0 for these cells [{cellIndex, turnsRemaining}] */
   frozenProperties: { type: [Schema.Types.Mixed], default: [] },
 
-  /** Pending negotiate trade — one active at a time */
-  pendingNegotiate: { type: Schema.Types.Mixed, default: null },
-  /** Negotiate cooldowns — slot → round when cooldown expires */
-  negotiateCooldowns: { type: Schema.Types.Mixed, default: {} },
+  /** Open trade proposals — at most one per pair of players */
+  pendingTrades: { type: [Schema.Types.Mixed], default: [] },
+  /** Resolved trades, newest last (capped) */
+  tradeLog: { type: [Schema.Types.Mixed], default: [] },
+  /** Trade cooldowns after a rejection — "fromSlot:toSlot" → round when cooldown expires */
+  tradeCooldowns: { type: Schema.Types.Mixed, default: {} },
+
+  /** Live auction of a declined property { cellIndex, declinedSlot, bidders, passed, highBid, highBidderSlot, endsAt } */
+  auction: { type: Schema.Types.Mixed, default: null },
 
   /** Admin dice overrides — slot → { dice1, dice2 } */
   diceOverrides: { type: Schema.Types.Mixed, default: {} },
@@ -15,9 +15,21 @@ const WordChainPlayerSchema = new Schema({
   lives: { type: Number, required: true, default: 3 },
   score: { type: Number, default: 0 },
   wordsPlayed: { type: Number, default: 0 },
+  streak: { type: Number, default: 0 },
   isEliminated: { type: Boolean, default: false },
   isConnected: { type: Boolean, default: true },
   disconnectedAt: { type: Date, default: null },
+  isBot: { type: Boolean, default: false },
+  botLevel: { type: String, enum: ['easy', 'medium', 'hard', null], default: null },
+  team: { type: Number, enum: [1, 2, null], default: null },
+}, { _id: false });
+
+const WordChainScoringSchema = new Schema({
+  syllables: { type: Boolean, default: false },
+  rarity: { type: Boolean, default: false },
+  speed: { type: Boolean, default: false },
+  combo: { type: Boolean, default: false },
+  trap: { type: Boolean, default: false },
 }, { _id: false });
 
 const WordChainRulesSchema = new Schema({
@@ -26,9 +38,10 @@ const WordChainRulesSchema = new Schema({
   allowSlang: { type: Boolean, default: false },
   turnDuration: { type: Number, default: 60, min: 15, max: 120 },
   lives: { type: Number, default: 3, min: 1, max: 5 },
-  gameMode: { type: String, enum: ['classic', 'speed'], default: 'classic' },
+  gameMode: { type: String, enum: ['classic', 'speed', 'team'], default: 'classic' },
   allowRepeat: { type: Boolean, default: false },
   showHint: { type: Boolean, default: true },
+  scoring: { type: WordChainScoringSchema, default: () => ({}) },
 }, { _id: false });
 
 const WordChainWinnerSchema = new Schema({
@@ -36,6 +49,7 @@ const WordChainWinnerSchema = new Schema({
   userId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
   guestId: { type: String, default: null },
   guestName: { type: String, default: null },
+  team: { type: Number, default: null },
 }, { _id: false });
 
 // ─── Main Schema ───────────────────────────────────────────────
@@ -106,6 +120,10 @@ const WordChainGameSchema = new Schema({
     type: Number,
     default: 1,
   },
+  teamTurnSlots: {
+    type: [Number],
+    default: [],
+  },
   wordChain: {
     type: [String],
     default: [],
@@ -9,6 +9,15 @@ import {
   getRoomConfig,
   updateDiceOverrides,
 } from '../controllers/tinhTuyAdminController';
+import {
+  listMissingWords,
+  reviewMissingWords,
+  getDictionaryInfo,
+  addDictionaryWords,
+  removeDictionaryWords,
+  reloadDictionary,
+  listDictionaryAudit,
+} from '../controllers/wordChainAdminController';
 import { authMiddleware } from '../middleware/authMiddleware';
 import { adminMiddleware } from '../middleware/adminMiddleware';
 
@@ -28,4 +37,13 @@ router.get('/tinh-tuy/rooms', listActiveRooms);
 router.get('/tinh-tuy/rooms/:roomId', getRoomConfig);
 router.put('/tinh-tuy/rooms/:roomId/dice', updateDiceOverrides);
 
+// Word Chain admin — dictionary management
+router.get('/word-chain/missing-words', listMissingWords);
+router.post('/word-chain/missing-words/review', reviewMissingWords);
+router.get('/word-chain/dictionary', getDictionaryInfo);
+router.post('/word-chain/dictionary/add', addDictionaryWords);
+router.post('/word-chain/dictionary/remove', removeDictionaryWords);
+router.post('/word-chain/dictionary/reload', reloadDictionary);
+router.get('/word-chain/dictionary/audit', listDictionaryAudit);
+
 export default router;
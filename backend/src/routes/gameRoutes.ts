@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { createGame, getGame, getGameByCode, joinGame, getUserGames, leaveGame, getWaitingGames, getGameHistory, updateMarker, setPassword } from '../controllers/gameController';
+import { createGame, getGame, getGameByCode, joinGame, getUserGames, leaveGame, getWaitingGames, getGameHistory, getGameMoves, updateMarker, setPassword } from '../controllers/gameController';
 import { authMiddleware } from '../middleware/authMiddleware';
 
 const router = Router();
@@ -9,6 +9,7 @@ router.get('/waiting', getWaitingGames);
 router.get('/code/:roomCode', getGameByCode);
 router.post('/history', authMiddleware, getGameHistory); // Require authentication for history
 router.get('/:roomId', getGame);
+router.get('/:roomId/moves', getGameMoves);
 router.post('/:roomId/join', joinGame);
 router.post('/:roomId/leave', leaveGame);
 router.post('/:roomId/marker', updateMarker);
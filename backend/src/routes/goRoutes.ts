@@ -5,14 +5,29 @@ import {
   getWaitingRooms,
   getGameState,
   getGameByCode,
+  exportSgf,
+  importSgf,
+  getGoHistory,
+  getGoHistoryDetail,
+  getGoProblems,
+  getGoProblemById,
+  submitGoProblemAttempt,
 } from '../controllers/goController';
+import { authMiddleware } from '../middleware/authMiddleware';
 
 const router = Router();
 
 router.post('/create', createRoom);
 router.post('/join', joinRoom);
+router.post('/import', importSgf);
 router.get('/rooms', getWaitingRooms);
+router.get('/history', authMiddleware, getGoHistory);
+router.get('/history/:historyId', authMiddleware, getGoHistoryDetail);
+router.get('/problems', getGoProblems);
+router.get('/problems/:problemId', getGoProblemById);
+router.post('/problems/:problemId/attempt', submitGoProblemAttempt);
 router.get('/code/:roomCode', getGameByCode);
+router.get('/:roomId/sgf', exportSgf);
 router.get('/:roomId', getGameState);
 
 export default router;
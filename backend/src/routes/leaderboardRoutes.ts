@@ -3,6 +3,7 @@ import {
   getLeaderboard,
   getUserRank,
   getRankAroundUser,
+  getRatingHistory,
   getTopPlayers, // Legacy endpoint
 } from '../controllers/leaderboardController';
 
@@ -12,6 +13,7 @@ const router = Router();
 router.get('/:gameId', getLeaderboard);
 router.get('/:gameId/rank/:userId', getUserRank);
 router.get('/:gameId/around/:userId', getRankAroundUser);
+router.get('/:gameId/ratings/:userId', getRatingHistory);
 
 // Legacy endpoint for backward compatibility
 router.get('/top', getTopPlayers);
@@ -1,5 +1,19 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { saveConfig, getMyConfig, getUserConfig, deleteGuestConfig, updateActivity } from '../controllers/luckyWheelController';
+import {
+  saveConfig,
+  getMyConfig,
+  getUserConfig,
+  deleteGuestConfig,
+  updateActivity,
+  createWheel,
+  updateWheel,
+  deleteWheel,
+  activateWheel,
+  recordSpin,
+  resetElimination,
+  getSpinHistory,
+  clearSpinHistory,
+} from '../controllers/luckyWheelController';
 import { authMiddleware, AuthRequest } from '../middleware/authMiddleware';
 import { adminMiddleware } from '../middleware/adminMiddleware';
 
@@ -41,6 +55,18 @@ router.delete('/config', optionalAuth, deleteGuestConfig);
 // Update activity timestamp
 router.post('/activity', optionalAuth, updateActivity);
 
+// Multiple named wheels - optional auth
+router.post('/wheels', optionalAuth, createWheel);
+router.patch('/wheels/:wheelId', optionalAuth, updateWheel);
+router.delete('/wheels/:wheelId', optionalAuth, deleteWheel);
+router.post('/wheels/:wheelId/activate', optionalAuth, activateWheel);
+
+// Spin history and elimination rounds - optional auth
+router.get('/wheels/:wheelId/spins', optionalAuth, getSpinHistory);
+router.post('/wheels/:wheelId/spins', optionalAuth, recordSpin);
+router.delete('/wheels/:wheelId/spins', optionalAuth, clearSpinHistory);
+router.post('/wheels/:wheelId/reset-elimination', optionalAuth, resetElimination);
+
 // Admin routes - get config for specific user
 router.get('/config/:userId', authMiddleware, adminMiddleware, getUserConfig);
 
@@ -26,6 +26,24 @@ const initGameTypes = async (): Promise<void> => {
         description: 'Classic strategy game',
         isActive: true,
       },
+      {
+        gameId: 'go',
+        name: 'Go',
+        description: 'Classic strategy board game',
+        isActive: true,
+      },
+      {
+        gameId: 'word-chain',
+        name: 'Word Chain',
+        description: 'Vietnamese word chain with friends',
+        isActive: true,
+      },
+      {
+        gameId: 'tinh-tuy',
+        name: 'Tinh Tuy',
+        description: 'Vietnamese Monopoly with friends',
+        isActive: true,
+      },
       // Add more games here in the future
     ];
 
@@ -20,10 +20,14 @@ import goRoutes from './routes/goRoutes';
 import { setupWordChainSocketHandlers } from './services/word-chain-socket';
 import { setupTinhTuySocketHandlers } from './services/tinh-tuy-socket';
 import { setupGoSocketHandlers } from './services/go-socket';
+import { setupLuckyWheelSocketHandlers } from './services/lucky-wheel-socket';
+import { setupSpectatorHandlers } from './services/spectatorService';
+import { setupMatchmakingSocketHandlers } from './services/matchmakingService';
 import { authLimiter, gameCreationLimiter, gameJoinLimiter, apiLimiter } from './middleware/rateLimiter';
 import { cleanupInactiveGuests } from './controllers/luckyWheelController';
 import { cleanupAllInactiveGames } from './services/gameCleanupService';
 import { loadDictionary } from './services/word-chain-dictionary';
+import { syncDictionaryOverrides } from './services/word-chain-dictionary-admin';
 
 // Load environment variables
 dotenv.config();
@@ -71,6 +75,9 @@ setupSocketHandlers(io);
 setupWordChainSocketHandlers(io);
 setupTinhTuySocketHandlers(io);
 setupGoSocketHandlers(io);
+setupLuckyWheelSocketHandlers(io);
+setupSpectatorHandlers(io);
+setupMatchmakingSocketHandlers(io);
 
 // Error handler
 app.use(errorHandler);
@@ -117,6 +124,11 @@ const startServer = async () => {
 
     // Load Vietnamese dictionary for Word Chain game
     loadDictionary();
+    try {
+      await syncDictionaryOverrides();
+    } catch (error) {
+      console.error('[WordChain] Failed to apply dictionary overrides:', error);
+    }
 
     httpServer.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
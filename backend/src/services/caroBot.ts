@@ -0,0 +1,381 @@
+/**
+ * Caro Bot - server-side AI opponent that sits in the player2 seat.
+ * Moves are picked with the same rules as human moves: legality comes from
+ * ruleEngine.validateMove (so blockTwoEnds is respected) and wins from winChecker.checkWin.
+ * The bot only chooses a cell; the caller plays it through gameEngine.makeMove.
+ */
+import { IGame } from '../models/Game';
+import { PlayerNumber } from '../types/game.types';
+import { checkWin } from './winChecker';
+import { validateMove, overlineWins } from './ruleEngine';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+export const CARO_BOT_ID = 'caro-bot';       // stored in player2GuestId
+export const BOT_PLAYER: PlayerNumber = 2;
+
+const BOT_NAMES: Record<BotDifficulty, string> = {
+  easy: 'Bot (Easy)',
+  medium: 'Bot (Medium)',
+  hard: 'Bot (Hard)',
+};
+
+const HARD_TIME_BUDGET_MS = 1500; // Upper bound for the search; shortened for fast time controls
+const HARD_MAX_DEPTH = 6;
+const HARD_BRANCHING = 10;        // Only the best N candidate moves are searched per node
+const SEARCH_SLICE_MS = 15;       // Max time the search runs before yielding to the event loop
+const EASY_BLOCK_CHANCE = 0.5;    // Beginner notices an immediate threat half the time
+
+const WIN_SCORE = 10_000_000;
+const DIRECTIONS = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+export const isBotDifficulty = (value: unknown): value is BotDifficulty =>
+  typeof value === 'string' && (BOT_DIFFICULTIES as string[]).includes(value);
+
+export const getBotName = (difficulty: BotDifficulty): string => BOT_NAMES[difficulty];
+
+export const isBotGame = (game: Pick<IGame, 'botDifficulty'>): boolean => !!game.botDifficulty;
+
+// ─── Board helpers ───────────────────────────────────────────────
+
+const getWinCount = (boardSize: number): number => (boardSize === 3 ? 3 : 5);
+
+const opponentOf = (player: PlayerNumber): PlayerNumber => (player === 1 ? 2 : 1);
+
+/**
+ * Minimal IGame view over a scratch board so validateMove can be reused during search.
+ */
+const createRuleView = (game: IGame, board: number[][]): IGame => ({
+  board,
+  boardSize: game.boardSize,
+  rules: game.rules,
+  blackPlayer: game.blackPlayer,
+  currentPlayer: BOT_PLAYER,
+  gameStatus: 'playing',
+} as unknown as IGame);
+
+const isLegal = (view: IGame, cell: Cell, player: PlayerNumber): boolean => {
+  view.currentPlayer = player;
+  return validateMove(view, cell.row, cell.col, player).valid;
+};
+
+const isWinningMove = (view: IGame, cell: Cell, player: PlayerNumber): boolean => {
+  view.board[cell.row][cell.col] = player;
+  const result = checkWin(view.board, cell.row, cell.col, player, view.boardSize, view.rules.blockTwoEnds, overlineWins(view, player));
+  view.board[cell.row][cell.col] = 0;
+  return result.isWin;
+};
+
+/**
+ * Empty cells within `radius` of any stone. Center cell on an empty board.
+ */
+const getCandidates = (board: number[][], boardSize: number, radius: number): Cell[] => {
+  const seen = new Set<number>();
+  const candidates: Cell[] = [];
+  let hasStones = false;
+
+  for (let r = 0; r < boardSize; r++) {
+    for (let c = 0; c < boardSize; c++) {
+      if (board[r][c] === 0) continue;
+      hasStones = true;
+      for (let dr = -radius; dr <= radius; dr++) {
+        for (let dc = -radius; dc <= radius; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr < 0 || nr >= boardSize || nc < 0 || nc >= boardSize) continue;
+          if (board[nr][nc] !== 0) continue;
+          const key = nr * boardSize + nc;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          candidates.push({ row: nr, col: nc });
+        }
+      }
+    }
+  }
+
+  if (!hasStones) {
+    const center = Math.floor(boardSize / 2);
+    return [{ row: center, col: center }];
+  }
+  return candidates;
+};
+
+// ─── Pattern scoring ─────────────────────────────────────────────
+
+/**
+ * Value of a run of `count` stones with `openEnds` free ends.
+ */
+const runScore = (count: number, openEnds: number, winCount: number): number => {
+  if (count >= winCount) return WIN_SCORE;
+  if (openEnds === 0) return 0;
+  const missing = winCount - count;
+  if (missing === 1) return openEnds === 2 ? 100_000 : 10_000;
+  if (missing === 2) return openEnds === 2 ? 10_000 : 1_000;
+  if (missing === 3) return openEnds === 2 ? 500 : 50;
+  return openEnds === 2 ? 10 : 1;
+};
+
+/**
+ * How much placing `player` at `cell` would extend their lines (board is not modified).
+ */
+const scoreCellFor = (board: number[][], boardSize: number, cell: Cell, player: PlayerNumber): number => {
+  const winCount = getWinCount(boardSize);
+  let total = 0;
+
+  for (const [dr, dc] of DIRECTIONS) {
+    let count = 1;
+    let openEnds = 0;
+
+    for (const sign of [1, -1]) {
+      let r = cell.row + dr * sign;
+      let c = cell.col + dc * sign;
+      while (r >= 0 && r < boardSize && c >= 0 && c < boardSize && board[r][c] === player) {
+        count++;
+        r += dr * sign;
+        c += dc * sign;
+      }
+      if (r >= 0 && r < boardSize && c >= 0 && c < boardSize && board[r][c] === 0) openEnds++;
+    }
+
+    total += runScore(count, openEnds, winCount);
+  }
+
+  return total;
+};
+
+/**
+ * Threat-based move value: own attack plus slightly discounted defence.
+ */
+const scoreMove = (board: number[][], boardSize: number, cell: Cell, player: PlayerNumber): number =>
+  scoreCellFor(board, boardSize, cell, player) + 0.9 * scoreCellFor(board, boardSize, cell, opponentOf(player));
+
+/**
+ * Static evaluation of all runs on the board from `player`'s point of view.
+ */
+const evaluateBoard = (board: number[][], boardSize: number, player: PlayerNumber): number => {
+  const winCount = getWinCount(boardSize);
+  let mine = 0;
+  let theirs = 0;
+
+  for (const [dr, dc] of DIRECTIONS) {
+    for (let r = 0; r < boardSize; r++) {
+      for (let c = 0; c < boardSize; c++) {
+        const stone = board[r][c];
+        if (stone === 0) continue;
+
+        // Only score a run from its first stone
+        const pr = r - dr;
+        const pc = c - dc;
+        if (pr >= 0 && pr < boardSize && pc >= 0 && pc < boardSize && board[pr][pc] === stone) continue;
+
+        let count = 0;
+        let nr = r;
+        let nc = c;
+        while (nr >= 0 && nr < boardSize && nc >= 0 && nc < boardSize && board[nr][nc] === stone) {
+          count++;
+          nr += dr;
+          nc += dc;
+        }
+
+        let openEnds = 0;
+        if (pr >= 0 && pr < boardSize && pc >= 0 && pc < boardSize && board[pr][pc] === 0) openEnds++;
+        if (nr >= 0 && nr < boardSize && nc >= 0 && nc < boardSize && board[nr][nc] === 0) openEnds++;
+
+        const value = runScore(count, openEnds, winCount);
+        if (stone === player) mine += value;
+        else theirs += value;
+      }
+    }
+  }
+
+  return mine - theirs;
+};
+
+/**
+ * Legal candidates for `player`, best heuristic value first.
+ */
+const getOrderedMoves = (view: IGame, player: PlayerNumber, radius: number): Cell[] => {
+  return getCandidates(view.board, view.boardSize, radius)
+    .filter(cell => isLegal(view, cell, player))
+    .map(cell => ({ cell, score: scoreMove(view.board, view.boardSize, cell, player) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.cell);
+};
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Winning cell for `player` if one exists, otherwise null.
+ */
+const findWinningMove = (view: IGame, moves: Cell[], player: PlayerNumber): Cell | null =>
+  moves.find(cell => isWinningMove(view, cell, player)) || null;
+
+// ─── Difficulty levels ───────────────────────────────────────────
+
+/**
+ * Beginner: takes a win when it sees one, sometimes blocks, otherwise plays near the action.
+ */
+const chooseEasyMove = (view: IGame, player: PlayerNumber): Cell | null => {
+  const moves = getCandidates(view.board, view.boardSize, 1).filter(cell => isLegal(view, cell, player));
+  if (moves.length === 0) return null;
+
+  const win = findWinningMove(view, moves, player);
+  if (win) return win;
+
+  if (Math.random() < EASY_BLOCK_CHANCE) {
+    const block = findWinningMove(view, moves, opponentOf(player));
+    if (block) return block;
+  }
+
+  return pickRandom(moves);
+};
+
+/**
+ * Heuristic: win, block, then the cell with the strongest attack/defence pattern.
+ */
+const chooseMediumMove = (view: IGame, player: PlayerNumber): Cell | null => {
+  const moves = getOrderedMoves(view, player, 2);
+  if (moves.length === 0) return null;
+
+  const win = findWinningMove(view, moves, player);
+  if (win) return win;
+
+  const block = findWinningMove(view, moves, opponentOf(player));
+  if (block) return block;
+
+  // Break ties between equally good cells so games don't repeat move for move
+  const bestScore = scoreMove(view.board, view.boardSize, moves[0], player);
+  const best = moves.filter(cell => scoreMove(view.board, view.boardSize, cell, player) === bestScore);
+  return pickRandom(best);
+};
+
+class SearchTimeout extends Error {}
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Strong: iterative-deepening negamax with alpha-beta pruning over the best candidates,
+ * stopped when the time budget runs out (the deepest completed iteration wins).
+ * The search is a generator that pauses every slice, so other rooms keep being served.
+ */
+const chooseHardMove = async (view: IGame, player: PlayerNumber, timeBudgetMs: number): Promise<Cell | null> => {
+  const rootMoves = getOrderedMoves(view, player, 2);
+  if (rootMoves.length === 0) return null;
+
+  const win = findWinningMove(view, rootMoves, player);
+  if (win) return win;
+
+  const block = findWinningMove(view, rootMoves, opponentOf(player));
+  if (block) return block;
+
+  const deadline = Date.now() + timeBudgetMs;
+  const board = view.board;
+  const boardSize = view.boardSize;
+  let nodes = 0;
+  let sliceEnd = Date.now() + SEARCH_SLICE_MS;
+
+  const negamax = function* (toMove: PlayerNumber, depth: number, alpha: number, beta: number): Generator<void, number, void> {
+    if (++nodes % 256 === 0) {
+      if (Date.now() > deadline) throw new SearchTimeout();
+      if (Date.now() >= sliceEnd) yield;
+    }
+    if (depth === 0) return evaluateBoard(board, boardSize, toMove);
+
+    const moves = getOrderedMoves(view, toMove, 1).slice(0, HARD_BRANCHING);
+    if (moves.length === 0) return 0; // Board full - draw
+
+    let best = -Infinity;
+    for (const cell of moves) {
+      board[cell.row][cell.col] = toMove;
+      let score: number;
+      if (checkWin(board, cell.row, cell.col, toMove, boardSize, view.rules.blockTwoEnds, overlineWins(view, toMove)).isWin) {
+        score = WIN_SCORE + depth; // Prefer faster wins
+      } else {
+        score = -(yield* negamax(opponentOf(toMove), depth - 1, -beta, -alpha));
+      }
+      board[cell.row][cell.col] = 0;
+
+      if (score > best) best = score;
+      if (best > alpha) alpha = best;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  const searchMoves = rootMoves.slice(0, HARD_BRANCHING);
+
+  const search = function* (): Generator<void, Cell, void> {
+    let bestMove = rootMoves[0];
+    for (let depth = 1; depth <= HARD_MAX_DEPTH; depth++) {
+      let iterationBest: Cell | null = null;
+      let iterationScore = -Infinity;
+
+      try {
+        for (const cell of searchMoves) {
+          board[cell.row][cell.col] = player;
+          const score = -(yield* negamax(opponentOf(player), depth - 1, -Infinity, -iterationScore));
+          board[cell.row][cell.col] = 0;
+
+          if (score > iterationScore) {
+            iterationScore = score;
+            iterationBest = cell;
+          }
+        }
+      } catch (err) {
+        // Stones left by the interrupted iteration only touch the scratch board
+        if (!(err instanceof SearchTimeout)) throw err;
+        break;
+      }
+
+      if (iterationBest) bestMove = iterationBest;
+      if (iterationScore >= WIN_SCORE) break; // Forced win found
+    }
+    return bestMove;
+  };
+
+  // Drive the search one slice at a time
+  const steps = search();
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    await yieldToEventLoop();
+    sliceEnd = Date.now() + SEARCH_SLICE_MS;
+  }
+};
+
+// ─── Public API ──────────────────────────────────────────────────
+
+/**
+ * Choose the bot's next move for the current position, or null if no legal move exists.
+ * The game itself is never modified; it may change while this awaits, so re-check it before playing.
+ */
+export const chooseBotMove = async (
+  game: IGame,
+  difficulty: BotDifficulty,
+  timeBudgetMs: number = HARD_TIME_BUDGET_MS,
+): Promise<Cell | null> => {
+  const board = game.board.map(row => [...row]);
+  const view = createRuleView(game, board);
+
+  switch (difficulty) {
+    case 'easy':
+      return chooseEasyMove(view, BOT_PLAYER);
+    case 'medium':
+      return chooseMediumMove(view, BOT_PLAYER);
+    case 'hard':
+      return chooseHardMove(view, BOT_PLAYER, Math.min(timeBudgetMs, HARD_TIME_BUDGET_MS));
+    default:
+      return null;
+  }
+};
@@ -7,6 +7,7 @@ import XiDachSession from '../models/XiDachSession';
 import WordChainGame from '../models/WordChainGame';
 import TinhTuyGame from '../models/TinhTuyGame';
 import GoGame from '../models/GoGame';
+import { clearGoReview } from './go-review';
 import { io } from '../server';
 
 const INACTIVE_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -114,6 +115,7 @@ export const cleanupInactiveTinhTuyGames = async (): Promise<number> => {
 /**
  * Cleanup Go games inactive for more than 24 hours
  * Also marks stale 'waiting'/'playing'/'scoring' rooms as 'abandoned' after 30 min
+ * and drops the in-memory review trees of deleted rooms
  */
 export const cleanupInactiveGoGames = async (): Promise<number> => {
   try {
@@ -128,7 +130,15 @@ export const cleanupInactiveGoGames = async (): Promise<number> => {
       { $set: { gameStatus: 'abandoned' } }
     );
 
-    const result = await GoGame.deleteMany({ updatedAt: { $lt: cutoffDate } });
+    // Find rooms to delete (their review sessions live in memory only)
+    const gamesToDelete = await GoGame.find({ updatedAt: { $lt: cutoffDate } }).select('roomId');
+    if (gamesToDelete.length === 0) {
+      return 0;
+    }
+
+    const roomIds = gamesToDelete.map(game => game.roomId);
+    const result = await GoGame.deleteMany({ roomId: { $in: roomIds } });
+    roomIds.forEach(roomId => clearGoReview(roomId));
     return result.deletedCount || 0;
   } catch (error) {
     console.error('[GameCleanup] Error cleaning up Go games:', error);
@@ -0,0 +1,216 @@
+/**
+ * Caro game clock - server-authoritative time controls.
+ * The clock state (bank per player + turn start) lives on the Game document so it
+ * survives reconnects and restarts; only the expiry timeout is kept in memory.
+ */
+import { Server as SocketIOServer } from 'socket.io';
+import Game, { IGame, IGameRules } from '../models/Game';
+import { PlayerNumber } from '../types/game.types';
+import { saveGameHistoryIfFinished } from './gameHistoryService';
+
+export interface ClockSnapshot {
+  player1TimeLeft: number | null; // ms left in bank
+  player2TimeLeft: number | null;
+  moveTimeLeft: number | null;    // ms left for the current move
+  currentPlayer: PlayerNumber;
+  running: boolean;
+}
+
+const activeClocks = new Map<string, NodeJS.Timeout>(); // roomId → expiry timeout
+
+export const isTimedGame = (rules: IGameRules): boolean =>
+  !!(rules && (rules.timeLimit || rules.gameTimeLimit));
+
+const getBank = (game: IGame, player: PlayerNumber): number | null =>
+  player === 1 ? game.clock?.player1TimeLeft ?? null : game.clock?.player2TimeLeft ?? null;
+
+const setBank = (game: IGame, player: PlayerNumber, value: number | null): void => {
+  if (player === 1) {
+    game.clock.player1TimeLeft = value;
+  } else {
+    game.clock.player2TimeLeft = value;
+  }
+};
+
+/**
+ * Reset both banks and start the clock for the current player.
+ * Call whenever a game (re)starts.
+ */
+export const resetClock = (game: IGame, now: number = Date.now()): void => {
+  const bank = game.rules.gameTimeLimit ? game.rules.gameTimeLimit * 1000 : null;
+  game.clock = {
+    player1TimeLeft: bank,
+    player2TimeLeft: bank,
+    turnStartedAt: isTimedGame(game.rules) ? new Date(now) : null,
+  };
+};
+
+/**
+ * Epoch ms at which the current player runs out of time, or null for untimed games
+ * and games that are not in progress.
+ */
+export const getTurnDeadline = (game: IGame): number | null => {
+  if (game.gameStatus !== 'playing') return null;
+  if (!isTimedGame(game.rules) || !game.clock?.turnStartedAt) return null;
+
+  const startedAt = new Date(game.clock.turnStartedAt).getTime();
+  const limits: number[] = [];
+  if (game.rules.timeLimit) limits.push(game.rules.timeLimit * 1000);
+  const bank = getBank(game, game.currentPlayer);
+  if (bank !== null) limits.push(bank);
+
+  return limits.length > 0 ? startedAt + Math.min(...limits) : null;
+};
+
+export const hasFlagged = (game: IGame, now: number = Date.now()): boolean => {
+  if (game.gameStatus !== 'playing') return false;
+  const deadline = getTurnDeadline(game);
+  return deadline !== null && now >= deadline;
+};
+
+/**
+ * Deduct the time spent on this move from the mover's bank, add the Fischer
+ * increment and start the opponent's turn. Mutates the game; caller saves.
+ */
+export const chargeMoveTime = (game: IGame, player: PlayerNumber, now: number = Date.now()): void => {
+  if (!isTimedGame(game.rules) || !game.clock?.turnStartedAt) return;
+
+  const elapsed = now - new Date(game.clock.turnStartedAt).getTime();
+  const bank = getBank(game, player);
+  if (bank !== null) {
+    const increment = (game.rules.timeIncrement || 0) * 1000;
+    setBank(game, player, Math.max(0, bank - elapsed) + increment);
+  }
+  game.clock.turnStartedAt = new Date(now);
+};
+
+/**
+ * Restart the turn timer without charging anyone (used after an approved undo).
+ */
+export const restartTurn = (game: IGame, now: number = Date.now()): void => {
+  if (!isTimedGame(game.rules)) return;
+  game.clock.turnStartedAt = new Date(now);
+};
+
+/**
+ * Time remaining for both players as of `now`, for broadcasting to clients.
+ * Returns null for untimed games.
+ */
+export const getClockSnapshot = (game: IGame, now: number = Date.now()): ClockSnapshot | null => {
+  if (!isTimedGame(game.rules)) return null;
+
+  const running = game.gameStatus === 'playing' && !!game.clock?.turnStartedAt;
+  const elapsed = running ? Math.max(0, now - new Date(game.clock.turnStartedAt!).getTime()) : 0;
+  const current = game.currentPlayer;
+
+  const bankLeft = (player: PlayerNumber): number | null => {
+    const bank = getBank(game, player);
+    if (bank === null) return null;
+    return player === current ? Math.max(0, bank - elapsed) : bank;
+  };
+
+  return {
+    player1TimeLeft: bankLeft(1),
+    player2TimeLeft: bankLeft(2),
+    moveTimeLeft: game.rules.timeLimit
+      ? Math.max(0, game.rules.timeLimit * 1000 - elapsed)
+      : null,
+    currentPlayer: current,
+    running,
+  };
+};
+
+export const clearClock = (roomId: string): void => {
+  const timer = activeClocks.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    activeClocks.delete(roomId);
+  }
+};
+
+/**
+ * Arm the expiry timeout for the current turn. Replaces any existing timeout.
+ */
+export const scheduleClock = (io: SocketIOServer, game: IGame): void => {
+  const roomId = game.roomId;
+  clearClock(roomId);
+  if (game.gameStatus !== 'playing') return;
+
+  const deadline = getTurnDeadline(game);
+  if (deadline === null) return;
+
+  const timer = setTimeout(() => {
+    activeClocks.delete(roomId);
+    handleClockExpired(io, roomId).catch(err => {
+      console.error('[gameClock] Timeout handling error:', err);
+    });
+  }, Math.max(0, deadline - Date.now()));
+
+  activeClocks.set(roomId, timer);
+};
+
+/**
+ * Re-arm the clock if it is not running in this process (e.g. after a server restart).
+ */
+export const ensureClock = (io: SocketIOServer, game: IGame): void => {
+  if (activeClocks.has(game.roomId)) return;
+  scheduleClock(io, game);
+};
+
+/**
+ * Freeze both banks at their current values and cancel the expiry timeout.
+ * Call before a game leaves the 'playing' state for any reason other than a move.
+ */
+export const stopClock = (game: IGame, now: number = Date.now()): void => {
+  clearClock(game.roomId);
+  const snapshot = getClockSnapshot(game, now);
+  if (!snapshot) return;
+  game.clock.player1TimeLeft = snapshot.player1TimeLeft;
+  game.clock.player2TimeLeft = snapshot.player2TimeLeft;
+  game.clock.turnStartedAt = null;
+};
+
+/**
+ * Finish the game as a timeout loss for the player to move.
+ */
+export const finishOnTimeout = async (io: SocketIOServer, game: IGame): Promise<void> => {
+  stopClock(game);
+
+  const loser = game.currentPlayer;
+  const winner: PlayerNumber = loser === 1 ? 2 : 1;
+
+  game.gameStatus = 'finished';
+  game.winner = winner;
+  game.winReason = 'timeout';
+  game.finishedAt = new Date();
+  if (winner === 1) {
+    game.score.player1++;
+  } else {
+    game.score.player2++;
+  }
+
+  await game.save();
+  await saveGameHistoryIfFinished(game);
+
+  io.to(game.roomId).emit('game-finished', {
+    winner,
+    reason: `Player ${loser} ran out of time`,
+    winReason: 'timeout',
+    winningLine: undefined,
+    score: game.score,
+    clock: getClockSnapshot(game),
+  });
+};
+
+const handleClockExpired = async (io: SocketIOServer, roomId: string): Promise<void> => {
+  const game = await Game.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing' || !isTimedGame(game.rules)) return;
+
+  // A move may have landed after this timeout was armed - re-arm for the new turn
+  if (!hasFlagged(game)) {
+    scheduleClock(io, game);
+    return;
+  }
+
+  await finishOnTimeout(io, game);
+};
@@ -1,9 +1,10 @@
 import Game, { IGame } from '../models/Game';
 import GameMove from '../models/GameMove';
 import { checkWin } from './winChecker';
-import { validateMove } from './ruleEngine';
-import { PlayerNumber } from '../types/game.types';
+import { validateMove, overlineWins } from './ruleEngine';
+import { PlayerNumber, OpeningChoice } from '../types/game.types';
 import { saveGameHistoryIfFinished } from './gameHistoryService';
+import { chargeMoveTime, restartTurn, stopClock } from './gameClockService';
 
 // Optimized board initialization (fixes Issue #13)
 // Pre-allocate arrays to avoid intermediate allocations
@@ -47,6 +48,9 @@ export const makeMove = async (
     return { success: false, message: validation.message };
   }
 
+  // Stop the mover's clock before handing the turn over
+  chargeMoveTime(game, player);
+
   // Make the move
   game.board[row][col] = player;
   game.currentPlayer = player === 1 ? 2 : 1;
@@ -65,11 +69,14 @@ export const makeMove = async (
   });
   await move.save();
 
-  // Check for win (with block two ends rule if enabled)
-  const winResult = checkWin(game.board, row, col, player, game.boardSize, game.rules.blockTwoEnds);
+  // Check for win (with block two ends / exact-five rules if enabled)
+  const winResult = checkWin(
+    game.board, row, col, player, game.boardSize, game.rules.blockTwoEnds, overlineWins(game, player)
+  );
   if (winResult.isWin) {
     game.gameStatus = 'finished';
     game.winner = player;
+    game.winReason = 'line';
     game.finishedAt = new Date();
     
     // Save winning line
@@ -94,6 +101,11 @@ export const makeMove = async (
     game.finishedAt = new Date();
   }
 
+  // Finished games keep frozen banks and no running turn
+  if (game.gameStatus === 'finished') {
+    stopClock(game);
+  }
+
   await game.save();
 
   // Save history immediately when game finishes
@@ -123,6 +135,10 @@ export const undoMove = async (
     return { success: false, message: 'Move not found' };
   }
 
+  if (isOpeningMove(game, move.moveNumber)) {
+    return { success: false, message: 'Opening stones cannot be undone' };
+  }
+
   // Check undo count for this player (each player has their own undo limit)
   const playerUndoCount = await GameMove.countDocuments({
     gameId: game._id,
@@ -142,8 +158,207 @@ export const undoMove = async (
   // Revert current player
   game.currentPlayer = move.player;
   game.gameStatus = 'playing';
+  restartTurn(game);
 
   await game.save();
 
   return { success: true, game };
 };
+
+/**
+ * Undo a player's last move together with any reply played after it, handing the turn
+ * back to that player. Used in bot games where there is no opponent to approve an undo.
+ * Only the requesting player's undo limit applies.
+ */
+export const undoLastTurn = async (
+  game: IGame,
+  player: PlayerNumber
+): Promise<{ success: boolean; message?: string; game?: IGame; moveNumber?: number }> => {
+  if (!game.rules.allowUndo) {
+    return { success: false, message: 'Undo is not allowed in this game' };
+  }
+
+  const ownMove = await GameMove.findOne({
+    gameId: game._id,
+    player,
+    isUndone: false,
+  }).sort({ moveNumber: -1 });
+
+  if (!ownMove) {
+    return { success: false, message: 'Move not found' };
+  }
+
+  if (isOpeningMove(game, ownMove.moveNumber)) {
+    return { success: false, message: 'Opening stones cannot be undone' };
+  }
+
+  const playerUndoCount = await GameMove.countDocuments({
+    gameId: game._id,
+    player,
+    isUndone: true,
+  });
+
+  if (playerUndoCount >= game.rules.maxUndoPerGame) {
+    return { success: false, message: 'Maximum undo limit reached for this player' };
+  }
+
+  // The player's move and everything played after it
+  const moves = await GameMove.find({
+    gameId: game._id,
+    isUndone: false,
+    moveNumber: { $gte: ownMove.moveNumber },
+  });
+
+  for (const move of moves) {
+    game.board[move.row][move.col] = 0;
+    move.isUndone = true;
+    await move.save();
+  }
+
+  game.currentPlayer = player;
+  game.gameStatus = 'playing';
+  restartTurn(game);
+
+  await game.save();
+
+  return { success: true, game, moveNumber: ownMove.moveNumber };
+};
+
+// ─── Swap / Swap2 opening ──────────────────────────────────────
+// The starting player lays three tentative stones (black, white, black) and the opponent
+// picks a color. In Swap2 the opponent may instead add one stone of each color and hand
+// the choice back. Black stones carry the starter's number until the colors are settled.
+
+const SWAP_STONES = 3;
+const SWAP2_EXTRA_STONES = 2;
+
+const otherPlayer = (player: PlayerNumber): PlayerNumber => (player === 1 ? 2 : 1);
+
+// Stones laid during the opening are part of the agreed position and cannot be taken back
+const isOpeningMove = (game: IGame, moveNumber: number): boolean =>
+  !!game.opening && (game.opening.phase !== 'none' || moveNumber <= game.opening.stonesPlaced);
+
+/**
+ * Set up the opening for a game that is (re)starting. `starter` moves first: in a
+ * standard game they simply play black, otherwise they lay the opening stones.
+ */
+export const beginOpening = (game: IGame, starter: PlayerNumber): void => {
+  const protocol = game.rules.opening || 'standard';
+  game.currentPlayer = starter;
+
+  if (protocol === 'standard') {
+    game.blackPlayer = starter;
+    game.opening = { phase: 'none', firstPlayer: null, stonesPlaced: 0, chooser: null, extended: false };
+    return;
+  }
+
+  game.blackPlayer = null;
+  game.opening = { phase: 'placing', firstPlayer: starter, stonesPlaced: 0, chooser: null, extended: false };
+};
+
+/**
+ * Lay one opening stone. The color alternates black/white regardless of who places it;
+ * once all stones are down the turn passes to whoever picks the colors.
+ */
+export const placeOpeningStone = async (
+  game: IGame,
+  row: number,
+  col: number,
+  player: PlayerNumber
+): Promise<{ success: boolean; message?: string; game?: IGame }> => {
+  const opening = game.opening;
+  if (game.gameStatus !== 'playing' || opening?.phase !== 'placing' || !opening.firstPlayer) {
+    return { success: false, message: 'No opening stones to place' };
+  }
+  if (game.currentPlayer !== player) {
+    return { success: false, message: 'Not your turn' };
+  }
+  if (row < 0 || row >= game.boardSize || col < 0 || col >= game.boardSize) {
+    return { success: false, message: 'Invalid position' };
+  }
+  if (game.board[row][col] !== 0) {
+    return { success: false, message: 'Cell already occupied' };
+  }
+
+  chargeMoveTime(game, player);
+
+  const stoneIndex = opening.stonesPlaced;
+  const stone: PlayerNumber = stoneIndex % 2 === 0 ? opening.firstPlayer : otherPlayer(opening.firstPlayer);
+  game.board[row][col] = stone;
+
+  await new GameMove({
+    gameId: game._id,
+    player: stone,
+    row,
+    col,
+    moveNumber: stoneIndex + 1,
+    timestamp: new Date(),
+    isUndone: false,
+  }).save();
+
+  opening.stonesPlaced = stoneIndex + 1;
+  const target = opening.extended ? SWAP_STONES + SWAP2_EXTRA_STONES : SWAP_STONES;
+  if (opening.stonesPlaced >= target) {
+    opening.phase = 'choosing';
+    // After a Swap2 extension the choice goes back to the first player
+    opening.chooser = opening.extended ? opening.firstPlayer : otherPlayer(opening.firstPlayer);
+    game.currentPlayer = opening.chooser;
+  }
+
+  await game.save();
+  return { success: true, game };
+};
+
+/**
+ * Resolve the color choice. Picking black or white ends the opening and white moves next;
+ * 'place2' (Swap2 only, once) lets the chooser add two more stones instead.
+ */
+export const chooseOpeningColor = async (
+  game: IGame,
+  player: PlayerNumber,
+  choice: OpeningChoice
+): Promise<{ success: boolean; message?: string; game?: IGame }> => {
+  const opening = game.opening;
+  if (game.gameStatus !== 'playing' || opening?.phase !== 'choosing' || !opening.firstPlayer) {
+    return { success: false, message: 'There is no color choice to make' };
+  }
+  if (opening.chooser !== player) {
+    return { success: false, message: 'Not your turn' };
+  }
+
+  if (choice === 'place2' && (game.rules.opening !== 'swap2' || opening.extended)) {
+    return { success: false, message: 'Placing two more stones is not allowed now' };
+  }
+
+  chargeMoveTime(game, player);
+
+  if (choice === 'place2') {
+    opening.extended = true;
+    opening.phase = 'placing';
+    opening.chooser = null;
+    game.currentPlayer = player;
+    await game.save();
+    return { success: true, game };
+  }
+
+  const blackPlayer: PlayerNumber = choice === 'black' ? player : otherPlayer(player);
+
+  // Black stones were laid with the first player's number - swap if they ended up white
+  if (blackPlayer !== opening.firstPlayer) {
+    game.board = game.board.map(boardRow =>
+      boardRow.map(cell => (cell === 0 ? 0 : 3 - cell))
+    );
+    await GameMove.updateMany(
+      { gameId: game._id },
+      [{ $set: { player: { $subtract: [3, '$player'] } } }]
+    );
+  }
+
+  game.blackPlayer = blackPlayer;
+  opening.phase = 'none';
+  opening.chooser = null;
+  game.currentPlayer = otherPlayer(blackPlayer);
+
+  await game.save();
+  return { success: true, game };
+};
@@ -1,6 +1,27 @@
 import { IGame } from '../models/Game';
-import GameHistory from '../models/GameHistory';
+import GameHistory, { IHistoryMove } from '../models/GameHistory';
+import GameMove from '../models/GameMove';
 import mongoose from 'mongoose';
+import { rateCaroGame } from './ratingService';
+
+/**
+ * All moves of the current round in the order they were played.
+ * Move numbers repeat after an undo, so the order comes from the timestamps.
+ */
+export const getOrderedMoves = async (gameId: mongoose.Types.ObjectId): Promise<IHistoryMove[]> => {
+  const moves = await GameMove.find({ gameId })
+    .sort({ timestamp: 1, _id: 1 })
+    .select('player row col moveNumber timestamp isUndone')
+    .lean();
+  return moves.map(m => ({
+    player: m.player,
+    row: m.row,
+    col: m.col,
+    moveNumber: m.moveNumber,
+    timestamp: m.timestamp,
+    isUndone: m.isUndone,
+  }));
+};
 
 /**
  * Save game history immediately when game finishes
@@ -16,6 +37,9 @@ export const saveGameHistoryIfFinished = async (game: IGame): Promise<boolean> =
       return false;
     }
 
+    // Every finished round is rated, even when the room's history record already exists
+    await rateCaroGame(game);
+
     // Check if history already exists
     const existingHistory = await GameHistory.findOne({ roomId: game.roomId });
     if (existingHistory) {
@@ -62,6 +86,8 @@ export const saveGameHistoryIfFinished = async (game: IGame): Promise<boolean> =
 
     console.log(`[saveGameHistoryIfFinished] Saving history with player1Id: ${player1Id?.toString()}, player2Id: ${player2Id?.toString()}`);
 
+    const moves = await getOrderedMoves(game._id);
+
     // Save history to database
     const historyRecord = new GameHistory({
       originalGameId: game._id.toString(),
@@ -76,6 +102,8 @@ export const saveGameHistoryIfFinished = async (game: IGame): Promise<boolean> =
       board: game.board,
       winner: game.winner,
       winningLine: (game as any).winningLine,
+      winReason: game.winReason || null,
+      moves,
       score: game.score,
       rules: game.rules,
       finishedAt: game.finishedAt,
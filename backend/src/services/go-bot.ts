@@ -0,0 +1,400 @@
+/**
+ * Go (Cờ Vây) Bot — built-in computer opponent for 9×9 and 13×13 rooms.
+ * Flat Monte Carlo: every legal candidate is scored by random playouts (UCB1 picks which
+ * candidate to sample next) and the most-visited one is played. Legality of the chosen
+ * move comes from go-engine.validateMove, so ko/superko/suicide match human moves.
+ * The search runs in short slices and yields between them, so thinking never stalls the server.
+ */
+import { GoBoardSize, GoBotLevel, GoColor, IGoGame } from '../types/go.types';
+import { validateMove, calculateScore, getGoScoreOptions, suggestDeadStones } from './go-engine';
+
+// ─── Types & Constants ──────────────────────────────────────────
+
+export const GO_BOT_LEVELS: GoBotLevel[] = ['easy', 'medium', 'hard'];
+export const GO_BOT_BOARD_SIZES: GoBoardSize[] = [9, 13];
+export const GO_BOT_ID = 'go-bot';  // guestId of the bot's player slot
+
+export type GoBotDecision =
+  | { type: 'move'; row: number; col: number }
+  | { type: 'pass' };
+
+interface LevelConfig {
+  playouts: number;   // max playouts per move
+  timeMs: number;     // max thinking time per move
+}
+
+const LEVELS: Record<GoBotLevel, LevelConfig> = {
+  easy: { playouts: 150, timeMs: 300 },
+  medium: { playouts: 1500, timeMs: 1000 },
+  hard: { playouts: 6000, timeMs: 2000 },
+};
+
+const BOT_NAMES: Record<GoBotLevel, string> = {
+  easy: 'Go Bot (Easy)',
+  medium: 'Go Bot (Medium)',
+  hard: 'Go Bot (Hard)',
+};
+
+const UCB_EXPLORATION = 0.7;
+const HOPELESS_WIN_RATE = 0.03;  // pass instead of playing on in a clearly lost endgame
+const MIN_VISITS_TO_JUDGE = 50;
+const SETTLED_REGION_RATIO = 8;  // own regions up to area/8 points count as settled
+const SEARCH_SLICE_MS = 15;      // max time between event-loop yields while searching
+
+export function isGoBotLevel(value: unknown): value is GoBotLevel {
+  return typeof value === 'string' && (GO_BOT_LEVELS as string[]).includes(value);
+}
+
+export function getGoBotName(level: GoBotLevel): string {
+  return BOT_NAMES[level];
+}
+
+export function isGoBotBoardSize(size: number): boolean {
+  return (GO_BOT_BOARD_SIZES as number[]).includes(size);
+}
+
+// ─── Fast Playout Board ─────────────────────────────────────────
+
+/**
+ * Flat typed-array board used only inside playouts. Much cheaper than the
+ * Set-based engine helpers; ko is ignored (playouts are capped in length).
+ */
+class PlayoutBoard {
+  readonly size: number;
+  readonly cells: Int8Array;
+  private readonly neighbors: number[][];
+  private readonly diagonals: number[][];
+  private readonly mark: Int32Array;
+  private stamp = 0;
+
+  constructor(size: number, neighbors: number[][], diagonals: number[][]) {
+    this.size = size;
+    this.cells = new Int8Array(size * size);
+    this.neighbors = neighbors;
+    this.diagonals = diagonals;
+    this.mark = new Int32Array(size * size);
+  }
+
+  load(board: number[][]): void {
+    for (let r = 0; r < this.size; r++) {
+      for (let c = 0; c < this.size; c++) {
+        this.cells[r * this.size + c] = board[r][c];
+      }
+    }
+  }
+
+  /** True when the group at `p` has at least one liberty */
+  private hasLiberty(p: number): boolean {
+    const color = this.cells[p];
+    const stamp = ++this.stamp;
+    const stack = [p];
+    this.mark[p] = stamp;
+    while (stack.length > 0) {
+      const cur = stack.pop()!;
+      for (const n of this.neighbors[cur]) {
+        const v = this.cells[n];
+        if (v === 0) return true;
+        if (v === color && this.mark[n] !== stamp) {
+          this.mark[n] = stamp;
+          stack.push(n);
+        }
+      }
+    }
+    return false;
+  }
+
+  private removeGroup(p: number): number {
+    const color = this.cells[p];
+    const stack = [p];
+    let removed = 0;
+    this.cells[p] = 0;
+    while (stack.length > 0) {
+      const cur = stack.pop()!;
+      removed++;
+      for (const n of this.neighbors[cur]) {
+        if (this.cells[n] === color) {
+          this.cells[n] = 0;
+          stack.push(n);
+        }
+      }
+    }
+    return removed;
+  }
+
+  /** Empty point fully enclosed by `color` with no false-eye diagonals */
+  isEye(p: number, color: number): boolean {
+    for (const n of this.neighbors[p]) {
+      if (this.cells[n] !== color) return false;
+    }
+    const opp = 3 - color;
+    let bad = 0;
+    for (const d of this.diagonals[p]) {
+      if (this.cells[d] === opp) bad++;
+    }
+    const onEdge = this.neighbors[p].length < 4;
+    return onEdge ? bad === 0 : bad < 2;
+  }
+
+  /** Play `color` at `p`. Returns false (board unchanged) for suicide. */
+  play(p: number, color: number): boolean {
+    const opp = 3 - color;
+    this.cells[p] = color;
+    let captured = false;
+    for (const n of this.neighbors[p]) {
+      if (this.cells[n] === opp && !this.hasLiberty(n)) {
+        this.removeGroup(n);
+        captured = true;
+      }
+    }
+    if (!captured && !this.hasLiberty(p)) {
+      this.cells[p] = 0;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Empty points in regions of at most `maxSize` points bordered only by `color`.
+   * Playing there can't gain anything, so the bot leaves its settled territory alone.
+   */
+  settledPoints(color: number, maxSize: number): Set<number> {
+    const settled = new Set<number>();
+    const stamp = ++this.stamp;
+    for (let start = 0; start < this.cells.length; start++) {
+      if (this.cells[start] !== 0 || this.mark[start] === stamp) continue;
+      const region: number[] = [];
+      const stack = [start];
+      let onlyOwn = true;
+      this.mark[start] = stamp;
+      while (stack.length > 0) {
+        const cur = stack.pop()!;
+        region.push(cur);
+        for (const n of this.neighbors[cur]) {
+          const v = this.cells[n];
+          if (v === 0) {
+            if (this.mark[n] !== stamp) {
+              this.mark[n] = stamp;
+              stack.push(n);
+            }
+          } else if (v !== color) {
+            onlyOwn = false;
+          }
+        }
+      }
+      if (onlyOwn && region.length <= maxSize) {
+        for (const p of region) settled.add(p);
+      }
+    }
+    return settled;
+  }
+
+  /** Area score (stones + single-colour empty points) from black's perspective, before komi */
+  areaDiff(): number {
+    let diff = 0;
+    for (let p = 0; p < this.cells.length; p++) {
+      const v = this.cells[p];
+      if (v === 1) diff++;
+      else if (v === 2) diff--;
+      else {
+        let owner = 0;
+        for (const n of this.neighbors[p]) {
+          const nv = this.cells[n];
+          if (nv === 0) continue;
+          if (owner === 0) owner = nv;
+          else if (owner !== nv) { owner = -1; break; }
+        }
+        if (owner === 1) diff++;
+        else if (owner === 2) diff--;
+      }
+    }
+    return diff;
+  }
+}
+
+const geometryCache = new Map<number, { neighbors: number[][]; diagonals: number[][] }>();
+
+function getGeometry(size: number): { neighbors: number[][]; diagonals: number[][] } {
+  const cached = geometryCache.get(size);
+  if (cached) return cached;
+
+  const neighbors: number[][] = [];
+  const diagonals: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const ns: number[] = [];
+      const ds: number[] = [];
+      for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr >= 0 && nr < size && nc >= 0 && nc < size) ns.push(nr * size + nc);
+      }
+      for (const [dr, dc] of [[-1, -1], [-1, 1], [1, -1], [1, 1]]) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr >= 0 && nr < size && nc >= 0 && nc < size) ds.push(nr * size + nc);
+      }
+      neighbors.push(ns);
+      diagonals.push(ds);
+    }
+  }
+
+  const geometry = { neighbors, diagonals };
+  geometryCache.set(size, geometry);
+  return geometry;
+}
+
+/**
+ * Random playout from the current position until two passes (or a length cap).
+ * Returns true when `botColor` wins under area scoring + komi.
+ */
+function runPlayout(
+  sim: PlayoutBoard,
+  toMove: number,
+  botColor: number,
+  komi: number,
+): boolean {
+  const area = sim.cells.length;
+  const maxMoves = area * 3;
+  const empties: number[] = [];
+  let color = toMove;
+  let passes = 0;
+
+  for (let moveNo = 0; moveNo < maxMoves && passes < 2; moveNo++) {
+    empties.length = 0;
+    for (let p = 0; p < area; p++) {
+      if (sim.cells[p] === 0) empties.push(p);
+    }
+
+    let played = false;
+    let remaining = empties.length;
+    while (remaining > 0) {
+      const idx = Math.floor(Math.random() * remaining);
+      const p = empties[idx];
+      empties[idx] = empties[remaining - 1];
+      remaining--;
+      if (sim.isEye(p, color)) continue;
+      if (sim.play(p, color)) {
+        played = true;
+        break;
+      }
+    }
+
+    passes = played ? 0 : passes + 1;
+    color = 3 - color;
+  }
+
+  const blackMargin = sim.areaDiff() - komi;
+  return botColor === 1 ? blackMargin > 0 : blackMargin < 0;
+}
+
+// ─── Decision ───────────────────────────────────────────────────
+
+function colorToCell(color: GoColor): number {
+  return color === 'black' ? 1 : 2;
+}
+
+/** Current score margin for `color` with the engine's suggested dead stones removed */
+function currentMargin(game: IGoGame, color: GoColor): number {
+  const score = calculateScore(game.board, suggestDeadStones(game.board), getGoScoreOptions(game));
+  const diff = score.black.total - score.white.total;
+  return color === 'black' ? diff : -diff;
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Choose the bot's action for the side to move. Never mutates the game;
+ * the caller applies the result with applyMove/applyPass. The game may change
+ * while this awaits, so the caller must re-check it before applying.
+ */
+export async function chooseGoBotMove(game: IGoGame, level: GoBotLevel): Promise<GoBotDecision> {
+  const color = game.currentColor;
+  const me = colorToCell(color);
+  const size = game.board.length;
+  const { neighbors, diagonals } = getGeometry(size);
+  const config = LEVELS[level];
+
+  const root = new PlayoutBoard(size, neighbors, diagonals);
+  root.load(game.board);
+
+  // Candidates: engine-legal moves outside our own eyes and settled territory
+  const settled = root.settledPoints(me, Math.floor((size * size) / SETTLED_REGION_RATIO));
+  const candidates: number[] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const p = r * size + c;
+      if (root.cells[p] !== 0 || root.isEye(p, me) || settled.has(p)) continue;
+      if (validateMove(game, r, c, color).valid) candidates.push(p);
+    }
+  }
+
+  if (candidates.length === 0) return { type: 'pass' };
+
+  // Opponent passed and we're already ahead — pass to end the game
+  const lastMove = game.moveHistory[game.moveHistory.length - 1];
+  if (lastMove?.isPass && lastMove.color !== color && currentMargin(game, color) > 0) {
+    return { type: 'pass' };
+  }
+
+  const visits = new Float64Array(candidates.length);
+  const wins = new Float64Array(candidates.length);
+  const sim = new PlayoutBoard(size, neighbors, diagonals);
+  const deadline = Date.now() + config.timeMs;
+  let total = 0;
+  let sliceEnd = Date.now() + SEARCH_SLICE_MS;
+
+  while (total < config.playouts && (total % 32 !== 0 || Date.now() < deadline)) {
+    // Let other rooms' sockets and timers run between slices
+    if (total % 32 === 0 && Date.now() >= sliceEnd) {
+      await yieldToEventLoop();
+      sliceEnd = Date.now() + SEARCH_SLICE_MS;
+      continue;
+    }
+
+    // UCB1 over root candidates (unvisited first)
+    let pick = -1;
+    let bestUcb = -Infinity;
+    for (let i = 0; i < candidates.length; i++) {
+      if (visits[i] === 0) { pick = i; break; }
+      const ucb = wins[i] / visits[i] + UCB_EXPLORATION * Math.sqrt(Math.log(total) / visits[i]);
+      if (ucb > bestUcb) { bestUcb = ucb; pick = i; }
+    }
+
+    sim.cells.set(root.cells);
+    sim.play(candidates[pick], me);
+    if (runPlayout(sim, 3 - me, me, game.settings.komi)) wins[pick]++;
+    visits[pick]++;
+    total++;
+  }
+
+  let best = 0;
+  for (let i = 1; i < candidates.length; i++) {
+    if (visits[i] > visits[best]) best = i;
+  }
+
+  // Nothing saves a lost endgame — pass instead of filling the board
+  const winRate = visits[best] > 0 ? wins[best] / visits[best] : 0;
+  const lateGame = game.moveCount > (size * size) / 2;
+  if (lateGame && visits[best] >= MIN_VISITS_TO_JUDGE && winRate < HOPELESS_WIN_RATE) {
+    return { type: 'pass' };
+  }
+
+  const p = candidates[best];
+  return { type: 'move', row: Math.floor(p / size), col: p % size };
+}
+
+/**
+ * Scoring-phase agreement: accept the dead-stone marking unless it scores
+ * worse for the bot than the engine's own suggestion.
+ */
+export function shouldBotAgreeScoring(game: IGoGame, color: GoColor): boolean {
+  const options = getGoScoreOptions(game);
+  const margin = (deadStones: string[]): number => {
+    const score = calculateScore(game.board, deadStones, options);
+    const diff = score.black.total - score.white.total;
+    return color === 'black' ? diff : -diff;
+  };
+  return margin(game.deadStones) >= margin(suggestDeadStones(game.board));
+}
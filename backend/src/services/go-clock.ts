@@ -0,0 +1,311 @@
+/**
+ * Go game clock — Japanese byoyomi, Canadian overtime and Fischer increment.
+ * The running turn lives in memory (start time, expiry timeout, sync interval). Player
+ * banks are checkpointed to MongoDB every few seconds and on every move, together with
+ * `clockStartedAt`, so a restart or reconnect resumes from the last checkpoint.
+ */
+import { Server as SocketIOServer } from 'socket.io';
+import GoGame from '../models/GoGame';
+import { IGoGame, IGoPlayer, IGoSettings, GoColor } from '../types/go.types';
+
+const SYNC_INTERVAL_MS = 5000;   // checkpoint + go:timer-update while a turn is running
+const EXPIRY_GRACE_MS = 50;      // fire the flag check just after the deadline
+
+interface RunningClock {
+  color: GoColor;
+  startedAt: number;             // epoch ms of the last checkpoint
+  expiry: NodeJS.Timeout;
+  sync: NodeJS.Timeout;
+}
+
+const runningClocks = new Map<string, RunningClock>(); // roomId → running turn
+
+type ClockFields = Pick<IGoPlayer, 'mainTimeLeft' | 'byoyomiPeriodsLeft' | 'periodTimeLeft' | 'stonesLeft'>;
+
+export interface GoClockPlayer extends ClockFields {
+  slot: 1 | 2;
+  color: GoColor;
+}
+
+export interface GoClockSnapshot {
+  players: GoClockPlayer[];
+  currentColor: GoColor;
+  running: boolean;
+  serverTime: number;
+}
+
+// ─── Time Arithmetic ─────────────────────────────────────────────
+
+/** Main time 0 means an untimed game, whatever the overtime settings say */
+export const isGoClockEnabled = (settings: IGoSettings): boolean => settings.mainTime > 0;
+
+const roundSeconds = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/** Seconds until this player flags if their clock runs uninterrupted */
+function secondsUntilFlag(fields: ClockFields, settings: IGoSettings): number {
+  switch (settings.timeSystem) {
+    case 'fischer':
+      return fields.mainTimeLeft;
+    case 'canadian':
+      return fields.mainTimeLeft + fields.periodTimeLeft;
+    default:
+      return fields.byoyomiPeriodsLeft > 0
+        ? fields.mainTimeLeft + fields.periodTimeLeft + (fields.byoyomiPeriodsLeft - 1) * settings.byoyomiTime
+        : fields.mainTimeLeft;
+  }
+}
+
+/**
+ * Deduct `elapsed` seconds: main time first, then the current period / block.
+ * Byoyomi periods that run out are lost one at a time. Returns true if the player flagged.
+ */
+function consumeTime(fields: ClockFields, settings: IGoSettings, elapsed: number): boolean {
+  let overflow = elapsed;
+  if (fields.mainTimeLeft > 0) {
+    const used = Math.min(fields.mainTimeLeft, overflow);
+    fields.mainTimeLeft = roundSeconds(fields.mainTimeLeft - used);
+    overflow -= used;
+  }
+  if (overflow <= 0) return false;
+
+  switch (settings.timeSystem) {
+    case 'fischer':
+      return true;
+
+    case 'canadian':
+      fields.periodTimeLeft = roundSeconds(fields.periodTimeLeft - overflow);
+      if (fields.periodTimeLeft > 0) return false;
+      fields.periodTimeLeft = 0;
+      return true;
+
+    default:
+      while (fields.byoyomiPeriodsLeft > 0 && overflow > 0) {
+        if (overflow < fields.periodTimeLeft) {
+          fields.periodTimeLeft = roundSeconds(fields.periodTimeLeft - overflow);
+          return false;
+        }
+        overflow -= fields.periodTimeLeft;
+        fields.byoyomiPeriodsLeft -= 1;
+        fields.periodTimeLeft = fields.byoyomiPeriodsLeft > 0 ? settings.byoyomiTime : 0;
+      }
+      return fields.byoyomiPeriodsLeft <= 0;
+  }
+}
+
+/** Per-move bookkeeping once the mover's time has been deducted */
+function applyMoveBonus(fields: ClockFields, settings: IGoSettings): void {
+  switch (settings.timeSystem) {
+    case 'fischer':
+      fields.mainTimeLeft = roundSeconds(fields.mainTimeLeft + settings.fischerIncrement);
+      break;
+
+    case 'canadian':
+      if (fields.mainTimeLeft > 0) break;
+      fields.stonesLeft -= 1;
+      if (fields.stonesLeft <= 0) {
+        // Block completed in time — a fresh one starts with the next move
+        fields.stonesLeft = settings.canadianStones;
+        fields.periodTimeLeft = settings.canadianTime;
+      }
+      break;
+
+    default:
+      // A move inside a byoyomi period resets that period
+      if (fields.mainTimeLeft <= 0 && fields.byoyomiPeriodsLeft > 0) {
+        fields.periodTimeLeft = settings.byoyomiTime;
+      }
+  }
+}
+
+function getTurnStart(game: IGoGame, color: GoColor): number | null {
+  const running = runningClocks.get(game.roomId);
+  if (running && running.color === color) return running.startedAt;
+  return game.clockStartedAt ? new Date(game.clockStartedAt).getTime() : null;
+}
+
+/**
+ * Clock fields for a player as of `now`, including the running turn. `onTurn` defaults to
+ * whether it is their move; chargeGoMove passes true because the board may already have moved on.
+ */
+function liveFields(
+  game: IGoGame,
+  player: IGoPlayer,
+  now: number,
+  onTurn: boolean = player.color === game.currentColor,
+): { fields: ClockFields; flagged: boolean } {
+  const fields: ClockFields = {
+    mainTimeLeft: player.mainTimeLeft,
+    byoyomiPeriodsLeft: player.byoyomiPeriodsLeft,
+    periodTimeLeft: player.periodTimeLeft,
+    stonesLeft: player.stonesLeft,
+  };
+  const startedAt = onTurn ? getTurnStart(game, player.color) : null;
+  if (startedAt === null) return { fields, flagged: false };
+
+  const flagged = consumeTime(fields, game.settings, Math.max(0, now - startedAt) / 1000);
+  return { fields, flagged };
+}
+
+// ─── Game Document Updates ──────────────────────────────────────
+// These mutate the game; the caller saves.
+
+/** A full time bank for a new player under these settings */
+export function initialGoClockFields(settings: IGoSettings): ClockFields {
+  const system = settings.timeSystem || 'byoyomi';
+  return {
+    mainTimeLeft: settings.mainTime,
+    byoyomiPeriodsLeft: system === 'byoyomi' ? settings.byoyomiPeriods : 0,
+    periodTimeLeft: system === 'canadian' ? settings.canadianTime : settings.byoyomiTime,
+    stonesLeft: system === 'canadian' ? settings.canadianStones : 0,
+  };
+}
+
+/** Full banks for both players and a stopped clock. Call whenever a game (re)starts. */
+export function resetGoClock(game: IGoGame): void {
+  game.players.forEach(p => Object.assign(p, initialGoClockFields(game.settings)));
+  game.clockStartedAt = null;
+}
+
+/**
+ * Charge the mover for the turn that just ended (stone or pass) and start the opponent's.
+ * Check hasGoFlagged first — a player who has run out of time may not move.
+ */
+export function chargeGoMove(game: IGoGame, color: GoColor, now: number = Date.now()): void {
+  if (!isGoClockEnabled(game.settings)) return;
+  const player = game.players.find(p => p.color === color);
+  if (!player) return;
+
+  const { fields } = liveFields(game, player, now, true);
+  applyMoveBonus(fields, game.settings);
+  Object.assign(player, fields);
+  game.clockStartedAt = new Date(now);
+}
+
+/** Whether the player to move has run out of time as of `now` */
+export function hasGoFlagged(game: IGoGame, now: number = Date.now()): boolean {
+  if (!isGoClockEnabled(game.settings)) return false;
+  const player = game.players.find(p => p.color === game.currentColor);
+  return !!player && liveFields(game, player, now).flagged;
+}
+
+/**
+ * Remaining time for both players as of `now`, for go:timer-update and resyncs.
+ * Returns null for untimed games.
+ */
+export function getGoClockSnapshot(game: IGoGame, now: number = Date.now()): GoClockSnapshot | null {
+  if (!isGoClockEnabled(game.settings)) return null;
+  return {
+    players: game.players.map(p => ({
+      slot: p.slot,
+      color: p.color,
+      ...liveFields(game, p, now).fields,
+    })),
+    currentColor: game.currentColor,
+    running: runningClocks.has(game.roomId),
+    serverTime: now,
+  };
+}
+
+// ─── Running Clock ───────────────────────────────────────────────
+
+function clearRunning(roomId: string): void {
+  const running = runningClocks.get(roomId);
+  if (running) {
+    clearTimeout(running.expiry);
+    clearInterval(running.sync);
+    runningClocks.delete(roomId);
+  }
+}
+
+/** Write the running player's time into the document and restart the turn from `now` */
+async function checkpoint(io: SocketIOServer, roomId: string): Promise<void> {
+  const running = runningClocks.get(roomId);
+  if (!running) return;
+
+  const game = await GoGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing' || game.currentColor !== running.color) return;
+
+  const now = Date.now();
+  const idx = game.players.findIndex(p => p.color === running.color);
+  if (idx < 0) return;
+
+  const { fields, flagged } = liveFields(game, game.players[idx], now);
+  if (!flagged && runningClocks.get(roomId) === running) {
+    running.startedAt = now;
+    await GoGame.updateOne(
+      { roomId, currentColor: running.color },
+      {
+        $set: {
+          [`players.${idx}.mainTimeLeft`]: fields.mainTimeLeft,
+          [`players.${idx}.byoyomiPeriodsLeft`]: fields.byoyomiPeriodsLeft,
+          [`players.${idx}.periodTimeLeft`]: fields.periodTimeLeft,
+          [`players.${idx}.stonesLeft`]: fields.stonesLeft,
+          clockStartedAt: new Date(now),
+        },
+      },
+    );
+    Object.assign(game.players[idx], fields);
+    game.clockStartedAt = new Date(now);
+  }
+
+  io.to(`go:${roomId}`).emit('go:timer-update', getGoClockSnapshot(game, now));
+}
+
+/**
+ * Start (or resume) the clock of the player to move. The turn continues from the
+ * persisted `clockStartedAt` when there is one, otherwise from now.
+ * `onTimeout` runs once the player's time is exhausted.
+ */
+export async function startGoClock(
+  io: SocketIOServer,
+  game: IGoGame,
+  onTimeout: (roomId: string) => void,
+): Promise<void> {
+  const roomId = game.roomId;
+  clearRunning(roomId);
+  if (!isGoClockEnabled(game.settings) || game.gameStatus !== 'playing') return;
+
+  const player = game.players.find(p => p.color === game.currentColor);
+  if (!player) return;
+
+  if (!game.clockStartedAt) {
+    game.clockStartedAt = new Date();
+    await GoGame.updateOne({ roomId }, { $set: { clockStartedAt: game.clockStartedAt } });
+  }
+  const startedAt = new Date(game.clockStartedAt).getTime();
+
+  const remainingMs = secondsUntilFlag(player, game.settings) * 1000 - (Date.now() - startedAt);
+  const expiry = setTimeout(() => {
+    clearRunning(roomId);
+    onTimeout(roomId);
+  }, Math.max(0, remainingMs) + EXPIRY_GRACE_MS);
+
+  const sync = setInterval(() => {
+    checkpoint(io, roomId).catch(err => console.error('[go:clock] Checkpoint failed:', err));
+  }, SYNC_INTERVAL_MS);
+
+  runningClocks.set(roomId, { color: game.currentColor, startedAt, expiry, sync });
+  io.to(`go:${roomId}`).emit('go:timer-update', getGoClockSnapshot(game));
+}
+
+/**
+ * Stop the clock without ending the game (disconnect, scoring phase). The running
+ * player's time so far is written to the document; the caller saves.
+ */
+export function pauseGoClock(game: IGoGame, now: number = Date.now()): void {
+  if (isGoClockEnabled(game.settings) && game.clockStartedAt) {
+    const player = game.players.find(p => p.color === game.currentColor);
+    if (player) Object.assign(player, liveFields(game, player, now).fields);
+  }
+  clearRunning(game.roomId);
+  game.clockStartedAt = null;
+}
+
+/** Drop the in-memory clock for a room (game over or room deleted) */
+export function clearGoClock(roomId: string): void {
+  clearRunning(roomId);
+}
+
+export function isGoClockRunning(roomId: string): boolean {
+  return runningClocks.has(roomId);
+}
@@ -2,7 +2,9 @@
  * Go (Cờ Vây) Game Engine
  * Core logic: move validation, capture, ko, scoring, territory calculation.
  */
-import { GoBoardSize, GoCell, GoColor, IGoGame, IGoScore } from '../types/go.types';
+import {
+  GoBoardSize, GoCell, GoColor, GoRuleset, IGoGame, IGoMove, IGoScore, IGoTerritory,
+} from '../types/go.types';
 import GoGame from '../models/GoGame';
 
 // ─── Internal Types ─────────────────────────────────────────────
@@ -334,6 +336,24 @@ export function applyPass(game: IGoGame, color: GoColor): void {
   }
 }
 
+/**
+ * Rebuild the starting position (handicap / SGF setup stones) by taking back
+ * every move from the given board. Works because each move stores its captures.
+ */
+export function rewindBoardToStart(board: number[][], moveHistory: IGoMove[]): number[][] {
+  const start = cloneBoard(board);
+  for (let i = moveHistory.length - 1; i >= 0; i--) {
+    const move = moveHistory[i];
+    if (move.isPass) continue;
+    start[move.row][move.col] = 0;
+    const capturedCell: GoCell = move.color === 'black' ? 2 : 1;
+    for (const pos of move.captures) {
+      start[pos.row][pos.col] = capturedCell;
+    }
+  }
+  return start;
+}
+
 // ─── Handicap ──────────────────────────────────────────────────
 
 /** Standard Go handicap star point positions by board size */
@@ -382,30 +402,107 @@ export function initBoardWithHandicap(
 
 // ─── Scoring & Territory ────────────────────────────────────────
 
+/** Rulesets that count territory + prisoners, where eyes inside a seki are worth nothing */
+const SEKI_EYES_UNCOUNTED: GoRuleset[] = ['japanese', 'korean'];
+
+export interface GoScoreOptions {
+  komi: number;
+  ruleset?: GoRuleset;                           // default Chinese area scoring
+  captures?: { black: number; white: number };   // stones each side captured during play
+  passes?: { black: number; white: number };     // passes each side made (AGA pass stones)
+}
+
+/** Scoring inputs for a game: its rules plus captures and passes taken from the move history */
+export function getGoScoreOptions(game: IGoGame): GoScoreOptions {
+  const captures = { black: 0, white: 0 };
+  const passes = { black: 0, white: 0 };
+  for (const move of game.moveHistory) {
+    if (move.isPass) passes[move.color] += 1;
+    else captures[move.color] += move.captures.length;
+  }
+  return { komi: game.settings.komi, ruleset: game.settings.ruleset || 'chinese', captures, passes };
+}
+
+function removeDeadStones(board: number[][], deadStones: string[]): number[][] {
+  const workBoard = cloneBoard(board);
+  for (const k of deadStones) {
+    const { row, col } = parseKey(k);
+    workBoard[row][col] = 0;
+  }
+  return workBoard;
+}
+
+/** Would `color` playing here leave its own group on one liberty? (board is restored) */
+function isSelfAtari(board: number[][], row: number, col: number, color: GoCell): boolean {
+  const size = board.length;
+  const opponent: GoCell = color === 1 ? 2 : 1;
+  board[row][col] = color;
+  try {
+    // A move that captures is never self-atari
+    for (const adj of getAdjacentPositions(row, col, size)) {
+      if (board[adj.row][adj.col] === opponent && getGroup(board, adj.row, adj.col).liberties.size === 0) {
+        return false;
+      }
+    }
+    return getGroup(board, row, col).liberties.size <= 1;
+  } finally {
+    board[row][col] = 0;
+  }
+}
+
+/**
+ * Seki (mutual life): an empty point next to both colors that neither side can fill
+ * without putting its own group in atari. Returns those shared points and the stones
+ * of every group touching them. Assumes the dame has been filled, as territory rules expect.
+ */
+function findSeki(workBoard: number[][]): { points: Set<string>; stones: Set<string> } {
+  const size = workBoard.length;
+  const points = new Set<string>();
+  const stones = new Set<string>();
+
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (workBoard[r][c] !== 0) continue;
+      const adjacent = getAdjacentPositions(r, c, size);
+      const touchesBlack = adjacent.some(p => workBoard[p.row][p.col] === 1);
+      const touchesWhite = adjacent.some(p => workBoard[p.row][p.col] === 2);
+      if (!touchesBlack || !touchesWhite) continue;
+      if (!isSelfAtari(workBoard, r, c, 1) || !isSelfAtari(workBoard, r, c, 2)) continue;
+
+      points.add(key(r, c));
+      for (const adj of adjacent) {
+        if (workBoard[adj.row][adj.col] === 0 || stones.has(key(adj.row, adj.col))) continue;
+        for (const s of getGroup(workBoard, adj.row, adj.col).stones) stones.add(s);
+      }
+    }
+  }
+
+  return { points, stones };
+}
+
 /**
  * BFS flood fill on empty cells to determine territory ownership.
+ * Shared liberties of a seki are always neutral; under Japanese/Korean rules the eyes
+ * of groups in seki are neutral too. Both are listed in `seki`.
  * Accepts an optional pre-built workBoard to avoid redundant cloning when
  * called from calculateScore (which already has a dead-stone-cleaned copy).
  */
 export function calculateTerritory(
   board: number[][],
   deadStones: string[],
+  ruleset: GoRuleset = 'chinese',
   preBuiltWorkBoard?: number[][],
-): { black: string[]; white: string[]; neutral: string[] } {
+): IGoTerritory {
   const size = board.length;
-  const workBoard = preBuiltWorkBoard ?? (() => {
-    const wb = cloneBoard(board);
-    for (const k of deadStones) {
-      const { row, col } = parseKey(k);
-      wb[row][col] = 0;
-    }
-    return wb;
-  })();
+  const workBoard = preBuiltWorkBoard ?? removeDeadStones(board, deadStones);
+  const seki = findSeki(workBoard);
+  const sekiEyesUncounted = SEKI_EYES_UNCOUNTED.includes(ruleset);
 
   const visited = new Set<string>();
   const black: string[] = [];
   const white: string[] = [];
   const neutral: string[] = [];
+  const sekiPoints: string[] = [];
 
   for (let r = 0; r < size; r++) {
     for (let c = 0; c < size; c++) {
@@ -418,6 +515,7 @@ export function calculateTerritory(
       let head = 0;
       let touchesBlack = false;
       let touchesWhite = false;
+      let touchesSeki = false;
 
       while (head < queue.length) {
         const { row: qr, col: qc } = queue[head++];
@@ -432,35 +530,51 @@ export function calculateTerritory(
               queue.push(adj);
             }
           }
-        } else if (workBoard[qr][qc] === 1) {
+          continue;
+        }
+
+        // Stones are region borders, not part of it - let other regions reach them too
+        visited.delete(qk);
+        if (seki.stones.has(qk)) touchesSeki = true;
+        if (workBoard[qr][qc] === 1) {
           touchesBlack = true;
         } else if (workBoard[qr][qc] === 2) {
           touchesWhite = true;
         }
       }
 
-      if (touchesBlack && !touchesWhite) {
+      if (touchesBlack !== touchesWhite && touchesSeki && sekiEyesUncounted) {
+        neutral.push(...region);
+        sekiPoints.push(...region);
+      } else if (touchesBlack && !touchesWhite) {
         black.push(...region);
       } else if (touchesWhite && !touchesBlack) {
         white.push(...region);
       } else {
         neutral.push(...region);
+        sekiPoints.push(...region.filter(p => seki.points.has(p)));
       }
     }
   }
 
-  return { black, white, neutral };
+  return { black, white, neutral, seki: sekiPoints };
 }
 
 /**
- * Chinese scoring: territory + stones on board + komi.
- * Removes dead stones from board copy before counting.
+ * Score the final position under the chosen ruleset (dead stones are removed first):
+ * - Chinese (area): stones on board + territory + komi
+ * - Japanese / Korean (territory): territory + prisoners + komi, eyes in seki count nothing
+ * - AGA: territory + prisoners + one stone per opponent pass + komi — equal to area
+ *   scoring as long as White passes last
  */
 export function calculateScore(
   board: number[][],
   deadStones: string[],
-  komi: number
+  options: GoScoreOptions,
 ): IGoScore {
+  const { komi, ruleset = 'chinese' } = options;
+  const captures = options.captures ?? { black: 0, white: 0 };
+  const passes = options.passes ?? { black: 0, white: 0 };
   const size = board.length;
   const workBoard = cloneBoard(board);
 
@@ -485,26 +599,39 @@ export function calculateScore(
   }
 
   // Reuse workBoard to avoid double-clone in calculateTerritory
-  const { black: blackTerr, white: whiteTerr } = calculateTerritory(board, deadStones, workBoard);
+  const territory = calculateTerritory(board, deadStones, ruleset, workBoard);
+
+  const black = {
+    territory: territory.black.length,
+    stones: blackStones,
+    captures: whiteDeadCount, // dead white stones
+    prisoners: captures.black + whiteDeadCount,
+    passStones: passes.white,
+  };
+  const white = {
+    territory: territory.white.length,
+    stones: whiteStones,
+    captures: blackDeadCount, // dead black stones
+    prisoners: captures.white + blackDeadCount,
+    passStones: passes.black,
+  };
 
-  // Chinese scoring: stones + territory
-  const blackTotal = blackStones + blackTerr.length;
-  const whiteTotal = whiteStones + whiteTerr.length + komi;
+  const points = (side: typeof black): number => {
+    switch (ruleset) {
+      case 'japanese':
+      case 'korean':
+        return side.territory + side.prisoners;
+      case 'aga':
+        return side.territory + side.prisoners + side.passStones;
+      default:
+        return side.stones + side.territory;
+    }
+  };
 
   return {
-    black: {
-      territory: blackTerr.length,
-      stones: blackStones,
-      captures: blackDeadCount, // dead white stones
-      total: blackTotal,
-    },
-    white: {
-      territory: whiteTerr.length,
-      stones: whiteStones,
-      captures: whiteDeadCount, // dead black stones
-      komi,
-      total: whiteTotal,
-    },
+    ruleset,
+    black: { ...black, total: points(black) },
+    white: { ...white, komi, total: points(white) + komi },
   };
 }
 
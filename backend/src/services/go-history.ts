@@ -0,0 +1,113 @@
+/**
+ * Go (Cờ Vây) game archive
+ * Copies finished GoGame rooms into GoGameHistory so they survive room cleanup,
+ * and applies the result to both players' Go ratings.
+ * Mirrors gameHistoryService.ts: only games with an authenticated player are stored,
+ * and each user keeps their most recent MAX_HISTORY_PER_USER games.
+ */
+import mongoose from 'mongoose';
+import GoGameHistory from '../models/GoGameHistory';
+import User from '../models/User';
+import { IGoGame } from '../types/go.types';
+import { rewindBoardToStart } from './go-engine';
+import { rateGoGame } from './ratingService';
+
+const MAX_HISTORY_PER_USER = 50;
+
+/** Archive a finished game. Safe to call more than once for the same game. */
+export async function saveGoGameHistory(game: IGoGame): Promise<boolean> {
+  try {
+    if (game.gameStatus !== 'finished' || game.isReview) return false;
+
+    await rateGoGame(game);
+
+    const playerUserIds = game.players
+      .map(p => p.userId)
+      .filter((id): id is mongoose.Types.ObjectId => !!id);
+
+    // Guest-only games are not archived (same rule as Caro history)
+    if (playerUserIds.length === 0) return false;
+
+    const users = await User.find({ _id: { $in: playerUserIds } }).select('_id username').lean();
+    const userMap = new Map(users.map(u => [u._id.toString(), u.username]));
+
+    const players = game.players.map(p => ({
+      slot: p.slot,
+      color: p.color,
+      userId: p.userId || null,
+      name: p.userId
+        ? userMap.get(p.userId.toString()) || 'Player'
+        : p.guestName || (p.guestId ? `Guest ${p.guestId.slice(-6)}` : 'Player'),
+      captures: p.captures,
+      isBot: !!p.isBot,
+    }));
+
+    const startedAt = game.startedAt || game.createdAt;
+    const result = await GoGameHistory.updateOne(
+      { roomId: game.roomId, startedAt },
+      {
+        $setOnInsert: {
+          roomId: game.roomId,
+          roomCode: game.roomCode,
+          settings: {
+            boardSize: game.settings.boardSize,
+            komi: game.settings.komi,
+            ruleset: game.settings.ruleset,
+            handicap: game.settings.handicap,
+            mainTime: game.settings.mainTime,
+            byoyomiPeriods: game.settings.byoyomiPeriods,
+            byoyomiTime: game.settings.byoyomiTime,
+          },
+          players,
+          playerUserIds,
+          initialBoard: rewindBoardToStart(game.board, game.moveHistory),
+          finalBoard: game.board,
+          moveHistory: game.moveHistory,
+          moveCount: game.moveCount,
+          deadStones: game.deadStones,
+          territory: game.territory,
+          finalScore: game.finalScore,
+          winner: game.winner,
+          winReason: game.winReason,
+          startedAt,
+          finishedAt: game.finishedAt || new Date(),
+          savedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    if (result.upsertedCount > 0) {
+      // Trim old records in the background so game-finished events aren't delayed
+      setImmediate(() => {
+        trimHistory(playerUserIds).catch(err => {
+          console.error('[go-history] Background cleanup error:', err);
+        });
+      });
+    }
+
+    return true;
+  } catch (err: any) {
+    console.error(`[go-history] Error saving history for room ${game.roomId}:`, err.message);
+    return false;
+  }
+}
+
+/** Keep only the most recent MAX_HISTORY_PER_USER games for each user */
+async function trimHistory(userIds: mongoose.Types.ObjectId[]): Promise<void> {
+  for (const userId of userIds) {
+    const stale = await GoGameHistory.find({ playerUserIds: userId })
+      .sort({ finishedAt: -1 })
+      .skip(MAX_HISTORY_PER_USER)
+      .select('_id')
+      .lean();
+    if (stale.length === 0) continue;
+
+    // Records shared with another user are kept until they fall off that user's list too
+    await GoGameHistory.updateMany(
+      { _id: { $in: stale.map(h => h._id) } },
+      { $pull: { playerUserIds: userId } }
+    );
+    await GoGameHistory.deleteMany({ _id: { $in: stale.map(h => h._id) }, playerUserIds: { $size: 0 } });
+  }
+}
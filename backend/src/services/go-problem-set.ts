@@ -0,0 +1,318 @@
+/**
+ * Go — Built-in tsumego collection.
+ * Positions are drawn as diagrams (top line first; X = black, O = white, . = empty)
+ * and moves use board coordinates ("C3", no letter I), then compiled to row/col form.
+ * Only the solver's good lines and the opponent's best answers are listed;
+ * any other move at a step counts as wrong.
+ */
+import {
+  GoBoardSize,
+  GoColor,
+  GoProblemDifficulty,
+  GoProblemGoal,
+  IGoProblem,
+  IGoProblemMove,
+} from '../types/go.types';
+
+const COLUMNS = 'ABCDEFGHJKLMNOPQRST';
+
+interface ProblemLine {
+  at: string;
+  result?: 'correct' | 'wrong';
+  note?: string;       // key under go.problems.notes
+  reply?: string;
+  next?: ProblemLine[];
+}
+
+interface ProblemDiagram {
+  id: string;
+  difficulty: GoProblemDifficulty;
+  goal: GoProblemGoal;
+  toPlay: GoColor;
+  diagram: string[];
+  solution: ProblemLine[];
+}
+
+// ─── Compilation ─────────────────────────────────────────────
+
+function toPoint(coord: string, size: number): { row: number; col: number } {
+  const col = COLUMNS.indexOf(coord[0]);
+  const line = Number(coord.slice(1));
+  if (col < 0 || col >= size || !Number.isInteger(line) || line < 1 || line > size) {
+    throw new Error(`Invalid problem coordinate "${coord}"`);
+  }
+  return { row: size - line, col };
+}
+
+function compileLine(line: ProblemLine, size: number): IGoProblemMove {
+  const move: IGoProblemMove = toPoint(line.at, size);
+  if (line.result) move.result = line.result;
+  if (line.note) move.comment = `go.problems.notes.${line.note}`;
+  if (line.reply) move.reply = toPoint(line.reply, size);
+  if (line.next) move.next = line.next.map(l => compileLine(l, size));
+  return move;
+}
+
+function compileProblem(p: ProblemDiagram): IGoProblem {
+  const size = p.diagram.length as GoBoardSize;
+  const board = p.diagram.map(row => {
+    if (row.length !== size) throw new Error(`Problem ${p.id}: diagram is not square`);
+    return [...row].map(ch => (ch === 'X' ? 1 : ch === 'O' ? 2 : 0));
+  });
+  return {
+    id: p.id,
+    titleKey: `go.problems.items.${p.id}`,
+    difficulty: p.difficulty,
+    goal: p.goal,
+    boardSize: size,
+    board,
+    toPlay: p.toPlay,
+    solution: p.solution.map(l => compileLine(l, size)),
+  };
+}
+
+// ─── Problems ────────────────────────────────────────────────
+
+const BULKY_FIVE = [
+  '.........',
+  '.........',
+  '.........',
+  '.........',
+  '.........',
+  'XXX......',
+  'OOOX.....',
+  '..OOX....',
+  '...OX....',
+];
+
+const DIAGRAMS: ProblemDiagram[] = [
+  {
+    id: 'p01',
+    difficulty: 'beginner',
+    goal: 'capture',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '....X....',
+      '...XOX...',
+      '.........',
+      '.........',
+      '.........',
+    ],
+    solution: [{ at: 'E3', result: 'correct', note: 'lastLiberty' }],
+  },
+  {
+    id: 'p02',
+    difficulty: 'beginner',
+    goal: 'capture',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '...XX....',
+      '..XOO....',
+    ],
+    solution: [{ at: 'F1', result: 'correct', note: 'lastLiberty' }],
+  },
+  {
+    id: 'p03',
+    difficulty: 'beginner',
+    goal: 'capture',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '...X.....',
+      '..XO.OX..',
+      '.....X...',
+      '.........',
+      '.........',
+    ],
+    solution: [
+      {
+        at: 'E4',
+        note: 'doubleAtari',
+        reply: 'D3',
+        next: [{ at: 'F5', result: 'correct', note: 'lastLiberty' }],
+      },
+      { at: 'D3', result: 'wrong', note: 'singleAtari', reply: 'E4' },
+      { at: 'F5', result: 'wrong', note: 'singleAtari', reply: 'E4' },
+    ],
+  },
+  {
+    id: 'p04',
+    difficulty: 'beginner',
+    goal: 'capture',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      'XXX......',
+      'OOOX.....',
+      '..OX.....',
+    ],
+    solution: [
+      {
+        at: 'B1',
+        note: 'throwIn',
+        reply: 'A1',
+        next: [{ at: 'B1', result: 'correct', note: 'snapback' }],
+      },
+      {
+        at: 'A1',
+        note: 'throwIn',
+        reply: 'B1',
+        next: [{ at: 'A1', result: 'correct', note: 'snapback' }],
+      },
+    ],
+  },
+  {
+    id: 'p05',
+    difficulty: 'intermediate',
+    goal: 'capture',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '..X......',
+      '.XO......',
+      '.........',
+    ],
+    solution: [
+      {
+        at: 'D2',
+        note: 'ladder',
+        reply: 'C1',
+        next: [
+          { at: 'D1', reply: 'B1', next: [{ at: 'A1', result: 'correct', note: 'lastLiberty' }] },
+          { at: 'B1', reply: 'D1', next: [{ at: 'E1', result: 'correct', note: 'lastLiberty' }] },
+        ],
+      },
+      { at: 'C1', result: 'wrong', note: 'escapes', reply: 'D2' },
+    ],
+  },
+  {
+    id: 'p06',
+    difficulty: 'intermediate',
+    goal: 'live',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      'OOOOO....',
+      'XXXXO....',
+      '...XO....',
+    ],
+    solution: [
+      { at: 'B1', result: 'correct', note: 'twoEyes' },
+      { at: 'A1', result: 'wrong', note: 'oneEye', reply: 'B1' },
+      { at: 'C1', result: 'wrong', note: 'oneEye', reply: 'B1' },
+    ],
+  },
+  {
+    id: 'p07',
+    difficulty: 'intermediate',
+    goal: 'kill',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '....XXXXX',
+      '....XOOOO',
+      '....XO...',
+    ],
+    solution: [
+      { at: 'H1', result: 'correct', note: 'vitalPoint' },
+      { at: 'G1', result: 'wrong', note: 'twoEyesForOpponent', reply: 'H1' },
+      { at: 'J1', result: 'wrong', note: 'twoEyesForOpponent', reply: 'H1' },
+    ],
+  },
+  {
+    id: 'p08',
+    difficulty: 'advanced',
+    goal: 'kill',
+    toPlay: 'black',
+    diagram: BULKY_FIVE,
+    solution: [
+      { at: 'B1', result: 'correct', note: 'nakade' },
+      { at: 'A1', result: 'wrong', note: 'twoEyesForOpponent', reply: 'B1' },
+      { at: 'C1', result: 'wrong', note: 'twoEyesForOpponent', reply: 'B1' },
+      { at: 'A2', result: 'wrong', note: 'twoEyesForOpponent', reply: 'B1' },
+      { at: 'B2', result: 'wrong', note: 'twoEyesForOpponent', reply: 'B1' },
+    ],
+  },
+  {
+    id: 'p09',
+    difficulty: 'advanced',
+    goal: 'live',
+    toPlay: 'white',
+    diagram: BULKY_FIVE,
+    solution: [
+      { at: 'B1', result: 'correct', note: 'twoEyes' },
+      { at: 'A1', result: 'wrong', note: 'nakade', reply: 'B1' },
+      { at: 'C1', result: 'wrong', note: 'nakade', reply: 'B1' },
+      { at: 'A2', result: 'wrong', note: 'nakade', reply: 'B1' },
+      { at: 'B2', result: 'wrong', note: 'nakade', reply: 'B1' },
+    ],
+  },
+  {
+    id: 'p10',
+    difficulty: 'advanced',
+    goal: 'semeai',
+    toPlay: 'black',
+    diagram: [
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      'XXXX.....',
+      'OOOOX....',
+      'XXXO.....',
+      '...O.....',
+    ],
+    solution: [
+      {
+        at: 'E2',
+        note: 'outsideLiberties',
+        reply: 'B1',
+        next: [{ at: 'E1', result: 'correct', note: 'winsRace' }],
+      },
+      {
+        at: 'E1',
+        note: 'outsideLiberties',
+        reply: 'B1',
+        next: [{ at: 'E2', result: 'correct', note: 'winsRace' }],
+      },
+      { at: 'C1', result: 'wrong', note: 'sharedLiberty', reply: 'B1' },
+    ],
+  },
+];
+
+export const GO_PROBLEMS: IGoProblem[] = DIAGRAMS.map(compileProblem);
@@ -0,0 +1,122 @@
+/**
+ * Go tsumego trainer — checks attempts against a problem's solution tree.
+ * Attempts are stateless: the client sends every solver move so far and the
+ * sequence is replayed on a scratch game, so legality, captures and ko follow
+ * go-engine exactly as in live play. Progress is stored by the controller.
+ */
+import { IGoGame, IGoProblem, IGoProblemMove, GoColor } from '../types/go.types';
+import { applyMove, hashBoard, validateMove } from './go-engine';
+import { GO_PROBLEMS } from './go-problem-set';
+
+type Point = { row: number; col: number };
+
+export type GoProblemStatus = 'correct' | 'wrong' | 'continue';
+
+export interface GoProblemOutcome {
+  status: GoProblemStatus;
+  captures: Point[];                             // taken by the solver's last move
+  reply: (Point & { captures: Point[] }) | null; // opponent's answer, if any
+  comment: string | null;                        // i18n key
+}
+
+export type GoProblemResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const MAX_ATTEMPT_MOVES = 40;
+
+const problemsById = new Map(GO_PROBLEMS.map(p => [p.id, p]));
+
+// ─── Catalogue ───────────────────────────────────────────────────
+
+export function getGoProblem(problemId: string): IGoProblem | undefined {
+  return problemsById.get(problemId);
+}
+
+export function listGoProblems(): IGoProblem[] {
+  return GO_PROBLEMS;
+}
+
+/** Problem as sent to solvers — the solution tree stays on the server */
+export function toPublicProblem(problem: IGoProblem): Omit<IGoProblem, 'solution'> {
+  const { solution, ...rest } = problem;
+  return rest;
+}
+
+// ─── Attempt Checking ────────────────────────────────────────────
+
+const opposite = (color: GoColor): GoColor => (color === 'black' ? 'white' : 'black');
+
+/** A throwaway game at the problem's starting position with the solver to move */
+function scratchGame(problem: IGoProblem): IGoGame {
+  const board = problem.board.map(row => [...row]);
+  return {
+    board,
+    boardHistory: [hashBoard(board)],
+    currentColor: problem.toPlay,
+    koPoint: null,
+    players: [],
+    moveHistory: [],
+    moveCount: 0,
+    consecutivePasses: 0,
+  } as unknown as IGoGame;
+}
+
+function parsePoint(raw: any, size: number): Point | null {
+  const row = Number(raw?.row);
+  const col = Number(raw?.col);
+  if (!Number.isInteger(row) || !Number.isInteger(col)) return null;
+  if (row < 0 || row >= size || col < 0 || col >= size) return null;
+  return { row, col };
+}
+
+/**
+ * Replay the solver's `moves` through the solution tree and report on the last one.
+ * Earlier moves must be the ones the server already answered; an illegal move is an
+ * error (nothing was played), a legal move outside the tree is a wrong answer.
+ */
+export function checkGoProblemAttempt(problemId: string, rawMoves: unknown): GoProblemResult<GoProblemOutcome> {
+  const problem = problemsById.get(problemId);
+  if (!problem) return { ok: false, error: 'GO_PROBLEM_NOT_FOUND' };
+  if (!Array.isArray(rawMoves) || rawMoves.length === 0 || rawMoves.length > MAX_ATTEMPT_MOVES) {
+    return { ok: false, error: 'GO_INVALID_MOVES' };
+  }
+
+  const game = scratchGame(problem);
+  const solver = problem.toPlay;
+  let options: IGoProblemMove[] = problem.solution;
+
+  for (let i = 0; i < rawMoves.length; i++) {
+    const move = parsePoint(rawMoves[i], problem.boardSize);
+    if (!move) return { ok: false, error: 'GO_INVALID_MOVES' };
+    const isLast = i === rawMoves.length - 1;
+
+    const check = validateMove(game, move.row, move.col, solver);
+    if (!check.valid) return { ok: false, error: check.error || 'GO_INVALID_MOVE' };
+    applyMove(game, move.row, move.col, solver);
+    const captures = check.captured || [];
+
+    const node = options.find(o => o.row === move.row && o.col === move.col);
+    if (!node) {
+      if (!isLast) return { ok: false, error: 'GO_PROBLEM_FINISHED' };
+      return { ok: true, value: { status: 'wrong', captures, reply: null, comment: null } };
+    }
+
+    let reply: GoProblemOutcome['reply'] = null;
+    if (node.reply) {
+      const answer = applyMove(game, node.reply.row, node.reply.col, opposite(solver));
+      // A broken tree is a data bug, not the solver's fault
+      if (!answer.valid) throw new Error(`Problem ${problem.id}: illegal reply (${answer.error})`);
+      reply = { ...node.reply, captures: answer.captured || [] };
+    }
+
+    if (node.result) {
+      if (!isLast) return { ok: false, error: 'GO_PROBLEM_FINISHED' };
+      return { ok: true, value: { status: node.result, captures, reply, comment: node.comment ?? null } };
+    }
+    if (isLast) {
+      return { ok: true, value: { status: 'continue', captures, reply, comment: node.comment ?? null } };
+    }
+    options = node.next || [];
+  }
+
+  return { ok: false, error: 'GO_INVALID_MOVES' };
+}
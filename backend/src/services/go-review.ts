@@ -0,0 +1,294 @@
+/**
+ * Go review board — shared post-game analysis of a finished room.
+ * The game record becomes the main line of a move tree. Participants branch off
+ * variations (played through go-engine applyMove/applyPass, so captures, ko and
+ * superko behave exactly as in a real game), annotate positions with comments and
+ * marks, and follow the leader's position. Sessions live in memory only.
+ */
+import {
+  IGoGame,
+  IGoMark,
+  IGoMove,
+  IGoReviewNode,
+  IGoReviewState,
+  IGoReviewer,
+  GoColor,
+  GoMarkType,
+} from '../types/go.types';
+import { applyMove, applyPass, hashBoard, rewindBoardToStart } from './go-engine';
+
+const MAX_REVIEW_NODES = 2000;   // per room, main line included
+const MAX_COMMENT_LENGTH = 500;
+const MAX_MARKS_PER_NODE = 60;
+const MARK_TYPES: GoMarkType[] = ['triangle', 'square', 'circle', 'letter'];
+
+/** Server-side node: the public node plus the position it leads to */
+interface ReviewNode extends IGoReviewNode {
+  board: number[][];
+  koPoint: { row: number; col: number } | null;
+  hash: string;
+  nextColor: GoColor;
+}
+
+interface ReviewSession {
+  boardSize: number;
+  initialBoard: number[][];
+  rootId: string;
+  nodes: Map<string, ReviewNode>;
+  currentId: string;
+  leader: IGoReviewer | null;
+  nextId: number;
+}
+
+export type GoReviewResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const reviewSessions = new Map<string, ReviewSession>(); // roomId → session
+
+// ─── Tree Helpers ────────────────────────────────────────────────
+
+const opposite = (color: GoColor): GoColor => (color === 'black' ? 'white' : 'black');
+
+function toPublicNode(node: ReviewNode): IGoReviewNode {
+  const { board, koPoint, hash, nextColor, ...publicNode } = node;
+  return publicNode;
+}
+
+/** Nodes from the root down to `nodeId`, root first */
+function pathTo(session: ReviewSession, nodeId: string): ReviewNode[] {
+  const path: ReviewNode[] = [];
+  let node = session.nodes.get(nodeId);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? session.nodes.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * A throwaway game positioned at `parent`, so the engine validates review moves
+ * with the same rules as live play. Only the fields the engine touches are set.
+ */
+function scratchGame(session: ReviewSession, parent: ReviewNode, color: GoColor): IGoGame {
+  return {
+    board: parent.board.map(row => [...row]),
+    boardHistory: pathTo(session, parent.id).map(n => n.hash),
+    currentColor: color,
+    koPoint: parent.koPoint,
+    players: [],
+    moveHistory: [],
+    moveCount: parent.moveNumber,
+    consecutivePasses: 0,
+  } as unknown as IGoGame;
+}
+
+/** Play `move` after `parent` and add the resulting position to the tree */
+function addChild(
+  session: ReviewSession,
+  parent: ReviewNode,
+  move: { row: number; col: number; isPass: boolean },
+  color: GoColor,
+  isMainLine: boolean,
+): GoReviewResult<ReviewNode> {
+  const scratch = scratchGame(session, parent, color);
+  let captures: { row: number; col: number }[] = [];
+  if (move.isPass) {
+    applyPass(scratch, color);
+  } else {
+    const result = applyMove(scratch, move.row, move.col, color);
+    if (!result.valid) return { ok: false, error: result.error || 'GO_INVALID_MOVE' };
+    captures = result.captured || [];
+  }
+
+  const node: ReviewNode = {
+    id: `n${session.nextId++}`,
+    parentId: parent.id,
+    move: {
+      row: move.isPass ? -1 : move.row,
+      col: move.isPass ? -1 : move.col,
+      color,
+      captures,
+      isPass: move.isPass,
+    },
+    moveNumber: parent.moveNumber + 1,
+    isMainLine,
+    comment: '',
+    marks: [],
+    children: [],
+    board: scratch.board,
+    koPoint: scratch.koPoint,
+    hash: move.isPass ? parent.hash : hashBoard(scratch.board),
+    nextColor: opposite(color),
+  };
+  session.nodes.set(node.id, node);
+  parent.children.push(node.id);
+  return { ok: true, value: node };
+}
+
+function serialize(session: ReviewSession): IGoReviewState {
+  return {
+    initialBoard: session.initialBoard,
+    rootId: session.rootId,
+    nodes: [...session.nodes.values()].map(toPublicNode),
+    currentId: session.currentId,
+    leader: session.leader,
+  };
+}
+
+// ─── Session Lifecycle ───────────────────────────────────────────
+
+/**
+ * Open the review for a finished game with `leader` in charge, or return the one
+ * already running. The recorded moves become the main line; the leader starts at the end.
+ */
+export function startGoReview(game: IGoGame, leader: IGoReviewer): GoReviewResult<IGoReviewState> {
+  const existing = reviewSessions.get(game.roomId);
+  if (existing) return { ok: true, value: serialize(existing) };
+
+  const moves: IGoMove[] = game.moveHistory;
+  const initialBoard = rewindBoardToStart(game.board, moves);
+  const firstColor: GoColor = moves[0]?.color ?? (game.settings.handicap > 0 ? 'white' : 'black');
+
+  const root: ReviewNode = {
+    id: 'n0',
+    parentId: null,
+    move: null,
+    moveNumber: 0,
+    isMainLine: true,
+    comment: '',
+    marks: [],
+    children: [],
+    board: initialBoard.map(row => [...row]),
+    koPoint: null,
+    hash: hashBoard(initialBoard),
+    nextColor: firstColor,
+  };
+  const session: ReviewSession = {
+    boardSize: game.settings.boardSize,
+    initialBoard,
+    rootId: root.id,
+    nodes: new Map([[root.id, root]]),
+    currentId: root.id,
+    leader,
+    nextId: 1,
+  };
+
+  // Recorded colors win over strict alternation (SGF records may repeat a color)
+  let tip = root;
+  for (const move of moves) {
+    const added = addChild(session, tip, move, move.color, true);
+    if (!added.ok) return { ok: false, error: 'GO_REVIEW_FAILED' };
+    tip = added.value;
+  }
+  session.currentId = tip.id;
+
+  reviewSessions.set(game.roomId, session);
+  return { ok: true, value: serialize(session) };
+}
+
+export function getGoReviewState(roomId: string): IGoReviewState | null {
+  const session = reviewSessions.get(roomId);
+  return session ? serialize(session) : null;
+}
+
+export function getGoReviewLeader(roomId: string): IGoReviewer | null {
+  return reviewSessions.get(roomId)?.leader ?? null;
+}
+
+export function setGoReviewLeader(roomId: string, leader: IGoReviewer | null): boolean {
+  const session = reviewSessions.get(roomId);
+  if (!session) return false;
+  session.leader = leader;
+  return true;
+}
+
+/** Drop a room's review (new game started or room deleted) */
+export function clearGoReview(roomId: string): void {
+  reviewSessions.delete(roomId);
+}
+
+// ─── Review Actions ──────────────────────────────────────────────
+
+/** Move the shared (leader's) position */
+export function navigateGoReview(roomId: string, nodeId: string): GoReviewResult<string> {
+  const session = reviewSessions.get(roomId);
+  if (!session) return { ok: false, error: 'GO_NO_REVIEW' };
+  if (!session.nodes.has(nodeId)) return { ok: false, error: 'GO_REVIEW_NODE_NOT_FOUND' };
+  session.currentId = nodeId;
+  return { ok: true, value: nodeId };
+}
+
+/**
+ * Play a stone (or pass when `move` is null) after `parentId` by the side to move there.
+ * An identical existing continuation is reused instead of duplicated.
+ */
+export function playGoReviewMove(
+  roomId: string,
+  parentId: string,
+  move: { row: number; col: number } | null,
+): GoReviewResult<{ node: IGoReviewNode; created: boolean }> {
+  const session = reviewSessions.get(roomId);
+  if (!session) return { ok: false, error: 'GO_NO_REVIEW' };
+  const parent = session.nodes.get(parentId);
+  if (!parent) return { ok: false, error: 'GO_REVIEW_NODE_NOT_FOUND' };
+
+  const existing = parent.children
+    .map(id => session.nodes.get(id)!)
+    .find(child => child.move && (move
+      ? !child.move.isPass && child.move.row === move.row && child.move.col === move.col
+      : child.move.isPass));
+  if (existing) return { ok: true, value: { node: toPublicNode(existing), created: false } };
+
+  if (session.nodes.size >= MAX_REVIEW_NODES) return { ok: false, error: 'GO_REVIEW_TOO_LARGE' };
+
+  const added = addChild(
+    session,
+    parent,
+    move ? { row: move.row, col: move.col, isPass: false } : { row: -1, col: -1, isPass: true },
+    parent.nextColor,
+    false,
+  );
+  if (!added.ok) return added;
+  return { ok: true, value: { node: toPublicNode(added.value), created: true } };
+}
+
+/** Keep only well-formed marks inside the board, one per point (the last one wins) */
+function sanitizeMarks(raw: unknown, boardSize: number): IGoMark[] {
+  if (!Array.isArray(raw)) return [];
+  const byPoint = new Map<string, IGoMark>();
+  for (const m of raw) {
+    const row = Number(m?.row);
+    const col = Number(m?.col);
+    if (!Number.isInteger(row) || !Number.isInteger(col)) continue;
+    if (row < 0 || row >= boardSize || col < 0 || col >= boardSize) continue;
+    if (!MARK_TYPES.includes(m.type)) continue;
+
+    const mark: IGoMark = { row, col, type: m.type };
+    if (m.type === 'letter') {
+      const label = String(m.label || '').trim().slice(0, 2);
+      if (!label) continue;
+      mark.label = label;
+    }
+    byPoint.set(`${row}-${col}`, mark);
+  }
+  return [...byPoint.values()].slice(0, MAX_MARKS_PER_NODE);
+}
+
+/** Replace a node's comment and/or marks; fields left undefined are kept */
+export function annotateGoReviewNode(
+  roomId: string,
+  nodeId: string,
+  annotation: { comment?: unknown; marks?: unknown },
+): GoReviewResult<IGoReviewNode> {
+  const session = reviewSessions.get(roomId);
+  if (!session) return { ok: false, error: 'GO_NO_REVIEW' };
+  const node = session.nodes.get(nodeId);
+  if (!node) return { ok: false, error: 'GO_REVIEW_NODE_NOT_FOUND' };
+
+  if (annotation.comment !== undefined) {
+    node.comment = String(annotation.comment ?? '').slice(0, MAX_COMMENT_LENGTH);
+  }
+  if (annotation.marks !== undefined) {
+    node.marks = sanitizeMarks(annotation.marks, session.boardSize);
+  }
+  return { ok: true, value: toPublicNode(node) };
+}
@@ -0,0 +1,348 @@
+/**
+ * Go (Cờ Vây) SGF import/export
+ * Serializes a GoGame to SGF FF[4] and replays SGF files through the engine.
+ * Only the main line of an SGF tree is used; variations are ignored.
+ */
+import { GoBoardSize, GoColor, GoRuleset, GoWinReason, IGoGame } from '../types/go.types';
+import { applyMove, applyPass, createEmptyBoard, hashBoard, rewindBoardToStart } from './go-engine';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+type Point = { row: number; col: number };
+
+export interface SgfMove {
+  color: GoColor;
+  row: number;     // -1 for pass
+  col: number;     // -1 for pass
+  isPass: boolean;
+}
+
+export interface SgfRecord {
+  boardSize: GoBoardSize;
+  komi: number;
+  ruleset: GoRuleset;
+  handicap: number;
+  blackName: string | null;
+  whiteName: string | null;
+  result: { winner: GoColor; winReason: GoWinReason } | null;
+  date: string | null;
+  setup: { black: Point[]; white: Point[] };
+  firstColor: GoColor | null; // PL[] on the root node
+  moves: SgfMove[];
+}
+
+type SgfNode = Map<string, string[]>;
+interface SgfTree { nodes: SgfNode[]; children: SgfTree[] }
+
+const SUPPORTED_SIZES: GoBoardSize[] = [9, 13, 19];
+const MAX_SGF_MOVES = 1000;
+
+/** RU[] values as written by the common SGF editors */
+const SGF_RULESETS: Record<GoRuleset, string> = {
+  chinese: 'Chinese',
+  japanese: 'Japanese',
+  korean: 'Korean',
+  aga: 'AGA',
+};
+
+// ─── Export ─────────────────────────────────────────────────────
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+}
+
+function toSgfPoint(row: number, col: number): string {
+  return String.fromCharCode(97 + col) + String.fromCharCode(97 + row);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatResult(game: IGoGame): string | null {
+  if (!game.winner || !game.winReason) return null;
+  const prefix = game.winner.color === 'black' ? 'B+' : 'W+';
+  if (game.winReason === 'resign') return `${prefix}R`;
+  if (game.winReason === 'timeout') return `${prefix}T`;
+  if (!game.finalScore) return prefix;
+  const margin = Math.abs(game.finalScore.black.total - game.finalScore.white.total);
+  return `${prefix}${margin}`;
+}
+
+/** Serialize a game (finished or in progress) to an SGF string */
+export function buildSgf(game: IGoGame, names: { black: string; white: string }): string {
+  const { boardSize, komi, handicap, mainTime, byoyomiPeriods, byoyomiTime } = game.settings;
+  const root: string[] = [
+    'FF[4]', 'GM[1]', 'CA[UTF-8]', `RU[${SGF_RULESETS[game.settings.ruleset || 'chinese']}]`,
+    `SZ[${boardSize}]`, `KM[${komi}]`,
+    `GN[${escapeText(`Go ${game.roomCode}`)}]`,
+    `PB[${escapeText(names.black)}]`, `PW[${escapeText(names.white)}]`,
+  ];
+
+  if (handicap > 0) root.push(`HA[${handicap}]`);
+  if (mainTime > 0) {
+    root.push(`TM[${mainTime}]`, `OT[${byoyomiPeriods}x${byoyomiTime} byo-yomi]`);
+  }
+
+  const started = game.startedAt || game.createdAt;
+  if (started) {
+    const dates = [formatDate(started)];
+    if (game.finishedAt && formatDate(game.finishedAt) !== dates[0]) {
+      dates.push(formatDate(game.finishedAt));
+    }
+    root.push(`DT[${dates.join(',')}]`);
+  }
+
+  const result = formatResult(game);
+  if (result) root.push(`RE[${result}]`);
+
+  // Setup stones — handicap placement or stones loaded from an imported SGF
+  const start = rewindBoardToStart(game.board, game.moveHistory);
+  const addBlack: string[] = [];
+  const addWhite: string[] = [];
+  start.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell === 1) addBlack.push(`[${toSgfPoint(r, c)}]`);
+    else if (cell === 2) addWhite.push(`[${toSgfPoint(r, c)}]`);
+  }));
+  if (addBlack.length > 0) root.push(`AB${addBlack.join('')}`);
+  if (addWhite.length > 0) root.push(`AW${addWhite.join('')}`);
+
+  const first = game.moveHistory[0];
+  if (first && first.color === 'white') root.push('PL[W]');
+
+  const moves = game.moveHistory.map(move => {
+    const tag = move.color === 'black' ? 'B' : 'W';
+    return `;${tag}[${move.isPass ? '' : toSgfPoint(move.row, move.col)}]`;
+  });
+
+  // Break the move list every 10 moves to keep the file readable
+  const lines = [`(;${root.join('')}`];
+  for (let i = 0; i < moves.length; i += 10) {
+    lines.push(moves.slice(i, i + 10).join(''));
+  }
+  return `${lines.join('\n')})\n`;
+}
+
+// ─── Parsing ────────────────────────────────────────────────────
+
+/** Recursive-descent parser for the SGF collection grammar; returns the first game tree */
+function parseTree(text: string): SgfTree {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readValue = (): string => {
+    // text[pos] === '['
+    pos++;
+    let value = '';
+    while (pos < text.length && text[pos] !== ']') {
+      if (text[pos] === '\\') {
+        pos++;
+        if (text[pos] === '\r') pos++;
+        if (text[pos] === '\n') { pos++; continue; } // soft line break
+      }
+      value += text[pos] ?? '';
+      pos++;
+    }
+    if (pos >= text.length) throw new Error('Invalid SGF: unterminated property value');
+    pos++; // ']'
+    return value;
+  };
+
+  const readNode = (): SgfNode => {
+    pos++; // ';'
+    const node: SgfNode = new Map();
+    skipWhitespace();
+    while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+      let ident = '';
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+        // FF[1]-style lowercase letters in identifiers are ignored
+        if (text[pos] >= 'A' && text[pos] <= 'Z') ident += text[pos];
+        pos++;
+      }
+      skipWhitespace();
+      const values: string[] = [];
+      while (text[pos] === '[') {
+        values.push(readValue());
+        skipWhitespace();
+      }
+      if (values.length === 0) throw new Error(`Invalid SGF: property ${ident} has no value`);
+      node.set(ident, [...(node.get(ident) || []), ...values]);
+    }
+    return node;
+  };
+
+  const readGameTree = (): SgfTree => {
+    pos++; // '('
+    const tree: SgfTree = { nodes: [], children: [] };
+    skipWhitespace();
+    while (text[pos] === ';') {
+      tree.nodes.push(readNode());
+      skipWhitespace();
+    }
+    while (text[pos] === '(') {
+      tree.children.push(readGameTree());
+      skipWhitespace();
+    }
+    if (text[pos] !== ')') throw new Error('Invalid SGF: unbalanced parentheses');
+    pos++;
+    return tree;
+  };
+
+  const start = text.indexOf('(');
+  if (start < 0) throw new Error('Invalid SGF: no game tree found');
+  pos = start;
+  const tree = readGameTree();
+  if (tree.nodes.length === 0) throw new Error('Invalid SGF: empty game tree');
+  return tree;
+}
+
+/** Flatten the main line (first variation at every branch) */
+function mainLine(tree: SgfTree): SgfNode[] {
+  const nodes = [...tree.nodes];
+  let current = tree.children[0];
+  while (current) {
+    nodes.push(...current.nodes);
+    current = current.children[0];
+  }
+  return nodes;
+}
+
+function fromSgfPoint(value: string, size: number): Point | null {
+  if (value === '' || (value === 'tt' && size <= 19)) return null; // pass
+  if (value.length !== 2) throw new Error(`Invalid SGF: bad point "${value}"`);
+  const col = value.charCodeAt(0) - 97;
+  const row = value.charCodeAt(1) - 97;
+  if (row < 0 || row >= size || col < 0 || col >= size) {
+    throw new Error(`Invalid SGF: point "${value}" is off the board`);
+  }
+  return { row, col };
+}
+
+/** Expand a point list, including compressed rectangles like "aa:cc" */
+function parsePointList(values: string[], size: number): Point[] {
+  const points: Point[] = [];
+  for (const value of values) {
+    const [from, to] = value.split(':');
+    const a = fromSgfPoint(from, size);
+    if (!a) continue;
+    const b = to ? fromSgfPoint(to, size) : a;
+    if (!b) continue;
+    for (let r = Math.min(a.row, b.row); r <= Math.max(a.row, b.row); r++) {
+      for (let c = Math.min(a.col, b.col); c <= Math.max(a.col, b.col); c++) {
+        points.push({ row: r, col: c });
+      }
+    }
+  }
+  return points;
+}
+
+function parseResult(value: string | undefined): SgfRecord['result'] {
+  const match = value?.trim().match(/^([BW])\+(.*)$/i);
+  if (!match) return null; // draw, void, unknown
+  const winner: GoColor = match[1].toUpperCase() === 'B' ? 'black' : 'white';
+  const reason = match[2].trim().toUpperCase();
+  if (reason.startsWith('R')) return { winner, winReason: 'resign' };
+  if (reason.startsWith('T')) return { winner, winReason: 'timeout' };
+  return { winner, winReason: 'score' };
+}
+
+function parseRuleset(value: string | undefined): GoRuleset {
+  const ru = value?.trim().toLowerCase() || '';
+  const match = (Object.keys(SGF_RULESETS) as GoRuleset[]).find(r => ru.startsWith(r));
+  return match || 'chinese';
+}
+
+/** Parse an SGF string into a record. Throws Error with a readable message on bad input. */
+export function parseSgf(text: string): SgfRecord {
+  const nodes = mainLine(parseTree(text));
+  const root = nodes[0];
+  const prop = (node: SgfNode, id: string) => node.get(id)?.[0];
+
+  const gm = prop(root, 'GM');
+  if (gm && gm.trim() !== '1') throw new Error('Invalid SGF: not a Go game');
+
+  const boardSize = Number(prop(root, 'SZ') ?? 19) as GoBoardSize;
+  if (!SUPPORTED_SIZES.includes(boardSize)) {
+    throw new Error(`Unsupported board size ${prop(root, 'SZ')} (only 9, 13 and 19)`);
+  }
+
+  const komi = parseFloat(prop(root, 'KM') ?? '');
+  const handicap = parseInt(prop(root, 'HA') ?? '', 10);
+  const playerToMove = prop(root, 'PL')?.trim().toUpperCase();
+
+  const record: SgfRecord = {
+    boardSize,
+    komi: Number.isFinite(komi) ? komi : 6.5,
+    ruleset: parseRuleset(prop(root, 'RU')),
+    handicap: Number.isFinite(handicap) ? Math.min(Math.max(handicap, 0), 9) : 0,
+    blackName: prop(root, 'PB')?.trim() || null,
+    whiteName: prop(root, 'PW')?.trim() || null,
+    result: parseResult(prop(root, 'RE')),
+    date: prop(root, 'DT')?.trim() || null,
+    setup: {
+      black: parsePointList(root.get('AB') || [], boardSize),
+      white: parsePointList(root.get('AW') || [], boardSize),
+    },
+    firstColor: playerToMove === 'B' ? 'black' : playerToMove === 'W' ? 'white' : null,
+    moves: [],
+  };
+
+  nodes.forEach((node, index) => {
+    if (index > 0 && (node.has('AB') || node.has('AW') || node.has('AE'))) {
+      throw new Error('Unsupported SGF: setup stones after the first move');
+    }
+    for (const [tag, color] of [['B', 'black'], ['W', 'white']] as const) {
+      const value = node.get(tag)?.[0];
+      if (value === undefined) continue;
+      const point = fromSgfPoint(value.trim(), boardSize);
+      record.moves.push(point
+        ? { color, row: point.row, col: point.col, isPass: false }
+        : { color, row: -1, col: -1, isPass: true });
+    }
+  });
+
+  if (record.moves.length > MAX_SGF_MOVES) {
+    throw new Error(`SGF has too many moves (max ${MAX_SGF_MOVES})`);
+  }
+
+  return record;
+}
+
+// ─── Replay ─────────────────────────────────────────────────────
+
+/**
+ * Lay out the setup stones and replay every move through applyMove/applyPass.
+ * `game` must already have its settings and both players (black/white) assigned.
+ * Throws Error naming the first illegal move.
+ */
+export function replaySgf(game: IGoGame, record: SgfRecord): void {
+  const board = createEmptyBoard(record.boardSize);
+  for (const { row, col } of record.setup.black) board[row][col] = 1;
+  for (const { row, col } of record.setup.white) board[row][col] = 2;
+
+  game.board = board;
+  game.boardHistory = [hashBoard(board)];
+  game.moveHistory = [];
+  game.moveCount = 0;
+  game.consecutivePasses = 0;
+  game.koPoint = null;
+  game.currentColor = record.firstColor
+    || record.moves[0]?.color
+    || (record.setup.black.length > 0 && record.setup.white.length === 0 ? 'white' : 'black');
+
+  record.moves.forEach((move, index) => {
+    // SGF allows the same color to move twice in a row; follow the file, not strict alternation
+    game.currentColor = move.color;
+    if (move.isPass) {
+      applyPass(game, move.color);
+      return;
+    }
+    const result = applyMove(game, move.row, move.col, move.color);
+    if (!result.valid) {
+      throw new Error(`Illegal move ${index + 1} (${move.color} ${toSgfPoint(move.row, move.col)}): ${result.error}`);
+    }
+  });
+}
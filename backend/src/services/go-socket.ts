@@ -7,144 +7,109 @@ import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 import GoGame from '../models/GoGame';
 import User from '../models/User';
-import { IGoGame, IGoPlayer, GoColor } from '../types/go.types';
+import { IGoGame, IGoPlayer, IGoSettings, IGoReviewer, GoColor } from '../types/go.types';
 import {
   applyMove,
   applyPass,
   initBoardWithHandicap,
   calculateTerritory,
   calculateScore,
+  getGoScoreOptions,
   suggestDeadStones,
   toggleDeadStoneGroup,
   generateGoRoomCode,
   hashBoard,
 } from './go-engine';
+import {
+  chooseGoBotMove,
+  shouldBotAgreeScoring,
+  isGoBotLevel,
+  isGoBotBoardSize,
+  getGoBotName,
+  GO_BOT_ID,
+} from './go-bot';
+import { saveGoGameHistory } from './go-history';
+import {
+  startGoClock,
+  pauseGoClock,
+  clearGoClock,
+  resetGoClock,
+  initialGoClockFields,
+  chargeGoMove,
+  hasGoFlagged,
+  getGoClockSnapshot,
+  isGoClockRunning,
+} from './go-clock';
+import {
+  startGoReview,
+  getGoReviewState,
+  getGoReviewLeader,
+  setGoReviewLeader,
+  navigateGoReview,
+  playGoReviewMove,
+  annotateGoReviewNode,
+  clearGoReview,
+} from './go-review';
+import { addSpectator, removeSpectator, getSpectators, isSpectating, clearSpectators } from './spectatorService';
 
 // ─── Timer Management ────────────────────────────────────────────
 
-const activeTimers = new Map<string, NodeJS.Timeout>();         // roomId → interval
 const disconnectTimers = new Map<string, NodeJS.Timeout>();     // `${roomId}:${slot}` → timeout
 const activePlayerSockets = new Map<string, string>();          // `${roomId}:${playerId}` → socketId
 
 const RECONNECT_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
-const TIMER_EMIT_INTERVAL = 5;             // emit go:timer-update every N ticks
+const GO_TIME_SYSTEMS = ['byoyomi', 'canadian', 'fischer'];
+const GO_RULESETS = ['chinese', 'japanese', 'korean', 'aga'];
 
-/**
- * Start a 1-second interval for the current player's time.
- * Decrements mainTimeLeft → then byoyomiPeriodsLeft.
- * On last period expiry → timeout loss.
- */
+/** Run the clock of the player to move (see go-clock); running out of time loses the game */
 function startMoveTimer(io: SocketIOServer, roomId: string, game: IGoGame): void {
-  clearMoveTimer(roomId);
-
-  let tickCount = 0;
-
-  const interval = setInterval(async () => {
-    try {
-      const freshGame = await GoGame.findOne({ roomId });
-      if (!freshGame || freshGame.gameStatus !== 'playing') {
-        clearMoveTimer(roomId);
-        return;
-      }
-
-      const currentPlayer = freshGame.players.find(
-        p => p.color === freshGame.currentColor
-      );
-      if (!currentPlayer) {
-        clearMoveTimer(roomId);
-        return;
-      }
-
-      let timedOut = false;
-
-      if (currentPlayer.mainTimeLeft > 0) {
-        currentPlayer.mainTimeLeft -= 1;
-      } else if (currentPlayer.byoyomiPeriodsLeft > 0) {
-        // In byoyomi — each period resets on move; here we count down period time
-        // We track byoyomi countdown via a separate field if needed.
-        // For simplicity: decrement byoyomiPeriodsLeft once per byoyomiTime seconds.
-        // We use mainTimeLeft as the byoyomi period timer (reset to byoyomiTime when period starts).
-        // If mainTimeLeft is already 0 and we're in byoyomi, check if period time elapsed.
-        // Re-using mainTimeLeft = 0 sentinel: treat byoyomiTime as separate countdown.
-        // Simple approach: decrement a period, reset to byoyomiTime.
-        currentPlayer.byoyomiPeriodsLeft -= 1;
-        if (currentPlayer.byoyomiPeriodsLeft <= 0) {
-          timedOut = true;
-        }
-      } else {
-        timedOut = true;
-      }
-
-      if (timedOut) {
-        clearMoveTimer(roomId);
-        // Determine winner as the opponent
-        const opponent = freshGame.players.find(
-          p => p.color !== freshGame.currentColor
-        );
-        freshGame.gameStatus = 'finished';
-        freshGame.winReason = 'timeout';
-        freshGame.finishedAt = new Date();
-        if (opponent) {
-          freshGame.winner = {
-            slot: opponent.slot,
-            color: opponent.color,
-            userId: opponent.userId,
-            guestId: opponent.guestId,
-            guestName: opponent.guestName,
-          };
-        }
-        await freshGame.save();
-        io.to(`go:${roomId}`).emit('go:game-finished', {
-          winner: freshGame.winner,
-          winReason: 'timeout',
-          finalScore: freshGame.finalScore,
-        });
-        cleanupRoomTimers(roomId);
-        return;
-      }
-
-      // Lightweight timer update — only write the player timer fields, not full document
-      const playerIdx = freshGame.players.findIndex(
-        p => p.color === freshGame.currentColor
-      );
-      if (playerIdx >= 0) {
-        await GoGame.updateOne(
-          { roomId },
-          {
-            $set: {
-              [`players.${playerIdx}.mainTimeLeft`]: currentPlayer.mainTimeLeft,
-              [`players.${playerIdx}.byoyomiPeriodsLeft`]: currentPlayer.byoyomiPeriodsLeft,
-            },
-          },
-        );
-      }
+  startGoClock(io, game, () => {
+    finishOnTimeout(io, roomId).catch(err => console.error('[go:timer] Error:', err));
+  }).catch(err => console.error('[go:timer] Error:', err));
+}
 
-      tickCount += 1;
-      if (tickCount % TIMER_EMIT_INTERVAL === 0) {
-        io.to(`go:${roomId}`).emit('go:timer-update', {
-          players: freshGame.players.map(p => ({
-            slot: p.slot,
-            color: p.color,
-            mainTimeLeft: p.mainTimeLeft,
-            byoyomiPeriodsLeft: p.byoyomiPeriodsLeft,
-          })),
-          currentColor: freshGame.currentColor,
-        });
-      }
-    } catch (err) {
-      console.error('[go:timer] Error:', err);
-    }
-  }, 1000);
+/** The player to move ran out of time — the opponent wins */
+async function finishOnTimeout(io: SocketIOServer, roomId: string): Promise<void> {
+  const game = await GoGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing') return;
 
-  activeTimers.set(roomId, interval);
-}
+  // A checkpoint can land just before the expiry fires; re-arm if time is actually left
+  if (!hasGoFlagged(game)) {
+    startMoveTimer(io, roomId, game);
+    return;
+  }
 
-function clearMoveTimer(roomId: string): void {
-  const timer = activeTimers.get(roomId);
-  if (timer) {
-    clearInterval(timer);
-    activeTimers.delete(roomId);
+  const flagged = game.players.find(p => p.color === game.currentColor);
+  if (flagged) {
+    flagged.mainTimeLeft = 0;
+    flagged.periodTimeLeft = 0;
+    flagged.byoyomiPeriodsLeft = 0;
+  }
+  const opponent = game.players.find(p => p.color !== game.currentColor);
+
+  game.gameStatus = 'finished';
+  game.winReason = 'timeout';
+  game.finishedAt = new Date();
+  game.clockStartedAt = null;
+  if (opponent) {
+    game.winner = {
+      slot: opponent.slot,
+      color: opponent.color,
+      userId: opponent.userId,
+      guestId: opponent.guestId,
+      guestName: opponent.guestName,
+    };
   }
+  await game.save();
+  await saveGoGameHistory(game);
+
+  io.to(`go:${roomId}`).emit('go:timer-update', getGoClockSnapshot(game));
+  io.to(`go:${roomId}`).emit('go:game-finished', {
+    winner: game.winner,
+    winReason: 'timeout',
+    finalScore: game.finalScore,
+  });
+  cleanupRoomTimers(roomId);
 }
 
 function startDisconnectTimer(
@@ -181,8 +146,9 @@ function startDisconnectTimer(
         };
       }
 
+      game.clockStartedAt = null;
       await game.save();
-      clearMoveTimer(roomId);
+      await saveGoGameHistory(game);
       cleanupRoomTimers(roomId);
 
       io.to(`go:${roomId}`).emit('go:game-finished', {
@@ -209,7 +175,9 @@ function clearDisconnectTimer(roomId: string, slot: number): void {
 }
 
 function cleanupRoomTimers(roomId: string): void {
-  clearMoveTimer(roomId);
+  clearGoClock(roomId);
+  clearBotTimer(roomId);
+  clearGoReview(roomId);
   for (const [key, timer] of disconnectTimers.entries()) {
     if (key.startsWith(`${roomId}:`)) {
       clearTimeout(timer);
@@ -246,6 +214,7 @@ function findPlayerInGame(game: IGoGame, playerId: string): IGoPlayer | undefine
 }
 
 async function buildPlayersInfo(game: IGoGame): Promise<any[]> {
+  const clock = getGoClockSnapshot(game);
   return Promise.all(
     game.players.map(async p => ({
       slot: p.slot,
@@ -254,13 +223,271 @@ async function buildPlayersInfo(game: IGoGame): Promise<any[]> {
       captures: p.captures,
       mainTimeLeft: p.mainTimeLeft,
       byoyomiPeriodsLeft: p.byoyomiPeriodsLeft,
+      periodTimeLeft: p.periodTimeLeft,
+      stonesLeft: p.stonesLeft,
+      ...clock?.players.find(c => c.slot === p.slot),
       passed: p.passed,
       scoringAgreed: p.scoringAgreed,
       isConnected: p.isConnected,
+      isBot: !!p.isBot,
     }))
   );
 }
 
+// ─── Shared Game Actions ─────────────────────────────────────────
+// Used by both the socket handlers and the bot so every move goes through one path.
+
+/** Broadcast a stone that applyMove already placed (game saved) and restart the clock */
+async function emitMoveMade(io: SocketIOServer, game: IGoGame): Promise<void> {
+  const players = await buildPlayersInfo(game);
+  const lastMove = game.moveHistory[game.moveHistory.length - 1];
+
+  io.to(`go:${game.roomId}`).emit('go:move-made', {
+    board: game.board,
+    move: lastMove,
+    currentColor: game.currentColor,
+    players,
+    koPoint: game.koPoint,
+    moveCount: game.moveCount,
+  });
+
+  // Restart timer for next player
+  if (game.settings.mainTime > 0) {
+    startMoveTimer(io, game.roomId, game);
+  }
+}
+
+/** Apply a pass, save, broadcast, and enter scoring after two consecutive passes */
+async function commitPass(io: SocketIOServer, game: IGoGame, color: GoColor): Promise<void> {
+  const roomId = game.roomId;
+  chargeGoMove(game, color);
+  applyPass(game, color);
+
+  if (game.consecutivePasses >= 2) {
+    // Transition to scoring
+    const deadStones = suggestDeadStones(game.board);
+    const territory = calculateTerritory(game.board, deadStones, game.settings.ruleset);
+    const finalScore = calculateScore(game.board, deadStones, getGoScoreOptions(game));
+
+    game.deadStones = deadStones;
+    game.territory = territory;
+    game.finalScore = finalScore;
+    pauseGoClock(game);
+
+    await game.save();
+
+    const passMadePlayers = await buildPlayersInfo(game);
+
+    io.to(`go:${roomId}`).emit('go:pass-made', {
+      color,
+      currentColor: game.currentColor,
+      consecutivePasses: game.consecutivePasses,
+      players: passMadePlayers,
+    });
+
+    io.to(`go:${roomId}`).emit('go:scoring-started', {
+      deadStones: game.deadStones,
+      territory: game.territory,
+      score: game.finalScore,
+    });
+
+    await botReviewScoring(io, game);
+  } else {
+    await game.save();
+
+    const players = await buildPlayersInfo(game);
+
+    io.to(`go:${roomId}`).emit('go:pass-made', {
+      color,
+      currentColor: game.currentColor,
+      consecutivePasses: game.consecutivePasses,
+      players,
+    });
+
+    if (game.settings.mainTime > 0) {
+      startMoveTimer(io, roomId, game);
+    }
+  }
+}
+
+/** Both players agreed on dead stones — compute the result and finish the game */
+async function finalizeScoring(io: SocketIOServer, game: IGoGame): Promise<void> {
+  const finalScore = calculateScore(game.board, game.deadStones, getGoScoreOptions(game));
+  game.finalScore = finalScore;
+
+  const blackTotal = finalScore.black.total;
+  const whiteTotal = finalScore.white.total;
+  const winnerColor: GoColor = blackTotal > whiteTotal ? 'black' : 'white';
+  const winnerPlayer = game.players.find(p => p.color === winnerColor);
+
+  game.gameStatus = 'finished';
+  game.winReason = 'score';
+  game.finishedAt = new Date();
+
+  if (winnerPlayer) {
+    game.winner = {
+      slot: winnerPlayer.slot,
+      color: winnerPlayer.color,
+      userId: winnerPlayer.userId,
+      guestId: winnerPlayer.guestId,
+      guestName: winnerPlayer.guestName,
+    };
+  }
+
+  await game.save();
+  await saveGoGameHistory(game);
+  cleanupRoomTimers(game.roomId);
+
+  io.to(`go:${game.roomId}`).emit('go:game-finished', {
+    winner: game.winner,
+    winReason: 'score',
+    finalScore: game.finalScore,
+  });
+}
+
+/** Take back the last move or pass (mutates game, not saved) */
+function undoLastMove(game: IGoGame): void {
+  // Pop last move
+  game.moveHistory.pop();
+  if (game.boardHistory.length > 1) {
+    game.boardHistory.pop();
+  }
+
+  // Revert board to previous state from boardHistory
+  const prevHash = game.boardHistory[game.boardHistory.length - 1];
+  if (prevHash) {
+    // Reconstruct board from hash: each row is joined by ''
+    const rows = prevHash.split('|');
+    game.board = rows.map(row => row.split('').map(Number));
+  }
+
+  game.moveCount = Math.max(0, game.moveCount - 1);
+  // Toggle back current color
+  game.currentColor = game.currentColor === 'black' ? 'white' : 'black';
+  game.koPoint = null;
+  game.consecutivePasses = 0;
+}
+
+// ─── Bot ─────────────────────────────────────────────────────────
+
+const botTimers = new Map<string, NodeJS.Timeout>(); // roomId → pending bot move
+const BOT_MOVE_DELAY_MS = 400;                       // short pause so replies don't feel instant
+
+function getBotPlayer(game: IGoGame): IGoPlayer | undefined {
+  return game.players.find(p => p.isBot);
+}
+
+function clearBotTimer(roomId: string): void {
+  const timer = botTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    botTimers.delete(roomId);
+  }
+}
+
+/** Queue the bot's move if it is the bot's turn */
+function scheduleBotTurn(io: SocketIOServer, game: IGoGame): void {
+  const bot = getBotPlayer(game);
+  if (!bot || game.gameStatus !== 'playing' || game.currentColor !== bot.color) return;
+
+  const roomId = game.roomId;
+  clearBotTimer(roomId);
+  botTimers.set(roomId, setTimeout(() => {
+    botTimers.delete(roomId);
+    playBotTurn(io, roomId).catch(err => console.error('[go:bot] Error:', err));
+  }, BOT_MOVE_DELAY_MS));
+}
+
+async function playBotTurn(io: SocketIOServer, roomId: string): Promise<void> {
+  const game = await GoGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing') return;
+
+  const bot = getBotPlayer(game);
+  if (!bot || game.currentColor !== bot.color) return;
+  if (hasGoFlagged(game)) {
+    await finishOnTimeout(io, roomId);
+    return;
+  }
+
+  const decision = await chooseGoBotMove(game, game.settings.botLevel || 'medium');
+
+  // The search yields to the event loop — drop the move if the game moved on meanwhile
+  const current = await GoGame.findOne({ roomId });
+  if (!current || current.gameStatus !== 'playing' || current.currentColor !== bot.color
+    || current.moveCount !== game.moveCount || hashBoard(current.board) !== hashBoard(game.board)) return;
+  if (hasGoFlagged(current)) {
+    await finishOnTimeout(io, roomId);
+    return;
+  }
+
+  if (decision.type === 'move') {
+    const result = applyMove(current, decision.row, decision.col, bot.color);
+    if (result.valid) {
+      chargeGoMove(current, bot.color);
+      await current.save();
+      await emitMoveMade(io, current);
+      return;
+    }
+    console.error(`[go:bot] Rejected move in room ${roomId}:`, result.error);
+  }
+
+  await commitPass(io, current, bot.color);
+}
+
+/** In scoring phase the bot agrees unless the dead-stone marking is worse for it than the engine's suggestion */
+async function botReviewScoring(io: SocketIOServer, game: IGoGame): Promise<void> {
+  const bot = getBotPlayer(game);
+  if (!bot || game.phase !== 'scoring' || bot.scoringAgreed) return;
+  if (!shouldBotAgreeScoring(game, bot.color)) return;
+
+  bot.scoringAgreed = true;
+  if (game.players.every(p => p.scoringAgreed)) {
+    await finalizeScoring(io, game);
+    return;
+  }
+
+  await game.save();
+  io.to(`go:${game.roomId}`).emit('go:scoring-agreed', {
+    slot: bot.slot,
+    players: await buildPlayersInfo(game),
+  });
+}
+
+// ─── Review Helpers ──────────────────────────────────────────────
+
+/** Seated players and spectators of a room may take part in its review */
+async function resolveReviewer(socket: Socket, game: IGoGame): Promise<IGoReviewer | null> {
+  const playerId = getPlayerId(socket);
+  if (!playerId) return null;
+  const player = findPlayerInGame(game, playerId);
+  if (player) return { id: playerId, name: await resolvePlayerName(player) };
+
+  const room = `go:${game.roomId}`;
+  if (!isSpectating(socket, room)) return null;
+  const spectator = getSpectators(room).find(s => s.id === playerId);
+  return { id: playerId, name: spectator?.name || 'Spectator' };
+}
+
+/** Load a finished room and the reviewer behind this socket, or the error to report */
+async function loadReviewContext(
+  socket: Socket,
+  roomId: unknown,
+): Promise<{ game: IGoGame; reviewer: IGoReviewer } | { error: string }> {
+  if (!roomId) return { error: 'GO_NO_ROOM_ID' };
+  const game = await GoGame.findOne({ roomId });
+  if (!game) return { error: 'GO_ROOM_NOT_FOUND' };
+  if (game.gameStatus !== 'finished') return { error: 'GO_GAME_NOT_FINISHED' };
+  const reviewer = await resolveReviewer(socket, game);
+  if (!reviewer) return { error: 'GO_NOT_IN_GAME' };
+  return { game, reviewer };
+}
+
+/** Whether the review leader still has a socket in the room */
+async function isReviewLeaderPresent(io: SocketIOServer, roomId: string, leaderId: string): Promise<boolean> {
+  const sockets = await io.in(`go:${roomId}`).fetchSockets();
+  return sockets.some(s => (s.data.userId || s.data.guestId) === leaderId);
+}
+
 // ─── Main Setup ──────────────────────────────────────────────────
 
 export function setupGoSocketHandlers(io: SocketIOServer): void {
@@ -286,15 +513,27 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           hashedPassword = await bcrypt.hash(password.trim(), 10);
         }
 
+        const botLevel = isGoBotLevel(rules.botLevel) ? rules.botLevel : null;
+
         const settings = {
           boardSize: rules.boardSize || 19,
           komi: rules.komi ?? 6.5,
+          ruleset: GO_RULESETS.includes(rules.ruleset) ? rules.ruleset : 'chinese',
           handicap: rules.handicap || 0,
           mainTime: rules.mainTime || 0,
           byoyomiPeriods: rules.byoyomiPeriods ?? 3,
           byoyomiTime: rules.byoyomiTime || 30,
+          timeSystem: GO_TIME_SYSTEMS.includes(rules.timeSystem) ? rules.timeSystem : 'byoyomi',
+          canadianStones: rules.canadianStones || 25,
+          canadianTime: rules.canadianTime || 600,
+          fischerIncrement: rules.fischerIncrement ?? 10,
+          botLevel,
         };
 
+        if (botLevel && !isGoBotBoardSize(settings.boardSize)) {
+          return callback({ success: false, error: 'GO_BOT_BOARD_SIZE' });
+        }
+
         const game = new GoGame({
           roomId,
           roomCode,
@@ -309,8 +548,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
             guestName: userId ? undefined : guestName,
             color: 'black',
             captures: 0,
-            mainTimeLeft: settings.mainTime,
-            byoyomiPeriodsLeft: settings.byoyomiPeriods,
+            ...initialGoClockFields(settings as IGoSettings),
             passed: false,
             scoringAgreed: false,
             isConnected: true,
@@ -318,6 +556,22 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           gameStatus: 'waiting',
         });
 
+        // Bot takes white; the human keeps black (and any handicap stones)
+        if (botLevel) {
+          game.players.push({
+            slot: 2,
+            guestId: GO_BOT_ID,
+            guestName: getGoBotName(botLevel),
+            color: 'white',
+            captures: 0,
+            ...initialGoClockFields(settings as IGoSettings),
+            passed: false,
+            scoringAgreed: false,
+            isConnected: true,
+            isBot: true,
+          });
+        }
+
         await game.save();
 
         socket.data.goRoomId = roomId;
@@ -348,7 +602,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
     // ── go:join-room ────────────────────────────────────────────
     socket.on('go:join-room', async (data: any, callback: Function) => {
       try {
-        const { roomCode, password, guestId, guestName } = data || {};
+        const { roomCode, password, guestId, guestName, spectate } = data || {};
         if (!roomCode) return callback({ success: false, error: 'GO_NO_ROOM_CODE' });
 
         const userId = socket.data.userId || null;
@@ -359,10 +613,99 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
 
         const game = await GoGame.findOne({ roomCode: roomCode.toUpperCase() }).select('+password');
         if (!game) return callback({ success: false, error: 'GO_ROOM_NOT_FOUND' });
+
+        // Spectate: watch read-only without taking a seat (works for full and in-progress rooms)
+        if (spectate && !findPlayerInGame(game, playerId as string)) {
+          if ((game as any).password) {
+            if (!password) return callback({ success: false, error: 'GO_PASSWORD_REQUIRED' });
+            const valid = await bcrypt.compare(password, (game as any).password);
+            if (!valid) return callback({ success: false, error: 'GO_WRONG_PASSWORD' });
+          }
+
+          const spectatorName = userId
+            ? (await User.findById(userId).select('username').lean())?.username || 'Spectator'
+            : (guestName || 'Spectator');
+          const room = `go:${game.roomId}`;
+          if (!addSpectator(io, socket, room, { id: playerId as string, name: spectatorName, isGuest: !userId })) {
+            return callback({ success: false, error: 'GO_TOO_MANY_SPECTATORS' });
+          }
+          // Review actions identify spectators the same way as players
+          if (!userId && effectiveGuestId) socket.data.guestId = effectiveGuestId;
+
+          return callback({
+            success: true,
+            isSpectator: true,
+            roomId: game.roomId,
+            roomCode: game.roomCode,
+            rules: game.settings,
+            players: await buildPlayersInfo(game),
+            gameStatus: game.gameStatus,
+            isHost: false,
+            mySlot: null,
+            board: game.board,
+            currentColor: game.currentColor,
+            moveHistory: game.moveHistory,
+            phase: game.phase,
+            deadStones: game.deadStones,
+            territory: game.territory,
+            moveCount: game.moveCount,
+            winner: game.winner,
+            winReason: game.winReason,
+            finalScore: game.finalScore,
+            spectators: getSpectators(room),
+            review: getGoReviewState(game.roomId),
+          });
+        }
+
+        // Rejoin a game in progress: restore the seat and resume the clock where it stopped
+        const seated = findPlayerInGame(game, playerId as string);
+        if (seated && game.gameStatus !== 'waiting') {
+          seated.isConnected = true;
+          seated.disconnectedAt = undefined;
+          clearDisconnectTimer(game.roomId, seated.slot);
+
+          socket.data.goRoomId = game.roomId;
+          socket.data.goPlayerSlot = seated.slot;
+          if (!userId && effectiveGuestId) socket.data.guestId = effectiveGuestId;
+          socket.join(`go:${game.roomId}`);
+          activePlayerSockets.set(`${game.roomId}:${playerId}`, socket.id);
+          await game.save();
+
+          const players = await buildPlayersInfo(game);
+          socket.emit('go:joined-room', {
+            roomId: game.roomId,
+            roomCode: game.roomCode,
+            rules: game.settings,
+            players,
+            gameStatus: game.gameStatus,
+            isHost: game.hostPlayerId === playerId,
+            mySlot: seated.slot,
+            board: game.board,
+            currentColor: game.currentColor,
+            moveHistory: game.moveHistory,
+            phase: game.phase,
+            deadStones: game.deadStones,
+            territory: game.territory,
+            score: game.finalScore,
+            moveCount: game.moveCount,
+            winner: game.winner,
+            winReason: game.winReason,
+            finalScore: game.finalScore,
+            clock: getGoClockSnapshot(game),
+            review: getGoReviewState(game.roomId),
+          });
+          socket.to(`go:${game.roomId}`).emit('go:player-reconnected', { slot: seated.slot, players });
+
+          if (game.gameStatus === 'playing' && game.players.every(p => p.isConnected)) {
+            startMoveTimer(io, game.roomId, game);
+            scheduleBotTurn(io, game);
+          }
+          return callback({ success: true, reconnected: true });
+        }
+
         if (game.gameStatus !== 'waiting') return callback({ success: false, error: 'GO_ROOM_NOT_WAITING' });
-        if (game.players.length >= 2) return callback({ success: false, error: 'GO_ROOM_FULL' });
 
-        // Check if already in room (reconnect)
+        // Check if already in room (reconnect, or a seat assigned by matchmaking)
         const existing = findPlayerInGame(game, playerId as string);
         if (existing) {
           socket.data.goRoomId = game.roomId;
@@ -383,6 +726,8 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           });
         }
 
+        if (game.players.length >= 2) return callback({ success: false, error: 'GO_ROOM_FULL' });
+
         // Password check
         if ((game as any).password) {
           if (!password) return callback({ success: false, error: 'GO_PASSWORD_REQUIRED' });
@@ -398,8 +743,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           guestName: userId ? undefined : guestName,
           color: 'white',
           captures: 0,
-          mainTimeLeft: game.settings.mainTime,
-          byoyomiPeriodsLeft: game.settings.byoyomiPeriods,
+          ...initialGoClockFields(game.settings),
           passed: false,
           scoringAgreed: false,
           isConnected: true,
@@ -443,6 +787,12 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         const { roomId } = data || {};
         if (!roomId) return callback?.({ success: false, error: 'GO_NO_ROOM_ID' });
 
+        // Spectators just stop watching - never touch the game state
+        if (isSpectating(socket, `go:${roomId}`)) {
+          removeSpectator(io, socket);
+          return callback?.({ success: true });
+        }
+
         const playerId = getPlayerId(socket);
         const game = await GoGame.findOne({ roomId });
         if (!game) return callback?.({ success: true });
@@ -465,15 +815,18 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
               guestName: opponent.guestName,
             };
           }
-          clearMoveTimer(roomId);
+          pauseGoClock(game);
+          // Archive before the leaving player is dropped from the room
+          await saveGoGameHistory(game);
         }
 
         // Remove leaving player
         game.players = game.players.filter(p => p.slot !== slot) as any;
 
-        if (game.players.length === 0) {
+        if (game.players.every(p => p.isBot)) {
           await GoGame.deleteOne({ roomId });
           cleanupRoomTimers(roomId);
+          clearSpectators(io, `go:${roomId}`);
         } else {
           // Transfer host if needed
           if (game.hostPlayerId === playerId && game.players.length > 0) {
@@ -533,11 +886,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         game.boardHistory = [hashBoard(board)];
         game.startedAt = new Date();
 
-        // Init player timers
-        game.players.forEach(p => {
-          p.mainTimeLeft = game.settings.mainTime;
-          p.byoyomiPeriodsLeft = game.settings.byoyomiPeriods;
-        });
+        resetGoClock(game);
 
         await game.save();
 
@@ -553,6 +902,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         if (game.settings.mainTime > 0) {
           startMoveTimer(io, roomId, game);
         }
+        scheduleBotTurn(io, game);
 
         callback({ success: true });
       } catch (err: any) {
@@ -577,34 +927,18 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         const player = playerId ? findPlayerInGame(game, playerId) : null;
         if (!player) return callback({ success: false, error: 'GO_NOT_IN_GAME' });
         if (player.color !== game.currentColor) return callback({ success: false, error: 'GO_NOT_YOUR_TURN' });
+        if (hasGoFlagged(game)) {
+          await finishOnTimeout(io, roomId);
+          return callback({ success: false, error: 'GO_TIME_EXPIRED' });
+        }
 
         const result = applyMove(game, row, col, player.color as GoColor);
         if (!result.valid) return callback({ success: false, error: result.error });
-
-        // Reset byoyomi period time on move (if in byoyomi)
-        if (player.mainTimeLeft === 0) {
-          // Player used a byoyomi period — reset their period time via mainTimeLeft sentinel
-          // We leave byoyomiPeriodsLeft as-is (already decremented during timeout counting)
-        }
+        chargeGoMove(game, player.color as GoColor);
 
         await game.save();
-
-        const players = await buildPlayersInfo(game);
-        const lastMove = game.moveHistory[game.moveHistory.length - 1];
-
-        io.to(`go:${roomId}`).emit('go:move-made', {
-          board: game.board,
-          move: lastMove,
-          currentColor: game.currentColor,
-          players,
-          koPoint: game.koPoint,
-          moveCount: game.moveCount,
-        });
-
-        // Restart timer for next player
-        if (game.settings.mainTime > 0) {
-          startMoveTimer(io, roomId, game);
-        }
+        await emitMoveMade(io, game);
+        scheduleBotTurn(io, game);
 
         callback({ success: true });
       } catch (err: any) {
@@ -627,54 +961,14 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         const player = playerId ? findPlayerInGame(game, playerId) : null;
         if (!player) return callback({ success: false, error: 'GO_NOT_IN_GAME' });
         if (player.color !== game.currentColor) return callback({ success: false, error: 'GO_NOT_YOUR_TURN' });
-
-        applyPass(game, player.color as GoColor);
-
-        const players = await buildPlayersInfo(game);
-
-        if (game.consecutivePasses >= 2) {
-          // Transition to scoring
-          const deadStones = suggestDeadStones(game.board);
-          const territory = calculateTerritory(game.board, deadStones);
-          const finalScore = calculateScore(game.board, deadStones, game.settings.komi);
-
-          game.deadStones = deadStones;
-          game.territory = territory;
-          game.finalScore = finalScore;
-
-          await game.save();
-
-          const passMadePlayers = await buildPlayersInfo(game);
-
-          io.to(`go:${roomId}`).emit('go:pass-made', {
-            color: player.color,
-            currentColor: game.currentColor,
-            consecutivePasses: game.consecutivePasses,
-            players: passMadePlayers,
-          });
-
-          io.to(`go:${roomId}`).emit('go:scoring-started', {
-            deadStones: game.deadStones,
-            territory: game.territory,
-            score: game.finalScore,
-          });
-
-          clearMoveTimer(roomId);
-        } else {
-          await game.save();
-
-          io.to(`go:${roomId}`).emit('go:pass-made', {
-            color: player.color,
-            currentColor: game.currentColor,
-            consecutivePasses: game.consecutivePasses,
-            players,
-          });
-
-          if (game.settings.mainTime > 0) {
-            startMoveTimer(io, roomId, game);
-          }
+        if (hasGoFlagged(game)) {
+          await finishOnTimeout(io, roomId);
+          return callback({ success: false, error: 'GO_TIME_EXPIRED' });
         }
 
+        await commitPass(io, game, player.color as GoColor);
+        scheduleBotTurn(io, game);
+
         callback({ success: true });
       } catch (err: any) {
         console.error('[go:pass] Error:', err.message);
@@ -699,8 +993,8 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         }
 
         const newDeadStones = toggleDeadStoneGroup(game.board, game.deadStones, row, col);
-        const territory = calculateTerritory(game.board, newDeadStones);
-        const finalScore = calculateScore(game.board, newDeadStones, game.settings.komi);
+        const territory = calculateTerritory(game.board, newDeadStones, game.settings.ruleset);
+        const finalScore = calculateScore(game.board, newDeadStones, getGoScoreOptions(game));
 
         game.deadStones = newDeadStones;
         game.territory = territory;
@@ -715,6 +1009,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           territory: game.territory,
           score: game.finalScore,
         });
+        await botReviewScoring(io, game);
 
         callback({ success: true });
       } catch (err: any) {
@@ -742,37 +1037,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         const allAgreed = game.players.every(p => p.scoringAgreed);
 
         if (allAgreed) {
-          // Finalize game
-          const finalScore = calculateScore(game.board, game.deadStones, game.settings.komi);
-          game.finalScore = finalScore;
-
-          const blackTotal = finalScore.black.total;
-          const whiteTotal = finalScore.white.total;
-          const winnerColor: GoColor = blackTotal > whiteTotal ? 'black' : 'white';
-          const winnerPlayer = game.players.find(p => p.color === winnerColor);
-
-          game.gameStatus = 'finished';
-          game.winReason = 'score';
-          game.finishedAt = new Date();
-
-          if (winnerPlayer) {
-            game.winner = {
-              slot: winnerPlayer.slot,
-              color: winnerPlayer.color,
-              userId: winnerPlayer.userId,
-              guestId: winnerPlayer.guestId,
-              guestName: winnerPlayer.guestName,
-            };
-          }
-
-          await game.save();
-          cleanupRoomTimers(roomId);
-
-          io.to(`go:${roomId}`).emit('go:game-finished', {
-            winner: game.winner,
-            winReason: 'score',
-            finalScore: game.finalScore,
-          });
+          await finalizeScoring(io, game);
         } else {
           await game.save();
           const players = await buildPlayersInfo(game);
@@ -806,7 +1071,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         game.gameStatus = 'playing';
         game.consecutivePasses = 0;
         game.deadStones = [];
-        game.territory = { black: [], white: [], neutral: [] };
+        game.territory = { black: [], white: [], neutral: [], seki: [] };
         game.players.forEach(p => { p.scoringAgreed = false; });
 
         await game.save();
@@ -818,6 +1083,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         if (game.settings.mainTime > 0) {
           startMoveTimer(io, roomId, game);
         }
+        scheduleBotTurn(io, game);
 
         callback({ success: true });
       } catch (err: any) {
@@ -856,6 +1122,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         }
 
         await game.save();
+        await saveGoGameHistory(game);
         cleanupRoomTimers(roomId);
 
         io.to(`go:${roomId}`).emit('go:game-finished', {
@@ -889,6 +1156,35 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         const opponent = game.players.find(p => p.slot !== requestingPlayer.slot);
         if (!opponent) return callback({ success: false, error: 'GO_NO_OPPONENT' });
 
+        // The bot always grants takebacks: rewind until it is the requester's turn again
+        if (opponent.isBot) {
+          if (game.gameStatus !== 'playing') return callback({ success: false, error: 'GO_NOT_IN_PLAY' });
+          clearBotTimer(roomId);
+          // Time spent on the taken-back moves stays spent
+          pauseGoClock(game);
+          do {
+            undoLastMove(game);
+          } while (game.currentColor !== requestingPlayer.color && game.moveHistory.length > 0);
+
+          await game.save();
+
+          io.to(`go:${roomId}`).emit('go:undo-resolved', {
+            approved: true,
+            board: game.board,
+            currentColor: game.currentColor,
+            players: await buildPlayersInfo(game),
+            moveHistory: game.moveHistory,
+            moveCount: game.moveCount,
+          });
+
+          if (game.settings.mainTime > 0) {
+            startMoveTimer(io, roomId, game);
+          }
+          // Rewinding a handicap game to the start hands the move back to the bot
+          scheduleBotTurn(io, game);
+          return callback({ success: true });
+        }
+
         // Emit undo request to opponent only
         const opponentPlayerId = opponent.userId?.toString() || opponent.guestId;
         if (opponentPlayerId) {
@@ -921,25 +1217,8 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         }
         if (game.moveHistory.length === 0) return callback({ success: false, error: 'GO_NO_MOVES' });
 
-        // Pop last move
-        game.moveHistory.pop();
-        if (game.boardHistory.length > 1) {
-          game.boardHistory.pop();
-        }
-
-        // Revert board to previous state from boardHistory
-        const prevHash = game.boardHistory[game.boardHistory.length - 1];
-        if (prevHash) {
-          // Reconstruct board from hash: each row is joined by ''
-          const rows = prevHash.split('|');
-          game.board = rows.map(row => row.split('').map(Number));
-        }
-
-        game.moveCount = Math.max(0, game.moveCount - 1);
-        // Toggle back current color
-        game.currentColor = game.currentColor === 'black' ? 'white' : 'black';
-        game.koPoint = null;
-        game.consecutivePasses = 0;
+        pauseGoClock(game);
+        undoLastMove(game);
 
         await game.save();
 
@@ -954,6 +1233,10 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
           moveCount: game.moveCount,
         });
 
+        if (game.gameStatus === 'playing') {
+          startMoveTimer(io, roomId, game);
+        }
+
         callback({ success: true });
       } catch (err: any) {
         console.error('[go:approve-undo] Error:', err.message);
@@ -966,6 +1249,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
       try {
         const { roomId } = data || {};
         if (!roomId) return callback({ success: false, error: 'GO_NO_ROOM_ID' });
+        if (isSpectating(socket, `go:${roomId}`)) return callback({ success: false, error: 'GO_SPECTATOR' });
 
         io.to(`go:${roomId}`).emit('go:undo-resolved', { approved: false });
         callback({ success: true });
@@ -980,15 +1264,19 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
       try {
         const { roomId } = data || {};
         if (!roomId) return callback({ success: false, error: 'GO_NO_ROOM_ID' });
+        if (isSpectating(socket, `go:${roomId}`)) return callback({ success: false, error: 'GO_SPECTATOR' });
 
         const game = await GoGame.findOne({ roomId });
         if (!game) return callback({ success: false, error: 'GO_ROOM_NOT_FOUND' });
+        if (game.isReview) return callback({ success: false, error: 'GO_REVIEW_ONLY' });
         if (game.players.length < 2) return callback({ success: false, error: 'GO_NEED_TWO_PLAYERS' });
 
-        // Swap colors
-        game.players.forEach(p => {
-          p.color = p.color === 'black' ? 'white' : 'black';
-        });
+        // Swap colors (a handicap game against the bot keeps the human on black)
+        if (!(getBotPlayer(game) && game.settings.handicap > 0)) {
+          game.players.forEach(p => {
+            p.color = p.color === 'black' ? 'white' : 'black';
+          });
+        }
 
         const { board, currentColor } = initBoardWithHandicap(
           game.settings.boardSize,
@@ -1005,20 +1293,20 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         game.boardHistory = [hashBoard(board)];
         game.moveHistory = [];
         game.deadStones = [];
-        game.territory = { black: [], white: [], neutral: [] };
+        game.territory = { black: [], white: [], neutral: [], seki: [] };
         game.finalScore = null;
         game.winner = null;
         game.winReason = null;
         game.startedAt = new Date();
         game.finishedAt = null;
+        clearGoReview(roomId);
 
         game.players.forEach(p => {
           p.captures = 0;
-          p.mainTimeLeft = game.settings.mainTime;
-          p.byoyomiPeriodsLeft = game.settings.byoyomiPeriods;
           p.passed = false;
           p.scoringAgreed = false;
         });
+        resetGoClock(game);
 
         await game.save();
 
@@ -1034,6 +1322,7 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         if (game.settings.mainTime > 0) {
           startMoveTimer(io, roomId, game);
         }
+        scheduleBotTurn(io, game);
 
         callback({ success: true });
       } catch (err: any) {
@@ -1055,19 +1344,24 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         if (game.gameStatus !== 'waiting') return callback({ success: false, error: 'GO_ALREADY_STARTED' });
 
         if (rules) {
+          if (game.settings.botLevel && rules.boardSize != null && !isGoBotBoardSize(rules.boardSize)) {
+            return callback({ success: false, error: 'GO_BOT_BOARD_SIZE' });
+          }
           if (rules.boardSize != null) game.settings.boardSize = rules.boardSize;
           if (rules.komi != null) game.settings.komi = rules.komi;
+          if (GO_RULESETS.includes(rules.ruleset)) game.settings.ruleset = rules.ruleset;
           if (rules.handicap != null) game.settings.handicap = rules.handicap;
           if (rules.mainTime != null) game.settings.mainTime = rules.mainTime;
           if (rules.byoyomiPeriods != null) game.settings.byoyomiPeriods = rules.byoyomiPeriods;
           if (rules.byoyomiTime != null) game.settings.byoyomiTime = rules.byoyomiTime;
+          if (GO_TIME_SYSTEMS.includes(rules.timeSystem)) game.settings.timeSystem = rules.timeSystem;
+          if (rules.canadianStones != null) game.settings.canadianStones = rules.canadianStones;
+          if (rules.canadianTime != null) game.settings.canadianTime = rules.canadianTime;
+          if (rules.fischerIncrement != null) game.settings.fischerIncrement = rules.fischerIncrement;
         }
 
         // Update player timers to match new settings
-        game.players.forEach(p => {
-          p.mainTimeLeft = game.settings.mainTime;
-          p.byoyomiPeriodsLeft = game.settings.byoyomiPeriods;
-        });
+        resetGoClock(game);
 
         game.markModified('settings');
         await game.save();
@@ -1083,6 +1377,167 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
       }
     });
 
+    // ── go:clock-sync ───────────────────────────────────────────
+    // Clients ask for the authoritative clock after a reconnect or when their tab wakes up
+    socket.on('go:clock-sync', async (data: any, callback: Function) => {
+      try {
+        const { roomId } = data || {};
+        if (!roomId) return callback?.({ success: false, error: 'GO_NO_ROOM_ID' });
+
+        const game = await GoGame.findOne({ roomId });
+        if (!game) return callback?.({ success: false, error: 'GO_ROOM_NOT_FOUND' });
+
+        // After a server restart the turn is still persisted but nothing is counting it down
+        if (game.gameStatus === 'playing' && !isGoClockRunning(roomId) && game.players.every(p => p.isConnected)) {
+          startMoveTimer(io, roomId, game);
+        }
+
+        callback?.({ success: true, clock: getGoClockSnapshot(game) });
+      } catch (err: any) {
+        console.error('[go:clock-sync] Error:', err.message);
+        callback?.({ success: false, error: 'GO_CLOCK_SYNC_FAILED' });
+      }
+    });
+
+    // ── go:review-start ─────────────────────────────────────────
+    // Opens the shared review of a finished game (the caller leads), or joins the running one
+    socket.on('go:review-start', async (data: any, callback: Function) => {
+      try {
+        const ctx = await loadReviewContext(socket, data?.roomId);
+        if ('error' in ctx) return callback({ success: false, error: ctx.error });
+
+        const running = getGoReviewState(ctx.game.roomId);
+        if (running) return callback({ success: true, review: running });
+
+        const started = startGoReview(ctx.game, ctx.reviewer);
+        if (!started.ok) return callback({ success: false, error: started.error });
+
+        io.to(`go:${ctx.game.roomId}`).emit('go:review-state', {
+          review: started.value,
+          startedBy: ctx.reviewer.name,
+        });
+        callback({ success: true, review: started.value });
+      } catch (err: any) {
+        console.error('[go:review-start] Error:', err.message);
+        callback({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
+    // ── go:review-navigate ──────────────────────────────────────
+    socket.on('go:review-navigate', async (data: any, callback: Function) => {
+      try {
+        const ctx = await loadReviewContext(socket, data?.roomId);
+        if ('error' in ctx) return callback?.({ success: false, error: ctx.error });
+        if (getGoReviewLeader(ctx.game.roomId)?.id !== ctx.reviewer.id) {
+          return callback?.({ success: false, error: 'GO_NOT_REVIEW_LEADER' });
+        }
+
+        const moved = navigateGoReview(ctx.game.roomId, String(data.nodeId));
+        if (!moved.ok) return callback?.({ success: false, error: moved.error });
+
+        socket.to(`go:${ctx.game.roomId}`).emit('go:review-navigated', { nodeId: moved.value });
+        callback?.({ success: true });
+      } catch (err: any) {
+        console.error('[go:review-navigate] Error:', err.message);
+        callback?.({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
+    // ── go:review-play ──────────────────────────────────────────
+    // Any participant may branch a variation; the leader's move also moves everyone following
+    socket.on('go:review-play', async (data: any, callback: Function) => {
+      try {
+        const { roomId, parentId, row, col, pass } = data || {};
+        if (!parentId || (!pass && (row == null || col == null))) {
+          return callback({ success: false, error: 'GO_INVALID_DATA' });
+        }
+        const ctx = await loadReviewContext(socket, roomId);
+        if ('error' in ctx) return callback({ success: false, error: ctx.error });
+
+        const played = playGoReviewMove(
+          ctx.game.roomId,
+          String(parentId),
+          pass ? null : { row: Number(row), col: Number(col) },
+        );
+        if (!played.ok) return callback({ success: false, error: played.error });
+
+        const { node, created } = played.value;
+        const room = `go:${ctx.game.roomId}`;
+        if (created) io.to(room).emit('go:review-node-added', { node });
+        if (getGoReviewLeader(ctx.game.roomId)?.id === ctx.reviewer.id) {
+          navigateGoReview(ctx.game.roomId, node.id);
+          socket.to(room).emit('go:review-navigated', { nodeId: node.id });
+        }
+
+        callback({ success: true, node });
+      } catch (err: any) {
+        console.error('[go:review-play] Error:', err.message);
+        callback({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
+    // ── go:review-annotate ──────────────────────────────────────
+    socket.on('go:review-annotate', async (data: any, callback: Function) => {
+      try {
+        const { roomId, nodeId, comment, marks } = data || {};
+        if (!nodeId) return callback?.({ success: false, error: 'GO_INVALID_DATA' });
+        const ctx = await loadReviewContext(socket, roomId);
+        if ('error' in ctx) return callback?.({ success: false, error: ctx.error });
+
+        const annotated = annotateGoReviewNode(ctx.game.roomId, String(nodeId), { comment, marks });
+        if (!annotated.ok) return callback?.({ success: false, error: annotated.error });
+
+        io.to(`go:${ctx.game.roomId}`).emit('go:review-annotated', { node: annotated.value });
+        callback?.({ success: true });
+      } catch (err: any) {
+        console.error('[go:review-annotate] Error:', err.message);
+        callback?.({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
+    // ── go:review-take-lead ─────────────────────────────────────
+    // Seated players may always take over; viewers only when nobody is leading
+    socket.on('go:review-take-lead', async (data: any, callback: Function) => {
+      try {
+        const ctx = await loadReviewContext(socket, data?.roomId);
+        if ('error' in ctx) return callback?.({ success: false, error: ctx.error });
+        const roomId = ctx.game.roomId;
+        if (!getGoReviewState(roomId)) return callback?.({ success: false, error: 'GO_NO_REVIEW' });
+
+        const leader = getGoReviewLeader(roomId);
+        const isSeated = !!findPlayerInGame(ctx.game, ctx.reviewer.id);
+        if (leader && leader.id !== ctx.reviewer.id && !isSeated
+          && await isReviewLeaderPresent(io, roomId, leader.id)) {
+          return callback?.({ success: false, error: 'GO_REVIEW_LEADER_PRESENT' });
+        }
+
+        setGoReviewLeader(roomId, ctx.reviewer);
+        io.to(`go:${roomId}`).emit('go:review-leader', { leader: ctx.reviewer });
+        callback?.({ success: true });
+      } catch (err: any) {
+        console.error('[go:review-take-lead] Error:', err.message);
+        callback?.({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
+    // ── go:review-end ───────────────────────────────────────────
+    socket.on('go:review-end', async (data: any, callback: Function) => {
+      try {
+        const ctx = await loadReviewContext(socket, data?.roomId);
+        if ('error' in ctx) return callback?.({ success: false, error: ctx.error });
+        if (getGoReviewLeader(ctx.game.roomId)?.id !== ctx.reviewer.id) {
+          return callback?.({ success: false, error: 'GO_NOT_REVIEW_LEADER' });
+        }
+
+        clearGoReview(ctx.game.roomId);
+        io.to(`go:${ctx.game.roomId}`).emit('go:review-ended', {});
+        callback?.({ success: true });
+      } catch (err: any) {
+        console.error('[go:review-end] Error:', err.message);
+        callback?.({ success: false, error: 'GO_REVIEW_FAILED' });
+      }
+    });
+
     // ── go:send-chat ──────────────────────────────────────────
     socket.on('go:send-chat', async (data: any) => {
       try {
@@ -1152,9 +1607,10 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
         if (game.gameStatus === 'waiting') {
           game.players = game.players.filter(p => p.slot !== slot) as any;
           if (playerId) activePlayerSockets.delete(`${roomId}:${playerId}`);
-          if (game.players.length === 0) {
+          if (game.players.every(p => p.isBot)) {
             await GoGame.deleteOne({ roomId });
             cleanupRoomTimers(roomId);
+            clearSpectators(io, `go:${roomId}`);
           } else {
             // Transfer host if needed
             if (game.hostPlayerId === playerId && game.players.length > 0) {
@@ -1179,11 +1635,11 @@ export function setupGoSocketHandlers(io: SocketIOServer): void {
 
         player.isConnected = false;
         player.disconnectedAt = new Date();
+        // Pause the clock (and the bot, so it doesn't start the absent player's clock)
+        pauseGoClock(game);
+        clearBotTimer(roomId);
         await game.save();
 
-        // Pause move timer
-        clearMoveTimer(roomId);
-
         io.to(`go:${roomId}`).emit('go:player-disconnected', {
           slot,
           playerId,
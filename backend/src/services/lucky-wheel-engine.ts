@@ -0,0 +1,123 @@
+/**
+ * Lucky Wheel Engine
+ * Provably fair spins: the server commits to sha256(serverSeed) before a spin,
+ * derives the result from HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`),
+ * then reveals serverSeed so anyone can recompute the outcome.
+ */
+import crypto from 'crypto';
+import { LuckyWheelItem, LuckyWheelRoom, LuckyWheelSpinReveal } from '../types/lucky-wheel.types';
+
+export const MIN_WHEEL_ITEMS = 2;
+export const MAX_WHEEL_ITEMS = 12;
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
+// ─── Item Validation ───────────────────────────────────────────
+
+/** Validate wheel items, returns an error code or null when valid */
+export function validateWheelItems(items: unknown): string | null {
+  if (!Array.isArray(items) || items.length < MIN_WHEEL_ITEMS || items.length > MAX_WHEEL_ITEMS) {
+    return 'invalidItemCount';
+  }
+  for (const item of items) {
+    if (!item || typeof item.label !== 'string' || item.label.trim().length === 0 || item.label.length > 100) {
+      return 'invalidItemLabel';
+    }
+    if (typeof item.weight !== 'number' || !Number.isFinite(item.weight) || item.weight < 0 || item.weight > 100) {
+      return 'invalidItemWeight';
+    }
+  }
+  if (items.every((item: LuckyWheelItem) => item.weight === 0)) return 'invalidItemWeight';
+  return null;
+}
+
+/** Copy only label/weight so stored items never carry extra client fields */
+export function sanitizeWheelItems(items: LuckyWheelItem[]): LuckyWheelItem[] {
+  return items.map(item => ({ label: item.label.trim(), weight: item.weight }));
+}
+
+// ─── Seeds ─────────────────────────────────────────────────────
+
+export function sha256Hex(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/** Fresh secret seed plus the commitment published to viewers */
+export function createServerSeed(): { serverSeed: string; commitment: string } {
+  const serverSeed = crypto.randomBytes(32).toString('hex');
+  return { serverSeed, commitment: sha256Hex(serverSeed) };
+}
+
+export function createClientSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+export function computeSpinHash(serverSeed: string, clientSeed: string, nonce: number): string {
+  return crypto.createHmac('sha256', serverSeed).update(`${clientSeed}:${nonce}`).digest('hex');
+}
+
+/** Read 52 bits of the hash (13 hex chars) starting at `part` as a float in [0, 1) */
+export function hashToFloat(hash: string, part: number): number {
+  const slice = hash.slice(part * 13, part * 13 + 13);
+  return parseInt(slice, 16) / Math.pow(2, 52);
+}
+
+// ─── Spin Resolution ───────────────────────────────────────────
+
+/** Map a uniform float onto the items by weight */
+export function pickWeightedIndex(items: LuckyWheelItem[], r: number): number {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  const target = r * totalWeight;
+  let sum = 0;
+  for (let i = 0; i < items.length; i++) {
+    sum += items[i].weight;
+    if (target < sum) return i;
+  }
+  // Float rounding at the very top end: last item with weight
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (items[i].weight > 0) return i;
+  }
+  return 0;
+}
+
+/**
+ * Resolve the next spin for a room using its committed seed.
+ * Hash part 0 picks the item, part 1 the number of turns, part 2 the landing offset.
+ */
+export function resolveSpin(room: LuckyWheelRoom): LuckyWheelSpinReveal {
+  const hash = computeSpinHash(room.serverSeed, room.clientSeed, room.nonce);
+  const index = pickWeightedIndex(room.items, hashToFloat(hash, 0));
+  const spins = 12 + Math.floor(hashToFloat(hash, 1) * 10);
+  const offset = hashToFloat(hash, 2);
+  const durationMs = Math.round(Math.max(4.0, 3.2 + spins * 0.55) * 1000);
+
+  return {
+    nonce: room.nonce,
+    serverSeed: room.serverSeed,
+    commitment: room.commitment,
+    clientSeed: room.clientSeed,
+    hash,
+    items: room.items.map(item => ({ ...item })),
+    index,
+    label: room.items[index].label,
+    spins,
+    offset,
+    durationMs,
+    spunAt: new Date(),
+  };
+}
+
+// ─── Room Code Generator ───────────────────────────────────────
+
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // exclude I,O,0,1
+
+/** Generate a 6-char room code not present in `existing` */
+export function generateWheelRoomCode(existing: { has(code: string): boolean }): string {
+  let code = '';
+  do {
+    code = '';
+    for (let i = 0; i < 6; i++) {
+      code += ROOM_CODE_CHARS[crypto.randomInt(0, ROOM_CODE_CHARS.length)];
+    }
+  } while (existing.has(code));
+  return code;
+}
@@ -0,0 +1,355 @@
+/**
+ * Lucky Wheel — Shared Room Socket Handlers
+ * Host creates a room from their wheel items, viewers join by code.
+ * The server resolves every spin (commit–reveal) and broadcasts the same
+ * outcome to all members so their wheels animate to the same segment.
+ */
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { LuckyWheelRoom, LuckyWheelMember, LuckyWheelSpinReveal } from '../types/lucky-wheel.types';
+import {
+  validateWheelItems,
+  sanitizeWheelItems,
+  createServerSeed,
+  createClientSeed,
+  resolveSpin,
+  generateWheelRoomCode,
+  MAX_CLIENT_SEED_LENGTH,
+} from './lucky-wheel-engine';
+
+// ─── In-memory State ───────────────────────────────────────────
+
+const rooms = new Map<string, LuckyWheelRoom>();
+const spinTimers = new Map<string, NodeJS.Timeout>();
+
+const MAX_MEMBERS = 50;
+const RATE_LIMIT_MS = 500;
+const socketLastAction = new Map<string, number>();
+
+function isRateLimited(socketId: string): boolean {
+  const now = Date.now();
+  const last = socketLastAction.get(socketId) || 0;
+  if (now - last < RATE_LIMIT_MS) return true;
+  socketLastAction.set(socketId, now);
+  return false;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────
+
+function channel(roomCode: string): string {
+  return `lucky-wheel:${roomCode}`;
+}
+
+function getPlayerId(socket: Socket, guestId?: string): string | null {
+  return socket.data.userId || guestId || null;
+}
+
+function sanitizeName(name: unknown, fallback: string): string {
+  return typeof name === 'string' && name.trim() ? name.trim().slice(0, 50) : fallback;
+}
+
+function buildMembersInfo(room: LuckyWheelRoom) {
+  return room.members.map(m => ({ playerId: m.playerId, name: m.name, isHost: m.isHost }));
+}
+
+/** Public room view — never includes the unrevealed server seed */
+function buildRoomInfo(room: LuckyWheelRoom) {
+  return {
+    roomCode: room.roomCode,
+    hostPlayerId: room.hostPlayerId,
+    items: room.items,
+    members: buildMembersInfo(room),
+    commitment: room.commitment,
+    clientSeed: room.clientSeed,
+    nonce: room.nonce,
+    isSpinning: room.isSpinning,
+    lastSpin: room.lastSpin,
+  };
+}
+
+function getMemberRoom(socket: Socket): { room: LuckyWheelRoom; member: LuckyWheelMember } | null {
+  const roomCode = socket.data.luckyWheelRoomCode as string | undefined;
+  if (!roomCode) return null;
+  const room = rooms.get(roomCode);
+  if (!room) return null;
+  const member = room.members.find(m => m.socketId === socket.id);
+  return member ? { room, member } : null;
+}
+
+function deleteRoom(roomCode: string): void {
+  const timer = spinTimers.get(roomCode);
+  if (timer) { clearTimeout(timer); spinTimers.delete(roomCode); }
+  rooms.delete(roomCode);
+}
+
+/** Remove a socket from its room; promotes the next member if the host left */
+function removeMember(io: SocketIOServer, socket: Socket): void {
+  const found = getMemberRoom(socket);
+  socket.data.luckyWheelRoomCode = undefined;
+  if (!found) return;
+  const { room, member } = found;
+
+  socket.leave(channel(room.roomCode));
+  room.members = room.members.filter(m => m.socketId !== socket.id);
+
+  if (room.members.length === 0) {
+    deleteRoom(room.roomCode);
+    return;
+  }
+
+  if (member.isHost) {
+    const nextHost = room.members[0];
+    nextHost.isHost = true;
+    room.hostPlayerId = nextHost.playerId;
+  }
+
+  io.to(channel(room.roomCode)).emit('lucky-wheel:members-updated', {
+    members: buildMembersInfo(room),
+    hostPlayerId: room.hostPlayerId,
+  });
+}
+
+// ─── Main Setup ────────────────────────────────────────────────
+
+export function setupLuckyWheelSocketHandlers(io: SocketIOServer): void {
+  io.on('connection', (socket: Socket) => {
+
+    // ── lucky-wheel:create-room ─────────────────────────────────
+    socket.on('lucky-wheel:create-room', (data: any, callback?: Function) => {
+      try {
+        const { items, guestId, name } = data || {};
+        const playerId = getPlayerId(socket, guestId);
+        if (!playerId) {
+          if (callback) callback({ success: false, error: 'noPlayerId' });
+          return;
+        }
+
+        const itemsError = validateWheelItems(items);
+        if (itemsError) {
+          if (callback) callback({ success: false, error: itemsError });
+          return;
+        }
+
+        // One room per socket
+        removeMember(io, socket);
+
+        const roomCode = generateWheelRoomCode(rooms);
+        const { serverSeed, commitment } = createServerSeed();
+        const room: LuckyWheelRoom = {
+          roomCode,
+          hostPlayerId: playerId,
+          items: sanitizeWheelItems(items),
+          members: [{
+            socketId: socket.id,
+            playerId,
+            name: sanitizeName(name, socket.data.username || 'Host'),
+            isHost: true,
+          }],
+          serverSeed,
+          commitment,
+          clientSeed: createClientSeed(),
+          nonce: 0,
+          isSpinning: false,
+          lastSpin: null,
+          createdAt: new Date(),
+        };
+        rooms.set(roomCode, room);
+
+        socket.join(channel(roomCode));
+        socket.data.luckyWheelRoomCode = roomCode;
+
+        if (callback) callback({ success: true, room: buildRoomInfo(room) });
+      } catch (error) {
+        console.error('[LuckyWheel] Create room error:', error);
+        if (callback) callback({ success: false, error: 'failedToCreate' });
+      }
+    });
+
+    // ── lucky-wheel:join-room ───────────────────────────────────
+    socket.on('lucky-wheel:join-room', (data: any, callback?: Function) => {
+      try {
+        const { roomCode, guestId, name } = data || {};
+        const playerId = getPlayerId(socket, guestId);
+        if (!playerId) {
+          if (callback) callback({ success: false, error: 'noPlayerId' });
+          return;
+        }
+
+        const code = typeof roomCode === 'string' ? roomCode.trim().toUpperCase() : '';
+        const room = rooms.get(code);
+        if (!room) {
+          if (callback) callback({ success: false, error: 'roomNotFound' });
+          return;
+        }
+
+        if (socket.data.luckyWheelRoomCode !== code) {
+          if (room.members.length >= MAX_MEMBERS) {
+            if (callback) callback({ success: false, error: 'roomFull' });
+            return;
+          }
+          removeMember(io, socket);
+          room.members.push({
+            socketId: socket.id,
+            playerId,
+            name: sanitizeName(name, socket.data.username || 'Guest'),
+            isHost: false,
+          });
+          socket.join(channel(code));
+          socket.data.luckyWheelRoomCode = code;
+
+          socket.to(channel(code)).emit('lucky-wheel:members-updated', {
+            members: buildMembersInfo(room),
+            hostPlayerId: room.hostPlayerId,
+          });
+        }
+
+        if (callback) callback({ success: true, room: buildRoomInfo(room) });
+      } catch (error) {
+        console.error('[LuckyWheel] Join room error:', error);
+        if (callback) callback({ success: false, error: 'failedToJoin' });
+      }
+    });
+
+    // ── lucky-wheel:leave-room ──────────────────────────────────
+    socket.on('lucky-wheel:leave-room', (_data: any, callback?: Function) => {
+      try {
+        removeMember(io, socket);
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[LuckyWheel] Leave room error:', error);
+        if (callback) callback({ success: false, error: 'failedToLeave' });
+      }
+    });
+
+    // ── lucky-wheel:update-items (host only, between spins) ─────
+    socket.on('lucky-wheel:update-items', (data: any, callback?: Function) => {
+      try {
+        const found = getMemberRoom(socket);
+        if (!found) {
+          if (callback) callback({ success: false, error: 'notInRoom' });
+          return;
+        }
+        const { room, member } = found;
+        if (!member.isHost) {
+          if (callback) callback({ success: false, error: 'notHost' });
+          return;
+        }
+        if (room.isSpinning) {
+          if (callback) callback({ success: false, error: 'spinInProgress' });
+          return;
+        }
+
+        const itemsError = validateWheelItems(data?.items);
+        if (itemsError) {
+          if (callback) callback({ success: false, error: itemsError });
+          return;
+        }
+
+        room.items = sanitizeWheelItems(data.items);
+        io.to(channel(room.roomCode)).emit('lucky-wheel:items-updated', { items: room.items });
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[LuckyWheel] Update items error:', error);
+        if (callback) callback({ success: false, error: 'failedToUpdate' });
+      }
+    });
+
+    // ── lucky-wheel:set-client-seed (any member, between spins) ──
+    socket.on('lucky-wheel:set-client-seed', (data: any, callback?: Function) => {
+      try {
+        if (isRateLimited(socket.id)) {
+          if (callback) callback({ success: false, error: 'rateLimited' });
+          return;
+        }
+        const found = getMemberRoom(socket);
+        if (!found) {
+          if (callback) callback({ success: false, error: 'notInRoom' });
+          return;
+        }
+        const { room, member } = found;
+        if (room.isSpinning) {
+          if (callback) callback({ success: false, error: 'spinInProgress' });
+          return;
+        }
+
+        const clientSeed = typeof data?.clientSeed === 'string' ? data.clientSeed.trim() : '';
+        if (!clientSeed || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+          if (callback) callback({ success: false, error: 'invalidClientSeed' });
+          return;
+        }
+
+        room.clientSeed = clientSeed;
+        io.to(channel(room.roomCode)).emit('lucky-wheel:seed-updated', {
+          clientSeed,
+          setBy: member.name,
+        });
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[LuckyWheel] Set client seed error:', error);
+        if (callback) callback({ success: false, error: 'failedToSetSeed' });
+      }
+    });
+
+    // ── lucky-wheel:spin (host only) ────────────────────────────
+    socket.on('lucky-wheel:spin', (_data: any, callback?: Function) => {
+      try {
+        if (isRateLimited(socket.id)) {
+          if (callback) callback({ success: false, error: 'rateLimited' });
+          return;
+        }
+        const found = getMemberRoom(socket);
+        if (!found) {
+          if (callback) callback({ success: false, error: 'notInRoom' });
+          return;
+        }
+        const { room, member } = found;
+        if (!member.isHost) {
+          if (callback) callback({ success: false, error: 'notHost' });
+          return;
+        }
+        if (room.isSpinning) {
+          if (callback) callback({ success: false, error: 'spinInProgress' });
+          return;
+        }
+
+        const reveal: LuckyWheelSpinReveal = resolveSpin(room);
+
+        // Rotate to a fresh committed seed for the next spin
+        const next = createServerSeed();
+        room.serverSeed = next.serverSeed;
+        room.commitment = next.commitment;
+        room.nonce += 1;
+        room.lastSpin = reveal;
+        room.isSpinning = true;
+
+        io.to(channel(room.roomCode)).emit('lucky-wheel:spin-result', {
+          spin: reveal,
+          nextCommitment: room.commitment,
+          nextNonce: room.nonce,
+        });
+
+        // Lock the room until every client has finished animating
+        const roomCode = room.roomCode;
+        spinTimers.set(roomCode, setTimeout(() => {
+          spinTimers.delete(roomCode);
+          const current = rooms.get(roomCode);
+          if (current) current.isSpinning = false;
+        }, reveal.durationMs));
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[LuckyWheel] Spin error:', error);
+        if (callback) callback({ success: false, error: 'failedToSpin' });
+      }
+    });
+
+    // ── disconnect ──────────────────────────────────────────────
+    socket.on('disconnect', () => {
+      socketLastAction.delete(socket.id);
+      try {
+        removeMember(io, socket);
+      } catch (error) {
+        console.error('[LuckyWheel] Disconnect error:', error);
+      }
+    });
+  });
+}
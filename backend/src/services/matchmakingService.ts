@@ -0,0 +1,386 @@
+/**
+ * Matchmaking Service - quick-match queue for Caro and Go.
+ * Players enqueue with their preferences; anyone with identical preferences and a close
+ * enough rating is paired and both are seated in a freshly created room. The rating
+ * window widens the longer a player waits. The queue lives in memory only.
+ */
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import Game from '../models/Game';
+import GoGame from '../models/GoGame';
+import GameStats from '../models/GameStats';
+import { generateRoomCode, initializeBoard } from './gameEngine';
+import { generateGoRoomCode } from './go-engine';
+import { initialGoClockFields } from './go-clock';
+import { DEFAULT_RATING } from './ratingService';
+import {
+  MatchmakingGameType,
+  MatchmakingEntry,
+  MatchmakingStatus,
+  MatchmakingMatched,
+  MatchPreferences,
+  CaroMatchPreferences,
+  GoMatchPreferences,
+} from '../types/matchmaking.types';
+import { GoRuleset, GoTimeSystem, IGoSettings } from '../types/go.types';
+
+const CARO_BOARD_SIZES = [3, 15, 20, 25];
+const GO_BOARD_SIZES = [9, 13, 19] as const;
+const GO_RULESETS: GoRuleset[] = ['chinese', 'japanese', 'korean', 'aga'];
+const GO_TIME_SYSTEMS: GoTimeSystem[] = ['byoyomi', 'canadian', 'fischer'];
+
+const TICK_MS = 2000;
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH_PER_SEC = 10;
+const MAX_RATING_WINDOW = 1000;
+const UNLIMITED_WINDOW_AFTER_MS = 60 * 1000; // after a minute, take anyone with the same preferences
+const WAIT_SAMPLES = 20;                      // recent waits used for the estimate
+
+const queue = new Map<string, MatchmakingEntry>();    // playerId → entry
+const recentWaits = new Map<string, number[]>();      // `${gameType}:${rated}` → wait times (ms)
+let ticker: NodeJS.Timeout | null = null;
+let matching = false;
+
+// ─── Preferences ─────────────────────────────────────────────
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(n)));
+};
+
+/** Normalize client preferences, or null if they can't describe a valid room */
+function normalizePreferences(gameType: MatchmakingGameType, prefs: any): MatchPreferences | null {
+  const p = prefs || {};
+
+  if (gameType === 'caro') {
+    const boardSize = Number(p.boardSize ?? 15);
+    if (!CARO_BOARD_SIZES.includes(boardSize)) return null;
+    const caro: CaroMatchPreferences = {
+      boardSize,
+      blockTwoEnds: !!p.blockTwoEnds,
+      timeLimit: p.timeLimit ? clampInt(p.timeLimit, 5, 600, 30) : null,
+      gameTimeLimit: p.gameTimeLimit ? clampInt(p.gameTimeLimit, 60, 3600, 600) : null,
+      timeIncrement: clampInt(p.timeIncrement, 0, 60, 0),
+    };
+    return caro;
+  }
+
+  const boardSize = Number(p.boardSize ?? 19);
+  if (!GO_BOARD_SIZES.includes(boardSize as GoMatchPreferences['boardSize'])) return null;
+  const go: GoMatchPreferences = {
+    boardSize: boardSize as GoMatchPreferences['boardSize'],
+    mainTime: clampInt(p.mainTime, 0, 3600, 0),
+    byoyomiPeriods: clampInt(p.byoyomiPeriods, 0, 10, 3),
+    byoyomiTime: clampInt(p.byoyomiTime, 5, 300, 30), // GoGame schema requires at least 5s
+    ruleset: GO_RULESETS.includes(p.ruleset) ? p.ruleset : 'chinese',
+    timeSystem: GO_TIME_SYSTEMS.includes(p.timeSystem) ? p.timeSystem : 'byoyomi',
+    canadianStones: clampInt(p.canadianStones, 1, 100, 25),
+    canadianTime: clampInt(p.canadianTime, 30, 3600, 600),
+    fischerIncrement: clampInt(p.fischerIncrement, 0, 300, 10),
+  };
+  return go;
+}
+
+const buildPoolKey = (gameType: MatchmakingGameType, rated: boolean, prefs: MatchPreferences): string =>
+  `${gameType}:${rated ? 'rated' : 'casual'}:${JSON.stringify(prefs)}`;
+
+// ─── Rating Window & Wait Estimate ───────────────────────────
+
+/** Max rating gap this entry accepts right now (null = unlimited) */
+function ratingWindow(entry: MatchmakingEntry, now: number): number | null {
+  const waited = now - entry.enqueuedAt;
+  if (waited >= UNLIMITED_WINDOW_AFTER_MS) return null;
+  return Math.min(MAX_RATING_WINDOW, BASE_RATING_WINDOW + Math.floor(waited / 1000) * RATING_WINDOW_GROWTH_PER_SEC);
+}
+
+function canPair(a: MatchmakingEntry, b: MatchmakingEntry, now: number): boolean {
+  if (a.poolKey !== b.poolKey || a.playerId === b.playerId) return false;
+  const windowA = ratingWindow(a, now);
+  const windowB = ratingWindow(b, now);
+  const gap = Math.abs(a.rating - b.rating);
+  return (windowA === null || gap <= windowA) && (windowB === null || gap <= windowB);
+}
+
+const waitKey = (gameType: MatchmakingGameType, rated: boolean): string => `${gameType}:${rated}`;
+
+function recordWait(entry: MatchmakingEntry, now: number): void {
+  const key = waitKey(entry.gameType, entry.rated);
+  const samples = recentWaits.get(key) || [];
+  samples.push(now - entry.enqueuedAt);
+  if (samples.length > WAIT_SAMPLES) samples.shift();
+  recentWaits.set(key, samples);
+}
+
+function estimateWait(entry: MatchmakingEntry): number | null {
+  const samples = recentWaits.get(waitKey(entry.gameType, entry.rated));
+  if (!samples || samples.length === 0) return null;
+  return Math.round(samples.reduce((sum, ms) => sum + ms, 0) / samples.length);
+}
+
+function buildStatus(entry: MatchmakingEntry, now: number): MatchmakingStatus {
+  let queueSize = 0;
+  for (const other of queue.values()) {
+    if (other.poolKey === entry.poolKey) queueSize++;
+  }
+  return {
+    gameType: entry.gameType,
+    rated: entry.rated,
+    rating: entry.rating,
+    waitedMs: now - entry.enqueuedAt,
+    estimatedWaitMs: estimateWait(entry),
+    ratingWindow: ratingWindow(entry, now),
+    queueSize,
+  };
+}
+
+// ─── Room Creation ───────────────────────────────────────────
+
+/** Create a room with both players seated; `host` takes player 1 / black */
+async function createMatchRoom(
+  host: MatchmakingEntry,
+  guest: MatchmakingEntry,
+): Promise<{ roomId: string; roomCode: string }> {
+  const roomId = uuidv4();
+
+  if (host.gameType === 'caro') {
+    const prefs = host.preferences as CaroMatchPreferences;
+    const roomCode = await generateRoomCode();
+    await new Game({
+      roomId,
+      roomCode,
+      gameType: 'caro',
+      player1: host.userId || null,
+      player1GuestId: host.guestId,
+      player1GuestName: host.userId ? null : host.name,
+      player2: guest.userId || null,
+      player2GuestId: guest.guestId,
+      player2GuestName: guest.userId ? null : guest.name,
+      isRated: host.rated,
+      boardSize: prefs.boardSize,
+      board: initializeBoard(prefs.boardSize),
+      rules: {
+        blockTwoEnds: prefs.blockTwoEnds,
+        allowUndo: !host.rated, // no take-backs in rated games
+        maxUndoPerGame: 3,
+        timeLimit: prefs.timeLimit,
+        gameTimeLimit: prefs.gameTimeLimit,
+        timeIncrement: prefs.timeIncrement,
+      },
+      gameStatus: 'waiting',
+    }).save();
+    return { roomId, roomCode };
+  }
+
+  const prefs = host.preferences as GoMatchPreferences;
+  const roomCode = await generateGoRoomCode();
+  const settings: IGoSettings = {
+    boardSize: prefs.boardSize,
+    komi: 6.5,
+    ruleset: prefs.ruleset,
+    handicap: 0,
+    mainTime: prefs.mainTime,
+    byoyomiPeriods: prefs.byoyomiPeriods,
+    byoyomiTime: prefs.byoyomiTime,
+    timeSystem: prefs.timeSystem,
+    canadianStones: prefs.canadianStones,
+    canadianTime: prefs.canadianTime,
+    fischerIncrement: prefs.fischerIncrement,
+    botLevel: null,
+  };
+  const seat = (entry: MatchmakingEntry, slot: 1 | 2) => ({
+    slot,
+    userId: entry.userId || undefined,
+    guestId: entry.userId ? undefined : entry.guestId,
+    guestName: entry.userId ? undefined : entry.name,
+    color: slot === 1 ? 'black' : 'white',
+    captures: 0,
+    ...initialGoClockFields(settings),
+    passed: false,
+    scoringAgreed: false,
+    isConnected: true,
+  });
+  await new GoGame({
+    roomId,
+    roomCode,
+    gameType: 'go',
+    hostPlayerId: host.playerId,
+    isRated: host.rated,
+    settings,
+    players: [seat(host, 1), seat(guest, 2)],
+    gameStatus: 'waiting',
+  }).save();
+  return { roomId, roomCode };
+}
+
+async function startMatch(io: SocketIOServer, a: MatchmakingEntry, b: MatchmakingEntry): Promise<void> {
+  // Colors are random: whoever lands in slot 1 hosts (and moves first in Go)
+  const [host, guest] = Math.random() < 0.5 ? [a, b] : [b, a];
+
+  try {
+    const { roomId, roomCode } = await createMatchRoom(host, guest);
+    const now = Date.now();
+    recordWait(a, now);
+    recordWait(b, now);
+
+    for (const [me, opponent] of [[host, guest], [guest, host]]) {
+      const payload: MatchmakingMatched = {
+        gameType: me.gameType,
+        roomId,
+        roomCode,
+        rated: me.rated,
+        opponent: { name: opponent.name, rating: opponent.rating, isGuest: !opponent.userId },
+      };
+      io.to(me.socketId).emit('matchmaking:matched', payload);
+    }
+  } catch (err: any) {
+    console.error('[matchmaking] Failed to create room:', err.message);
+    // Put both back (keeping their place) unless they left meanwhile
+    for (const entry of [a, b]) {
+      if (!queue.has(entry.playerId) && io.sockets.sockets.has(entry.socketId)) {
+        queue.set(entry.playerId, entry);
+      }
+    }
+  }
+}
+
+// ─── Queue Processing ────────────────────────────────────────
+
+/** Pair everyone who can be paired, longest waiting first, closest rating first */
+async function runMatching(io: SocketIOServer): Promise<void> {
+  if (matching) return;
+  matching = true;
+  try {
+    const now = Date.now();
+    const waiting = [...queue.values()].sort((x, y) => x.enqueuedAt - y.enqueuedAt);
+    const paired = new Set<string>();
+    const matches: [MatchmakingEntry, MatchmakingEntry][] = [];
+
+    for (const entry of waiting) {
+      if (paired.has(entry.playerId)) continue;
+      let best: MatchmakingEntry | null = null;
+      for (const other of waiting) {
+        if (paired.has(other.playerId) || !canPair(entry, other, now)) continue;
+        if (!best || Math.abs(other.rating - entry.rating) < Math.abs(best.rating - entry.rating)) {
+          best = other;
+        }
+      }
+      if (best) {
+        paired.add(entry.playerId);
+        paired.add(best.playerId);
+        matches.push([entry, best]);
+      }
+    }
+
+    // Leave the queue before the async room creation so a tick can't pair them twice
+    for (const [a, b] of matches) {
+      queue.delete(a.playerId);
+      queue.delete(b.playerId);
+    }
+    await Promise.all(matches.map(([a, b]) => startMatch(io, a, b)));
+  } finally {
+    matching = false;
+  }
+}
+
+function broadcastStatus(io: SocketIOServer): void {
+  const now = Date.now();
+  for (const entry of queue.values()) {
+    io.to(entry.socketId).emit('matchmaking:status', buildStatus(entry, now));
+  }
+}
+
+function ensureTicker(io: SocketIOServer): void {
+  if (ticker) return;
+  ticker = setInterval(async () => {
+    if (queue.size === 0) {
+      if (ticker) clearInterval(ticker);
+      ticker = null;
+      return;
+    }
+    await runMatching(io);
+    broadcastStatus(io);
+  }, TICK_MS);
+}
+
+function removeSocketEntries(socketId: string): void {
+  for (const [playerId, entry] of queue) {
+    if (entry.socketId === socketId) queue.delete(playerId);
+  }
+}
+
+// ─── Socket Handlers ─────────────────────────────────────────
+
+export function setupMatchmakingSocketHandlers(io: SocketIOServer): void {
+  io.on('connection', (socket: Socket) => {
+
+    socket.on('matchmaking:join', async (data: any, callback?: Function) => {
+      const cb = typeof callback === 'function' ? callback : () => {};
+      try {
+        const { gameType, preferences, rated, guestId, guestName } = data || {};
+        if (gameType !== 'caro' && gameType !== 'go') {
+          return cb({ success: false, error: 'MATCHMAKING_INVALID_GAME' });
+        }
+
+        const userId: string | null = socket.data.userId || null;
+        const effectiveGuestId: string | null = userId ? null : (guestId || socket.data.guestId || null);
+        const playerId = userId || effectiveGuestId;
+        if (!playerId) return cb({ success: false, error: 'MATCHMAKING_NO_PLAYER_ID' });
+
+        // Ratings belong to accounts, so guests can only queue for casual games
+        const isRated = rated !== false;
+        if (isRated && !userId) return cb({ success: false, error: 'MATCHMAKING_RATED_REQUIRES_LOGIN' });
+
+        const normalized = normalizePreferences(gameType, preferences);
+        if (!normalized) return cb({ success: false, error: 'MATCHMAKING_INVALID_PREFERENCES' });
+
+        let rating = DEFAULT_RATING;
+        if (userId) {
+          const stats = await GameStats.findOne({ userId, gameId: gameType }).select('rating').lean();
+          if (stats?.rating) rating = stats.rating;
+        }
+
+        // Queueing again (another tab, or new preferences) replaces the previous entry
+        const previous = queue.get(playerId);
+        if (previous && previous.socketId !== socket.id) {
+          io.to(previous.socketId).emit('matchmaking:cancelled', { reason: 'replaced' });
+        }
+
+        const entry: MatchmakingEntry = {
+          playerId,
+          socketId: socket.id,
+          userId,
+          guestId: effectiveGuestId,
+          name: userId
+            ? (socket.data.username || 'Player')
+            : (typeof guestName === 'string' && guestName.trim() ? guestName.trim().slice(0, 20) : `Guest ${playerId.slice(-6)}`),
+          gameType,
+          preferences: normalized,
+          poolKey: buildPoolKey(gameType, isRated, normalized),
+          rated: isRated,
+          rating,
+          enqueuedAt: Date.now(),
+        };
+        queue.set(playerId, entry);
+        if (!userId && effectiveGuestId) socket.data.guestId = effectiveGuestId;
+
+        cb({ success: true, status: buildStatus(entry, entry.enqueuedAt) });
+
+        await runMatching(io);
+        if (queue.has(playerId)) ensureTicker(io);
+      } catch (err: any) {
+        console.error('[matchmaking:join] Error:', err.message);
+        cb({ success: false, error: 'MATCHMAKING_JOIN_FAILED' });
+      }
+    });
+
+    socket.on('matchmaking:cancel', (_data: unknown, callback?: Function) => {
+      removeSocketEntries(socket.id);
+      if (typeof callback === 'function') callback({ success: true });
+    });
+
+    socket.on('disconnect', () => {
+      removeSocketEntries(socket.id);
+    });
+  });
+}
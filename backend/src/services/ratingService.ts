@@ -0,0 +1,316 @@
+/**
+ * Rating Service
+ * Glicko-2 skill ratings per gameId, updated server-side when a rated game finishes.
+ *
+ * - Caro / Go: head-to-head between two registered players (bot, guest, review and
+ *   unrated quick-match games are skipped)
+ * - Word Chain / Tinh Tuy: every registered player is compared pairwise with every other by final
+ *   placement; pairwise results are weighted 1/(n-1) so one multi-player game moves a rating
+ *   about as much as one duel.
+ *
+ * Each finished game is treated as its own Glicko-2 rating period. Deviation also grows with
+ * inactivity (one period per RATING_PERIOD_DAYS) so returning players move faster.
+ */
+import mongoose from 'mongoose';
+import GameStats, { IGameStats } from '../models/GameStats';
+import RatingHistory from '../models/RatingHistory';
+import { IGame } from '../models/Game';
+import { IGoGame } from '../types/go.types';
+import { IWordChainGame } from '../types/word-chain.types';
+import { ITinhTuyGame } from '../types/tinh-tuy.types';
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+const GLICKO_SCALE = 173.7178;
+const TAU = 0.5; // Constrains volatility change
+const CONVERGENCE_TOLERANCE = 0.000001;
+const MIN_DEVIATION = 30; // Keep established ratings responsive
+const RATING_PERIOD_DAYS = 7;
+
+export interface RatedPlacement {
+  userId: mongoose.Types.ObjectId;
+  place: number; // 1 = first; equal places are ties
+}
+
+export interface RatingChange {
+  userId: string;
+  rating: number;
+  ratingDeviation: number;
+  change: number;
+}
+
+interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+interface GlickoResult {
+  opponent: GlickoRating;
+  score: number;
+}
+
+// ─── Glicko-2 ────────────────────────────────────────────────
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, muJ: number, phiJ: number): number =>
+  1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+
+/** New volatility (step 5 of the Glicko-2 paper, Illinois algorithm) */
+function computeVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  for (let i = 0; i < 100 && Math.abs(B - A) > CONVERGENCE_TOLERANCE; i++) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Rate one player against a set of results from a single rating period.
+ * `weight` scales every result (used for pairwise multi-player placement).
+ */
+export function computeGlicko2(player: GlickoRating, results: GlickoResult[], weight = 1): GlickoRating {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE;
+  const phi = player.deviation / GLICKO_SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+    return { ...player, deviation: Math.min(phiStar * GLICKO_SCALE, DEFAULT_DEVIATION) };
+  }
+
+  let vInv = 0;
+  let deltaSum = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE;
+    const phiJ = opponent.deviation / GLICKO_SCALE;
+    const e = expectedScore(mu, muJ, phiJ);
+    const gJ = g(phiJ);
+    vInv += weight * gJ * gJ * e * (1 - e);
+    deltaSum += weight * gJ * (score - e);
+  }
+
+  const v = 1 / vInv;
+  const delta = v * deltaSum;
+  const newSigma = computeVolatility(phi, sigma, v, delta);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * deltaSum;
+
+  return {
+    rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+    deviation: Math.min(Math.max(newPhi * GLICKO_SCALE, MIN_DEVIATION), DEFAULT_DEVIATION),
+    volatility: newSigma,
+  };
+}
+
+/** Deviation after `lastRatedAt`'s idle time (Glicko-2 step 6 applied once per idle period) */
+function inflateDeviation(stats: IGameStats, now: Date): number {
+  if (!stats.lastRatedAt) return stats.ratingDeviation;
+  const idlePeriods = Math.floor((now.getTime() - stats.lastRatedAt.getTime()) / (RATING_PERIOD_DAYS * 86400000));
+  if (idlePeriods <= 0) return stats.ratingDeviation;
+
+  const phi = stats.ratingDeviation / GLICKO_SCALE;
+  const sigma = stats.ratingVolatility;
+  const inflated = Math.sqrt(phi * phi + idlePeriods * sigma * sigma) * GLICKO_SCALE;
+  return Math.min(inflated, DEFAULT_DEVIATION);
+}
+
+// ─── Persistence ─────────────────────────────────────────────
+
+/**
+ * Apply a finished game's placements to every player's rating.
+ * Safe to call more than once for the same matchKey — only the first call rates the game.
+ */
+export async function recordRatedMatch(
+  gameId: string,
+  matchKey: string,
+  placements: RatedPlacement[]
+): Promise<RatingChange[]> {
+  // One entry per user (a user can't sit in two seats, but be defensive)
+  const unique = new Map<string, RatedPlacement>();
+  for (const p of placements) unique.set(p.userId.toString(), p);
+  const entries = [...unique.values()];
+  if (entries.length < 2) return [];
+
+  try {
+    if (await RatingHistory.exists({ gameId, matchKey })) return [];
+
+    const now = new Date();
+    const statsList = await Promise.all(entries.map(async (entry) => {
+      const existing = await GameStats.findOne({ userId: entry.userId, gameId });
+      return existing || new GameStats({ userId: entry.userId, gameId });
+    }));
+
+    // Everyone is rated against the pre-game ratings of the others
+    const before: GlickoRating[] = statsList.map(stats => ({
+      rating: stats.rating,
+      deviation: inflateDeviation(stats, now),
+      volatility: stats.ratingVolatility,
+    }));
+    const weight = 1 / (entries.length - 1);
+
+    const after = entries.map((entry, i) => {
+      const results = entries
+        .map((other, j) => ({ other, j }))
+        .filter(({ j }) => j !== i)
+        .map(({ other, j }) => ({
+          opponent: before[j],
+          score: entry.place < other.place ? 1 : entry.place > other.place ? 0 : 0.5,
+        }));
+      return { results, rating: computeGlicko2(before[i], results, weight) };
+    });
+
+    // Claim the match first so a concurrent call for the same game can't double-rate it
+    try {
+      await RatingHistory.insertMany(entries.map((entry, i) => ({
+        userId: entry.userId,
+        gameId,
+        matchKey,
+        ratingBefore: Math.round(before[i].rating),
+        ratingAfter: Math.round(after[i].rating.rating),
+        deviationBefore: Math.round(before[i].deviation),
+        deviationAfter: Math.round(after[i].rating.deviation),
+        change: Math.round(after[i].rating.rating) - Math.round(before[i].rating),
+        place: entry.place,
+        playerCount: entries.length,
+        opponents: after[i].results.map((r, k) => ({
+          userId: entries.filter((_, j) => j !== i)[k].userId,
+          rating: Math.round(r.opponent.rating),
+          score: r.score,
+        })),
+        createdAt: now,
+      })), { ordered: true });
+    } catch (err: any) {
+      if (err?.code === 11000) return [];
+      throw err;
+    }
+
+    await Promise.all(statsList.map((stats, i) => {
+      const next = after[i].rating;
+      stats.rating = next.rating;
+      stats.ratingDeviation = next.deviation;
+      stats.ratingVolatility = next.volatility;
+      stats.ratedGames = (stats.ratedGames || 0) + 1;
+      stats.peakRating = Math.max(stats.peakRating || DEFAULT_RATING, next.rating);
+      stats.lastRatedAt = now;
+      return stats.save();
+    }));
+
+    return entries.map((entry, i) => ({
+      userId: entry.userId.toString(),
+      rating: Math.round(after[i].rating.rating),
+      ratingDeviation: Math.round(after[i].rating.deviation),
+      change: Math.round(after[i].rating.rating) - Math.round(before[i].rating),
+    }));
+  } catch (err: any) {
+    console.error(`[ratingService] Error rating ${gameId} match ${matchKey}:`, err.message);
+    return [];
+  }
+}
+
+/** Standard competition ranking ("1224") from a best-first comparator */
+function placesByOrder<T>(items: T[], compare: (a: T, b: T) => number): { item: T; place: number }[] {
+  const sorted = [...items].sort(compare);
+  const placed: { item: T; place: number }[] = [];
+  sorted.forEach((item, i) => {
+    const prev = placed[i - 1];
+    const place = prev && compare(prev.item, item) === 0 ? prev.place : i + 1;
+    placed.push({ item, place });
+  });
+  return placed;
+}
+
+const matchKeyOf = (roomId: string, finishedAt: Date | null | undefined): string =>
+  `${roomId}:${(finishedAt || new Date()).getTime()}`;
+
+// ─── Per-game adapters ───────────────────────────────────────
+
+/** Caro: both seats must be registered users; bot games are unranked */
+export async function rateCaroGame(game: IGame): Promise<RatingChange[]> {
+  if (game.gameStatus !== 'finished' || !game.winner || game.botDifficulty || game.isRated === false) return [];
+  if (!game.player1 || !game.player2) return [];
+
+  const draw = game.winner === 'draw';
+  return recordRatedMatch('caro', matchKeyOf(game.roomId, game.finishedAt), [
+    { userId: game.player1, place: draw || game.winner === 1 ? 1 : 2 },
+    { userId: game.player2, place: draw || game.winner === 2 ? 1 : 2 },
+  ]);
+}
+
+/** Go: both seats must be registered users; bot and SGF review games are unranked */
+export async function rateGoGame(game: IGoGame): Promise<RatingChange[]> {
+  if (game.gameStatus !== 'finished' || !game.winner || game.isReview || game.isRated === false) return [];
+  if (game.players.length !== 2 || game.players.some(p => p.isBot || !p.userId)) return [];
+
+  return recordRatedMatch('go', matchKeyOf(game.roomId, game.finishedAt), game.players.map(p => ({
+    userId: p.userId!,
+    place: p.color === game.winner!.color ? 1 : 2,
+  })));
+}
+
+/** Word Chain: winner (or winning team) first, then survivors, then by score; games with a bot are unranked */
+export async function rateWordChainGame(game: IWordChainGame): Promise<RatingChange[]> {
+  if (game.gameStatus !== 'finished' || game.players.some(p => p.isBot)) return [];
+  const registered = game.players.filter(p => !!p.userId);
+  if (registered.length < 2) return [];
+
+  const winner = game.winner && game.winner !== 'draw' ? game.winner : null;
+  // Team mode: each team shares a place (everyone ties on a draw)
+  const placed = game.rules.gameMode === 'team'
+    ? placesByOrder(registered, (a, b) => Number(b.team === winner?.team) - Number(a.team === winner?.team))
+    : placesByOrder(registered, (a, b) =>
+      Number(b.slot === winner?.slot) - Number(a.slot === winner?.slot)
+      || Number(a.isEliminated) - Number(b.isEliminated)
+      || b.score - a.score
+    );
+  return recordRatedMatch('word-chain', matchKeyOf(game.roomId, game.finishedAt),
+    placed.map(({ item, place }) => ({ userId: item.userId!, place })));
+}
+
+/** Tinh Tuy: winner first, then players still in the game by points; bankrupt players tie last */
+export async function rateTinhTuyGame(game: ITinhTuyGame): Promise<RatingChange[]> {
+  if (game.gameStatus !== 'finished') return [];
+  const registered = game.players.filter(p => !!p.userId);
+  if (registered.length < 2) return [];
+
+  const winnerSlot = game.winner?.slot ?? null;
+  const placed = placesByOrder(registered, (a, b) =>
+    Number(b.slot === winnerSlot) - Number(a.slot === winnerSlot)
+    || Number(a.isBankrupt) - Number(b.isBankrupt)
+    || (a.isBankrupt ? 0 : b.points - a.points)
+  );
+  return recordRatedMatch('tinh-tuy', matchKeyOf(game.roomId, game.finishedAt),
+    placed.map(({ item, place }) => ({ userId: item.userId!, place })));
+}
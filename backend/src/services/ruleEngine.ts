@@ -27,6 +27,11 @@ export const validateMove = (
     return { valid: false, message: 'Cell already occupied' };
   }
 
+  // Swap/Swap2 stones go through placeOpeningStone until the colors are settled
+  if (game.opening && game.opening.phase !== 'none') {
+    return { valid: false, message: 'The opening is not finished yet' };
+  }
+
   // Check block two ends rule
   if (game.rules.blockTwoEnds) {
     const blockResult = checkBlockTwoEnds(game, row, col, player);
@@ -35,9 +40,167 @@ export const validateMove = (
     }
   }
 
+  // Renju restrictions apply to black only
+  if (game.rules.renju && player === game.blackPlayer) {
+    const violation = getRenjuViolation(game.board, row, col, player, game.boardSize);
+    if (violation) {
+      return { valid: false, message: RENJU_MESSAGES[violation] };
+    }
+  }
+
   return { valid: true };
 };
 
+/**
+ * Whether six or more in a row wins for this player. Exact-five forbids overlines for
+ * both sides; Renju forbids them for black only.
+ */
+export const overlineWins = (game: Pick<IGame, 'rules' | 'blackPlayer'>, player: PlayerNumber): boolean => {
+  if (game.rules.exactFive) return false;
+  if (game.rules.renju && player === game.blackPlayer) return false;
+  return true;
+};
+
+// ─── Renju ──────────────────────────────────────────────────────
+// Forbidden-move detection for black. Threes are judged by whether they can become a
+// straight four; the recursive "that point is itself forbidden" refinement is not applied.
+
+export type RenjuViolation = 'overline' | 'double-four' | 'double-three';
+
+/** Renju is a 15×15 rule set; rooms on smaller boards can't enable it */
+export const RENJU_MIN_BOARD_SIZE = 15;
+
+const RENJU_MESSAGES: Record<RenjuViolation, string> = {
+  'overline': 'Forbidden move for black: overline (Renju)',
+  'double-four': 'Forbidden move for black: double four (Renju)',
+  'double-three': 'Forbidden move for black: double three (Renju)',
+};
+
+const LINE_DIRECTIONS = [
+  [0, 1],   // horizontal
+  [1, 0],   // vertical
+  [1, 1],   // diagonal \
+  [1, -1],  // diagonal /
+];
+
+const isInside = (row: number, col: number, boardSize: number): boolean =>
+  row >= 0 && row < boardSize && col >= 0 && col < boardSize;
+
+// Unbroken run of `player` stones through (row, col) along one direction
+const runLength = (
+  board: number[][], row: number, col: number, dx: number, dy: number, player: PlayerNumber, boardSize: number
+): number => {
+  let count = 1;
+  for (const sign of [1, -1]) {
+    let r = row + dx * sign;
+    let c = col + dy * sign;
+    while (isInside(r, c, boardSize) && board[r][c] === player) {
+      count++;
+      r += dx * sign;
+      c += dy * sign;
+    }
+  }
+  return count;
+};
+
+/**
+ * Offsets (along the line) of empty points that would give `player` exactly five
+ * in a run that includes (row, col).
+ */
+const fiveCompletions = (
+  board: number[][], row: number, col: number, dx: number, dy: number, player: PlayerNumber, boardSize: number
+): number[] => {
+  const offsets: number[] = [];
+  for (let i = -4; i <= 4; i++) {
+    if (i === 0) continue;
+    const r = row + dx * i;
+    const c = col + dy * i;
+    if (!isInside(r, c, boardSize) || board[r][c] !== 0) continue;
+
+    // Every point between the completion and the move must already be ours
+    let connected = true;
+    const step = i > 0 ? 1 : -1;
+    for (let j = step; j !== i; j += step) {
+      if (board[row + dx * j][col + dy * j] !== player) {
+        connected = false;
+        break;
+      }
+    }
+    if (!connected) continue;
+
+    board[r][c] = player;
+    if (runLength(board, r, c, dx, dy, player, boardSize) === 5) offsets.push(i);
+    board[r][c] = 0;
+  }
+  return offsets;
+};
+
+// Number of fours through (row, col) on one line; a straight four (_XXXX_) counts once
+const countFours = (
+  board: number[][], row: number, col: number, dx: number, dy: number, player: PlayerNumber, boardSize: number
+): number => {
+  const offsets = fiveCompletions(board, row, col, dx, dy, player, boardSize);
+  if (offsets.length === 0) return 0;
+  if (offsets.length === 2 && Math.abs(offsets[0] - offsets[1]) === 5) return 1;
+  return Math.min(offsets.length, 2);
+};
+
+const isStraightFour = (
+  board: number[][], row: number, col: number, dx: number, dy: number, player: PlayerNumber, boardSize: number
+): boolean => {
+  const offsets = fiveCompletions(board, row, col, dx, dy, player, boardSize);
+  return offsets.length === 2 && Math.abs(offsets[0] - offsets[1]) === 5;
+};
+
+// An open three: one more stone on this line can turn it into a straight four
+const isOpenThree = (
+  board: number[][], row: number, col: number, dx: number, dy: number, player: PlayerNumber, boardSize: number
+): boolean => {
+  for (let i = -4; i <= 4; i++) {
+    if (i === 0) continue;
+    const r = row + dx * i;
+    const c = col + dy * i;
+    if (!isInside(r, c, boardSize) || board[r][c] !== 0) continue;
+    board[r][c] = player;
+    const straight = runLength(board, r, c, dx, dy, player, boardSize) <= 5
+      && isStraightFour(board, row, col, dx, dy, player, boardSize);
+    board[r][c] = 0;
+    if (straight) return true;
+  }
+  return false;
+};
+
+/**
+ * Why black may not play at (row, col) under Renju rules, or null if the move is allowed.
+ * Completing exactly five always wins, even if the move would also be forbidden.
+ */
+export const getRenjuViolation = (
+  board: number[][],
+  row: number,
+  col: number,
+  player: PlayerNumber,
+  boardSize: number
+): RenjuViolation | null => {
+  const scratch = board.map(r => [...r]);
+  scratch[row][col] = player;
+
+  const runs = LINE_DIRECTIONS.map(([dx, dy]) => runLength(scratch, row, col, dx, dy, player, boardSize));
+  if (runs.some(run => run === 5)) return null;
+  if (runs.some(run => run > 5)) return 'overline';
+
+  let fours = 0;
+  let threes = 0;
+  for (const [dx, dy] of LINE_DIRECTIONS) {
+    const lineFours = countFours(scratch, row, col, dx, dy, player, boardSize);
+    fours += lineFours;
+    if (lineFours === 0 && isOpenThree(scratch, row, col, dx, dy, player, boardSize)) threes++;
+  }
+
+  if (fours >= 2) return 'double-four';
+  if (threes >= 2) return 'double-three';
+  return null;
+};
+
 const checkBlockTwoEnds = (
   game: IGame,
   row: number,
@@ -1,15 +1,28 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import mongoose from 'mongoose';
-import Game from '../models/Game';
+import Game, { IGame } from '../models/Game';
 import GameMove from '../models/GameMove';
 import User from '../models/User';
 import GameStats from '../models/GameStats';
-import { makeMove, undoMove } from './gameEngine';
+import { makeMove, undoMove, undoLastTurn, beginOpening, placeOpeningStone, chooseOpeningColor } from './gameEngine';
 import { checkWin } from './winChecker';
-import { PlayerNumber } from '../types/game.types';
+import { PlayerNumber, OpeningChoice } from '../types/game.types';
 import { saveGameHistoryIfFinished } from './gameHistoryService';
 import { checkAndAwardAchievements, isNightTime } from './achievementService';
+import {
+  resetClock,
+  scheduleClock,
+  ensureClock,
+  stopClock,
+  clearClock,
+  hasFlagged,
+  finishOnTimeout,
+  getClockSnapshot,
+  getTurnDeadline,
+} from './gameClockService';
+import { addSpectator, removeSpectator, getSpectators, isSpectating, clearSpectators } from './spectatorService';
+import { chooseBotMove, isBotGame, BOT_PLAYER } from './caroBot';
 
 // Throttle map for global broadcasts (fixes Issue #9: Unthrottled global socket broadcasts)
 const lastBroadcastTime = new Map<string, number>();
@@ -36,6 +49,181 @@ const throttledBroadcast = (io: SocketIOServer, event: string, data: any): boole
   return true;
 };
 
+// Broadcast a move that makeMove already applied and saved, plus game-finished if it ended the game
+const broadcastMoveResult = async (
+  io: SocketIOServer,
+  game: IGame,
+  row: number,
+  col: number,
+  player: PlayerNumber,
+): Promise<void> => {
+  const roomId = game.roomId;
+
+  // FIX B3: Reuse the mutated game object instead of querying again
+  // makeMove already updated and saved the game, so we can use it directly
+  // The game object now has the latest board, currentPlayer, gameStatus, etc.
+
+  // Get the move that was just made
+  const move = await GameMove.findOne({
+    gameId: game._id,
+    row,
+    col,
+    player,
+  }).sort({ timestamp: -1 });
+
+  // Emit to all in room using the already-updated game object
+  io.to(roomId).emit('move-made', {
+    move: move ? {
+      _id: move._id.toString(),
+      gameId: move.gameId.toString(),
+      player: move.player,
+      row: move.row,
+      col: move.col,
+      moveNumber: move.moveNumber,
+      timestamp: move.timestamp.toISOString(),
+      isUndone: move.isUndone,
+    } : null,
+    board: game.board,
+    currentPlayer: game.currentPlayer,
+    clock: getClockSnapshot(game),
+  });
+
+  if (game.gameStatus === 'finished') {
+    // FIX B3: Use the already-loaded game object instead of querying again
+    // The winningLine was set by checkWin in makeMove
+    const finishedGame = game;
+    if (finishedGame) {
+      // Save history immediately when game finishes
+      await saveGameHistoryIfFinished(finishedGame);
+
+      // Emit game-finished with all necessary data including winningLine and score
+      io.to(roomId).emit('game-finished', {
+        winner: finishedGame.winner,
+        reason: finishedGame.winner === 'draw' ? 'Draw' : `Player ${finishedGame.winner} wins!`,
+        winReason: finishedGame.winReason,
+        winningLine: (finishedGame as any).winningLine || undefined,
+        score: finishedGame.score,
+        clock: getClockSnapshot(finishedGame),
+      });
+
+      // Check achievements for authenticated players (bot games are unranked)
+      const checkAchievementsForPlayer = async (userId: mongoose.Types.ObjectId | null, isWinner: boolean) => {
+        if (!userId || isBotGame(finishedGame)) return;
+        try {
+          const stats = await GameStats.findOne({ userId: userId.toString(), gameId: 'caro' });
+          if (stats) {
+            const gameContext = {
+              isNightGame: isNightTime() && isWinner,
+              wasComeback: isWinner && finishedGame.score &&
+                ((finishedGame.winner === 1 && finishedGame.score.player2 >= 2 && finishedGame.score.player1 <= finishedGame.score.player2) ||
+                 (finishedGame.winner === 2 && finishedGame.score.player1 >= 2 && finishedGame.score.player2 <= finishedGame.score.player1)),
+              gameId: 'caro',
+            };
+            const result = await checkAndAwardAchievements(userId.toString(), stats, gameContext);
+            if (result.newlyUnlocked.length > 0) {
+              // Emit achievement notification to the player
+              io.to(roomId).emit('achievement-unlocked', {
+                playerId: userId.toString(),
+                achievementIds: result.newlyUnlocked,
+                achievements: result.achievements,
+              });
+            }
+          }
+        } catch (err) {
+          console.error('[Achievement check error]', err);
+        }
+      };
+
+      // Check achievements for both players (async, don't block)
+      const isPlayer1Winner = finishedGame.winner === 1;
+      const isPlayer2Winner = finishedGame.winner === 2;
+      checkAchievementsForPlayer(finishedGame.player1, isPlayer1Winner);
+      checkAchievementsForPlayer(finishedGame.player2, isPlayer2Winner);
+    }
+  }
+};
+
+// Board and turn state while a Swap/Swap2 opening is in progress (or just resolved)
+const emitOpeningUpdate = (io: SocketIOServer, game: IGame): void => {
+  io.to(game.roomId).emit('opening-updated', {
+    board: game.board,
+    currentPlayer: game.currentPlayer,
+    blackPlayer: game.blackPlayer,
+    opening: game.opening,
+    clock: getClockSnapshot(game),
+  });
+};
+
+// ─── Caro Bot ────────────────────────────────────────────────────
+
+const BOT_MOVE_DELAY_MS = 500; // Short pause so the bot's reply doesn't land instantly
+const botTimers = new Map<string, NodeJS.Timeout>(); // roomId → pending bot move
+
+const cancelBotTurn = (roomId: string): void => {
+  const timer = botTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    botTimers.delete(roomId);
+  }
+};
+
+// Search budget for the hard bot - never more than a third of the time left on its clock
+const getBotTimeBudget = (game: IGame): number | undefined => {
+  const deadline = getTurnDeadline(game);
+  if (deadline === null) return undefined;
+  return Math.max(100, Math.floor((deadline - Date.now()) / 3));
+};
+
+// Play the bot's move through the same makeMove path as human moves
+const playBotTurn = async (io: SocketIOServer, roomId: string): Promise<void> => {
+  const game = await Game.findOne({ roomId });
+  if (!game || !game.botDifficulty) return;
+  if (game.gameStatus !== 'playing' || game.currentPlayer !== BOT_PLAYER) return;
+
+  if (hasFlagged(game)) {
+    await finishOnTimeout(io, game);
+    return;
+  }
+
+  const cell = await chooseBotMove(game, game.botDifficulty, getBotTimeBudget(game));
+  if (!cell) return;
+
+  // The search yields to the event loop - drop the move if the game moved on meanwhile
+  const current = await Game.findOne({ roomId });
+  if (!current || current.gameStatus !== 'playing' || current.currentPlayer !== BOT_PLAYER) return;
+  if (JSON.stringify(current.board) !== JSON.stringify(game.board)) return;
+  if (hasFlagged(current)) {
+    await finishOnTimeout(io, current);
+    return;
+  }
+
+  const result = await makeMove(current, cell.row, cell.col, BOT_PLAYER);
+  if (!result.success) {
+    console.error(`[CaroBot] Move rejected in room ${roomId}:`, result.message);
+    return;
+  }
+
+  if (current.gameStatus === 'playing') {
+    scheduleClock(io, current);
+  } else {
+    clearClock(roomId);
+  }
+
+  await broadcastMoveResult(io, current, cell.row, cell.col, BOT_PLAYER);
+};
+
+// Queue the bot's reply if it is the bot's turn in a bot game
+const scheduleBotTurn = (io: SocketIOServer, game: IGame): void => {
+  if (!isBotGame(game) || game.gameStatus !== 'playing' || game.currentPlayer !== BOT_PLAYER) return;
+
+  const roomId = game.roomId;
+  cancelBotTurn(roomId);
+  botTimers.set(roomId, setTimeout(() => {
+    botTimers.delete(roomId);
+    playBotTurn(io, roomId).catch(err => console.error('[CaroBot] Turn failed:', err));
+  }, BOT_MOVE_DELAY_MS));
+};
+
 interface SocketData {
   userId?: string;
   username?: string;
@@ -44,14 +232,31 @@ interface SocketData {
   currentRoomId?: string;
 }
 
+// Seat held by this socket's user or guest, or null if they are not playing
+const getSeat = (game: IGame, socketData: SocketData): PlayerNumber | null => {
+  const ids = [socketData.userId, socketData.playerId].filter((id): id is string => !!id);
+  for (const id of ids) {
+    if (game.player1?.toString() === id || game.player1GuestId === id) return 1;
+    if (game.player2?.toString() === id || game.player2GuestId === id) return 2;
+  }
+  return null;
+};
+
 export const setupSocketHandlers = (io: SocketIOServer): void => {
   io.on('connection', (socket) => {
     const socketData: SocketData = socket.data;
 
+    // Spectators are read-only - reject any game-changing event they send
+    const rejectSpectator = (roomId: string): boolean => {
+      if (!isSpectating(socket, roomId)) return false;
+      socket.emit('game-error', { message: 'Spectators cannot perform game actions' });
+      return true;
+    };
+
     // Join room
-    socket.on('join-room', async (data: { roomId: string; playerId: string; isGuest: boolean }) => {
+    socket.on('join-room', async (data: { roomId: string; playerId: string; isGuest: boolean; guestName?: string }) => {
       try {
-        const { roomId, playerId, isGuest } = data;
+        const { roomId, playerId, isGuest, guestName } = data;
         socketData.currentRoomId = roomId;
         socketData.playerId = playerId;
         socketData.isGuest = isGuest;
@@ -115,12 +320,40 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           });
         }
 
+        // Re-arm the clock in case it was lost (server restart) while players were away
+        if (game.gameStatus === 'playing') {
+          ensureClock(io, game);
+          if (!botTimers.has(roomId)) scheduleBotTurn(io, game);
+        }
+
+        // Anyone who doesn't hold a seat watches read-only - never assign them a player slot
+        const viewerId = socketData.userId || playerId;
+        const isSeated = players.some(p => p.id === viewerId || p.id === playerId);
+        let isSpectator = false;
+        if (!isSeated && viewerId) {
+          let spectatorName = isGuest ? (guestName?.trim().slice(0, 20) || `Guest ${viewerId.slice(-6)}`) : '';
+          if (!spectatorName) {
+            const viewer = await User.findById(viewerId).select('username').lean();
+            spectatorName = viewer?.username || 'Spectator';
+          }
+          isSpectator = addSpectator(io, socket, roomId, { id: viewerId, name: spectatorName, isGuest: !!isGuest });
+          if (!isSpectator) {
+            socket.leave(roomId);
+            socketData.currentRoomId = undefined;
+            socket.emit('game-error', { message: 'Too many spectators in this room' });
+            return;
+          }
+        }
+
         // Emit room-joined with current game state
         socket.emit('room-joined', { 
           roomId, 
           players,
           gameStatus: game.gameStatus,
           currentPlayer: game.currentPlayer,
+          clock: getClockSnapshot(game),
+          isSpectator,
+          spectators: getSpectators(roomId),
         });
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
@@ -181,6 +414,24 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           return;
         }
 
+        // Reject moves that arrive after the flag fell - the clock timeout may not have fired yet
+        if (game.gameStatus === 'playing' && hasFlagged(game)) {
+          await finishOnTimeout(io, game);
+          return;
+        }
+
+        // Swap/Swap2: stones laid before the colors are chosen
+        if (game.opening?.phase === 'placing') {
+          const placed = await placeOpeningStone(game, row, col, player);
+          if (!placed.success) {
+            socket.emit('move-validated', { valid: false, message: placed.message });
+            return;
+          }
+          scheduleClock(io, game);
+          emitOpeningUpdate(io, game);
+          return;
+        }
+
         // makeMove mutates the game object in place and saves it
         const result = await makeMove(game, row, col, player);
         if (!result.success) {
@@ -188,85 +439,56 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           return;
         }
 
-        // FIX B3: Reuse the mutated game object instead of querying again
-        // makeMove already updated and saved the game, so we can use it directly
-        // The game object now has the latest board, currentPlayer, gameStatus, etc.
+        if (game.gameStatus === 'playing') {
+          scheduleClock(io, game);
+        } else {
+          clearClock(roomId);
+        }
 
-        // Get the move that was just made
-        const move = await GameMove.findOne({
-          gameId: game._id,
-          row,
-          col,
-          player,
-        }).sort({ timestamp: -1 });
-
-        // Emit to all in room using the already-updated game object
-        io.to(roomId).emit('move-made', {
-          move: move ? {
-            _id: move._id.toString(),
-            gameId: move.gameId.toString(),
-            player: move.player,
-            row: move.row,
-            col: move.col,
-            moveNumber: move.moveNumber,
-            timestamp: move.timestamp.toISOString(),
-            isUndone: move.isUndone,
-          } : null,
-          board: game.board,
-          currentPlayer: game.currentPlayer,
-        });
+        await broadcastMoveResult(io, game, row, col, player);
 
-        if (game.gameStatus === 'finished') {
-          // FIX B3: Use the already-loaded game object instead of querying again
-          // The winningLine was set by checkWin in makeMove
-          const finishedGame = game;
-          if (finishedGame) {
-            // Save history immediately when game finishes
-            await saveGameHistoryIfFinished(finishedGame);
-
-            // Emit game-finished with all necessary data including winningLine and score
-            io.to(roomId).emit('game-finished', {
-              winner: finishedGame.winner,
-              reason: finishedGame.winner === 'draw' ? 'Draw' : `Player ${finishedGame.winner} wins!`,
-              winningLine: (finishedGame as any).winningLine || undefined,
-              score: finishedGame.score,
-            });
-
-            // Check achievements for authenticated players
-            const checkAchievementsForPlayer = async (userId: mongoose.Types.ObjectId | null, isWinner: boolean) => {
-              if (!userId) return;
-              try {
-                const stats = await GameStats.findOne({ userId: userId.toString(), gameId: 'caro' });
-                if (stats) {
-                  const gameContext = {
-                    isNightGame: isNightTime() && isWinner,
-                    wasComeback: isWinner && finishedGame.score &&
-                      ((finishedGame.winner === 1 && finishedGame.score.player2 >= 2 && finishedGame.score.player1 <= finishedGame.score.player2) ||
-                       (finishedGame.winner === 2 && finishedGame.score.player1 >= 2 && finishedGame.score.player2 <= finishedGame.score.player1)),
-                    gameId: 'caro',
-                  };
-                  const result = await checkAndAwardAchievements(userId.toString(), stats, gameContext);
-                  if (result.newlyUnlocked.length > 0) {
-                    // Emit achievement notification to the player
-                    io.to(roomId).emit('achievement-unlocked', {
-                      playerId: userId.toString(),
-                      achievementIds: result.newlyUnlocked,
-                      achievements: result.achievements,
-                    });
-                  }
-                }
-              } catch (err) {
-                console.error('[Achievement check error]', err);
-              }
-            };
+        // Let the bot answer in bot games
+        scheduleBotTurn(io, game);
+      } catch (error: any) {
+        socket.emit('game-error', { message: error.message });
+      }
+    });
 
-            // Check achievements for both players (async, don't block)
-            const isPlayer1Winner = finishedGame.winner === 1;
-            const isPlayer2Winner = finishedGame.winner === 2;
-            checkAchievementsForPlayer(finishedGame.player1, isPlayer1Winner);
-            checkAchievementsForPlayer(finishedGame.player2, isPlayer2Winner);
-          }
+    // Swap/Swap2: pick a color for the opening stones (or add two more in Swap2)
+    socket.on('choose-opening', async (data: { roomId: string; choice: OpeningChoice }) => {
+      try {
+        const { roomId, choice } = data;
+        if (rejectSpectator(roomId)) return;
+        if (!['black', 'white', 'place2'].includes(choice)) {
+          socket.emit('game-error', { message: 'Invalid opening choice' });
+          return;
+        }
+
+        const game = await Game.findOne({ roomId });
+        if (!game) {
+          socket.emit('game-error', { message: 'Game not found' });
+          return;
         }
+
+        const player = getSeat(game, socketData);
+        if (!player) {
+          socket.emit('game-error', { message: 'Could not determine player number. Please rejoin the room.' });
+          return;
+        }
+
+        if (game.gameStatus === 'playing' && hasFlagged(game)) {
+          await finishOnTimeout(io, game);
+          return;
+        }
+
+        const result = await chooseOpeningColor(game, player, choice);
+        if (!result.success) {
+          socket.emit('game-error', { message: result.message });
+          return;
+        }
+
+        scheduleClock(io, game);
+        emitOpeningUpdate(io, game);
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
       }
@@ -276,12 +498,33 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     socket.on('request-undo', async (data: { roomId: string; moveNumber: number }) => {
       try {
         const { roomId, moveNumber } = data;
+        if (rejectSpectator(roomId)) return;
         const game = await Game.findOne({ roomId });
         if (!game) {
           socket.emit('game-error', { message: 'Game not found' });
           return;
         }
 
+        // Bot games: no one to ask - take back the player's last move and the bot's reply
+        if (isBotGame(game)) {
+          cancelBotTurn(roomId);
+          const result = await undoLastTurn(game, 1);
+          if (!result.success) {
+            socket.emit('game-error', { message: result.message });
+            return;
+          }
+
+          scheduleClock(io, game);
+
+          io.to(roomId).emit('undo-approved', {
+            moveNumber: result.moveNumber,
+            board: game.board,
+            currentPlayer: game.currentPlayer,
+            clock: getClockSnapshot(game),
+          });
+          return;
+        }
+
         const move = await GameMove.findOne({
           gameId: game._id,
           moveNumber,
@@ -306,6 +549,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     socket.on('approve-undo', async (data: { roomId: string; moveNumber: number }) => {
       try {
         const { roomId, moveNumber } = data;
+        if (rejectSpectator(roomId)) return;
         const game = await Game.findOne({ roomId });
         if (!game) {
           socket.emit('game-error', { message: 'Game not found' });
@@ -318,10 +562,13 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           return;
         }
 
+        scheduleClock(io, game);
+
         io.to(roomId).emit('undo-approved', {
           moveNumber,
           board: game.board,
           currentPlayer: game.currentPlayer,
+          clock: getClockSnapshot(game),
         });
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
@@ -330,6 +577,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
 
     // Reject undo
     socket.on('reject-undo', (data: { roomId: string }) => {
+      if (rejectSpectator(data.roomId)) return;
       socket.to(data.roomId).emit('undo-rejected', { moveNumber: 0 });
     });
 
@@ -337,6 +585,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     socket.on('start-game', async (data: { roomId: string }) => {
       try {
         const { roomId } = data;
+        if (rejectSpectator(roomId)) return;
         const game = await Game.findOne({ roomId });
         if (!game) {
           socket.emit('game-error', { message: 'Game not found' });
@@ -348,6 +597,9 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           // Game might have been started by another player - emit current state instead of error
           socket.emit('game-started', {
             currentPlayer: game.currentPlayer,
+            clock: getClockSnapshot(game),
+            blackPlayer: game.blackPlayer,
+            opening: game.opening,
           });
           return;
         }
@@ -390,8 +642,12 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
 
         // Start the game with the player who clicked start going first
         game.gameStatus = 'playing';
-        game.currentPlayer = startingPlayer;
+        beginOpening(game, startingPlayer);
+        game.winReason = null;
+        resetClock(game);
         await game.save();
+        scheduleClock(io, game);
+        scheduleBotTurn(io, game);
 
         // Emit to lobby about game status change (throttled to prevent spam)
         throttledBroadcast(io, 'game-status-updated', {
@@ -406,6 +662,9 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
         // Emit to all players in the room (io.to includes sender if they're in the room)
         io.to(roomId).emit('game-started', {
           currentPlayer: game.currentPlayer,
+          clock: getClockSnapshot(game),
+          blackPlayer: game.blackPlayer,
+          opening: game.opening,
         });
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
@@ -416,6 +675,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     socket.on('surrender', async (data: { roomId: string }) => {
       try {
         const { roomId } = data;
+        if (rejectSpectator(roomId)) return;
         const game = await Game.findOne({ roomId });
         if (!game) {
           socket.emit('game-error', { message: 'Game not found' });
@@ -438,8 +698,10 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           }
         }
 
+        stopClock(game);
         game.gameStatus = 'finished';
         game.winner = winner;
+        game.winReason = 'surrender';
         game.finishedAt = new Date();
 
         if (winner === 1) {
@@ -456,8 +718,10 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
         io.to(roomId).emit('game-finished', {
           winner,
           reason: 'Opponent surrendered',
+          winReason: 'surrender',
           winningLine: (game as any).winningLine,
           score: game.score,
+          clock: getClockSnapshot(game),
         });
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
@@ -468,6 +732,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     socket.on('new-game', async (data: { roomId: string }) => {
       try {
         const { roomId } = data;
+        if (rejectSpectator(roomId)) return;
         const game = await Game.findOne({ roomId });
         if (!game) {
           socket.emit('game-error', { message: 'Game not found' });
@@ -478,16 +743,20 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
         game.board = Array(game.boardSize)
           .fill(null)
           .map(() => Array(game.boardSize).fill(0));
-        game.currentPlayer = 1;
         game.gameStatus = 'playing';
+        beginOpening(game, 1);
         game.winner = null;
+        game.winReason = null;
         game.winningLine = undefined; // Clear winning line for new game
         game.finishedAt = null;
+        resetClock(game);
 
         // Delete all moves from previous game (reset undo count)
         await GameMove.deleteMany({ gameId: game._id });
 
         await game.save();
+        scheduleClock(io, game);
+        scheduleBotTurn(io, game);
 
         // Emit game-reset event with full state (including cleared winningLine)
         io.to(roomId).emit('game-reset', {
@@ -496,6 +765,9 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           gameStatus: game.gameStatus,
           winner: null,
           winningLine: null,
+          clock: getClockSnapshot(game),
+          blackPlayer: game.blackPlayer,
+          opening: game.opening,
         });
       } catch (error: any) {
         socket.emit('game-error', { message: error.message });
@@ -506,6 +778,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
     // Note: This is called AFTER the API leaveGame has been called
     // So we only need to leave the socket room, not update game state
     socket.on('leave-room', async (data: { roomId: string }) => {
+      removeSpectator(io, socket);
       socket.leave(data.roomId);
       // The API leaveGame already emitted player-left event with proper data
       // We don't need to emit again here to avoid duplicate events
@@ -752,6 +1025,11 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
           newPlayer2GuestId = null;
         }
 
+        // The bot never keeps a room on its own
+        if (isPlayer1 && game.botDifficulty) {
+          newPlayer2GuestId = null;
+        }
+
         const hasPlayer1After = !!(newPlayer1 || newPlayer1GuestId);
         const hasPlayer2After = !!(newPlayer2 || newPlayer2GuestId);
         const hasNoPlayers = !hasPlayer1After && !hasPlayer2After;
@@ -780,6 +1058,7 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
                 board: game.board,
                 winner: game.winner,
                 winningLine: (game as any).winningLine,
+                winReason: game.winReason || null,
                 score: game.score,
                 rules: game.rules,
                 finishedAt: game.finishedAt,
@@ -795,6 +1074,9 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
         if (hasNoPlayers) {
           // Both players left - delete game
           // History should already be saved above if needed
+          clearClock(roomId);
+          cancelBotTurn(roomId);
+          clearSpectators(io, roomId);
           await Game.deleteOne({ roomId });
           io.to(roomId).emit('game-deleted', { roomId });
           return;
@@ -823,10 +1105,13 @@ export const setupSocketHandlers = (io: SocketIOServer): void => {
         if (wasFinished || game.gameStatus === 'playing') {
           updateDoc.gameStatus = 'waiting';
           updateDoc.winner = null;
+          updateDoc.winReason = null;
           updateDoc.finishedAt = null;
+          updateDoc['clock.turnStartedAt'] = null;
           updateDoc.board = Array(game.boardSize).fill(null).map(() => Array(game.boardSize).fill(0));
           updateDoc.currentPlayer = 1;
           gameReset = true;
+          clearClock(roomId);
         }
 
         await Game.updateOne({ roomId }, { $set: updateDoc });
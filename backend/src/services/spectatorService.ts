@@ -0,0 +1,188 @@
+/**
+ * Spectator Service - read-only watchers for Caro, Go, Word Chain and Tinh Tuy rooms.
+ * Spectators join the game's socket room (so they receive every state broadcast) plus a
+ * separate `<room>:spectators` channel used for spectator-only chat. Membership is kept
+ * in memory only; a spectator never occupies a player slot in the game document.
+ */
+import { Server as SocketIOServer, Socket } from 'socket.io';
+
+export interface SpectatorInfo {
+  id: string;        // userId or guestId (socket id as last resort)
+  name: string;
+  isGuest: boolean;
+  joinedAt: number;
+}
+
+export const MAX_SPECTATORS_PER_ROOM = 50;
+const CHAT_MAX_LENGTH = 200;
+const CHAT_RATE_MS = 1000; // 1 spectator chat message per second per socket
+
+// socket room name → socketId → spectator
+const roomSpectators = new Map<string, Map<string, SpectatorInfo>>();
+const chatLastMessage = new Map<string, number>(); // socketId → timestamp
+
+/** Socket.IO room that only spectators of `room` are in */
+export const spectatorChannel = (room: string): string => `${room}:spectators`;
+
+/**
+ * Unique spectators for a room. A viewer with several tabs open is listed once.
+ */
+export function getSpectators(room: string): Omit<SpectatorInfo, 'joinedAt'>[] {
+  const entries = roomSpectators.get(room);
+  if (!entries) return [];
+
+  const byId = new Map<string, SpectatorInfo>();
+  for (const info of entries.values()) {
+    const existing = byId.get(info.id);
+    if (!existing || info.joinedAt < existing.joinedAt) byId.set(info.id, info);
+  }
+  return [...byId.values()]
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .map(({ id, name, isGuest }) => ({ id, name, isGuest }));
+}
+
+export function getSpectatorCount(room: string): number {
+  return getSpectators(room).length;
+}
+
+export function isSpectating(socket: Socket, room?: string): boolean {
+  const current = socket.data.spectatorRoom as string | undefined;
+  if (!current) return false;
+  return room ? current === room : true;
+}
+
+/** Broadcast the current spectator list to players and spectators of a room */
+export function emitSpectatorsUpdated(io: SocketIOServer, room: string): void {
+  const spectators = getSpectators(room);
+  io.to(room).emit('spectator:list-updated', {
+    room,
+    count: spectators.length,
+    spectators,
+  });
+}
+
+/**
+ * Register a socket as a spectator of `room`.
+ * Returns false when the room already has the maximum number of spectators.
+ */
+export function addSpectator(
+  io: SocketIOServer,
+  socket: Socket,
+  room: string,
+  info: Omit<SpectatorInfo, 'joinedAt'>,
+): boolean {
+  // A socket watches at most one room at a time
+  if (socket.data.spectatorRoom && socket.data.spectatorRoom !== room) {
+    removeSpectator(io, socket);
+  }
+
+  let entries = roomSpectators.get(room);
+  if (!entries) {
+    entries = new Map();
+    roomSpectators.set(room, entries);
+  }
+
+  // Extra tabs of an existing spectator don't count against the limit
+  const current = getSpectators(room);
+  const alreadyWatching = entries.has(socket.id) || current.some(s => s.id === info.id);
+  if (!alreadyWatching && current.length >= MAX_SPECTATORS_PER_ROOM) {
+    if (entries.size === 0) roomSpectators.delete(room);
+    return false;
+  }
+
+  entries.set(socket.id, { ...info, joinedAt: entries.get(socket.id)?.joinedAt ?? Date.now() });
+  socket.join(room);
+  socket.join(spectatorChannel(room));
+  socket.data.spectatorRoom = room;
+
+  emitSpectatorsUpdated(io, room);
+  return true;
+}
+
+/**
+ * Remove a socket from whatever room it is spectating. Safe to call for non-spectators.
+ */
+export function removeSpectator(io: SocketIOServer, socket: Socket): void {
+  const room = socket.data.spectatorRoom as string | undefined;
+  if (!room) return;
+
+  socket.data.spectatorRoom = undefined;
+  chatLastMessage.delete(socket.id);
+  socket.leave(room);
+  socket.leave(spectatorChannel(room));
+
+  const entries = roomSpectators.get(room);
+  if (!entries) return;
+  entries.delete(socket.id);
+  if (entries.size === 0) roomSpectators.delete(room);
+
+  emitSpectatorsUpdated(io, room);
+}
+
+/**
+ * Drop all spectators of a room (room deleted). Sockets are told via `spectator:room-closed`.
+ */
+export function clearSpectators(io: SocketIOServer, room: string): void {
+  const entries = roomSpectators.get(room);
+  if (!entries) return;
+
+  io.to(spectatorChannel(room)).emit('spectator:room-closed', { room });
+  for (const socketId of entries.keys()) {
+    const spectatorSocket = io.sockets.sockets.get(socketId);
+    if (spectatorSocket) {
+      spectatorSocket.data.spectatorRoom = undefined;
+      spectatorSocket.leave(room);
+      spectatorSocket.leave(spectatorChannel(room));
+    }
+    chatLastMessage.delete(socketId);
+  }
+  roomSpectators.delete(room);
+}
+
+// ─── Socket Handlers ─────────────────────────────────────────────
+
+/**
+ * Game-agnostic spectator events. Joining is handled by each game's own join-room
+ * handler (it knows how to load and serialize its state); chat, leave and disconnect
+ * cleanup are shared here.
+ */
+export function setupSpectatorHandlers(io: SocketIOServer): void {
+  io.on('connection', (socket: Socket) => {
+
+    // Spectator chat - delivered to the spectator channel only, never to players
+    socket.on('spectator:send-chat', (data: { message?: string }, callback?: Function) => {
+      const cb = typeof callback === 'function' ? callback : () => {};
+      const room = socket.data.spectatorRoom as string | undefined;
+      const entries = room ? roomSpectators.get(room) : undefined;
+      const info = entries?.get(socket.id);
+      if (!room || !info) return cb({ success: false, error: 'notSpectating' });
+
+      const now = Date.now();
+      if (now - (chatLastMessage.get(socket.id) || 0) < CHAT_RATE_MS) {
+        return cb({ success: false, error: 'tooFast' });
+      }
+
+      const message = typeof data?.message === 'string' ? data.message.trim().slice(0, CHAT_MAX_LENGTH) : '';
+      if (!message) return cb({ success: false, error: 'emptyMessage' });
+      chatLastMessage.set(socket.id, now);
+
+      io.to(spectatorChannel(room)).emit('spectator:chat-received', {
+        room,
+        fromId: info.id,
+        fromName: info.name,
+        message,
+        timestamp: now,
+      });
+      cb({ success: true });
+    });
+
+    socket.on('spectator:leave', (_data: unknown, callback?: Function) => {
+      removeSpectator(io, socket);
+      if (typeof callback === 'function') callback({ success: true });
+    });
+
+    socket.on('disconnect', () => {
+      removeSpectator(io, socket);
+    });
+  });
+}
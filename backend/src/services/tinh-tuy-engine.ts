@@ -190,6 +190,14 @@ export function checkGameEnd(game: ITinhTuyGame): {
     }
   }
 
+  // Timed mode: clock ran out and the final round has been completed
+  if (game.settings.gameMode === 'timed' && game.finalRound != null && game.round > game.finalRound) {
+    const richest = [...activePlayers].sort(
+      (a, b) => calculateNetWorth(b) - calculateNetWorth(a)
+    )[0];
+    return { ended: true, winner: richest, reason: 'timeUp' };
+  }
+
   // Rounds mode: check if round limit reached
   if (game.settings.gameMode === 'rounds' && game.settings.maxRounds) {
     if (game.round >= game.settings.maxRounds) {
@@ -203,6 +211,20 @@ export function checkGameEnd(game: ITinhTuyGame): {
   return { ended: false };
 }
 
+// ─── Game Clock (timed mode) ─────────────────────────────────
+
+export const MIN_TIME_LIMIT = 10;   // minutes
+export const MAX_TIME_LIMIT = 180;  // minutes
+export const DEFAULT_TIME_LIMIT = 60;
+
+/** Milliseconds left on the game clock, or null when the game has no clock.
+ *  Derived from the persisted gameStartedAt so it survives server restarts. */
+export function getGameTimeRemaining(game: ITinhTuyGame, now = Date.now()): number | null {
+  if (game.settings.gameMode !== 'timed' || !game.settings.timeLimit || !game.gameStartedAt) return null;
+  const endsAt = new Date(game.gameStartedAt).getTime() + game.settings.timeLimit * 60 * 1000;
+  return Math.max(0, endsAt - now);
+}
+
 // ─── Near-Win Warning ────────────────────────────────────────
 
 /** Find PROPERTY cells in list that are missing a house (or hotel). */
@@ -0,0 +1,263 @@
+/**
+ * Tinh Tuy Dai Chien — Socket Auction Handlers
+ * auction-bid, auction-pass.
+ * With the auction rule on, a property the current player declines to buy goes to a live
+ * auction among all solvent players. Every bid pushes the countdown back; when it runs out
+ * (or every other bidder dropped out) the highest bidder pays and takes the property.
+ */
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import TinhTuyGame from '../models/TinhTuyGame';
+import { TinhTuyCallback, ITinhTuyGame, ITinhTuyPlayer, ITinhTuyAuction } from '../types/tinh-tuy.types';
+import { getCell, checkMonopolyCompleted, PROPERTY_GROUPS } from './tinh-tuy-board';
+import { isRateLimited, startTurnTimer, safetyRestartTimer } from './tinh-tuy-socket';
+import {
+  findPlayerBySocket, advanceTurn, advanceTurnOrDoubles, emitNearWinWarning, handleSlothAutoBuild,
+} from './tinh-tuy-socket-gameplay';
+
+export const AUCTION_MIN_INCREMENT = 100;
+const AUCTION_OPEN_MS = 15_000;           // first countdown — leaves time for the modal to show up
+const AUCTION_BID_MS = 8_000;             // countdown restarts from here on every bid
+const AUCTION_END_TOLERANCE_MS = 250;
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Lowest acceptable next bid */
+export function getMinAuctionBid(auction: ITinhTuyAuction): number {
+  return auction.highBid > 0 ? auction.highBid + AUCTION_MIN_INCREMENT : AUCTION_MIN_INCREMENT;
+}
+
+/**
+ * Players allowed to bid: alive, not buy-blocked, able to afford the opening bid.
+ * A bid is plain cash — Fox (rent) and Elephant (build) discounts do not touch it, so the
+ * winner pays exactly what they bid. Elephant still builds cheaper on the property afterwards.
+ */
+function getAuctionBidders(game: ITinhTuyGame): number[] {
+  return game.players
+    .filter(p => !p.isBankrupt && !(p.buyBlockedTurns && p.buyBlockedTurns > 0) && p.points >= AUCTION_MIN_INCREMENT)
+    .map(p => p.slot);
+}
+
+/** Bidders other than the current leader who can still raise */
+function getRemainingBidders(game: ITinhTuyGame, auction: ITinhTuyAuction): number[] {
+  return auction.bidders.filter(slot => {
+    if (slot === auction.highBidderSlot || auction.passed.includes(slot)) return false;
+    const p = game.players.find(pl => pl.slot === slot);
+    return !!p && !p.isBankrupt;
+  });
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────
+
+/** (Re)arm the countdown — the auction owns the room's turn timer while it runs */
+export function armAuctionTimer(io: SocketIOServer, roomId: string, auction: ITinhTuyAuction): void {
+  const delay = Math.max(0, new Date(auction.endsAt).getTime() - Date.now());
+  startTurnTimer(roomId, delay, async () => {
+    try {
+      await finishAuction(io, roomId);
+    } catch (err) { console.error('[tinh-tuy] Auction timeout:', err); }
+  });
+}
+
+/**
+ * Put the cell the player just declined up for auction.
+ * Returns false (nothing changed) when the cell can't be auctioned or nobody can bid.
+ */
+export async function startAuction(io: SocketIOServer, game: ITinhTuyGame, player: ITinhTuyPlayer): Promise<boolean> {
+  const cellIndex = player.position;
+  const cell = getCell(cellIndex);
+  if (!cell?.price || game.players.some(p => p.properties.includes(cellIndex))) return false;
+  const bidders = getAuctionBidders(game);
+  if (bidders.length === 0) return false;
+
+  const auction: ITinhTuyAuction = {
+    cellIndex, declinedSlot: player.slot, bidders, passed: [],
+    highBid: 0, highBidderSlot: null, endsAt: new Date(Date.now() + AUCTION_OPEN_MS),
+  };
+  game.auction = auction;
+  game.markModified('auction');
+  game.turnPhase = 'AWAITING_AUCTION';
+  await game.save();
+
+  io.to(game.roomId).emit('tinh-tuy:auction-started', {
+    auction, price: cell.price, minBid: getMinAuctionBid(auction),
+  });
+  armAuctionTimer(io, game.roomId, auction);
+  return true;
+}
+
+/**
+ * Settle the auction: the highest bidder pays and receives the property, then the turn
+ * continues for the player who declined it. Without force, an auction whose deadline moved
+ * (a bid landed while the timer fired) is re-armed instead of settled.
+ */
+export async function finishAuction(io: SocketIOServer, roomId: string, force = false): Promise<void> {
+  const game = await TinhTuyGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing' || game.turnPhase !== 'AWAITING_AUCTION' || !game.auction) return;
+  const auction = game.auction;
+
+  if (!force && new Date(auction.endsAt).getTime() - Date.now() > AUCTION_END_TOLERANCE_MS) {
+    armAuctionTimer(io, roomId, auction);
+    return;
+  }
+
+  // Claim atomically — a racing bid or a second finisher must not settle it twice
+  const claim = await TinhTuyGame.updateOne(
+    { roomId, turnPhase: 'AWAITING_AUCTION', 'auction.highBid': auction.highBid },
+    { $set: { turnPhase: 'END_TURN', auction: null } },
+  );
+  if (claim.modifiedCount === 0) return;
+  game.turnPhase = 'END_TURN';
+  game.auction = null;
+
+  // The leader may have gone bankrupt since bidding — then the property stays unowned
+  const winner = auction.highBidderSlot != null
+    ? game.players.find(p => p.slot === auction.highBidderSlot)
+    : undefined;
+  const sold = !!winner && !winner.isBankrupt && winner.points >= auction.highBid
+    && !game.players.some(p => p.properties.includes(auction.cellIndex));
+
+  if (sold && winner) {
+    winner.points -= auction.highBid;
+    winner.properties.push(auction.cellIndex);
+    game.markModified('players');
+  }
+  await game.save();
+
+  io.to(roomId).emit('tinh-tuy:auction-ended', {
+    cellIndex: auction.cellIndex,
+    winnerSlot: sold && winner ? winner.slot : null,
+    amount: sold ? auction.highBid : 0,
+    remainingPoints: sold && winner ? winner.points : undefined,
+  });
+
+  if (sold && winner) {
+    const completedGroup = checkMonopolyCompleted(auction.cellIndex, winner.properties);
+    if (completedGroup) {
+      io.to(roomId).emit('tinh-tuy:monopoly-completed', {
+        slot: winner.slot, group: completedGroup,
+        cellIndices: PROPERTY_GROUPS[completedGroup],
+      });
+      handleSlothAutoBuild(io, game, winner, completedGroup);
+    }
+    emitNearWinWarning(io, game, winner);
+  }
+
+  const decliner = game.players.find(p => p.slot === auction.declinedSlot);
+  if (decliner && !decliner.isBankrupt && game.currentPlayerSlot === decliner.slot) {
+    await advanceTurnOrDoubles(io, game, decliner);
+  } else {
+    await advanceTurn(io, game);
+  }
+}
+
+// ─── Handlers ─────────────────────────────────────────────────
+
+export function registerAuctionHandlers(io: SocketIOServer, socket: Socket): void {
+  // ── Bid ──────────────────────────────────────────────────────
+  socket.on('tinh-tuy:auction-bid', async (data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const amount = data?.amount;
+      if (!Number.isInteger(amount) || amount <= 0) {
+        return callback({ success: false, error: 'invalidPayload' });
+      }
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game || game.gameStatus !== 'playing') {
+        return callback({ success: false, error: 'gameNotActive' });
+      }
+      const auction = game.auction;
+      if (game.turnPhase !== 'AWAITING_AUCTION' || !auction) {
+        return callback({ success: false, error: 'noActiveAuction' });
+      }
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.isBankrupt) return callback({ success: false, error: 'notInRoom' });
+      if (!auction.bidders.includes(player.slot) || auction.passed.includes(player.slot)) {
+        return callback({ success: false, error: 'auctionNotBidder' });
+      }
+      if (auction.highBidderSlot === player.slot) {
+        return callback({ success: false, error: 'auctionAlreadyLeading' });
+      }
+      if (amount < getMinAuctionBid(auction)) {
+        return callback({ success: false, error: 'auctionBidTooLow' });
+      }
+      if (amount > player.points) return callback({ success: false, error: 'cantAfford' });
+
+      // Restart the countdown, but never cut the opening window short
+      const endsAt = new Date(Math.max(new Date(auction.endsAt).getTime(), Date.now() + AUCTION_BID_MS));
+      // Atomic — two bids on the same high bid: only the first one counts
+      const updated = await TinhTuyGame.findOneAndUpdate(
+        { roomId, turnPhase: 'AWAITING_AUCTION', 'auction.highBid': auction.highBid },
+        { $set: { 'auction.highBid': amount, 'auction.highBidderSlot': player.slot, 'auction.endsAt': endsAt } },
+        { new: true },
+      );
+      if (!updated?.auction) return callback({ success: false, error: 'auctionOutbid' });
+
+      armAuctionTimer(io, roomId, updated.auction);
+      io.to(roomId).emit('tinh-tuy:auction-bid', {
+        slot: player.slot, amount, endsAt, minBid: getMinAuctionBid(updated.auction),
+      });
+      callback({ success: true });
+
+      // Everyone else already dropped out — no reason to wait for the clock
+      if (getRemainingBidders(updated, updated.auction).length === 0) {
+        await finishAuction(io, roomId, true);
+      }
+    } catch (err: any) {
+      console.error('[tinh-tuy:auction-bid]', err.message);
+      callback({ success: false, error: 'auctionFailed' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (roomId) safetyRestartTimer(io, roomId);
+    }
+  });
+
+  // ── Pass (drop out) ──────────────────────────────────────────
+  socket.on('tinh-tuy:auction-pass', async (_data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game || game.gameStatus !== 'playing') {
+        return callback({ success: false, error: 'gameNotActive' });
+      }
+      const auction = game.auction;
+      if (game.turnPhase !== 'AWAITING_AUCTION' || !auction) {
+        return callback({ success: false, error: 'noActiveAuction' });
+      }
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.isBankrupt) return callback({ success: false, error: 'notInRoom' });
+      if (!auction.bidders.includes(player.slot) || auction.passed.includes(player.slot)) {
+        return callback({ success: false, error: 'auctionNotBidder' });
+      }
+      if (auction.highBidderSlot === player.slot) {
+        return callback({ success: false, error: 'auctionLeaderCannotPass' });
+      }
+
+      const updated = await TinhTuyGame.findOneAndUpdate(
+        { roomId, turnPhase: 'AWAITING_AUCTION' },
+        { $addToSet: { 'auction.passed': player.slot } },
+        { new: true },
+      );
+      if (!updated?.auction) return callback({ success: false, error: 'noActiveAuction' });
+
+      io.to(roomId).emit('tinh-tuy:auction-pass', { slot: player.slot });
+      callback({ success: true });
+
+      if (getRemainingBidders(updated, updated.auction).length === 0) {
+        await finishAuction(io, roomId, true);
+      }
+    } catch (err: any) {
+      console.error('[tinh-tuy:auction-pass]', err.message);
+      callback({ success: false, error: 'auctionFailed' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (roomId) safetyRestartTimer(io, roomId);
+    }
+  });
+}
@@ -1,6 +1,6 @@
 /**
  * Tinh Tuy Dai Chien — Socket Gameplay Handlers
- * Phase 3: roll-dice (with cards + island), buy-property, skip-buy,
+ * Phase 3: roll-dice (with cards + island), buy-property, skip-buy (may open an auction),
  * build-house, build-hotel, escape-island, surrender, chat, reactions
  */
 import crypto from 'crypto';
@@ -12,10 +12,13 @@ import {
   getNextActivePlayer, checkGameEnd, checkNearWin, sendToIsland,
   handleIslandEscape, canBuildHouse, buildHouse, canBuildHotel, buildHotel,
   calculateRent, getSellPrice, getPropertyTotalSellValue, calculateSellableValue,
-  getEffectiveGoSalary, LATE_GAME_START,
+  getEffectiveGoSalary, getGameTimeRemaining, LATE_GAME_START,
 } from './tinh-tuy-engine';
 import { GO_SALARY, BOARD_SIZE, getCell, ISLAND_ESCAPE_COST, getUtilityRent, getStationRent, checkMonopolyCompleted, PROPERTY_GROUPS } from './tinh-tuy-board';
-import { startTurnTimer, clearTurnTimer, cleanupRoom, isRateLimited, safetyRestartTimer, negotiateTimers, clearNegotiateTimer } from './tinh-tuy-socket';
+import { startTurnTimer, clearTurnTimer, cleanupRoom, isRateLimited, safetyRestartTimer } from './tinh-tuy-socket';
+import { cancelTradesForSlot } from './tinh-tuy-socket-trade';
+import { startAuction } from './tinh-tuy-socket-auction';
+import { rateTinhTuyGame } from './ratingService';
 import { drawCard, getCardById, shuffleDeck, executeCardEffect, getKhiVanDeckIds, getCoHoiDeckIds, KHI_VAN_CARDS, CO_HOI_CARDS } from './tinh-tuy-cards';
 import {
   abilitiesEnabled, hasPassive, getGoSalaryBonus, getRentPayMultiplier, getMoneyLossMultiplier,
@@ -33,7 +36,7 @@ const CARD_CHOICE_EXTRA_MS = 30_000;
 // ─── Sloth Auto-Build Helper ─────────────────────────────────
 
 /** After monopoly completion, check if player is Sloth and auto-build 1 house */
-function handleSlothAutoBuild(
+export function handleSlothAutoBuild(
   io: SocketIOServer, game: ITinhTuyGame, player: ITinhTuyPlayer, group: string
 ): void {
   const slothResult = executeSlothAutoBuild(game, player, group);
@@ -114,7 +117,7 @@ async function executeShibaPostPick(
 
 // ─── Helpers ──────────────────────────────────────────────────
 
-function findPlayerBySocket(game: ITinhTuyGame, socket: Socket): ITinhTuyPlayer | undefined {
+export function findPlayerBySocket(game: ITinhTuyGame, socket: Socket): ITinhTuyPlayer | undefined {
   const playerId = socket.data.tinhTuyPlayerId as string;
   return game.players.find(
     p => (p.userId?.toString() === playerId) || (p.guestId === playerId)
@@ -131,13 +134,13 @@ function onPassGo(player: ITinhTuyPlayer): void {
   player.horsePassiveUsed = false;
 }
 
-async function finishGame(
+export async function finishGame(
   io: SocketIOServer, game: ITinhTuyGame, winner: ITinhTuyPlayer | undefined, reason: string
 ): Promise<void> {
   game.gameStatus = 'finished';
   game.finishedAt = new Date();
-  game.pendingNegotiate = null;
-  game.markModified('pendingNegotiate');
+  game.pendingTrades = [];
+  game.markModified('pendingTrades');
   if (winner) {
     game.winner = {
       slot: winner.slot, userId: winner.userId,
@@ -146,6 +149,7 @@ async function finishGame(
     };
   }
   await game.save();
+  await rateTinhTuyGame(game);
   cleanupRoom(game.roomId, true);
   io.to(game.roomId).emit('tinh-tuy:game-finished', { winner: game.winner, reason });
 }
@@ -248,14 +252,8 @@ async function checkBankruptcy(
   player.properties = [];
   player.houses = {} as Record<string, number>;
   player.hotels = {} as Record<string, boolean>;
-  // Auto-cancel pending negotiate if bankrupt player is involved
-  if (game.pendingNegotiate &&
-    (game.pendingNegotiate.fromSlot === player.slot || game.pendingNegotiate.toSlot === player.slot)) {
-    game.pendingNegotiate = null;
-    game.markModified('pendingNegotiate');
-    clearNegotiateTimer(game.roomId);
-    io.to(game.roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot: player.slot });
-  }
+  // Auto-cancel open trades the bankrupt player is part of
+  cancelTradesForSlot(io, game, player.slot);
   // Clear game-level festival if this player owned it
   if (game.festival && game.festival.slot === player.slot) {
     game.festival = null;
@@ -298,7 +296,7 @@ export function getPlayerBuffs(game: ITinhTuyGame): Array<{
   }));
 }
 
-async function advanceTurnOrDoubles(
+export async function advanceTurnOrDoubles(
   io: SocketIOServer, game: ITinhTuyGame, player: ITinhTuyPlayer
 ): Promise<void> {
   // Skip-next-turn flag (from card)
@@ -369,6 +367,15 @@ async function advanceTurnOrDoubles(
 }
 
 export async function advanceTurn(io: SocketIOServer, game: ITinhTuyGame, _skipRecurse = false): Promise<void> {
+  // Auction interrupted (e.g. the declining player surrendered) — drop it with the turn
+  if (game.auction) game.auction = null;
+
+  // Timed mode: clock ran out but the clock timer never marked it (lost on restart) — this round is the last
+  if (game.finalRound == null && getGameTimeRemaining(game) === 0) {
+    game.finalRound = game.round;
+    io.to(game.roomId).emit('tinh-tuy:final-round', { round: game.round });
+  }
+
   const nextSlot = getNextActivePlayer(game.players, game.currentPlayerSlot);
   if (nextSlot <= game.currentPlayerSlot) {
     game.round += 1;
@@ -1458,7 +1465,7 @@ async function handleGoBonus(
 /** Emit near-win warning if a player is 1 step from domination victory.
  *  Deduped: each unique warning fires once, but resets if condition is broken
  *  (e.g. opponent steals/swaps/destroys) so it can fire again when rebuilt. */
-function emitNearWinWarning(io: SocketIOServer, game: ITinhTuyGame, player: ITinhTuyPlayer) {
+export function emitNearWinWarning(io: SocketIOServer, game: ITinhTuyGame, player: ITinhTuyPlayer) {
   const warning = checkNearWin(player);
   if (!game.nearWinAlerted) game.nearWinAlerted = {};
 
@@ -1571,53 +1578,6 @@ function applyForcedTrade(
   emitNearWinWarning(io, game, oppOwner);
 }
 
-/** Negotiate trade: buyer purchases a property from seller at offered price. One-directional buy. */
-function applyNegotiateTrade(
-  game: ITinhTuyGame, buyerSlot: number, sellerSlot: number, cellIndex: number, price: number, io: SocketIOServer
-): boolean {
-  const buyer = game.players.find(p => p.slot === buyerSlot);
-  const seller = game.players.find(p => p.slot === sellerSlot);
-  if (!buyer || !seller) return false;
-  if (buyer.points < price) return false;
-  if (!seller.properties.includes(cellIndex)) return false;
-
-  // Transfer money
-  buyer.points -= price;
-  seller.points += price;
-
-  // Transfer property + buildings
-  const key = String(cellIndex);
-  const houses = (seller.houses || {})[key] || 0;
-  const hotel = !!(seller.hotels || {})[key];
-  seller.properties = seller.properties.filter(idx => idx !== cellIndex);
-  delete (seller.houses as any)[key];
-  delete (seller.hotels as any)[key];
-  buyer.properties.push(cellIndex);
-  if (houses > 0) (buyer.houses as any)[key] = houses;
-  if (hotel) (buyer.hotels as any)[key] = true;
-
-  // Transfer festival if on this cell
-  if (game.festival && game.festival.cellIndex === cellIndex && game.festival.slot === sellerSlot) {
-    game.festival = { ...game.festival, slot: buyerSlot };
-    game.markModified('festival');
-  }
-
-  game.markModified('players');
-
-  // Check monopoly completion for buyer
-  const buyerGroup = checkMonopolyCompleted(cellIndex, buyer.properties);
-  if (buyerGroup) {
-    io.to(game.roomId).emit('tinh-tuy:monopoly-completed', {
-      slot: buyerSlot, group: buyerGroup, cellIndices: PROPERTY_GROUPS[buyerGroup],
-    });
-    handleSlothAutoBuild(io, game, buyer, buyerGroup);
-  }
-
-  emitNearWinWarning(io, game, buyer);
-  emitNearWinWarning(io, game, seller); // Clear stale keys if seller's near-win was broken
-  return true;
-}
-
 /** Eminent Domain: force-buy opponent's property at original price, transfer with houses */
 function applyEminentDomain(
   game: ITinhTuyGame,
@@ -2203,6 +2163,12 @@ export function registerGameplayHandlers(io: SocketIOServer, socket: Socket): vo
       }
 
       clearTurnTimer(roomId);
+
+      // Auction rule: the declined property goes to the highest bidder instead of staying unowned
+      if (game.settings.auctionEnabled && await startAuction(io, game, player)) {
+        return callback({ success: true, auction: true });
+      }
+
       game.turnPhase = 'END_TURN';
       await game.save();
 
@@ -3253,6 +3219,7 @@ export function registerGameplayHandlers(io: SocketIOServer, socket: Socket): vo
       player.properties = [];
       player.houses = {} as Record<string, number>;
       player.hotels = {} as Record<string, boolean>;
+      cancelTradesForSlot(io, game, player.slot);
       // Clear game-level festival if this player owned it
   if (game.festival && game.festival.slot === player.slot) {
     game.festival = null;
@@ -3355,194 +3322,6 @@ export function registerGameplayHandlers(io: SocketIOServer, socket: Socket): vo
     }
   });
 
-  // ── Negotiate: Send Offer ──────────────────────────────────────
-  socket.on('tinh-tuy:negotiate-send', async (data: any, callback: TinhTuyCallback) => {
-    try {
-      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
-      const roomId = socket.data.tinhTuyRoomId as string;
-      if (!roomId) return callback({ success: false, error: 'notInRoom' });
-
-      const game = await TinhTuyGame.findOne({ roomId });
-      if (!game || game.gameStatus !== 'playing') return callback({ success: false, error: 'gameNotActive' });
-
-      const player = findPlayerBySocket(game, socket);
-      if (!player || player.isBankrupt) return callback({ success: false, error: 'notAllowed' });
-
-      // Must be round >= 40
-      if ((game.round || 0) < 40) return callback({ success: false, error: 'negotiateTooEarly' });
-
-      // No pending negotiate
-      if (game.pendingNegotiate) return callback({ success: false, error: 'negotiateAlreadyPending' });
-
-      // Check cooldown
-      const cd = (game.negotiateCooldowns || {})[String(player.slot)] || 0;
-      if (cd > (game.round || 0)) return callback({ success: false, error: 'negotiateCooldown' });
-
-      const { targetSlot, cellIndex, offerAmount } = data || {};
-      if (typeof targetSlot !== 'number' || typeof cellIndex !== 'number' || typeof offerAmount !== 'number') {
-        return callback({ success: false, error: 'invalidPayload' });
-      }
-
-      // Validate offer amount
-      if (offerAmount < 1 || offerAmount > player.points) {
-        return callback({ success: false, error: 'negotiateInsufficientFunds' });
-      }
-
-      // Validate target
-      const target = game.players.find(p => p.slot === targetSlot);
-      if (!target || target.isBankrupt || target.slot === player.slot) {
-        return callback({ success: false, error: 'negotiateInvalidTarget' });
-      }
-
-      // Validate target owns cell
-      if (!target.properties.includes(cellIndex)) {
-        return callback({ success: false, error: 'negotiatePropertyGone' });
-      }
-
-      // Set pending negotiate
-      game.pendingNegotiate = { fromSlot: player.slot, toSlot: targetSlot, cellIndex, offerAmount };
-      game.markModified('pendingNegotiate');
-      await game.save();
-
-      io.to(roomId).emit('tinh-tuy:negotiate-incoming', {
-        fromSlot: player.slot, toSlot: targetSlot, cellIndex, offerAmount,
-      });
-
-      // 60s timeout — auto-cancel if no response
-      negotiateTimers.set(roomId, setTimeout(async () => {
-        negotiateTimers.delete(roomId);
-        try {
-          const g = await TinhTuyGame.findOne({ roomId });
-          if (!g || !g.pendingNegotiate) return;
-          g.pendingNegotiate = null;
-          g.markModified('pendingNegotiate');
-          await g.save();
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot: player.slot });
-        } catch (err) { console.error('[tinh-tuy] Negotiate timeout error:', err); }
-      }, 60_000));
-
-      callback({ success: true });
-    } catch (err: any) {
-      console.error('[tinh-tuy:negotiate-send]', err.message);
-      callback({ success: false, error: 'negotiateFailed' });
-    }
-  });
-
-  // ── Negotiate: Respond (Accept/Reject) ─────────────────────────
-  socket.on('tinh-tuy:negotiate-respond', async (data: any, callback: TinhTuyCallback) => {
-    try {
-      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
-      const roomId = socket.data.tinhTuyRoomId as string;
-      if (!roomId) return callback({ success: false, error: 'notInRoom' });
-
-      const game = await TinhTuyGame.findOne({ roomId });
-      if (!game || game.gameStatus !== 'playing') return callback({ success: false, error: 'gameNotActive' });
-      if (!game.pendingNegotiate) return callback({ success: false, error: 'noPendingNegotiate' });
-
-      const player = findPlayerBySocket(game, socket);
-      if (!player || player.slot !== game.pendingNegotiate.toSlot) {
-        return callback({ success: false, error: 'notNegotiateTarget' });
-      }
-
-      const { accept } = data || {};
-      const { fromSlot, toSlot, cellIndex, offerAmount } = game.pendingNegotiate;
-      clearNegotiateTimer(roomId);
-
-      if (accept) {
-        // Re-validate before executing
-        const buyer = game.players.find(p => p.slot === fromSlot);
-        const seller = game.players.find(p => p.slot === toSlot);
-        if (!buyer || !seller || buyer.isBankrupt || seller.isBankrupt) {
-          game.pendingNegotiate = null;
-          game.markModified('pendingNegotiate');
-          await game.save();
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot });
-          return callback({ success: false, error: 'negotiateInvalidTarget' });
-        }
-        if (buyer.points < offerAmount) {
-          game.pendingNegotiate = null;
-          game.markModified('pendingNegotiate');
-          await game.save();
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot });
-          return callback({ success: false, error: 'negotiateInsufficientFunds' });
-        }
-        if (!seller.properties.includes(cellIndex)) {
-          game.pendingNegotiate = null;
-          game.markModified('pendingNegotiate');
-          await game.save();
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot });
-          return callback({ success: false, error: 'negotiatePropertyGone' });
-        }
-
-        // Execute trade
-        const success = applyNegotiateTrade(game, fromSlot, toSlot, cellIndex, offerAmount, io);
-        if (!success) {
-          game.pendingNegotiate = null;
-          game.markModified('pendingNegotiate');
-          await game.save();
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot });
-          return callback({ success: false, error: 'negotiateFailed' });
-        }
-
-        game.pendingNegotiate = null;
-        game.markModified('pendingNegotiate');
-        await game.save();
-
-        io.to(roomId).emit('tinh-tuy:negotiate-completed', {
-          accepted: true, fromSlot, toSlot, cellIndex, offerAmount,
-          festival: game.festival,
-        });
-      } else {
-        // Rejected — set cooldown for requester (5 rounds)
-        const cooldowns = game.negotiateCooldowns || {};
-        cooldowns[String(fromSlot)] = (game.round || 0) + 5;
-        game.negotiateCooldowns = cooldowns;
-        game.markModified('negotiateCooldowns');
-
-        game.pendingNegotiate = null;
-        game.markModified('pendingNegotiate');
-        await game.save();
-
-        io.to(roomId).emit('tinh-tuy:negotiate-completed', {
-          accepted: false, fromSlot, toSlot, cooldownUntilRound: cooldowns[String(fromSlot)],
-        });
-      }
-
-      callback({ success: true });
-    } catch (err: any) {
-      console.error('[tinh-tuy:negotiate-respond]', err.message);
-      callback({ success: false, error: 'negotiateFailed' });
-    }
-  });
-
-  // ── Negotiate: Cancel (requester cancels) ──────────────────────
-  socket.on('tinh-tuy:negotiate-cancel', async (_data: any, callback: TinhTuyCallback) => {
-    try {
-      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
-      const roomId = socket.data.tinhTuyRoomId as string;
-      if (!roomId) return callback({ success: false, error: 'notInRoom' });
-
-      const game = await TinhTuyGame.findOne({ roomId });
-      if (!game || !game.pendingNegotiate) return callback({ success: false, error: 'noPendingNegotiate' });
-
-      const player = findPlayerBySocket(game, socket);
-      if (!player || player.slot !== game.pendingNegotiate.fromSlot) {
-        return callback({ success: false, error: 'notNegotiateRequester' });
-      }
-
-      clearNegotiateTimer(roomId);
-      game.pendingNegotiate = null;
-      game.markModified('pendingNegotiate');
-      await game.save();
-
-      io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot: player.slot });
-      callback({ success: true });
-    } catch (err: any) {
-      console.error('[tinh-tuy:negotiate-cancel]', err.message);
-      callback({ success: false, error: 'negotiateFailed' });
-    }
-  });
-
   // ── Use Active Ability ──────────────────────────────────────
   socket.on('tinh-tuy:use-ability', async (data: any, callback: TinhTuyCallback) => {
     try {
@@ -7,13 +7,16 @@ import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 import TinhTuyGame from '../models/TinhTuyGame';
 import { TinhTuyCallback, TinhTuyCharacter, VALID_CHARACTERS, ITinhTuyPlayer } from '../types/tinh-tuy.types';
-import { generateUniqueRoomCode } from './tinh-tuy-engine';
+import { generateUniqueRoomCode, MIN_TIME_LIMIT, MAX_TIME_LIMIT, DEFAULT_TIME_LIMIT } from './tinh-tuy-engine';
 import { shuffleDeck, getKhiVanDeckIds, getCoHoiDeckIds, getCardById } from './tinh-tuy-cards';
 import {
   activePlayerSockets, disconnectTimers, roomPlayerNames, activeTimers,
   resolvePlayerName, cachePlayerName, cachePlayerDevice,
-  getDeviceType, cleanupRoom, startTurnTimer, RECONNECT_WINDOW_MS,
+  getDeviceType, cleanupRoom, startTurnTimer, armGameClock, RECONNECT_WINDOW_MS,
 } from './tinh-tuy-socket';
+import { armTradeTimers, cancelTradesForSlot } from './tinh-tuy-socket-trade';
+import { addSpectator, removeSpectator, getSpectators, isSpectating, clearSpectators } from './spectatorService';
+import { rateTinhTuyGame } from './ratingService';
 
 // Input validation helpers
 const ROOM_CODE_REGEX = /^[A-Z0-9]{6}$/;
@@ -22,6 +25,13 @@ function sanitizeString(val: any, maxLen = 50): string {
   return val.replace(/[\x00-\x1f]/g, '').trim().slice(0, maxLen);
 }
 
+/** Clamp a timed-mode limit (minutes); missing or invalid falls back to the default */
+function normalizeTimeLimit(val: any): number {
+  const minutes = Math.round(Number(val));
+  if (!Number.isFinite(minutes) || minutes <= 0) return DEFAULT_TIME_LIMIT;
+  return Math.min(Math.max(minutes, MIN_TIME_LIMIT), MAX_TIME_LIMIT);
+}
+
 /** Return first character not taken by existing players */
 function getFirstAvailableCharacter(players: ITinhTuyPlayer[]): TinhTuyCharacter {
   const taken = new Set(players.map(p => p.character));
@@ -59,10 +69,11 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
           maxPlayers: Math.min(Math.max(settings.maxPlayers || 4, 2), 4),
           startingPoints,
           gameMode: settings.gameMode || 'classic',
-          timeLimit: settings.timeLimit || null,
+          timeLimit: settings.gameMode === 'timed' ? normalizeTimeLimit(settings.timeLimit) : null,
           maxRounds: settings.maxRounds || null,
           turnDuration: settings.turnDuration || 60,
           abilitiesEnabled: settings.abilitiesEnabled !== false,
+          auctionEnabled: settings.auctionEnabled === true,
           password: hashedPassword,
         },
         players: [{
@@ -110,7 +121,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
   // ── Join Room ────────────────────────────────────────────────
   socket.on('tinh-tuy:join-room', async (data: any, callback: TinhTuyCallback) => {
     try {
-      const { roomCode, password, guestId, guestName, userId } = data;
+      const { roomCode, password, guestId, guestName, userId, spectate } = data;
       const sanitizedCode = sanitizeString(roomCode, 6).toUpperCase();
       if (!sanitizedCode || !ROOM_CODE_REGEX.test(sanitizedCode)) {
         return callback({ success: false, error: 'invalidRoomCode' });
@@ -164,6 +175,12 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
           reconnected: true, game: gameObj,
         });
 
+        // Game clock is in memory only — re-arm it from gameStartedAt (no-op if already running)
+        if (game.gameStatus === 'playing') {
+          armGameClock(io, game);
+          armTradeTimers(io, game);
+        }
+
         // ── Timer recovery after server restart ──
         // If game is playing but no turn timer exists (lost on restart), restart it
         if (game.gameStatus === 'playing' && !activeTimers.has(game.roomId)) {
@@ -198,6 +215,10 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
                     await advanceTurn(io, gg);
                   } catch (err) { console.error('[tinh-tuy] Recovered turn timeout:', err); }
                 });
+              } else if (phase === 'AWAITING_AUCTION') {
+                // Auction countdown was lost — settle it with the bids placed so far
+                const { finishAuction } = await import('./tinh-tuy-socket-auction');
+                await finishAuction(io, roomId, true);
               } else {
                 // Any AWAITING_* phase — auto-advance since timers were lost
                 g.turnPhase = 'END_TURN';
@@ -215,6 +236,27 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
         return;
       }
 
+      // Spectate: watch read-only without taking a slot (full room or game in progress)
+      if (spectate) {
+        if (game.settings.password) {
+          if (!password) return callback({ success: false, error: 'passwordRequired' });
+          const valid = await bcrypt.compare(password, game.settings.password);
+          if (!valid) return callback({ success: false, error: 'incorrectPassword' });
+        }
+
+        const spectatorName = await resolvePlayerName(userId, guestId, guestName);
+        if (!addSpectator(io, socket, game.roomId, { id: playerId, name: spectatorName, isGuest: !userId })) {
+          return callback({ success: false, error: 'tooManySpectators' });
+        }
+
+        const gameObj = game.toObject();
+        if (gameObj.settings) delete (gameObj.settings as any).password;
+        return callback({
+          success: true, roomId: game.roomId, roomCode: game.roomCode,
+          isSpectator: true, game: gameObj, spectators: getSpectators(game.roomId),
+        });
+      }
+
       // New player join
       if (game.gameStatus !== 'waiting') {
         return callback({ success: false, error: 'gameAlreadyStarted' });
@@ -278,6 +320,12 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
   // ── Leave Room ───────────────────────────────────────────────
   socket.on('tinh-tuy:leave-room', async (data: any, callback: TinhTuyCallback) => {
     try {
+      // Spectators just stop watching
+      if (isSpectating(socket)) {
+        removeSpectator(io, socket);
+        return callback({ success: true });
+      }
+
       const roomId = socket.data.tinhTuyRoomId as string;
       const playerId = socket.data.tinhTuyPlayerId as string;
       if (!roomId || !playerId) return callback({ success: false, error: 'notInRoom' });
@@ -304,6 +352,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
           } else {
             game.gameStatus = 'abandoned';
             cleanupRoom(roomId, true);
+            clearSpectators(io, roomId);
           }
         }
         await game.save();
@@ -314,6 +363,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
         player.properties = [];
         player.houses = {} as Record<string, number>;
         player.hotels = {} as Record<string, boolean>;
+        cancelTradesForSlot(io, game, player.slot);
         game.markModified('players');
         await game.save();
         io.to(roomId).emit('tinh-tuy:player-surrendered', { slot: player.slot });
@@ -332,6 +382,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
             };
           }
           await game.save();
+          await rateTinhTuyGame(game);
           cleanupRoom(roomId);
           io.to(roomId).emit('tinh-tuy:game-finished', { winner: game.winner, reason: 'lastStanding' });
         } else if (game.currentPlayerSlot === player.slot) {
@@ -407,6 +458,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
       game.turnStartedAt = new Date();
       game.gameStartedAt = new Date();
       game.round = 1;
+      game.finalRound = null;
 
       // Initialize card decks (shuffled)
       game.luckCardDeck = shuffleDeck(getKhiVanDeckIds());
@@ -419,6 +471,7 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
       io.to(roomId).emit('tinh-tuy:game-started', {
         game: game.toObject(),
       });
+      armGameClock(io, game);
 
       // Start turn timer for first turn
       startTurnTimer(roomId, game.settings.turnDuration * 1000, async () => {
@@ -550,6 +603,12 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
       game.winner = undefined;
       game.finishedAt = undefined;
       game.gameStartedAt = undefined;
+      game.finalRound = null;
+      game.pendingTrades = [];
+      game.tradeLog = [];
+      game.tradeCooldowns = {};
+      game.markModified('tradeCooldowns');
+      game.auction = null;
       game.festival = null as any;
       game.lastDiceResult = null as any;
       game.round = 0;
@@ -623,10 +682,14 @@ export function registerRoomHandlers(io: SocketIOServer, socket: Socket): void {
           game.players.forEach(p => { p.points = settings.startingPoints; });
         }
         if (settings.gameMode) game.settings.gameMode = settings.gameMode;
-        if (settings.timeLimit != null) game.settings.timeLimit = settings.timeLimit;
+        if (settings.timeLimit != null) game.settings.timeLimit = normalizeTimeLimit(settings.timeLimit);
+        if (game.settings.gameMode === 'timed' && !game.settings.timeLimit) {
+          game.settings.timeLimit = DEFAULT_TIME_LIMIT;
+        }
         if (settings.maxRounds != null) game.settings.maxRounds = settings.maxRounds;
         if (settings.turnDuration != null) game.settings.turnDuration = settings.turnDuration;
         if (settings.abilitiesEnabled != null) game.settings.abilitiesEnabled = settings.abilitiesEnabled;
+        if (settings.auctionEnabled != null) game.settings.auctionEnabled = settings.auctionEnabled === true;
       }
       await game.save();
 
@@ -0,0 +1,385 @@
+/**
+ * Tinh Tuy Dai Chien — Socket Trade Handlers
+ * trade-propose, trade-counter, trade-respond, trade-cancel.
+ * A trade bundles properties, cash and held cards on both sides; several trades can be
+ * open at once (one per pair of players) and every resolved trade lands in the trade log.
+ */
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import TinhTuyGame from '../models/TinhTuyGame';
+import {
+  TinhTuyCallback, ITinhTuyGame, ITinhTuyPlayer, ITinhTuyTrade, ITinhTuyTradeAssets, TinhTuyTradeStatus,
+} from '../types/tinh-tuy.types';
+import { checkGameEnd } from './tinh-tuy-engine';
+import { checkMonopolyCompleted, PROPERTY_GROUPS } from './tinh-tuy-board';
+import { isRateLimited, tradeTimers, clearTradeTimer } from './tinh-tuy-socket';
+import { findPlayerBySocket, finishGame, emitNearWinWarning, handleSlothAutoBuild } from './tinh-tuy-socket-gameplay';
+
+const TRADE_EXPIRY_MS = 90_000;
+const TRADE_REJECT_COOLDOWN_ROUNDS = 3;
+const TRADE_LOG_MAX = 30;
+const TRADE_MAX_CELLS = 12;
+/** Held cards that may change hands */
+const TRADABLE_CARDS = ['escape-island', 'shield'];
+/** Phases in which the current player's assets may change hands (no pending choice on the board) */
+const TRADE_SAFE_PHASES = ['ROLL_DICE', 'ISLAND_TURN', 'END_TURN'];
+
+// ─── Asset Helpers ────────────────────────────────────────────
+
+/** Normalize client-sent assets; returns null when the shape is invalid */
+function parseAssets(raw: any): ITinhTuyTradeAssets | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const cells = Array.isArray(raw.cells) ? raw.cells : [];
+  const cards = Array.isArray(raw.cards) ? raw.cards : [];
+  const points = raw.points == null ? 0 : raw.points;
+  if (!cells.every((c: any) => Number.isInteger(c))) return null;
+  if (!cards.every((c: any) => typeof c === 'string')) return null;
+  if (!Number.isInteger(points) || points < 0) return null;
+  const uniqueCells = [...new Set<number>(cells)];
+  if (uniqueCells.length > TRADE_MAX_CELLS || cards.length > TRADABLE_CARDS.length * 2) return null;
+  return { cells: uniqueCells, points, cards };
+}
+
+function isEmptyAssets(assets: ITinhTuyTradeAssets): boolean {
+  return assets.cells.length === 0 && assets.points === 0 && assets.cards.length === 0;
+}
+
+/** Check a player can hand over the given assets; returns an error code or null */
+function getAssetsError(player: ITinhTuyPlayer, assets: ITinhTuyTradeAssets): string | null {
+  if (assets.cells.some(idx => !player.properties.includes(idx))) return 'tradePropertyGone';
+  if (assets.points > player.points) return 'tradeInsufficientFunds';
+  const held = [...player.cards];
+  for (const cardId of assets.cards) {
+    if (!TRADABLE_CARDS.includes(cardId)) return 'tradeInvalidCard';
+    const idx = held.indexOf(cardId);
+    if (idx === -1) return 'tradeCardGone';
+    held.splice(idx, 1);
+  }
+  return null;
+}
+
+/** Full validation of a trade between two slots; returns an error code or null */
+function getTradeError(
+  game: ITinhTuyGame, fromSlot: number, toSlot: number,
+  offer: ITinhTuyTradeAssets, request: ITinhTuyTradeAssets,
+): string | null {
+  const from = game.players.find(p => p.slot === fromSlot);
+  const to = game.players.find(p => p.slot === toSlot);
+  if (!from || !to || from.isBankrupt || to.isBankrupt || fromSlot === toSlot) return 'tradeInvalidTarget';
+  if (isEmptyAssets(offer) || isEmptyAssets(request)) return 'tradeEmpty';
+  return getAssetsError(from, offer) || getAssetsError(to, request);
+}
+
+/** Move assets from giver to receiver — properties keep their buildings and festival */
+function transferAssets(
+  game: ITinhTuyGame, giver: ITinhTuyPlayer, receiver: ITinhTuyPlayer, assets: ITinhTuyTradeAssets,
+): void {
+  giver.points -= assets.points;
+  receiver.points += assets.points;
+
+  for (const cellIndex of assets.cells) {
+    const key = String(cellIndex);
+    const houses = (giver.houses || {})[key] || 0;
+    const hotel = !!(giver.hotels || {})[key];
+    giver.properties = giver.properties.filter(idx => idx !== cellIndex);
+    delete (giver.houses as any)[key];
+    delete (giver.hotels as any)[key];
+    receiver.properties.push(cellIndex);
+    if (houses > 0) (receiver.houses as any)[key] = houses;
+    if (hotel) (receiver.hotels as any)[key] = true;
+
+    if (game.festival && game.festival.cellIndex === cellIndex && game.festival.slot === giver.slot) {
+      game.festival = { ...game.festival, slot: receiver.slot };
+      game.markModified('festival');
+    }
+  }
+
+  for (const cardId of assets.cards) {
+    const idx = giver.cards.indexOf(cardId);
+    if (idx !== -1) {
+      giver.cards.splice(idx, 1);
+      receiver.cards.push(cardId);
+    }
+  }
+}
+
+/** Asset snapshot of a player after a trade — clients replace these fields */
+function tradeSnapshot(player: ITinhTuyPlayer) {
+  return {
+    slot: player.slot, points: player.points, properties: [...player.properties],
+    houses: { ...player.houses }, hotels: { ...player.hotels }, cards: [...player.cards],
+  };
+}
+
+// ─── Trade Lifecycle ──────────────────────────────────────────
+
+/** Remove a pending trade and record it in the log. Caller saves the game. */
+function resolveTrade(game: ITinhTuyGame, trade: ITinhTuyTrade, status: TinhTuyTradeStatus) {
+  clearTradeTimer(game.roomId, trade.id);
+  game.pendingTrades = (game.pendingTrades || []).filter(t => t.id !== trade.id);
+  const entry = {
+    id: trade.id, fromSlot: trade.fromSlot, toSlot: trade.toSlot,
+    offer: trade.offer, request: trade.request,
+    status, round: game.round || 0, resolvedAt: new Date(),
+  };
+  game.tradeLog = [...(game.tradeLog || []), entry].slice(-TRADE_LOG_MAX);
+  game.markModified('pendingTrades');
+  game.markModified('tradeLog');
+  return entry;
+}
+
+/** Cancel every open trade involving a slot (bankruptcy, surrender, disconnect). Caller saves the game. */
+export function cancelTradesForSlot(io: SocketIOServer, game: ITinhTuyGame, slot: number): void {
+  const affected = (game.pendingTrades || []).filter(t => t.fromSlot === slot || t.toSlot === slot);
+  for (const trade of affected) {
+    const entry = resolveTrade(game, trade, 'cancelled');
+    io.to(game.roomId).emit('tinh-tuy:trade-resolved', { tradeId: trade.id, status: 'cancelled', entry });
+  }
+}
+
+/** Start the expiry timer of a pending trade (remaining time derived from expiresAt) */
+function armTradeTimer(io: SocketIOServer, roomId: string, trade: ITinhTuyTrade): void {
+  const key = `${roomId}:${trade.id}`;
+  if (tradeTimers.has(key)) return;
+  const delay = Math.max(0, new Date(trade.expiresAt).getTime() - Date.now());
+  tradeTimers.set(key, setTimeout(async () => {
+    tradeTimers.delete(key);
+    try {
+      const g = await TinhTuyGame.findOne({ roomId });
+      const pending = g?.pendingTrades?.find(t => t.id === trade.id);
+      if (!g || !pending) return;
+      const entry = resolveTrade(g, pending, 'expired');
+      await g.save();
+      io.to(roomId).emit('tinh-tuy:trade-resolved', { tradeId: pending.id, status: 'expired', entry });
+    } catch (err) { console.error('[tinh-tuy] Trade expiry error:', err); }
+  }, delay));
+}
+
+/** Re-arm expiry timers after a server restart (timers are in memory only) */
+export function armTradeTimers(io: SocketIOServer, game: ITinhTuyGame): void {
+  for (const trade of game.pendingTrades || []) armTradeTimer(io, game.roomId, trade);
+}
+
+/** Validate and open a new trade proposal; returns an error code or the trade */
+function openTrade(
+  game: ITinhTuyGame, fromSlot: number, toSlot: number,
+  offer: ITinhTuyTradeAssets, request: ITinhTuyTradeAssets, counterOf: string | null,
+): { error: string } | { trade: ITinhTuyTrade } {
+  const error = getTradeError(game, fromSlot, toSlot, offer, request);
+  if (error) return { error };
+
+  // One open trade per pair of players
+  const pairBusy = (game.pendingTrades || []).some(t =>
+    (t.fromSlot === fromSlot && t.toSlot === toSlot) || (t.fromSlot === toSlot && t.toSlot === fromSlot)
+  );
+  if (pairBusy) return { error: 'tradeAlreadyPending' };
+
+  const now = Date.now();
+  const trade: ITinhTuyTrade = {
+    id: uuidv4(), fromSlot, toSlot, offer, request, counterOf,
+    createdAt: new Date(now), expiresAt: new Date(now + TRADE_EXPIRY_MS),
+  };
+  game.pendingTrades = [...(game.pendingTrades || []), trade];
+  game.markModified('pendingTrades');
+  return { trade };
+}
+
+/** After a trade: announce completed monopolies, Sloth auto-build, near-win warnings */
+function afterTradeChecks(
+  io: SocketIOServer, game: ITinhTuyGame, from: ITinhTuyPlayer, to: ITinhTuyPlayer, trade: ITinhTuyTrade,
+): void {
+  const received: Array<[ITinhTuyPlayer, number[]]> = [[to, trade.offer.cells], [from, trade.request.cells]];
+  for (const [receiver, cells] of received) {
+    const groups = new Set<string>();
+    for (const cellIndex of cells) {
+      const group = checkMonopolyCompleted(cellIndex, receiver.properties);
+      if (group) groups.add(group);
+    }
+    for (const group of groups) {
+      io.to(game.roomId).emit('tinh-tuy:monopoly-completed', {
+        slot: receiver.slot, group, cellIndices: PROPERTY_GROUPS[group as keyof typeof PROPERTY_GROUPS],
+      });
+      handleSlothAutoBuild(io, game, receiver, group);
+    }
+  }
+  emitNearWinWarning(io, game, from);
+  emitNearWinWarning(io, game, to);
+}
+
+// ─── Socket Handlers ──────────────────────────────────────────
+
+export function registerTradeHandlers(io: SocketIOServer, socket: Socket): void {
+  // ── Propose Trade ──────────────────────────────────────────
+  socket.on('tinh-tuy:trade-propose', async (data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game || game.gameStatus !== 'playing') return callback({ success: false, error: 'gameNotActive' });
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.isBankrupt) return callback({ success: false, error: 'notAllowed' });
+
+      const { toSlot } = data || {};
+      const offer = parseAssets(data?.offer);
+      const request = parseAssets(data?.request);
+      if (typeof toSlot !== 'number' || !offer || !request) {
+        return callback({ success: false, error: 'invalidPayload' });
+      }
+
+      // Cooldown after this pair's last rejection
+      const cd = (game.tradeCooldowns || {})[`${player.slot}:${toSlot}`] || 0;
+      if (cd > (game.round || 0)) return callback({ success: false, error: 'tradeCooldown' });
+
+      const result = openTrade(game, player.slot, toSlot, offer, request, null);
+      if ('error' in result) return callback({ success: false, error: result.error });
+
+      await game.save();
+      io.to(roomId).emit('tinh-tuy:trade-proposed', { trade: result.trade });
+      armTradeTimer(io, roomId, result.trade);
+      callback({ success: true });
+    } catch (err: any) {
+      console.error('[tinh-tuy:trade-propose]', err.message);
+      callback({ success: false, error: 'tradeFailed' });
+    }
+  });
+
+  // ── Counter-Offer (recipient replaces the trade with their own terms) ──
+  socket.on('tinh-tuy:trade-counter', async (data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game || game.gameStatus !== 'playing') return callback({ success: false, error: 'gameNotActive' });
+
+      const trade = (game.pendingTrades || []).find(t => t.id === data?.tradeId);
+      if (!trade) return callback({ success: false, error: 'noPendingTrade' });
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.slot !== trade.toSlot) return callback({ success: false, error: 'notTradeTarget' });
+
+      const offer = parseAssets(data?.offer);
+      const request = parseAssets(data?.request);
+      if (!offer || !request) return callback({ success: false, error: 'invalidPayload' });
+
+      const countered = resolveTrade(game, trade, 'countered');
+      const result = openTrade(game, player.slot, trade.fromSlot, offer, request, trade.id);
+      if ('error' in result) {
+        armTradeTimer(io, roomId, trade); // Original stays open — nothing was saved
+        return callback({ success: false, error: result.error });
+      }
+
+      await game.save();
+      io.to(roomId).emit('tinh-tuy:trade-resolved', { tradeId: trade.id, status: 'countered', entry: countered });
+      io.to(roomId).emit('tinh-tuy:trade-proposed', { trade: result.trade });
+      armTradeTimer(io, roomId, result.trade);
+      callback({ success: true });
+    } catch (err: any) {
+      console.error('[tinh-tuy:trade-counter]', err.message);
+      callback({ success: false, error: 'tradeFailed' });
+    }
+  });
+
+  // ── Respond (Accept/Reject) ────────────────────────────────
+  socket.on('tinh-tuy:trade-respond', async (data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game || game.gameStatus !== 'playing') return callback({ success: false, error: 'gameNotActive' });
+
+      const trade = (game.pendingTrades || []).find(t => t.id === data?.tradeId);
+      if (!trade) return callback({ success: false, error: 'noPendingTrade' });
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.slot !== trade.toSlot) return callback({ success: false, error: 'notTradeTarget' });
+
+      if (!data?.accept) {
+        const cooldowns = game.tradeCooldowns || {};
+        cooldowns[`${trade.fromSlot}:${trade.toSlot}`] = (game.round || 0) + TRADE_REJECT_COOLDOWN_ROUNDS;
+        game.tradeCooldowns = cooldowns;
+        game.markModified('tradeCooldowns');
+        const entry = resolveTrade(game, trade, 'rejected');
+        await game.save();
+        io.to(roomId).emit('tinh-tuy:trade-resolved', {
+          tradeId: trade.id, status: 'rejected', entry,
+          cooldownUntilRound: cooldowns[`${trade.fromSlot}:${trade.toSlot}`],
+        });
+        return callback({ success: true });
+      }
+
+      // Current player mid-action (buying, card choice, selling...) — try again later
+      const involvesCurrent = game.currentPlayerSlot === trade.fromSlot || game.currentPlayerSlot === trade.toSlot;
+      if (involvesCurrent && !TRADE_SAFE_PHASES.includes(game.turnPhase)) {
+        return callback({ success: false, error: 'tradeBusy' });
+      }
+
+      // Re-validate — assets may have changed since the proposal
+      const error = getTradeError(game, trade.fromSlot, trade.toSlot, trade.offer, trade.request);
+      if (error) {
+        const entry = resolveTrade(game, trade, 'cancelled');
+        await game.save();
+        io.to(roomId).emit('tinh-tuy:trade-resolved', { tradeId: trade.id, status: 'cancelled', entry });
+        return callback({ success: false, error });
+      }
+
+      const from = game.players.find(p => p.slot === trade.fromSlot)!;
+      const to = game.players.find(p => p.slot === trade.toSlot)!;
+      transferAssets(game, from, to, trade.offer);
+      transferAssets(game, to, from, trade.request);
+      game.markModified('players');
+
+      const entry = resolveTrade(game, trade, 'accepted');
+      afterTradeChecks(io, game, from, to, trade);
+      await game.save();
+
+      io.to(roomId).emit('tinh-tuy:trade-resolved', {
+        tradeId: trade.id, status: 'accepted', entry,
+        players: [tradeSnapshot(from), tradeSnapshot(to)],
+        festival: game.festival,
+      });
+      callback({ success: true });
+
+      // A trade can complete a domination win
+      const endCheck = checkGameEnd(game);
+      if (endCheck.ended) {
+        await finishGame(io, game, endCheck.winner, endCheck.reason || 'edgeDomination');
+      }
+    } catch (err: any) {
+      console.error('[tinh-tuy:trade-respond]', err.message);
+      callback({ success: false, error: 'tradeFailed' });
+    }
+  });
+
+  // ── Cancel (proposer withdraws) ────────────────────────────
+  socket.on('tinh-tuy:trade-cancel', async (data: any, callback: TinhTuyCallback) => {
+    try {
+      if (isRateLimited(socket.id)) return callback({ success: false, error: 'tooFast' });
+      const roomId = socket.data.tinhTuyRoomId as string;
+      if (!roomId) return callback({ success: false, error: 'notInRoom' });
+
+      const game = await TinhTuyGame.findOne({ roomId });
+      if (!game) return callback({ success: false, error: 'roomNotFound' });
+
+      const trade = (game.pendingTrades || []).find(t => t.id === data?.tradeId);
+      if (!trade) return callback({ success: false, error: 'noPendingTrade' });
+
+      const player = findPlayerBySocket(game, socket);
+      if (!player || player.slot !== trade.fromSlot) return callback({ success: false, error: 'notTradeProposer' });
+
+      const entry = resolveTrade(game, trade, 'cancelled');
+      await game.save();
+      io.to(roomId).emit('tinh-tuy:trade-resolved', { tradeId: trade.id, status: 'cancelled', entry });
+      callback({ success: true });
+    } catch (err: any) {
+      console.error('[tinh-tuy:trade-cancel]', err.message);
+      callback({ success: false, error: 'tradeFailed' });
+    }
+  });
+}
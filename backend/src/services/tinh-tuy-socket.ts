@@ -1,19 +1,27 @@
 /**
  * Tinh Tuy Dai Chien — Socket Handler Entry Point
  * Registers all tinh-tuy:* events, manages timers and disconnect/reconnect.
- * Room lifecycle in tinh-tuy-socket-room.ts, gameplay in tinh-tuy-socket-gameplay.ts.
+ * Room lifecycle in tinh-tuy-socket-room.ts, gameplay in tinh-tuy-socket-gameplay.ts,
+ * player-to-player trades in tinh-tuy-socket-trade.ts, property auctions in tinh-tuy-socket-auction.ts.
  */
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import TinhTuyGame from '../models/TinhTuyGame';
 import User from '../models/User';
+import { ITinhTuyGame } from '../types/tinh-tuy.types';
+import { getGameTimeRemaining } from './tinh-tuy-engine';
 import { registerRoomHandlers } from './tinh-tuy-socket-room';
 import { registerGameplayHandlers, cleanupChatRateLimit } from './tinh-tuy-socket-gameplay';
+import { registerTradeHandlers, cancelTradesForSlot } from './tinh-tuy-socket-trade';
+import { registerAuctionHandlers } from './tinh-tuy-socket-auction';
+import { clearSpectators } from './spectatorService';
+import { rateTinhTuyGame } from './ratingService';
 
 // ─── Shared State (exported for sub-modules) ──────────────────
 
 export const activeTimers = new Map<string, NodeJS.Timeout>();
 export const disconnectTimers = new Map<string, NodeJS.Timeout>();
-export const negotiateTimers = new Map<string, NodeJS.Timeout>();
+export const tradeTimers = new Map<string, NodeJS.Timeout>(); // key: roomId:tradeId
+export const gameClockTimers = new Map<string, NodeJS.Timeout>();
 export const activePlayerSockets = new Map<string, string>();
 export const roomPlayerNames = new Map<string, Map<number, string>>();
 export const roomPlayerDevices = new Map<string, Map<number, string>>();
@@ -93,7 +101,8 @@ export function safetyRestartTimer(io: SocketIOServer, roomId: string): void {
 
 export function cleanupRoom(roomId: string, full = false): void {
   clearTurnTimer(roomId);
-  clearNegotiateTimer(roomId);
+  clearTradeTimer(roomId);
+  clearGameClock(roomId);
   if (full) {
     roomPlayerNames.delete(roomId);
     roomPlayerDevices.delete(roomId);
@@ -112,9 +121,48 @@ export function cleanupRoom(roomId: string, full = false): void {
   }
 }
 
-export function clearNegotiateTimer(roomId: string): void {
-  const timer = negotiateTimers.get(roomId);
-  if (timer) { clearTimeout(timer); negotiateTimers.delete(roomId); }
+/** Clear one trade's expiry timer, or every trade timer of the room when tradeId is omitted */
+export function clearTradeTimer(roomId: string, tradeId?: string): void {
+  for (const [key, timer] of tradeTimers.entries()) {
+    if (tradeId ? key === `${roomId}:${tradeId}` : key.startsWith(`${roomId}:`)) {
+      clearTimeout(timer);
+      tradeTimers.delete(key);
+    }
+  }
+}
+
+// ─── Game Clock (timed mode) ──────────────────────────────────
+
+/**
+ * Arm the game-wide clock of a timed game. Remaining time is derived from the persisted
+ * gameStartedAt, so re-arming after a restart or reconnect continues the same countdown.
+ * When it runs out, the round in progress becomes the final round.
+ */
+export function armGameClock(io: SocketIOServer, game: ITinhTuyGame): void {
+  if (gameClockTimers.has(game.roomId) || game.finalRound != null) return;
+  const remaining = getGameTimeRemaining(game);
+  if (remaining === null) return;
+  const roomId = game.roomId;
+  gameClockTimers.set(roomId, setTimeout(async () => {
+    gameClockTimers.delete(roomId);
+    try {
+      const g = await TinhTuyGame.findOne({ roomId });
+      if (!g || g.gameStatus !== 'playing' || g.finalRound != null) return;
+      // Atomic update — in-flight handlers hold their own copy of the game
+      const res = await TinhTuyGame.updateOne(
+        { roomId, gameStatus: 'playing', finalRound: null, round: g.round },
+        { $set: { finalRound: g.round } },
+      );
+      if (res.modifiedCount > 0) {
+        io.to(roomId).emit('tinh-tuy:final-round', { round: g.round });
+      }
+    } catch (err) { console.error('[tinh-tuy] Game clock error:', err); }
+  }, remaining));
+}
+
+export function clearGameClock(roomId: string): void {
+  const timer = gameClockTimers.get(roomId);
+  if (timer) { clearTimeout(timer); gameClockTimers.delete(roomId); }
 }
 
 // ─── Name Resolution ──────────────────────────────────────────
@@ -140,6 +188,8 @@ export function setupTinhTuySocketHandlers(io: SocketIOServer): void {
   io.on('connection', (socket: Socket) => {
     registerRoomHandlers(io, socket);
     registerGameplayHandlers(io, socket);
+    registerTradeHandlers(io, socket);
+    registerAuctionHandlers(io, socket);
 
     // ── Disconnect ──
     socket.on('disconnect', async () => {
@@ -168,14 +218,8 @@ export function setupTinhTuySocketHandlers(io: SocketIOServer): void {
         player.isConnected = false;
         player.disconnectedAt = new Date();
 
-        // Auto-cancel pending negotiate if disconnecting player is involved
-        if (game.pendingNegotiate &&
-          (game.pendingNegotiate.fromSlot === player.slot || game.pendingNegotiate.toSlot === player.slot)) {
-          game.pendingNegotiate = null;
-          game.markModified('pendingNegotiate');
-          clearNegotiateTimer(roomId);
-          io.to(roomId).emit('tinh-tuy:negotiate-cancelled', { fromSlot: player.slot });
-        }
+        // Auto-cancel open trades the disconnecting player is part of
+        cancelTradesForSlot(io, game, player.slot);
 
         await game.save();
 
@@ -197,6 +241,7 @@ export function setupTinhTuySocketHandlers(io: SocketIOServer): void {
               if (g.players.length === 0) {
                 g.gameStatus = 'abandoned';
                 cleanupRoom(roomId, true);
+                clearSpectators(io, roomId);
               }
               await g.save();
               io.to(roomId).emit('tinh-tuy:room-updated', {
@@ -227,6 +272,7 @@ export function setupTinhTuySocketHandlers(io: SocketIOServer): void {
                 };
               }
               await g.save();
+              await rateTinhTuyGame(g);
               cleanupRoom(roomId);
               io.to(roomId).emit('tinh-tuy:game-finished', {
                 winner: g.winner, reason: 'lastStanding',
@@ -16,7 +16,8 @@ export const checkWin = (
   col: number,
   player: PlayerNumber,
   boardSize: number,
-  blockTwoEnds: boolean = false
+  blockTwoEnds: boolean = false,
+  overlineWins: boolean = true // false = exactly five needed (exact-five rule, Renju black)
 ): WinResult => {
   const directions = [
     [0, 1],   // horizontal
@@ -77,6 +78,11 @@ export const checkWin = (
       }
     }
 
+    // Six or more in a row only counts where overlines are allowed
+    if (count > winCount && !overlineWins) {
+      continue;
+    }
+
     // If we have enough consecutive pieces to win
     if (count >= winCount) {
       // If blockTwoEnds rule is enabled, check if both ends are blocked
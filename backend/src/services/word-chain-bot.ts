@@ -0,0 +1,113 @@
+/**
+ * Word Chain Bot — built-in player that fills empty seats for solo practice.
+ * Words come from the room DictionaryIndex, so the bot only plays what the room accepts.
+ * Easy prefers common short words that leave plenty of follow-ups; hard plays traps that
+ * leave the next player the fewest unused continuations (counted via byFirstSyllable).
+ */
+import { DictionaryIndex, IWordChainGame, WordChainBotLevel } from '../types/word-chain.types';
+import { getLastSyllable, getSyllableCount } from './word-chain-dictionary';
+import { validateWord } from './word-chain-engine';
+
+// ─── Types & Constants ──────────────────────────────────────────
+
+export const WORD_CHAIN_BOT_LEVELS: WordChainBotLevel[] = ['easy', 'medium', 'hard'];
+export const WORD_CHAIN_BOT_ID = 'word-chain-bot';  // guestId prefix of bot seats
+
+interface LevelConfig {
+  missChance: number;              // chance to "blank" and let the clock run out
+  thinkMs: [number, number];       // reading + recall time before typing
+  msPerChar: number;               // typing speed
+  pickFrom: number;                // choose randomly among the best N candidates
+  rank: 'common' | 'random' | 'trap';
+}
+
+const LEVELS: Record<WordChainBotLevel, LevelConfig> = {
+  easy: { missChance: 0.15, thinkMs: [3000, 7000], msPerChar: 220, pickFrom: 8, rank: 'common' },
+  medium: { missChance: 0.05, thinkMs: [2000, 5000], msPerChar: 160, pickFrom: 1, rank: 'random' },
+  hard: { missChance: 0, thinkMs: [1200, 3500], msPerChar: 110, pickFrom: 2, rank: 'trap' },
+};
+
+const BOT_NAMES: Record<WordChainBotLevel, string> = {
+  easy: 'Word Bot (Easy)',
+  medium: 'Word Bot (Medium)',
+  hard: 'Word Bot (Hard)',
+};
+
+const MAX_DELAY_SHARE = 0.6;   // never use more than 60% of the time left
+const MIN_DELAY_MS = 800;
+const MAX_CANDIDATES = 400;    // cap the follow-up scan on very common syllables
+
+export function isWordChainBotLevel(value: unknown): value is WordChainBotLevel {
+  return typeof value === 'string' && (WORD_CHAIN_BOT_LEVELS as string[]).includes(value);
+}
+
+export function getWordChainBotName(level: WordChainBotLevel): string {
+  return BOT_NAMES[level];
+}
+
+// ─── Decision ───────────────────────────────────────────────────
+
+/** Unused words that could follow `word` — what the next player would have to choose from */
+function countFollowUps(word: string, roomDict: DictionaryIndex, used: Set<string>, allowRepeat: boolean): number {
+  const next = roomDict.byFirstSyllable.get(getLastSyllable(word)) || [];
+  if (allowRepeat) return next.length;
+  let count = 0;
+  for (const w of next) {
+    if (w !== word && !used.has(w)) count++;
+  }
+  return count;
+}
+
+function randomInt(min: number, max: number): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
+
+/**
+ * Pick the bot's word for the current turn, or null when it "can't think of one"
+ * (no valid candidate left, or an easy/medium bot blanking on purpose).
+ */
+export function chooseWordChainBotWord(
+  game: IWordChainGame,
+  roomDict: DictionaryIndex,
+  level: WordChainBotLevel
+): string | null {
+  const config = LEVELS[level];
+  if (Math.random() < config.missChance) return null;
+
+  const required = game.currentWord ? getLastSyllable(game.currentWord) : '';
+  const pool = required ? roomDict.byFirstSyllable.get(required) || [] : [];
+  const candidates = pool
+    .filter(word => validateWord(word, game, roomDict).valid)
+    .slice(0, MAX_CANDIDATES);
+  if (candidates.length === 0) return null;
+
+  if (config.rank === 'random') {
+    return candidates[randomInt(0, candidates.length - 1)];
+  }
+
+  const used = new Set(game.usedWords);
+  const scored = candidates.map(word => ({
+    word,
+    syllables: getSyllableCount(word),
+    followUps: countFollowUps(word, roomDict, used, game.rules.allowRepeat),
+  }));
+
+  if (config.rank === 'trap') {
+    // Fewest continuations for the next player; shorter words break ties
+    scored.sort((a, b) => a.followUps - b.followUps || a.syllables - b.syllables);
+  } else {
+    // Common: short words ending on well-connected syllables
+    scored.sort((a, b) => a.syllables - b.syllables || b.followUps - a.followUps);
+  }
+
+  const top = scored.slice(0, Math.min(config.pickFrom, scored.length));
+  return top[randomInt(0, top.length - 1)].word;
+}
+
+/** Human-like pause before the bot "sends" its word, kept well inside the turn */
+export function getWordChainBotDelay(level: WordChainBotLevel, timeLeftMs: number, word?: string): number {
+  const config = LEVELS[level];
+  const typing = (word?.length || 8) * config.msPerChar;
+  const delay = randomInt(config.thinkMs[0], config.thinkMs[1]) + typing;
+  return Math.max(MIN_DELAY_MS, Math.min(delay, timeLeftMs * MAX_DELAY_SHARE));
+}
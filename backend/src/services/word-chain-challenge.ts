@@ -0,0 +1,203 @@
+/**
+ * Word Chain Challenges — in-game votes on disputed words.
+ * Two kinds:
+ *   - contest: a player disputes the dictionary rejecting their word
+ *   - dispute: a player calls the word just accepted nonsense
+ * Eligible players vote within a short window; the turn timer is paused meanwhile
+ * (see word-chain-socket.ts). State is in memory only — one open challenge per room.
+ */
+import MissingWord from '../models/MissingWord';
+
+export type WordChallengeKind = 'contest' | 'dispute';
+
+export const CONTEST_WINDOW_MS = 6 * 1000;    // rejected player's window to contest
+export const DISPUTE_WINDOW_MS = 10 * 1000;   // window after acceptance to dispute
+export const VOTE_WINDOW_MS = 15 * 1000;
+export const MAX_DISPUTES_PER_PLAYER = 3;     // per game, to stop spamming votes
+
+export interface WordChallenge {
+  id: string;
+  kind: WordChallengeKind;
+  word: string;
+  authorSlot: number;          // who played the word
+  challengerSlot: number;      // who opened the vote (the author for contests)
+  voterSlots: number[];        // eligible voters
+  votes: Map<number, boolean>; // slot → true = the word is valid
+  deadline: number;
+  turnSlot: number;            // whose turn the vote interrupted
+  pausedTurnMs: number;        // turn time left when the vote started (contests: when the word was submitted)
+  timer: NodeJS.Timeout | null;
+}
+
+/** A rejection the player may still contest */
+export interface PendingContest {
+  word: string;
+  slot: number;
+  deadline: number;
+  timeLeftMs: number;          // turn time left when the word was submitted
+  timer: NodeJS.Timeout;
+}
+
+/** The last accepted word, open to disputes for a short while */
+export interface DisputableWord {
+  word: string;
+  authorSlot: number;
+  previousWord: string;
+  score: number;               // points the author got for it
+  acceptedAt: number;
+}
+
+export interface WordChallengeTally {
+  accept: number;
+  reject: number;
+}
+
+const challenges = new Map<string, WordChallenge>();       // roomId → open vote
+const pendingContests = new Map<string, PendingContest>(); // roomId → contest window
+const disputableWords = new Map<string, DisputableWord>(); // roomId → last accepted word
+const disputeCounts = new Map<string, Map<number, number>>(); // roomId → slot → disputes used
+
+// ─── Room State ──────────────────────────────────────────────────
+
+export function getWordChallenge(roomId: string): WordChallenge | undefined {
+  return challenges.get(roomId);
+}
+
+export function isChallengeOpen(roomId: string): boolean {
+  return challenges.has(roomId) || pendingContests.has(roomId);
+}
+
+export function openWordChallenge(roomId: string, challenge: Omit<WordChallenge, 'votes' | 'timer'>): WordChallenge {
+  const open: WordChallenge = { ...challenge, votes: new Map(), timer: null };
+  challenges.set(roomId, open);
+  return open;
+}
+
+/** Remove and return the room's vote, stopping its timer */
+export function closeWordChallenge(roomId: string): WordChallenge | undefined {
+  const challenge = challenges.get(roomId);
+  if (!challenge) return undefined;
+  if (challenge.timer) clearTimeout(challenge.timer);
+  challenges.delete(roomId);
+  return challenge;
+}
+
+export function setPendingContest(roomId: string, pending: PendingContest): void {
+  takePendingContest(roomId);
+  pendingContests.set(roomId, pending);
+}
+
+export function getPendingContest(roomId: string): PendingContest | undefined {
+  return pendingContests.get(roomId);
+}
+
+/** Remove and return the room's contest window, stopping its timer */
+export function takePendingContest(roomId: string): PendingContest | undefined {
+  const pending = pendingContests.get(roomId);
+  if (!pending) return undefined;
+  clearTimeout(pending.timer);
+  pendingContests.delete(roomId);
+  return pending;
+}
+
+export function setDisputableWord(roomId: string, entry: DisputableWord | null): void {
+  if (entry) disputableWords.set(roomId, entry);
+  else disputableWords.delete(roomId);
+}
+
+export function getDisputableWord(roomId: string): DisputableWord | undefined {
+  return disputableWords.get(roomId);
+}
+
+export function getDisputesUsed(roomId: string, slot: number): number {
+  return disputeCounts.get(roomId)?.get(slot) ?? 0;
+}
+
+export function countDispute(roomId: string, slot: number): void {
+  if (!disputeCounts.has(roomId)) disputeCounts.set(roomId, new Map());
+  const counts = disputeCounts.get(roomId)!;
+  counts.set(slot, (counts.get(slot) ?? 0) + 1);
+}
+
+/** Drop every challenge-related entry for a room (game over, reset or room deleted) */
+export function clearWordChallenges(roomId: string): void {
+  closeWordChallenge(roomId);
+  takePendingContest(roomId);
+  disputableWords.delete(roomId);
+  disputeCounts.delete(roomId);
+}
+
+// ─── Voting ──────────────────────────────────────────────────────
+
+export function tallyVotes(challenge: WordChallenge): WordChallengeTally {
+  let accept = 0;
+  let reject = 0;
+  for (const valid of challenge.votes.values()) {
+    if (valid) accept++;
+    else reject++;
+  }
+  return { accept, reject };
+}
+
+/**
+ * Whether the word stands. Only cast votes count; a tie keeps the original ruling
+ * (the dictionary's rejection for contests, the acceptance for disputes).
+ */
+export function isWordUpheld(challenge: WordChallenge): boolean {
+  const { accept, reject } = tallyVotes(challenge);
+  return challenge.kind === 'contest' ? accept > reject : accept >= reject;
+}
+
+export function allVotesIn(challenge: WordChallenge): boolean {
+  return challenge.voterSlots.every(slot => challenge.votes.has(slot));
+}
+
+/** Payload for clients — votes stay anonymous until the result */
+export function toPublicChallenge(challenge: WordChallenge) {
+  return {
+    id: challenge.id,
+    kind: challenge.kind,
+    word: challenge.word,
+    authorSlot: challenge.authorSlot,
+    challengerSlot: challenge.challengerSlot,
+    voterSlots: challenge.voterSlots,
+    votedSlots: [...challenge.votes.keys()],
+    deadline: new Date(challenge.deadline).toISOString(),
+  };
+}
+
+// ─── Dictionary Feedback ─────────────────────────────────────────
+
+/**
+ * Record a vote on a word in MissingWord for dictionary review: contested words
+ * the dictionary lacks, and disputed words players consider nonsense.
+ * Fire-and-forget safe.
+ */
+export async function logChallengeResult(
+  challenge: WordChallenge,
+  tally: WordChallengeTally,
+  upheld: boolean
+): Promise<void> {
+  try {
+    await MissingWord.updateOne(
+      { word: challenge.word },
+      {
+        $inc: {
+          'votes.accept': tally.accept,
+          'votes.reject': tally.reject,
+          challenges: 1,
+        },
+        $set: {
+          lastSeenAt: new Date(),
+          source: 'word-chain',
+          kind: challenge.kind === 'contest' ? 'missing' : 'disputed',
+          lastChallengeResult: upheld ? 'accepted' : 'rejected',
+        },
+        $setOnInsert: { firstSeenAt: new Date(), status: 'pending', count: 1 },
+      },
+      { upsert: true }
+    );
+  } catch (err) {
+    console.error('[WordChain] Failed to log challenge result:', err);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Word Chain Dictionary Admin — persisted word overrides and their audit trail.
+ * The wordlist file stays read-only; admin accepts/adds and rejects/removes are stored
+ * as DictionaryOverride documents and applied on top of it in memory.
+ */
+import mongoose from 'mongoose';
+import DictionaryOverride from '../models/DictionaryOverride';
+import DictionaryAuditLog, { DictionaryAuditAction } from '../models/DictionaryAuditLog';
+import MissingWord from '../models/MissingWord';
+import { DictionaryIndex } from '../types/word-chain.types';
+import {
+  getDictionary,
+  loadDictionary,
+  applyDictionaryOverrides,
+  normalizeWord,
+  isValidVietnameseWord,
+} from './word-chain-dictionary';
+
+export interface DictionaryActor {
+  userId: string;
+  username: string;
+}
+
+export interface DictionaryChangeResult {
+  applied: string[];   // normalized words the change went through for
+  invalid: string[];   // input rejected as not Vietnamese
+  dictionarySize: number;
+}
+
+export const MAX_WORDS_PER_CHANGE = 500;
+
+// ─── Overrides ─────────────────────────────────────────────────
+
+/** Re-apply every stored override to the loaded wordlist */
+export async function syncDictionaryOverrides(): Promise<DictionaryIndex> {
+  const overrides = await DictionaryOverride.find().select('word action').lean();
+  return applyDictionaryOverrides({
+    add: overrides.filter(o => o.action === 'add').map(o => o.word),
+    remove: overrides.filter(o => o.action === 'remove').map(o => o.word),
+  });
+}
+
+/** Re-read the wordlist files (picks up edits on disk), then re-apply overrides */
+export async function reloadDictionaryFromDisk(actor: DictionaryActor): Promise<DictionaryIndex> {
+  loadDictionary();
+  const dict = await syncDictionaryOverrides();
+  await recordDictionaryAudit(actor, 'reload', [], dict.totalWords);
+  return dict;
+}
+
+/** Normalize and de-duplicate admin input, splitting off anything that isn't a Vietnamese word */
+export function parseWordInput(raw: unknown): { words: string[]; invalid: string[] } {
+  const list = Array.isArray(raw) ? raw : [];
+  const words = new Set<string>();
+  const invalid: string[] = [];
+  for (const item of list.slice(0, MAX_WORDS_PER_CHANGE)) {
+    if (typeof item !== 'string') continue;
+    const word = normalizeWord(item).replace(/\s+/g, ' ');
+    if (!word) continue;
+    if (isValidVietnameseWord(word)) words.add(word);
+    else invalid.push(item.trim());
+  }
+  return { words: [...words], invalid };
+}
+
+/**
+ * Put words in the live dictionary (or take them out), persist the override,
+ * settle matching MissingWord reports and log the change.
+ */
+export async function changeDictionaryWords(
+  actor: DictionaryActor,
+  action: DictionaryAuditAction,
+  words: string[],
+  invalid: string[] = []
+): Promise<DictionaryChangeResult> {
+  const include = action === 'accept' || action === 'add';
+  const dict = getDictionary();
+  const updatedBy = new mongoose.Types.ObjectId(actor.userId);
+
+  if (words.length > 0) {
+    if (include) {
+      await DictionaryOverride.bulkWrite(words.map(word => ({
+        updateOne: {
+          filter: { word },
+          update: { $set: { action: 'add', updatedBy } },
+          upsert: true,
+        },
+      })));
+    } else {
+      // Only words the live dictionary has need a 'remove'; others just lose any 'add'
+      const present = words.filter(word => dict.allWords.has(word));
+      const absent = words.filter(word => !dict.allWords.has(word));
+      if (present.length > 0) {
+        await DictionaryOverride.bulkWrite(present.map(word => ({
+          updateOne: {
+            filter: { word },
+            update: { $set: { action: 'remove', updatedBy } },
+            upsert: true,
+          },
+        })));
+      }
+      if (absent.length > 0) {
+        await DictionaryOverride.deleteMany({ word: { $in: absent }, action: 'add' });
+      }
+    }
+
+    await MissingWord.updateMany(
+      { word: { $in: words } },
+      { $set: { status: include ? 'accepted' : 'rejected' } }
+    );
+  }
+
+  const updated = await syncDictionaryOverrides();
+  await recordDictionaryAudit(actor, action, words, updated.totalWords);
+
+  return { applied: words, invalid, dictionarySize: updated.totalWords };
+}
+
+// ─── Audit Log ─────────────────────────────────────────────────
+
+export async function recordDictionaryAudit(
+  actor: DictionaryActor,
+  action: DictionaryAuditAction,
+  words: string[],
+  dictionarySize: number
+): Promise<void> {
+  try {
+    await DictionaryAuditLog.create({
+      action,
+      words,
+      userId: actor.userId,
+      username: actor.username,
+      dictionarySize,
+    });
+  } catch (err) {
+    console.error('[WordChain] Failed to write dictionary audit log:', err);
+  }
+}
@@ -5,11 +5,15 @@
  */
 import fs from 'fs';
 import path from 'path';
-import { DictionaryIndex, WordType } from '../types/word-chain.types';
+import { DictionaryIndex, IWordChainRules, WordLayer, WordType } from '../types/word-chain.types';
 import MissingWord from '../models/MissingWord';
 
 // ─── Singleton ─────────────────────────────────────────────────
 let dictionary: DictionaryIndex | null = null;
+// Wordlist file as loaded, before admin overrides (see applyDictionaryOverrides)
+let baseWords: Set<string> | null = null;
+let baseLayers: Record<WordLayer, Set<string>> | null = null;
+const reloadListeners: Array<(dict: DictionaryIndex) => void> = [];
 
 // ─── Vietnamese Tone Position Normalization ────────────────────
 //
@@ -161,8 +165,114 @@ export async function logMissingWord(word: string) {
 
 // ─── Dictionary Loading ────────────────────────────────────────
 
+// ─── Dictionary Layers ─────────────────────────────────────────
+//
+// The merged wordlist has lost case and source, so proper nouns and slang are
+// recovered from the raw sources under data/sources:
+//   - standard:   lowercase entries of the tudien-* lists (POS-tagged or plain)
+//   - properNoun: capitalized or {Np}-tagged entries with no lowercase sense in any source
+//   - slang:      social-slang-candidates.txt entries that no dictionary source knows
+// Layers only tag words already in the wordlist; untagged words are always allowed.
+
+const STANDARD_SOURCES = [
+  'tudien-main.txt',
+  'tudien-danhtu.txt',
+  'tudien-dongtu.txt',
+  'tudien-tinhtu.txt',
+  'tudien-photu.txt',
+  'tudien-lientu.txt',
+  'tudien-danhtunhanxung.txt',
+  'tudien-tagged1.txt',
+  'tudien-tagged2.txt',
+  'tudien-ast.txt',
+];
+/** General dictionaries: their capitalized entries are proper nouns, the rest rule out slang */
+const REFERENCE_SOURCES = ['Viet74K.txt', 'hongocduc-words.txt', 'tudientv-words.txt', 'wiktionary-words.txt'];
+const SLANG_SOURCE = 'social-slang-candidates.txt';
+
+/**
+ * Parse one source line: "word", "word;NOUN,VERB", "word\tN", "word_part {Np}"
+ * or a JSON record ({"text": "..."}). Returns the raw (case-preserved) text and its tags.
+ */
+function parseSourceLine(line: string): { text: string; tags: string } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+
+  let text = trimmed;
+  let tags = '';
+  if (trimmed.startsWith('{')) {
+    try {
+      text = String(JSON.parse(trimmed).text || '');
+    } catch {
+      return null;
+    }
+  } else {
+    const braced = trimmed.match(/^(.+?)\s*\{([^}]*)\}$/);
+    if (braced) {
+      [, text, tags] = braced;
+    } else if (trimmed.includes('\t')) {
+      [text, tags = ''] = trimmed.split('\t');
+    } else if (trimmed.includes(';')) {
+      [text, tags = ''] = trimmed.split(';');
+    }
+  }
+
+  text = text.replace(/_/g, ' ').trim();
+  return text ? { text, tags } : null;
+}
+
+function isProperNounEntry(entry: { text: string; tags: string }): boolean {
+  if (entry.tags.split(/[\s,]+/).includes('Np')) return true;
+  const first = entry.text[0];
+  return first !== first.toLowerCase();
+}
+
+function readSourceLines(dir: string, file: string): string[] {
+  const filePath = path.join(dir, file);
+  if (!fs.existsSync(filePath)) {
+    console.warn(`[WordChain] Dictionary source missing, layers will be smaller: ${file}`);
+    return [];
+  }
+  return fs.readFileSync(filePath, 'utf-8').split('\n');
+}
+
+/** Tag wordlist entries with the layer their sources put them in */
+function buildLayers(words: Set<string>, sourcesDir: string): Record<WordLayer, Set<string>> {
+  const standard = new Set<string>();
+  const known = new Set<string>();        // lowercase sense in a reference dictionary
+  const capitalized = new Set<string>();
+
+  for (const file of [...STANDARD_SOURCES, ...REFERENCE_SOURCES]) {
+    const isStandardSource = STANDARD_SOURCES.includes(file);
+    for (const line of readSourceLines(sourcesDir, file)) {
+      const entry = parseSourceLine(line);
+      if (!entry) continue;
+      const word = normalizeWord(entry.text);
+      if (!words.has(word)) continue;
+      if (isProperNounEntry(entry)) capitalized.add(word);
+      else if (isStandardSource) standard.add(word);
+      else known.add(word);
+    }
+  }
+
+  // A word with a common lowercase sense ("an", "bình") is not a proper noun
+  const properNoun = new Set<string>();
+  for (const word of capitalized) {
+    if (!standard.has(word) && !known.has(word)) properNoun.add(word);
+  }
+
+  const slang = new Set<string>();
+  for (const line of readSourceLines(sourcesDir, SLANG_SOURCE)) {
+    const word = normalizeWord(line);
+    if (!word || !words.has(word)) continue;
+    if (!standard.has(word) && !known.has(word) && !capitalized.has(word)) slang.add(word);
+  }
+
+  return { standard, properNoun, slang };
+}
+
 /** Build index structures from a Set of words */
-function buildIndex(words: Set<string>): DictionaryIndex {
+function buildIndex(words: Set<string>, layers: Record<WordLayer, Set<string>>): DictionaryIndex {
   const byFirstSyllable = new Map<string, string[]>();
   const bySyllableCount = new Map<number, Set<string>>();
   let totalCompound = 0;
@@ -196,6 +306,7 @@ function buildIndex(words: Set<string>): DictionaryIndex {
     totalWords: words.size,
     totalCompound,
     totalSingle,
+    layers,
   };
 }
 
@@ -226,13 +337,17 @@ export function loadDictionary(filePath?: string): DictionaryIndex {
     words.add(normalized);
   }
 
-  dictionary = buildIndex(words);
+  const layers = buildLayers(words, path.join(path.dirname(resolvedPath), 'sources'));
+  baseWords = words;
+  baseLayers = layers;
+  dictionary = buildIndex(new Set(words), layers);
   const elapsed = Date.now() - startTime;
 
   console.log(`[WordChain] Dictionary loaded in ${elapsed}ms`);
   console.log(`[WordChain]   Total: ${dictionary.totalWords} words (${dictionary.totalCompound} compound, ${dictionary.totalSingle} single)`);
   console.log(`[WordChain]   Skipped: ${skipped} blank lines`);
   console.log(`[WordChain]   First-syllable index: ${dictionary.byFirstSyllable.size} entries`);
+  console.log(`[WordChain]   Layers: ${layers.standard.size} standard, ${layers.properNoun.size} proper nouns, ${layers.slang.size} slang`);
 
   return dictionary;
 }
@@ -245,24 +360,66 @@ export function getDictionary(): DictionaryIndex {
   return dictionary;
 }
 
+// ─── Live Overrides ────────────────────────────────────────────
+
+/** Subscribe to dictionary swaps (admin edits) — e.g. to drop cached room dictionaries */
+export function onDictionaryReload(listener: (dict: DictionaryIndex) => void): void {
+  reloadListeners.push(listener);
+}
+
+/**
+ * Rebuild the live index from the loaded wordlist plus admin overrides, without
+ * re-reading the files. Added words carry no layer tag, so every room allows them.
+ */
+export function applyDictionaryOverrides(overrides: { add: string[]; remove: string[] }): DictionaryIndex {
+  if (!baseWords || !baseLayers) {
+    throw new Error('[WordChain] Dictionary not loaded. Call loadDictionary() first.');
+  }
+
+  const words = new Set(baseWords);
+  for (const word of overrides.add) words.add(normalizeWord(word));
+  for (const word of overrides.remove) words.delete(normalizeWord(word));
+  words.delete('');
+
+  dictionary = buildIndex(words, baseLayers);
+  console.log(`[WordChain] Dictionary rebuilt: ${dictionary.totalWords} words (+${overrides.add.length} / -${overrides.remove.length} overrides)`);
+
+  for (const listener of reloadListeners) listener(dictionary);
+  return dictionary;
+}
+
+/** Whether a word is allowed by a room's proper-noun and slang toggles */
+export function isWordAllowedByLayers(
+  word: string,
+  dict: DictionaryIndex,
+  rules: Pick<IWordChainRules, 'allowProperNouns' | 'allowSlang'>
+): boolean {
+  if (!rules.allowProperNouns && dict.layers.properNoun.has(word)) return false;
+  if (!rules.allowSlang && dict.layers.slang.has(word)) return false;
+  return true;
+}
+
 /**
  * Build a filtered dictionary for a specific room's rules.
- * Filters by wordType (syllable count).
+ * Filters by wordType (syllable count) and drops the proper-noun / slang layers
+ * unless the room allows them.
  */
-export function buildRoomDictionary(rules: { wordType: WordType }): DictionaryIndex {
+export function buildRoomDictionary(
+  rules: Pick<IWordChainRules, 'wordType' | 'allowProperNouns' | 'allowSlang'>
+): DictionaryIndex {
   const full = getDictionary();
 
-  // No filtering needed for 'all' mode
-  if (rules.wordType === 'all') {
+  // No filtering needed when every word and layer is allowed
+  if (rules.wordType === 'all' && rules.allowProperNouns && rules.allowSlang) {
     return full;
   }
 
   const filtered = new Set<string>();
   for (const word of full.allWords) {
-    if (matchesWordType(word, rules.wordType)) {
+    if (matchesWordType(word, rules.wordType) && isWordAllowedByLayers(word, full, rules)) {
       filtered.add(word);
     }
   }
 
-  return buildIndex(filtered);
+  return buildIndex(filtered, full.layers);
 }
@@ -2,7 +2,15 @@
  * Word Chain Game Engine
  * Core game logic: validation, turn rotation, scoring, game end detection.
  */
-import { IWordChainGame, IWordChainPlayer, IWordChainRules, DictionaryIndex, WordValidationResult } from '../types/word-chain.types';
+import {
+  IWordChainGame,
+  IWordChainPlayer,
+  IWordChainRules,
+  IWordChainScoring,
+  DictionaryIndex,
+  WordValidationResult,
+  WordScoreBreakdown,
+} from '../types/word-chain.types';
 import { normalizeWord, getFirstSyllable, getLastSyllable, getSyllableCount, matchesWordType } from './word-chain-dictionary';
 
 // ─── Word Validation Pipeline ──────────────────────────────────
@@ -18,8 +26,14 @@ export function validateWord(
 ): WordValidationResult {
   const word = normalizeWord(rawWord);
 
-  // 1. Exists in dictionary?
+  // 1. Exists in dictionary? Words cut by the room's layer toggles get their own reason
   if (!roomDict.allWords.has(word)) {
+    if (!game.rules.allowProperNouns && roomDict.layers.properNoun.has(word)) {
+      return { valid: false, reason: 'proper_noun' };
+    }
+    if (!game.rules.allowSlang && roomDict.layers.slang.has(word)) {
+      return { valid: false, reason: 'slang' };
+    }
     return { valid: false, reason: 'not_in_dictionary' };
   }
 
@@ -45,16 +59,76 @@ export function validateWord(
   return { valid: true };
 }
 
+// ─── Teams ─────────────────────────────────────────────────────
+
+export const WORD_CHAIN_TEAMS = [1, 2];
+
+/** Team mode rooms give every player a team; other modes leave it unset */
+export function isTeamGame(players: IWordChainPlayer[]): boolean {
+  return players.some(p => !!p.team);
+}
+
+/** Teams that still have someone in the game, in team order */
+export function getActiveTeams(players: IWordChainPlayer[]): number[] {
+  return WORD_CHAIN_TEAMS.filter(team => players.some(p => p.team === team && !p.isEliminated));
+}
+
+/**
+ * Put players without a team on the smaller one (team mode), or clear teams (other modes).
+ * Existing picks are kept so switching teams in the waiting room sticks.
+ */
+export function balanceTeams(players: IWordChainPlayer[], teamMode: boolean): void {
+  for (const player of players) {
+    if (!teamMode) {
+      player.team = null;
+      continue;
+    }
+    if (player.team && WORD_CHAIN_TEAMS.includes(player.team)) continue;
+    const sizes = WORD_CHAIN_TEAMS.map(team => players.filter(p => p.team === team).length);
+    player.team = WORD_CHAIN_TEAMS[sizes.indexOf(Math.min(...sizes))];
+  }
+}
+
+/** Both teams seated and the same size (2v2, 3v3, ...) */
+export function areTeamsBalanced(players: IWordChainPlayer[]): boolean {
+  const sizes = WORD_CHAIN_TEAMS.map(team => players.filter(p => p.team === team).length);
+  return sizes.every(size => size > 0 && size === sizes[0]);
+}
+
+/**
+ * Team mode rotation: the turn always goes to the other team, and within a team
+ * to the member seated after whoever played for it last (`teamTurnSlots`).
+ */
+function getNextTeamSlot(
+  players: IWordChainPlayer[],
+  currentSlot: number,
+  teamTurnSlots: number[]
+): number {
+  const teams = getActiveTeams(players);
+  if (teams.length <= 1) return -1; // game over
+
+  const currentTeam = players.find(p => p.slot === currentSlot)?.team || 0;
+  const nextTeam = teams.find(team => team > currentTeam) ?? teams[0];
+  const members = players
+    .filter(p => p.team === nextTeam && !p.isEliminated)
+    .sort((a, b) => a.slot - b.slot);
+  const lastSlot = teamTurnSlots[nextTeam - 1] || 0;
+  return (members.find(p => p.slot > lastSlot) || members[0]).slot;
+}
+
 // ─── Turn Rotation ─────────────────────────────────────────────
 
 /**
  * Get next active (non-eliminated) player slot in circular order.
- * Returns -1 if game should end (0 or 1 active players).
+ * Returns -1 if game should end (0 or 1 active players, or one team left).
  */
 export function getNextPlayerSlot(
   players: IWordChainPlayer[],
-  currentSlot: number
+  currentSlot: number,
+  teamTurnSlots: number[] = []
 ): number {
+  if (isTeamGame(players)) return getNextTeamSlot(players, currentSlot, teamTurnSlots);
+
   const activePlayers = players.filter(p => !p.isEliminated);
   if (activePlayers.length <= 1) return -1; // game over
 
@@ -113,13 +187,23 @@ export function selectFirstWord(
 // ─── Game End Detection ────────────────────────────────────────
 
 /**
- * Check if game should end based on remaining active players.
+ * Check if game should end based on remaining active players (or teams).
+ * A team win is reported through one of its surviving members.
  */
 export function checkGameEnd(
   players: IWordChainPlayer[]
 ): { ended: boolean; winner?: IWordChainPlayer | 'draw' } {
   const activePlayers = players.filter(p => !p.isEliminated);
 
+  if (isTeamGame(players)) {
+    const teams = getActiveTeams(players);
+    if (teams.length === 0) return { ended: true, winner: 'draw' };
+    if (teams.length === 1) {
+      return { ended: true, winner: activePlayers.find(p => p.team === teams[0]) };
+    }
+    return { ended: false };
+  }
+
   if (activePlayers.length === 0) {
     return { ended: true, winner: 'draw' };
   }
@@ -135,12 +219,22 @@ export function checkGameEnd(
 /**
  * Determine winner by comparing scores among active (non-eliminated) players.
  * Returns the player with highest score, or 'draw' if tied.
+ * Team mode compares team totals and returns a surviving member of the best team.
  */
 export function determineWinnerByScore(
   players: IWordChainPlayer[]
 ): IWordChainPlayer | 'draw' {
   const activePlayers = players.filter(p => !p.isEliminated);
   if (activePlayers.length === 0) return 'draw';
+
+  if (isTeamGame(players)) {
+    const totals = getActiveTeams(players)
+      .map(team => ({ team, score: players.filter(p => p.team === team).reduce((sum, p) => sum + p.score, 0) }))
+      .sort((a, b) => b.score - a.score);
+    if (totals.length > 1 && totals[0].score === totals[1].score) return 'draw';
+    return activePlayers.find(p => p.team === totals[0].team) || 'draw';
+  }
+
   if (activePlayers.length === 1) return activePlayers[0];
 
   // Sort by score descending, then by wordsPlayed descending as tiebreaker
@@ -183,9 +277,80 @@ export function checkNoWordsAvailable(
 
 // ─── Scoring ───────────────────────────────────────────────────
 
-/** MVP scoring: 1 point per valid word */
-export function calculateScore(_word: string): number {
-  return 1;
+// Rarity: follow-ups for the last syllable in the room dictionary → bonus (first match wins)
+const RARITY_TIERS: Array<{ maxFollowUps: number; bonus: number }> = [
+  { maxFollowUps: 5, bonus: 3 },
+  { maxFollowUps: 15, bonus: 2 },
+  { maxFollowUps: 40, bonus: 1 },
+];
+
+// Speed: share of the turn still left when the word came in → bonus
+const SPEED_TIERS: Array<{ minTimeLeft: number; bonus: number }> = [
+  { minTimeLeft: 0.75, bonus: 2 },
+  { minTimeLeft: 0.5, bonus: 1 },
+];
+
+// Combo: words in a row without losing a life → bonus
+const COMBO_TIERS: Array<{ minStreak: number; bonus: number }> = [
+  { minStreak: 8, bonus: 3 },
+  { minStreak: 5, bonus: 2 },
+  { minStreak: 3, bonus: 1 },
+];
+
+const TRAP_BONUS = 3;
+
+/** Coerce client-supplied scoring toggles; anything missing is off */
+export function parseScoringRules(input: any): IWordChainScoring {
+  return {
+    syllables: !!input?.syllables,
+    rarity: !!input?.rarity,
+    speed: !!input?.speed,
+    combo: !!input?.combo,
+    trap: !!input?.trap,
+  };
+}
+
+export interface WordScoreContext {
+  scoring: IWordChainScoring;
+  roomDict: DictionaryIndex;
+  timeLeftMs: number;
+  turnDurationMs: number;
+  streak: number;      // including this word
+  trapped: boolean;    // next player has no unused continuation
+}
+
+/**
+ * Points for an accepted word: 1 base point plus whichever bonuses the room enabled.
+ * Without a context (or with every bonus off) this is the original 1 point per word.
+ */
+export function calculateScore(word: string, context?: WordScoreContext): WordScoreBreakdown {
+  const breakdown: WordScoreBreakdown = { base: 1, syllables: 0, rarity: 0, speed: 0, combo: 0, trap: 0, total: 0 };
+
+  if (context) {
+    const { scoring } = context;
+
+    if (scoring.syllables) {
+      breakdown.syllables = Math.max(0, getSyllableCount(word) - 1);
+    }
+    if (scoring.rarity) {
+      const followUps = context.roomDict.byFirstSyllable.get(getLastSyllable(word))?.length ?? 0;
+      breakdown.rarity = RARITY_TIERS.find(t => followUps <= t.maxFollowUps)?.bonus ?? 0;
+    }
+    if (scoring.speed && context.turnDurationMs > 0) {
+      const timeLeft = context.timeLeftMs / context.turnDurationMs;
+      breakdown.speed = SPEED_TIERS.find(t => timeLeft >= t.minTimeLeft)?.bonus ?? 0;
+    }
+    if (scoring.combo) {
+      breakdown.combo = COMBO_TIERS.find(t => context.streak >= t.minStreak)?.bonus ?? 0;
+    }
+    if (scoring.trap && context.trapped) {
+      breakdown.trap = TRAP_BONUS;
+    }
+  }
+
+  breakdown.total = breakdown.base + breakdown.syllables + breakdown.rarity
+    + breakdown.speed + breakdown.combo + breakdown.trap;
+  return breakdown;
 }
 
 // ─── Speed Mode Timer ──────────────────────────────────────────
@@ -17,7 +17,8 @@ import {
   buildRoomDictionary,
   isValidVietnameseWord,
   matchesWordType,
-  logMissingWord
+  logMissingWord,
+  onDictionaryReload,
 } from './word-chain-dictionary';
 import {
   validateWord,
@@ -29,14 +30,54 @@ import {
   getSpeedModeTurnDuration,
   generateWordChainRoomCode,
   determineWinnerByScore,
+  parseScoringRules,
+  balanceTeams,
+  areTeamsBalanced,
+  WORD_CHAIN_TEAMS,
 } from './word-chain-engine';
+import {
+  CONTEST_WINDOW_MS,
+  DISPUTE_WINDOW_MS,
+  VOTE_WINDOW_MS,
+  MAX_DISPUTES_PER_PLAYER,
+  WordChallenge,
+  getWordChallenge,
+  isChallengeOpen,
+  openWordChallenge,
+  closeWordChallenge,
+  setPendingContest,
+  getPendingContest,
+  takePendingContest,
+  setDisputableWord,
+  getDisputableWord,
+  getDisputesUsed,
+  countDispute,
+  clearWordChallenges,
+  tallyVotes,
+  isWordUpheld,
+  allVotesIn,
+  toPublicChallenge,
+  logChallengeResult,
+} from './word-chain-challenge';
+import {
+  WORD_CHAIN_BOT_ID,
+  isWordChainBotLevel,
+  getWordChainBotName,
+  chooseWordChainBotWord,
+  getWordChainBotDelay,
+} from './word-chain-bot';
+import { addSpectator, removeSpectator, getSpectators, isSpectating, clearSpectators } from './spectatorService';
+import { rateWordChainGame } from './ratingService';
 
 // ─── Timer Management ──────────────────────────────────────────
 
 const activeTimers = new Map<string, NodeJS.Timeout>();
 const disconnectTimers = new Map<string, NodeJS.Timeout>(); // key: `${roomId}:${slot}`
 const turnGraceTimers = new Map<string, NodeJS.Timeout>(); // key: `${roomId}:${slot}` — short grace for active turn
+const botTimers = new Map<string, NodeJS.Timeout>(); // roomId → pending bot word (tied to the turn timer)
 const roomDictionaries = new Map<string, ReturnType<typeof buildRoomDictionary>>();
+// Admin dictionary changes swap the global index — live rooms rebuild theirs on next use
+onDictionaryReload(() => roomDictionaries.clear());
 const roomPlayerNames = new Map<string, Map<number, string>>(); // roomId -> slot -> resolved name
 const roomPlayerDevices = new Map<string, Map<number, string>>(); // roomId -> slot -> deviceType
 const activePlayerSockets = new Map<string, string>(); // `${roomId}:${playerId}` → socketId (prevents stale disconnect)
@@ -103,10 +144,17 @@ function clearTurnTimer(roomId: string): void {
     clearTimeout(timer);
     activeTimers.delete(roomId);
   }
+  // A paused or finished turn also cancels the bot's pending answer
+  const botTimer = botTimers.get(roomId);
+  if (botTimer) {
+    clearTimeout(botTimer);
+    botTimers.delete(roomId);
+  }
 }
 
 function cleanupRoom(roomId: string, full = false): void {
   clearTurnTimer(roomId);
+  clearWordChallenges(roomId);
   roomDictionaries.delete(roomId);
   // Preserve player name & device caches for rematch — only delete on full cleanup
   if (full) {
@@ -202,12 +250,46 @@ function buildPlayersInfo(game: IWordChainGame): any[] {
     isEliminated: p.isEliminated,
     isConnected: p.isConnected,
     isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
+    isBot: !!p.isBot,
+    team: p.team ?? null,
     deviceType: getCachedDeviceType(game.roomId, p.slot),
   }));
 }
 
 // ─── Helper: Handle turn timeout / life loss ───────────────────
 
+/** Take one life from `player` — from the whole team's pool in team mode — and announce knockouts */
+function takeLife(io: SocketIOServer, game: IWordChainGame, player: IWordChainPlayer): void {
+  const losers = player.team
+    ? game.players.filter(p => p.team === player.team && !p.isEliminated)
+    : [player];
+
+  for (const p of losers) {
+    p.lives -= 1;
+    if (p.lives > 0) continue;
+    p.isEliminated = true;
+    io.to(game.roomId).emit('word-chain:player-eliminated', {
+      playerId: p.userId?.toString() || p.guestId,
+      slot: p.slot,
+      playerName: getCachedPlayerName(game.roomId, p.slot),
+      remainingPlayers: game.players.filter(pl => !pl.isEliminated).length,
+    });
+  }
+}
+
+/** Hand the turn to `slot`; team games also note it as that team's latest player */
+function setCurrentTurn(game: IWordChainGame, slot: number): void {
+  game.currentPlayerSlot = slot;
+  game.turnStartedAt = new Date();
+
+  const team = game.players.find(p => p.slot === slot)?.team;
+  if (team) {
+    const teamTurnSlots = [...(game.teamTurnSlots || [])];
+    teamTurnSlots[team - 1] = slot;
+    game.teamTurnSlots = teamTurnSlots;
+  }
+}
+
 async function handleLifeLoss(
   io: SocketIOServer,
   game: IWordChainGame,
@@ -217,17 +299,8 @@ async function handleLifeLoss(
   const player = game.players.find(p => p.slot === playerSlot);
   if (!player || player.isEliminated) return;
 
-  player.lives -= 1;
-
-  if (player.lives <= 0) {
-    player.isEliminated = true;
-    io.to(game.roomId).emit('word-chain:player-eliminated', {
-      playerId: player.userId?.toString() || player.guestId,
-      slot: player.slot,
-      playerName: getCachedPlayerName(game.roomId, player.slot),
-      remainingPlayers: game.players.filter(p => !p.isEliminated).length,
-    });
-  }
+  player.streak = 0;
+  takeLife(io, game, player);
 
   // Check game end
   const endCheck = checkGameEnd(game.players);
@@ -237,7 +310,7 @@ async function handleLifeLoss(
   }
 
   // Move to next player
-  const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot);
+  const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot, game.teamTurnSlots);
   if (nextSlot === -1) {
     // No active players left — determine winner by score instead of declaring draw
     const winner = determineWinnerByScore(game.players);
@@ -245,8 +318,7 @@ async function handleLifeLoss(
     return;
   }
 
-  game.currentPlayerSlot = nextSlot;
-  game.turnStartedAt = new Date();
+  setCurrentTurn(game, nextSlot);
 
   // Speed mode: adjust timer
   let turnDuration = game.rules.turnDuration;
@@ -284,6 +356,7 @@ async function handleLifeLoss(
 
     await handleLifeLoss(io, freshGame, freshGame.currentPlayerSlot, 'timeout');
   });
+  scheduleBotTurn(io, game);
 }
 
 // ─── Helper: Finish game ───────────────────────────────────────
@@ -306,10 +379,12 @@ async function finishGame(
       userId: winner.userId,
       guestId: winner.guestId,
       guestName: winner.guestName,
+      ...(winner.team ? { team: winner.team } : {}),
     };
   }
 
   await game.save();
+  await rateWordChainGame(game);
 
   // Build players array using cache (no DB queries)
   const players = buildPlayersInfo(game);
@@ -321,6 +396,7 @@ async function finishGame(
       slot: winner.slot,
       name: getCachedPlayerName(game.roomId, winner.slot),
       guestName: winner.guestName,
+      team: winner.team || undefined,
     };
   }
 
@@ -334,6 +410,375 @@ async function finishGame(
   });
 }
 
+// ─── Helper: Turn timing ───────────────────────────────────────
+
+/** Turn length in seconds for the current round (speed mode shrinks it) */
+function getCurrentTurnDuration(game: IWordChainGame): number {
+  if (game.rules.gameMode === 'speed') {
+    return getSpeedModeTurnDuration(game.roundNumber, game.rules.turnDuration);
+  }
+  return game.rules.turnDuration;
+}
+
+/** Start the turn timer with the standard timeout → life loss handling */
+function scheduleTurnTimeout(io: SocketIOServer, roomId: string, durationMs: number): void {
+  startTurnTimer(io, roomId, durationMs, async () => {
+    const freshGame = await WordChainGame.findOne({ roomId });
+    if (!freshGame || freshGame.gameStatus !== 'playing') return;
+
+    io.to(roomId).emit('word-chain:turn-timeout', {
+      slot: freshGame.currentPlayerSlot,
+      livesRemaining: (freshGame.players.find(p => p.slot === freshGame.currentPlayerSlot)?.lives || 1) - 1,
+    });
+
+    await handleLifeLoss(io, freshGame, freshGame.currentPlayerSlot, 'timeout');
+  });
+}
+
+/** Give the current player `remainingMs` on the clock (resume after a vote, or a fresh turn) */
+async function resumeTurn(io: SocketIOServer, game: IWordChainGame, remainingMs: number): Promise<void> {
+  const turnDuration = getCurrentTurnDuration(game);
+  game.turnStartedAt = new Date(Date.now() - (turnDuration * 1000 - remainingMs));
+  await game.save();
+
+  io.to(game.roomId).emit('word-chain:new-turn', {
+    currentWord: game.currentWord,
+    requiredSyllable: game.currentWord ? getLastSyllable(game.currentWord) : '',
+    currentPlayerSlot: game.currentPlayerSlot,
+    turnStartedAt: game.turnStartedAt.toISOString(),
+    turnDuration,
+    remainingMs,
+    players: buildPlayersInfo(game),
+  });
+
+  scheduleTurnTimeout(io, game.roomId, remainingMs);
+  scheduleBotTurn(io, game);
+}
+
+// ─── Helper: Accept a word ─────────────────────────────────────
+
+/**
+ * Count `normalized` for the current player and pass the turn on.
+ * Shared by submit-word and contests the room voted to accept.
+ */
+async function acceptWord(
+  io: SocketIOServer,
+  game: IWordChainGame,
+  normalized: string,
+  roomDict: ReturnType<typeof buildRoomDictionary>,
+  options: { disputable: boolean; timeLeftMs?: number } = { disputable: true }
+): Promise<void> {
+  const roomId = game.roomId;
+  clearTurnTimer(roomId);
+
+  const currentPlayer = game.players.find(p => p.slot === game.currentPlayerSlot);
+  const previousWord = game.currentWord;
+  const turnDurationMs = getCurrentTurnDuration(game) * 1000;
+  const timeLeftMs = options.timeLeftMs
+    ?? Math.max(0, turnDurationMs - (Date.now() - new Date(game.turnStartedAt).getTime()));
+
+  game.currentWord = normalized;
+  game.wordChain.push(normalized);
+  game.usedWords.push(normalized);
+  game.roundNumber += 1;
+
+  // Check if no words available for next player
+  const noWords = checkNoWordsAvailable(
+    normalized,
+    game.usedWords,
+    roomDict,
+    game.rules.allowRepeat
+  );
+
+  const streak = (currentPlayer?.streak || 0) + 1;
+  const breakdown = calculateScore(normalized, {
+    scoring: game.rules.scoring,
+    roomDict,
+    timeLeftMs,
+    turnDurationMs,
+    streak,
+    trapped: noWords,
+  });
+  const points = breakdown.total;
+
+  if (currentPlayer) {
+    currentPlayer.score += points;
+    currentPlayer.wordsPlayed += 1;
+    currentPlayer.streak = streak;
+  }
+
+  if (noWords) {
+    // Emit the accepted word FIRST so players see the final word
+    const noWordsPlayersInfo = buildPlayersInfo(game);
+    const noWordsRequiredSyllable = getLastSyllable(normalized);
+    io.to(roomId).emit('word-chain:word-accepted', {
+      word: normalized,
+      currentWord: normalized,
+      playerSlot: currentPlayer?.slot,
+      playerName: getCachedPlayerName(roomId, currentPlayer?.slot || 0),
+      score: currentPlayer?.score,
+      points: breakdown,
+      nextPlayerSlot: game.currentPlayerSlot, // stays same since game ends
+      turnStartedAt: new Date().toISOString(),
+      turnDuration: game.rules.turnDuration,
+      roundNumber: game.roundNumber,
+      requiredSyllable: noWordsRequiredSyllable,
+      totalWords: game.wordChain.length,
+      players: noWordsPlayersInfo,
+    });
+
+    await game.save();
+    // Determine winner by score instead of always declaring draw
+    const winner = determineWinnerByScore(game.players);
+    await finishGame(io, game, winner);
+    return;
+  }
+
+  // Move to next player
+  const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot, game.teamTurnSlots);
+  if (nextSlot === -1) {
+    await game.save();
+    const endCheck = checkGameEnd(game.players);
+    await finishGame(io, game, endCheck.winner);
+    return;
+  }
+
+  setCurrentTurn(game, nextSlot);
+
+  const turnDuration = getCurrentTurnDuration(game);
+
+  await game.save();
+
+  // The word stays open to a "that's not a word" challenge until the window closes
+  let disputableUntil: string | undefined;
+  if (options.disputable && currentPlayer) {
+    const acceptedAt = Date.now();
+    setDisputableWord(roomId, {
+      word: normalized,
+      authorSlot: currentPlayer.slot,
+      previousWord,
+      score: points,
+      acceptedAt,
+    });
+    disputableUntil = new Date(acceptedAt + DISPUTE_WINDOW_MS).toISOString();
+  } else {
+    setDisputableWord(roomId, null);
+  }
+
+  const requiredSyllable = getLastSyllable(normalized);
+
+  // Build players array using cache (no DB queries — fast!)
+  const acceptedPlayersInfo = buildPlayersInfo(game);
+
+  io.to(roomId).emit('word-chain:word-accepted', {
+    word: normalized,
+    currentWord: normalized,
+    playerSlot: currentPlayer?.slot,
+    playerName: getCachedPlayerName(roomId, currentPlayer?.slot || 0),
+    score: currentPlayer?.score,
+    points: breakdown,
+    nextPlayerSlot: nextSlot,
+    turnStartedAt: game.turnStartedAt.toISOString(),
+    turnDuration,
+    roundNumber: game.roundNumber,
+    requiredSyllable,
+    totalWords: game.wordChain.length,
+    disputableUntil,
+    players: acceptedPlayersInfo,
+  });
+
+  // Start timer for next player
+  scheduleTurnTimeout(io, roomId, turnDuration * 1000);
+  scheduleBotTurn(io, game);
+}
+
+// ─── Helper: Room dictionary ───────────────────────────────────
+
+/** The room's filtered dictionary, rebuilt lazily after a restart or an admin reload */
+function getRoomDictionary(game: IWordChainGame): ReturnType<typeof buildRoomDictionary> {
+  let roomDict = roomDictionaries.get(game.roomId);
+  if (!roomDict) {
+    roomDict = buildRoomDictionary(game.rules);
+    roomDictionaries.set(game.roomId, roomDict);
+  }
+  return roomDict;
+}
+
+// ─── Helper: Bot ───────────────────────────────────────────────
+
+/**
+ * Queue the bot's answer if the turn that just started is a bot's.
+ * Must run after the turn timer is (re)started — clearing that timer cancels this one.
+ */
+function scheduleBotTurn(io: SocketIOServer, game: IWordChainGame): void {
+  const bot = game.players.find(p => p.slot === game.currentPlayerSlot);
+  if (!bot?.isBot || bot.isEliminated || game.gameStatus !== 'playing') return;
+
+  const roomId = game.roomId;
+  const level = bot.botLevel || 'medium';
+  const word = chooseWordChainBotWord(game, getRoomDictionary(game), level);
+  if (!word) return; // stuck (or blanking) — the turn timer takes the life like for anyone else
+
+  const timeLeftMs = getCurrentTurnDuration(game) * 1000 - (Date.now() - new Date(game.turnStartedAt).getTime());
+  const existing = botTimers.get(roomId);
+  if (existing) clearTimeout(existing);
+  botTimers.set(roomId, setTimeout(() => {
+    botTimers.delete(roomId);
+    playBotTurn(io, roomId, bot.slot, word).catch(err => {
+      console.error('[WordChain] Bot turn error:', err);
+    });
+  }, getWordChainBotDelay(level, timeLeftMs, word)));
+}
+
+async function playBotTurn(io: SocketIOServer, roomId: string, slot: number, word: string): Promise<void> {
+  if (isChallengeOpen(roomId) || getPendingContest(roomId)) return;
+  const game = await WordChainGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing' || game.currentPlayerSlot !== slot) return;
+
+  const bot = game.players.find(p => p.slot === slot);
+  if (!bot?.isBot || bot.isEliminated) return;
+
+  // A struck word can change the chain while the bot "types" — pick again if needed
+  const roomDict = getRoomDictionary(game);
+  const choice = validateWord(word, game, roomDict).valid
+    ? word
+    : chooseWordChainBotWord(game, roomDict, bot.botLevel || 'medium');
+  if (!choice) return;
+
+  await acceptWord(io, game, choice, roomDict);
+}
+
+// ─── Helper: Word challenges ───────────────────────────────────
+
+/** Players who can vote: still in the game and connected */
+function getChallengeVoterSlots(game: IWordChainGame): number[] {
+  return game.players.filter(p => !p.isEliminated && p.isConnected).map(p => p.slot);
+}
+
+/**
+ * Open a vote. A contest is decided by the other players only — the author would always
+ * accept their own word. A disputer's "reject" ballot is cast automatically.
+ */
+function startWordChallenge(
+  io: SocketIOServer,
+  game: IWordChainGame,
+  challenge: Omit<WordChallenge, 'votes' | 'timer' | 'voterSlots' | 'deadline' | 'id'>
+): WordChallenge {
+  const roomId = game.roomId;
+  const voterSlots = getChallengeVoterSlots(game)
+    .filter(slot => challenge.kind !== 'contest' || slot !== challenge.authorSlot);
+  const opened = openWordChallenge(roomId, {
+    ...challenge,
+    id: uuidv4(),
+    voterSlots,
+    deadline: Date.now() + VOTE_WINDOW_MS,
+  });
+  if (challenge.kind === 'dispute') opened.votes.set(challenge.challengerSlot, false);
+  // Bots trust the dictionary: a word it knows is valid, anything else isn't
+  const knownWord = getRoomDictionary(game).allWords.has(challenge.word);
+  for (const p of game.players) {
+    if (p.isBot && opened.voterSlots.includes(p.slot) && !opened.votes.has(p.slot)) {
+      opened.votes.set(p.slot, knownWord);
+    }
+  }
+  opened.timer = setTimeout(() => {
+    resolveWordChallenge(io, roomId).catch(err => {
+      console.error('[WordChain] Challenge resolve error:', err);
+    });
+  }, VOTE_WINDOW_MS);
+
+  io.to(roomId).emit('word-chain:challenge-started', {
+    challenge: toPublicChallenge(opened),
+    authorName: getCachedPlayerName(roomId, opened.authorSlot),
+    challengerName: getCachedPlayerName(roomId, opened.challengerSlot),
+  });
+
+  if (allVotesIn(opened)) {
+    resolveWordChallenge(io, roomId).catch(err => {
+      console.error('[WordChain] Challenge resolve error:', err);
+    });
+  }
+  return opened;
+}
+
+/** Close the room's vote and apply the result to the game */
+async function resolveWordChallenge(io: SocketIOServer, roomId: string): Promise<void> {
+  const challenge = closeWordChallenge(roomId);
+  if (!challenge) return;
+
+  const tally = tallyVotes(challenge);
+  const upheld = isWordUpheld(challenge);
+  logChallengeResult(challenge, tally, upheld);
+
+  const game = await WordChainGame.findOne({ roomId });
+  if (!game || game.gameStatus !== 'playing') return;
+
+  io.to(roomId).emit('word-chain:challenge-resolved', {
+    challengeId: challenge.id,
+    kind: challenge.kind,
+    word: challenge.word,
+    authorSlot: challenge.authorSlot,
+    upheld,
+    votes: tally,
+  });
+
+  const author = game.players.find(p => p.slot === challenge.authorSlot);
+
+  if (challenge.kind === 'contest') {
+    // The turn may have moved on meanwhile (author surrendered or left)
+    if (!author || author.isEliminated || game.currentPlayerSlot !== author.slot) return;
+
+    if (upheld) {
+      const roomDict = getRoomDictionary(game);
+      // Already put to a vote — not disputable a second time
+      await acceptWord(io, game, challenge.word, roomDict, {
+        disputable: false,
+        timeLeftMs: challenge.pausedTurnMs, // the vote itself doesn't eat into the speed bonus
+      });
+    } else {
+      await handleLifeLoss(io, game, author.slot, 'rejected');
+    }
+    return;
+  }
+
+  // Dispute: the word was already played and the next turn is paused
+  const turnStillPaused = game.currentPlayerSlot === challenge.turnSlot;
+  const disputed = getDisputableWord(roomId);
+  setDisputableWord(roomId, null); // one vote per word
+  if (upheld || game.currentWord !== challenge.word) {
+    if (turnStillPaused) await resumeTurn(io, game, challenge.pausedTurnMs);
+    return;
+  }
+
+  // Struck: take the word back off the chain. It stays in usedWords so it can't be replayed.
+  if (game.wordChain[game.wordChain.length - 1] === challenge.word) {
+    game.wordChain.pop();
+  }
+  game.currentWord = disputed?.word === challenge.word ? disputed.previousWord : (game.wordChain[game.wordChain.length - 1] || '');
+  if (author) {
+    author.score = Math.max(0, author.score - (disputed?.score ?? calculateScore(challenge.word).total));
+    author.wordsPlayed = Math.max(0, author.wordsPlayed - 1);
+    author.streak = 0;
+
+    // Playing nonsense costs a life, like any rejected word
+    if (!author.isEliminated) takeLife(io, game, author);
+  }
+
+  const endCheck = checkGameEnd(game.players);
+  if (endCheck.ended) {
+    await game.save();
+    await finishGame(io, game, endCheck.winner);
+    return;
+  }
+
+  // The paused player now chains from the previous word, on a fresh clock
+  if (turnStillPaused) {
+    await resumeTurn(io, game, getCurrentTurnDuration(game) * 1000);
+  } else {
+    await game.save();
+  }
+}
+
 // ─── Socket Handler Setup ──────────────────────────────────────
 
 export function setupWordChainSocketHandlers(io: SocketIOServer): void {
@@ -362,9 +807,11 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           lives: rules.lives || 3,
           score: 0,
           wordsPlayed: 0,
+          streak: 0,
           isEliminated: false,
           isConnected: true,
         } as IWordChainPlayer;
+        balanceTeams([player], rules.gameMode === 'team');
 
         const game = new WordChainGame({
           roomId,
@@ -381,6 +828,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             gameMode: rules.gameMode || 'classic',
             allowRepeat: rules.allowRepeat || false,
             showHint: rules.showHint !== false,
+            scoring: parseScoringRules(rules.scoring),
           },
           password: hashedPassword,
           players: [player],
@@ -418,6 +866,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             isEliminated: false,
             isConnected: true,
             isHost: true,
+            team: player.team ?? null,
             deviceType: hostDeviceType,
           }],
         };
@@ -436,7 +885,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     // ─── JOIN ROOM ───────────────────────────────────────────
     socket.on('word-chain:join-room', async (data, callback) => {
       try {
-        const { roomCode, userId, guestId, guestName, password } = data;
+        const { roomCode, userId, guestId, guestName, password, spectate } = data;
 
         const game = await WordChainGame.findOne({ roomCode: roomCode?.toUpperCase() }).select('+password');
         if (!game) {
@@ -492,6 +941,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
               wordsPlayed: p.wordsPlayed,
               isEliminated: p.isEliminated,
               isConnected: p.isConnected,
+              isBot: !!p.isBot,
+            team: p.team ?? null,
               isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
               deviceType: getCachedDeviceType(game.roomId, p.slot),
             }))
@@ -499,6 +950,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
 
           const requiredSyllable = game.currentWord ? getLastSyllable(game.currentWord) : '';
           const isReconnectingHost = (existingPlayer.userId?.toString() || existingPlayer.guestId) === game.hostPlayerId;
+          const activeChallenge = getWordChallenge(game.roomId);
+          const pendingContest = getPendingContest(game.roomId);
 
           // Send full game state to reconnected player
           socket.emit('word-chain:joined-room' as any, {
@@ -517,6 +970,10 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             turnDuration: game.rules.turnDuration,
             wordChain: game.wordChain,
             roundNumber: game.roundNumber,
+            challenge: activeChallenge ? toPublicChallenge(activeChallenge) : null,
+            contestDeadline: pendingContest?.slot === existingPlayer.slot
+              ? new Date(pendingContest.deadline).toISOString()
+              : undefined,
           });
 
           // Notify room
@@ -535,6 +992,51 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           return;
         }
 
+        // Spectate: watch read-only without taking a slot (full room or game in progress)
+        if (spectate) {
+          if (game.password) {
+            if (!password) {
+              if (callback) callback({ success: false, error: 'passwordRequired' });
+              return;
+            }
+            const match = await bcrypt.compare(password, game.password);
+            if (!match) {
+              if (callback) callback({ success: false, error: 'wrongPassword' });
+              return;
+            }
+          }
+
+          const spectatorName = guestName || (userId ? (await User.findById(userId).select('username').lean())?.username : null) || 'Spectator';
+          if (!addSpectator(io, socket, game.roomId, { id: playerId, name: spectatorName, isGuest: !userId })) {
+            if (callback) callback({ success: false, error: 'tooManySpectators' });
+            return;
+          }
+
+          const spectatorPayload = {
+            roomId: game.roomId,
+            roomCode: game.roomCode,
+            rules: game.rules,
+            players: buildPlayersInfo(game),
+            maxPlayers: game.maxPlayers,
+            mySlot: null,
+            isHost: false,
+            isSpectator: true,
+            gameStatus: game.gameStatus,
+            currentWord: game.currentWord,
+            requiredSyllable: game.currentWord ? getLastSyllable(game.currentWord) : '',
+            currentPlayerSlot: game.currentPlayerSlot,
+            turnStartedAt: game.turnStartedAt?.toISOString(),
+            turnDuration: game.rules.turnDuration,
+            wordChain: game.wordChain,
+            roundNumber: game.roundNumber,
+            spectators: getSpectators(game.roomId),
+          };
+
+          socket.emit('word-chain:joined-room' as any, spectatorPayload);
+          if (callback) callback({ success: true, ...spectatorPayload });
+          return;
+        }
+
         if (game.gameStatus !== 'waiting') {
           if (callback) callback({ success: false, error: 'gameAlreadyStarted' });
           return;
@@ -571,11 +1073,13 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           lives: game.rules.lives,
           score: 0,
           wordsPlayed: 0,
+          streak: 0,
           isEliminated: false,
           isConnected: true,
         } as IWordChainPlayer;
 
         game.players.push(newPlayer);
+        balanceTeams(game.players, game.rules.gameMode === 'team');
         await game.save();
 
         socket.join(game.roomId);
@@ -600,6 +1104,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             isEliminated: false,
             isConnected: true,
             isHost: false,
+            team: game.players.find(p => p.slot === nextSlot)?.team ?? null,
             deviceType: joinDeviceType,
           },
           playerCount: game.players.length,
@@ -617,6 +1122,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             wordsPlayed: p.wordsPlayed || 0,
             isEliminated: p.isEliminated,
             isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
             isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
             deviceType: getCachedDeviceType(game.roomId, p.slot),
           }))
@@ -717,6 +1224,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             wordsPlayed: p.wordsPlayed || 0,
             isEliminated: p.isEliminated,
             isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
             isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
             deviceType: getCachedDeviceType(game.roomId, p.slot),
           }))
@@ -740,6 +1249,142 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
       }
     });
 
+    // ─── ADD BOT (host only, waiting state) ─────────────────
+    socket.on('word-chain:add-bot', async (data, callback) => {
+      try {
+        const { roomId } = data;
+        const level = isWordChainBotLevel(data?.level) ? data.level : 'medium';
+        const game = await WordChainGame.findOne({ roomId });
+        if (!game) {
+          if (callback) callback({ success: false, error: 'roomNotFound' });
+          return;
+        }
+
+        if (game.hostPlayerId !== socket.data.wordChainPlayerId) {
+          if (callback) callback({ success: false, error: 'notHost' });
+          return;
+        }
+        if (game.gameStatus !== 'waiting') {
+          if (callback) callback({ success: false, error: 'gameAlreadyStarted' });
+          return;
+        }
+        if (game.players.length >= game.maxPlayers) {
+          if (callback) callback({ success: false, error: 'roomFull' });
+          return;
+        }
+
+        const nextSlot = Math.max(...game.players.map(p => p.slot)) + 1;
+        const botName = getWordChainBotName(level);
+
+        game.players.push({
+          slot: nextSlot,
+          guestId: `${WORD_CHAIN_BOT_ID}-${nextSlot}`,
+          guestName: botName,
+          lives: game.rules.lives,
+          score: 0,
+          wordsPlayed: 0,
+          streak: 0,
+          isEliminated: false,
+          isConnected: true,
+          isBot: true,
+          botLevel: level,
+        } as IWordChainPlayer);
+        balanceTeams(game.players, game.rules.gameMode === 'team');
+        await game.save();
+
+        io.to(roomId).emit('word-chain:player-joined', {
+          player: {
+            slot: nextSlot,
+            name: botName,
+            guestName: botName,
+            lives: game.rules.lives,
+            score: 0,
+            wordsPlayed: 0,
+            isEliminated: false,
+            isConnected: true,
+            isBot: true,
+            isHost: false,
+            team: game.players.find(p => p.slot === nextSlot)?.team ?? null,
+          },
+          playerCount: game.players.length,
+          maxPlayers: game.maxPlayers,
+        });
+
+        if (callback) callback({ success: true });
+
+        io.emit('word-chain:rooms-updated', { action: 'updated', roomId });
+      } catch (error) {
+        console.error('[WordChain] Add bot error:', error);
+        if (callback) callback({ success: false, error: 'failedToAddBot' });
+      }
+    });
+
+    // ─── SWITCH TEAM (team mode, waiting state) ─────────────
+    // Players move themselves; the host can also move anyone else (e.g. bots)
+    socket.on('word-chain:switch-team', async (data, callback) => {
+      try {
+        const { roomId, slot, team } = data;
+        const game = await WordChainGame.findOne({ roomId });
+        if (!game) {
+          if (callback) callback({ success: false, error: 'roomNotFound' });
+          return;
+        }
+        if (game.gameStatus !== 'waiting') {
+          if (callback) callback({ success: false, error: 'gameAlreadyStarted' });
+          return;
+        }
+        if (game.rules.gameMode !== 'team' || !WORD_CHAIN_TEAMS.includes(team)) {
+          if (callback) callback({ success: false, error: 'invalidTeam' });
+          return;
+        }
+
+        const playerId = socket.data.wordChainPlayerId;
+        const self = game.players.find(p => (p.userId?.toString() || p.guestId) === playerId);
+        const target = slot !== undefined ? game.players.find(p => p.slot === slot) : self;
+        if (!target) {
+          if (callback) callback({ success: false, error: 'playerNotFound' });
+          return;
+        }
+        if (target !== self && game.hostPlayerId !== playerId) {
+          if (callback) callback({ success: false, error: 'notHost' });
+          return;
+        }
+
+        const teamSize = game.players.filter(p => p.team === team && p.slot !== target.slot).length;
+        if (teamSize >= Math.ceil(game.maxPlayers / WORD_CHAIN_TEAMS.length)) {
+          if (callback) callback({ success: false, error: 'teamFull' });
+          return;
+        }
+
+        target.team = team;
+        await game.save();
+
+        const playersInfo = await Promise.all(
+          game.players.map(async (p) => ({
+            slot: p.slot,
+            name: await resolvePlayerName(p),
+            guestName: p.guestName,
+            lives: p.lives,
+            score: p.score,
+            wordsPlayed: p.wordsPlayed || 0,
+            isEliminated: p.isEliminated,
+            isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
+            isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
+            deviceType: getCachedDeviceType(game.roomId, p.slot),
+          }))
+        );
+
+        io.to(roomId).emit('word-chain:teams-updated', { players: playersInfo });
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[WordChain] Switch team error:', error);
+        if (callback) callback({ success: false, error: 'failedToSwitchTeam' });
+      }
+    });
+
     // ─── UPDATE ROOM (host only, waiting state) ────────────
     socket.on('word-chain:update-room', async (data, callback) => {
       try {
@@ -789,11 +1434,15 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           if (rules.wordType !== undefined && ['2+', '3+', 'all'].includes(rules.wordType)) {
             game.rules.wordType = rules.wordType;
           }
-          if (rules.gameMode !== undefined && ['classic', 'speed'].includes(rules.gameMode)) {
+          if (rules.gameMode !== undefined && ['classic', 'speed', 'team'].includes(rules.gameMode)) {
             game.rules.gameMode = rules.gameMode;
+            balanceTeams(game.players, rules.gameMode === 'team');
           }
           if (rules.allowRepeat !== undefined) game.rules.allowRepeat = !!rules.allowRepeat;
           if (rules.showHint !== undefined) game.rules.showHint = !!rules.showHint;
+          if (rules.allowProperNouns !== undefined) game.rules.allowProperNouns = !!rules.allowProperNouns;
+          if (rules.allowSlang !== undefined) game.rules.allowSlang = !!rules.allowSlang;
+          if (rules.scoring !== undefined) game.rules.scoring = parseScoringRules(rules.scoring);
         }
 
         // Password handling: undefined = no change, '' or null = remove, non-empty = set
@@ -818,6 +1467,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             wordsPlayed: p.wordsPlayed || 0,
             isEliminated: p.isEliminated,
             isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
             isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
             deviceType: getCachedDeviceType(game.roomId, p.slot),
           }))
@@ -881,6 +1532,13 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     socket.on('word-chain:leave-room', async (data) => {
       try {
         const { roomId } = data;
+
+        // Spectators just stop watching
+        if (isSpectating(socket, roomId)) {
+          removeSpectator(io, socket);
+          return;
+        }
+
         const game = await WordChainGame.findOne({ roomId });
         if (!game) return;
 
@@ -910,6 +1568,10 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         }
 
         const wasPlaying = game.gameStatus === 'playing';
+        // Pick the next player while the leaver is still seated (team rotation needs their team)
+        const nextSlotAfterLeave = wasPlaying && game.currentPlayerSlot === removedPlayer.slot
+          ? getNextPlayerSlot(game.players, removedPlayer.slot, game.teamTurnSlots)
+          : -1;
         game.players.splice(playerIndex, 1);
 
         socket.leave(roomId);
@@ -917,39 +1579,38 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
 
         // Transfer host if the leaving player was the host
         let newHostPlayerId: string | undefined;
-        if (game.players.length === 0) {
-          // Empty room — mark abandoned (full cleanup including caches)
+        const newHost = game.players.find(p => !p.isBot);
+        if (!newHost) {
+          // Empty room (or only bots left) — mark abandoned (full cleanup including caches)
           game.gameStatus = 'abandoned';
           cleanupRoom(roomId, true);
+          clearSpectators(io, roomId);
         } else if (playerId === game.hostPlayerId) {
-          // Assign host to first remaining player
-          const newHost = game.players[0];
+          // Assign host to first remaining human player
           game.hostPlayerId = newHost.userId?.toString() || newHost.guestId || '';
           newHostPlayerId = game.hostPlayerId;
         }
 
         // If game was playing, check if only 1 player remains → auto-finish
-        if (wasPlaying && game.players.length > 0) {
-          const activePlayers = game.players.filter(p => !p.isEliminated);
-          if (activePlayers.length <= 1) {
+        let turnPassed = false;
+        if (wasPlaying && game.gameStatus !== 'abandoned') {
+          const endCheck = checkGameEnd(game.players);
+          if (endCheck.ended) {
             await game.save();
-            const winner = activePlayers.length === 1 ? activePlayers[0] : 'draw' as const;
-            await finishGame(io, game, winner);
+            await finishGame(io, game, endCheck.winner);
             io.emit('word-chain:rooms-updated', { action: 'updated', roomId });
             return;
           }
 
           // If it was the leaving player's turn, advance to next player
-          if (game.currentPlayerSlot === removedPlayer.slot) {
-            const nextSlot = getNextPlayerSlot(game.players, removedPlayer.slot);
-            if (nextSlot !== -1) {
-              game.currentPlayerSlot = nextSlot;
-              game.turnStartedAt = new Date();
-            }
+          if (nextSlotAfterLeave !== -1) {
+            setCurrentTurn(game, nextSlotAfterLeave);
+            turnPassed = true;
           }
         }
 
         await game.save();
+        if (turnPassed) scheduleBotTurn(io, game);
 
         const remainingPlayers = await Promise.all(
           game.players.map(async (p) => ({
@@ -961,6 +1622,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             wordsPlayed: p.wordsPlayed || 0,
             isEliminated: p.isEliminated,
             isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
             isHost: (p.userId?.toString() || p.guestId) === game.hostPlayerId,
             deviceType: getCachedDeviceType(game.roomId, p.slot),
           }))
@@ -983,6 +1646,10 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     socket.on('word-chain:start-game', async (data, callback) => {
       try {
         const { roomId } = data;
+        if (isSpectating(socket, roomId)) {
+          if (callback) callback({ success: false, error: 'spectatorCannotAct' });
+          return;
+        }
         const game = await WordChainGame.findOne({ roomId });
         if (!game) {
           if (callback) callback({ success: false, error: 'roomNotFound' });
@@ -999,8 +1666,22 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           return;
         }
 
+        // Team mode: two even teams, each sharing one pool of lives
+        const teamMode = game.rules.gameMode === 'team';
+        if (teamMode) {
+          balanceTeams(game.players, true);
+          if (!areTeamsBalanced(game.players)) {
+            if (callback) callback({ success: false, error: 'unevenTeams' });
+            return;
+          }
+          const teamSize = game.players.length / WORD_CHAIN_TEAMS.length;
+          for (const player of game.players) {
+            player.lives = game.rules.lives * teamSize;
+          }
+        }
+
         // Build room dictionary based on rules
-        const roomDict = buildRoomDictionary({ wordType: game.rules.wordType });
+        const roomDict = buildRoomDictionary(game.rules);
         roomDictionaries.set(roomId, roomDict);
 
         // Select first word
@@ -1016,8 +1697,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         game.wordChain = [firstWord];
         game.usedWords = [firstWord];
         // Use first player's actual slot (slots may not start at 1 after leave/rejoin)
-        game.currentPlayerSlot = game.players[0].slot;
-        game.turnStartedAt = new Date();
+        game.teamTurnSlots = [];
+        setCurrentTurn(game, game.players[0].slot);
         game.startedAt = new Date();
         game.roundNumber = 1;
 
@@ -1057,6 +1738,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
 
           await handleLifeLoss(io, freshGame, freshGame.currentPlayerSlot, 'timeout');
         });
+        scheduleBotTurn(io, game);
 
         io.emit('word-chain:rooms-updated', { action: 'started', roomId });
       } catch (error) {
@@ -1091,6 +1773,12 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           return;
         }
 
+        // Turn is frozen while a contest or challenge vote is open
+        if (isChallengeOpen(roomId)) {
+          if (callback) callback({ success: false, error: 'challengeInProgress' });
+          return;
+        }
+
         // ─── BUG FIX: Check if turn has already timed out (race condition) ───
         const turnElapsedMs = Date.now() - (game.turnStartedAt?.getTime() || 0);
         const turnDurationMs = (game.rules.turnDuration || 60) * 1000;
@@ -1101,17 +1789,14 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         }
 
         // Get room dictionary (or rebuild if missing)
-        let roomDict = roomDictionaries.get(roomId);
-        if (!roomDict) {
-          roomDict = buildRoomDictionary({ wordType: game.rules.wordType });
-          roomDictionaries.set(roomId, roomDict);
-        }
+        const roomDict = getRoomDictionary(game);
 
         // Validate
         const result = validateWord(word, game, roomDict);
 
         if (!result.valid) {
           // Log potentially valid words that are missing from dictionary
+          let isContestable = false;
           if (result.reason === 'not_in_dictionary') {
             const normalized = normalizeWord(word);
             const isSyntaxValid = isValidVietnameseWord(normalized);
@@ -1131,9 +1816,48 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             if (isSyntaxValid && isTypeValid && isChainValid && isNew) {
               // Log strictly valid candidates only
               logMissingWord(normalized);
+              // ...and let the room overrule the dictionary if anyone else can vote
+              isContestable = getChallengeVoterSlots(game).some(slot => slot !== game.currentPlayerSlot);
             }
           }
 
+          if (isContestable) {
+            // Hold the life loss while the player decides whether to contest
+            clearTurnTimer(roomId);
+            const contestSlot = game.currentPlayerSlot;
+            const deadline = Date.now() + CONTEST_WINDOW_MS;
+            const turnMs = getCurrentTurnDuration(game) * 1000;
+            setPendingContest(roomId, {
+              word: normalizeWord(word),
+              slot: contestSlot,
+              deadline,
+              timeLeftMs: Math.max(0, turnMs - (Date.now() - new Date(game.turnStartedAt).getTime())),
+              timer: setTimeout(async () => {
+                if (!takePendingContest(roomId)) return;
+                try {
+                  const freshGame = await WordChainGame.findOne({ roomId });
+                  if (!freshGame || freshGame.gameStatus !== 'playing') return;
+                  if (freshGame.currentPlayerSlot !== contestSlot) return;
+                  await handleLifeLoss(io, freshGame, contestSlot, 'rejected');
+                } catch (err) {
+                  console.error('[WordChain] Contest window error:', err);
+                }
+              }, CONTEST_WINDOW_MS),
+            });
+
+            io.to(roomId).emit('word-chain:word-rejected', {
+              reason: result.reason,
+              playerSlot: contestSlot,
+              word: normalizeWord(word),
+              playerName: getCachedPlayerName(roomId, contestSlot),
+              livesRemaining: (currentPlayer?.lives || 1) - 1,
+              contestDeadline: new Date(deadline).toISOString(),
+            });
+
+            if (callback) callback({ success: false, reason: result.reason, contestable: true });
+            return;
+          }
+
           // Word rejected — player loses 1 life
           io.to(roomId).emit('word-chain:word-rejected', {
             reason: result.reason,
@@ -1151,110 +1875,158 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         }
 
         // Word accepted
-        clearTurnTimer(roomId);
-        const normalized = normalizeWord(word);
+        await acceptWord(io, game, normalizeWord(word), roomDict);
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[WordChain] Submit word error:', error);
+        if (callback) callback({ success: false, error: 'serverError' });
+      }
+    });
 
-        if (currentPlayer) {
-          currentPlayer.score += calculateScore(normalized);
-          currentPlayer.wordsPlayed += 1;
+    // ─── CONTEST REJECTION ───────────────────────────────────
+    // The rejected player asks the room to overrule the dictionary
+    socket.on('word-chain:contest-rejection', async (data, callback) => {
+      try {
+        const { roomId } = data;
+        if (isSpectating(socket, roomId)) {
+          if (callback) callback({ success: false, error: 'spectatorCannotAct' });
+          return;
+        }
+        const game = await WordChainGame.findOne({ roomId });
+        if (!game || game.gameStatus !== 'playing') {
+          if (callback) callback({ success: false, error: 'gameNotActive' });
+          return;
         }
 
-        game.currentWord = normalized;
-        game.wordChain.push(normalized);
-        game.usedWords.push(normalized);
-        game.roundNumber += 1;
-
-        // Check if no words available for next player
-        const noWords = checkNoWordsAvailable(
-          normalized,
-          game.usedWords,
-          roomDict,
-          game.rules.allowRepeat
+        const pending = getPendingContest(roomId);
+        const player = game.players.find(
+          p => (p.userId?.toString() || p.guestId) === socket.data.wordChainPlayerId
         );
+        if (!pending || !player || pending.slot !== player.slot) {
+          if (callback) callback({ success: false, error: 'nothingToContest' });
+          return;
+        }
+        takePendingContest(roomId);
+
+        startWordChallenge(io, game, {
+          kind: 'contest',
+          word: pending.word,
+          authorSlot: player.slot,
+          challengerSlot: player.slot,
+          turnSlot: game.currentPlayerSlot,
+          pausedTurnMs: pending.timeLeftMs,
+        });
 
-        if (noWords) {
-          // Emit the accepted word FIRST so players see the final word
-          const noWordsPlayersInfo = buildPlayersInfo(game);
-          const noWordsRequiredSyllable = getLastSyllable(normalized);
-          io.to(roomId).emit('word-chain:word-accepted', {
-            word: normalized,
-            currentWord: normalized,
-            playerSlot: currentPlayer?.slot,
-            playerName: getCachedPlayerName(roomId, currentPlayer?.slot || 0),
-            score: currentPlayer?.score,
-            nextPlayerSlot: game.currentPlayerSlot, // stays same since game ends
-            turnStartedAt: new Date().toISOString(),
-            turnDuration: game.rules.turnDuration,
-            roundNumber: game.roundNumber,
-            requiredSyllable: noWordsRequiredSyllable,
-            totalWords: game.wordChain.length,
-            players: noWordsPlayersInfo,
-          });
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('[WordChain] Contest rejection error:', error);
+        if (callback) callback({ success: false, error: 'serverError' });
+      }
+    });
 
-          await game.save();
-          // Determine winner by score instead of always declaring draw
-          const winner = determineWinnerByScore(game.players);
-          await finishGame(io, game, winner);
-          if (callback) callback({ success: true });
+    // ─── CHALLENGE WORD ──────────────────────────────────────
+    // Another player calls the word just accepted nonsense; the next turn pauses for the vote
+    socket.on('word-chain:challenge-word', async (data, callback) => {
+      try {
+        const { roomId } = data;
+        if (isSpectating(socket, roomId)) {
+          if (callback) callback({ success: false, error: 'spectatorCannotAct' });
           return;
         }
-
-        // Move to next player
-        const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot);
-        if (nextSlot === -1) {
-          await game.save();
-          const endCheck = checkGameEnd(game.players);
-          await finishGame(io, game, endCheck.winner);
-          if (callback) callback({ success: true });
+        const game = await WordChainGame.findOne({ roomId });
+        if (!game || game.gameStatus !== 'playing') {
+          if (callback) callback({ success: false, error: 'gameNotActive' });
           return;
         }
 
-        game.currentPlayerSlot = nextSlot;
-        game.turnStartedAt = new Date();
-
-        let turnDuration = game.rules.turnDuration;
-        if (game.rules.gameMode === 'speed') {
-          turnDuration = getSpeedModeTurnDuration(game.roundNumber, game.rules.turnDuration);
+        if (isChallengeOpen(roomId)) {
+          if (callback) callback({ success: false, error: 'challengeInProgress' });
+          return;
         }
 
-        await game.save();
+        const disputable = getDisputableWord(roomId);
+        if (
+          !disputable ||
+          disputable.word !== game.currentWord ||
+          Date.now() - disputable.acceptedAt > DISPUTE_WINDOW_MS
+        ) {
+          if (callback) callback({ success: false, error: 'challengeClosed' });
+          return;
+        }
 
-        const requiredSyllable = getLastSyllable(normalized);
+        const player = game.players.find(
+          p => (p.userId?.toString() || p.guestId) === socket.data.wordChainPlayerId
+        );
+        if (!player || player.isEliminated || player.slot === disputable.authorSlot) {
+          if (callback) callback({ success: false, error: 'cannotChallenge' });
+          return;
+        }
+        if (getDisputesUsed(roomId, player.slot) >= MAX_DISPUTES_PER_PLAYER) {
+          if (callback) callback({ success: false, error: 'noChallengesLeft' });
+          return;
+        }
 
-        // Build players array using cache (no DB queries — fast!)
-        const acceptedPlayersInfo = buildPlayersInfo(game);
+        const turnDurationMs = getCurrentTurnDuration(game) * 1000;
+        const remainingMs = turnDurationMs - (Date.now() - (game.turnStartedAt?.getTime() || 0));
+        if (remainingMs <= 0) {
+          if (callback) callback({ success: false, error: 'turnExpired' });
+          return;
+        }
 
-        io.to(roomId).emit('word-chain:word-accepted', {
-          word: normalized,
-          currentWord: normalized,
-          playerSlot: currentPlayer?.slot,
-          playerName: getCachedPlayerName(roomId, currentPlayer?.slot || 0),
-          score: currentPlayer?.score,
-          nextPlayerSlot: nextSlot,
-          turnStartedAt: game.turnStartedAt.toISOString(),
-          turnDuration,
-          roundNumber: game.roundNumber,
-          requiredSyllable,
-          totalWords: game.wordChain.length,
-          players: acceptedPlayersInfo,
+        clearTurnTimer(roomId);
+        countDispute(roomId, player.slot);
+
+        startWordChallenge(io, game, {
+          kind: 'dispute',
+          word: disputable.word,
+          authorSlot: disputable.authorSlot,
+          challengerSlot: player.slot,
+          turnSlot: game.currentPlayerSlot,
+          pausedTurnMs: remainingMs,
         });
 
-        if (callback) callback({ success: true });
+        if (callback) callback({ success: true, challengesLeft: MAX_DISPUTES_PER_PLAYER - getDisputesUsed(roomId, player.slot) });
+      } catch (error) {
+        console.error('[WordChain] Challenge word error:', error);
+        if (callback) callback({ success: false, error: 'serverError' });
+      }
+    });
 
-        // Start timer for next player
-        startTurnTimer(io, roomId, turnDuration * 1000, async () => {
-          const freshGame = await WordChainGame.findOne({ roomId });
-          if (!freshGame || freshGame.gameStatus !== 'playing') return;
+    // ─── VOTE ON CHALLENGE ───────────────────────────────────
+    socket.on('word-chain:vote-challenge', async (data, callback) => {
+      try {
+        const { roomId, challengeId, accept } = data;
+        const challenge = getWordChallenge(roomId);
+        if (!challenge || challenge.id !== challengeId) {
+          if (callback) callback({ success: false, error: 'challengeClosed' });
+          return;
+        }
 
-          io.to(roomId).emit('word-chain:turn-timeout', {
-            slot: freshGame.currentPlayerSlot,
-            livesRemaining: (freshGame.players.find(p => p.slot === freshGame.currentPlayerSlot)?.lives || 1) - 1,
-          });
+        const game = await WordChainGame.findOne({ roomId }).lean();
+        const player = game?.players.find(
+          p => (p.userId?.toString() || p.guestId) === socket.data.wordChainPlayerId
+        );
+        if (!player || !challenge.voterSlots.includes(player.slot)) {
+          if (callback) callback({ success: false, error: 'cannotVote' });
+          return;
+        }
+        if (challenge.votes.has(player.slot)) {
+          if (callback) callback({ success: false, error: 'alreadyVoted' });
+          return;
+        }
 
-          await handleLifeLoss(io, freshGame, freshGame.currentPlayerSlot, 'timeout');
+        challenge.votes.set(player.slot, !!accept);
+        io.to(roomId).emit('word-chain:challenge-vote', {
+          challengeId,
+          votedSlots: [...challenge.votes.keys()],
         });
+        if (callback) callback({ success: true });
+
+        if (allVotesIn(challenge)) {
+          await resolveWordChallenge(io, roomId);
+        }
       } catch (error) {
-        console.error('[WordChain] Submit word error:', error);
+        console.error('[WordChain] Vote challenge error:', error);
         if (callback) callback({ success: false, error: 'serverError' });
       }
     });
@@ -1263,6 +2035,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     socket.on('word-chain:surrender', async (data) => {
       try {
         const { roomId, slot } = data;
+        if (isSpectating(socket, roomId)) return;
         const game = await WordChainGame.findOne({ roomId });
         if (!game || game.gameStatus !== 'playing') return;
 
@@ -1296,7 +2069,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         // If it was surrendering player's turn, move to next
         if (game.currentPlayerSlot === slot) {
           clearTurnTimer(roomId);
-          const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot);
+          const nextSlot = getNextPlayerSlot(game.players, game.currentPlayerSlot, game.teamTurnSlots);
           if (nextSlot === -1) {
             await game.save();
             // Determine winner by score instead of always declaring draw
@@ -1305,8 +2078,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             return;
           }
 
-          game.currentPlayerSlot = nextSlot;
-          game.turnStartedAt = new Date();
+          setCurrentTurn(game, nextSlot);
           await game.save();
 
           let turnDuration = game.rules.turnDuration;
@@ -1332,6 +2104,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             });
             await handleLifeLoss(io, freshGame, freshGame.currentPlayerSlot, 'timeout');
           });
+          scheduleBotTurn(io, game);
         } else {
           await game.save();
         }
@@ -1344,6 +2117,10 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     socket.on('word-chain:new-game', async (data, callback) => {
       try {
         const { roomId } = data;
+        if (isSpectating(socket, roomId)) {
+          if (callback) callback({ success: false, error: 'spectatorCannotAct' });
+          return;
+        }
         const game = await WordChainGame.findOne({ roomId });
         if (!game || game.gameStatus === 'playing') {
           if (callback) callback({ success: false, error: 'cannotReset' });
@@ -1353,6 +2130,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         // Reset game state, keep settings and players
         game.gameStatus = 'waiting';
         game.currentPlayerSlot = game.players.length > 0 ? game.players[0].slot : 1;
+        game.teamTurnSlots = [];
         game.wordChain = [];
         game.usedWords = [];
         game.currentWord = '';
@@ -1367,6 +2145,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
           player.lives = game.rules.lives;
           player.score = 0;
           player.wordsPlayed = 0;
+          player.streak = 0;
           player.isEliminated = false;
           player.isConnected = true;
         }
@@ -1383,6 +2162,8 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
             wordsPlayed: 0,
             isEliminated: false,
             isConnected: p.isConnected,
+            isBot: !!p.isBot,
+            team: p.team ?? null,
             deviceType: getCachedDeviceType(game.roomId, p.slot),
           }))
         );
@@ -1447,7 +2228,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
     socket.on('word-chain:send-chat', async (data) => {
       try {
         if (isWcRateLimited('chat', 5)) return; // max 5 chats per 5s
-        const { roomId, message } = data;
+        const { roomId, message, teamOnly } = data;
         if (!message || !roomId) return;
 
         const trimmed = (message as string).trim().slice(0, 100);
@@ -1465,6 +2246,23 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
         if (!player) return;
 
         const playerName = getCachedPlayerName(roomId, player.slot);
+
+        // Team chat: only teammates' own sockets get it (no room broadcast, so spectators can't read it)
+        if (teamOnly && player.team) {
+          for (const mate of game.players) {
+            if (mate.team !== player.team || mate.slot === player.slot || mate.isBot) continue;
+            const mateSocketId = activePlayerSockets.get(`${roomId}:${mate.userId?.toString() || mate.guestId}`);
+            if (!mateSocketId) continue;
+            io.to(mateSocketId).emit('word-chain:chat-received', {
+              message: trimmed,
+              slot: player.slot,
+              playerName,
+              teamOnly: true,
+            });
+          }
+          return;
+        }
+
         socket.to(roomId).emit('word-chain:chat-received', {
           message: trimmed,
           slot: player.slot,
@@ -1520,6 +2318,7 @@ export function setupWordChainSocketHandlers(io: SocketIOServer): void {
                 if (!freshGame || freshGame.gameStatus !== 'playing') return;
                 const p = freshGame.players.find(pl => pl.slot === player.slot);
                 if (!p || p.isConnected || p.isEliminated) return; // reconnected or already out
+                if (isChallengeOpen(roomId)) return; // turn is paused; the resumed timer covers it
 
                 // Grace period expired, player still disconnected — treat as timeout
                 clearTurnTimer(roomId);
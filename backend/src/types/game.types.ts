@@ -2,3 +2,9 @@ export type PlayerNumber = 1 | 2;
 export type GameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
 export type Winner = PlayerNumber | null | 'draw';
 
+export type WinReason = 'line' | 'surrender' | 'timeout';
+
+// Competitive opening protocols: the first player lays tentative stones, the other picks a color
+export type CaroOpening = 'standard' | 'swap' | 'swap2';
+export type OpeningPhase = 'none' | 'placing' | 'choosing';
+export type OpeningChoice = 'black' | 'white' | 'place2';
@@ -11,15 +11,25 @@ export type GoPhase = 'play' | 'scoring';
 export type GoGameStatus = 'waiting' | 'playing' | 'scoring' | 'finished' | 'abandoned';
 export type GoColor = 'black' | 'white';
 export type GoWinReason = 'score' | 'resign' | 'timeout';
+export type GoBotLevel = 'easy' | 'medium' | 'hard';
+export type GoTimeSystem = 'byoyomi' | 'canadian' | 'fischer';
+/** chinese = area scoring; japanese/korean = territory + prisoners; aga = territory + prisoners + pass stones */
+export type GoRuleset = 'chinese' | 'japanese' | 'korean' | 'aga';
 
 // ─── Settings ────────────────────────────────────────────────
 export interface IGoSettings {
   boardSize: GoBoardSize;
-  komi: number;           // default 6.5 (Chinese rules)
+  komi: number;           // default 6.5
+  ruleset: GoRuleset;     // how the final position is counted (default Chinese)
   handicap: number;       // 0-9
   mainTime: number;       // seconds (0 = no timer)
   byoyomiPeriods: number; // default 3
   byoyomiTime: number;    // seconds per period
+  timeSystem: GoTimeSystem;  // overtime after main time (default Japanese byoyomi)
+  canadianStones: number;    // Canadian: stones to play in each overtime block
+  canadianTime: number;      // Canadian: seconds per overtime block
+  fischerIncrement: number;  // Fischer: seconds added after every move
+  botLevel: GoBotLevel | null; // set when slot 2 is the built-in bot
 }
 
 // ─── Player ──────────────────────────────────────────────────
@@ -32,10 +42,13 @@ export interface IGoPlayer {
   captures: number;           // stones captured by this player
   mainTimeLeft: number;       // seconds remaining
   byoyomiPeriodsLeft: number;
+  periodTimeLeft: number;     // seconds left in the current byoyomi period / Canadian block
+  stonesLeft: number;         // Canadian: stones still due in the current block
   passed: boolean;            // last action was pass
   scoringAgreed: boolean;
   isConnected: boolean;
   disconnectedAt?: Date;
+  isBot?: boolean;            // built-in computer player
 }
 
 // ─── Move History ────────────────────────────────────────────
@@ -50,9 +63,99 @@ export interface IGoMove {
 }
 
 // ─── Score ───────────────────────────────────────────────────
+export interface IGoScoreSide {
+  territory: number;
+  stones: number;      // live stones on the board
+  captures: number;    // opponent stones removed as dead at the end
+  prisoners: number;   // captures during play + dead stones
+  passStones: number;  // AGA: stones handed over by the opponent's passes
+  total: number;
+}
+
 export interface IGoScore {
-  black: { territory: number; stones: number; captures: number; total: number };
-  white: { territory: number; stones: number; captures: number; komi: number; total: number };
+  ruleset: GoRuleset;
+  black: IGoScoreSide;
+  white: IGoScoreSide & { komi: number };
+}
+
+export interface IGoTerritory {
+  black: string[];
+  white: string[];
+  neutral: string[];
+  seki: string[];      // empty points left uncounted because of seki (also listed in neutral)
+}
+
+// ─── Review ──────────────────────────────────────────────────
+export type GoMarkType = 'triangle' | 'square' | 'circle' | 'letter';
+
+export interface IGoMark {
+  row: number;
+  col: number;
+  type: GoMarkType;
+  label?: string;      // letter marks only
+}
+
+/** One position in a review tree; the root is the starting position (move = null) */
+export interface IGoReviewNode {
+  id: string;
+  parentId: string | null;
+  move: Pick<IGoMove, 'row' | 'col' | 'color' | 'captures' | 'isPass'> | null;
+  moveNumber: number;
+  isMainLine: boolean; // part of the game as it was played
+  comment: string;
+  marks: IGoMark[];
+  children: string[];  // first child continues the line, the rest are variations
+}
+
+export interface IGoReviewer {
+  id: string;          // userId or guestId
+  name: string;
+}
+
+export interface IGoReviewState {
+  initialBoard: number[][];
+  rootId: string;
+  nodes: IGoReviewNode[];
+  currentId: string;   // the leader's position
+  leader: IGoReviewer | null;
+}
+
+// ─── Problems (Tsumego) ──────────────────────────────────────
+export type GoProblemDifficulty = 'beginner' | 'intermediate' | 'advanced';
+export type GoProblemGoal = 'capture' | 'live' | 'kill' | 'semeai';
+
+/**
+ * One solver move in a problem's solution tree. Moves not listed at a step are wrong.
+ * A node without `result` continues: the opponent answers with `reply` and the solver
+ * picks again from `next`.
+ */
+export interface IGoProblemMove {
+  row: number;
+  col: number;
+  result?: 'correct' | 'wrong';
+  comment?: string;    // i18n key shown after the move
+  reply?: { row: number; col: number };
+  next?: IGoProblemMove[];
+}
+
+export interface IGoProblem {
+  id: string;
+  titleKey: string;
+  difficulty: GoProblemDifficulty;
+  goal: GoProblemGoal;
+  boardSize: GoBoardSize;
+  board: number[][];
+  toPlay: GoColor;
+  solution: IGoProblemMove[];
+}
+
+export interface IGoProblemProgress extends Document {
+  userId: mongoose.Types.ObjectId;
+  problemId: string;
+  attempts: number;
+  solved: boolean;
+  solvedAt: Date | null;
+  lastAttemptAt: Date;
 }
 
 // ─── Winner ──────────────────────────────────────────────────
@@ -82,12 +185,15 @@ export interface IGoGame extends Document {
   consecutivePasses: number;
   koPoint: { row: number; col: number } | null;
   moveCount: number;
+  clockStartedAt: Date | null; // when the player to move last had their time checkpointed; null = clock stopped
 
   // Scoring phase
   deadStones: string[];   // "row-col" keys
-  territory: { black: string[]; white: string[]; neutral: string[] };
+  territory: IGoTerritory;
 
   moveHistory: IGoMove[];
+  isReview: boolean;      // imported from SGF — view only, never played
+  isRated: boolean;       // false for unrated quick-match rooms
 
   winner: IGoWinner | null;
   winReason: GoWinReason | null;
@@ -98,3 +204,36 @@ export interface IGoGame extends Document {
   startedAt: Date | null;
   finishedAt: Date | null;
 }
+
+// ─── Archived Game ───────────────────────────────────────────
+export interface IGoHistoryPlayer {
+  slot: 1 | 2;
+  color: GoColor;
+  userId: mongoose.Types.ObjectId | null;
+  name: string;               // display name at the time the game ended
+  captures: number;
+  isBot: boolean;
+}
+
+export interface IGoGameHistory extends Document {
+  roomId: string;
+  roomCode: string;
+  settings: Pick<IGoSettings, 'boardSize' | 'komi' | 'ruleset' | 'handicap' | 'mainTime' | 'byoyomiPeriods' | 'byoyomiTime'>;
+  players: IGoHistoryPlayer[];
+  playerUserIds: mongoose.Types.ObjectId[]; // authenticated participants, for per-user queries
+
+  initialBoard: number[][];   // handicap stones before move 1
+  finalBoard: number[][];
+  moveHistory: IGoMove[];
+  moveCount: number;
+
+  deadStones: string[];
+  territory: IGoTerritory;
+  finalScore: IGoScore | null;
+  winner: IGoWinner | null;
+  winReason: GoWinReason | null;
+
+  startedAt: Date | null;
+  finishedAt: Date;
+  savedAt: Date;
+}
@@ -0,0 +1,47 @@
+/**
+ * Lucky Wheel — Shared room types.
+ * Rooms are short-lived and kept in memory; spins use a commit–reveal seed
+ * so every viewer can verify the result after it is revealed.
+ */
+
+export interface LuckyWheelItem {
+  label: string;
+  weight: number;
+}
+
+export interface LuckyWheelMember {
+  socketId: string;
+  playerId: string;   // userId or guestId
+  name: string;
+  isHost: boolean;
+}
+
+/** Everything needed to recompute and verify one spin */
+export interface LuckyWheelSpinReveal {
+  nonce: number;
+  serverSeed: string;
+  commitment: string;   // sha256(serverSeed), published before the spin
+  clientSeed: string;
+  hash: string;         // HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`)
+  items: LuckyWheelItem[];
+  index: number;
+  label: string;
+  spins: number;        // full turns for the animation
+  offset: number;       // 0..1 position inside the winning segment
+  durationMs: number;
+  spunAt: Date;
+}
+
+export interface LuckyWheelRoom {
+  roomCode: string;
+  hostPlayerId: string;
+  items: LuckyWheelItem[];
+  members: LuckyWheelMember[];
+  serverSeed: string;   // secret until revealed
+  commitment: string;
+  clientSeed: string;
+  nonce: number;
+  isSpinning: boolean;
+  lastSpin: LuckyWheelSpinReveal | null;
+  createdAt: Date;
+}
@@ -0,0 +1,71 @@
+/**
+ * Matchmaking (quick match) TypeScript interfaces and types.
+ */
+import { GoBoardSize, GoRuleset, GoTimeSystem } from './go.types';
+
+export type MatchmakingGameType = 'caro' | 'go';
+
+// ─── Preferences ─────────────────────────────────────────────
+// Two players are only paired when their normalized preferences are identical.
+
+export interface CaroMatchPreferences {
+  boardSize: number;
+  blockTwoEnds: boolean;
+  timeLimit: number | null;     // seconds per move
+  gameTimeLimit: number | null; // seconds per player for the whole game
+  timeIncrement: number;        // seconds added after each move
+}
+
+export interface GoMatchPreferences {
+  boardSize: GoBoardSize;
+  mainTime: number;       // seconds (0 = no timer)
+  byoyomiPeriods: number;
+  byoyomiTime: number;    // seconds per period
+  ruleset: GoRuleset;
+  timeSystem: GoTimeSystem;
+  canadianStones: number;   // Canadian: stones per overtime block
+  canadianTime: number;     // Canadian: seconds per overtime block
+  fischerIncrement: number; // Fischer: seconds added after every move
+}
+
+export type MatchPreferences = CaroMatchPreferences | GoMatchPreferences;
+
+// ─── Queue ───────────────────────────────────────────────────
+
+export interface MatchmakingEntry {
+  playerId: string;        // userId or guestId
+  socketId: string;
+  userId: string | null;
+  guestId: string | null;
+  name: string;
+  gameType: MatchmakingGameType;
+  preferences: MatchPreferences;
+  poolKey: string;         // gameType + rated + preferences; only equal keys can match
+  rated: boolean;
+  rating: number;
+  enqueuedAt: number;
+}
+
+// ─── Socket Payloads ─────────────────────────────────────────
+
+export interface MatchmakingStatus {
+  gameType: MatchmakingGameType;
+  rated: boolean;
+  rating: number;
+  waitedMs: number;
+  estimatedWaitMs: number | null; // null until enough recent matches to estimate
+  ratingWindow: number | null;    // null = any rating accepted
+  queueSize: number;              // players waiting with the same preferences
+}
+
+export interface MatchmakingMatched {
+  gameType: MatchmakingGameType;
+  roomId: string;
+  roomCode: string;
+  rated: boolean;
+  opponent: {
+    name: string;
+    rating: number;
+    isGuest: boolean;
+  };
+}
@@ -12,7 +12,7 @@ export const VALID_CHARACTERS: TinhTuyCharacter[] = ['shiba', 'kungfu', 'fox', '
 // ─── Enums ────────────────────────────────────────────────────
 export type TinhTuyGameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
 export type TinhTuyGameMode = 'classic' | 'timed' | 'rounds';
-export type TurnPhase = 'ROLL_DICE' | 'MOVING' | 'AWAITING_ACTION' | 'AWAITING_BUILD' | 'AWAITING_FREE_HOUSE' | 'AWAITING_FREE_HOTEL' | 'AWAITING_CARD' | 'AWAITING_CARD_DISPLAY' | 'AWAITING_TRAVEL' | 'AWAITING_FESTIVAL' | 'AWAITING_SELL' | 'AWAITING_DESTROY_PROPERTY' | 'AWAITING_DOWNGRADE_BUILDING' | 'AWAITING_BUYBACK' | 'AWAITING_CARD_DESTINATION' | 'AWAITING_FORCED_TRADE' | 'AWAITING_RENT_FREEZE' | 'AWAITING_BUY_BLOCK_TARGET' | 'AWAITING_EMINENT_DOMAIN' | 'AWAITING_ABILITY_CHOICE' | 'AWAITING_OWL_PICK' | 'AWAITING_HORSE_ADJUST' | 'AWAITING_HORSE_MOVE' | 'AWAITING_SHIBA_REROLL_PICK' | 'AWAITING_RABBIT_BONUS' | 'ISLAND_TURN' | 'END_TURN';
+export type TurnPhase = 'ROLL_DICE' | 'MOVING' | 'AWAITING_ACTION' | 'AWAITING_BUILD' | 'AWAITING_FREE_HOUSE' | 'AWAITING_FREE_HOTEL' | 'AWAITING_CARD' | 'AWAITING_CARD_DISPLAY' | 'AWAITING_TRAVEL' | 'AWAITING_FESTIVAL' | 'AWAITING_SELL' | 'AWAITING_DESTROY_PROPERTY' | 'AWAITING_DOWNGRADE_BUILDING' | 'AWAITING_BUYBACK' | 'AWAITING_CARD_DESTINATION' | 'AWAITING_FORCED_TRADE' | 'AWAITING_RENT_FREEZE' | 'AWAITING_BUY_BLOCK_TARGET' | 'AWAITING_EMINENT_DOMAIN' | 'AWAITING_ABILITY_CHOICE' | 'AWAITING_OWL_PICK' | 'AWAITING_HORSE_ADJUST' | 'AWAITING_HORSE_MOVE' | 'AWAITING_SHIBA_REROLL_PICK' | 'AWAITING_RABBIT_BONUS' | 'AWAITING_AUCTION' | 'ISLAND_TURN' | 'END_TURN';
 
 export type CellType =
   | 'GO'            // cell 0: Xuat Phat
@@ -41,6 +41,7 @@ export interface ITinhTuySettings {
   turnDuration: number;         // seconds: 30, 60, 90, 120
   password?: string;            // hashed
   abilitiesEnabled: boolean;    // character abilities ON/OFF (default true)
+  auctionEnabled?: boolean;     // auction unbought properties on skip (default false)
 }
 
 // ─── Player ───────────────────────────────────────────────────
@@ -138,6 +139,8 @@ export interface ITinhTuyGame extends Document {
   round: number;
   gameStartedAt?: Date;
   finishedAt?: Date;
+  /** Timed mode: round in progress when the game clock ran out — game ends once it completes */
+  finalRound?: number | null;
 
   /** Global festival — only one on the board at a time */
   festival: { slot: number; cellIndex: number; multiplier: number } | null;
@@ -145,15 +148,15 @@ export interface ITinhTuyGame extends Document {
   /** Frozen properties — rent is 0 for these cells for turnsRemaining rounds */
   frozenProperties: Array<{ cellIndex: number; turnsRemaining: number }>;
 
-  /** Pending negotiate trade — one active at a time */
-  pendingNegotiate: {
-    fromSlot: number;
-    toSlot: number;
-    cellIndex: number;
-    offerAmount: number;
-  } | null;
-  /** Negotiate cooldowns — slot → round when cooldown expires */
-  negotiateCooldowns: Record<string, number>;
+  /** Open trade proposals — at most one per pair of players */
+  pendingTrades: ITinhTuyTrade[];
+  /** Resolved trades, newest last (capped) */
+  tradeLog: ITinhTuyTradeLogEntry[];
+  /** Trade cooldowns after a rejection — "fromSlot:toSlot" → round when cooldown expires */
+  tradeCooldowns: Record<string, number>;
+
+  /** Live auction of a declined property — only set during AWAITING_AUCTION */
+  auction?: ITinhTuyAuction | null;
 
   /** Admin dice overrides — slot → forced dice values. Missing/null = random. */
   diceOverrides?: Record<string, { dice1: number; dice2: number }>;
@@ -167,6 +170,57 @@ export interface ITinhTuyGame extends Document {
   updatedAt: Date;
 }
 
+// ─── Trading ──────────────────────────────────────────────────
+
+/** Assets one side of a trade hands over */
+export interface ITinhTuyTradeAssets {
+  cells: number[];              // properties (buildings go with them)
+  points: number;
+  cards: string[];              // held card ids, e.g. 'escape-island'
+}
+
+export type TinhTuyTradeStatus = 'accepted' | 'rejected' | 'countered' | 'cancelled' | 'expired';
+
+export interface ITinhTuyTrade {
+  id: string;
+  fromSlot: number;
+  toSlot: number;
+  /** What fromSlot gives to toSlot */
+  offer: ITinhTuyTradeAssets;
+  /** What fromSlot asks from toSlot */
+  request: ITinhTuyTradeAssets;
+  /** Trade this one answers as a counter-offer */
+  counterOf: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface ITinhTuyTradeLogEntry {
+  id: string;
+  fromSlot: number;
+  toSlot: number;
+  offer: ITinhTuyTradeAssets;
+  request: ITinhTuyTradeAssets;
+  status: TinhTuyTradeStatus;
+  round: number;
+  resolvedAt: Date;
+}
+
+// ─── Auction ──────────────────────────────────────────────────
+
+export interface ITinhTuyAuction {
+  cellIndex: number;
+  /** Player who declined to buy — the turn resumes with them afterwards */
+  declinedSlot: number;
+  /** Players allowed to bid (solvent, not buy-blocked) */
+  bidders: number[];
+  /** Bidders who dropped out */
+  passed: number[];
+  highBid: number;              // 0 = no bid yet
+  highBidderSlot: number | null;
+  endsAt: Date;                 // pushed back on every bid
+}
+
 // ─── Socket Callback Types ────────────────────────────────────
 export interface TinhTuyCallback {
   (response: { success: boolean; [key: string]: unknown }): void;
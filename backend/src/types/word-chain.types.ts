@@ -3,9 +3,32 @@ import mongoose from 'mongoose';
 
 // ─── Word Type & Game Mode ─────────────────────────────────────
 export type WordType = '2+' | '3+' | 'all';
-export type WordChainGameMode = 'classic' | 'speed';
+export type WordChainGameMode = 'classic' | 'speed' | 'team';
 export type WordChainGameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
-export type RejectionReason = 'not_in_dictionary' | 'wrong_type' | 'wrong_chain' | 'already_used';
+export type WordChainBotLevel = 'easy' | 'medium' | 'hard';
+export type RejectionReason =
+  | 'not_in_dictionary' | 'wrong_type' | 'wrong_chain' | 'already_used'
+  | 'proper_noun' | 'slang';  // known word, but its layer is off in this room
+
+// ─── Scoring ───────────────────────────────────────────────────
+/** Optional bonuses on top of 1 point per word — all off plays like the original survival game */
+export interface IWordChainScoring {
+  syllables: boolean;  // +1 per syllable beyond the first
+  rarity: boolean;     // ending on a syllable with few follow-ups
+  speed: boolean;      // answering with most of the turn left
+  combo: boolean;      // consecutive words without losing a life
+  trap: boolean;       // next player left with no unused continuation
+}
+
+export interface WordScoreBreakdown {
+  base: number;
+  syllables: number;
+  rarity: number;
+  speed: number;
+  combo: number;
+  trap: number;
+  total: number;
+}
 
 // ─── Room Rules ────────────────────────────────────────────────
 export interface IWordChainRules {
@@ -17,6 +40,7 @@ export interface IWordChainRules {
   gameMode: WordChainGameMode;
   allowRepeat: boolean;
   showHint: boolean;
+  scoring: IWordChainScoring;
 }
 
 // ─── Player ────────────────────────────────────────────────────
@@ -28,9 +52,13 @@ export interface IWordChainPlayer {
   lives: number;
   score: number;
   wordsPlayed: number;
+  streak: number;              // words in a row since last losing a life
   isEliminated: boolean;
   isConnected: boolean;
   disconnectedAt?: Date;
+  isBot?: boolean;             // built-in dictionary bot filling the seat
+  botLevel?: WordChainBotLevel;
+  team?: number | null;        // team mode only: 1 or 2 (lives are pooled per team)
 }
 
 // ─── Winner ────────────────────────────────────────────────────
@@ -39,6 +67,7 @@ export interface IWordChainWinner {
   userId?: mongoose.Types.ObjectId;
   guestId?: string;
   guestName?: string;
+  team?: number;               // team mode: the winning team (slot is one of its members)
 }
 
 // ─── Game Document ─────────────────────────────────────────────
@@ -59,6 +88,7 @@ export interface IWordChainGame extends Document {
   // Game state
   gameStatus: WordChainGameStatus;
   currentPlayerSlot: number;
+  teamTurnSlots: number[];     // team mode: last slot to play for each team (index = team - 1)
   wordChain: string[];         // ordered words played
   usedWords: string[];         // for duplicate check
   currentWord: string;         // last word played
@@ -76,6 +106,12 @@ export interface IWordChainGame extends Document {
 }
 
 // ─── Dictionary Index ──────────────────────────────────────────
+/**
+ * Tagged subsets of the wordlist, toggled per room by the rules.
+ * A word found in a standard source is never treated as a proper noun or slang.
+ */
+export type WordLayer = 'standard' | 'properNoun' | 'slang';
+
 export interface DictionaryIndex {
   allWords: Set<string>;                     // O(1) existence check
   byFirstSyllable: Map<string, string[]>;    // "hồng" → ["hồng hà", "hồng phúc", ...]
@@ -83,6 +119,7 @@ export interface DictionaryIndex {
   totalWords: number;
   totalCompound: number;   // 2+ syllables
   totalSingle: number;     // 1 syllable
+  layers: Record<WordLayer, Set<string>>;    // shared by room dictionaries
 }
 
 // ─── Validation Result ─────────────────────────────────────────
@@ -22,6 +22,7 @@ import LuckyWheelAdminPage from './pages/admin/LuckyWheelAdminPage';
 import LuckyWheelUserConfigPage from './pages/admin/LuckyWheelUserConfigPage';
 import TinhTuyAdminPage from './pages/admin/TinhTuyAdminPage';
 import TinhTuyRoomConfigPage from './pages/admin/TinhTuyRoomConfigPage';
+import WordChainDictionaryAdminPage from './pages/admin/WordChainDictionaryAdminPage';
 import { MainLayout } from './components/MainLayout';
 
 const theme = createTheme({
@@ -193,6 +194,10 @@ const router = createBrowserRouter([
     path: '/admin/tinh-tuy/:roomId',
     element: <TinhTuyRoomConfigPage />,
   },
+  {
+    path: '/admin/word-chain',
+    element: <WordChainDictionaryAdminPage />,
+  },
 ]);
 
 function App() {
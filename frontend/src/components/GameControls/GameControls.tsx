@@ -18,6 +18,7 @@ import { UndoRequestDialog, WinnerModal, LeaveGameDialog } from './dialogs';
 import ConfirmDialog from '../ConfirmDialog';
 import SetPasswordDialog from '../SetPasswordDialog/SetPasswordDialog';
 import HistoryModal from '../HistoryModal/HistoryModal';
+import OpeningPanel from './OpeningPanel';
 
 interface GameControlsProps {
   onLeaveGame?: () => Promise<void>;
@@ -25,9 +26,9 @@ interface GameControlsProps {
 
 const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
   // PERF FIX: Split context subscriptions — prevents re-rendering on every move
-  const { game, players, myPlayerNumber } = useGameState();
+  const { game, players, myPlayerNumber, isSpectator } = useGameState();
   const { pendingUndoMove, undoRequestSent, undoUsedCount } = useGamePlay();
-  const { surrender, startGame, newGame, leaveRoom, requestUndo, approveUndo, rejectUndo, clearPendingUndo } = useGameActions();
+  const { surrender, startGame, newGame, chooseOpening, leaveRoom, requestUndo, approveUndo, rejectUndo, clearPendingUndo } = useGameActions();
   const navigate = useNavigate();
   const { t } = useLanguage();
   const toast = useToast();
@@ -38,7 +39,8 @@ const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
   const [showSurrenderConfirm, setShowSurrenderConfirm] = useState(false);
 
   const canStartGame = game?.gameStatus === 'waiting' && players.length === 2 && myPlayerNumber === 1;
-  const showWinnerModal = game?.gameStatus === 'finished' && game.winner !== null;
+  // Spectators get no result modal - it only offers play again / leave
+  const showWinnerModal = game?.gameStatus === 'finished' && game.winner !== null && !isSpectator;
 
   // Get hasPassword from game object (API returns this boolean without exposing actual password)
   const hasPassword = game?.hasPassword || false;
@@ -137,9 +139,12 @@ const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
 
   const canRequestUndo = (): boolean => {
     if (!myPlayerNumber) return false;
+    // Swap/Swap2 opening stones are fixed once laid
+    if (game.opening && game.opening.phase !== 'none') return false;
     // Chỉ xin đi lại khi KHÔNG phải lượt mình (tức là mình vừa đi xong)
     // Nếu đang là lượt mình → đối thủ vừa đi → không thể xin đi lại nước của đối thủ
-    if (game.currentPlayer === myPlayerNumber) return false;
+    // Bot games: the bot answers instantly, so undo also takes back its reply on my turn
+    if (game.currentPlayer === myPlayerNumber && !game.botDifficulty) return false;
     // Kiểm tra đã dùng hết lượt undo chưa
     if (undoUsedCount >= game.rules.maxUndoPerGame) return false;
     const myMoveCount = getMyMoveCount();
@@ -206,7 +211,16 @@ const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
             {hasPassword ? t('game.changePassword') : t('game.setPassword')}
           </Button>
         )}
-        {game.gameStatus === 'playing' && (
+        {!isSpectator && (
+          <OpeningPanel
+            game={game}
+            players={players}
+            myPlayerNumber={myPlayerNumber}
+            onChoose={chooseOpening}
+            t={t}
+          />
+        )}
+        {game.gameStatus === 'playing' && !isSpectator && (
           <>
             {game.rules.allowUndo && (
               <Button
@@ -232,7 +246,7 @@ const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
             </Button>
           </>
         )}
-        {game.gameStatus === 'finished' && !showWinnerModal && (
+        {game.gameStatus === 'finished' && !showWinnerModal && !isSpectator && (
           <Button variant="contained" size="medium" onClick={handleNewGame} fullWidth>
             {t('game.newGame')}
           </Button>
@@ -286,6 +300,7 @@ const GameControls: React.FC<GameControlsProps> = ({ onLeaveGame }) => {
         myPlayerNumber={myPlayerNumber}
         score={game.score}
         winnerMessage={getWinnerMessage()}
+        winReason={game.winReason}
         isLeaving={isLeaving}
         onPlayAgain={handlePlayAgain}
         onLeaveRoom={handleLeaveRoomClick}
@@ -0,0 +1,90 @@
+/**
+ * OpeningPanel - Swap/Swap2 opening progress and the color choice.
+ * Black stones are drawn with the first player's marker until the colors are settled.
+ */
+import React from 'react';
+import { Box, Button, Typography, Stack } from '@mui/material';
+import { Game, OpeningChoice, PlayerInfo, PlayerNumber } from '../../types/game.types';
+
+interface OpeningPanelProps {
+  game: Game;
+  players: PlayerInfo[];
+  myPlayerNumber: PlayerNumber | null;
+  onChoose: (choice: OpeningChoice) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+const SWAP_STONES = 3;
+const SWAP2_EXTRA_STONES = 2;
+
+const OpeningPanel: React.FC<OpeningPanelProps> = ({ game, players, myPlayerNumber, onChoose, t }) => {
+  const opening = game.opening;
+  if (!opening || opening.phase === 'none' || game.gameStatus !== 'playing') return null;
+
+  const nameOf = (playerNumber: PlayerNumber | null): string =>
+    players.find(p => p.playerNumber === playerNumber)?.username || `${t('gameControls.player')} ${playerNumber}`;
+
+  const target = opening.extended ? SWAP_STONES + SWAP2_EXTRA_STONES : SWAP_STONES;
+  const nextIsBlack = opening.stonesPlaced % 2 === 0;
+  const canExtend = game.rules.opening === 'swap2' && !opening.extended;
+  const isMyChoice = opening.phase === 'choosing' && opening.chooser === myPlayerNumber;
+
+  return (
+    <Box
+      sx={{
+        p: 1.5,
+        borderRadius: 2,
+        bgcolor: 'rgba(126, 200, 227, 0.08)',
+        border: '1px solid rgba(126, 200, 227, 0.3)',
+      }}
+    >
+      <Typography variant="subtitle2" sx={{ fontWeight: 700, color: '#2c3e50', mb: 0.5 }}>
+        {t(`home.openings.${game.rules.opening || 'standard'}`)}
+      </Typography>
+
+      {opening.phase === 'placing' && (
+        <>
+          <Typography variant="body2" sx={{ color: '#2c3e50' }}>
+            {t('game.opening.placing', {
+              name: nameOf(game.currentPlayer),
+              placed: opening.stonesPlaced,
+              total: target,
+            })}
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            {nextIsBlack ? t('game.opening.nextBlack') : t('game.opening.nextWhite')}
+          </Typography>
+        </>
+      )}
+
+      {opening.phase === 'choosing' && !isMyChoice && (
+        <Typography variant="body2" sx={{ color: '#2c3e50' }}>
+          {t('game.opening.waitingChoice', { name: nameOf(opening.chooser) })}
+        </Typography>
+      )}
+
+      {isMyChoice && (
+        <>
+          <Typography variant="body2" sx={{ color: '#2c3e50', mb: 1 }}>
+            {t('game.opening.chooseColor')}
+          </Typography>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            <Button size="small" variant="contained" onClick={() => onChoose('black')} sx={{ bgcolor: '#2c3e50' }}>
+              {t('game.opening.playBlack')}
+            </Button>
+            <Button size="small" variant="outlined" onClick={() => onChoose('white')}>
+              {t('game.opening.playWhite')}
+            </Button>
+            {canExtend && (
+              <Button size="small" variant="outlined" color="secondary" onClick={() => onChoose('place2')}>
+                {t('game.opening.placeTwo')}
+              </Button>
+            )}
+          </Stack>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default OpeningPanel;
@@ -12,7 +12,7 @@ import {
   Box,
   CircularProgress,
 } from '@mui/material';
-import { Winner, PlayerNumber } from '../../../types/game.types';
+import { Winner, PlayerNumber, WinReason } from '../../../types/game.types';
 
 interface WinnerModalProps {
   open: boolean;
@@ -20,6 +20,7 @@ interface WinnerModalProps {
   myPlayerNumber: PlayerNumber | null;
   score: { player1: number; player2: number };
   winnerMessage: string;
+  winReason?: WinReason | null;
   isLeaving: boolean;
   onPlayAgain: () => void;
   onLeaveRoom: () => void;
@@ -32,6 +33,7 @@ const WinnerModal: React.FC<WinnerModalProps> = ({
   myPlayerNumber,
   score,
   winnerMessage,
+  winReason,
   isLeaving,
   onPlayAgain,
   onLeaveRoom,
@@ -95,6 +97,11 @@ const WinnerModal: React.FC<WinnerModalProps> = ({
             {myPlayerNumber === winner ? `🎉 ${t('gameControls.congratulations')}` : `😔 ${t('gameControls.betterLuckNextTime')}`}
           </Typography>
         )}
+        {winner !== 'draw' && (winReason === 'timeout' || winReason === 'surrender') && (
+          <Typography variant="body2" sx={{ color: '#95a5a6', mt: 1, fontWeight: 500 }}>
+            {t(`gameControls.winReason.${winReason}`)}
+          </Typography>
+        )}
       </DialogTitle>
       <DialogContent sx={{ textAlign: 'center', pb: 3, px: 4 }}>
         <Box sx={{ mb: 4 }}>
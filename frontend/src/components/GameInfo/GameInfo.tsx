@@ -135,6 +135,8 @@ const GameInfo: React.FC = () => {
                   }}
                 >
                   {player.playerNumber === 1 ? '✕' : '○'} {player.username}
+                  {game.opening?.phase === 'none' && game.rules.opening && game.rules.opening !== 'standard'
+                    && game.blackPlayer && ` · ${t(game.blackPlayer === player.playerNumber ? 'game.opening.black' : 'game.opening.white')}`}
                   {player.isGuest && ` (${t('game.guest')})`}
                   {myPlayerNumber === player.playerNumber && ' 👤'}
                 </Typography>
@@ -227,6 +229,88 @@ const GameInfo: React.FC = () => {
                 </Typography>
               </Box>
             )}
+            {(game.rules.exactFive || game.rules.renju) && (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 600,
+                    color: '#2c3e50',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {t('home.variant')}:
+                </Typography>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 700,
+                    color: '#7ec8e3',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {t(`home.variants.${game.rules.renju ? 'renju' : 'exactFive'}`)}
+                </Typography>
+              </Box>
+            )}
+            {game.rules.opening && game.rules.opening !== 'standard' && (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 600,
+                    color: '#2c3e50',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {t('home.opening')}:
+                </Typography>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 700,
+                    color: '#7ec8e3',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {t(`home.openings.${game.rules.opening}`)}
+                </Typography>
+              </Box>
+            )}
+            {(game.rules.timeLimit || game.rules.gameTimeLimit) && (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 600,
+                    color: '#2c3e50',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {t('home.timeControl')}:
+                </Typography>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    fontWeight: 700,
+                    color: '#7ec8e3',
+                    fontSize: '0.9rem',
+                  }}
+                >
+                  {[
+                    game.rules.gameTimeLimit
+                      ? t('gameInfo.timeBank', { minutes: Math.round(game.rules.gameTimeLimit / 60) })
+                      : null,
+                    game.rules.gameTimeLimit && game.rules.timeIncrement
+                      ? t('gameInfo.timeIncrement', { seconds: game.rules.timeIncrement })
+                      : null,
+                    game.rules.timeLimit
+                      ? t('gameInfo.timePerMove', { seconds: game.rules.timeLimit })
+                      : null,
+                  ].filter(Boolean).join(' · ')}
+                </Typography>
+              </Box>
+            )}
           </Box>
         </Box>
       </Box>
@@ -0,0 +1,89 @@
+/**
+ * CaroClockDisplay - Per-player countdown for timed Caro games.
+ * The server sends a clock snapshot with each state event; this component
+ * only interpolates locally between snapshots.
+ */
+import React, { useEffect, useState } from 'react';
+import { Box, Typography } from '@mui/material';
+import { GameClock } from '../../types/game.types';
+
+interface CaroClockDisplayProps {
+  clock: GameClock | null | undefined;
+  playerNumber: number;
+  compact?: boolean;
+}
+
+const TICK_MS = 250;
+
+function formatClock(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+const CaroClockDisplay: React.FC<CaroClockDisplayProps> = React.memo(({ clock, playerNumber, compact = false }) => {
+  const [syncedAt, setSyncedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  const isActive = !!clock && clock.running && clock.currentPlayer === playerNumber;
+
+  // Re-anchor local interpolation whenever a new snapshot arrives
+  useEffect(() => {
+    const ts = Date.now();
+    setSyncedAt(ts);
+    setNow(ts);
+  }, [clock]);
+
+  // Only the player on move needs a ticking interval
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  if (!clock) return null;
+
+  const elapsed = isActive ? now - syncedAt : 0;
+  const bank = playerNumber === 1 ? clock.player1TimeLeft : clock.player2TimeLeft;
+  const bankLeft = bank !== null ? Math.max(0, bank - elapsed) : null;
+  const moveLeft = isActive && clock.moveTimeLeft !== null ? Math.max(0, clock.moveTimeLeft - elapsed) : null;
+
+  // The tighter of the two limits is what the player actually has left
+  const remaining = [bankLeft, moveLeft].filter((v): v is number => v !== null);
+  const critical = isActive && remaining.length > 0 && Math.min(...remaining) < 10000;
+  const color = critical ? '#e74c3c' : isActive ? '#2c3e50' : '#95a5a6';
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'baseline', justifyContent: 'center', gap: 1 }}>
+      {bankLeft !== null && (
+        <Typography
+          sx={{
+            fontWeight: 700,
+            fontSize: compact ? '0.85rem' : '1.25rem',
+            color,
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        >
+          ⏱ {formatClock(bankLeft)}
+        </Typography>
+      )}
+      {moveLeft !== null && (
+        <Typography
+          sx={{
+            fontWeight: 600,
+            fontSize: compact ? '0.75rem' : '0.9rem',
+            color,
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        >
+          {bankLeft === null && '⏱ '}{Math.ceil(moveLeft / 1000)}s
+        </Typography>
+      )}
+    </Box>
+  );
+});
+
+CaroClockDisplay.displayName = 'CaroClockDisplay';
+
+export default CaroClockDisplay;
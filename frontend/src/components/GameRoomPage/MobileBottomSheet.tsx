@@ -10,6 +10,8 @@ import { useLanguage } from '../../i18n';
 import RoomCodeDisplay from '../RoomCodeDisplay';
 import GameInfo from '../GameInfo/GameInfo';
 import GameControls from '../GameControls/GameControls';
+import { GameClock } from '../../types/game.types';
+import CaroClockDisplay from './CaroClockDisplay';
 
 interface Player {
   playerNumber: number;
@@ -25,6 +27,7 @@ interface Game {
     player1: number;
     player2: number;
   };
+  clock?: GameClock | null;
 }
 
 interface MobileBottomSheetProps {
@@ -168,6 +171,7 @@ const CollapsedView: React.FC<CollapsedViewProps> = ({ game, players, expanded,
               >
                 {isPlayer1 ? '✕' : '○'} {isPlayer1 ? game.score.player1 : game.score.player2}
               </Typography>
+              <CaroClockDisplay clock={game.clock} playerNumber={player.playerNumber} compact />
             </Box>
           );
         })}
@@ -7,6 +7,8 @@ import { useLanguage } from '../../i18n';
 import { useChat } from '../../contexts/GameContext';
 import { GameReactions } from '../GameReactions';
 import { ChatButton } from '../CaroChat';
+import { GameClock } from '../../types/game.types';
+import CaroClockDisplay from './CaroClockDisplay';
 
 interface Player {
   playerNumber: number;
@@ -21,6 +23,7 @@ interface Game {
     player1: number;
     player2: number;
   };
+  clock?: GameClock | null;
 }
 
 interface PlayersScoreSidebarProps {
@@ -46,7 +49,7 @@ const SidebarChatButton: React.FC<{ disabled: boolean }> = ({ disabled }) => {
 
 const PlayersScoreSidebar: React.FC<PlayersScoreSidebarProps> = ({ game, players, myPlayerNumber, onSendReaction }) => {
   const { t } = useLanguage();
-  const showReactions = game.gameStatus === 'playing' && players.length === 2 && onSendReaction;
+  const showReactions = game.gameStatus === 'playing' && players.length === 2 && myPlayerNumber !== null && onSendReaction;
 
   return (
     <Box
@@ -207,6 +210,7 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player, game, myPlayerNumber, t
       >
         {isPlayer1 ? game.score.player1 : game.score.player2}
       </Typography>
+      <CaroClockDisplay clock={game.clock} playerNumber={player.playerNumber} />
     </Box>
   );
 };
@@ -4,3 +4,4 @@
 export { default as MobileBottomSheet } from './MobileBottomSheet';
 export { default as LeaveConfirmDialog } from './LeaveConfirmDialog';
 export { default as PlayersScoreSidebar } from './PlayersScoreSidebar';
+export { default as CaroClockDisplay } from './CaroClockDisplay';
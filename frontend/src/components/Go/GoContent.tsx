@@ -7,6 +7,7 @@ import { useGo } from './GoContext';
 import { GoLobby } from './go-lobby/GoLobby';
 import { GoWaitingRoom } from './go-lobby/GoWaitingRoom';
 import GoPlayView from './go-play/GoPlayView';
+import GoReviewView from './go-review/GoReviewView';
 
 const GoContent: React.FC = () => {
   const { state } = useGo();
@@ -23,6 +24,9 @@ const GoContent: React.FC = () => {
     case 'result':
       return <GoPlayView />;
 
+    case 'review':
+      return <GoReviewView />;
+
     default:
       return <GoLobby />;
   }
@@ -25,6 +25,7 @@ import {
   GoView,
   GoRules,
   GoPlayer,
+  GoClockState,
   GoMove,
   GoWinner,
   GoWinReason,
@@ -33,6 +34,10 @@ import {
   GoChatMessage,
   GoReaction,
   GoUndoRequest,
+  GoReview,
+  GoReviewNode,
+  GoReviewSnapshot,
+  GoMark,
   TerritoryMap,
   GoColor,
   DEFAULT_RULES,
@@ -60,6 +65,59 @@ function makeEmptyBoard(size: number): number[][] {
 
 const emptyTerritory: TerritoryMap = { black: [], white: [], neutral: [] };
 
+// ─── Review Tree ──────────────────────────────────────────────
+function toReview(snapshot: GoReviewSnapshot): GoReview {
+  const nodes: Record<string, GoReviewNode> = {};
+  for (const node of snapshot.nodes) nodes[node.id] = node;
+  return {
+    initialBoard: snapshot.initialBoard,
+    rootId: snapshot.rootId,
+    nodes,
+    leaderNodeId: snapshot.currentId,
+    leader: snapshot.leader,
+  };
+}
+
+/** Toast keys for review errors; engine codes reuse the play-time messages */
+const REVIEW_ERROR_KEYS: Record<string, string> = {
+  GO_CELL_OCCUPIED: 'go.errors.occupied',
+  GO_KO_VIOLATION: 'go.errors.ko',
+  GO_SUICIDE: 'go.errors.suicide',
+  GO_SUPERKO_VIOLATION: 'go.errors.superko',
+  GO_NOT_REVIEW_LEADER: 'go.review.errors.notLeader',
+  GO_REVIEW_LEADER_PRESENT: 'go.review.errors.leaderPresent',
+  GO_REVIEW_TOO_LARGE: 'go.review.errors.tooLarge',
+};
+
+const reviewErrorKey = (code?: string): string => (code && REVIEW_ERROR_KEYS[code]) || 'go.review.errors.failed';
+
+// ─── Local Clock ──────────────────────────────────────────────
+/** One second off the player to move, mirroring the server clock (go-clock.ts) */
+function tickClock(player: GoPlayer, rules: GoRules): GoClockState {
+  const clock: GoClockState = {
+    slot: player.slot,
+    mainTimeLeft: player.mainTimeLeft,
+    byoyomiPeriodsLeft: player.byoyomiPeriodsLeft,
+    periodTimeLeft: player.periodTimeLeft,
+    stonesLeft: player.stonesLeft,
+  };
+  if (clock.mainTimeLeft > 0) {
+    clock.mainTimeLeft = Math.max(0, clock.mainTimeLeft - 1);
+    return clock;
+  }
+  if (rules.timeSystem === 'canadian') {
+    clock.periodTimeLeft = Math.max(0, clock.periodTimeLeft - 1);
+  } else if (rules.timeSystem !== 'fischer' && clock.byoyomiPeriodsLeft > 0) {
+    clock.periodTimeLeft -= 1;
+    if (clock.periodTimeLeft <= 0) {
+      // Period used up - the next one starts (the server decides when the last one flags)
+      clock.byoyomiPeriodsLeft -= 1;
+      clock.periodTimeLeft = clock.byoyomiPeriodsLeft > 0 ? rules.byoyomiTime : 0;
+    }
+  }
+  return clock;
+}
+
 // ─── Initial State ────────────────────────────────────────────
 const initialState: GoState = {
   view: 'lobby',
@@ -73,6 +131,8 @@ const initialState: GoState = {
   mySlot: null,
   hasPassword: false,
   gameStatus: 'waiting',
+  isSpectator: false,
+  spectators: [],
   board: makeEmptyBoard(9),
   currentColor: 'black',
   moveHistory: [],
@@ -88,6 +148,9 @@ const initialState: GoState = {
   finalScore: null,
   showResult: false,
   pendingUndo: null,
+  review: null,
+  reviewNodeId: null,
+  followLeader: true,
   chatMessages: [],
   reactions: [],
   error: null,
@@ -124,11 +187,14 @@ function goReducer(state: GoState, action: GoAction): GoState {
       };
 
     case 'ROOM_JOINED': {
-      saveRoomSession(action.payload.roomCode);
+      // Spectators don't auto-rejoin - go:join-room would try to take a seat
+      if (!action.payload.isSpectator) saveRoomSession(action.payload.roomCode);
       const gs = action.payload.gameStatus;
+      const review = gs === 'finished' && action.payload.review ? action.payload.review : null;
       let view: GoView = 'waiting';
       if (gs === 'playing') view = 'playing';
       else if (gs === 'scoring') view = 'scoring';
+      else if (review) view = 'review';
       else if (gs === 'finished') view = 'result';
 
       return {
@@ -150,7 +216,14 @@ function goReducer(state: GoState, action: GoAction): GoState {
         ...(action.payload.territory ? { territory: action.payload.territory } : {}),
         ...(action.payload.score !== undefined ? { score: action.payload.score } : {}),
         ...(action.payload.moveCount !== undefined ? { moveCount: action.payload.moveCount } : {}),
+        ...(action.payload.winner ? { winner: action.payload.winner, winReason: action.payload.winReason || null } : {}),
+        ...(action.payload.finalScore ? { finalScore: action.payload.finalScore } : {}),
+        isSpectator: !!action.payload.isSpectator,
+        spectators: action.payload.spectators || [],
         timerEnabled: !!(action.payload.rules?.mainTime),
+        review: review ? toReview(review) : null,
+        reviewNodeId: review ? review.currentId : null,
+        followLeader: true,
         error: null,
       };
     }
@@ -182,6 +255,8 @@ function goReducer(state: GoState, action: GoAction): GoState {
         finalScore: null,
         showResult: false,
         pendingUndo: null,
+        review: null,
+        reviewNodeId: null,
         timerEnabled: !!(state.rules?.mainTime),
       };
     }
@@ -254,8 +329,17 @@ function goReducer(state: GoState, action: GoAction): GoState {
         showResult: true,
       };
 
-    case 'TIMER_UPDATE':
-      return { ...state, players: action.payload.players };
+    case 'TIMER_UPDATE': {
+      // Only the time fields change; merge so names and flags from other events survive
+      const clocks = action.payload.clocks;
+      return {
+        ...state,
+        players: state.players.map(p => {
+          const clock = clocks.find(c => c.slot === p.slot);
+          return clock ? { ...p, ...clock } : p;
+        }),
+      };
+    }
 
     case 'UNDO_REQUESTED':
       return { ...state, pendingUndo: action.payload };
@@ -301,6 +385,8 @@ function goReducer(state: GoState, action: GoAction): GoState {
         finalScore: null,
         showResult: false,
         pendingUndo: null,
+        review: null,
+        reviewNodeId: null,
       };
     }
 
@@ -347,6 +433,74 @@ function goReducer(state: GoState, action: GoAction): GoState {
     case 'SET_NOTIFICATION':
       return { ...state, notification: action.payload };
 
+    case 'REVIEW_STATE':
+      return {
+        ...state,
+        view: 'review',
+        showResult: false,
+        review: toReview(action.payload),
+        reviewNodeId: action.payload.currentId,
+        followLeader: true,
+      };
+
+    case 'REVIEW_NAVIGATED': {
+      if (!state.review) return state;
+      return {
+        ...state,
+        review: { ...state.review, leaderNodeId: action.payload.nodeId },
+        reviewNodeId: state.followLeader ? action.payload.nodeId : state.reviewNodeId,
+      };
+    }
+
+    case 'REVIEW_NODE_ADDED': {
+      const node = action.payload;
+      if (!state.review || state.review.nodes[node.id]) return state;
+      const parent = node.parentId ? state.review.nodes[node.parentId] : null;
+      const nodes = { ...state.review.nodes, [node.id]: node };
+      if (parent) nodes[parent.id] = { ...parent, children: [...parent.children, node.id] };
+      return { ...state, review: { ...state.review, nodes } };
+    }
+
+    case 'REVIEW_ANNOTATED': {
+      const current = state.review?.nodes[action.payload.id];
+      if (!state.review || !current) return state;
+      return {
+        ...state,
+        review: {
+          ...state.review,
+          nodes: {
+            ...state.review.nodes,
+            [current.id]: { ...current, comment: action.payload.comment, marks: action.payload.marks },
+          },
+        },
+      };
+    }
+
+    case 'REVIEW_LEADER':
+      return state.review ? { ...state, review: { ...state.review, leader: action.payload } } : state;
+
+    case 'REVIEW_GO_TO':
+      return { ...state, reviewNodeId: action.payload.nodeId, followLeader: action.payload.followLeader };
+
+    case 'REVIEW_SET_FOLLOW':
+      return {
+        ...state,
+        followLeader: action.payload,
+        reviewNodeId: action.payload && state.review ? state.review.leaderNodeId : state.reviewNodeId,
+      };
+
+    case 'REVIEW_CLOSE':
+      return { ...state, view: 'result' };
+
+    case 'REVIEW_ENDED':
+      return {
+        ...state,
+        view: state.view === 'review' ? 'result' : state.view,
+        review: null,
+        reviewNodeId: null,
+        followLeader: true,
+      };
+
     case 'LEAVE_ROOM':
       clearRoomSession();
       return {
@@ -367,6 +521,7 @@ interface GoContextValue {
   state: GoState;
   createRoom: (rules: GoRules, password?: string) => void;
   joinRoom: (roomCode: string, password?: string) => void;
+  spectateRoom: (roomCode: string, password?: string) => void;
   leaveRoom: () => void;
   startGame: () => void;
   placeStone: (row: number, col: number) => void;
@@ -384,6 +539,18 @@ interface GoContextValue {
   dismissResult: () => void;
   sendChat: (message: string) => void;
   sendReaction: (emoji: string) => void;
+  downloadSgf: () => void;
+  importSgf: (sgf: string) => Promise<void>;
+  isReviewLeader: boolean;
+  startReview: () => void;
+  closeReview: () => void;
+  reviewGoTo: (nodeId: string) => void;
+  reviewPlay: (row: number, col: number) => void;
+  reviewPass: () => void;
+  annotateReview: (nodeId: string, annotation: { comment?: string; marks?: GoMark[] }) => void;
+  takeReviewLead: () => void;
+  endReview: () => void;
+  setFollowLeader: (follow: boolean) => void;
 }
 
 const GoContext = createContext<GoContextValue | null>(null);
@@ -425,29 +592,33 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
 
       // Timer warning sounds
       if (currentPlayer.slot === s.mySlot) {
-        const mainLeft = currentPlayer.mainTimeLeft;
-        if (mainLeft === 10 || mainLeft === 5) {
+        const secondsLeft = Math.ceil(
+          currentPlayer.mainTimeLeft > 0 ? currentPlayer.mainTimeLeft : currentPlayer.periodTimeLeft,
+        );
+        if (secondsLeft === 10 || secondsLeft === 5) {
           goSounds.playSFX('timerWarning');
         }
       }
 
-      const updatedPlayers: GoPlayer[] = s.players.map(p => {
-        if (p.color !== s.currentColor) return p;
-        if (p.mainTimeLeft > 0) {
-          return { ...p, mainTimeLeft: Math.max(0, p.mainTimeLeft - 1) };
-        }
-        if (p.byoyomiPeriodsLeft > 0) {
-          // Byoyomi counting handled by server; just show visual countdown
-          return p;
+      if (!s.rules) return;
+      dispatch({ type: 'TIMER_UPDATE', payload: { clocks: [tickClock(currentPlayer, s.rules)] } });
+    }, 1000);
+
+    // Background tabs throttle the countdown - ask the server for the real clock on return
+    const handleVisibility = () => {
+      const { roomId, phase } = stateRef.current;
+      if (document.visibilityState !== 'visible' || !roomId || phase !== 'play') return;
+      socketService.getSocket()?.emit('go:clock-sync' as any, { roomId }, (res: any) => {
+        if (res?.success && res.clock) {
+          dispatch({ type: 'TIMER_UPDATE', payload: { clocks: res.clock.players } });
         }
-        return p;
       });
-
-      dispatch({ type: 'TIMER_UPDATE', payload: { players: updatedPlayers } });
-    }, 1000);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      document.removeEventListener('visibilitychange', handleVisibility);
     };
   }, []);
 
@@ -475,6 +646,10 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
           territory: data.territory,
           score: data.score,
           moveCount: data.moveCount,
+          winner: data.winner,
+          winReason: data.winReason,
+          finalScore: data.finalScore,
+          review: data.review,
         },
       });
     };
@@ -602,10 +777,8 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     };
 
     const handleTimerUpdate = (data: any) => {
-      dispatch({
-        type: 'TIMER_UPDATE',
-        payload: { players: data.players || stateRef.current.players },
-      });
+      if (!data?.players) return;
+      dispatch({ type: 'TIMER_UPDATE', payload: { clocks: data.players } });
     };
 
     const handleUndoRequested = (data: any) => {
@@ -688,6 +861,34 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
       dispatch({ type: 'ADD_REACTION', payload: reaction });
     };
 
+    const handleReviewState = (data: any) => {
+      if (!data?.review) return;
+      dispatch({ type: 'REVIEW_STATE', payload: data.review });
+      if (data.startedBy) getToast()?.info('go.review.started', { params: { name: data.startedBy } });
+    };
+
+    const handleReviewNavigated = (data: any) => {
+      if (data?.nodeId) dispatch({ type: 'REVIEW_NAVIGATED', payload: { nodeId: data.nodeId } });
+    };
+
+    const handleReviewNodeAdded = (data: any) => {
+      if (data?.node) dispatch({ type: 'REVIEW_NODE_ADDED', payload: data.node });
+    };
+
+    const handleReviewAnnotated = (data: any) => {
+      if (data?.node) dispatch({ type: 'REVIEW_ANNOTATED', payload: data.node });
+    };
+
+    const handleReviewLeader = (data: any) => {
+      dispatch({ type: 'REVIEW_LEADER', payload: data?.leader || null });
+      if (data?.leader) getToast()?.info('go.review.newLeader', { params: { name: data.leader.name } });
+    };
+
+    const handleReviewEnded = () => {
+      dispatch({ type: 'REVIEW_ENDED' });
+      getToast()?.info('go.review.ended');
+    };
+
     const handleKicked = () => {
       dispatch({ type: 'LEAVE_ROOM' });
       getToast()?.warning('toast.kicked');
@@ -742,6 +943,12 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     socket.on('go:settings-updated' as any, handleSettingsUpdated);
     socket.on('go:chat-received' as any, handleChatReceived);
     socket.on('go:reaction-received' as any, handleReactionReceived);
+    socket.on('go:review-state' as any, handleReviewState);
+    socket.on('go:review-navigated' as any, handleReviewNavigated);
+    socket.on('go:review-node-added' as any, handleReviewNodeAdded);
+    socket.on('go:review-annotated' as any, handleReviewAnnotated);
+    socket.on('go:review-leader' as any, handleReviewLeader);
+    socket.on('go:review-ended' as any, handleReviewEnded);
     socket.on('go:kicked' as any, handleKicked);
     socket.on('go:error' as any, handleError);
     socket.on('go:rooms-updated' as any, handleRoomsUpdated);
@@ -769,6 +976,12 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
       socket.off('go:settings-updated' as any, handleSettingsUpdated);
       socket.off('go:chat-received' as any, handleChatReceived);
       socket.off('go:reaction-received' as any, handleReactionReceived);
+      socket.off('go:review-state' as any, handleReviewState);
+      socket.off('go:review-navigated' as any, handleReviewNavigated);
+      socket.off('go:review-node-added' as any, handleReviewNodeAdded);
+      socket.off('go:review-annotated' as any, handleReviewAnnotated);
+      socket.off('go:review-leader' as any, handleReviewLeader);
+      socket.off('go:review-ended' as any, handleReviewEnded);
       socket.off('go:kicked' as any, handleKicked);
       socket.off('go:error' as any, handleError);
       socket.off('go:rooms-updated' as any, handleRoomsUpdated);
@@ -910,6 +1123,53 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     });
   }, [getPlayerId, getPlayerName, isAuthenticated]);
 
+  const spectateRoom = useCallback((roomCode: string, password?: string) => {
+    const socket = socketService.getSocket();
+    if (!socket) {
+      dispatch({ type: 'SET_ERROR', payload: 'socketNotConnected' });
+      return;
+    }
+
+    const playerId = getPlayerId();
+    socket.emit('go:join-room' as any, {
+      roomCode: roomCode.toUpperCase(),
+      password,
+      spectate: true,
+      guestId: isAuthenticated ? undefined : playerId,
+      guestName: isAuthenticated ? undefined : getPlayerName(),
+    }, (res: any) => {
+      if (!res?.success) {
+        dispatch({ type: 'SET_ERROR', payload: res?.error || 'failedToJoin' });
+        return;
+      }
+      dispatch({
+        type: 'ROOM_JOINED',
+        payload: {
+          roomId: res.roomId,
+          roomCode: res.roomCode,
+          rules: res.rules,
+          players: res.players || [],
+          gameStatus: res.gameStatus || 'waiting',
+          isHost: false,
+          mySlot: res.isSpectator ? null : res.mySlot,
+          board: res.board,
+          currentColor: res.currentColor,
+          moveHistory: res.moveHistory,
+          phase: res.phase,
+          deadStones: res.deadStones,
+          territory: res.territory,
+          moveCount: res.moveCount,
+          winner: res.winner,
+          winReason: res.winReason,
+          finalScore: res.finalScore,
+          isSpectator: !!res.isSpectator,
+          spectators: res.spectators || [],
+          review: res.review,
+        },
+      });
+    });
+  }, [getPlayerId, getPlayerName, isAuthenticated]);
+
   const leaveRoomTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const leaveRoom = useCallback(() => {
@@ -1037,11 +1297,149 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     socket.emit('go:send-reaction' as any, { emoji });
   }, []);
 
+  // ─── SGF ─────────────────────────────────────────────────────
+
+  const downloadSgf = useCallback(async () => {
+    const { roomId, roomCode } = stateRef.current;
+    if (!roomId) return;
+    try {
+      const res = await fetch(`${API_BASE_URL}/go/${roomId}/sgf`);
+      if (!res.ok) throw new Error(String(res.status));
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `go-${roomCode || roomId}.sgf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      getToast()?.error('go.sgf.exportFailed');
+    }
+  }, []);
+
+  /** Upload an SGF file's text; the server replays it into a review-only room we then watch */
+  const importSgf = useCallback(async (sgf: string) => {
+    const token = localStorage.getItem('token');
+    try {
+      const res = await fetch(`${API_BASE_URL}/go/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ sgf, guestId: isAuthenticated ? undefined : getPlayerId() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        getToast()?.error(data.message || 'go.sgf.importFailed', { raw: !!data.message });
+        return;
+      }
+      getToast()?.success('go.sgf.imported');
+      spectateRoom(data.roomCode);
+    } catch {
+      getToast()?.error('go.sgf.importFailed');
+    }
+  }, [getPlayerId, isAuthenticated, spectateRoom]);
+
+  // ─── Review ──────────────────────────────────────────────────
+
+  const isReviewLeader = !!state.review?.leader && state.review.leader.id === getPlayerId();
+
+  /** Open the review of a finished game, or join the one already running */
+  const startReview = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+    socket.emit('go:review-start' as any, { roomId: stateRef.current.roomId }, (res: any) => {
+      if (res?.success && res.review) {
+        dispatch({ type: 'REVIEW_STATE', payload: res.review });
+      } else {
+        getToast()?.error(reviewErrorKey(res?.error));
+      }
+    });
+  }, []);
+
+  /** Back to the result screen; the review keeps running for the others */
+  const closeReview = useCallback(() => {
+    dispatch({ type: 'REVIEW_CLOSE' });
+  }, []);
+
+  const reviewGoTo = useCallback((nodeId: string) => {
+    const { roomId, review } = stateRef.current;
+    if (!roomId || !review?.nodes[nodeId]) return;
+    const leading = review.leader?.id === getPlayerId();
+    // Browsing on your own stops following; the leader moves everyone who follows
+    dispatch({ type: 'REVIEW_GO_TO', payload: { nodeId, followLeader: leading } });
+    if (!leading) return;
+    dispatch({ type: 'REVIEW_NAVIGATED', payload: { nodeId } });
+    socketService.getSocket()?.emit('go:review-navigate' as any, { roomId, nodeId }, (res: any) => {
+      if (res && !res.success) getToast()?.error(reviewErrorKey(res.error));
+    });
+  }, [getPlayerId]);
+
+  const playReviewMove = useCallback((move: { row: number; col: number } | null) => {
+    const socket = socketService.getSocket();
+    const { roomId, reviewNodeId } = stateRef.current;
+    if (!socket || !roomId || !reviewNodeId) return;
+    goSounds.init();
+    socket.emit('go:review-play' as any, {
+      roomId,
+      parentId: reviewNodeId,
+      ...(move ?? { pass: true }),
+    }, (res: any) => {
+      if (!res?.success) {
+        getToast()?.error(reviewErrorKey(res?.error));
+        return;
+      }
+      const node: GoReviewNode = res.node;
+      const leading = stateRef.current.review?.leader?.id === getPlayerId();
+      dispatch({ type: 'REVIEW_NODE_ADDED', payload: node });
+      dispatch({ type: 'REVIEW_GO_TO', payload: { nodeId: node.id, followLeader: leading } });
+      if (leading) dispatch({ type: 'REVIEW_NAVIGATED', payload: { nodeId: node.id } });
+      if (!node.move?.isPass) goSounds.playSFX(node.move?.captures.length ? 'stoneCapture' : 'stonePlace');
+    });
+  }, [getPlayerId]);
+
+  const reviewPlay = useCallback((row: number, col: number) => playReviewMove({ row, col }), [playReviewMove]);
+
+  const reviewPass = useCallback(() => playReviewMove(null), [playReviewMove]);
+
+  const annotateReview = useCallback((nodeId: string, annotation: { comment?: string; marks?: GoMark[] }) => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+    socket.emit('go:review-annotate' as any, {
+      roomId: stateRef.current.roomId,
+      nodeId,
+      ...annotation,
+    }, (res: any) => {
+      if (res && !res.success) getToast()?.error(reviewErrorKey(res.error));
+    });
+  }, []);
+
+  const takeReviewLead = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+    socket.emit('go:review-take-lead' as any, { roomId: stateRef.current.roomId }, (res: any) => {
+      if (res && !res.success) getToast()?.error(reviewErrorKey(res.error));
+    });
+  }, []);
+
+  const endReview = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+    socket.emit('go:review-end' as any, { roomId: stateRef.current.roomId }, (res: any) => {
+      if (res && !res.success) getToast()?.error(reviewErrorKey(res.error));
+    });
+  }, []);
+
+  const setFollowLeader = useCallback((follow: boolean) => {
+    dispatch({ type: 'REVIEW_SET_FOLLOW', payload: follow });
+  }, []);
+
   return (
     <GoContext.Provider value={{
       state,
       createRoom,
       joinRoom,
+      spectateRoom,
       leaveRoom,
       startGame,
       placeStone,
@@ -1059,6 +1457,18 @@ export const GoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
       dismissResult,
       sendChat,
       sendReaction,
+      downloadSgf,
+      importSgf,
+      isReviewLeader,
+      startReview,
+      closeReview,
+      reviewGoTo,
+      reviewPlay,
+      reviewPass,
+      annotateReview,
+      takeReviewLead,
+      endReview,
+      setFollowLeader,
     }}>
       {children}
     </GoContext.Provider>
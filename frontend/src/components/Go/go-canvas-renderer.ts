@@ -3,7 +3,7 @@
  * Pure stateless rendering functions. All functions take RenderConfig + CanvasRenderingContext2D.
  */
 
-import { GoBoardSize } from './go-types';
+import { GoBoardSize, GoMark } from './go-types';
 import {
   BOARD_COLORS,
   BOARD_PADDING_RATIO,
@@ -11,6 +11,7 @@ import {
   COORD_LABELS,
   DEAD_MARKER_SIZE_RATIO,
   LAST_MOVE_DOT_RATIO,
+  REVIEW_MARK_SIZE_RATIO,
   SNAP_THRESHOLD_RATIO,
   STAR_POINT_RADIUS_RATIO,
   STAR_POINTS,
@@ -441,6 +442,94 @@ export function drawDeadStoneMarkers(
   ctx.restore();
 }
 
+// ─── Capture Markers ─────────────────────────────────────────
+
+/**
+ * Draw hollow rings on empty points where stones were just captured.
+ */
+export function drawCaptureMarkers(
+  ctx: CanvasRenderingContext2D,
+  captures: { row: number; col: number }[],
+  config: RenderConfig,
+): void {
+  const { cellSize } = config;
+  const r = cellSize * STONE_RADIUS_RATIO * 0.6;
+
+  ctx.save();
+  ctx.strokeStyle = BOARD_COLORS.captureMarker;
+  ctx.lineWidth = Math.max(1.5, cellSize * 0.07);
+  ctx.setLineDash([cellSize * 0.12, cellSize * 0.08]);
+
+  for (const { row, col } of captures) {
+    const { x, y } = intersectionToPixel(row, col, config);
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
+
+// ─── Review Marks ────────────────────────────────────────────
+
+/**
+ * Draw review annotations (triangle, square, circle, letter) in a color that
+ * contrasts with whatever sits on the point. Letters on empty points get a
+ * board-colored backing so grid lines don't cross them.
+ */
+export function drawReviewMarks(
+  ctx: CanvasRenderingContext2D,
+  marks: GoMark[],
+  board: number[][],
+  config: RenderConfig,
+): void {
+  const { cellSize } = config;
+  const half = cellSize * REVIEW_MARK_SIZE_RATIO;
+
+  ctx.save();
+  ctx.lineWidth = Math.max(1.5, cellSize * 0.07);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${Math.round(cellSize * 0.5)}px sans-serif`;
+
+  for (const mark of marks) {
+    const { x, y } = intersectionToPixel(mark.row, mark.col, config);
+    const cell = board[mark.row]?.[mark.col] ?? 0;
+    const color = cell === 1 ? BOARD_COLORS.markLight : BOARD_COLORS.markDark;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+
+    ctx.beginPath();
+    switch (mark.type) {
+      case 'triangle':
+        ctx.moveTo(x, y - half);
+        ctx.lineTo(x + half * 0.95, y + half * 0.6);
+        ctx.lineTo(x - half * 0.95, y + half * 0.6);
+        ctx.closePath();
+        ctx.stroke();
+        break;
+      case 'square':
+        ctx.strokeRect(x - half * 0.8, y - half * 0.8, half * 1.6, half * 1.6);
+        break;
+      case 'circle':
+        ctx.arc(x, y, half * 0.85, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 'letter':
+        if (cell === 0) {
+          ctx.fillStyle = BOARD_COLORS.background;
+          ctx.arc(x, y, half * 1.3, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = color;
+        }
+        ctx.fillText(mark.label || '', x, y + 1);
+        break;
+    }
+  }
+
+  ctx.restore();
+}
+
 // ─── Full Board Render ───────────────────────────────────────
 
 export interface FullBoardRenderOptions {
@@ -450,6 +539,8 @@ export interface FullBoardRenderOptions {
   territory?: { black: string[]; white: string[]; neutral: string[] } | null;
   deadStones?: string[] | null;
   hover?: { row: number; col: number; color: 1 | 2 } | null;
+  captures?: { row: number; col: number }[] | null;
+  marks?: GoMark[] | null;
 }
 
 /**
@@ -460,7 +551,7 @@ export function renderFullBoard(
   ctx: CanvasRenderingContext2D,
   options: FullBoardRenderOptions,
 ): void {
-  const { config, board, lastMove, territory, deadStones, hover } = options;
+  const { config, board, lastMove, territory, deadStones, hover, captures, marks } = options;
 
   drawBoard(ctx, config);
   drawGridLines(ctx, config);
@@ -472,6 +563,10 @@ export function renderFullBoard(
     drawLastMoveIndicator(ctx, lastMove.row, lastMove.col, lastMove.color, config);
   }
 
+  if (captures && captures.length > 0) {
+    drawCaptureMarkers(ctx, captures, config);
+  }
+
   if (territory) {
     drawTerritoryOverlay(ctx, territory, config);
   }
@@ -480,6 +575,10 @@ export function renderFullBoard(
     drawDeadStoneMarkers(ctx, deadStones, config);
   }
 
+  if (marks && marks.length > 0) {
+    drawReviewMarks(ctx, marks, board, config);
+  }
+
   if (hover) {
     drawHoverPreview(ctx, hover.row, hover.col, hover.color, config);
   }
@@ -63,6 +63,9 @@ export const BOARD_COLORS = {
   territoryWhite: 'rgba(255, 255, 255, 0.35)',
   territoryNeutral: 'rgba(128, 128, 128, 0.15)',
   deadMarker: '#ff4444',
+  captureMarker: 'rgba(231, 76, 60, 0.85)', // ring where stones were just captured (replay)
+  markDark: '#1a1a1a',         // review marks on empty points and white stones
+  markLight: '#ffffff',        // review marks on black stones
 };
 
 // ─── Rendering Config ────────────────────────────────────────
@@ -70,6 +73,7 @@ export const STONE_RADIUS_RATIO = 0.47;  // stone radius = cellSize × ratio
 export const STAR_POINT_RADIUS_RATIO = 0.12;
 export const LAST_MOVE_DOT_RATIO = 0.15;
 export const DEAD_MARKER_SIZE_RATIO = 0.3;
+export const REVIEW_MARK_SIZE_RATIO = 0.28;  // half-size of triangle/square/circle marks
 export const COORD_FONT_SIZE_RATIO = 0.35;
 export const SNAP_THRESHOLD_RATIO = 0.45; // click snap radius
 export const BOARD_PADDING_RATIO = 1.5;   // padding in cell units around the board
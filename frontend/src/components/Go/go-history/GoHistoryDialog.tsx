@@ -0,0 +1,244 @@
+/**
+ * GoHistoryDialog — List of the signed-in user's archived Go games,
+ * opening into GoReplayViewer for a move-by-move replay.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, IconButton, Typography, Button,
+  Box, Stack, Chip, CircularProgress, List, ListItemButton,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import HistoryIcon from '@mui/icons-material/History';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { useLanguage } from '../../../i18n';
+import { useToast } from '../../../contexts/ToastContext';
+import { goApi } from '../../../services/api';
+import { logger } from '../../../utils/logger';
+import { GoHistoryEntry, GoHistoryDetail, GoHistoryPlayer, GoWinReason } from '../go-types';
+import GoReplayViewer from './GoReplayViewer';
+
+const GO_ACCENT = '#2c3e50';
+
+interface GoHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const GoHistoryDialog: React.FC<GoHistoryDialogProps> = ({ open, onClose }) => {
+  const { t, language } = useLanguage();
+  const toast = useToast();
+  const [history, setHistory] = useState<GoHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<GoHistoryDetail | null>(null);
+  const [loadingDetailId, setLoadingDetailId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      loadHistory();
+    } else {
+      setHistory([]);
+      setSelected(null);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const loadHistory = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const data = await goApi.getHistory();
+      setHistory(data.history || []);
+    } catch (error: any) {
+      logger.error('[GoHistoryDialog] Failed to load history:', error);
+      toast.error('toast.historyLoadFailed');
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openReplay = async (id: string): Promise<void> => {
+    setLoadingDetailId(id);
+    try {
+      setSelected(await goApi.getHistoryDetail(id));
+    } catch (error: any) {
+      logger.error('[GoHistoryDialog] Failed to load game:', error);
+      toast.error('go.history.loadFailed');
+    } finally {
+      setLoadingDetailId(null);
+    }
+  };
+
+  const formatDate = (dateString: string): string => {
+    const locale = language === 'vi' ? 'vi-VN' : 'en-US';
+    return new Date(dateString).toLocaleDateString(locale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const playerName = (p: GoHistoryPlayer | undefined): string => {
+    if (!p) return '?';
+    return p.isBot ? `🤖 ${p.name}` : p.name;
+  };
+
+  const winReasonText = (reason: GoWinReason | null): string => {
+    if (reason === 'resign') return t('go.winByResign');
+    if (reason === 'timeout') return t('go.winByTimeout');
+    return t('go.winByScore');
+  };
+
+  const resultSummary = (game: GoHistoryEntry | GoHistoryDetail): string => {
+    if (!game.winner) return t('go.history.noResult');
+    const color = game.winner.color === 'black' ? t('go.black') : t('go.white');
+    let text = `${color} ${t('go.wins')} ${winReasonText(game.winReason)}`;
+    if (game.winReason === 'score' && game.finalScore) {
+      const margin = Math.abs(game.finalScore.black.total - game.finalScore.white.total);
+      text += ` (+${margin})`;
+    }
+    return text;
+  };
+
+  const renderList = () => {
+    if (loading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress sx={{ color: GO_ACCENT }} />
+        </Box>
+      );
+    }
+
+    if (history.length === 0) {
+      return (
+        <Box sx={{ textAlign: 'center', py: 6 }}>
+          <Typography variant="body1" sx={{ fontWeight: 600, color: GO_ACCENT }}>
+            {t('go.history.empty')}
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'text.secondary', mt: 0.5 }}>
+            {t('go.history.emptyHint')}
+          </Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <List disablePadding>
+        {history.map(game => {
+          const black = game.players.find(p => p.color === 'black');
+          const white = game.players.find(p => p.color === 'white');
+          return (
+            <ListItemButton
+              key={game.id}
+              onClick={() => openReplay(game.id)}
+              disabled={loadingDetailId !== null}
+              sx={{ borderRadius: 2, mb: 1, border: '1px solid rgba(44, 62, 80, 0.12)' }}
+            >
+              <Stack direction="row" alignItems="center" spacing={1.5} sx={{ width: '100%' }}>
+                {game.result && (
+                  <Chip
+                    size="small"
+                    label={game.result === 'win' ? t('history.win') : t('history.loss')}
+                    sx={{
+                      bgcolor: game.result === 'win' ? '#a8e6cf' : '#ffaaa5',
+                      fontWeight: 700,
+                      minWidth: 56,
+                    }}
+                  />
+                )}
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+                    ⚫ {playerName(black)} — ⚪ {playerName(white)}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }} noWrap component="div">
+                    {resultSummary(game)}
+                  </Typography>
+                </Box>
+                <Box sx={{ textAlign: 'right', flexShrink: 0 }}>
+                  <Typography variant="caption" sx={{ fontWeight: 600, display: 'block' }}>
+                    {game.settings.boardSize}×{game.settings.boardSize} · {t('go.history.moves', { count: game.moveCount })}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    {formatDate(game.finishedAt)}
+                  </Typography>
+                </Box>
+                {loadingDetailId === game.id && <CircularProgress size={18} sx={{ color: GO_ACCENT }} />}
+              </Stack>
+            </ListItemButton>
+          );
+        })}
+      </List>
+    );
+  };
+
+  const renderReplay = (game: GoHistoryDetail) => {
+    const black = game.players.find(p => p.color === 'black');
+    const white = game.players.find(p => p.color === 'white');
+    return (
+      <Box>
+        <Stack direction="row" justifyContent="space-between" sx={{ mb: 1.5, maxWidth: 520, mx: 'auto' }}>
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 700 }}>⚫ {playerName(black)}</Typography>
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              {t('go.captures')}: {black?.captures ?? 0}
+              {game.finalScore && ` · ${t('go.total')}: ${game.finalScore.black.total}`}
+            </Typography>
+          </Box>
+          <Box sx={{ textAlign: 'right' }}>
+            <Typography variant="body2" sx={{ fontWeight: 700 }}>⚪ {playerName(white)}</Typography>
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              {t('go.captures')}: {white?.captures ?? 0}
+              {game.finalScore && ` · ${t('go.total')}: ${game.finalScore.white.total}`}
+            </Typography>
+          </Box>
+        </Stack>
+
+        <GoReplayViewer game={game} />
+
+        <Typography variant="body2" textAlign="center" sx={{ mt: 1.5, fontWeight: 600, color: GO_ACCENT }}>
+          {resultSummary(game)}
+        </Typography>
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3, maxHeight: '92vh' } }}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, pb: 1 }}>
+        {selected ? (
+          <Button
+            size="small"
+            startIcon={<ArrowBackIcon />}
+            onClick={() => setSelected(null)}
+            sx={{ textTransform: 'none', fontWeight: 600, color: GO_ACCENT }}
+          >
+            {t('history.backToList')}
+          </Button>
+        ) : (
+          <HistoryIcon sx={{ color: GO_ACCENT, fontSize: 22 }} />
+        )}
+        <Typography variant="h6" sx={{ fontWeight: 700, flex: 1, color: GO_ACCENT }}>
+          {selected
+            ? `${selected.settings.boardSize}×${selected.settings.boardSize} · ${formatDate(selected.finishedAt)}`
+            : t('go.history.title')}
+        </Typography>
+        <IconButton onClick={onClose} size="small">
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 1 }}>
+        {selected ? renderReplay(selected) : renderList()}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GoHistoryDialog;
@@ -0,0 +1,240 @@
+/**
+ * GoReplayViewer — Step through an archived Go game move by move.
+ * Positions are rebuilt client-side from the initial board + each move's captures;
+ * the final position can show the agreed territory and dead stones.
+ */
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import {
+  Box, Stack, Typography, IconButton, Slider, FormControlLabel, Switch, Tooltip,
+} from '@mui/material';
+import FirstPageIcon from '@mui/icons-material/FirstPage';
+import LastPageIcon from '@mui/icons-material/LastPage';
+import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
+import { useLanguage } from '../../../i18n';
+import { GoBoardSize, GoHistoryDetail, GoMove, TerritoryMap } from '../go-types';
+import { computeRenderConfig, renderFullBoard } from '../go-canvas-renderer';
+
+// ─── Replay Board (read-only canvas) ─────────────────────────
+
+interface ReplayBoardProps {
+  board: number[][];
+  boardSize: GoBoardSize;
+  move: GoMove | null;
+  territory: TerritoryMap | null;
+  deadStones: string[] | null;
+}
+
+const ReplayBoard: React.FC<ReplayBoardProps> = React.memo(({ board, boardSize, move, territory, deadStones }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const displayW = canvas.offsetWidth;
+    const displayH = canvas.offsetHeight;
+    if (!displayW || !displayH) return;
+
+    if (canvas.width !== Math.round(displayW * dpr) || canvas.height !== Math.round(displayH * dpr)) {
+      canvas.width = Math.round(displayW * dpr);
+      canvas.height = Math.round(displayH * dpr);
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(dpr, dpr);
+
+    renderFullBoard(ctx, {
+      config: computeRenderConfig(displayW, displayH, boardSize, dpr),
+      board,
+      lastMove: move && !move.isPass
+        ? { row: move.row, col: move.col, color: move.color === 'black' ? 1 : 2 }
+        : null,
+      captures: move?.captures ?? null,
+      territory,
+      deadStones,
+    });
+  }, [board, boardSize, move, territory, deadStones]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let rafId = 0;
+    const observer = new ResizeObserver(() => {
+      cancelAnimationFrame(rafId);
+      rafId = requestAnimationFrame(draw);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(rafId);
+    };
+  }, [draw]);
+
+  useEffect(() => {
+    const rafId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(rafId);
+  }, [draw]);
+
+  return (
+    <Box ref={containerRef} sx={{ width: '100%', maxWidth: 520, aspectRatio: '1', mx: 'auto' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'block',
+          borderRadius: 4,
+          boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+        }}
+      />
+    </Box>
+  );
+});
+
+ReplayBoard.displayName = 'ReplayBoard';
+
+// ─── Position Rebuild ────────────────────────────────────────
+
+/** positions[i] = board after i moves (positions[0] = handicap/setup position) */
+function buildPositions(initialBoard: number[][], moves: GoMove[]): number[][][] {
+  const positions = [initialBoard];
+  let current = initialBoard;
+  for (const move of moves) {
+    if (!move.isPass) {
+      current = current.map(row => [...row]);
+      current[move.row][move.col] = move.color === 'black' ? 1 : 2;
+      for (const pos of move.captures) current[pos.row][pos.col] = 0;
+    }
+    positions.push(current);
+  }
+  return positions;
+}
+
+// ─── Viewer ──────────────────────────────────────────────────
+
+interface GoReplayViewerProps {
+  game: GoHistoryDetail;
+}
+
+const GoReplayViewer: React.FC<GoReplayViewerProps> = ({ game }) => {
+  const { t } = useLanguage();
+  const total = game.moveHistory.length;
+  const [step, setStep] = useState(total);
+  const [showTerritory, setShowTerritory] = useState(true);
+
+  const positions = useMemo(
+    () => buildPositions(game.initialBoard, game.moveHistory),
+    [game.initialBoard, game.moveHistory],
+  );
+
+  const goTo = useCallback((n: number) => setStep(Math.max(0, Math.min(total, n))), [total]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') goTo(step - 1);
+    else if (e.key === 'ArrowRight') goTo(step + 1);
+    else if (e.key === 'Home') goTo(0);
+    else if (e.key === 'End') goTo(total);
+    else return;
+    e.preventDefault();
+  };
+
+  const move = step > 0 ? game.moveHistory[step - 1] : null;
+  const atEnd = step === total;
+  const hasTerritory = game.winReason === 'score'
+    && (game.territory.black.length > 0 || game.territory.white.length > 0);
+  const overlay = atEnd && hasTerritory && showTerritory;
+
+  const colorLabel = (color: 'black' | 'white') => (color === 'black' ? t('go.black') : t('go.white'));
+
+  let moveLabel = t('go.history.startPosition');
+  if (move) {
+    moveLabel = move.isPass
+      ? t('go.history.movePass', { n: step, color: colorLabel(move.color) })
+      : t('go.history.moveAt', { n: step, color: colorLabel(move.color) });
+  }
+
+  return (
+    <Box tabIndex={0} onKeyDown={handleKeyDown} sx={{ outline: 'none' }}>
+      <ReplayBoard
+        board={positions[step]}
+        boardSize={game.settings.boardSize}
+        move={move}
+        territory={overlay ? game.territory : null}
+        deadStones={overlay ? game.deadStones : null}
+      />
+
+      <Stack spacing={1} sx={{ mt: 2, maxWidth: 520, mx: 'auto' }}>
+        <Typography variant="body2" textAlign="center" fontWeight={600}>
+          {moveLabel}
+          {move && move.captures.length > 0 && (
+            <Typography component="span" variant="body2" color="error.main" sx={{ ml: 1 }}>
+              {t('go.history.captured', { count: move.captures.length })}
+            </Typography>
+          )}
+        </Typography>
+
+        <Slider
+          value={step}
+          min={0}
+          max={total}
+          step={1}
+          onChange={(_, v) => goTo(v as number)}
+          valueLabelDisplay="auto"
+          sx={{ color: '#2c3e50' }}
+        />
+
+        <Stack direction="row" justifyContent="center" alignItems="center" spacing={1}>
+          <Tooltip title={t('go.history.first')}>
+            <span>
+              <IconButton onClick={() => goTo(0)} disabled={step === 0}><FirstPageIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={t('go.history.previous')}>
+            <span>
+              <IconButton onClick={() => goTo(step - 1)} disabled={step === 0}><NavigateBeforeIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Typography variant="body2" sx={{ minWidth: 72, textAlign: 'center', fontFamily: 'monospace' }}>
+            {step} / {total}
+          </Typography>
+          <Tooltip title={t('go.history.next')}>
+            <span>
+              <IconButton onClick={() => goTo(step + 1)} disabled={atEnd}><NavigateNextIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={t('go.history.last')}>
+            <span>
+              <IconButton onClick={() => goTo(total)} disabled={atEnd}><LastPageIcon /></IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+
+        {hasTerritory && (
+          <FormControlLabel
+            sx={{ justifyContent: 'center', mx: 0 }}
+            control={(
+              <Switch
+                size="small"
+                checked={showTerritory}
+                onChange={e => setShowTerritory(e.target.checked)}
+                disabled={!atEnd}
+              />
+            )}
+            label={<Typography variant="body2">{t('go.history.showTerritory')}</Typography>}
+          />
+        )}
+      </Stack>
+    </Box>
+  );
+};
+
+export default GoReplayViewer;
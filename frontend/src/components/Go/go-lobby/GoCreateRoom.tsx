@@ -1,6 +1,6 @@
 /**
- * GoCreateRoom - Dialog for creating a new Go room with board size, komi,
- * handicap, timer settings, and optional password.
+ * GoCreateRoom - Dialog for creating a new Go room with board size, opponent
+ * (human or bot), komi, handicap, timer settings, and optional password.
  */
 import React, { useState } from 'react';
 import {
@@ -14,7 +14,9 @@ import CloseIcon from '@mui/icons-material/Close';
 import TimerOffIcon from '@mui/icons-material/TimerOff';
 import { useLanguage } from '../../../i18n';
 import { useGo } from '../GoContext';
-import { GoRules, GoBoardSize, DEFAULT_RULES } from '../go-types';
+import {
+  GoRules, GoBoardSize, GoBotLevel, GoTimeSystem, GoRuleset, DEFAULT_RULES, RULESET_KOMI,
+} from '../go-types';
 
 const GO_ACCENT = '#2c3e50';
 const GO_ACCENT2 = '#34495e';
@@ -27,6 +29,13 @@ export interface GoCreateRoomProps {
 const MAIN_TIMES = [0, 60, 180, 300, 600, 900, 1200, 1800]; // seconds
 const BYOYOMI_PERIODS = [1, 2, 3, 5];
 const BYOYOMI_TIMES = [10, 20, 30, 60]; // seconds
+const TIME_SYSTEMS: GoTimeSystem[] = ['byoyomi', 'canadian', 'fischer'];
+const CANADIAN_STONES = [5, 10, 15, 20, 25];
+const CANADIAN_TIMES = [60, 180, 300, 600]; // seconds per block
+const FISCHER_INCREMENTS = [2, 5, 10, 20, 30]; // seconds
+const OPPONENTS = ['human', 'easy', 'medium', 'hard'] as const;
+const RULESETS: GoRuleset[] = ['chinese', 'japanese', 'korean', 'aga'];
+const BOT_BOARD_SIZES: GoBoardSize[] = [9, 13]; // the bot is too weak/slow on 19x19
 
 function formatMainTime(s: number, noTimerLabel: string): string {
   if (s === 0) return noTimerLabel;
@@ -41,33 +50,52 @@ export const GoCreateRoom: React.FC<GoCreateRoomProps> = ({ open, onClose }) =>
 
   const [boardSize, setBoardSize] = useState<GoBoardSize>(DEFAULT_RULES.boardSize);
   const [komi, setKomi] = useState<number>(DEFAULT_RULES.komi);
+  const [ruleset, setRuleset] = useState<GoRuleset>(DEFAULT_RULES.ruleset);
   const [handicap, setHandicap] = useState<number>(DEFAULT_RULES.handicap);
   const [mainTime, setMainTime] = useState<number>(DEFAULT_RULES.mainTime);
   const [byoyomiPeriods, setByoyomiPeriods] = useState<number>(DEFAULT_RULES.byoyomiPeriods);
   const [byoyomiTime, setByoyomiTime] = useState<number>(DEFAULT_RULES.byoyomiTime);
+  const [timeSystem, setTimeSystem] = useState<GoTimeSystem>(DEFAULT_RULES.timeSystem);
+  const [canadianStones, setCanadianStones] = useState<number>(DEFAULT_RULES.canadianStones);
+  const [canadianTime, setCanadianTime] = useState<number>(DEFAULT_RULES.canadianTime);
+  const [fischerIncrement, setFischerIncrement] = useState<number>(DEFAULT_RULES.fischerIncrement);
   const [password, setPassword] = useState('');
+  const [opponent, setOpponent] = useState<'human' | GoBotLevel>('human');
 
   const timerEnabled = mainTime > 0;
+  const vsBot = opponent !== 'human';
 
   const handleCreate = () => {
     const rules: GoRules = {
       boardSize,
       komi,
+      ruleset,
       handicap,
       mainTime,
       byoyomiPeriods,
       byoyomiTime,
+      timeSystem,
+      canadianStones,
+      canadianTime,
+      fischerIncrement,
+      botLevel: vsBot ? opponent : null,
     };
     createRoom(rules, password.trim() || undefined);
     onClose();
     // Reset
     setBoardSize(DEFAULT_RULES.boardSize);
     setKomi(DEFAULT_RULES.komi);
+    setRuleset(DEFAULT_RULES.ruleset);
     setHandicap(DEFAULT_RULES.handicap);
     setMainTime(DEFAULT_RULES.mainTime);
     setByoyomiPeriods(DEFAULT_RULES.byoyomiPeriods);
     setByoyomiTime(DEFAULT_RULES.byoyomiTime);
+    setTimeSystem(DEFAULT_RULES.timeSystem);
+    setCanadianStones(DEFAULT_RULES.canadianStones);
+    setCanadianTime(DEFAULT_RULES.canadianTime);
+    setFischerIncrement(DEFAULT_RULES.fischerIncrement);
     setPassword('');
+    setOpponent('human');
   };
 
   const labelSx = { fontWeight: 600, fontSize: '0.85rem', mb: 0.75, color: 'text.secondary' };
@@ -106,6 +134,7 @@ export const GoCreateRoom: React.FC<GoCreateRoomProps> = ({ open, onClose }) =>
               <ToggleButton
                 key={size}
                 value={size}
+                disabled={vsBot && !BOT_BOARD_SIZES.includes(size)}
                 sx={{
                   fontWeight: 700,
                   '&.Mui-selected': {
@@ -121,6 +150,52 @@ export const GoCreateRoom: React.FC<GoCreateRoomProps> = ({ open, onClose }) =>
           </ToggleButtonGroup>
         </Box>
 
+        {/* Opponent */}
+        <Box sx={sectionSx}>
+          <Typography sx={labelSx}>{t('go.opponent')}</Typography>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <Select
+              value={opponent}
+              onChange={(e) => {
+                const next = e.target.value as 'human' | GoBotLevel;
+                setOpponent(next);
+                if (next !== 'human' && !BOT_BOARD_SIZES.includes(boardSize)) setBoardSize(9);
+              }}
+            >
+              {OPPONENTS.map(id => (
+                <MenuItem key={id} value={id}>{t(`go.opponents.${id}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {vsBot && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.75 }}>
+              {t('go.botHint')}
+            </Typography>
+          )}
+        </Box>
+
+        {/* Ruleset */}
+        <Box sx={sectionSx}>
+          <Typography sx={labelSx}>{t('go.ruleset')}</Typography>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <Select
+              value={ruleset}
+              onChange={(e: SelectChangeEvent<GoRuleset>) => {
+                const next = e.target.value as GoRuleset;
+                setRuleset(next);
+                setKomi(RULESET_KOMI[next]);
+              }}
+            >
+              {RULESETS.map(id => (
+                <MenuItem key={id} value={id}>{t(`go.rulesets.${id}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.75 }}>
+            {t(`go.rulesetHints.${ruleset}`)}
+          </Typography>
+        </Box>
+
         {/* Komi */}
         <Box sx={sectionSx}>
           <Typography sx={labelSx}>{t('go.komi')}</Typography>
@@ -175,7 +250,36 @@ export const GoCreateRoom: React.FC<GoCreateRoomProps> = ({ open, onClose }) =>
         </Box>
 
         <Collapse in={timerEnabled}>
-          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
+          <Box sx={sectionSx}>
+            <Typography sx={labelSx}>{t('go.timer.system')}</Typography>
+            <ToggleButtonGroup
+              value={timeSystem}
+              exclusive
+              onChange={(_, v) => v && setTimeSystem(v as GoTimeSystem)}
+              size="small"
+            >
+              {TIME_SYSTEMS.map(system => (
+                <ToggleButton
+                  key={system}
+                  value={system}
+                  sx={{
+                    px: 2,
+                    textTransform: 'none',
+                    fontWeight: 600,
+                    '&.Mui-selected': {
+                      bgcolor: GO_ACCENT,
+                      color: '#fff',
+                      '&:hover': { bgcolor: GO_ACCENT2 },
+                    },
+                  }}
+                >
+                  {t(`go.timer.systems.${system}`)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box sx={{ display: timeSystem === 'byoyomi' ? 'flex' : 'none', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
             <Box>
               <Typography sx={labelSx}>{t('go.byoyomiPeriods' as any)}</Typography>
               <FormControl size="small" sx={{ minWidth: 100 }}>
@@ -207,6 +311,55 @@ export const GoCreateRoom: React.FC<GoCreateRoomProps> = ({ open, onClose }) =>
               </FormControl>
             </Box>
           </Box>
+
+          {timeSystem === 'canadian' && (
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
+              <Box>
+                <Typography sx={labelSx}>{t('go.timer.canadianStones')}</Typography>
+                <FormControl size="small" sx={{ minWidth: 100 }}>
+                  <Select
+                    value={canadianStones}
+                    onChange={(e: SelectChangeEvent<number>) => setCanadianStones(Number(e.target.value))}
+                  >
+                    {CANADIAN_STONES.map(n => (
+                      <MenuItem key={n} value={n}>
+                        {t('go.timer.stones', { count: n })}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+              <Box>
+                <Typography sx={labelSx}>{t('go.timer.canadianTime')}</Typography>
+                <FormControl size="small" sx={{ minWidth: 120 }}>
+                  <Select
+                    value={canadianTime}
+                    onChange={(e: SelectChangeEvent<number>) => setCanadianTime(Number(e.target.value))}
+                  >
+                    {CANADIAN_TIMES.map(s => (
+                      <MenuItem key={s} value={s}>{formatMainTime(s, t('go.timer.noTimer'))}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            </Box>
+          )}
+
+          {timeSystem === 'fischer' && (
+            <Box sx={sectionSx}>
+              <Typography sx={labelSx}>{t('go.timer.fischerIncrement')}</Typography>
+              <FormControl size="small" sx={{ minWidth: 120 }}>
+                <Select
+                  value={fischerIncrement}
+                  onChange={(e: SelectChangeEvent<number>) => setFischerIncrement(Number(e.target.value))}
+                >
+                  {FISCHER_INCREMENTS.map(s => (
+                    <MenuItem key={s} value={s}>{t('go.timer.perMove', { seconds: s })}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          )}
         </Collapse>
 
         <Divider sx={{ my: 2 }} />
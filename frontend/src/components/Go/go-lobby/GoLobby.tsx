@@ -1,13 +1,13 @@
 /**
- * GoLobby - Main lobby view: create room, join by code, available rooms list.
+ * GoLobby - Main lobby view: create room, quick match, join by code, available rooms list.
  * Desktop: full-width with multi-column room grid.
  * Mobile: stacked single column.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box, Typography, Button, TextField, IconButton, Paper, Chip,
   Stack, useMediaQuery, useTheme, CircularProgress,
-  Dialog, DialogTitle, DialogContent, DialogActions,
+  Dialog, DialogTitle, DialogContent, DialogActions, Tooltip,
 } from '@mui/material';
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
 import RefreshIcon from '@mui/icons-material/Refresh';
@@ -15,10 +15,19 @@ import LockIcon from '@mui/icons-material/Lock';
 import SportsEsportsIcon from '@mui/icons-material/SportsEsports';
 import GridOnIcon from '@mui/icons-material/GridOn';
 import PeopleIcon from '@mui/icons-material/People';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import HistoryIcon from '@mui/icons-material/History';
+import BoltIcon from '@mui/icons-material/Bolt';
+import ExtensionIcon from '@mui/icons-material/Extension';
 import { useLanguage } from '../../../i18n';
 import { useToast } from '../../../contexts/ToastContext';
+import { useAuth } from '../../../contexts/AuthContext';
 import { useGo } from '../GoContext';
 import { GoCreateRoom } from './GoCreateRoom';
+import { GoQuickMatch } from './GoQuickMatch';
+import GoHistoryDialog from '../go-history/GoHistoryDialog';
+import GoProblemsDialog from '../go-problems/GoProblemsDialog';
 import { GoWaitingRoom as GoWaitingRoomInfo } from '../go-types';
 
 const GO_ACCENT = '#2c3e50';
@@ -253,14 +262,19 @@ const RoomsList: React.FC<RoomsListProps> = ({
 export const GoLobby: React.FC = () => {
   const { t } = useLanguage();
   const toast = useToast();
-  const { refreshRooms, state, joinRoom } = useGo();
+  const { refreshRooms, state, joinRoom, spectateRoom, importSgf } = useGo();
+  const { isAuthenticated } = useAuth();
   const theme = useTheme();
 
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [quickMatchOpen, setQuickMatchOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [problemsOpen, setProblemsOpen] = useState(false);
   const [joinCode, setJoinCode] = useState('');
   const [passwordDialog, setPasswordDialog] = useState(false);
   const [password, setPassword] = useState('');
   const [pendingRoomCode, setPendingRoomCode] = useState('');
+  const sgfInputRef = useRef<HTMLInputElement>(null);
 
   // Show toast for errors
   useEffect(() => {
@@ -285,6 +299,24 @@ export const GoLobby: React.FC = () => {
     setJoinCode('');
   };
 
+  const handleWatchByCode = () => {
+    const code = joinCode.trim().toUpperCase();
+    if (code.length !== 6) return;
+    spectateRoom(code);
+    setJoinCode('');
+  };
+
+  const handleSgfSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+    if (file.size > 1024 * 1024) {
+      toast.error('go.sgf.tooLarge');
+      return;
+    }
+    await importSgf(await file.text());
+  };
+
   return (
     <Box
       sx={{
@@ -344,6 +376,91 @@ export const GoLobby: React.FC = () => {
           {t('go.createRoom')}
         </Button>
 
+        {/* Quick match — queue for an opponent with similar rating */}
+        <Button
+          variant="outlined"
+          startIcon={<BoltIcon />}
+          onClick={() => setQuickMatchOpen(true)}
+          sx={{
+            borderColor: `rgba(44, 62, 80, 0.4)`,
+            color: GO_ACCENT,
+            '&:hover': { borderColor: GO_ACCENT, bgcolor: 'rgba(44, 62, 80, 0.06)' },
+            height: 42,
+            px: 2,
+            fontWeight: 700,
+            flexShrink: 0,
+            borderRadius: 2,
+          }}
+        >
+          {t('matchmaking.quickMatch')}
+        </Button>
+
+        {/* Import SGF — opens the game as a review-only room */}
+        <input
+          ref={sgfInputRef}
+          type="file"
+          accept=".sgf,application/x-go-sgf"
+          onChange={handleSgfSelected}
+          style={{ display: 'none' }}
+        />
+        <Button
+          variant="outlined"
+          startIcon={<UploadFileIcon />}
+          onClick={() => sgfInputRef.current?.click()}
+          sx={{
+            borderColor: `rgba(44, 62, 80, 0.4)`,
+            color: GO_ACCENT,
+            '&:hover': { borderColor: GO_ACCENT, bgcolor: 'rgba(44, 62, 80, 0.06)' },
+            height: 42,
+            px: 2,
+            fontWeight: 700,
+            flexShrink: 0,
+            borderRadius: 2,
+          }}
+        >
+          {t('go.sgf.import')}
+        </Button>
+
+        {/* Tsumego trainer — open to guests, progress saved when signed in */}
+        <Button
+          variant="outlined"
+          startIcon={<ExtensionIcon />}
+          onClick={() => setProblemsOpen(true)}
+          sx={{
+            borderColor: `rgba(44, 62, 80, 0.4)`,
+            color: GO_ACCENT,
+            '&:hover': { borderColor: GO_ACCENT, bgcolor: 'rgba(44, 62, 80, 0.06)' },
+            height: 42,
+            px: 2,
+            fontWeight: 700,
+            flexShrink: 0,
+            borderRadius: 2,
+          }}
+        >
+          {t('go.problems.open')}
+        </Button>
+
+        {/* Archived games (server only keeps history for signed-in players) */}
+        {isAuthenticated && (
+          <Button
+            variant="outlined"
+            startIcon={<HistoryIcon />}
+            onClick={() => setHistoryOpen(true)}
+            sx={{
+              borderColor: `rgba(44, 62, 80, 0.4)`,
+              color: GO_ACCENT,
+              '&:hover': { borderColor: GO_ACCENT, bgcolor: 'rgba(44, 62, 80, 0.06)' },
+              height: 42,
+              px: 2,
+              fontWeight: 700,
+              flexShrink: 0,
+              borderRadius: 2,
+            }}
+          >
+            {t('go.history.myGames')}
+          </Button>
+        )}
+
         {/* Join by code */}
         <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flex: 1, maxWidth: { sm: 340 } }}>
           <TextField
@@ -371,6 +488,17 @@ export const GoLobby: React.FC = () => {
           >
             {t('go.join')}
           </Button>
+          <Tooltip title={t('spectator.watch')}>
+            <span>
+              <IconButton
+                onClick={handleWatchByCode}
+                disabled={joinCode.trim().length !== 6}
+                sx={{ color: GO_ACCENT, flexShrink: 0 }}
+              >
+                <VisibilityIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
         </Box>
 
         {/* Refresh */}
@@ -408,6 +536,12 @@ export const GoLobby: React.FC = () => {
         open={createDialogOpen}
         onClose={() => setCreateDialogOpen(false)}
       />
+
+      <GoQuickMatch open={quickMatchOpen} onClose={() => setQuickMatchOpen(false)} />
+
+      <GoHistoryDialog open={historyOpen} onClose={() => setHistoryOpen(false)} />
+
+      <GoProblemsDialog open={problemsOpen} onClose={() => setProblemsOpen(false)} />
     </Box>
   );
 };
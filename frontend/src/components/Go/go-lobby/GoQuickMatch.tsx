@@ -0,0 +1,106 @@
+/**
+ * GoQuickMatch - Quick-match dialog for Go: pick a board size and time control,
+ * then queue for an opponent. Matched players are seated straight into a new room.
+ */
+import React, { useState } from 'react';
+import {
+  Box, Typography, ToggleButtonGroup, ToggleButton, FormControl, Select, MenuItem,
+} from '@mui/material';
+import { useLanguage } from '../../../i18n';
+import { useGo } from '../GoContext';
+import { GoBoardSize, DEFAULT_RULES } from '../go-types';
+import { QuickMatchDialog } from '../../Matchmaking';
+import { GoMatchPreferences, MatchmakingMatched } from '../../../types/matchmaking.types';
+
+const GO_ACCENT = '#2c3e50';
+const GO_ACCENT2 = '#34495e';
+
+// Fixed presets so queued players share the same settings
+const QUICK_TIME_PRESETS = [
+  { id: 'none', mainTime: 0, byoyomiPeriods: 3, byoyomiTime: 30 },
+  { id: 'blitz', mainTime: 300, byoyomiPeriods: 3, byoyomiTime: 10 },
+  { id: 'rapid', mainTime: 600, byoyomiPeriods: 3, byoyomiTime: 30 },
+  { id: 'classic', mainTime: 1800, byoyomiPeriods: 5, byoyomiTime: 60 },
+] as const;
+
+export interface GoQuickMatchProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const GoQuickMatch: React.FC<GoQuickMatchProps> = ({ open, onClose }) => {
+  const { t } = useLanguage();
+  const { joinRoom } = useGo();
+  const [boardSize, setBoardSize] = useState<GoBoardSize>(19);
+  const [presetId, setPresetId] = useState<string>('rapid');
+
+  const preset = QUICK_TIME_PRESETS.find(p => p.id === presetId) || QUICK_TIME_PRESETS[0];
+  const preferences: GoMatchPreferences = {
+    boardSize,
+    mainTime: preset.mainTime,
+    byoyomiPeriods: preset.byoyomiPeriods,
+    byoyomiTime: preset.byoyomiTime,
+    ruleset: DEFAULT_RULES.ruleset,
+    timeSystem: DEFAULT_RULES.timeSystem,
+    canadianStones: DEFAULT_RULES.canadianStones,
+    canadianTime: DEFAULT_RULES.canadianTime,
+    fischerIncrement: DEFAULT_RULES.fischerIncrement,
+  };
+
+  const handleMatched = (match: MatchmakingMatched) => {
+    onClose();
+    joinRoom(match.roomCode);
+  };
+
+  const labelSx = { fontWeight: 600, fontSize: '0.85rem', color: 'text.secondary', mb: 1 };
+
+  return (
+    <QuickMatchDialog
+      open={open}
+      onClose={onClose}
+      gameType="go"
+      preferences={preferences}
+      onMatched={handleMatched}
+      accentColor={GO_ACCENT}
+    >
+      <Box sx={{ mb: 2 }}>
+        <Typography sx={labelSx}>{t('go.boardSize')}</Typography>
+        <ToggleButtonGroup
+          value={boardSize}
+          exclusive
+          onChange={(_, v) => v && setBoardSize(v as GoBoardSize)}
+          size="small"
+          fullWidth
+        >
+          {([9, 13, 19] as GoBoardSize[]).map(size => (
+            <ToggleButton
+              key={size}
+              value={size}
+              sx={{
+                fontWeight: 700,
+                '&.Mui-selected': {
+                  bgcolor: GO_ACCENT,
+                  color: '#fff',
+                  '&:hover': { bgcolor: GO_ACCENT2 },
+                },
+              }}
+            >
+              {size}×{size}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ mb: 1 }}>
+        <Typography sx={labelSx}>{t('go.quickMatch.timeControl')}</Typography>
+        <FormControl size="small" fullWidth>
+          <Select value={presetId} onChange={e => setPresetId(String(e.target.value))}>
+            {QUICK_TIME_PRESETS.map(p => (
+              <MenuItem key={p.id} value={p.id}>{t(`go.quickMatch.presets.${p.id}`)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+    </QuickMatchDialog>
+  );
+};
@@ -26,7 +26,7 @@ import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
 import { useLanguage } from '../../../i18n';
 import { useToast } from '../../../contexts/ToastContext';
 import { useGo } from '../GoContext';
-import { GoRules, GoBoardSize, DEFAULT_RULES } from '../go-types';
+import { GoRules, GoBoardSize, GoTimeSystem, GoRuleset, DEFAULT_RULES, RULESET_KOMI } from '../go-types';
 import ConfirmDialog from '../../ConfirmDialog/ConfirmDialog';
 import GoHelpDialog from '../go-play/GoHelpDialog';
 
@@ -36,6 +36,11 @@ const GO_ACCENT2 = '#34495e';
 const MAIN_TIMES = [0, 60, 180, 300, 600, 900, 1200, 1800];
 const BYOYOMI_PERIODS = [1, 2, 3, 5];
 const BYOYOMI_TIMES = [10, 20, 30, 60];
+const TIME_SYSTEMS: GoTimeSystem[] = ['byoyomi', 'canadian', 'fischer'];
+const RULESETS: GoRuleset[] = ['chinese', 'japanese', 'korean', 'aga'];
+const CANADIAN_STONES = [5, 10, 15, 20, 25];
+const CANADIAN_TIMES = [60, 180, 300, 600];
+const FISCHER_INCREMENTS = [2, 5, 10, 20, 30];
 
 function formatMainTime(s: number, noTimerLabel: string): string {
   if (s === 0) return noTimerLabel;
@@ -43,9 +48,18 @@ function formatMainTime(s: number, noTimerLabel: string): string {
   return `${Math.round(s / 60)}min`;
 }
 
-function formatTimer(rules: GoRules, noTimerLabel: string): string {
+function formatTimer(rules: GoRules, t: (key: string, params?: Record<string, string | number>) => string): string {
+  const noTimerLabel = t('go.timer.noTimer');
   if (!rules.mainTime) return noTimerLabel;
-  return `${formatMainTime(rules.mainTime, noTimerLabel)} + ${rules.byoyomiPeriods}×${rules.byoyomiTime}s`;
+  const main = formatMainTime(rules.mainTime, noTimerLabel);
+  switch (rules.timeSystem) {
+    case 'canadian':
+      return `${main} + ${rules.canadianStones}/${formatMainTime(rules.canadianTime, noTimerLabel)}`;
+    case 'fischer':
+      return `${main} + ${t('go.timer.perMove', { seconds: rules.fischerIncrement })}`;
+    default:
+      return `${main} + ${rules.byoyomiPeriods}×${rules.byoyomiTime}s`;
+  }
 }
 
 export const GoWaitingRoom: React.FC = () => {
@@ -63,18 +77,28 @@ export const GoWaitingRoom: React.FC = () => {
   // Edit settings state
   const [editBoardSize, setEditBoardSize] = useState<GoBoardSize>(state.rules?.boardSize ?? DEFAULT_RULES.boardSize);
   const [editKomi, setEditKomi] = useState(state.rules?.komi ?? DEFAULT_RULES.komi);
+  const [editRuleset, setEditRuleset] = useState<GoRuleset>(state.rules?.ruleset ?? DEFAULT_RULES.ruleset);
   const [editHandicap, setEditHandicap] = useState(state.rules?.handicap ?? DEFAULT_RULES.handicap);
   const [editMainTime, setEditMainTime] = useState(state.rules?.mainTime ?? DEFAULT_RULES.mainTime);
   const [editByoyomiPeriods, setEditByoyomiPeriods] = useState(state.rules?.byoyomiPeriods ?? DEFAULT_RULES.byoyomiPeriods);
   const [editByoyomiTime, setEditByoyomiTime] = useState(state.rules?.byoyomiTime ?? DEFAULT_RULES.byoyomiTime);
+  const [editTimeSystem, setEditTimeSystem] = useState<GoTimeSystem>(state.rules?.timeSystem ?? DEFAULT_RULES.timeSystem);
+  const [editCanadianStones, setEditCanadianStones] = useState(state.rules?.canadianStones ?? DEFAULT_RULES.canadianStones);
+  const [editCanadianTime, setEditCanadianTime] = useState(state.rules?.canadianTime ?? DEFAULT_RULES.canadianTime);
+  const [editFischerIncrement, setEditFischerIncrement] = useState(state.rules?.fischerIncrement ?? DEFAULT_RULES.fischerIncrement);
 
   const openSettings = () => {
     setEditBoardSize(state.rules?.boardSize ?? DEFAULT_RULES.boardSize);
     setEditKomi(state.rules?.komi ?? DEFAULT_RULES.komi);
+    setEditRuleset(state.rules?.ruleset ?? DEFAULT_RULES.ruleset);
     setEditHandicap(state.rules?.handicap ?? DEFAULT_RULES.handicap);
     setEditMainTime(state.rules?.mainTime ?? DEFAULT_RULES.mainTime);
     setEditByoyomiPeriods(state.rules?.byoyomiPeriods ?? DEFAULT_RULES.byoyomiPeriods);
     setEditByoyomiTime(state.rules?.byoyomiTime ?? DEFAULT_RULES.byoyomiTime);
+    setEditTimeSystem(state.rules?.timeSystem ?? DEFAULT_RULES.timeSystem);
+    setEditCanadianStones(state.rules?.canadianStones ?? DEFAULT_RULES.canadianStones);
+    setEditCanadianTime(state.rules?.canadianTime ?? DEFAULT_RULES.canadianTime);
+    setEditFischerIncrement(state.rules?.fischerIncrement ?? DEFAULT_RULES.fischerIncrement);
     setShowSettings(true);
   };
 
@@ -82,10 +106,15 @@ export const GoWaitingRoom: React.FC = () => {
     updateSettings({
       boardSize: editBoardSize,
       komi: editKomi,
+      ruleset: editRuleset,
       handicap: editHandicap,
       mainTime: editMainTime,
       byoyomiPeriods: editByoyomiPeriods,
       byoyomiTime: editByoyomiTime,
+      timeSystem: editTimeSystem,
+      canadianStones: editCanadianStones,
+      canadianTime: editCanadianTime,
+      fischerIncrement: editFischerIncrement,
     });
     setShowSettings(false);
   };
@@ -200,7 +229,7 @@ export const GoWaitingRoom: React.FC = () => {
               sx={{ fontWeight: 600, bgcolor: 'rgba(44, 62, 80, 0.08)', color: GO_ACCENT, border: `1px solid rgba(44, 62, 80, 0.2)` }}
             />
             <Chip
-              label={`Komi ${rules.komi}`}
+              label={`${t(`go.rulesets.${rules.ruleset || 'chinese'}`)} · Komi ${rules.komi}`}
               size="small"
               sx={{ fontWeight: 600, bgcolor: 'rgba(52, 152, 219, 0.1)', color: '#2980b9', border: '1px solid rgba(52, 152, 219, 0.2)' }}
             />
@@ -213,7 +242,7 @@ export const GoWaitingRoom: React.FC = () => {
             )}
             <Chip
               icon={rules.mainTime ? <TimerIcon sx={{ fontSize: '14px !important', color: '#d35400 !important' }} /> : <TimerOffIcon sx={{ fontSize: '14px !important', color: '#999 !important' }} />}
-              label={formatTimer(rules, t('go.timer.noTimer'))}
+              label={formatTimer(rules, t)}
               size="small"
               sx={{ fontWeight: 600, bgcolor: rules.mainTime ? 'rgba(230, 126, 34, 0.1)' : 'rgba(0,0,0,0.04)', color: rules.mainTime ? '#d35400' : 'text.secondary', border: rules.mainTime ? '1px solid rgba(230, 126, 34, 0.2)' : '1px solid rgba(0,0,0,0.1)' }}
             />
@@ -449,6 +478,7 @@ export const GoWaitingRoom: React.FC = () => {
                 <ToggleButton
                   key={size}
                   value={size}
+                  disabled={!!rules?.botLevel && size === 19}
                   sx={{
                     fontWeight: 700,
                     '&.Mui-selected': {
@@ -464,6 +494,25 @@ export const GoWaitingRoom: React.FC = () => {
             </ToggleButtonGroup>
           </Box>
 
+          {/* Ruleset */}
+          <Box sx={{ mb: 2.5 }}>
+            <Typography sx={labelSx}>{t('go.ruleset')}</Typography>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <Select
+                value={editRuleset}
+                onChange={(e: SelectChangeEvent<GoRuleset>) => {
+                  const next = e.target.value as GoRuleset;
+                  setEditRuleset(next);
+                  setEditKomi(RULESET_KOMI[next]);
+                }}
+              >
+                {RULESETS.map(id => (
+                  <MenuItem key={id} value={id}>{t(`go.rulesets.${id}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
           {/* Komi */}
           <Box sx={{ mb: 2.5 }}>
             <Typography sx={labelSx}>{t('go.komi')}</Typography>
@@ -518,7 +567,21 @@ export const GoWaitingRoom: React.FC = () => {
           </Box>
 
           <Collapse in={editMainTime > 0}>
-            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
+            <Box sx={{ mb: 2.5 }}>
+              <Typography sx={labelSx}>{t('go.timer.system')}</Typography>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <Select
+                  value={editTimeSystem}
+                  onChange={(e: SelectChangeEvent<GoTimeSystem>) => setEditTimeSystem(e.target.value as GoTimeSystem)}
+                >
+                  {TIME_SYSTEMS.map(system => (
+                    <MenuItem key={system} value={system}>{t(`go.timer.systems.${system}`)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            <Box sx={{ display: editTimeSystem === 'byoyomi' ? 'flex' : 'none', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
               <Box>
                 <Typography sx={labelSx}>{t('go.byoyomiPeriods' as any)}</Typography>
                 <FormControl size="small" sx={{ minWidth: 100 }}>
@@ -550,6 +613,53 @@ export const GoWaitingRoom: React.FC = () => {
                 </FormControl>
               </Box>
             </Box>
+
+            {editTimeSystem === 'canadian' && (
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2.5 }}>
+                <Box>
+                  <Typography sx={labelSx}>{t('go.timer.canadianStones')}</Typography>
+                  <FormControl size="small" sx={{ minWidth: 100 }}>
+                    <Select
+                      value={editCanadianStones}
+                      onChange={(e: SelectChangeEvent<number>) => setEditCanadianStones(Number(e.target.value))}
+                    >
+                      {CANADIAN_STONES.map(n => (
+                        <MenuItem key={n} value={n}>{t('go.timer.stones', { count: n })}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+                <Box>
+                  <Typography sx={labelSx}>{t('go.timer.canadianTime')}</Typography>
+                  <FormControl size="small" sx={{ minWidth: 120 }}>
+                    <Select
+                      value={editCanadianTime}
+                      onChange={(e: SelectChangeEvent<number>) => setEditCanadianTime(Number(e.target.value))}
+                    >
+                      {CANADIAN_TIMES.map(s => (
+                        <MenuItem key={s} value={s}>{formatMainTime(s, t('go.timer.noTimer'))}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+            )}
+
+            {editTimeSystem === 'fischer' && (
+              <Box sx={{ mb: 2.5 }}>
+                <Typography sx={labelSx}>{t('go.timer.fischerIncrement')}</Typography>
+                <FormControl size="small" sx={{ minWidth: 120 }}>
+                  <Select
+                    value={editFischerIncrement}
+                    onChange={(e: SelectChangeEvent<number>) => setEditFischerIncrement(Number(e.target.value))}
+                  >
+                    {FISCHER_INCREMENTS.map(s => (
+                      <MenuItem key={s} value={s}>{t('go.timer.perMove', { seconds: s })}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            )}
           </Collapse>
         </DialogContent>
 
@@ -7,6 +7,8 @@ import React, { useState, useEffect } from 'react';
 import { Box, Stack, Typography, Button, IconButton, Tooltip, useTheme, useMediaQuery } from '@mui/material';
 import MenuBookIcon from '@mui/icons-material/MenuBook';
 import ExitToAppIcon from '@mui/icons-material/ExitToApp';
+import DownloadIcon from '@mui/icons-material/Download';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
 import ConfirmDialog from '../../ConfirmDialog/ConfirmDialog';
 import { useLanguage } from '../../../i18n';
 import { useMainLayout } from '../../MainLayout/MainLayoutContext';
@@ -17,6 +19,7 @@ import GoControls from './GoControls';
 import GoScoringPanel from './GoScoringPanel';
 import GoWinnerModal from './GoWinnerModal';
 import GoHelpDialog from './GoHelpDialog';
+import { SpectatorPanel } from '../../Spectator';
 
 /** Shared button sx for Help/Leave in left panel */
 const panelBtnSx = {
@@ -42,6 +45,8 @@ const GoPlayView: React.FC = () => {
     dismissResult,
     leaveRoom,
     newGame,
+    downloadSgf,
+    startReview,
   } = useGo();
 
   const { t } = useLanguage();
@@ -76,10 +81,15 @@ const GoPlayView: React.FC = () => {
     winReason,
     finalScore,
     timerEnabled,
+    roomId,
+    isSpectator,
+    spectators,
+    gameStatus,
   } = state;
 
   const boardSize = rules?.boardSize ?? 9;
-  const byoyomiTime = rules?.byoyomiTime ?? 30;
+  const timeSystem = rules?.timeSystem ?? 'byoyomi';
+  const fischerIncrement = rules?.fischerIncrement ?? 0;
 
   const myPlayer = players.find(p => p.slot === mySlot) ?? null;
   const myColor = myPlayer?.color ?? null;
@@ -131,6 +141,17 @@ const GoPlayView: React.FC = () => {
     </Typography>
   );
 
+  const SpectatorRow = (
+    <Box sx={{ display: 'flex', justifyContent: 'center', mb: 1 }}>
+      <SpectatorPanel
+        room={roomId ? `go:${roomId}` : null}
+        isSpectator={isSpectator}
+        initialSpectators={spectators}
+        hideWhenEmpty
+      />
+    </Box>
+  );
+
   /* ─── MOBILE LAYOUT ─────────────────────────────────── */
   const mobileLayout = (
     <Box sx={{ maxWidth: 520, mx: 'auto', p: { xs: 1.5, sm: 2 } }}>
@@ -141,18 +162,21 @@ const GoPlayView: React.FC = () => {
             player={player2}
             isCurrentTurn={player2.color === currentColor && phase === 'play'}
             timerEnabled={timerEnabled}
-            byoyomiTime={byoyomiTime}
+            timeSystem={timeSystem}
+            fischerIncrement={fischerIncrement}
           />
         )}
 
         {/* Turn indicator + Board */}
         {TurnIndicator}
+        {SpectatorRow}
         {BoardComponent}
 
         {/* Scoring panel */}
         {phase === 'scoring' && (
           <GoScoringPanel
             score={score}
+            territory={territory}
             players={players}
             mySlot={mySlot}
             onAgree={agreeScoring}
@@ -161,7 +185,7 @@ const GoPlayView: React.FC = () => {
         )}
 
         {/* Controls */}
-        {phase === 'play' && (
+        {phase === 'play' && !isSpectator && (
           <GoControls
             isMyTurn={isMyTurn}
             phase={phase}
@@ -192,6 +216,36 @@ const GoPlayView: React.FC = () => {
               <MenuBookIcon sx={{ fontSize: 22 }} />
             </IconButton>
           </Tooltip>
+          {gameStatus === 'finished' && (
+            <Tooltip title={state.review ? t('go.review.rejoin') : t('go.review.start')}>
+              <IconButton
+                onClick={startReview}
+                sx={{
+                  color: '#2c3e50',
+                  border: '1.5px solid rgba(44,62,80,0.25)',
+                  borderRadius: 2,
+                  p: 1,
+                  '&:hover': { bgcolor: 'rgba(44,62,80,0.06)', borderColor: '#2c3e50' },
+                }}
+              >
+                <ManageSearchIcon sx={{ fontSize: 22 }} />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title={t('go.sgf.download')}>
+            <IconButton
+              onClick={downloadSgf}
+              sx={{
+                color: '#2c3e50',
+                border: '1.5px solid rgba(44,62,80,0.25)',
+                borderRadius: 2,
+                p: 1,
+                '&:hover': { bgcolor: 'rgba(44,62,80,0.06)', borderColor: '#2c3e50' },
+              }}
+            >
+              <DownloadIcon sx={{ fontSize: 22 }} />
+            </IconButton>
+          </Tooltip>
           <Tooltip title={t('go.leaveRoom' as any)}>
             <IconButton
               onClick={() => setShowLeaveConfirm(true)}
@@ -214,7 +268,8 @@ const GoPlayView: React.FC = () => {
             player={player1}
             isCurrentTurn={player1.color === currentColor && phase === 'play'}
             timerEnabled={timerEnabled}
-            byoyomiTime={byoyomiTime}
+            timeSystem={timeSystem}
+            fischerIncrement={fischerIncrement}
           />
         )}
       </Stack>
@@ -242,11 +297,12 @@ const GoPlayView: React.FC = () => {
               player={player1}
               isCurrentTurn={player1.color === currentColor && phase === 'play'}
               timerEnabled={timerEnabled}
-              byoyomiTime={byoyomiTime}
+              timeSystem={timeSystem}
+              fischerIncrement={fischerIncrement}
             />
           )}
 
-          {phase === 'play' && (
+          {phase === 'play' && !isSpectator && (
             <GoControls
               isMyTurn={isMyTurn}
               phase={phase}
@@ -264,6 +320,7 @@ const GoPlayView: React.FC = () => {
           {phase === 'scoring' && (
             <GoScoringPanel
               score={score}
+              territory={territory}
               players={players}
               mySlot={mySlot}
               onAgree={agreeScoring}
@@ -287,6 +344,34 @@ const GoPlayView: React.FC = () => {
               >
                 {t('go.help.title' as any)}
               </Button>
+              {gameStatus === 'finished' && (
+                <Button
+                  variant="outlined"
+                  startIcon={<ManageSearchIcon />}
+                  onClick={startReview}
+                  fullWidth
+                  sx={{
+                    ...panelBtnSx,
+                    borderColor: 'rgba(44,62,80,0.25)', color: '#2c3e50',
+                    '&:hover': { borderColor: '#2c3e50', bgcolor: 'rgba(44,62,80,0.06)' },
+                  }}
+                >
+                  {state.review ? t('go.review.rejoin') : t('go.review.start')}
+                </Button>
+              )}
+              <Button
+                variant="outlined"
+                startIcon={<DownloadIcon />}
+                onClick={downloadSgf}
+                fullWidth
+                sx={{
+                  ...panelBtnSx,
+                  borderColor: 'rgba(44,62,80,0.25)', color: '#2c3e50',
+                  '&:hover': { borderColor: '#2c3e50', bgcolor: 'rgba(44,62,80,0.06)' },
+                }}
+              >
+                {t('go.sgf.download')}
+              </Button>
               <Button
                 variant="outlined"
                 startIcon={<ExitToAppIcon />}
@@ -308,6 +393,7 @@ const GoPlayView: React.FC = () => {
       {/* Center: turn indicator + board */}
       <Box sx={{ flex: '1 1 auto', maxWidth: 700, minWidth: 0, pt: 1 }}>
         {TurnIndicator}
+        {SpectatorRow}
         {BoardComponent}
       </Box>
 
@@ -318,7 +404,8 @@ const GoPlayView: React.FC = () => {
             player={player2}
             isCurrentTurn={player2.color === currentColor && phase === 'play'}
             timerEnabled={timerEnabled}
-            byoyomiTime={byoyomiTime}
+            timeSystem={timeSystem}
+            fischerIncrement={fischerIncrement}
           />
         )}
       </Box>
@@ -338,6 +425,7 @@ const GoPlayView: React.FC = () => {
         mySlot={mySlot}
         isHost={isHost}
         onNewGame={newGame}
+        onReview={startReview}
         onLeave={leaveRoom}
         onDismiss={dismissResult}
       />
@@ -6,14 +6,15 @@ import React from 'react';
 import { Box, Paper, Typography, Stack, Chip } from '@mui/material';
 import { keyframes } from '@mui/system';
 import { useLanguage } from '../../../i18n';
-import { GoPlayer } from '../go-types';
+import { GoPlayer, GoTimeSystem } from '../go-types';
 import GoTimerDisplay from './GoTimerDisplay';
 
 interface GoPlayerPanelProps {
   player: GoPlayer;
   isCurrentTurn: boolean;
   timerEnabled: boolean;
-  byoyomiTime: number;
+  timeSystem: GoTimeSystem;
+  fischerIncrement: number;
 }
 
 const glowAnim = keyframes`
@@ -25,7 +26,8 @@ const GoPlayerPanel: React.FC<GoPlayerPanelProps> = React.memo(({
   player,
   isCurrentTurn,
   timerEnabled,
-  byoyomiTime,
+  timeSystem,
+  fischerIncrement,
 }) => {
   const { t } = useLanguage();
   const displayName = player.username || player.guestName || `${t('common.player' as any)} ${player.slot}`;
@@ -84,7 +86,10 @@ const GoPlayerPanel: React.FC<GoPlayerPanelProps> = React.memo(({
         <GoTimerDisplay
           mainTimeLeft={player.mainTimeLeft}
           byoyomiPeriodsLeft={player.byoyomiPeriodsLeft}
-          byoyomiTime={byoyomiTime}
+          periodTimeLeft={player.periodTimeLeft}
+          stonesLeft={player.stonesLeft}
+          timeSystem={timeSystem}
+          fischerIncrement={fischerIncrement}
           isActive={isCurrentTurn}
           timerEnabled={timerEnabled}
         />
@@ -0,0 +1,40 @@
+/**
+ * GoScoreBreakdown — The components of one side's score under the game's ruleset:
+ * stones + territory for area scoring, territory + prisoners (+ pass stones for AGA) otherwise.
+ */
+import React from 'react';
+import { Typography } from '@mui/material';
+import { useLanguage } from '../../../i18n';
+import { GoColor, GoScore } from '../go-types';
+
+interface GoScoreBreakdownProps {
+  score: GoScore;
+  color: GoColor;
+}
+
+const GoScoreBreakdown: React.FC<GoScoreBreakdownProps> = ({ score, color }) => {
+  const { t } = useLanguage();
+  const ruleset = score.ruleset || 'chinese';
+  const side = score[color];
+
+  const lines: string[] = [`${t('go.territory')}: ${side.territory}`];
+  if (ruleset === 'chinese') {
+    lines.push(`${t('go.scoring.stones')}: ${side.stones}`);
+  } else {
+    lines.push(`${t('go.scoring.prisoners')}: ${side.prisoners ?? side.captures}`);
+  }
+  if (ruleset === 'aga') lines.push(`${t('go.scoring.passStones')}: ${side.passStones ?? 0}`);
+  if (color === 'white') lines.push(`Komi: ${score.white.komi}`);
+
+  return (
+    <>
+      {lines.map(line => (
+        <Typography key={line} variant="caption" color="text.secondary">
+          {line}
+        </Typography>
+      ))}
+    </>
+  );
+};
+
+export default GoScoreBreakdown;
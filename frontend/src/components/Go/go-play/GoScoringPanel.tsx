@@ -7,10 +7,12 @@ import { Box, Button, Paper, Stack, Typography, Divider } from '@mui/material';
 import CheckIcon from '@mui/icons-material/Check';
 import ReplayIcon from '@mui/icons-material/Replay';
 import { useLanguage } from '../../../i18n';
-import { GoScore, GoPlayer } from '../go-types';
+import { GoScore, GoPlayer, TerritoryMap } from '../go-types';
+import GoScoreBreakdown from './GoScoreBreakdown';
 
 interface GoScoringPanelProps {
   score: GoScore | null;
+  territory: TerritoryMap;
   players: GoPlayer[];
   mySlot: number | null;
   onAgree: () => void;
@@ -19,6 +21,7 @@ interface GoScoringPanelProps {
 
 const GoScoringPanel: React.FC<GoScoringPanelProps> = React.memo(({
   score,
+  territory,
   players,
   mySlot,
   onAgree,
@@ -48,6 +51,12 @@ const GoScoringPanel: React.FC<GoScoringPanelProps> = React.memo(({
         {t('go.scoringHint')}
       </Typography>
 
+      {score && (
+        <Typography variant="caption" fontWeight={600} display="block" textAlign="center" mb={1}>
+          {t(`go.rulesets.${score.ruleset || 'chinese'}`)}
+        </Typography>
+      )}
+
       {score && (
         <>
           <Divider sx={{ mb: 2 }} />
@@ -63,6 +72,7 @@ const GoScoringPanel: React.FC<GoScoringPanelProps> = React.memo(({
               <Typography variant="caption" color="text.secondary">
                 {t('go.black')}
               </Typography>
+              <GoScoreBreakdown score={score} color="black" />
             </Stack>
             <Stack alignItems="center" spacing={0.5}>
               <Box
@@ -75,8 +85,14 @@ const GoScoringPanel: React.FC<GoScoringPanelProps> = React.memo(({
               <Typography variant="caption" color="text.secondary">
                 {t('go.white')}
               </Typography>
+              <GoScoreBreakdown score={score} color="white" />
             </Stack>
           </Stack>
+          {(territory.seki?.length ?? 0) > 0 && (
+            <Typography variant="caption" color="text.secondary" display="block" textAlign="center" mb={2}>
+              {t('go.scoring.sekiPoints', { count: territory.seki?.length ?? 0 })}
+            </Typography>
+          )}
           <Divider sx={{ mb: 2 }} />
         </>
       )}
@@ -95,29 +111,31 @@ const GoScoringPanel: React.FC<GoScoringPanelProps> = React.memo(({
         ))}
       </Stack>
 
-      <Stack spacing={1.5}>
-        <Button
-          variant="contained"
-          color="success"
-          startIcon={<CheckIcon />}
-          disabled={alreadyAgreed}
-          onClick={onAgree}
-          fullWidth
-          sx={{ py: 1, fontWeight: 600, textTransform: 'none', fontSize: '0.85rem', borderRadius: 2 }}
-        >
-          {alreadyAgreed ? t('go.agreed') : t('go.agreeScoring')}
-        </Button>
-        <Button
-          variant="outlined"
-          color="warning"
-          startIcon={<ReplayIcon />}
-          onClick={onReject}
-          fullWidth
-          sx={{ py: 1, fontWeight: 600, textTransform: 'none', fontSize: '0.85rem', borderRadius: 2 }}
-        >
-          {t('go.resumePlay')}
-        </Button>
-      </Stack>
+      {mySlot !== null && (
+        <Stack spacing={1.5}>
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={<CheckIcon />}
+            disabled={alreadyAgreed}
+            onClick={onAgree}
+            fullWidth
+            sx={{ py: 1, fontWeight: 600, textTransform: 'none', fontSize: '0.85rem', borderRadius: 2 }}
+          >
+            {alreadyAgreed ? t('go.agreed') : t('go.agreeScoring')}
+          </Button>
+          <Button
+            variant="outlined"
+            color="warning"
+            startIcon={<ReplayIcon />}
+            onClick={onReject}
+            fullWidth
+            sx={{ py: 1, fontWeight: 600, textTransform: 'none', fontSize: '0.85rem', borderRadius: 2 }}
+          >
+            {t('go.resumePlay')}
+          </Button>
+        </Stack>
+      )}
     </Paper>
   );
 });
@@ -1,15 +1,21 @@
 /**
- * GoTimerDisplay — Shows main time and byoyomi countdown for a player.
+ * GoTimerDisplay — Shows main time and the overtime countdown for a player
+ * (byoyomi periods, Canadian stones per block, or the Fischer increment).
  * Centered, prominent timer with clear visual states.
  */
 import React from 'react';
 import { Box, Typography } from '@mui/material';
 import { keyframes } from '@mui/system';
+import { useLanguage } from '../../../i18n';
+import { GoTimeSystem } from '../go-types';
 
 interface GoTimerDisplayProps {
   mainTimeLeft: number;
   byoyomiPeriodsLeft: number;
-  byoyomiTime: number;
+  periodTimeLeft: number;
+  stonesLeft: number;
+  timeSystem: GoTimeSystem;
+  fischerIncrement: number;
   isActive: boolean;
   timerEnabled: boolean;
 }
@@ -29,18 +35,29 @@ function formatMM_SS(seconds: number): string {
 const GoTimerDisplay: React.FC<GoTimerDisplayProps> = React.memo(({
   mainTimeLeft,
   byoyomiPeriodsLeft,
-  byoyomiTime,
+  periodTimeLeft,
+  stonesLeft,
+  timeSystem,
+  fischerIncrement,
   isActive,
   timerEnabled,
 }) => {
+  const { t } = useLanguage();
   if (!timerEnabled) return null;
 
-  const inByoyomi = mainTimeLeft <= 0 && byoyomiPeriodsLeft > 0;
-  const isCritical = isActive && (mainTimeLeft < 10 || (inByoyomi && byoyomiTime < 10));
-  const isWarning = isActive && !isCritical && (mainTimeLeft < 60 || inByoyomi);
+  const inOvertime = mainTimeLeft <= 0 && (
+    (timeSystem === 'byoyomi' && byoyomiPeriodsLeft > 0) || timeSystem === 'canadian'
+  );
+  const isCritical = isActive && (inOvertime ? periodTimeLeft < 10 : mainTimeLeft < 10);
+  const isWarning = isActive && !isCritical && (mainTimeLeft < 60 || inOvertime);
 
   const color = isCritical ? 'error.main' : isWarning ? 'warning.main' : 'text.primary';
 
+  let overtimeLabel: string | null = null;
+  if (timeSystem === 'byoyomi' && inOvertime) overtimeLabel = `x${byoyomiPeriodsLeft}`;
+  if (timeSystem === 'canadian' && inOvertime) overtimeLabel = t('go.timer.stonesLeft', { count: stonesLeft });
+  if (timeSystem === 'fischer') overtimeLabel = `+${fischerIncrement}s`;
+
   return (
     <Box
       sx={{
@@ -50,7 +67,7 @@ const GoTimerDisplay: React.FC<GoTimerDisplayProps> = React.memo(({
         py: 0.5,
       }}
     >
-      {inByoyomi ? (
+      {inOvertime ? (
         <>
           <Typography
             variant="h5"
@@ -62,25 +79,32 @@ const GoTimerDisplay: React.FC<GoTimerDisplayProps> = React.memo(({
               lineHeight: 1.2,
             }}
           >
-            {byoyomiTime}s
+            {timeSystem === 'canadian' ? formatMM_SS(periodTimeLeft) : `${Math.max(0, Math.ceil(periodTimeLeft))}s`}
           </Typography>
           <Typography variant="caption" color="text.secondary" sx={{ mt: 0.25 }}>
-            x{byoyomiPeriodsLeft}
+            {overtimeLabel}
           </Typography>
         </>
       ) : (
-        <Typography
-          variant="h5"
-          fontWeight="bold"
-          sx={{
-            color,
-            animation: isCritical && isActive ? `${pulseAnim} 0.8s ease-in-out infinite` : 'none',
-            fontVariantNumeric: 'tabular-nums',
-            lineHeight: 1.2,
-          }}
-        >
-          {formatMM_SS(mainTimeLeft)}
-        </Typography>
+        <>
+          <Typography
+            variant="h5"
+            fontWeight="bold"
+            sx={{
+              color,
+              animation: isCritical && isActive ? `${pulseAnim} 0.8s ease-in-out infinite` : 'none',
+              fontVariantNumeric: 'tabular-nums',
+              lineHeight: 1.2,
+            }}
+          >
+            {formatMM_SS(mainTimeLeft)}
+          </Typography>
+          {overtimeLabel && (
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 0.25 }}>
+              {overtimeLabel}
+            </Typography>
+          )}
+        </>
       )}
     </Box>
   );
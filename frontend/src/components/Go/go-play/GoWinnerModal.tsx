@@ -16,6 +16,7 @@ import {
 import EmojiEventsIcon from '@mui/icons-material/EmojiEvents';
 import { useLanguage } from '../../../i18n';
 import { GoWinner, GoWinReason, GoScore, GoPlayer } from '../go-types';
+import GoScoreBreakdown from './GoScoreBreakdown';
 
 interface GoWinnerModalProps {
   open: boolean;
@@ -26,6 +27,7 @@ interface GoWinnerModalProps {
   mySlot: number | null;
   isHost: boolean;
   onNewGame: () => void;
+  onReview: () => void;
   onLeave: () => void;
   onDismiss: () => void;
 }
@@ -39,6 +41,7 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
   mySlot,
   isHost,
   onNewGame,
+  onReview,
   onLeave,
   onDismiss,
 }) => {
@@ -63,7 +66,9 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
             sx={{ fontSize: 48, color: isWinner ? 'warning.main' : 'text.secondary' }}
           />
           <Typography variant="h5" fontWeight="bold">
-            {isWinner ? t('go.youWin') : t('go.youLose')}
+            {mySlot === null
+              ? t('spectator.gameOver')
+              : isWinner ? t('go.youWin') : t('go.youLose')}
           </Typography>
         </Stack>
       </DialogTitle>
@@ -83,7 +88,7 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
               <Divider sx={{ width: '100%' }} />
               <Box sx={{ width: '100%' }}>
                 <Typography variant="subtitle2" textAlign="center" mb={1} color="text.secondary">
-                  {t('go.finalScore')}
+                  {t('go.finalScore')} · {t(`go.rulesets.${finalScore.ruleset || 'chinese'}`)}
                 </Typography>
                 <Stack direction="row" justifyContent="space-around">
                   <Stack alignItems="center">
@@ -99,12 +104,7 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
                     <Typography variant="caption" color="text.secondary">
                       {t('go.black')}
                     </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      {t('go.territory')}: {finalScore.black.territory}
-                    </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      {t('go.captures')}: {finalScore.black.captures}
-                    </Typography>
+                    <GoScoreBreakdown score={finalScore} color="black" />
                   </Stack>
                   <Stack alignItems="center">
                     <Box
@@ -119,12 +119,7 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
                     <Typography variant="caption" color="text.secondary">
                       {t('go.white')}
                     </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      {t('go.territory')}: {finalScore.white.territory}
-                    </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      Komi: {finalScore.white.komi}
-                    </Typography>
+                    <GoScoreBreakdown score={finalScore} color="white" />
                   </Stack>
                 </Stack>
               </Box>
@@ -139,6 +134,9 @@ const GoWinnerModal: React.FC<GoWinnerModalProps> = React.memo(({
             {t('go.newGame')}
           </Button>
         )}
+        <Button variant="outlined" onClick={onReview}>
+          {t('go.review.start')}
+        </Button>
         <Button variant="outlined" color="error" onClick={onLeave}>
           {t('go.leaveRoom')}
         </Button>
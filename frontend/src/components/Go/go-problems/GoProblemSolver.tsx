@@ -0,0 +1,157 @@
+/**
+ * GoProblemSolver — Plays through one tsumego against the server.
+ * Every click sends the solver's moves so far; the server checks them with the Go engine
+ * and answers with the opponent's reply, so the board only changes on a legal move.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { Box, Stack, Typography, Button, Chip, Alert, CircularProgress } from '@mui/material';
+import ReplayIcon from '@mui/icons-material/Replay';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
+import { useLanguage } from '../../../i18n';
+import { useToast } from '../../../contexts/ToastContext';
+import { goApi } from '../../../services/api';
+import { logger } from '../../../utils/logger';
+import { GoMark, GoProblem, GoProblemAttemptResult, GoReviewNode } from '../go-types';
+import GoReviewBoard from '../go-review/GoReviewBoard';
+
+const GO_ACCENT = '#2c3e50';
+const NO_MARKS: GoMark[] = [];
+
+/** Toast keys for rejected moves; engine codes reuse the play-time messages */
+const PROBLEM_ERROR_KEYS: Record<string, string> = {
+  GO_CELL_OCCUPIED: 'go.errors.occupied',
+  GO_KO_VIOLATION: 'go.errors.ko',
+  GO_SUICIDE: 'go.errors.suicide',
+  GO_SUPERKO_VIOLATION: 'go.errors.superko',
+};
+
+type SolveStatus = 'solving' | 'correct' | 'wrong';
+
+interface GoProblemSolverProps {
+  problem: GoProblem;
+  onResult: (problemId: string, result: GoProblemAttemptResult) => void;
+  onNext?: () => void;
+}
+
+const GoProblemSolver: React.FC<GoProblemSolverProps> = ({ problem, onResult, onNext }) => {
+  const { t } = useLanguage();
+  const toast = useToast();
+  const [board, setBoard] = useState<number[][]>(() => problem.board.map(row => [...row]));
+  const [moves, setMoves] = useState<{ row: number; col: number }[]>([]);
+  const [lastMove, setLastMove] = useState<GoReviewNode['move']>(null);
+  const [status, setStatus] = useState<SolveStatus>('solving');
+  const [comment, setComment] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const reset = useCallback(() => {
+    setBoard(problem.board.map(row => [...row]));
+    setMoves([]);
+    setLastMove(null);
+    setStatus('solving');
+    setComment(null);
+  }, [problem]);
+
+  useEffect(() => { reset(); }, [reset]);
+
+  const solverColor = problem.toPlay;
+  const opponentColor = solverColor === 'black' ? 'white' : 'black';
+
+  const handlePoint = useCallback(async (row: number, col: number) => {
+    if (status !== 'solving' || pending || board[row]?.[col] !== 0) return;
+    const attempt = [...moves, { row, col }];
+    setPending(true);
+    try {
+      const result = await goApi.submitProblemAttempt(problem.id, attempt);
+
+      const next = board.map(r => [...r]);
+      next[row][col] = solverColor === 'black' ? 1 : 2;
+      for (const pos of result.captures) next[pos.row][pos.col] = 0;
+      if (result.reply) {
+        next[result.reply.row][result.reply.col] = opponentColor === 'black' ? 1 : 2;
+        for (const pos of result.reply.captures) next[pos.row][pos.col] = 0;
+      }
+
+      setBoard(next);
+      setMoves(attempt);
+      setLastMove(result.reply
+        ? { ...result.reply, color: opponentColor, isPass: false }
+        : { row, col, color: solverColor, captures: result.captures, isPass: false });
+      setComment(result.comment);
+      if (result.status !== 'continue') {
+        setStatus(result.status);
+        onResult(problem.id, result);
+      }
+    } catch (error: any) {
+      const code = error?.response?.data?.message;
+      if (!PROBLEM_ERROR_KEYS[code]) logger.error('[GoProblemSolver] Attempt failed:', error);
+      toast.error(PROBLEM_ERROR_KEYS[code] || 'go.problems.checkFailed');
+    } finally {
+      setPending(false);
+    }
+  }, [status, pending, board, moves, problem.id, solverColor, opponentColor, onResult, toast]);
+
+  const colorLabel = t(solverColor === 'black' ? 'go.black' : 'go.white');
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1.5, maxWidth: 520, mx: 'auto' }}>
+        <Typography variant="body2" sx={{ fontWeight: 700, color: GO_ACCENT }}>
+          {solverColor === 'black' ? '⚫' : '⚪'} {t(`go.problems.goals.${problem.goal}`, { color: colorLabel })}
+        </Typography>
+        <Chip size="small" label={t(`go.problems.difficulty.${problem.difficulty}`)} variant="outlined" />
+      </Stack>
+
+      <Box sx={{ maxWidth: 520, mx: 'auto', position: 'relative' }}>
+        <GoReviewBoard
+          board={board}
+          boardSize={problem.boardSize}
+          move={lastMove}
+          marks={NO_MARKS}
+          nextColor={solverColor}
+          placing={status === 'solving'}
+          onPoint={handlePoint}
+        />
+        {pending && (
+          <CircularProgress size={28} sx={{ position: 'absolute', top: 12, right: 12, color: GO_ACCENT }} />
+        )}
+      </Box>
+
+      <Box sx={{ maxWidth: 520, mx: 'auto', mt: 1.5 }}>
+        {status === 'correct' && <Alert severity="success">{t('go.problems.correct')}</Alert>}
+        {status === 'wrong' && <Alert severity="error">{t('go.problems.wrong')}</Alert>}
+        {status === 'solving' && moves.length > 0 && <Alert severity="info">{t('go.problems.keepGoing')}</Alert>}
+        {comment && (
+          <Typography variant="body2" sx={{ mt: 1, color: 'text.secondary' }}>
+            {t(comment)}
+          </Typography>
+        )}
+        <Stack direction="row" spacing={1} justifyContent="center" sx={{ mt: 1.5 }}>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<ReplayIcon />}
+            onClick={reset}
+            disabled={pending || moves.length === 0}
+            sx={{ textTransform: 'none', fontWeight: 600 }}
+          >
+            {t('go.problems.retry')}
+          </Button>
+          {onNext && (
+            <Button
+              size="small"
+              variant="contained"
+              endIcon={<NavigateNextIcon />}
+              onClick={onNext}
+              disabled={pending}
+              sx={{ textTransform: 'none', fontWeight: 600, bgcolor: GO_ACCENT }}
+            >
+              {t('go.problems.next')}
+            </Button>
+          )}
+        </Stack>
+      </Box>
+    </Box>
+  );
+};
+
+export default GoProblemSolver;
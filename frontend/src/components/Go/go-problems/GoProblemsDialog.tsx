@@ -0,0 +1,205 @@
+/**
+ * GoProblemsDialog — Built-in tsumego grouped by difficulty, opening into GoProblemSolver.
+ * Signed-in players see their solved problems; guests can solve without saving progress.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, IconButton, Typography, Button,
+  Box, Stack, Chip, CircularProgress, List, ListItemButton,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import ExtensionIcon from '@mui/icons-material/Extension';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { useLanguage } from '../../../i18n';
+import { useToast } from '../../../contexts/ToastContext';
+import { useAuth } from '../../../contexts/AuthContext';
+import { goApi } from '../../../services/api';
+import { logger } from '../../../utils/logger';
+import { GoProblem, GoProblemAttemptResult, GoProblemDifficulty, GoProblemSummary } from '../go-types';
+import GoProblemSolver from './GoProblemSolver';
+
+const GO_ACCENT = '#2c3e50';
+const DIFFICULTIES: GoProblemDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+interface GoProblemsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const GoProblemsDialog: React.FC<GoProblemsDialogProps> = ({ open, onClose }) => {
+  const { t } = useLanguage();
+  const toast = useToast();
+  const { isAuthenticated } = useAuth();
+  const [problems, setProblems] = useState<GoProblemSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<GoProblem | null>(null);
+  const [loadingProblemId, setLoadingProblemId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      loadProblems();
+    } else {
+      setProblems([]);
+      setSelected(null);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const loadProblems = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const data = await goApi.getProblems();
+      setProblems(data.problems || []);
+    } catch (error: any) {
+      logger.error('[GoProblemsDialog] Failed to load problems:', error);
+      toast.error('go.problems.loadFailed');
+      setProblems([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openProblem = async (id: string): Promise<void> => {
+    setLoadingProblemId(id);
+    try {
+      setSelected(await goApi.getProblem(id));
+    } catch (error: any) {
+      logger.error('[GoProblemsDialog] Failed to load problem:', error);
+      toast.error('go.problems.loadFailed');
+    } finally {
+      setLoadingProblemId(null);
+    }
+  };
+
+  // Mirror the server's progress record so the list is current when going back
+  const handleResult = useCallback((problemId: string, result: GoProblemAttemptResult) => {
+    setProblems(prev => prev.map(p => (p.id === problemId
+      ? { ...p, attempts: p.attempts + 1, solved: result.solved ?? (p.solved || result.status === 'correct') }
+      : p)));
+  }, []);
+
+  const selectedIndex = selected ? problems.findIndex(p => p.id === selected.id) : -1;
+  const nextProblem = selectedIndex >= 0 ? problems[selectedIndex + 1] : undefined;
+  const solvedCount = problems.filter(p => p.solved).length;
+
+  const renderList = () => {
+    if (loading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress sx={{ color: GO_ACCENT }} />
+        </Box>
+      );
+    }
+
+    if (problems.length === 0) {
+      return (
+        <Typography variant="body1" sx={{ textAlign: 'center', py: 6, fontWeight: 600, color: GO_ACCENT }}>
+          {t('go.problems.empty')}
+        </Typography>
+      );
+    }
+
+    return (
+      <Box>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 1.5 }}>
+          {isAuthenticated
+            ? t('go.problems.solvedCount', { solved: solvedCount, total: problems.length })
+            : t('go.problems.guestHint')}
+        </Typography>
+        {DIFFICULTIES.map(difficulty => {
+          const group = problems.filter(p => p.difficulty === difficulty);
+          if (group.length === 0) return null;
+          return (
+            <Box key={difficulty} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 700, color: GO_ACCENT, mb: 0.5 }}>
+                {t(`go.problems.difficulty.${difficulty}`)}
+              </Typography>
+              <List disablePadding>
+                {group.map(problem => (
+                  <ListItemButton
+                    key={problem.id}
+                    onClick={() => openProblem(problem.id)}
+                    disabled={loadingProblemId !== null}
+                    sx={{ borderRadius: 2, mb: 1, border: '1px solid rgba(44, 62, 80, 0.12)' }}
+                  >
+                    <Stack direction="row" alignItems="center" spacing={1.5} sx={{ width: '100%' }}>
+                      <Box sx={{ flex: 1, minWidth: 0 }}>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+                          {t(problem.titleKey)}
+                        </Typography>
+                        <Typography variant="caption" sx={{ color: 'text.secondary' }} noWrap component="div">
+                          {problem.toPlay === 'black' ? '⚫' : '⚪'}{' '}
+                          {t(`go.problems.goals.${problem.goal}`, {
+                            color: t(problem.toPlay === 'black' ? 'go.black' : 'go.white'),
+                          })}
+                        </Typography>
+                      </Box>
+                      {isAuthenticated && problem.attempts > 0 && !problem.solved && (
+                        <Typography variant="caption" sx={{ color: 'text.secondary', flexShrink: 0 }}>
+                          {t('go.problems.attempts', { count: problem.attempts })}
+                        </Typography>
+                      )}
+                      {problem.solved && (
+                        <Chip
+                          size="small"
+                          icon={<CheckCircleIcon />}
+                          label={t('go.problems.solved')}
+                          sx={{ bgcolor: '#a8e6cf', fontWeight: 700 }}
+                        />
+                      )}
+                      {loadingProblemId === problem.id && <CircularProgress size={18} sx={{ color: GO_ACCENT }} />}
+                    </Stack>
+                  </ListItemButton>
+                ))}
+              </List>
+            </Box>
+          );
+        })}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3, maxHeight: '92vh' } }}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, pb: 1 }}>
+        {selected ? (
+          <Button
+            size="small"
+            startIcon={<ArrowBackIcon />}
+            onClick={() => setSelected(null)}
+            sx={{ textTransform: 'none', fontWeight: 600, color: GO_ACCENT }}
+          >
+            {t('history.backToList')}
+          </Button>
+        ) : (
+          <ExtensionIcon sx={{ color: GO_ACCENT, fontSize: 22 }} />
+        )}
+        <Typography variant="h6" sx={{ fontWeight: 700, flex: 1, color: GO_ACCENT }} noWrap>
+          {selected ? t(selected.titleKey) : t('go.problems.title')}
+        </Typography>
+        <IconButton onClick={onClose} size="small">
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 1 }}>
+        {selected ? (
+          <GoProblemSolver
+            problem={selected}
+            onResult={handleResult}
+            onNext={nextProblem ? () => openProblem(nextProblem.id) : undefined}
+          />
+        ) : renderList()}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GoProblemsDialog;
@@ -0,0 +1,155 @@
+/**
+ * GoReviewBoard — Canvas board for the review view.
+ * Clicks either play a variation stone or toggle a mark, depending on the active tool.
+ */
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { Box } from '@mui/material';
+import { GoBoardSize, GoColor, GoMark, GoReviewNode } from '../go-types';
+import { computeRenderConfig, pixelToIntersection, renderFullBoard } from '../go-canvas-renderer';
+
+interface GoReviewBoardProps {
+  board: number[][];
+  boardSize: GoBoardSize;
+  move: GoReviewNode['move'];
+  marks: GoMark[];
+  nextColor: GoColor;
+  placing: boolean;     // true when clicks play stones, false when they toggle marks
+  onPoint: (row: number, col: number) => void;
+}
+
+const GoReviewBoard: React.FC<GoReviewBoardProps> = React.memo(({
+  board,
+  boardSize,
+  move,
+  marks,
+  nextColor,
+  placing,
+  onPoint,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isTouchRef = useRef(false);
+  const [hover, setHover] = useState<{ row: number; col: number } | null>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const displayW = canvas.offsetWidth;
+    const displayH = canvas.offsetHeight;
+    if (!displayW || !displayH) return;
+
+    if (canvas.width !== Math.round(displayW * dpr) || canvas.height !== Math.round(displayH * dpr)) {
+      canvas.width = Math.round(displayW * dpr);
+      canvas.height = Math.round(displayH * dpr);
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(dpr, dpr);
+
+    // A mark on the last stone replaces the last-move dot
+    const showLastMove = move && !move.isPass && !marks.some(m => m.row === move.row && m.col === move.col);
+
+    renderFullBoard(ctx, {
+      config: computeRenderConfig(displayW, displayH, boardSize, dpr),
+      board,
+      lastMove: showLastMove
+        ? { row: move.row, col: move.col, color: move.color === 'black' ? 1 : 2 }
+        : null,
+      captures: move?.captures ?? null,
+      marks,
+      hover: hover && placing && board[hover.row]?.[hover.col] === 0
+        ? { row: hover.row, col: hover.col, color: nextColor === 'black' ? 1 : 2 }
+        : null,
+    });
+  }, [board, boardSize, move, marks, nextColor, placing, hover]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let rafId = 0;
+    const observer = new ResizeObserver(() => {
+      cancelAnimationFrame(rafId);
+      rafId = requestAnimationFrame(draw);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(rafId);
+    };
+  }, [draw]);
+
+  useEffect(() => {
+    const rafId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(rafId);
+  }, [draw]);
+
+  const getIntersection = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    const config = computeRenderConfig(canvas.offsetWidth, canvas.offsetHeight, boardSize, window.devicePixelRatio || 1);
+    return pixelToIntersection(clientX - rect.left, clientY - rect.top, config, boardSize);
+  }, [boardSize]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isTouchRef.current) return;
+    const pos = getIntersection(e.clientX, e.clientY);
+    if (pos) onPoint(pos.row, pos.col);
+  }, [getIntersection, onPoint]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isTouchRef.current) return;
+    const pos = getIntersection(e.clientX, e.clientY);
+    setHover(prev => {
+      if (!pos) return null;
+      return prev && prev.row === pos.row && prev.col === pos.col ? prev : pos;
+    });
+  }, [getIntersection]);
+
+  const handleTouchStart = useCallback(() => {
+    isTouchRef.current = true;
+    setHover(null);
+  }, []);
+
+  const handleTouchEnd = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const touch = e.changedTouches[0];
+    if (!touch) return;
+    const pos = getIntersection(touch.clientX, touch.clientY);
+    if (pos) onPoint(pos.row, pos.col);
+  }, [getIntersection, onPoint]);
+
+  return (
+    <Box ref={containerRef} sx={{ width: '100%', maxWidth: 700, aspectRatio: '1', mx: 'auto' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'block',
+          touchAction: 'none',
+          cursor: placing ? 'pointer' : 'crosshair',
+          borderRadius: 4,
+          boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+        }}
+        onClick={handleClick}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+      />
+    </Box>
+  );
+});
+
+GoReviewBoard.displayName = 'GoReviewBoard';
+
+export default GoReviewBoard;
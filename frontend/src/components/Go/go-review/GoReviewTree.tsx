@@ -0,0 +1,106 @@
+/**
+ * GoReviewTree — The line through the current position as clickable moves,
+ * plus the variations that branch off the current position.
+ */
+import React, { useEffect, useRef } from 'react';
+import { Box, Stack, Typography, Chip } from '@mui/material';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import { useLanguage } from '../../../i18n';
+import { GoBoardSize, GoReview, GoReviewNode } from '../go-types';
+import { COORD_LABELS } from '../go-constants';
+import { lineEnd, reviewPath } from './review-tree';
+
+interface GoReviewTreeProps {
+  review: GoReview;
+  currentId: string;
+  boardSize: GoBoardSize;
+  onSelect: (nodeId: string) => void;
+}
+
+/** "B D4" / "W pass" */
+export function formatReviewMove(node: GoReviewNode, boardSize: number, passLabel: string): string {
+  if (!node.move) return '';
+  const color = node.move.color === 'black' ? 'B' : 'W';
+  if (node.move.isPass) return `${color} ${passLabel}`;
+  return `${color} ${COORD_LABELS[node.move.col]}${boardSize - node.move.row}`;
+}
+
+const GoReviewTree: React.FC<GoReviewTreeProps> = ({ review, currentId, boardSize, onSelect }) => {
+  const { t } = useLanguage();
+  const currentRef = useRef<HTMLDivElement>(null);
+
+  const line = reviewPath(review, lineEnd(review, currentId)).slice(1);
+  const current = review.nodes[currentId];
+  const variations = current ? current.children.map(id => review.nodes[id]).filter(Boolean) : [];
+
+  // Keep the current move in view as the position changes
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentId]);
+
+  return (
+    <Stack spacing={1.5}>
+      <Box>
+        <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary' }}>
+          {t('go.review.moves')}
+        </Typography>
+        <Box
+          sx={{
+            maxHeight: 220,
+            overflowY: 'auto',
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: 0.5,
+            mt: 0.5,
+            p: 1,
+            borderRadius: 2,
+            bgcolor: 'rgba(44,62,80,0.04)',
+          }}
+        >
+          <Chip
+            size="small"
+            label={t('go.history.startPosition')}
+            onClick={() => onSelect(review.rootId)}
+            color={currentId === review.rootId ? 'primary' : 'default'}
+            variant={currentId === review.rootId ? 'filled' : 'outlined'}
+          />
+          {line.map(node => (
+            <Chip
+              key={node.id}
+              ref={node.id === currentId ? currentRef : undefined}
+              size="small"
+              icon={node.children.length > 1 ? <CallSplitIcon sx={{ fontSize: 14 }} /> : undefined}
+              label={`${node.moveNumber}. ${formatReviewMove(node, boardSize, t('go.pass'))}`}
+              onClick={() => onSelect(node.id)}
+              color={node.id === currentId ? 'primary' : 'default'}
+              variant={node.id === currentId ? 'filled' : 'outlined'}
+              sx={{ fontFamily: 'monospace', fontStyle: node.isMainLine ? 'normal' : 'italic' }}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      {variations.length > 1 && (
+        <Box>
+          <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary' }}>
+            {t('go.review.variations')}
+          </Typography>
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+            {variations.map((node, i) => (
+              <Chip
+                key={node.id}
+                size="small"
+                label={`${i === 0 ? t('go.review.continuation') : String.fromCharCode(64 + i)}: ${formatReviewMove(node, boardSize, t('go.pass'))}`}
+                onClick={() => onSelect(node.id)}
+                variant="outlined"
+                sx={{ fontFamily: 'monospace' }}
+              />
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Stack>
+  );
+};
+
+export default GoReviewTree;
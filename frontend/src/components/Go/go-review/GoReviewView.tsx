@@ -0,0 +1,289 @@
+/**
+ * GoReviewView — Shared review of a finished game.
+ * Everyone steps through the move tree, branches variations and annotates positions;
+ * followers' boards track the leader until they browse on their own.
+ */
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box, Stack, Typography, Button, IconButton, Tooltip, TextField, Switch, FormControlLabel,
+  ToggleButtonGroup, ToggleButton, useTheme, useMediaQuery,
+} from '@mui/material';
+import FirstPageIcon from '@mui/icons-material/FirstPage';
+import LastPageIcon from '@mui/icons-material/LastPage';
+import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import FlagIcon from '@mui/icons-material/Flag';
+import { useLanguage } from '../../../i18n';
+import { useMainLayout } from '../../MainLayout/MainLayoutContext';
+import { useGo } from '../GoContext';
+import { GoMark, GoMarkType } from '../go-types';
+import GoReviewBoard from './GoReviewBoard';
+import GoReviewTree, { formatReviewMove } from './GoReviewTree';
+import { buildReviewBoard, lineEnd, nextMarkLetter, nextReviewColor } from './review-tree';
+
+type ReviewTool = 'play' | GoMarkType;
+
+const TOOLS: { id: ReviewTool; symbol: string }[] = [
+  { id: 'play', symbol: '●' },
+  { id: 'triangle', symbol: '△' },
+  { id: 'square', symbol: '□' },
+  { id: 'circle', symbol: '○' },
+  { id: 'letter', symbol: 'A' },
+];
+
+const GO_ACCENT = '#2c3e50';
+
+const panelBtnSx = {
+  py: 1,
+  fontWeight: 600,
+  textTransform: 'none' as const,
+  fontSize: '0.85rem',
+  borderRadius: 2,
+};
+
+const GoReviewView: React.FC = () => {
+  const {
+    state,
+    isReviewLeader,
+    closeReview,
+    reviewGoTo,
+    reviewPlay,
+    reviewPass,
+    annotateReview,
+    takeReviewLead,
+    endReview,
+    setFollowLeader,
+  } = useGo();
+  const { t } = useLanguage();
+  const { setFullscreen } = useMainLayout();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const [tool, setTool] = useState<ReviewTool>('play');
+
+  useEffect(() => {
+    setFullscreen(true);
+    return () => { setFullscreen(false); };
+  }, [setFullscreen]);
+
+  const { review, reviewNodeId, followLeader, rules, players } = state;
+  const boardSize = rules?.boardSize ?? 9;
+  const node = review && reviewNodeId ? review.nodes[reviewNodeId] : undefined;
+
+  const board = useMemo(
+    () => (review && node ? buildReviewBoard(review, node.id) : []),
+    [review, node],
+  );
+
+  const [draft, setDraft] = useState('');
+  useEffect(() => {
+    setDraft(node?.comment ?? '');
+  }, [node?.id, node?.comment]);
+
+  const handlePoint = useCallback((row: number, col: number) => {
+    if (!node) return;
+    if (tool === 'play') {
+      reviewPlay(row, col);
+      return;
+    }
+    const existing = node.marks.find(m => m.row === row && m.col === col);
+    const others = node.marks.filter(m => m !== existing);
+    let marks: GoMark[] = others;
+    if (!existing || existing.type !== tool) {
+      marks = [...others, tool === 'letter'
+        ? { row, col, type: tool, label: nextMarkLetter(others) }
+        : { row, col, type: tool }];
+    }
+    annotateReview(node.id, { marks });
+  }, [node, tool, reviewPlay, annotateReview]);
+
+  if (!review || !node) return null;
+
+  const atRoot = node.id === review.rootId;
+  const atEnd = node.children.length === 0;
+  const nameOf = (color: 'black' | 'white') => {
+    const player = players.find(p => p.color === color);
+    return player?.username || player?.guestName || t(color === 'black' ? 'go.black' : 'go.white');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'TEXTAREA') return;
+    if (e.key === 'ArrowLeft' && node.parentId) reviewGoTo(node.parentId);
+    else if (e.key === 'ArrowRight' && node.children.length > 0) reviewGoTo(node.children[0]);
+    else if (e.key === 'Home') reviewGoTo(review.rootId);
+    else if (e.key === 'End') reviewGoTo(lineEnd(review, node.id));
+    else return;
+    e.preventDefault();
+  };
+
+  const positionLabel = node.move
+    ? `${node.moveNumber}. ${formatReviewMove(node, boardSize, t('go.pass'))}`
+    : t('go.history.startPosition');
+
+  const BoardSection = (
+    <Box>
+      <Typography variant="body2" textAlign="center" fontWeight={600} sx={{ mb: 1 }}>
+        {nameOf('black')} ● {t('go.review.versus')} ○ {nameOf('white')}
+      </Typography>
+      <GoReviewBoard
+        board={board}
+        boardSize={boardSize}
+        move={node.move}
+        marks={node.marks}
+        nextColor={nextReviewColor(review, node)}
+        placing={tool === 'play'}
+        onPoint={handlePoint}
+      />
+      <Stack direction="row" justifyContent="center" alignItems="center" spacing={1} sx={{ mt: 1.5 }}>
+        <Tooltip title={t('go.history.first')}>
+          <span>
+            <IconButton onClick={() => reviewGoTo(review.rootId)} disabled={atRoot}><FirstPageIcon /></IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={t('go.history.previous')}>
+          <span>
+            <IconButton onClick={() => node.parentId && reviewGoTo(node.parentId)} disabled={atRoot}>
+              <NavigateBeforeIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="body2" sx={{ minWidth: 96, textAlign: 'center', fontFamily: 'monospace' }}>
+          {positionLabel}
+        </Typography>
+        <Tooltip title={t('go.history.next')}>
+          <span>
+            <IconButton onClick={() => reviewGoTo(node.children[0])} disabled={atEnd}><NavigateNextIcon /></IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={t('go.history.last')}>
+          <span>
+            <IconButton onClick={() => reviewGoTo(lineEnd(review, node.id))} disabled={atEnd}><LastPageIcon /></IconButton>
+          </span>
+        </Tooltip>
+      </Stack>
+      <Stack direction="row" justifyContent="center" alignItems="center" spacing={1.5} sx={{ mt: 1 }}>
+        <ToggleButtonGroup value={tool} exclusive size="small" onChange={(_, v) => v && setTool(v as ReviewTool)}>
+          {TOOLS.map(({ id, symbol }) => (
+            <Tooltip key={id} title={t(`go.review.tools.${id}`)}>
+              <ToggleButton
+                value={id}
+                sx={{ minWidth: 40, fontWeight: 700, '&.Mui-selected': { bgcolor: GO_ACCENT, color: '#fff' } }}
+              >
+                {symbol}
+              </ToggleButton>
+            </Tooltip>
+          ))}
+        </ToggleButtonGroup>
+        <Button size="small" variant="outlined" onClick={reviewPass} sx={{ textTransform: 'none' }}>
+          {t('go.pass')}
+        </Button>
+      </Stack>
+    </Box>
+  );
+
+  const LeaderSection = (
+    <Box sx={{ p: 1.5, borderRadius: 2, border: '1px solid', borderColor: 'divider' }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 700, color: GO_ACCENT, mb: 0.5 }}>
+        {t('go.review.title')}
+      </Typography>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        {isReviewLeader
+          ? t('go.review.youLead')
+          : review.leader
+            ? t('go.review.leader', { name: review.leader.name })
+            : t('go.review.noLeader')}
+      </Typography>
+      {!isReviewLeader && (
+        <FormControlLabel
+          sx={{ mx: 0 }}
+          control={<Switch size="small" checked={followLeader} onChange={e => setFollowLeader(e.target.checked)} />}
+          label={<Typography variant="body2">{t('go.review.follow')}</Typography>}
+        />
+      )}
+      <Stack spacing={1} sx={{ mt: 1 }}>
+        {!isReviewLeader && (
+          <Button size="small" variant="outlined" startIcon={<FlagIcon />} onClick={takeReviewLead} sx={panelBtnSx}>
+            {t('go.review.takeLead')}
+          </Button>
+        )}
+        {isReviewLeader && (
+          <Button size="small" variant="outlined" color="error" onClick={endReview} sx={panelBtnSx}>
+            {t('go.review.end')}
+          </Button>
+        )}
+        <Button size="small" variant="text" startIcon={<ArrowBackIcon />} onClick={closeReview} sx={panelBtnSx}>
+          {t('go.review.backToResult')}
+        </Button>
+      </Stack>
+    </Box>
+  );
+
+  const CommentSection = (
+    <Box>
+      <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary' }}>
+        {t('go.review.comment')}
+      </Typography>
+      <TextField
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={() => draft !== node.comment && annotateReview(node.id, { comment: draft })}
+        placeholder={t('go.review.commentPlaceholder')}
+        multiline
+        minRows={3}
+        maxRows={8}
+        fullWidth
+        size="small"
+        inputProps={{ maxLength: 500 }}
+        sx={{ mt: 0.5 }}
+      />
+    </Box>
+  );
+
+  const TreeSection = (
+    <GoReviewTree review={review} currentId={node.id} boardSize={boardSize} onSelect={reviewGoTo} />
+  );
+
+  if (isMobile) {
+    return (
+      <Box tabIndex={0} onKeyDown={handleKeyDown} sx={{ maxWidth: 520, mx: 'auto', p: { xs: 1.5, sm: 2 }, outline: 'none' }}>
+        <Stack spacing={2}>
+          {BoardSection}
+          {TreeSection}
+          {CommentSection}
+          {LeaderSection}
+        </Stack>
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      sx={{
+        display: 'flex',
+        gap: 4,
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        p: 3,
+        minHeight: '100vh',
+        outline: 'none',
+      }}
+    >
+      <Box sx={{ width: 260, flexShrink: 0, pt: 2 }}>
+        {LeaderSection}
+      </Box>
+      <Box sx={{ flex: '1 1 auto', maxWidth: 700, minWidth: 0, pt: 1 }}>
+        {BoardSection}
+      </Box>
+      <Box sx={{ width: 300, flexShrink: 0, pt: 2 }}>
+        <Stack spacing={2}>
+          {TreeSection}
+          {CommentSection}
+        </Stack>
+      </Box>
+    </Box>
+  );
+};
+
+export default GoReviewView;
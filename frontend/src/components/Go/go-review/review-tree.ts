@@ -0,0 +1,51 @@
+/**
+ * Go review tree helpers — pure functions over GoReview.
+ * Positions are rebuilt client-side from the initial board + each move's captures,
+ * the same way GoReplayViewer does for archived games.
+ */
+import { GoColor, GoMark, GoReview, GoReviewNode } from '../go-types';
+
+/** Nodes from the root down to `nodeId`, root first */
+export function reviewPath(review: GoReview, nodeId: string): GoReviewNode[] {
+  const path: GoReviewNode[] = [];
+  let node: GoReviewNode | undefined = review.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? review.nodes[node.parentId] : undefined;
+  }
+  return path;
+}
+
+export function buildReviewBoard(review: GoReview, nodeId: string): number[][] {
+  const board = review.initialBoard.map(row => [...row]);
+  for (const { move } of reviewPath(review, nodeId)) {
+    if (!move || move.isPass) continue;
+    board[move.row][move.col] = move.color === 'black' ? 1 : 2;
+    for (const pos of move.captures) board[pos.row][pos.col] = 0;
+  }
+  return board;
+}
+
+/** Last node of the line that continues from `nodeId` through first children */
+export function lineEnd(review: GoReview, nodeId: string): string {
+  let node = review.nodes[nodeId];
+  while (node && node.children.length > 0) node = review.nodes[node.children[0]];
+  return node ? node.id : nodeId;
+}
+
+/** Color to play after `node` (the server alternates colors in variations) */
+export function nextReviewColor(review: GoReview, node: GoReviewNode): GoColor {
+  if (node.move) return node.move.color === 'black' ? 'white' : 'black';
+  const first = node.children.length > 0 ? review.nodes[node.children[0]] : undefined;
+  return first?.move?.color ?? 'black';
+}
+
+/** First capital letter not yet used by a letter mark */
+export function nextMarkLetter(marks: GoMark[]): string {
+  const used = new Set(marks.filter(m => m.type === 'letter').map(m => m.label));
+  for (let i = 0; i < 26; i++) {
+    const letter = String.fromCharCode(65 + i);
+    if (!used.has(letter)) return letter;
+  }
+  return 'Z';
+}
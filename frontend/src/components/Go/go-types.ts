@@ -3,30 +3,55 @@
  * Mirrors backend types + UI-specific extensions.
  */
 
+import { SpectatorInfo } from '../../types/socket.types';
+
 // ─── View & Status ───────────────────────────────────────────
-export type GoView = 'lobby' | 'waiting' | 'playing' | 'scoring' | 'result';
+export type GoView = 'lobby' | 'waiting' | 'playing' | 'scoring' | 'result' | 'review';
 export type GoGameStatus = 'waiting' | 'playing' | 'scoring' | 'finished' | 'abandoned';
 export type GoBoardSize = 9 | 13 | 19;
 export type GoColor = 'black' | 'white';
 export type GoWinReason = 'score' | 'resign' | 'timeout';
+export type GoBotLevel = 'easy' | 'medium' | 'hard';
+export type GoTimeSystem = 'byoyomi' | 'canadian' | 'fischer';
+export type GoRuleset = 'chinese' | 'japanese' | 'korean' | 'aga';
+
+/** Komi each ruleset usually plays with; picking a ruleset suggests it */
+export const RULESET_KOMI: Record<GoRuleset, number> = {
+  chinese: 7.5,
+  japanese: 6.5,
+  korean: 6.5,
+  aga: 7.5,
+};
 
 // ─── Settings / Rules ────────────────────────────────────────
 export interface GoRules {
   boardSize: GoBoardSize;
   komi: number;
+  ruleset: GoRuleset;
   handicap: number;
   mainTime: number;      // seconds, 0 = no timer
   byoyomiPeriods: number;
   byoyomiTime: number;
+  timeSystem: GoTimeSystem;
+  canadianStones: number;  // stones per Canadian overtime block
+  canadianTime: number;    // seconds per Canadian overtime block
+  fischerIncrement: number; // seconds added after each move
+  botLevel?: GoBotLevel | null; // play against the built-in bot (9x9 / 13x13 only)
 }
 
 export const DEFAULT_RULES: GoRules = {
   boardSize: 9,
   komi: 6.5,
+  ruleset: 'chinese',
   handicap: 0,
   mainTime: 300,         // 5 min
   byoyomiPeriods: 3,
   byoyomiTime: 30,
+  timeSystem: 'byoyomi',
+  canadianStones: 25,
+  canadianTime: 600,
+  fischerIncrement: 10,
+  botLevel: null,
 };
 
 // ─── Player ──────────────────────────────────────────────────
@@ -40,11 +65,17 @@ export interface GoPlayer {
   captures: number;
   mainTimeLeft: number;
   byoyomiPeriodsLeft: number;
+  periodTimeLeft: number; // seconds left in the current byoyomi period / Canadian block
+  stonesLeft: number;     // stones still due in the current Canadian block
   passed: boolean;
   scoringAgreed: boolean;
   isConnected: boolean;
+  isBot?: boolean;
 }
 
+/** Time bank for one player, as sent in go:timer-update */
+export type GoClockState = Pick<GoPlayer, 'slot' | 'mainTimeLeft' | 'byoyomiPeriodsLeft' | 'periodTimeLeft' | 'stonesLeft'>;
+
 // ─── Move ────────────────────────────────────────────────────
 export interface GoMove {
   row: number;
@@ -57,9 +88,19 @@ export interface GoMove {
 }
 
 // ─── Score ───────────────────────────────────────────────────
+export interface GoScoreSide {
+  territory: number;
+  stones: number;
+  captures: number;     // opponent stones removed as dead
+  prisoners?: number;   // captures during play + dead stones (missing on older games)
+  passStones?: number;  // AGA pass stones received
+  total: number;
+}
+
 export interface GoScore {
-  black: { territory: number; stones: number; captures: number; total: number };
-  white: { territory: number; stones: number; captures: number; komi: number; total: number };
+  ruleset?: GoRuleset;  // missing on older games, which were all Chinese
+  black: GoScoreSide;
+  white: GoScoreSide & { komi: number };
 }
 
 // ─── Winner ──────────────────────────────────────────────────
@@ -77,6 +118,116 @@ export interface TerritoryMap {
   black: string[];    // "row-col" keys
   white: string[];
   neutral: string[];
+  seki?: string[];    // uncounted points inside a seki (also in neutral)
+}
+
+// ─── Archive / Replay ────────────────────────────────────────
+export interface GoHistoryPlayer {
+  slot: 1 | 2;
+  color: GoColor;
+  name: string;
+  captures?: number;
+  isBot: boolean;
+}
+
+export interface GoHistoryEntry {
+  id: string;
+  roomCode: string;
+  settings: GoRules;
+  players: GoHistoryPlayer[];
+  myColor: GoColor | null;
+  result: 'win' | 'loss' | null;
+  winner: GoWinner | null;
+  winReason: GoWinReason | null;
+  finalScore: GoScore | null;
+  moveCount: number;
+  startedAt: string | null;
+  finishedAt: string;
+}
+
+export interface GoHistoryDetail extends Omit<GoHistoryEntry, 'myColor' | 'result'> {
+  initialBoard: number[][];
+  finalBoard: number[][];
+  moveHistory: GoMove[];
+  deadStones: string[];
+  territory: TerritoryMap;
+}
+
+// ─── Problems (Tsumego) ──────────────────────────────────────
+export type GoProblemDifficulty = 'beginner' | 'intermediate' | 'advanced';
+export type GoProblemGoal = 'capture' | 'live' | 'kill' | 'semeai';
+
+export interface GoProblemSummary {
+  id: string;
+  titleKey: string;
+  difficulty: GoProblemDifficulty;
+  goal: GoProblemGoal;
+  toPlay: GoColor;
+  boardSize: GoBoardSize;
+  attempts: number;     // signed-in users only, 0 for guests
+  solved: boolean;
+}
+
+export interface GoProblem {
+  id: string;
+  titleKey: string;
+  difficulty: GoProblemDifficulty;
+  goal: GoProblemGoal;
+  boardSize: GoBoardSize;
+  board: number[][];
+  toPlay: GoColor;
+}
+
+export interface GoProblemAttemptResult {
+  status: 'correct' | 'wrong' | 'continue';
+  captures: { row: number; col: number }[];
+  reply: { row: number; col: number; captures: { row: number; col: number }[] } | null;
+  comment: string | null;   // i18n key
+  solved: boolean | null;   // null for guests
+}
+
+// ─── Review Board ────────────────────────────────────────────
+export type GoMarkType = 'triangle' | 'square' | 'circle' | 'letter';
+
+export interface GoMark {
+  row: number;
+  col: number;
+  type: GoMarkType;
+  label?: string;       // letter marks only
+}
+
+/** A position in the review tree; the root (move = null) is the starting position */
+export interface GoReviewNode {
+  id: string;
+  parentId: string | null;
+  move: Pick<GoMove, 'row' | 'col' | 'color' | 'captures' | 'isPass'> | null;
+  moveNumber: number;
+  isMainLine: boolean;
+  comment: string;
+  marks: GoMark[];
+  children: string[];   // first child continues the line, the rest are variations
+}
+
+export interface GoReviewer {
+  id: string;
+  name: string;
+}
+
+export interface GoReview {
+  initialBoard: number[][];
+  rootId: string;
+  nodes: Record<string, GoReviewNode>;
+  leaderNodeId: string; // where the leader is; followers show this node
+  leader: GoReviewer | null;
+}
+
+/** go:review-state payload — nodes arrive as a flat list */
+export interface GoReviewSnapshot {
+  initialBoard: number[][];
+  rootId: string;
+  nodes: GoReviewNode[];
+  currentId: string;
+  leader: GoReviewer | null;
 }
 
 // ─── Waiting Room ────────────────────────────────────────────
@@ -128,6 +279,8 @@ export interface GoState {
   mySlot: number | null;
   hasPassword: boolean;
   gameStatus: GoGameStatus;
+  isSpectator: boolean;           // watching read-only, no seat
+  spectators: SpectatorInfo[];    // initial list from join; live updates come via useSpectators
 
   // Game board
   board: number[][];          // 2D array of GoCell (0/1/2)
@@ -154,6 +307,11 @@ export interface GoState {
   // Undo
   pendingUndo: GoUndoRequest | null;
 
+  // Review (finished games)
+  review: GoReview | null;
+  reviewNodeId: string | null;    // the position this client is looking at
+  followLeader: boolean;
+
   // Chat/Reactions
   chatMessages: GoChatMessage[];
   reactions: GoReaction[];
@@ -169,7 +327,7 @@ export type GoAction =
   | { type: 'SET_ROOMS'; payload: GoWaitingRoom[] }
   | { type: 'SET_LOADING_ROOMS'; payload: boolean }
   | { type: 'ROOM_CREATED'; payload: { roomId: string; roomCode: string; rules: GoRules; players: GoPlayer[]; hasPassword: boolean } }
-  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; rules: GoRules; players: GoPlayer[]; gameStatus: GoGameStatus; isHost: boolean; mySlot: number; board?: number[][]; currentColor?: GoColor; moveHistory?: GoMove[]; phase?: 'play' | 'scoring'; deadStones?: string[]; territory?: TerritoryMap; score?: GoScore; moveCount?: number } }
+  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; rules: GoRules; players: GoPlayer[]; gameStatus: GoGameStatus; isHost: boolean; mySlot: number | null; board?: number[][]; currentColor?: GoColor; moveHistory?: GoMove[]; phase?: 'play' | 'scoring'; deadStones?: string[]; territory?: TerritoryMap; score?: GoScore; moveCount?: number; isSpectator?: boolean; spectators?: SpectatorInfo[]; winner?: GoWinner | null; winReason?: GoWinReason | null; finalScore?: GoScore | null; review?: GoReviewSnapshot | null } }
   | { type: 'PLAYER_JOINED'; payload: { players: GoPlayer[] } }
   | { type: 'PLAYER_LEFT'; payload: { players: GoPlayer[]; newHostId?: string } }
   | { type: 'GAME_STARTED'; payload: { board: number[][]; currentColor: GoColor; players: GoPlayer[] } }
@@ -180,7 +338,7 @@ export type GoAction =
   | { type: 'SCORING_AGREED'; payload: { slot: number; players: GoPlayer[] } }
   | { type: 'RESUME_PLAY'; payload: { players: GoPlayer[] } }
   | { type: 'GAME_FINISHED'; payload: { winner: GoWinner; winReason: GoWinReason; finalScore: GoScore | null; players: GoPlayer[] } }
-  | { type: 'TIMER_UPDATE'; payload: { players: GoPlayer[] } }
+  | { type: 'TIMER_UPDATE'; payload: { clocks: GoClockState[] } }
   | { type: 'UNDO_REQUESTED'; payload: GoUndoRequest }
   | { type: 'UNDO_RESOLVED'; payload: { approved: boolean; board?: number[][]; currentColor?: GoColor; players?: GoPlayer[]; moveHistory?: GoMove[]; moveCount?: number } }
   | { type: 'GAME_RESET'; payload: { board: number[][]; currentColor: GoColor; players: GoPlayer[] } }
@@ -192,5 +350,14 @@ export type GoAction =
   | { type: 'CLEAR_REACTIONS'; payload: string[] }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_NOTIFICATION'; payload: string | null }
+  | { type: 'REVIEW_STATE'; payload: GoReviewSnapshot }
+  | { type: 'REVIEW_NAVIGATED'; payload: { nodeId: string } }
+  | { type: 'REVIEW_NODE_ADDED'; payload: GoReviewNode }
+  | { type: 'REVIEW_ANNOTATED'; payload: GoReviewNode }
+  | { type: 'REVIEW_LEADER'; payload: GoReviewer | null }
+  | { type: 'REVIEW_GO_TO'; payload: { nodeId: string; followLeader: boolean } }
+  | { type: 'REVIEW_SET_FOLLOW'; payload: boolean }
+  | { type: 'REVIEW_CLOSE' }
+  | { type: 'REVIEW_ENDED' }
   | { type: 'LEAVE_ROOM' }
   | { type: 'DISMISS_RESULT' };
@@ -1,16 +1,24 @@
 /**
- * GameBoardStatic - Static game board viewer for viewing finished games
+ * GameBoardStatic - Static game board viewer for viewing finished games.
+ * During a replay it can also label stones with their move numbers and fade undone moves.
  */
 import React, { useState, useEffect, useRef } from 'react';
 import { Box } from '@mui/material';
 
+export interface StoneAnnotation {
+  number: number;
+  undone: boolean;
+}
+
 interface GameBoardStaticProps {
   board: number[][];
   boardSize: number;
   winningLine?: Array<{ row: number; col: number }>;
+  annotations?: Array<Array<StoneAnnotation | null>>; // move number per cell (replay)
+  lastMove?: { row: number; col: number } | null;
 }
 
-const GameBoardStatic: React.FC<GameBoardStaticProps> = ({ board, boardSize, winningLine }) => {
+const GameBoardStatic: React.FC<GameBoardStaticProps> = ({ board, boardSize, winningLine, annotations, lastMove }) => {
   const [cellSize, setCellSize] = useState(30);
   const boardRef = useRef<HTMLDivElement>(null);
 
@@ -47,27 +55,50 @@ const GameBoardStatic: React.FC<GameBoardStaticProps> = ({ board, boardSize, win
       ref={boardRef}
     >
       {board.map((row, rowIndex) =>
-        row.map((cell, colIndex) => (
-          <Box
-            key={`${rowIndex}-${colIndex}`}
-            sx={{
-              width: `${cellSize}px`,
-              height: `${cellSize}px`,
-              minWidth: `${cellSize}px`,
-              minHeight: `${cellSize}px`,
-              border: '1px solid rgba(126, 200, 227, 0.3)',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              backgroundColor: '#ffffff',
-              fontSize: `${cellSize * 0.65}px`,
-              fontWeight: 800,
-              color: getCellColor(cell),
-            }}
-          >
-            {getCellContent(cell)}
-          </Box>
-        ))
+        row.map((cell, colIndex) => {
+          const annotation = annotations?.[rowIndex]?.[colIndex];
+          const isLastMove = lastMove?.row === rowIndex && lastMove?.col === colIndex;
+          return (
+            <Box
+              key={`${rowIndex}-${colIndex}`}
+              sx={{
+                position: 'relative',
+                width: `${cellSize}px`,
+                height: `${cellSize}px`,
+                minWidth: `${cellSize}px`,
+                minHeight: `${cellSize}px`,
+                border: '1px solid rgba(126, 200, 227, 0.3)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                backgroundColor: isLastMove ? 'rgba(255, 217, 61, 0.35)' : '#ffffff',
+                fontSize: `${cellSize * 0.65}px`,
+                fontWeight: 800,
+                color: getCellColor(cell),
+                opacity: annotation?.undone ? 0.4 : 1,
+              }}
+            >
+              {getCellContent(cell)}
+              {annotation && cell !== 0 && (
+                <Box
+                  component="span"
+                  sx={{
+                    position: 'absolute',
+                    top: 1,
+                    left: 2,
+                    fontSize: `${Math.max(8, cellSize * 0.28)}px`,
+                    fontWeight: 700,
+                    lineHeight: 1,
+                    color: '#5a6a7a',
+                    pointerEvents: 'none',
+                  }}
+                >
+                  {annotation.number}
+                </Box>
+              )}
+            </Box>
+          );
+        })
       )}
       {/* Winning line overlay */}
       {winningLine && winningLine.length >= 5 && (
@@ -1,10 +1,12 @@
 /**
- * GameDetailsPanel - Panel showing game details and board
+ * GameDetailsPanel - Panel showing game details and the move-by-move replay
+ * (or just the final board for games saved before moves were recorded)
  */
 import React from 'react';
 import { Box, Typography, Paper, Chip } from '@mui/material';
 import { GameHistory } from '../../../types/game.types';
 import GameBoardStatic from './GameBoardStatic';
+import GameReplay from './GameReplay';
 
 interface GameDetailsPanelProps {
   game: GameHistory;
@@ -77,21 +79,37 @@ const GameDetailsPanel: React.FC<GameDetailsPanelProps> = ({
           </Box>
         </Box>
       </Paper>
-      <Box
-        sx={{
-          display: 'flex',
-          justifyContent: 'center',
-          bgcolor: 'rgba(255, 255, 255, 0.8)',
-          borderRadius: 3,
-          p: 2,
-        }}
-      >
-        <GameBoardStatic
-          board={game.board}
-          boardSize={game.boardSize}
-          winningLine={game.winningLine}
-        />
-      </Box>
+      {game.moves && game.moves.length > 0 ? (
+        <Box
+          sx={{
+            bgcolor: 'rgba(255, 255, 255, 0.8)',
+            borderRadius: 3,
+            p: 2,
+          }}
+        >
+          <GameReplay moves={game.moves} boardSize={game.boardSize} winningLine={game.winningLine} />
+        </Box>
+      ) : (
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            bgcolor: 'rgba(255, 255, 255, 0.8)',
+            borderRadius: 3,
+            p: 2,
+          }}
+        >
+          <GameBoardStatic
+            board={game.board}
+            boardSize={game.boardSize}
+            winningLine={game.winningLine}
+          />
+          <Typography variant="caption" sx={{ color: '#8a9ba8', mt: 1 }}>
+            {t('history.replay.unavailable')}
+          </Typography>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,192 @@
+/**
+ * GameReplay - Step through a finished Caro game move by move.
+ * Undone moves are part of the timeline (faded) and disappear once the replacing move is played.
+ */
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Box, Stack, Typography, IconButton, Slider, Switch, FormControlLabel, Tooltip } from '@mui/material';
+import FirstPageIcon from '@mui/icons-material/FirstPage';
+import LastPageIcon from '@mui/icons-material/LastPage';
+import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import { useLanguage } from '../../../i18n';
+import { HistoryMove } from '../../../types/game.types';
+import GameBoardStatic, { StoneAnnotation } from './GameBoardStatic';
+
+const PLAY_INTERVAL_MS = 700;
+
+interface ReplayFrame {
+  board: number[][];
+  annotations: Array<Array<StoneAnnotation | null>>;
+}
+
+/** Position after the first `step` moves of the timeline */
+function buildFrame(timeline: HistoryMove[], step: number, boardSize: number): ReplayFrame {
+  const board = Array.from({ length: boardSize }, () => Array<number>(boardSize).fill(0));
+  const annotations: Array<Array<StoneAnnotation | null>> =
+    Array.from({ length: boardSize }, () => Array<StoneAnnotation | null>(boardSize).fill(null));
+  let undoneOnBoard: HistoryMove[] = [];
+
+  for (let i = 0; i < step; i++) {
+    const move = timeline[i];
+    if (!move.isUndone) {
+      // The next real move means the undo has happened - take the undone stones back off
+      for (const u of undoneOnBoard) {
+        board[u.row][u.col] = 0;
+        annotations[u.row][u.col] = null;
+      }
+      undoneOnBoard = [];
+    } else {
+      undoneOnBoard.push(move);
+    }
+    board[move.row][move.col] = move.player;
+    annotations[move.row][move.col] = { number: i + 1, undone: move.isUndone };
+  }
+
+  return { board, annotations };
+}
+
+interface GameReplayProps {
+  moves: HistoryMove[];
+  boardSize: number;
+  winningLine?: Array<{ row: number; col: number }>;
+}
+
+const GameReplay: React.FC<GameReplayProps> = ({ moves, boardSize, winningLine }) => {
+  const { t } = useLanguage();
+  const [showUndone, setShowUndone] = useState(true);
+  const [showNumbers, setShowNumbers] = useState(true);
+  const [playing, setPlaying] = useState(false);
+
+  const hasUndone = moves.some(m => m.isUndone);
+  const timeline = useMemo(
+    () => (showUndone ? moves : moves.filter(m => !m.isUndone)),
+    [moves, showUndone],
+  );
+  const total = timeline.length;
+  const [step, setStep] = useState(total);
+
+  // Toggling undone moves changes the timeline length; keep showing the end position
+  useEffect(() => {
+    setStep(total);
+    setPlaying(false);
+  }, [total]);
+
+  const goTo = useCallback((n: number) => setStep(Math.max(0, Math.min(total, n))), [total]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= total) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, total]);
+
+  const togglePlay = () => {
+    if (!playing && step >= total) setStep(0); // replay from the start
+    setPlaying(p => !p);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') goTo(step - 1);
+    else if (e.key === 'ArrowRight') goTo(step + 1);
+    else if (e.key === 'Home') goTo(0);
+    else if (e.key === 'End') goTo(total);
+    else if (e.key === ' ') togglePlay();
+    else return;
+    e.preventDefault();
+  };
+
+  const frame = useMemo(() => buildFrame(timeline, step, boardSize), [timeline, step, boardSize]);
+  const move = step > 0 ? timeline[step - 1] : null;
+  const atEnd = step === total;
+
+  let moveLabel = t('history.replay.startPosition');
+  if (move) {
+    moveLabel = t('history.replay.moveLabel', { n: step, total, player: move.player === 1 ? '✕' : '○' });
+  }
+
+  return (
+    <Box tabIndex={0} onKeyDown={handleKeyDown} sx={{ outline: 'none' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        <GameBoardStatic
+          board={frame.board}
+          boardSize={boardSize}
+          winningLine={atEnd ? winningLine : undefined}
+          annotations={showNumbers ? frame.annotations : undefined}
+          lastMove={move}
+        />
+      </Box>
+
+      <Stack spacing={1} sx={{ mt: 2, maxWidth: 520, mx: 'auto' }}>
+        <Typography variant="body2" textAlign="center" fontWeight={600} sx={{ color: '#2c3e50' }}>
+          {moveLabel}
+          {move?.isUndone && (
+            <Typography component="span" variant="body2" color="warning.main" sx={{ ml: 1 }}>
+              {t('history.replay.undone')}
+            </Typography>
+          )}
+        </Typography>
+
+        <Slider
+          value={step}
+          min={0}
+          max={total}
+          step={1}
+          onChange={(_, v) => {
+            setPlaying(false);
+            goTo(v as number);
+          }}
+          valueLabelDisplay="auto"
+          sx={{ color: '#7ec8e3' }}
+        />
+
+        <Stack direction="row" justifyContent="center" alignItems="center" spacing={1}>
+          <Tooltip title={t('history.replay.first')}>
+            <span>
+              <IconButton onClick={() => goTo(0)} disabled={step === 0}><FirstPageIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={t('history.replay.previous')}>
+            <span>
+              <IconButton onClick={() => goTo(step - 1)} disabled={step === 0}><NavigateBeforeIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={playing ? t('history.replay.pause') : t('history.replay.play')}>
+            <IconButton onClick={togglePlay} sx={{ color: '#5ba8c7' }}>
+              {playing ? <PauseIcon /> : <PlayArrowIcon />}
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('history.replay.next')}>
+            <span>
+              <IconButton onClick={() => goTo(step + 1)} disabled={atEnd}><NavigateNextIcon /></IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={t('history.replay.last')}>
+            <span>
+              <IconButton onClick={() => goTo(total)} disabled={atEnd}><LastPageIcon /></IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+
+        <Stack direction="row" justifyContent="center" spacing={2} flexWrap="wrap">
+          <FormControlLabel
+            control={<Switch size="small" checked={showNumbers} onChange={e => setShowNumbers(e.target.checked)} />}
+            label={<Typography variant="body2">{t('history.replay.showNumbers')}</Typography>}
+          />
+          {hasUndone && (
+            <FormControlLabel
+              control={<Switch size="small" checked={showUndone} onChange={e => setShowUndone(e.target.checked)} />}
+              label={<Typography variant="body2">{t('history.replay.showUndone')}</Typography>}
+            />
+          )}
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default GameReplay;
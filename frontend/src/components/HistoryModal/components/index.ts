@@ -4,3 +4,4 @@
 export { default as GameBoardStatic } from './GameBoardStatic';
 export { default as HistoryList } from './HistoryList';
 export { default as GameDetailsPanel } from './GameDetailsPanel';
+export { default as GameReplay } from './GameReplay';
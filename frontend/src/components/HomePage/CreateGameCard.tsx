@@ -5,15 +5,25 @@ import React from 'react';
 import { Box, Typography, Button, Paper, Select, MenuItem, FormControl, InputLabel } from '@mui/material';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
+import BoltIcon from '@mui/icons-material/Bolt';
 import { useLanguage } from '../../i18n';
-import { BOARD_SIZES } from '../../utils/constants';
+import { BOARD_SIZES, TIME_CONTROLS, CARO_OPPONENTS, CARO_VARIANTS, CARO_OPENINGS, RENJU_MIN_BOARD_SIZE } from '../../utils/constants';
 
 interface CreateGameCardProps {
   boardSize: number;
   setBoardSize: (size: number) => void;
   blockTwoEnds: boolean;
   setBlockTwoEnds: (block: boolean) => void;
+  timeControl: string;
+  setTimeControl: (id: string) => void;
+  opponent: string;
+  setOpponent: (id: string) => void;
+  variant?: string;
+  setVariant?: (id: string) => void;
+  opening?: string;
+  setOpening?: (id: string) => void;
   onCreateGame: () => void;
+  onQuickMatch?: () => void;
 }
 
 const CreateGameCard: React.FC<CreateGameCardProps> = ({
@@ -21,7 +31,16 @@ const CreateGameCard: React.FC<CreateGameCardProps> = ({
   setBoardSize,
   blockTwoEnds,
   setBlockTwoEnds,
+  timeControl,
+  setTimeControl,
+  opponent,
+  setOpponent,
+  variant,
+  setVariant,
+  opening,
+  setOpening,
   onCreateGame,
+  onQuickMatch,
 }) => {
   const { t } = useLanguage();
 
@@ -108,6 +127,90 @@ const CreateGameCard: React.FC<CreateGameCardProps> = ({
         </Select>
       </FormControl>
 
+      {/* Opponent Select - another player or the bot */}
+      <FormControl fullWidth sx={{ mb: 3 }}>
+        <InputLabel sx={{ fontWeight: 500, color: '#5a6a7a' }}>{t('home.opponent')}</InputLabel>
+        <Select
+          value={opponent}
+          onChange={(e) => setOpponent(String(e.target.value))}
+          label={t('home.opponent')}
+          sx={{
+            borderRadius: 2.5,
+            bgcolor: 'rgba(126, 200, 227, 0.05)',
+          }}
+        >
+          {CARO_OPPONENTS.map((id) => (
+            <MenuItem key={id} value={id}>
+              {t(`home.opponents.${id}`)}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {/* Time Control Select */}
+      <FormControl fullWidth sx={{ mb: 3 }}>
+        <InputLabel sx={{ fontWeight: 500, color: '#5a6a7a' }}>{t('home.timeControl')}</InputLabel>
+        <Select
+          value={timeControl}
+          onChange={(e) => setTimeControl(String(e.target.value))}
+          label={t('home.timeControl')}
+          sx={{
+            borderRadius: 2.5,
+            bgcolor: 'rgba(126, 200, 227, 0.05)',
+          }}
+        >
+          {TIME_CONTROLS.map((preset) => (
+            <MenuItem key={preset.id} value={preset.id}>
+              {t(`home.timeControls.${preset.id}`)}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {/* Rule Variant Select */}
+      {variant !== undefined && setVariant && (
+        <FormControl fullWidth sx={{ mb: 3 }}>
+          <InputLabel sx={{ fontWeight: 500, color: '#5a6a7a' }}>{t('home.variant')}</InputLabel>
+          <Select
+            value={variant}
+            onChange={(e) => setVariant(String(e.target.value))}
+            label={t('home.variant')}
+            sx={{
+              borderRadius: 2.5,
+              bgcolor: 'rgba(126, 200, 227, 0.05)',
+            }}
+          >
+            {CARO_VARIANTS.filter(id => id !== 'renju' || boardSize >= RENJU_MIN_BOARD_SIZE).map((id) => (
+              <MenuItem key={id} value={id}>
+                {t(`home.variants.${id}`)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {/* Opening Select - the bot only plays standard openings */}
+      {opening !== undefined && setOpening && (
+        <FormControl fullWidth sx={{ mb: 3 }} disabled={opponent !== 'human'}>
+          <InputLabel sx={{ fontWeight: 500, color: '#5a6a7a' }}>{t('home.opening')}</InputLabel>
+          <Select
+            value={opponent === 'human' ? opening : 'standard'}
+            onChange={(e) => setOpening(String(e.target.value))}
+            label={t('home.opening')}
+            sx={{
+              borderRadius: 2.5,
+              bgcolor: 'rgba(126, 200, 227, 0.05)',
+            }}
+          >
+            {CARO_OPENINGS.map((id) => (
+              <MenuItem key={id} value={id}>
+                {t(`home.openings.${id}`)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       {/* Block Two Ends Toggle - Modern Switch Style */}
       <Box sx={{ mb: 3 }}>
         <Box
@@ -226,6 +329,33 @@ const CreateGameCard: React.FC<CreateGameCardProps> = ({
       >
         {t('home.createGame')}
       </Button>
+
+      {/* Quick Match Button - queue for an opponent with the same settings */}
+      {onQuickMatch && (
+        <Button
+          variant="outlined"
+          size="large"
+          fullWidth
+          startIcon={<BoltIcon />}
+          onClick={onQuickMatch}
+          sx={{
+            mt: 1.5,
+            py: 1.5,
+            borderRadius: 2.5,
+            textTransform: 'none',
+            fontSize: '1rem',
+            fontWeight: 700,
+            color: '#2c3e50',
+            borderColor: 'rgba(126, 200, 227, 0.6)',
+            '&:hover': {
+              borderColor: '#7ec8e3',
+              bgcolor: 'rgba(126, 200, 227, 0.08)',
+            },
+          }}
+        >
+          {t('matchmaking.quickMatch')}
+        </Button>
+      )}
     </Paper>
   );
 };
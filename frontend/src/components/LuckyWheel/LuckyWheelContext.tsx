@@ -1,10 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, useRef, useMemo } from "react";
-import { luckyWheelApi } from "../../services/api";
+import { luckyWheelApi, LuckyWheelWheel, LuckyWheelWheelsResponse } from "../../services/api";
 import { useAuth } from "../../contexts/AuthContext";
 import { socketService } from "../../services/socketService";
 import { API_BASE_URL } from "../../utils/constants";
-
-type WheelItem = { label: string; weight: number };
+import { getToast } from "../../contexts/ToastContext";
+import { getGuestId } from "../../utils/guestId";
+import { getGuestName } from "../../utils/guestName";
+import { WheelItem, LuckyWheelRoomInfo, LuckyWheelSpinReveal } from "./lucky-wheel-types";
+import { verifySpin, SpinVerification } from "./lucky-wheel-fair";
 
 const STORAGE_KEY = "lucky-wheel-items";
 
@@ -31,6 +34,27 @@ type LuckyWheelContextType = {
   isLoading: boolean;
   colors: string[];
   updateActivity: (immediate?: boolean) => void;
+  // Multiple named wheels, elimination rounds and spin history
+  wheels: LuckyWheelWheel[];
+  activeWheelId: string | null;
+  activeWheel: LuckyWheelWheel | null;
+  eliminated: number[];
+  createWheel: (name: string) => Promise<void>;
+  updateWheel: (wheelId: string, data: { name?: string; eliminationMode?: boolean }) => Promise<void>;
+  deleteWheel: (wheelId: string) => Promise<void>;
+  activateWheel: (wheelId: string) => Promise<void>;
+  recordSpin: (index: number) => Promise<void>;
+  resetElimination: () => Promise<void>;
+  // Shared room (server-authoritative spins)
+  room: LuckyWheelRoomInfo | null;
+  isRoomHost: boolean;
+  roomSpin: LuckyWheelSpinReveal | null;
+  roomSpinVerification: SpinVerification | null;
+  createRoom: () => Promise<boolean>;
+  joinRoom: (roomCode: string) => Promise<boolean>;
+  leaveRoom: () => void;
+  requestRoomSpin: () => void;
+  setRoomClientSeed: (clientSeed: string) => void;
 };
 
 const LuckyWheelContext = createContext<LuckyWheelContextType | undefined>(undefined);
@@ -43,7 +67,7 @@ const WHEEL_COLORS = [
 ] as const;
 
 export const LuckyWheelProvider = ({ children }: { children: React.ReactNode }) => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const activityTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Khởi tạo state - load từ localStorage nếu có, nếu không dùng default
@@ -66,6 +90,10 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
   });
 
   const [isLoading, setIsLoading] = useState(false);
+  const [wheels, setWheels] = useState<LuckyWheelWheel[]>([]);
+  const [activeWheelId, setActiveWheelId] = useState<string | null>(null);
+  const activeWheelIdRef = useRef<string | null>(null);
+  activeWheelIdRef.current = activeWheelId;
   const [isInitialized, setIsInitialized] = useState(false);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isSavingRef = useRef(false);
@@ -80,6 +108,10 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
       itemsChangedByUserRef.current = false;
       
       const response = await luckyWheelApi.getMyConfig();
+      if (response.wheels) {
+        setWheels(prev => JSON.stringify(prev) === JSON.stringify(response.wheels) ? prev : response.wheels);
+        setActiveWheelId(response.activeWheelId);
+      }
       if (response.items && response.items.length > 0) {
         // Create hash to check if config changed
         const configHash = JSON.stringify(response.items);
@@ -102,6 +134,15 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
     }
   }, []);
 
+  // Server copies saved items into the active wheel and restarts its elimination round
+  const syncActiveWheelItems = React.useCallback((newItems: WheelItem[]) => {
+    setWheels(prev => prev.map(w =>
+      w._id === activeWheelIdRef.current && JSON.stringify(w.items) !== JSON.stringify(newItems)
+        ? { ...w, items: newItems, eliminated: [] }
+        : w
+    ));
+  }, []);
+
   // Update activity timestamp (immediate for initial, debounced for subsequent)
   const updateActivity = React.useCallback((immediate = false) => {
     // Only track activity for guest users
@@ -196,6 +237,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
         lastConfigHashRef.current = JSON.stringify(data.items);
         setItems(data.items);
         localStorage.setItem(STORAGE_KEY, JSON.stringify(data.items));
+        syncActiveWheelItems(data.items);
       }
     };
 
@@ -204,7 +246,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
     return () => {
       socket.off('lucky-wheel-config-updated', handleConfigUpdated);
     };
-  }, [isInitialized]);
+  }, [isInitialized, syncActiveWheelItems]);
 
   // Lưu vào localStorage mỗi khi items thay đổi (cache) - debounced
   useEffect(() => {
@@ -234,6 +276,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
       await luckyWheelApi.saveConfig(currentItems);
       // Update hash after save
       lastConfigHashRef.current = JSON.stringify(currentItems);
+      syncActiveWheelItems(currentItems);
       // If itemsToSave was provided, also update state to keep them in sync
       if (itemsToSave) {
         setItems(itemsToSave);
@@ -243,7 +286,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
     } finally {
       isSavingRef.current = false;
     }
-  }, [items, setItems]); // Include items and setItems in deps
+  }, [items, setItems, syncActiveWheelItems]); // Include items and setItems in deps
 
   // Auto-save to server after items change (debounced)
   // Chỉ save nếu user thay đổi items, không save khi load từ server
@@ -270,6 +313,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
       luckyWheelApi.saveConfig(currentItems)
         .then(() => {
           lastConfigHashRef.current = JSON.stringify(currentItems);
+          syncActiveWheelItems(currentItems);
         })
         .catch(() => {
           // Silently fail
@@ -284,7 +328,7 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [items, isInitialized]); // Direct API call to avoid function recreation
+  }, [items, isInitialized, syncActiveWheelItems]); // Direct API call to avoid function recreation
 
   const addItem = React.useCallback((label: string) => {
     itemsChangedByUserRef.current = true; // Mark as user change
@@ -409,6 +453,222 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
     };
   }, [isAuthenticated, updateActivity]);
 
+  // ─── Multiple Wheels ───────────────────────────────────────
+
+  const activeWheel = useMemo(() => wheels.find(w => w._id === activeWheelId) || null, [wheels, activeWheelId]);
+  const eliminated = useMemo(
+    () => (activeWheel?.eliminationMode ? activeWheel.eliminated : []),
+    [activeWheel]
+  );
+
+  // Server replies to wheel changes with the full list and the active wheel's items
+  const applyWheelsResponse = React.useCallback((res: LuckyWheelWheelsResponse) => {
+    setWheels(res.wheels);
+    setActiveWheelId(res.activeWheelId);
+    itemsChangedByUserRef.current = false;
+    lastConfigHashRef.current = JSON.stringify(res.items);
+    setItems(res.items);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(res.items));
+  }, []);
+
+  const createWheel = React.useCallback(async (name: string) => {
+    applyWheelsResponse(await luckyWheelApi.createWheel(name));
+  }, [applyWheelsResponse]);
+
+  const updateWheel = React.useCallback(async (wheelId: string, data: { name?: string; eliminationMode?: boolean }) => {
+    applyWheelsResponse(await luckyWheelApi.updateWheel(wheelId, data));
+  }, [applyWheelsResponse]);
+
+  const deleteWheel = React.useCallback(async (wheelId: string) => {
+    applyWheelsResponse(await luckyWheelApi.deleteWheel(wheelId));
+  }, [applyWheelsResponse]);
+
+  const activateWheel = React.useCallback(async (wheelId: string) => {
+    applyWheelsResponse(await luckyWheelApi.activateWheel(wheelId));
+  }, [applyWheelsResponse]);
+
+  const recordSpin = React.useCallback(async (index: number) => {
+    const wheelId = activeWheelIdRef.current;
+    if (!wheelId) return;
+    try {
+      const res = await luckyWheelApi.recordSpin(wheelId, index);
+      setWheels(prev => prev.map(w => (w._id === wheelId ? { ...w, eliminated: res.eliminated } : w)));
+    } catch (error) {
+      // History is best-effort, the spin itself already happened
+    }
+  }, []);
+
+  const resetElimination = React.useCallback(async () => {
+    const wheelId = activeWheelIdRef.current;
+    if (!wheelId) return;
+    const res = await luckyWheelApi.resetElimination(wheelId);
+    setWheels(prev => prev.map(w => (w._id === wheelId ? { ...w, eliminated: res.eliminated } : w)));
+  }, []);
+
+  // ─── Shared Room ───────────────────────────────────────────
+
+  const [room, setRoom] = useState<LuckyWheelRoomInfo | null>(null);
+  const [roomSpin, setRoomSpin] = useState<LuckyWheelSpinReveal | null>(null);
+  const [roomSpinVerification, setRoomSpinVerification] = useState<SpinVerification | null>(null);
+  const roomCodeRef = useRef<string | null>(null);
+  // Latest room for socket handlers — holds the commitment published before the next spin
+  const roomRef = useRef<LuckyWheelRoomInfo | null>(null);
+  const verifyingSpinRef = useRef<LuckyWheelSpinReveal | null>(null);
+
+  useEffect(() => {
+    roomRef.current = room;
+  }, [room]);
+
+  const myPlayerId = isAuthenticated && user ? user._id : getGuestId();
+  const myName = isAuthenticated && user ? user.username : (getGuestName() || `Guest ${getGuestId().slice(-6)}`);
+  const isRoomHost = !!room && room.hostPlayerId === myPlayerId;
+
+  const emitWithAck = React.useCallback((event: string, payload: Record<string, unknown>): Promise<any> => {
+    const socket = socketService.getSocket();
+    if (!socket) return Promise.resolve({ success: false, error: 'notConnected' });
+    return new Promise(resolve => {
+      socket.emit(event as any, payload, (res: any) => resolve(res || { success: false }));
+    });
+  }, []);
+
+  const enterRoom = React.useCallback((info: LuckyWheelRoomInfo) => {
+    roomCodeRef.current = info.roomCode;
+    roomRef.current = info;
+    verifyingSpinRef.current = null;
+    setRoom(info);
+    setRoomSpin(null);
+    setRoomSpinVerification(null);
+  }, []);
+
+  const createRoom = React.useCallback(async (): Promise<boolean> => {
+    const res = await emitWithAck('lucky-wheel:create-room', { items, guestId: getGuestId(), name: myName });
+    if (!res.success) {
+      getToast()?.error(`luckyWheel.room.errors.${res.error || 'failedToCreate'}`);
+      return false;
+    }
+    enterRoom(res.room);
+    return true;
+  }, [emitWithAck, enterRoom, items, myName]);
+
+  const joinRoom = React.useCallback(async (roomCode: string): Promise<boolean> => {
+    const res = await emitWithAck('lucky-wheel:join-room', { roomCode, guestId: getGuestId(), name: myName });
+    if (!res.success) {
+      getToast()?.error(`luckyWheel.room.errors.${res.error || 'failedToJoin'}`);
+      return false;
+    }
+    enterRoom(res.room);
+    return true;
+  }, [emitWithAck, enterRoom, myName]);
+
+  const leaveRoom = React.useCallback(() => {
+    socketService.getSocket()?.emit('lucky-wheel:leave-room' as any, {});
+    roomCodeRef.current = null;
+    roomRef.current = null;
+    verifyingSpinRef.current = null;
+    setRoom(null);
+    setRoomSpin(null);
+    setRoomSpinVerification(null);
+  }, []);
+
+  const requestRoomSpin = React.useCallback(() => {
+    emitWithAck('lucky-wheel:spin', {}).then(res => {
+      if (!res.success) getToast()?.error(`luckyWheel.room.errors.${res.error || 'failedToSpin'}`);
+    });
+  }, [emitWithAck]);
+
+  const setRoomClientSeed = React.useCallback((clientSeed: string) => {
+    emitWithAck('lucky-wheel:set-client-seed', { clientSeed }).then(res => {
+      if (!res.success) getToast()?.error(`luckyWheel.room.errors.${res.error || 'failedToSetSeed'}`);
+    });
+  }, [emitWithAck]);
+
+  // Room broadcasts
+  useEffect(() => {
+    if (!room?.roomCode) return;
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleMembersUpdated = (data: { members: LuckyWheelRoomInfo['members']; hostPlayerId: string }) => {
+      setRoom(prev => prev ? { ...prev, members: data.members, hostPlayerId: data.hostPlayerId } : prev);
+    };
+    const handleItemsUpdated = (data: { items: WheelItem[] }) => {
+      if (roomRef.current) roomRef.current = { ...roomRef.current, items: data.items };
+      setRoom(prev => prev ? { ...prev, items: data.items } : prev);
+    };
+    const handleSeedUpdated = (data: { clientSeed: string }) => {
+      if (roomRef.current) roomRef.current = { ...roomRef.current, clientSeed: data.clientSeed };
+      setRoom(prev => prev ? { ...prev, clientSeed: data.clientSeed } : prev);
+    };
+    const handleSpinResult = (data: { spin: LuckyWheelSpinReveal; nextCommitment: string; nextNonce: number }) => {
+      // Check the reveal against what we were shown before the spin, not against itself
+      const before = roomRef.current;
+      verifyingSpinRef.current = data.spin;
+      setRoomSpinVerification(null);
+      if (before) {
+        const expected = { commitment: before.commitment, clientSeed: before.clientSeed, nonce: before.nonce, items: before.items };
+        verifySpin(data.spin, expected)
+          .then(result => {
+            if (verifyingSpinRef.current === data.spin) setRoomSpinVerification(result);
+          });
+        roomRef.current = { ...before, commitment: data.nextCommitment, nonce: data.nextNonce, lastSpin: data.spin };
+      }
+      setRoom(prev => prev ? {
+        ...prev,
+        commitment: data.nextCommitment,
+        nonce: data.nextNonce,
+        lastSpin: data.spin,
+      } : prev);
+      setRoomSpin(data.spin);
+    };
+    // Socket reconnected with a new id — rejoin so broadcasts keep arriving
+    const handleReconnect = () => {
+      const code = roomCodeRef.current;
+      if (!code) return;
+      emitWithAck('lucky-wheel:join-room', { roomCode: code, guestId: getGuestId(), name: myName }).then(res => {
+        if (res.success) {
+          setRoom(res.room);
+        } else {
+          roomCodeRef.current = null;
+          setRoom(null);
+          getToast()?.error('luckyWheel.room.errors.roomNotFound');
+        }
+      });
+    };
+
+    socket.on('lucky-wheel:members-updated' as any, handleMembersUpdated);
+    socket.on('lucky-wheel:items-updated' as any, handleItemsUpdated);
+    socket.on('lucky-wheel:seed-updated' as any, handleSeedUpdated);
+    socket.on('lucky-wheel:spin-result' as any, handleSpinResult);
+    socket.on('connect', handleReconnect);
+
+    return () => {
+      socket.off('lucky-wheel:members-updated' as any, handleMembersUpdated);
+      socket.off('lucky-wheel:items-updated' as any, handleItemsUpdated);
+      socket.off('lucky-wheel:seed-updated' as any, handleSeedUpdated);
+      socket.off('lucky-wheel:spin-result' as any, handleSpinResult);
+      socket.off('connect', handleReconnect);
+    };
+  }, [room?.roomCode, emitWithAck, myName]);
+
+  // Host keeps the room's items in sync with their own wheel
+  useEffect(() => {
+    if (!isRoomHost || !room) return;
+    if (JSON.stringify(room.items) === JSON.stringify(items)) return;
+    const timeoutId = setTimeout(() => {
+      socketService.getSocket()?.emit('lucky-wheel:update-items' as any, { items });
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [items, isRoomHost, room]);
+
+  // Leave the room when the wheel page unmounts
+  useEffect(() => {
+    return () => {
+      if (roomCodeRef.current) {
+        socketService.getSocket()?.emit('lucky-wheel:leave-room' as any, {});
+      }
+    };
+  }, []);
+
   // Memoize context value to prevent unnecessary re-renders
   // Note: WHEEL_COLORS is a constant outside component, so it doesn't need to be in deps
   const contextValue = useMemo(() => ({
@@ -421,8 +681,29 @@ export const LuckyWheelProvider = ({ children }: { children: React.ReactNode })
     loadConfigFromServer,
     isLoading,
     colors: WHEEL_COLORS as unknown as string[], // Use constant reference
-    updateActivity
-  }), [items, setItems, addItem, removeItem, updateItemWeight, saveConfigToServer, loadConfigFromServer, isLoading, updateActivity]);
+    updateActivity,
+    wheels,
+    activeWheelId,
+    activeWheel,
+    eliminated,
+    createWheel,
+    updateWheel,
+    deleteWheel,
+    activateWheel,
+    recordSpin,
+    resetElimination,
+    room,
+    isRoomHost,
+    roomSpin,
+    roomSpinVerification,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    requestRoomSpin,
+    setRoomClientSeed,
+  }), [items, setItems, addItem, removeItem, updateItemWeight, saveConfigToServer, loadConfigFromServer, isLoading, updateActivity,
+    wheels, activeWheelId, activeWheel, eliminated, createWheel, updateWheel, deleteWheel, activateWheel, recordSpin, resetElimination,
+    room, isRoomHost, roomSpin, roomSpinVerification, createRoom, joinRoom, leaveRoom, requestRoomSpin, setRoomClientSeed]);
 
   return (
     <LuckyWheelContext.Provider value={contextValue}>
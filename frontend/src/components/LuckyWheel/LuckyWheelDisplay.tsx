@@ -11,7 +11,9 @@ import WorkspacePremiumIcon from "@mui/icons-material/WorkspacePremium";
 import EmojiEventsIcon from "@mui/icons-material/EmojiEvents";
 import SettingsIcon from "@mui/icons-material/Settings";
 import ConfettiParty from "./ConfettiParty";
+import LuckyWheelRoomPanel from "./LuckyWheelRoomPanel";
 import { useLuckyWheel } from "./LuckyWheelContext";
+import { WheelItem } from "./lucky-wheel-types";
 import { useLanguage } from "../../i18n";
 
 function easeOutQuint(t: number) {
@@ -19,7 +21,10 @@ function easeOutQuint(t: number) {
 }
 
 export default function LuckyWheelDisplay() {
-  const { items, colors, updateActivity } = useLuckyWheel();
+  const {
+    items: myItems, colors, updateActivity, room, isRoomHost, roomSpin, requestRoomSpin,
+    activeWheel, eliminated, recordSpin, resetElimination,
+  } = useLuckyWheel();
   const { t } = useLanguage();
   const navigate = useNavigate();
   const theme = useTheme();
@@ -54,6 +59,24 @@ export default function LuckyWheelDisplay() {
   const [showWinner, setShowWinner] = useState(false);
   const [showFireworks, setShowFireworks] = useState(false);
 
+  // Elimination mode: eliminated items leave the wheel once the result has been shown
+  const [shownEliminated, setShownEliminated] = useState<number[]>(eliminated);
+  useEffect(() => {
+    if (!isSpinning && !showWinner) setShownEliminated(eliminated);
+  }, [eliminated, isSpinning, showWinner]);
+  // Original index (in the wheel config) of every item still in play
+  const playIndexes = useMemo(
+    () => myItems.map((_, i) => i).filter(i => !shownEliminated.includes(i)),
+    [myItems, shownEliminated]
+  );
+  // In a shared room everyone shows the room's items; spins come from the server
+  const items = useMemo(
+    () => (room ? room.items : playIndexes.map(i => myItems[i])),
+    [room, playIndexes, myItems]
+  );
+  const isEliminationMode = !room && !!activeWheel?.eliminationMode;
+  const isEliminationOver = isEliminationMode && items.length <= 1;
+
   // Memoize icons array to prevent recreation on every render
   const icons = useMemo(() => [
     CardGiftcardIcon, StarIcon, FavoriteIcon, BoltIcon, 
@@ -107,9 +130,15 @@ export default function LuckyWheelDisplay() {
     rafLoopActiveRef.current = false;
   }, []);
 
-  const spinWheel = useCallback(() => {
-    if (isSpinning || items.length === 0) return;
-    if (rafLoopActiveRef.current) return; // Prevent multiple RAF loops
+  /**
+   * Animate the wheel onto `winnerIndex`.
+   * `spins` full turns, `offset` (0..1) picks the landing point inside the segment.
+   */
+  const animateSpin = useCallback((
+    wheelItems: WheelItem[], winnerIndex: number, spins: number, offset: number, forced = false, onDone?: () => void
+  ) => {
+    if (wheelItems.length === 0) return;
+    if (!forced && rafLoopActiveRef.current) return; // Prevent multiple RAF loops
 
     setIsSpinning(true);
     setShowWinner(false);
@@ -119,19 +148,17 @@ export default function LuckyWheelDisplay() {
     clearAllTimeouts();
     stopRAF();
 
-    // Pick winner
-    const { index: winnerIndex, item: winningItem } = weightedRandom(items);
-    const segmentAngleLocal = 360 / items.length;
+    const winningItem = wheelItems[winnerIndex];
+    const segmentAngleLocal = 360 / wheelItems.length;
     const segmentCenter = winnerIndex * segmentAngleLocal + segmentAngleLocal / 2;
 
     const margin = 6;
     const reachable = Math.max(0, segmentAngleLocal - 2 * margin);
-    const randomWithin = reachable > 0 ? (Math.random() * reachable - reachable / 2) : 0;
+    const randomWithin = reachable > 0 ? (offset * reachable - reachable / 2) : 0;
     const targetAngle = segmentCenter + randomWithin;
 
     const currentRotationNormalized = ((rotationRef.current % 360) + 360) % 360;
     const desiredMod = ((360 - targetAngle) % 360 + 360) % 360;
-    const spins = Math.floor(Math.random() * (16 - 7 + 1)) + 12;
     const remainder = ((desiredMod - currentRotationNormalized + 360) % 360);
     const totalDelta = spins * 360 + remainder;
 
@@ -144,8 +171,8 @@ export default function LuckyWheelDisplay() {
     const target = targetRotRef.current;
     const increasing = target >= startRotRef.current;
     const winningItemLabel = winningItem.label;
-    const firstItemLabel = items[0]?.label;
-    const secondItemLabel = items[1]?.label;
+    const firstItemLabel = wheelItems[0]?.label;
+    const secondItemLabel = wheelItems[1]?.label;
 
     rafLoopActiveRef.current = true;
 
@@ -184,6 +211,7 @@ export default function LuckyWheelDisplay() {
           setWinner(winningItemLabel);
           setShowWinner(true);
           setIsSpinning(false);
+          onDone?.();
 
           if (winningItemLabel === firstItemLabel || winningItemLabel === secondItemLabel) {
             setShowFireworks(true);
@@ -195,7 +223,27 @@ export default function LuckyWheelDisplay() {
     };
 
     rafRef.current = requestAnimationFrame(loop);
-  }, [isSpinning, items, clearAllTimeouts, stopRAF]);
+  }, [clearAllTimeouts, stopRAF]);
+
+  const spinWheel = useCallback(() => {
+    if (isSpinning || items.length === 0 || isEliminationOver) return;
+    if (room) {
+      // Shared room: only the host asks the server, everyone animates the result
+      if (isRoomHost) requestRoomSpin();
+      return;
+    }
+    const { index: winnerIndex } = weightedRandom(items);
+    const spins = Math.floor(Math.random() * (16 - 7 + 1)) + 12;
+    const configIndex = playIndexes[winnerIndex];
+    // Record in the wheel's history once the result is on screen
+    animateSpin(items, winnerIndex, spins, Math.random(), false, () => recordSpin(configIndex));
+  }, [isSpinning, items, isEliminationOver, room, isRoomHost, requestRoomSpin, playIndexes, animateSpin, recordSpin]);
+
+  // Server-resolved spin for the shared room
+  useEffect(() => {
+    if (!roomSpin) return;
+    animateSpin(roomSpin.items, roomSpin.index, roomSpin.spins, roomSpin.offset, true);
+  }, [roomSpin, animateSpin]);
 
   const resetWheel = useCallback(() => {
     stopRAF();
@@ -207,7 +255,11 @@ export default function LuckyWheelDisplay() {
     setIsSpinning(false);
     setShowFireworks(false);
     setIsTheBestRewards(false);
-  }, [stopRAF, clearAllTimeouts]);
+    // Elimination mode: reset also brings every item back
+    if (isEliminationMode && eliminated.length > 0) {
+      resetElimination().catch(() => {});
+    }
+  }, [stopRAF, clearAllTimeouts, isEliminationMode, eliminated.length, resetElimination]);
 
   const closeWinnerModal = useCallback(() => {
     setShowWinner(false);
@@ -742,7 +794,7 @@ export default function LuckyWheelDisplay() {
                     {!isSpinning && (
                       <Button
                         onClick={spinWheel}
-                        disabled={isSpinning || items.length === 0}
+                        disabled={isSpinning || items.length === 0 || isEliminationOver || (!!room && !isRoomHost)}
                         sx={{
                           width: '100%',
                           height: '100%',
@@ -759,6 +811,13 @@ export default function LuckyWheelDisplay() {
             </Box>
           </Box>
 
+          {/* Elimination round finished */}
+          {isEliminationOver && items[0] && (
+            <Typography sx={{ fontWeight: 700, color: '#f57c00', textAlign: 'center', fontSize: { xs: '1.1rem', sm: '1.25rem' } }}>
+              {t('luckyWheel.elimination.lastStanding', { label: items[0].label })}
+            </Typography>
+          )}
+
           {/* Action Buttons */}
           <Box sx={{ 
             display: 'flex', 
@@ -773,7 +832,7 @@ export default function LuckyWheelDisplay() {
           }}>
             <Button
               onClick={spinWheel}
-              disabled={isSpinning || items.length === 0}
+              disabled={isSpinning || items.length === 0 || isEliminationOver || (!!room && !isRoomHost)}
               variant="contained"
               startIcon={<PlayArrowIcon sx={{ fontSize: isMobile ? 20 : 24 }} />}
               sx={{
@@ -793,7 +852,9 @@ export default function LuckyWheelDisplay() {
                 },
               }}
             >
-              {isSpinning ? t('luckyWheel.spinning') : t('luckyWheel.spinNow')}
+              {isSpinning
+                ? t('luckyWheel.spinning')
+                : room && !isRoomHost ? t('luckyWheel.room.waitingForHost') : t('luckyWheel.spinNow')}
             </Button>
 
             <Button
@@ -825,6 +886,9 @@ export default function LuckyWheelDisplay() {
             </Button>
           </Box>
 
+          {/* Shared room: create / join / verify */}
+          <LuckyWheelRoomPanel />
+
         </Box>
       </Box>
 
@@ -895,6 +959,11 @@ export default function LuckyWheelDisplay() {
               >
                   {t('luckyWheel.winnerMessage').replace('{winner}', winner)}
               </Typography>
+              {isEliminationMode && (
+                <Typography sx={{ mt: 1.5, color: '#5a6a7a', fontSize: { xs: '0.9rem', md: '1rem' } }}>
+                  {t('luckyWheel.elimination.removed', { label: winner, count: items.length - 1 })}
+                </Typography>
+              )}
             </CardContent>
           </Card>
         </Box>
@@ -0,0 +1,147 @@
+/**
+ * LuckyWheelHistoryPanel - Spin history of the active wheel.
+ * Per-item frequency (actual vs expected share by weight) and the latest spins.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Button, LinearProgress, Paper, Typography } from '@mui/material';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import { useLuckyWheel } from './LuckyWheelContext';
+import { useLanguage } from '../../i18n';
+import { useToast } from '../../contexts/ToastContext';
+import { luckyWheelApi, LuckyWheelItemStat, LuckyWheelSpinRecord } from '../../services/api';
+import ConfirmDialog from '../ConfirmDialog/ConfirmDialog';
+
+const LuckyWheelHistoryPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const toast = useToast();
+  const { activeWheelId } = useLuckyWheel();
+  const [history, setHistory] = useState<LuckyWheelSpinRecord[]>([]);
+  const [stats, setStats] = useState<LuckyWheelItemStat[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    if (!activeWheelId) return;
+    setLoading(true);
+    try {
+      const res = await luckyWheelApi.getSpinHistory(activeWheelId);
+      setHistory(res.history);
+      setStats(res.stats);
+      setTotal(res.total);
+    } catch {
+      // Keep the previous data, history is informational
+    } finally {
+      setLoading(false);
+    }
+  }, [activeWheelId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleClear = async () => {
+    setShowClearConfirm(false);
+    if (!activeWheelId) return;
+    try {
+      await luckyWheelApi.clearSpinHistory(activeWheelId);
+      setHistory([]);
+      setStats(prev => prev.map(s => ({ ...s, count: 0, percentage: 0 })));
+      setTotal(0);
+    } catch {
+      toast.error('luckyWheel.history.clearError');
+    }
+  };
+
+  if (!activeWheelId) return null;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: { xs: 3, md: 4 }, mt: 3, borderRadius: 4, border: '1px solid rgba(126, 200, 227, 0.3)', boxShadow: '0 8px 24px rgba(126, 200, 227, 0.1)' }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1 }}>
+        <Typography variant="h6" sx={{ color: '#2c3e50', fontWeight: 600, flex: 1 }}>
+          {t('luckyWheel.history.title')} ({total})
+        </Typography>
+        {total > 0 && (
+          <Button size="small" color="error" startIcon={<DeleteSweepIcon />} onClick={() => setShowClearConfirm(true)}>
+            {t('luckyWheel.history.clear')}
+          </Button>
+        )}
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {total === 0 ? (
+        <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+          {t('luckyWheel.history.empty')}
+        </Typography>
+      ) : (
+        <>
+          {/* Frequency per item */}
+          <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1 }}>
+            {t('luckyWheel.history.frequency')}
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.25, mb: 3 }}>
+            {stats.map(stat => (
+              <Box key={stat.label}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {stat.label}
+                  </Typography>
+                  <Typography variant="body2" sx={{ color: 'text.secondary', flexShrink: 0 }}>
+                    {t('luckyWheel.history.statLine', { count: stat.count, percentage: stat.percentage, expected: stat.expected })}
+                  </Typography>
+                </Box>
+                <LinearProgress
+                  variant="buffer"
+                  value={stat.percentage}
+                  valueBuffer={stat.expected}
+                  sx={{ height: 8, borderRadius: 4, '& .MuiLinearProgress-bar1Buffer': { bgcolor: '#7ec8e3' } }}
+                />
+              </Box>
+            ))}
+          </Box>
+
+          {/* Latest spins */}
+          <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1 }}>
+            {t('luckyWheel.history.recent')}
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, maxHeight: 320, overflowY: 'auto' }}>
+            {history.map(spin => (
+              <Box
+                key={spin._id}
+                sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 0.75, px: 1, borderRadius: 1.5, '&:nth-of-type(odd)': { bgcolor: 'rgba(126, 200, 227, 0.06)' } }}
+              >
+                <Typography variant="caption" sx={{ color: 'text.secondary', width: 130, flexShrink: 0 }}>
+                  {new Date(spin.spunAt).toLocaleString()}
+                </Typography>
+                <Typography variant="body2" sx={{ fontWeight: 600, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {spin.label}
+                </Typography>
+                <Typography variant="caption" sx={{ color: 'text.secondary', flexShrink: 0 }}>
+                  {t('luckyWheel.history.chance', {
+                    weight: spin.weight,
+                    chance: spin.totalWeight > 0 ? Math.round((spin.weight / spin.totalWeight) * 1000) / 10 : 0,
+                  })}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </>
+      )}
+
+      <ConfirmDialog
+        open={showClearConfirm}
+        title={t('luckyWheel.history.clearConfirmTitle')}
+        message={t('luckyWheel.history.clearConfirmMessage')}
+        variant="danger"
+        onConfirm={handleClear}
+        onCancel={() => setShowClearConfirm(false)}
+      />
+    </Paper>
+  );
+};
+
+export default LuckyWheelHistoryPanel;
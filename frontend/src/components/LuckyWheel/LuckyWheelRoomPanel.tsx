@@ -0,0 +1,185 @@
+/**
+ * LuckyWheelRoomPanel - Shared wheel room controls below the wheel.
+ * Create/join by code, member list, committed seed and verification of the last spin.
+ */
+import React, { useState } from "react";
+import { Box, Button, Card, CardContent, Chip, Collapse, IconButton, TextField, Tooltip, Typography } from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import GroupsIcon from "@mui/icons-material/Groups";
+import ExitToAppIcon from "@mui/icons-material/ExitToApp";
+import VerifiedIcon from "@mui/icons-material/Verified";
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import { useLuckyWheel } from "./LuckyWheelContext";
+import { useLanguage } from "../../i18n";
+import { getToast } from "../../contexts/ToastContext";
+
+const monoSx = { fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' as const };
+
+export default function LuckyWheelRoomPanel() {
+  const { t } = useLanguage();
+  const { room, isRoomHost, roomSpinVerification: verification, createRoom, joinRoom, leaveRoom, setRoomClientSeed } = useLuckyWheel();
+  const [joinCode, setJoinCode] = useState('');
+  const [seedInput, setSeedInput] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const lastSpin = room?.lastSpin ?? null;
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    await createRoom();
+    setIsBusy(false);
+  };
+
+  const handleJoin = async () => {
+    if (!joinCode.trim()) return;
+    setIsBusy(true);
+    const ok = await joinRoom(joinCode.trim().toUpperCase());
+    if (ok) setJoinCode('');
+    setIsBusy(false);
+  };
+
+  const handleCopyCode = () => {
+    if (!room) return;
+    navigator.clipboard?.writeText(room.roomCode).then(() => getToast()?.success('luckyWheel.room.codeCopied')).catch(() => {});
+  };
+
+  const handleSetSeed = () => {
+    if (!seedInput.trim()) return;
+    setRoomClientSeed(seedInput.trim());
+    setSeedInput('');
+  };
+
+  const isVerified = !!verification && verification.commitmentOk && verification.inputsOk && verification.resultOk;
+
+  return (
+    <Card sx={{ width: '100%', maxWidth: 680, mx: 'auto', borderRadius: 3, boxShadow: '0 4px 16px rgba(126, 200, 227, 0.2)' }}>
+      <CardContent sx={{ p: { xs: 2, sm: 2.5 } }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          <GroupsIcon sx={{ color: '#7ec8e3' }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 700, flex: 1 }}>
+            {t('luckyWheel.room.title')}
+          </Typography>
+          {room && (
+            <Button size="small" color="error" startIcon={<ExitToAppIcon />} onClick={leaveRoom}>
+              {t('luckyWheel.room.leave')}
+            </Button>
+          )}
+        </Box>
+
+        {!room ? (
+          <>
+            <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+              {t('luckyWheel.room.subtitle')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, alignItems: 'center' }}>
+              <Button variant="contained" disabled={isBusy} onClick={handleCreate} sx={{ bgcolor: '#7ec8e3', '&:hover': { bgcolor: '#5fb3d1' } }}>
+                {t('luckyWheel.room.create')}
+              </Button>
+              <Box sx={{ display: 'flex', gap: 1, flex: 1, minWidth: 220 }}>
+                <TextField
+                  size="small"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleJoin(); }}
+                  placeholder={t('luckyWheel.room.codePlaceholder')}
+                  inputProps={{ maxLength: 6, style: { letterSpacing: '0.2em', fontWeight: 700 } }}
+                  sx={{ flex: 1 }}
+                />
+                <Button variant="outlined" disabled={isBusy || !joinCode.trim()} onClick={handleJoin}>
+                  {t('luckyWheel.room.join')}
+                </Button>
+              </Box>
+            </Box>
+          </>
+        ) : (
+          <>
+            {/* Room code + members */}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>{t('luckyWheel.room.code')}:</Typography>
+              <Typography sx={{ fontWeight: 800, letterSpacing: '0.2em' }}>{room.roomCode}</Typography>
+              <Tooltip title={t('luckyWheel.room.copyCode')}>
+                <IconButton size="small" onClick={handleCopyCode}><ContentCopyIcon fontSize="small" /></IconButton>
+              </Tooltip>
+            </Box>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75, mb: 2 }}>
+              {room.members.map(member => (
+                <Chip
+                  key={member.playerId}
+                  size="small"
+                  label={member.isHost ? `${member.name} · ${t('luckyWheel.room.host')}` : member.name}
+                  color={member.isHost ? 'primary' : 'default'}
+                  variant={member.isHost ? 'filled' : 'outlined'}
+                />
+              ))}
+            </Box>
+
+            {/* Commit for the next spin */}
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+              {t('luckyWheel.room.commitment', { nonce: room.nonce })}
+            </Typography>
+            <Typography sx={{ ...monoSx, mb: 1 }}>{room.commitment}</Typography>
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+              {t('luckyWheel.room.clientSeed')}
+            </Typography>
+            <Typography sx={{ ...monoSx, mb: 1 }}>{room.clientSeed}</Typography>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <TextField
+                size="small"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSetSeed(); }}
+                placeholder={t('luckyWheel.room.clientSeedPlaceholder')}
+                inputProps={{ maxLength: 64 }}
+                sx={{ flex: 1 }}
+              />
+              <Button variant="outlined" disabled={!seedInput.trim()} onClick={handleSetSeed}>
+                {t('luckyWheel.room.setSeed')}
+              </Button>
+            </Box>
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: lastSpin ? 2 : 0 }}>
+              {isRoomHost ? t('luckyWheel.room.hostHint') : t('luckyWheel.room.viewerHint')}
+            </Typography>
+
+            {/* Last spin verification */}
+            {lastSpin && (
+              <Box sx={{ p: 1.5, borderRadius: 2, bgcolor: 'rgba(126, 200, 227, 0.08)' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="body2" sx={{ fontWeight: 700, flex: 1 }}>
+                    {t('luckyWheel.room.lastSpin', { nonce: lastSpin.nonce, label: lastSpin.label })}
+                  </Typography>
+                  {verification && (
+                    <Chip
+                      size="small"
+                      icon={isVerified ? <VerifiedIcon /> : <ErrorOutlineIcon />}
+                      label={isVerified ? t('luckyWheel.room.verified') : t('luckyWheel.room.notVerified')}
+                      color={isVerified ? 'success' : 'error'}
+                    />
+                  )}
+                  <Button size="small" onClick={() => setShowDetails(v => !v)}>
+                    {showDetails ? t('luckyWheel.room.hideDetails') : t('luckyWheel.room.showDetails')}
+                  </Button>
+                </Box>
+                <Collapse in={showDetails}>
+                  <Box sx={{ mt: 1, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>{t('luckyWheel.room.serverSeed')}</Typography>
+                    <Typography sx={monoSx}>{lastSpin.serverSeed}</Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>{t('luckyWheel.room.commitmentLabel')}</Typography>
+                    <Typography sx={monoSx}>{lastSpin.commitment}</Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>{t('luckyWheel.room.clientSeed')}</Typography>
+                    <Typography sx={monoSx}>{lastSpin.clientSeed}:{lastSpin.nonce}</Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>HMAC-SHA256</Typography>
+                    <Typography sx={monoSx}>{lastSpin.hash}</Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary', mt: 0.5 }}>
+                      {t('luckyWheel.room.howToVerify')}
+                    </Typography>
+                  </Box>
+                </Collapse>
+              </Box>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
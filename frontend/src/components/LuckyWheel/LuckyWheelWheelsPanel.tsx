@@ -0,0 +1,181 @@
+/**
+ * LuckyWheelWheelsPanel - Pick, create, rename and delete saved wheels.
+ * Also toggles elimination mode for the active wheel.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  Box, Button, FormControlLabel, IconButton, MenuItem, Paper, Select, Switch, TextField, Tooltip, Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import CheckIcon from '@mui/icons-material/Check';
+import { useLuckyWheel } from './LuckyWheelContext';
+import { useLanguage } from '../../i18n';
+import { useToast } from '../../contexts/ToastContext';
+import ConfirmDialog from '../ConfirmDialog/ConfirmDialog';
+
+const MAX_WHEELS = 10;
+
+const LuckyWheelWheelsPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const toast = useToast();
+  const { wheels, activeWheel, createWheel, updateWheel, deleteWheel, activateWheel } = useLuckyWheel();
+  const [newName, setNewName] = useState('');
+  const [renameValue, setRenameValue] = useState(activeWheel?.name || '');
+  const [busy, setBusy] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  useEffect(() => {
+    setRenameValue(activeWheel?.name || '');
+  }, [activeWheel?._id, activeWheel?.name]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: any) {
+      toast.error('toast.saveFailed', { params: { message: err.response?.data?.message || '' } });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      await createWheel(name);
+      setNewName('');
+    });
+  };
+
+  const handleRename = () => {
+    const name = renameValue.trim();
+    if (!activeWheel || !name || name === activeWheel.name) return;
+    run(() => updateWheel(activeWheel._id, { name }));
+  };
+
+  if (wheels.length === 0) return null;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: { xs: 3, md: 4 }, mb: 3, borderRadius: 4, border: '1px solid rgba(126, 200, 227, 0.3)', boxShadow: '0 8px 24px rgba(126, 200, 227, 0.1)' }}
+    >
+      <Typography variant="h6" sx={{ mb: 2, color: '#2c3e50', fontWeight: 600 }}>
+        {t('luckyWheel.wheels.title')}
+      </Typography>
+
+      {/* Active wheel selector */}
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        <Select
+          size="small"
+          fullWidth
+          value={activeWheel?._id || ''}
+          disabled={busy}
+          onChange={(e) => run(() => activateWheel(e.target.value as string))}
+        >
+          {wheels.map(wheel => (
+            <MenuItem key={wheel._id} value={wheel._id}>
+              {wheel.name} ({wheel.items.length})
+            </MenuItem>
+          ))}
+        </Select>
+        <Tooltip title={t('luckyWheel.wheels.delete')}>
+          <span>
+            <IconButton
+              disabled={busy || wheels.length <= 1}
+              onClick={() => setShowDeleteConfirm(true)}
+              sx={{ color: '#ffaaa5', '&:hover': { bgcolor: 'rgba(255, 170, 165, 0.1)' } }}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {/* Rename active wheel */}
+      {activeWheel && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label={t('luckyWheel.wheels.name')}
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); }}
+            inputProps={{ maxLength: 50 }}
+          />
+          <Tooltip title={t('luckyWheel.wheels.rename')}>
+            <span>
+              <IconButton
+                disabled={busy || !renameValue.trim() || renameValue.trim() === activeWheel.name}
+                onClick={handleRename}
+                sx={{ color: '#7ec8e3' }}
+              >
+                <CheckIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      )}
+
+      {/* Elimination mode */}
+      {activeWheel && (
+        <Box sx={{ mb: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={activeWheel.eliminationMode}
+                disabled={busy}
+                onChange={(e) => run(() => updateWheel(activeWheel._id, { eliminationMode: e.target.checked }))}
+              />
+            }
+            label={t('luckyWheel.elimination.mode')}
+          />
+          <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary' }}>
+            {t('luckyWheel.elimination.hint')}
+          </Typography>
+        </Box>
+      )}
+
+      {/* New wheel */}
+      {wheels.length < MAX_WHEELS && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder={t('luckyWheel.wheels.newPlaceholder')}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+            inputProps={{ maxLength: 50 }}
+          />
+          <Button
+            variant="outlined"
+            startIcon={<AddIcon />}
+            disabled={busy || !newName.trim()}
+            onClick={handleCreate}
+            sx={{ flexShrink: 0, borderColor: '#7ec8e3', color: '#7ec8e3' }}
+          >
+            {t('luckyWheel.wheels.create')}
+          </Button>
+        </Box>
+      )}
+
+      <ConfirmDialog
+        open={showDeleteConfirm}
+        title={t('luckyWheel.wheels.deleteConfirmTitle')}
+        message={t('luckyWheel.wheels.deleteConfirmMessage', { name: activeWheel?.name || '' })}
+        variant="danger"
+        onConfirm={() => {
+          setShowDeleteConfirm(false);
+          if (activeWheel) run(() => deleteWheel(activeWheel._id));
+        }}
+        onCancel={() => setShowDeleteConfirm(false)}
+      />
+    </Paper>
+  );
+};
+
+export default LuckyWheelWheelsPanel;
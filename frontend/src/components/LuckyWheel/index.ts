@@ -1,3 +1,5 @@
 export { default as LuckyWheelDisplay } from './LuckyWheelDisplay';
 export { LuckyWheelProvider, useLuckyWheel } from './LuckyWheelContext';
 export { default as ConfettiParty } from './ConfettiParty';
+export { default as LuckyWheelWheelsPanel } from './LuckyWheelWheelsPanel';
+export { default as LuckyWheelHistoryPanel } from './LuckyWheelHistoryPanel';
@@ -0,0 +1,79 @@
+/**
+ * Lucky Wheel — Client-side spin verification.
+ * Recomputes a revealed spin with Web Crypto using the same steps as the
+ * server (backend/src/services/lucky-wheel-engine.ts).
+ */
+import { LuckyWheelSpinReveal, WheelItem } from './lucky-wheel-types';
+
+export type SpinVerification = {
+  commitmentOk: boolean;  // sha256(serverSeed) matches the commitment published before the spin
+  inputsOk: boolean;      // client seed, nonce and items are the ones shown before the spin
+  resultOk: boolean;      // HMAC and weighted pick reproduce the announced item
+};
+
+/** What the room showed before the spin — the reveal is checked against this, not against itself */
+export type SpinExpectation = {
+  commitment: string;
+  clientSeed: string;
+  nonce: number;
+  items: WheelItem[];
+};
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+function hashToFloat(hash: string, part: number): number {
+  return parseInt(hash.slice(part * 13, part * 13 + 13), 16) / Math.pow(2, 52);
+}
+
+function pickWeightedIndex(items: WheelItem[], r: number): number {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  const target = r * totalWeight;
+  let sum = 0;
+  for (let i = 0; i < items.length; i++) {
+    sum += items[i].weight;
+    if (target < sum) return i;
+  }
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (items[i].weight > 0) return i;
+  }
+  return 0;
+}
+
+function sameItems(a: WheelItem[], b: WheelItem[]): boolean {
+  return a.length === b.length && a.every((item, i) => item.label === b[i].label && item.weight === b[i].weight);
+}
+
+/**
+ * Verify a revealed spin against the commitment, client seed, nonce and items published before it.
+ * The pick is recomputed from the items shown before the spin, so reweighting them in the reveal fails.
+ * Never throws (missing Web Crypto counts as unverified).
+ */
+export async function verifySpin(spin: LuckyWheelSpinReveal, expected: SpinExpectation): Promise<SpinVerification> {
+  try {
+    const commitmentOk = (await sha256Hex(spin.serverSeed)) === expected.commitment;
+    const inputsOk = spin.clientSeed === expected.clientSeed && spin.nonce === expected.nonce
+      && sameItems(spin.items, expected.items);
+    const hash = await hmacSha256Hex(spin.serverSeed, `${expected.clientSeed}:${expected.nonce}`);
+    const resultOk = hash === spin.hash
+      && pickWeightedIndex(expected.items, hashToFloat(hash, 0)) === spin.index
+      && expected.items[spin.index]?.label === spin.label;
+    return { commitmentOk, inputsOk, resultOk };
+  } catch {
+    return { commitmentOk: false, inputsOk: false, resultOk: false };
+  }
+}
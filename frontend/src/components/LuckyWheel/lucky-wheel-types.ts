@@ -0,0 +1,39 @@
+/**
+ * Lucky Wheel — Shared room types (mirrors backend lucky-wheel.types.ts)
+ */
+
+export type WheelItem = { label: string; weight: number };
+
+export interface LuckyWheelRoomMember {
+  playerId: string;
+  name: string;
+  isHost: boolean;
+}
+
+/** Revealed spin — everything needed to recompute the result */
+export interface LuckyWheelSpinReveal {
+  nonce: number;
+  serverSeed: string;
+  commitment: string;
+  clientSeed: string;
+  hash: string;
+  items: WheelItem[];
+  index: number;
+  label: string;
+  spins: number;
+  offset: number;
+  durationMs: number;
+  spunAt: string;
+}
+
+export interface LuckyWheelRoomInfo {
+  roomCode: string;
+  hostPlayerId: string;
+  items: WheelItem[];
+  members: LuckyWheelRoomMember[];
+  commitment: string;
+  clientSeed: string;
+  nonce: number;
+  isSpinning: boolean;
+  lastSpin: LuckyWheelSpinReveal | null;
+}
@@ -1,17 +1,21 @@
 import React, { useState, useEffect, useRef, useCallback, startTransition } from 'react';
-import { Box, Container, useTheme, useMediaQuery } from '@mui/material';
+import { Box, Container, Chip, Stack, useTheme, useMediaQuery } from '@mui/material';
 import { useNavigate } from 'react-router-dom';
 import { gameApi } from '../../services/api';
+import { BotDifficulty, CaroOpening } from '../../types/game.types';
 import { useAuth } from '../../contexts/AuthContext';
-import { DEFAULT_BOARD_SIZE } from '../../utils/constants';
+import { DEFAULT_BOARD_SIZE, DEFAULT_TIME_CONTROL, DEFAULT_CARO_OPPONENT, TIME_CONTROLS, RENJU_MIN_BOARD_SIZE } from '../../utils/constants';
 import { validateRoomCode, formatRoomCode } from '../../utils/roomCode';
 import HistoryModal from '../HistoryModal/HistoryModal';
 import PasswordDialog from '../PasswordDialog/PasswordDialog';
+import { QuickMatchDialog } from '../Matchmaking';
+import { CaroMatchPreferences, MatchmakingMatched } from '../../types/matchmaking.types';
 import { socketService } from '../../services/socketService';
 import { useSocket } from '../../contexts/SocketContext';
 import { logger } from '../../utils/logger';
 import { useToast } from '../../contexts/ToastContext';
 import { useMainLayout } from './MainLayoutContext';
+import { useLanguage } from '../../i18n';
 import {
   HeroSection,
   CreateGameCard,
@@ -27,12 +31,17 @@ const HomePageContent: React.FC = () => {
   const { isConnected: socketConnected } = useSocket();
   const { openGuestNameDialog } = useMainLayout();
   const toast = useToast();
+  const { t } = useLanguage();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
   // Create game state
   const [boardSize, setBoardSize] = useState<number>(DEFAULT_BOARD_SIZE);
   const [blockTwoEnds, setBlockTwoEnds] = useState(false);
+  const [timeControl, setTimeControl] = useState<string>(DEFAULT_TIME_CONTROL);
+  const [opponent, setOpponent] = useState<string>(DEFAULT_CARO_OPPONENT);
+  const [variant, setVariant] = useState<string>('freestyle');
+  const [opening, setOpening] = useState<CaroOpening>('standard');
 
   // Join game state
   const [joinRoomCode, setJoinRoomCode] = useState('');
@@ -48,6 +57,7 @@ const HomePageContent: React.FC = () => {
 
   // UI state
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  const [quickMatchOpen, setQuickMatchOpen] = useState(false);
 
   // Listen to context events
   useEffect(() => {
@@ -62,6 +72,11 @@ const HomePageContent: React.FC = () => {
     };
   }, []);
 
+  // Renju isn't offered on small boards — fall back to freestyle
+  useEffect(() => {
+    if (variant === 'renju' && boardSize < RENJU_MIN_BOARD_SIZE) setVariant('freestyle');
+  }, [boardSize, variant]);
+
   // Refs for tracking mounted games and cleanup
   const mountedGamesRef = useRef<Set<string>>(new Set());
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -208,13 +223,19 @@ const HomePageContent: React.FC = () => {
   // Event handlers
   const handleCreateGame = async (): Promise<void> => {
     try {
-      logger.log('[HomePage] Creating game with:', { boardSize, blockTwoEnds });
+      logger.log('[HomePage] Creating game with:', { boardSize, blockTwoEnds, timeControl, opponent, variant, opening });
+      const preset = TIME_CONTROLS.find(tc => tc.id === timeControl) || TIME_CONTROLS[0];
       const game = await gameApi.create(boardSize, {
         blockTwoEnds,
         allowUndo: true,
         maxUndoPerGame: 3,
-        timeLimit: null,
-      });
+        timeLimit: preset.timeLimit,
+        gameTimeLimit: preset.gameTimeLimit,
+        timeIncrement: preset.timeIncrement,
+        exactFive: variant === 'exactFive',
+        renju: variant === 'renju',
+        opening: opponent === 'human' ? opening : 'standard',
+      }, opponent === 'human' ? null : opponent as BotDifficulty);
       logger.log('[HomePage] Game created successfully:', game.roomId);
       navigate(`/game/${game.roomId}`);
     } catch (error: any) {
@@ -224,6 +245,22 @@ const HomePageContent: React.FC = () => {
     }
   };
 
+  // Quick match uses the create-card settings; the opponent is always another player
+  const quickMatchPreset = TIME_CONTROLS.find(tc => tc.id === timeControl) || TIME_CONTROLS[0];
+  const quickMatchPreferences: CaroMatchPreferences = {
+    boardSize,
+    blockTwoEnds,
+    timeLimit: quickMatchPreset.timeLimit,
+    gameTimeLimit: quickMatchPreset.gameTimeLimit,
+    timeIncrement: quickMatchPreset.timeIncrement,
+  };
+
+  const handleQuickMatched = (match: MatchmakingMatched): void => {
+    logger.log('[HomePage] Quick match found:', match.roomId);
+    setQuickMatchOpen(false);
+    navigate(`/game/${match.roomId}`);
+  };
+
   const handleJoinGame = async (password?: string): Promise<void> => {
     setJoinError('');
     const formattedCode = formatRoomCode(joinRoomCode);
@@ -235,12 +272,17 @@ const HomePageContent: React.FC = () => {
     setJoinLoading(true);
     try {
       const game = await gameApi.getGameByCode(formattedCode);
-      const canJoin = game.gameStatus === 'waiting' ||
-        (game.gameStatus === 'playing' && (!game.player2 && !game.player2GuestId));
-
-      if (!canJoin && game.gameStatus !== 'waiting') {
-        setJoinError('This game is already full or finished');
-        setJoinLoading(false);
+      const hasOpenSeat = !game.player2 && !game.player2GuestId;
+      const canJoin = hasOpenSeat && (game.gameStatus === 'waiting' || game.gameStatus === 'playing');
+
+      // Full or in-progress rooms open read-only as a spectator (private rooms stay closed)
+      if (!canJoin) {
+        if (game.hasPassword) {
+          setJoinError('This game is already full or finished');
+          setJoinLoading(false);
+          return;
+        }
+        navigate(`/game/${game.roomId}`);
         return;
       }
 
@@ -323,7 +365,16 @@ const HomePageContent: React.FC = () => {
               setBoardSize={setBoardSize}
               blockTwoEnds={blockTwoEnds}
               setBlockTwoEnds={setBlockTwoEnds}
+              timeControl={timeControl}
+              setTimeControl={setTimeControl}
+              opponent={opponent}
+              setOpponent={setOpponent}
+              variant={variant}
+              setVariant={setVariant}
+              opening={opening}
+              setOpening={(id) => setOpening(id as CaroOpening)}
               onCreateGame={handleCreateGame}
+              onQuickMatch={() => setQuickMatchOpen(true)}
             />
             <JoinGameCard
               joinRoomCode={joinRoomCode}
@@ -352,6 +403,21 @@ const HomePageContent: React.FC = () => {
       {/* Guest Name Dialog */}
 
 
+      {/* Quick Match Dialog */}
+      <QuickMatchDialog
+        open={quickMatchOpen}
+        onClose={() => setQuickMatchOpen(false)}
+        gameType="caro"
+        preferences={quickMatchPreferences}
+        onMatched={handleQuickMatched}
+      >
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 1 }}>
+          <Chip size="small" label={`${boardSize}x${boardSize}`} />
+          <Chip size="small" label={t(`home.timeControls.${quickMatchPreset.id}`)} />
+          {blockTwoEnds && <Chip size="small" label={t('home.blockTwoEnds')} />}
+        </Stack>
+      </QuickMatchDialog>
+
       {/* Password Dialog */}
       <PasswordDialog
         open={showPasswordDialog}
@@ -0,0 +1,161 @@
+/**
+ * QuickMatchDialog - Queue for an opponent with the given preferences.
+ * Shows a rated/casual choice before searching, then the live queue status
+ * (elapsed time, estimated wait, rating window) until a match is found.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography,
+  Box, Stack, Switch, FormControlLabel, LinearProgress, Alert,
+} from '@mui/material';
+import BoltIcon from '@mui/icons-material/Bolt';
+import { useLanguage } from '../../i18n';
+import { useAuth } from '../../contexts/AuthContext';
+import { useMatchmaking } from '../../hooks/useMatchmaking';
+import { MatchmakingGameType, MatchPreferences, MatchmakingMatched } from '../../types/matchmaking.types';
+
+interface QuickMatchDialogProps {
+  open: boolean;
+  onClose: () => void;
+  gameType: MatchmakingGameType;
+  preferences: MatchPreferences;
+  onMatched: (match: MatchmakingMatched) => void;
+  accentColor?: string;
+  children?: React.ReactNode; // preference controls, shown while not searching
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const QuickMatchDialog: React.FC<QuickMatchDialogProps> = ({
+  open,
+  onClose,
+  gameType,
+  preferences,
+  onMatched,
+  accentColor = '#7ec8e3',
+  children,
+}) => {
+  const { t } = useLanguage();
+  const { isAuthenticated } = useAuth();
+  const [rated, setRated] = useState(isAuthenticated);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const { searching, status, error, join, cancel } = useMatchmaking(isAuthenticated, onMatched);
+
+  useEffect(() => {
+    if (!isAuthenticated) setRated(false);
+  }, [isAuthenticated]);
+
+  // Tick locally between server status updates
+  useEffect(() => {
+    if (!searching) {
+      setElapsedMs(0);
+      return;
+    }
+    const startedAt = Date.now() - (status?.waitedMs ?? 0);
+    const interval = setInterval(() => setElapsedMs(Date.now() - startedAt), 1000);
+    return () => clearInterval(interval);
+  }, [searching, status]);
+
+  const handleClose = () => {
+    cancel();
+    onClose();
+  };
+
+  const renderSearching = () => (
+    <Box sx={{ py: 1 }}>
+      <LinearProgress sx={{ mb: 2, borderRadius: 1, '& .MuiLinearProgress-bar': { bgcolor: accentColor } }} />
+      <Typography variant="h4" textAlign="center" sx={{ fontWeight: 700, fontFamily: 'monospace', mb: 0.5 }}>
+        {formatDuration(Math.max(elapsedMs, status?.waitedMs ?? 0))}
+      </Typography>
+      <Typography variant="body2" textAlign="center" sx={{ color: 'text.secondary', mb: 2 }}>
+        {status?.estimatedWaitMs != null
+          ? t('matchmaking.estimatedWait', { time: formatDuration(status.estimatedWaitMs) })
+          : t('matchmaking.estimatingWait')}
+      </Typography>
+      {status && (
+        <Stack spacing={0.5}>
+          {status.rated && (
+            <Typography variant="body2">
+              {t('matchmaking.yourRating', { rating: Math.round(status.rating) })}
+              {' · '}
+              {status.ratingWindow != null
+                ? t('matchmaking.ratingWindow', { window: status.ratingWindow })
+                : t('matchmaking.anyRating')}
+            </Typography>
+          )}
+          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+            {t('matchmaking.queueSize', { count: status.queueSize })}
+          </Typography>
+        </Stack>
+      )}
+    </Box>
+  );
+
+  const renderSetup = () => (
+    <Box>
+      {children}
+      <FormControlLabel
+        sx={{ mt: 1, mx: 0 }}
+        control={(
+          <Switch
+            checked={rated}
+            onChange={e => setRated(e.target.checked)}
+            disabled={!isAuthenticated}
+          />
+        )}
+        label={(
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>{t('matchmaking.rated')}</Typography>
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              {isAuthenticated ? t('matchmaking.ratedHint') : t('matchmaking.ratedLoginRequired')}
+            </Typography>
+          </Box>
+        )}
+      />
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 700 }}>
+        <BoltIcon sx={{ color: accentColor }} />
+        {searching ? t('matchmaking.searching') : t('matchmaking.title')}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {t(`matchmaking.errors.${error}`)}
+          </Alert>
+        )}
+        {searching ? renderSearching() : renderSetup()}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        {searching ? (
+          <Button onClick={cancel} sx={{ textTransform: 'none', fontWeight: 600 }}>
+            {t('matchmaking.cancelSearch')}
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose} sx={{ textTransform: 'none' }}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => join(gameType, preferences, rated)}
+              sx={{ textTransform: 'none', fontWeight: 700, bgcolor: accentColor, '&:hover': { bgcolor: accentColor, opacity: 0.9 } }}
+            >
+              {t('matchmaking.findMatch')}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default QuickMatchDialog;
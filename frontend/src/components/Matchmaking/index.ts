@@ -0,0 +1 @@
+export { default as QuickMatchDialog } from './QuickMatchDialog';
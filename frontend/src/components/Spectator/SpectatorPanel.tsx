@@ -0,0 +1,154 @@
+/**
+ * SpectatorPanel - Spectator count chip with a popover listing watchers.
+ * Spectators additionally get the spectator-only chat (players never receive it).
+ * Shared by Caro, Go, Word Chain and Tinh Tuy rooms.
+ */
+import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
+import {
+  Box,
+  Chip,
+  Popover,
+  Typography,
+  TextField,
+  IconButton,
+  InputAdornment,
+} from '@mui/material';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import SendIcon from '@mui/icons-material/Send';
+import { useLanguage } from '../../i18n';
+import { useSpectators } from '../../hooks/useSpectators';
+import { SpectatorInfo } from '../../types/socket.types';
+
+interface SpectatorPanelProps {
+  room: string | null;               // socket room name (Go rooms use `go:<roomId>`)
+  isSpectator: boolean;              // current user is watching, not playing
+  initialSpectators?: SpectatorInfo[];
+  hideWhenEmpty?: boolean;
+}
+
+const EMPTY: SpectatorInfo[] = [];
+
+const SpectatorPanel: React.FC<SpectatorPanelProps> = ({
+  room,
+  isSpectator,
+  initialSpectators = EMPTY,
+  hideWhenEmpty = false,
+}) => {
+  const { t } = useLanguage();
+  const { spectators, count, messages, sendChat } = useSpectators(room, initialSpectators);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [draft, setDraft] = useState('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (anchorEl) messagesEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, anchorEl]);
+
+  const handleSend = useCallback(() => {
+    if (!draft.trim()) return;
+    sendChat(draft);
+    setDraft('');
+  }, [draft, sendChat]);
+
+  if (!room || (hideWhenEmpty && count === 0 && !isSpectator)) return null;
+
+  return (
+    <>
+      <Chip
+        icon={<VisibilityIcon sx={{ fontSize: 16 }} />}
+        label={isSpectator
+          ? t('spectator.watchingCount', { count })
+          : t('spectator.count', { count })}
+        size="small"
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        sx={{
+          fontWeight: 600,
+          bgcolor: isSpectator ? 'rgba(155, 89, 182, 0.12)' : 'rgba(126, 200, 227, 0.12)',
+          color: isSpectator ? '#8e44ad' : '#2c3e50',
+          border: '1px solid',
+          borderColor: isSpectator ? 'rgba(155, 89, 182, 0.3)' : 'rgba(126, 200, 227, 0.3)',
+        }}
+      />
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'center' }}
+        slotProps={{ paper: { sx: { width: 300, maxWidth: '90vw', borderRadius: 2, p: 2 } } }}
+      >
+        <Typography variant="subtitle2" sx={{ fontWeight: 700, color: '#2c3e50', mb: 1 }}>
+          {t('spectator.title')} ({count})
+        </Typography>
+        {spectators.length === 0 ? (
+          <Typography variant="body2" sx={{ color: '#95a5a6' }}>
+            {t('spectator.none')}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, maxHeight: 96, overflowY: 'auto' }}>
+            {spectators.map(s => (
+              <Chip key={s.id} label={s.name} size="small" variant="outlined" />
+            ))}
+          </Box>
+        )}
+
+        {isSpectator && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="caption" sx={{ color: '#95a5a6', display: 'block', mb: 0.5 }}>
+              {t('spectator.chatHint')}
+            </Typography>
+            <Box
+              sx={{
+                height: 160,
+                overflowY: 'auto',
+                bgcolor: 'rgba(0, 0, 0, 0.03)',
+                borderRadius: 1,
+                p: 1,
+                mb: 1,
+              }}
+            >
+              {messages.length === 0 ? (
+                <Typography variant="body2" sx={{ color: '#b0b8c0' }}>
+                  {t('spectator.noMessages')}
+                </Typography>
+              ) : (
+                messages.map(m => (
+                  <Typography key={`${m.fromId}-${m.timestamp}`} variant="body2" sx={{ wordBreak: 'break-word' }}>
+                    <Box component="span" sx={{ fontWeight: 700, color: '#8e44ad' }}>{m.fromName}:</Box> {m.message}
+                  </Typography>
+                ))
+              )}
+              <div ref={messagesEndRef} />
+            </Box>
+            <TextField
+              size="small"
+              fullWidth
+              value={draft}
+              placeholder={t('spectator.chatPlaceholder')}
+              onChange={(e) => setDraft(e.target.value.slice(0, 200))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              slotProps={{
+                input: {
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton size="small" onClick={handleSend} disabled={!draft.trim()}>
+                        <SendIcon fontSize="small" />
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                },
+              }}
+            />
+          </Box>
+        )}
+      </Popover>
+    </>
+  );
+};
+
+export default memo(SpectatorPanel);
@@ -0,0 +1 @@
+export { default as SpectatorPanel } from './SpectatorPanel';
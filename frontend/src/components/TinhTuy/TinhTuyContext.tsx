@@ -13,7 +13,7 @@ import { API_BASE_URL } from '../../utils/constants';
 import {
   TinhTuyState, TinhTuyAction, TinhTuyView, TinhTuyPlayer, TinhTuyCharacter,
   TinhTuySettings, WaitingRoomInfo, CreateRoomPayload, DEFAULT_SETTINGS,
-  BOARD_CELLS, Reaction,
+  BOARD_CELLS, Reaction, TradeAssets,
 } from './tinh-tuy-types';
 import { tinhTuySounds } from './tinh-tuy-sounds';
 import { CHARACTER_ABILITIES } from './tinh-tuy-abilities';
@@ -68,6 +68,8 @@ const initialState: TinhTuyState = {
   isHost: false,
   mySlot: null,
   hasPassword: false,
+  isSpectator: false,
+  spectators: [],
   gameStatus: 'waiting',
   currentPlayerSlot: 1,
   turnPhase: 'ROLL_DICE',
@@ -76,6 +78,8 @@ const initialState: TinhTuyState = {
   diceAnimating: false,
   round: 0,
   lateGameActive: false,
+  gameStartedAt: 0,
+  finalRound: null,
   pendingAction: null,
   festival: null,
   winner: null,
@@ -133,9 +137,11 @@ const initialState: TinhTuyState = {
   nearWinWarning: null as { slot: number; type: string; missingCells?: number[]; completedGroups?: number; edgeIndex?: number } | null,
   buyBlockPrompt: null,
   eminentDomainPrompt: null,
-  pendingNegotiate: null,
-  negotiateCooldownUntil: 0,
-  negotiateWizardOpen: false,
+  pendingTrades: [],
+  tradeLog: [],
+  tradeCooldowns: {},
+  tradeBuilder: null,
+  auction: null,
   // Ability state
   abilityModal: null,
   owlPickModal: null,
@@ -214,8 +220,13 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
       };
 
     case 'ROOM_JOINED': {
-      saveRoomSession(action.payload.roomCode);
+      // Spectators don't auto-rejoin — join-room would try to take a slot
+      if (!action.payload.isSpectator) saveRoomSession(action.payload.roomCode);
       const isPlaying = action.payload.gameStatus === 'playing';
+      const spectatorFields = {
+        isSpectator: !!action.payload.isSpectator,
+        spectators: action.payload.spectators || [],
+      };
       // On reconnect with full game state
       if (action.payload.reconnected && action.payload.game) {
         const g = action.payload.game;
@@ -233,13 +244,18 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
           festival: g.festival || null,
           frozenProperties: g.frozenProperties || [],
           lateGameActive: (g.round || 0) > 60,
+          gameStartedAt: g.gameStartedAt ? new Date(g.gameStartedAt).getTime() : 0,
+          finalRound: g.finalRound ?? null,
           // Restore sell prompt on reconnect with AWAITING_SELL phase
           sellPrompt: g.turnPhase === 'AWAITING_SELL'
             ? { deficit: Math.abs(mapPlayers(g.players).find((p: any) => p.slot === g.currentPlayerSlot)?.points ?? 0) }
             : null,
-          // Restore negotiate state
-          pendingNegotiate: g.pendingNegotiate || null,
-          negotiateWizardOpen: false,
+          // Restore trade state
+          pendingTrades: g.pendingTrades || [],
+          tradeLog: g.tradeLog || [],
+          tradeCooldowns: g.tradeCooldowns || {},
+          tradeBuilder: null,
+          auction: g.turnPhase === 'AWAITING_AUCTION' ? g.auction || null : null,
           // Restore ability modals on reconnect
           owlPickModal: g.turnPhase === 'AWAITING_OWL_PICK' && g._owlPendingCardsData?.length
             ? { cards: g._owlPendingCardsData }
@@ -252,6 +268,7 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
             const sp = g.players?.find((p: any) => p.slot === g.currentPlayerSlot)?.shibaRerollPending;
             return sp ? { original: sp.original, rerolled: sp.rerolled } : null;
           })(),
+          ...spectatorFields,
           error: null,
         };
       }
@@ -261,6 +278,7 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
         roomId: action.payload.roomId, roomCode: action.payload.roomCode,
         settings: action.payload.settings, players: mapPlayers(action.payload.players),
         gameStatus: action.payload.gameStatus,
+        ...spectatorFields,
         error: null,
       };
     }
@@ -282,6 +300,8 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
         turnPhase: g.turnPhase || 'ROLL_DICE',
         turnStartedAt: Date.now(),
         round: g.round || 1,
+        gameStartedAt: g.gameStartedAt ? new Date(g.gameStartedAt).getTime() : Date.now(),
+        finalRound: null,
         festival: g.festival || null,
         frozenProperties: g.frozenProperties || [],
         lastDiceResult: null, diceAnimating: false, pendingAction: null, winner: null,
@@ -562,52 +582,86 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
     case 'CLEAR_EMINENT_DOMAIN_PROMPT':
       return { ...state, eminentDomainPrompt: null };
 
-    case 'NEGOTIATE_INCOMING':
-      return { ...state, pendingNegotiate: action.payload, negotiateWizardOpen: false };
-
-    case 'NEGOTIATE_COMPLETED': {
-      if (action.payload.accepted && action.payload.cellIndex != null && action.payload.offerAmount != null) {
-        const { fromSlot, toSlot, cellIndex: negCell, offerAmount: negPrice } = action.payload;
-        const negKey = String(negCell);
-        let ngPlayers = dedupeProperty(state.players, negCell!, fromSlot);
-        ngPlayers = ngPlayers.map(p => {
-          if (p.slot === toSlot) {
-            const newHouses = { ...p.houses }; delete newHouses[negKey];
-            const newHotels = { ...p.hotels }; delete newHotels[negKey];
-            return { ...p, properties: p.properties.filter(idx => idx !== negCell), points: p.points + negPrice!, houses: newHouses, hotels: newHotels };
-          }
-          if (p.slot === fromSlot) {
-            const seller = state.players.find(sp => sp.slot === toSlot);
-            const sHouses = seller ? (seller.houses || {})[negKey] || 0 : 0;
-            const sHotel = seller ? !!(seller.hotels || {})[negKey] : false;
-            return {
-              ...p, points: p.points - negPrice!,
-              properties: [...p.properties.filter(idx => idx !== negCell), negCell!],
-              houses: sHouses > 0 ? { ...p.houses, [negKey]: sHouses } : p.houses,
-              hotels: sHotel ? { ...p.hotels, [negKey]: true } : p.hotels,
-            };
-          }
-          return p;
-        });
-        const ngFestival = action.payload.festival !== undefined ? action.payload.festival : state.festival;
-        const ngNotifs = addNotifs(state.pointNotifs, [{ slot: fromSlot, amount: -negPrice! }, { slot: toSlot, amount: negPrice! }]);
-        return { ...state, players: ngPlayers, pendingNegotiate: null, negotiateWizardOpen: false, festival: ngFestival, pointNotifs: ngNotifs };
-      }
-      // Rejected
-      const ngCooldown = action.payload.cooldownUntilRound && action.payload.fromSlot === state.mySlot
-        ? action.payload.cooldownUntilRound
-        : state.negotiateCooldownUntil;
-      return { ...state, pendingNegotiate: null, negotiateWizardOpen: false, negotiateCooldownUntil: ngCooldown };
+    case 'TRADE_PROPOSED':
+      return {
+        ...state,
+        pendingTrades: [...state.pendingTrades.filter(tr => tr.id !== action.payload.trade.id), action.payload.trade],
+      };
+
+    case 'TRADE_RESOLVED': {
+      const { tradeId, status, entry, cooldownUntilRound, players: snapshots, festival } = action.payload;
+      const tdState = {
+        pendingTrades: state.pendingTrades.filter(tr => tr.id !== tradeId),
+        tradeLog: [...state.tradeLog.filter(e => e.id !== entry.id), entry].slice(-30),
+        tradeCooldowns: status === 'rejected' && cooldownUntilRound
+          ? { ...state.tradeCooldowns, [`${entry.fromSlot}:${entry.toSlot}`]: cooldownUntilRound }
+          : state.tradeCooldowns,
+        // Counter-offer builder for a trade that no longer exists
+        tradeBuilder: state.tradeBuilder?.counterOf === tradeId ? null : state.tradeBuilder,
+      };
+      if (status !== 'accepted' || !snapshots) return { ...state, ...tdState };
+      // Accepted — replace traded assets with the server snapshot
+      const snapMap = new Map(snapshots.map(sn => [sn.slot, sn]));
+      const tdPlayers = state.players.map(p => {
+        const sn = snapMap.get(p.slot);
+        return sn
+          ? { ...p, points: sn.points, properties: sn.properties, houses: sn.houses, hotels: sn.hotels, cards: sn.cards }
+          : p;
+      });
+      const cashDelta = entry.request.points - entry.offer.points;
+      return {
+        ...state, ...tdState,
+        players: tdPlayers,
+        festival: festival !== undefined ? festival : state.festival,
+        pointNotifs: addNotifs(state.pointNotifs, [
+          { slot: entry.fromSlot, amount: cashDelta },
+          { slot: entry.toSlot, amount: -cashDelta },
+        ]),
+      };
     }
 
-    case 'NEGOTIATE_CANCELLED':
-      return { ...state, pendingNegotiate: null, negotiateWizardOpen: false };
+    case 'OPEN_TRADE_BUILDER':
+      return { ...state, tradeBuilder: action.payload };
 
-    case 'OPEN_NEGOTIATE_WIZARD':
-      return { ...state, negotiateWizardOpen: true };
+    case 'CLOSE_TRADE_BUILDER':
+      return { ...state, tradeBuilder: null };
 
-    case 'CLOSE_NEGOTIATE_WIZARD':
-      return { ...state, negotiateWizardOpen: false };
+    case 'AUCTION_STARTED':
+      return { ...state, auction: action.payload.auction, turnPhase: 'AWAITING_AUCTION', pendingAction: null };
+
+    case 'AUCTION_BID':
+      if (!state.auction) return state;
+      return {
+        ...state,
+        auction: {
+          ...state.auction,
+          highBid: action.payload.amount,
+          highBidderSlot: action.payload.slot,
+          endsAt: action.payload.endsAt,
+        },
+      };
+
+    case 'AUCTION_PASS':
+      if (!state.auction) return state;
+      return { ...state, auction: { ...state.auction, passed: [...state.auction.passed, action.payload.slot] } };
+
+    case 'AUCTION_ENDED': {
+      const { cellIndex, winnerSlot, amount, remainingPoints } = action.payload;
+      if (winnerSlot == null || remainingPoints == null) return { ...state, auction: null };
+      const dpAuction = freezePoints(state);
+      const dedupedAuction = dedupeProperty(state.players, cellIndex, winnerSlot);
+      return {
+        ...state,
+        auction: null,
+        players: dedupedAuction.map(p =>
+          p.slot === winnerSlot
+            ? { ...p, points: remainingPoints, properties: [...p.properties.filter(idx => idx !== cellIndex), cellIndex] }
+            : p
+        ),
+        displayPoints: dpAuction,
+        pendingNotifs: queueNotifs(state.pendingNotifs, [{ slot: winnerSlot, amount: -amount }]),
+      };
+    }
 
     case 'FORCED_TRADE_DONE': {
       const { traderSlot, traderCell, victimSlot, victimCell } = action.payload;
@@ -725,6 +779,9 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
     case 'LATE_GAME_STARTED':
       return { ...state, lateGameActive: true };
 
+    case 'FINAL_ROUND':
+      return { ...state, finalRound: action.payload.round };
+
     case 'TURN_CHANGED':
       // Queue turn change — applied after animations + modals + notifs settle
       return {
@@ -1406,7 +1463,7 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
 
     case 'ROOM_RESET': {
       const rg = action.payload.game;
-      saveRoomSession(rg.roomCode);
+      if (!state.isSpectator) saveRoomSession(rg.roomCode);
       return {
         ...initialState,
         waitingRooms: state.waitingRooms,
@@ -1417,6 +1474,8 @@ function tinhTuyReducer(state: TinhTuyState, action: TinhTuyAction): TinhTuyStat
         players: mapPlayers(rg.players),
         isHost: state.isHost,
         mySlot: state.mySlot,
+        isSpectator: state.isSpectator,
+        spectators: state.spectators,
         gameStatus: 'waiting',
       };
     }
@@ -1563,6 +1622,7 @@ interface TinhTuyContextValue {
   state: TinhTuyState;
   createRoom: (payload: CreateRoomPayload) => void;
   joinRoom: (roomCode: string, password?: string) => void;
+  spectateRoom: (roomCode: string, password?: string) => void;
   leaveRoom: () => void;
   startGame: () => Promise<boolean>;
   rollDice: () => void;
@@ -1606,11 +1666,14 @@ interface TinhTuyContextValue {
   buybackProperty: (cellIndex: number, accept: boolean) => void;
   selectCharacter: (character: TinhTuyCharacter) => void;
   playAgain: () => void;
-  negotiateSend: (targetSlot: number, cellIndex: number, offerAmount: number) => void;
-  negotiateRespond: (accept: boolean) => void;
-  negotiateCancel: () => void;
-  openNegotiateWizard: () => void;
-  closeNegotiateWizard: () => void;
+  proposeTrade: (toSlot: number, offer: TradeAssets, request: TradeAssets) => Promise<boolean>;
+  counterTrade: (tradeId: string, offer: TradeAssets, request: TradeAssets) => Promise<boolean>;
+  respondTrade: (tradeId: string, accept: boolean) => void;
+  cancelTrade: (tradeId: string) => void;
+  openTradeBuilder: (toSlot?: number | null, counterOf?: string | null) => void;
+  closeTradeBuilder: () => void;
+  auctionBid: (amount: number) => void;
+  auctionPass: () => void;
   // Ability actions
   activateAbility: (data?: { targetSlot?: number; cellIndex?: number; steps?: number; deck?: string }) => void;
   owlPick: (cardId: string) => void;
@@ -1657,6 +1720,13 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
       getToast()?.success('tinhTuy.game.gameStarted');
     };
 
+    const handleFinalRound = (data: any) => {
+      // Clock fires once, but the lazy server-side check may announce it again
+      if (stateRef.current.finalRound != null) return;
+      dispatch({ type: 'FINAL_ROUND', payload: { round: data.round } });
+      getToast()?.warning('tinhTuy.game.finalRoundToast');
+    };
+
     const handleDiceResult = (data: any) => {
       dispatch({ type: 'DICE_RESULT', payload: data });
       tinhTuySounds.playSFX('diceRoll');
@@ -1864,14 +1934,37 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
       dispatch({ type: 'CLEAR_EMINENT_DOMAIN_PROMPT' });
     };
 
-    const handleNegotiateIncoming = (data: any) => {
-      dispatch({ type: 'NEGOTIATE_INCOMING', payload: data });
+    const handleTradeProposed = (data: any) => {
+      dispatch({ type: 'TRADE_PROPOSED', payload: data });
+      if (data.trade?.toSlot === stateRef.current.mySlot) {
+        const from = stateRef.current.players.find(p => p.slot === data.trade.fromSlot);
+        getToast()?.info('tinhTuy.trade.incomingToast', { params: { name: from?.displayName || '' } });
+      }
     };
-    const handleNegotiateCompleted = (data: any) => {
-      dispatch({ type: 'NEGOTIATE_COMPLETED', payload: data });
+    const handleTradeResolved = (data: any) => {
+      dispatch({ type: 'TRADE_RESOLVED', payload: data });
+    };
+
+    const handleAuctionStarted = (data: any) => {
+      dispatch({ type: 'AUCTION_STARTED', payload: data });
     };
-    const handleNegotiateCancelled = (data: any) => {
-      dispatch({ type: 'NEGOTIATE_CANCELLED', payload: data });
+    const handleAuctionBid = (data: any) => {
+      dispatch({ type: 'AUCTION_BID', payload: data });
+    };
+    const handleAuctionPass = (data: any) => {
+      dispatch({ type: 'AUCTION_PASS', payload: data });
+    };
+    const handleAuctionEnded = (data: any) => {
+      dispatch({ type: 'AUCTION_ENDED', payload: data });
+      if (data.winnerSlot != null) {
+        const winner = stateRef.current.players.find(p => p.slot === data.winnerSlot);
+        getToast()?.success('tinhTuy.auction.wonToast', {
+          params: { name: winner?.displayName || '', amount: (data.amount || 0).toLocaleString() },
+        });
+        tinhTuySounds.playSFX('purchase');
+      } else {
+        getToast()?.info('tinhTuy.auction.unsoldToast');
+      }
     };
 
     // Ability socket listeners
@@ -2002,9 +2095,12 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
     socket.on('tinh-tuy:buy-blocked' as any, handleBuyBlocked);
     socket.on('tinh-tuy:eminent-domain-prompt' as any, handleEminentDomainPrompt);
     socket.on('tinh-tuy:eminent-domain-applied' as any, handleEminentDomainApplied);
-    socket.on('tinh-tuy:negotiate-incoming' as any, handleNegotiateIncoming);
-    socket.on('tinh-tuy:negotiate-completed' as any, handleNegotiateCompleted);
-    socket.on('tinh-tuy:negotiate-cancelled' as any, handleNegotiateCancelled);
+    socket.on('tinh-tuy:trade-proposed' as any, handleTradeProposed);
+    socket.on('tinh-tuy:trade-resolved' as any, handleTradeResolved);
+    socket.on('tinh-tuy:auction-started' as any, handleAuctionStarted);
+    socket.on('tinh-tuy:auction-bid' as any, handleAuctionBid);
+    socket.on('tinh-tuy:auction-pass' as any, handleAuctionPass);
+    socket.on('tinh-tuy:auction-ended' as any, handleAuctionEnded);
     socket.on('tinh-tuy:ability-used' as any, handleAbilityUsed);
     socket.on('tinh-tuy:ability-prompt' as any, handleAbilityPrompt);
     socket.on('tinh-tuy:owl-pick-prompt' as any, handleOwlPickPrompt);
@@ -2024,6 +2120,7 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
     socket.on('tinh-tuy:room-reset' as any, handleRoomReset);
     socket.on('tinh-tuy:go-bonus' as any, handleGoBonus);
     socket.on('tinh-tuy:late-game-started' as any, () => dispatch({ type: 'LATE_GAME_STARTED' }));
+    socket.on('tinh-tuy:final-round' as any, handleFinalRound);
     socket.on('tinh-tuy:room-created' as any, handleLobbyUpdated);
     socket.on('tinh-tuy:lobby-room-updated' as any, handleLobbyUpdated);
 
@@ -2070,9 +2167,12 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
       socket.off('tinh-tuy:buy-blocked' as any, handleBuyBlocked);
       socket.off('tinh-tuy:eminent-domain-prompt' as any, handleEminentDomainPrompt);
       socket.off('tinh-tuy:eminent-domain-applied' as any, handleEminentDomainApplied);
-      socket.off('tinh-tuy:negotiate-incoming' as any, handleNegotiateIncoming);
-      socket.off('tinh-tuy:negotiate-completed' as any, handleNegotiateCompleted);
-      socket.off('tinh-tuy:negotiate-cancelled' as any, handleNegotiateCancelled);
+      socket.off('tinh-tuy:trade-proposed' as any, handleTradeProposed);
+      socket.off('tinh-tuy:trade-resolved' as any, handleTradeResolved);
+      socket.off('tinh-tuy:auction-started' as any, handleAuctionStarted);
+      socket.off('tinh-tuy:auction-bid' as any, handleAuctionBid);
+      socket.off('tinh-tuy:auction-pass' as any, handleAuctionPass);
+      socket.off('tinh-tuy:auction-ended' as any, handleAuctionEnded);
       socket.off('tinh-tuy:ability-used' as any, handleAbilityUsed);
       socket.off('tinh-tuy:ability-prompt' as any, handleAbilityPrompt);
       socket.off('tinh-tuy:owl-pick-prompt' as any, handleOwlPickPrompt);
@@ -2092,6 +2192,7 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
       socket.off('tinh-tuy:room-reset' as any, handleRoomReset);
       socket.off('tinh-tuy:go-bonus' as any, handleGoBonus);
       socket.off('tinh-tuy:late-game-started' as any);
+      socket.off('tinh-tuy:final-round' as any, handleFinalRound);
       socket.off('tinh-tuy:room-created' as any, handleLobbyUpdated);
       socket.off('tinh-tuy:lobby-room-updated' as any, handleLobbyUpdated);
     };
@@ -2183,11 +2284,6 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
         );
         if (me) {
           dispatch({ type: 'SET_MY_SLOT', payload: me.slot });
-          // Restore negotiate cooldown on reconnect
-          if (res.game?.negotiateCooldowns) {
-            const cd = res.game.negotiateCooldowns[String(me.slot)] || 0;
-            if (cd > 0) dispatch({ type: 'NEGOTIATE_COMPLETED', payload: { accepted: false, fromSlot: me.slot, toSlot: 0, cooldownUntilRound: cd } });
-          }
         }
         // Check host
         const hostId = res.game?.hostPlayerId || res.hostPlayerId;
@@ -2196,6 +2292,40 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, [getPlayerId, getPlayerName, isAuthenticated]);
 
+  const spectateRoom = useCallback((roomCode: string, password?: string) => {
+    const socket = socketService.getSocket();
+    if (!socket) {
+      dispatch({ type: 'SET_ERROR', payload: 'socketNotConnected' });
+      return;
+    }
+
+    const playerId = getPlayerId();
+    socket.emit('tinh-tuy:join-room' as any, {
+      roomCode: roomCode.toUpperCase(),
+      password,
+      spectate: true,
+      userId: isAuthenticated ? playerId : undefined,
+      guestId: isAuthenticated ? undefined : playerId,
+      guestName: isAuthenticated ? undefined : getPlayerName(),
+    }, (res: any) => {
+      if (res && !res.success) {
+        dispatch({ type: 'SET_ERROR', payload: res.error || 'failedToJoin' });
+      } else if (res?.success) {
+        // Full game snapshot — reuse the reconnect restore path
+        dispatch({
+          type: 'ROOM_JOINED',
+          payload: {
+            roomId: res.roomId, roomCode: res.roomCode,
+            settings: res.game?.settings, players: res.game?.players || [],
+            gameStatus: res.game?.gameStatus || 'waiting',
+            reconnected: true, game: res.game,
+            isSpectator: true, spectators: res.spectators,
+          },
+        });
+      }
+    });
+  }, [getPlayerId, getPlayerName, isAuthenticated]);
+
   const leaveRoom = useCallback(() => {
     const socket = socketService.getSocket();
     if (!socket || !stateRef.current.roomId) return;
@@ -2520,36 +2650,66 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
-  const negotiateSend = useCallback((targetSlot: number, cellIndex: number, offerAmount: number) => {
+  const proposeTrade = useCallback((toSlot: number, offer: TradeAssets, request: TradeAssets): Promise<boolean> => {
     const socket = socketService.getSocket();
-    if (!socket) return;
-    socket.emit('tinh-tuy:negotiate-send' as any, { targetSlot, cellIndex, offerAmount }, (res: any) => {
-      if (res && !res.success) dispatch({ type: 'SET_ERROR', payload: res.error });
+    if (!socket) return Promise.resolve(false);
+    return new Promise(resolve => {
+      socket.emit('tinh-tuy:trade-propose' as any, { toSlot, offer, request }, (res: any) => {
+        if (res && !res.success) getToast()?.error(`tinhTuy.trade.errors.${res.error || 'tradeFailed'}`);
+        resolve(!!res?.success);
+      });
     });
   }, []);
 
-  const negotiateRespond = useCallback((accept: boolean) => {
+  const counterTrade = useCallback((tradeId: string, offer: TradeAssets, request: TradeAssets): Promise<boolean> => {
+    const socket = socketService.getSocket();
+    if (!socket) return Promise.resolve(false);
+    return new Promise(resolve => {
+      socket.emit('tinh-tuy:trade-counter' as any, { tradeId, offer, request }, (res: any) => {
+        if (res && !res.success) getToast()?.error(`tinhTuy.trade.errors.${res.error || 'tradeFailed'}`);
+        resolve(!!res?.success);
+      });
+    });
+  }, []);
+
+  const respondTrade = useCallback((tradeId: string, accept: boolean) => {
     const socket = socketService.getSocket();
     if (!socket) return;
-    socket.emit('tinh-tuy:negotiate-respond' as any, { accept }, (res: any) => {
-      if (res && !res.success) dispatch({ type: 'SET_ERROR', payload: res.error });
+    socket.emit('tinh-tuy:trade-respond' as any, { tradeId, accept }, (res: any) => {
+      if (res && !res.success) getToast()?.error(`tinhTuy.trade.errors.${res.error || 'tradeFailed'}`);
     });
   }, []);
 
-  const negotiateCancel = useCallback(() => {
+  const cancelTrade = useCallback((tradeId: string) => {
     const socket = socketService.getSocket();
     if (!socket) return;
-    socket.emit('tinh-tuy:negotiate-cancel' as any, {}, (res: any) => {
-      if (res && !res.success) dispatch({ type: 'SET_ERROR', payload: res.error });
+    socket.emit('tinh-tuy:trade-cancel' as any, { tradeId }, (res: any) => {
+      if (res && !res.success) getToast()?.error(`tinhTuy.trade.errors.${res.error || 'tradeFailed'}`);
     });
   }, []);
 
-  const openNegotiateWizard = useCallback(() => {
-    dispatch({ type: 'OPEN_NEGOTIATE_WIZARD' });
+  const openTradeBuilder = useCallback((toSlot: number | null = null, counterOf: string | null = null) => {
+    dispatch({ type: 'OPEN_TRADE_BUILDER', payload: { toSlot, counterOf } });
   }, []);
 
-  const closeNegotiateWizard = useCallback(() => {
-    dispatch({ type: 'CLOSE_NEGOTIATE_WIZARD' });
+  const closeTradeBuilder = useCallback(() => {
+    dispatch({ type: 'CLOSE_TRADE_BUILDER' });
+  }, []);
+
+  const auctionBid = useCallback((amount: number) => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+    socket.emit('tinh-tuy:auction-bid' as any, { amount }, (res: any) => {
+      if (res && !res.success) getToast()?.error(`tinhTuy.auction.errors.${res.error || 'auctionFailed'}`);
+    });
+  }, []);
+
+  const auctionPass = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+    socket.emit('tinh-tuy:auction-pass' as any, {}, (res: any) => {
+      if (res && !res.success) getToast()?.error(`tinhTuy.auction.errors.${res.error || 'auctionFailed'}`);
+    });
   }, []);
 
   // ─── Ability Actions ────────────────────────────────
@@ -3095,22 +3255,24 @@ export const TinhTuyProvider: React.FC<{ children: ReactNode }> = ({ children })
   // Memoize context value to prevent cascading re-renders of all consumers
   // on every provider render. Only re-creates when state or callbacks change.
   const contextValue = useMemo<TinhTuyContextValue>(() => ({
-    state, createRoom, joinRoom, leaveRoom, startGame,
+    state, createRoom, joinRoom, spectateRoom, leaveRoom, startGame,
     rollDice, buyProperty, skipBuy, surrender,
     refreshRooms, setView, updateRoom,
     buildHouse, buildHotel, escapeIsland, sendChat, sendReaction, dismissReaction, updateGuestName,
     clearCard, clearRentAlert, clearTaxAlert, clearIslandAlert, clearTravelPending,
     travelTo, applyFestival, skipBuild, sellBuildings, chooseFreeHouse, chooseFreeHotel, attackPropertyChoose, chooseDestination, forcedTradeChoose, rentFreezeChoose, chooseBuyBlockTarget, chooseEminentDomain, clearAttackAlert, clearForcedTradeAlert, clearAutoSold, clearGoBonus, clearBankruptAlert, clearMonopolyAlert, clearNearWinWarning, buybackProperty, selectCharacter, playAgain,
-    negotiateSend, negotiateRespond, negotiateCancel, openNegotiateWizard, closeNegotiateWizard,
+    proposeTrade, counterTrade, respondTrade, cancelTrade, openTradeBuilder, closeTradeBuilder,
+    auctionBid, auctionPass,
     activateAbility, owlPick, horseAdjustPick, shibaReroll, shibaRerollPick, rabbitBonusPick, clearAbilityModal, clearAbilityUsedAlert, clearChickenDrain, clearSlothAutoBuild, clearFoxSwapAlert,
   }), [
-    state, createRoom, joinRoom, leaveRoom, startGame,
+    state, createRoom, joinRoom, spectateRoom, leaveRoom, startGame,
     rollDice, buyProperty, skipBuy, surrender,
     refreshRooms, setView, updateRoom,
     buildHouse, buildHotel, escapeIsland, sendChat, sendReaction, dismissReaction, updateGuestName,
     clearCard, clearRentAlert, clearTaxAlert, clearIslandAlert, clearTravelPending,
     travelTo, applyFestival, skipBuild, sellBuildings, chooseFreeHouse, chooseFreeHotel, attackPropertyChoose, chooseDestination, forcedTradeChoose, rentFreezeChoose, chooseBuyBlockTarget, chooseEminentDomain, clearAttackAlert, clearForcedTradeAlert, clearAutoSold, clearGoBonus, clearBankruptAlert, clearMonopolyAlert, clearNearWinWarning, buybackProperty, selectCharacter, playAgain,
-    negotiateSend, negotiateRespond, negotiateCancel, openNegotiateWizard, closeNegotiateWizard,
+    proposeTrade, counterTrade, respondTrade, cancelTrade, openTradeBuilder, closeTradeBuilder,
+    auctionBid, auctionPass,
     activateAbility, owlPick, horseAdjustPick, shibaReroll, shibaRerollPick, rabbitBonusPick, clearAbilityModal, clearAbilityUsedAlert, clearChickenDrain, clearSlothAutoBuild, clearFoxSwapAlert,
   ]);
 
@@ -24,13 +24,15 @@ export const TinhTuyCreateRoom: React.FC<Props> = ({ open, onClose }) => {
   const [maxPlayers, setMaxPlayers] = useState(DEFAULT_SETTINGS.maxPlayers);
   const [startingPoints, setStartingPoints] = useState(DEFAULT_SETTINGS.startingPoints);
   const [gameMode, setGameMode] = useState<TinhTuyGameMode>(DEFAULT_SETTINGS.gameMode);
+  const [timeLimit, setTimeLimit] = useState(DEFAULT_SETTINGS.timeLimit || 60);
   const [turnDuration, setTurnDuration] = useState(DEFAULT_SETTINGS.turnDuration);
   const [abilitiesEnabled, setAbilitiesEnabled] = useState(DEFAULT_SETTINGS.abilitiesEnabled);
+  const [auctionEnabled, setAuctionEnabled] = useState(DEFAULT_SETTINGS.auctionEnabled ?? false);
   const [password, setPassword] = useState('');
 
   const handleCreate = () => {
     createRoom({
-      settings: { maxPlayers, startingPoints, gameMode, turnDuration, abilitiesEnabled },
+      settings: { maxPlayers, startingPoints, gameMode, timeLimit, turnDuration, abilitiesEnabled, auctionEnabled },
       password: password.trim() || undefined,
     });
     onClose();
@@ -49,9 +51,11 @@ export const TinhTuyCreateRoom: React.FC<Props> = ({ open, onClose }) => {
           maxPlayers={maxPlayers} setMaxPlayers={setMaxPlayers}
           startingPoints={startingPoints} setStartingPoints={setStartingPoints}
           gameMode={gameMode} setGameMode={setGameMode}
+          timeLimit={timeLimit} setTimeLimit={setTimeLimit}
           turnDuration={turnDuration} setTurnDuration={setTurnDuration}
           password={password} setPassword={setPassword}
           abilitiesEnabled={abilitiesEnabled} setAbilitiesEnabled={setAbilitiesEnabled}
+          auctionEnabled={auctionEnabled} setAuctionEnabled={setAuctionEnabled}
         />
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 2 }}>
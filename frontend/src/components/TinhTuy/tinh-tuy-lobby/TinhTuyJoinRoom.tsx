@@ -2,14 +2,15 @@
  * TinhTuyJoinRoom — Inline join-by-code input.
  */
 import React, { useState } from 'react';
-import { Box, TextField, Button } from '@mui/material';
+import { Box, TextField, Button, IconButton, Tooltip } from '@mui/material';
 import LoginIcon from '@mui/icons-material/Login';
+import VisibilityIcon from '@mui/icons-material/Visibility';
 import { useLanguage } from '../../../i18n';
 import { useTinhTuy } from '../TinhTuyContext';
 
 export const TinhTuyJoinRoom: React.FC = () => {
   const { t } = useLanguage();
-  const { joinRoom } = useTinhTuy();
+  const { joinRoom, spectateRoom } = useTinhTuy();
   const [code, setCode] = useState('');
 
   const handleJoin = () => {
@@ -20,6 +21,14 @@ export const TinhTuyJoinRoom: React.FC = () => {
     }
   };
 
+  const handleWatch = () => {
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed.length === 6) {
+      spectateRoom(trimmed);
+      setCode('');
+    }
+  };
+
   return (
     <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
       <TextField
@@ -44,6 +53,17 @@ export const TinhTuyJoinRoom: React.FC = () => {
       >
         {t('tinhTuy.lobby.joinRoom')}
       </Button>
+      <Tooltip title={t('spectator.watch')}>
+        <span>
+          <IconButton
+            onClick={handleWatch}
+            disabled={code.trim().length !== 6}
+            sx={{ color: '#8e44ad' }}
+          >
+            <VisibilityIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
     </Box>
   );
 };
@@ -15,25 +15,32 @@ interface Props {
   setStartingPoints: (v: number) => void;
   gameMode: TinhTuyGameMode;
   setGameMode: (v: TinhTuyGameMode) => void;
+  timeLimit: number;
+  setTimeLimit: (v: number) => void;
   turnDuration: number;
   setTurnDuration: (v: number) => void;
   password: string;
   setPassword: (v: string) => void;
   abilitiesEnabled: boolean;
   setAbilitiesEnabled: (v: boolean) => void;
+  auctionEnabled: boolean;
+  setAuctionEnabled: (v: boolean) => void;
   minMaxPlayers?: number;
 }
 
 const STARTING_POINTS_OPTIONS = [10000, 15000, 20000, 30000, 50000];
 const TURN_DURATION_OPTIONS = [30, 60, 90, 120];
+const TIME_LIMIT_OPTIONS = [15, 30, 45, 60, 90]; // minutes
 
 export const TinhTuySettingsForm: React.FC<Props> = ({
   maxPlayers, setMaxPlayers,
   startingPoints, setStartingPoints,
   gameMode, setGameMode,
+  timeLimit, setTimeLimit,
   turnDuration, setTurnDuration,
   password, setPassword,
   abilitiesEnabled, setAbilitiesEnabled,
+  auctionEnabled, setAuctionEnabled,
   minMaxPlayers = 2,
 }) => {
   const { t } = useLanguage();
@@ -106,6 +113,27 @@ export const TinhTuySettingsForm: React.FC<Props> = ({
         </ToggleButtonGroup>
       </Box>
 
+      {/* Time Limit (timed mode) */}
+      {gameMode === 'timed' && (
+        <Box>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+            {t('tinhTuy.settings.timeLimit')}
+          </Typography>
+          <ToggleButtonGroup
+            value={timeLimit}
+            exclusive
+            onChange={(_, v) => v !== null && setTimeLimit(v)}
+            size="small"
+          >
+            {TIME_LIMIT_OPTIONS.map(n => (
+              <ToggleButton key={n} value={n} sx={{ px: 1.5, fontWeight: 600, fontSize: '0.8rem' }}>
+                {t('tinhTuy.settings.minutes', { minutes: n })}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      )}
+
       {/* Turn Duration */}
       <Box>
         <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
@@ -138,6 +166,19 @@ export const TinhTuySettingsForm: React.FC<Props> = ({
         </Box>
       </Box>
 
+      {/* Property Auctions */}
+      <Box>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+          {t('tinhTuy.settings.auction')}
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Switch checked={auctionEnabled} onChange={(_, v) => setAuctionEnabled(v)} color="secondary" />
+          <Typography variant="body2" sx={{ color: auctionEnabled ? '#9b59b6' : 'text.secondary' }}>
+            {auctionEnabled ? t('tinhTuy.settings.auctionOn') : t('tinhTuy.settings.auctionOff')}
+          </Typography>
+        </Box>
+      </Box>
+
       {/* Password */}
       <Box>
         <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
@@ -35,6 +35,7 @@ import {
   TinhTuyFloatingMessage,
   TinhTuyChatOverlay,
 } from '../tinh-tuy-play/TinhTuyChat';
+import { SpectatorPanel } from '../../Spectator';
 
 export const TinhTuyWaitingRoom: React.FC = () => {
   const { t } = useLanguage();
@@ -51,8 +52,10 @@ export const TinhTuyWaitingRoom: React.FC = () => {
   const [editMaxPlayers, setEditMaxPlayers] = useState(state.settings?.maxPlayers || 4);
   const [editStartingPoints, setEditStartingPoints] = useState(state.settings?.startingPoints || 20000);
   const [editGameMode, setEditGameMode] = useState<TinhTuyGameMode>(state.settings?.gameMode || 'classic');
+  const [editTimeLimit, setEditTimeLimit] = useState(state.settings?.timeLimit || 60);
   const [editTurnDuration, setEditTurnDuration] = useState(state.settings?.turnDuration || 60);
   const [editAbilitiesEnabled, setEditAbilitiesEnabled] = useState(state.settings?.abilitiesEnabled ?? true);
+  const [editAuctionEnabled, setEditAuctionEnabled] = useState(state.settings?.auctionEnabled ?? false);
   const [editPassword, setEditPassword] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -87,8 +90,10 @@ export const TinhTuyWaitingRoom: React.FC = () => {
     setEditMaxPlayers(state.settings?.maxPlayers || 4);
     setEditStartingPoints(state.settings?.startingPoints || 20000);
     setEditGameMode(state.settings?.gameMode || 'classic');
+    setEditTimeLimit(state.settings?.timeLimit || 60);
     setEditTurnDuration(state.settings?.turnDuration || 60);
     setEditAbilitiesEnabled(state.settings?.abilitiesEnabled ?? true);
+    setEditAuctionEnabled(state.settings?.auctionEnabled ?? false);
     setEditPassword('');
     setShowSettings(true);
   };
@@ -100,8 +105,10 @@ export const TinhTuyWaitingRoom: React.FC = () => {
         maxPlayers: editMaxPlayers,
         startingPoints: editStartingPoints,
         gameMode: editGameMode,
+        timeLimit: editTimeLimit,
         turnDuration: editTurnDuration,
         abilitiesEnabled: editAbilitiesEnabled,
+        auctionEnabled: editAuctionEnabled,
       },
     });
     setIsSaving(false);
@@ -153,7 +160,13 @@ export const TinhTuyWaitingRoom: React.FC = () => {
               <MenuBookIcon sx={{ fontSize: 20 }} />
             </IconButton>
           </Tooltip>
-          <TinhTuyChatButton onSend={sendChat} />
+          <SpectatorPanel
+            room={state.roomId}
+            isSpectator={state.isSpectator}
+            initialSpectators={state.spectators}
+            hideWhenEmpty
+          />
+          {!state.isSpectator && <TinhTuyChatButton onSend={sendChat} />}
           {state.isHost && (
             <Tooltip title={t('tinhTuy.settings.edit')}>
               <IconButton onClick={openSettings} size="small" sx={{ color: '#9b59b6' }}>
@@ -198,7 +211,9 @@ export const TinhTuyWaitingRoom: React.FC = () => {
             sx={{ fontWeight: 600, bgcolor: 'rgba(230, 126, 34, 0.12)', color: '#d35400' }}
           />
           <Chip
-            label={t(`tinhTuy.settings.${state.settings?.gameMode || 'classic'}`)}
+            label={state.settings?.gameMode === 'timed' && state.settings.timeLimit
+              ? `${t('tinhTuy.settings.timed')} · ${t('tinhTuy.settings.minutes', { minutes: state.settings.timeLimit })}`
+              : t(`tinhTuy.settings.${state.settings?.gameMode || 'classic'}`)}
             size="small"
             sx={{ fontWeight: 600, bgcolor: 'rgba(46, 204, 113, 0.12)', color: '#27ae60' }}
           />
@@ -209,6 +224,13 @@ export const TinhTuyWaitingRoom: React.FC = () => {
               sx={{ fontWeight: 600, bgcolor: 'rgba(155, 89, 182, 0.12)', color: '#8e44ad' }}
             />
           )}
+          {state.settings?.auctionEnabled && (
+            <Chip
+              label={t('tinhTuy.settings.auction')}
+              size="small"
+              sx={{ fontWeight: 600, bgcolor: 'rgba(52, 152, 219, 0.12)', color: '#2980b9' }}
+            />
+          )}
         </Box>
       </Paper>
 
@@ -226,7 +248,7 @@ export const TinhTuyWaitingRoom: React.FC = () => {
             return (
               <Box
                 key={char}
-                onClick={() => !isTaken && !isMyChoice && selectCharacter(char)}
+                onClick={() => !state.isSpectator && !isTaken && !isMyChoice && selectCharacter(char)}
                 sx={{
                   p: { xs: 1, sm: 1.5 },
                   borderRadius: 2.5,
@@ -373,7 +395,7 @@ export const TinhTuyWaitingRoom: React.FC = () => {
         <Button
           variant="outlined"
           startIcon={<ExitToAppIcon />}
-          onClick={() => setShowLeaveConfirm(true)}
+          onClick={() => (state.isSpectator ? leaveRoom() : setShowLeaveConfirm(true))}
           sx={{
             borderColor: '#e74c3c', color: '#e74c3c',
             '&:hover': { borderColor: '#c0392b', background: 'rgba(231, 76, 60, 0.08)' },
@@ -406,9 +428,11 @@ export const TinhTuyWaitingRoom: React.FC = () => {
             maxPlayers={editMaxPlayers} setMaxPlayers={setEditMaxPlayers}
             startingPoints={editStartingPoints} setStartingPoints={setEditStartingPoints}
             gameMode={editGameMode} setGameMode={setEditGameMode}
+            timeLimit={editTimeLimit} setTimeLimit={setEditTimeLimit}
             turnDuration={editTurnDuration} setTurnDuration={setEditTurnDuration}
             password={editPassword} setPassword={setEditPassword}
             abilitiesEnabled={editAbilitiesEnabled} setAbilitiesEnabled={setEditAbilitiesEnabled}
+            auctionEnabled={editAuctionEnabled} setAuctionEnabled={setEditAuctionEnabled}
             minMaxPlayers={state.players.length}
           />
         </DialogContent>
@@ -0,0 +1,207 @@
+/**
+ * TinhTuyAuctionModal — Live auction of a property the current player declined to buy.
+ * Everyone sees the bidding; eligible bidders can raise or drop out until the countdown ends.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions,
+  Button, Typography, Box, TextField, LinearProgress,
+} from '@mui/material';
+import GavelIcon from '@mui/icons-material/Gavel';
+import { useLanguage } from '../../../i18n';
+import { useTinhTuy } from '../TinhTuyContext';
+import {
+  BOARD_CELLS, GROUP_COLORS, PLAYER_COLORS, PropertyGroup, AUCTION_MIN_INCREMENT, getMinAuctionBid,
+} from '../tinh-tuy-types';
+
+/** Countdown bar scale — matches the server's opening window */
+const COUNTDOWN_SCALE_MS = 15_000;
+const QUICK_RAISES = [1, 5, 10];
+
+export const TinhTuyAuctionModal: React.FC = () => {
+  const { t } = useLanguage();
+  const { state, auctionBid, auctionPass } = useTinhTuy();
+  const auction = state.auction;
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [customBid, setCustomBid] = useState('');
+
+  const endsAt = auction ? new Date(auction.endsAt).getTime() : 0;
+  useEffect(() => {
+    if (!endsAt) return;
+    const tick = () => setRemainingMs(Math.max(0, endsAt - Date.now()));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  // New high bid — the old custom amount is probably too low now
+  useEffect(() => {
+    setCustomBid('');
+  }, [auction?.highBid]);
+
+  if (!auction) return null;
+
+  const cell = BOARD_CELLS[auction.cellIndex];
+  const groupColor = cell?.group ? GROUP_COLORS[cell.group as PropertyGroup] : '#9b59b6';
+  const me = state.players.find(p => p.slot === state.mySlot);
+  const leader = state.players.find(p => p.slot === auction.highBidderSlot);
+  const minBid = getMinAuctionBid(auction);
+  const isLeader = auction.highBidderSlot != null && auction.highBidderSlot === state.mySlot;
+  const canBid = !!me && !me.isBankrupt && auction.bidders.includes(me.slot)
+    && !auction.passed.includes(me.slot) && !isLeader;
+  const customAmount = Math.floor(Number(customBid) || 0);
+  const seconds = Math.ceil(remainingMs / 1000);
+
+  return (
+    <Dialog
+      open={true}
+      maxWidth="xs"
+      fullWidth
+      TransitionProps={{ timeout: 400 }}
+      PaperProps={{ sx: { borderRadius: 3, borderTop: `4px solid ${groupColor}` } }}
+    >
+      <DialogTitle sx={{ fontWeight: 700, textAlign: 'center', pb: 0.5 }}>
+        <GavelIcon sx={{ fontSize: 32, color: groupColor, mb: 0.5 }} />
+        <Typography variant="h6" sx={{ fontWeight: 700 }}>
+          {t('tinhTuy.auction.title')}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent sx={{ textAlign: 'center', pb: 1 }}>
+        {cell?.icon && (
+          <Box
+            component="img"
+            src={`/location/${cell.icon}`}
+            alt=""
+            sx={{ width: 140, height: 140, objectFit: 'contain', mx: 'auto', mb: 0.5, borderRadius: 2 }}
+          />
+        )}
+        <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+          {cell ? t(cell.name as any) : `Cell ${auction.cellIndex}`}
+        </Typography>
+        {cell?.price != null && (
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            {t('tinhTuy.auction.listPrice', { price: cell.price.toLocaleString() })}
+          </Typography>
+        )}
+
+        {/* Current high bid */}
+        <Box sx={{ my: 1.5, p: 1.25, borderRadius: 2, bgcolor: 'rgba(155,89,182,0.08)' }}>
+          <Typography variant="h5" sx={{ fontWeight: 800, color: '#9b59b6' }}>
+            {auction.highBid > 0 ? `${auction.highBid.toLocaleString()} TT` : t('tinhTuy.auction.noBids')}
+          </Typography>
+          {leader && (
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 0.75 }}>
+              <Box sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: PLAYER_COLORS[leader.slot] }} />
+              <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                {t('tinhTuy.auction.leader', { name: leader.displayName })}
+              </Typography>
+            </Box>
+          )}
+        </Box>
+
+        {/* Countdown */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, (remainingMs / COUNTDOWN_SCALE_MS) * 100)}
+            sx={{
+              flex: 1, height: 6, borderRadius: 3,
+              '& .MuiLinearProgress-bar': { bgcolor: seconds <= 3 ? '#e74c3c' : groupColor },
+            }}
+          />
+          <Typography variant="caption" sx={{ fontWeight: 700, fontVariantNumeric: 'tabular-nums', minWidth: 24 }}>
+            {seconds}s
+          </Typography>
+        </Box>
+
+        {/* Bidders */}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, justifyContent: 'center' }}>
+          {auction.bidders.map(slot => {
+            const p = state.players.find(pl => pl.slot === slot);
+            if (!p) return null;
+            const out = auction.passed.includes(slot) || p.isBankrupt;
+            return (
+              <Box key={slot} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, opacity: out ? 0.4 : 1 }}>
+                <Box sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: PLAYER_COLORS[slot] }} />
+                <Typography variant="caption" sx={{ fontWeight: 600, textDecoration: out ? 'line-through' : 'none' }}>
+                  {p.displayName}
+                </Typography>
+              </Box>
+            );
+          })}
+        </Box>
+
+        {/* Bid controls */}
+        {canBid && me && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', gap: 0.75, justifyContent: 'center', mb: 1 }}>
+              {QUICK_RAISES.map(steps => {
+                const amount = minBid + (steps - 1) * AUCTION_MIN_INCREMENT;
+                return (
+                  <Button
+                    key={steps}
+                    size="small"
+                    variant="outlined"
+                    disabled={amount > me.points}
+                    onClick={() => auctionBid(amount)}
+                    sx={{ borderColor: groupColor, color: groupColor, fontWeight: 700, minWidth: 0 }}
+                  >
+                    {amount.toLocaleString()}
+                  </Button>
+                );
+              })}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                type="number"
+                size="small"
+                fullWidth
+                placeholder={t('tinhTuy.auction.customBid', { min: minBid.toLocaleString() })}
+                value={customBid}
+                onChange={(e) => setCustomBid(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && customAmount >= minBid && customAmount <= me.points) auctionBid(customAmount);
+                }}
+                inputProps={{ min: minBid, max: me.points, step: AUCTION_MIN_INCREMENT }}
+              />
+              <Button
+                variant="contained"
+                disabled={customAmount < minBid || customAmount > me.points}
+                onClick={() => auctionBid(customAmount)}
+                sx={{
+                  background: 'linear-gradient(135deg, #9b59b6 0%, #8e44ad 100%)',
+                  '&:hover': { background: 'linear-gradient(135deg, #8e44ad 0%, #7d3c98 100%)' },
+                  fontWeight: 700, flexShrink: 0,
+                }}
+              >
+                {t('tinhTuy.auction.bid')}
+              </Button>
+            </Box>
+            <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'text.secondary' }}>
+              {t('tinhTuy.auction.yourCash', { points: me.points.toLocaleString() })}
+            </Typography>
+          </Box>
+        )}
+        {isLeader && (
+          <Typography variant="body2" sx={{ mt: 2, fontWeight: 600, color: '#27ae60' }}>
+            {t('tinhTuy.auction.youLead')}
+          </Typography>
+        )}
+        {!canBid && !isLeader && (
+          <Typography variant="body2" sx={{ mt: 2, color: 'text.secondary' }}>
+            {t('tinhTuy.auction.watching')}
+          </Typography>
+        )}
+      </DialogContent>
+
+      {canBid && (
+        <DialogActions sx={{ justifyContent: 'center', pb: 2 }}>
+          <Button onClick={auctionPass} color="inherit" size="small">
+            {t('tinhTuy.auction.pass')}
+          </Button>
+        </DialogActions>
+      )}
+    </Dialog>
+  );
+};
@@ -130,49 +130,54 @@ export const TinhTuyChat: React.FC = () => {
           })
         )}
       </Box>
-      <Box sx={{
-        display: 'flex', justifyContent: 'center', gap: 0.25, px: 0.75, py: 0.5,
-        borderTop: '1px solid rgba(0,0,0,0.06)', borderBottom: '1px solid rgba(0,0,0,0.06)',
-      }}>
-        {REACTION_EMOJIS.map((emoji) => (
-          <IconButton
-            key={emoji}
-            size="small"
-            onClick={() => handleReaction(emoji)}
-            disabled={reactionCooldown}
-            sx={{
-              width: 28, height: 28, fontSize: '1rem', p: 0,
-              borderRadius: 1, transition: 'transform 0.15s ease',
-              opacity: reactionCooldown ? 0.4 : 1,
-              '&:hover': { transform: 'scale(1.3)', bgcolor: 'rgba(155,89,182,0.08)' },
-            }}
-          >
-            {emoji}
-          </IconButton>
-        ))}
-      </Box>
-      <Box sx={{ display: 'flex', gap: 0.5, p: 0.75 }}>
-        <TextField
-          size="small"
-          fullWidth
-          value={input}
-          onChange={(e) => setInput(e.target.value.slice(0, MAX_MSG_LEN))}
-          onKeyDown={handleKeyDown}
-          placeholder={t('tinhTuy.game.chatPlaceholder' as any)}
-          sx={{
-            '& .MuiOutlinedInput-root': { borderRadius: 2, fontSize: '0.75rem' },
-            '& .MuiOutlinedInput-input': { py: 0.75 },
-          }}
-        />
-        <IconButton
-          size="small"
-          onClick={handleSend}
-          disabled={!input.trim()}
-          sx={{ color: '#9b59b6' }}
-        >
-          <SendIcon fontSize="small" />
-        </IconButton>
-      </Box>
+      {/* Spectators read player chat but can't post to it */}
+      {!state.isSpectator && (
+        <>
+          <Box sx={{
+            display: 'flex', justifyContent: 'center', gap: 0.25, px: 0.75, py: 0.5,
+            borderTop: '1px solid rgba(0,0,0,0.06)', borderBottom: '1px solid rgba(0,0,0,0.06)',
+          }}>
+            {REACTION_EMOJIS.map((emoji) => (
+              <IconButton
+                key={emoji}
+                size="small"
+                onClick={() => handleReaction(emoji)}
+                disabled={reactionCooldown}
+                sx={{
+                  width: 28, height: 28, fontSize: '1rem', p: 0,
+                  borderRadius: 1, transition: 'transform 0.15s ease',
+                  opacity: reactionCooldown ? 0.4 : 1,
+                  '&:hover': { transform: 'scale(1.3)', bgcolor: 'rgba(155,89,182,0.08)' },
+                }}
+              >
+                {emoji}
+              </IconButton>
+            ))}
+          </Box>
+          <Box sx={{ display: 'flex', gap: 0.5, p: 0.75 }}>
+            <TextField
+              size="small"
+              fullWidth
+              value={input}
+              onChange={(e) => setInput(e.target.value.slice(0, MAX_MSG_LEN))}
+              onKeyDown={handleKeyDown}
+              placeholder={t('tinhTuy.game.chatPlaceholder' as any)}
+              sx={{
+                '& .MuiOutlinedInput-root': { borderRadius: 2, fontSize: '0.75rem' },
+                '& .MuiOutlinedInput-input': { py: 0.75 },
+              }}
+            />
+            <IconButton
+              size="small"
+              onClick={handleSend}
+              disabled={!input.trim()}
+              sx={{ color: '#9b59b6' }}
+            >
+              <SendIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        </>
+      )}
     </Paper>
   );
 };
@@ -0,0 +1,69 @@
+/**
+ * TinhTuyGameClock — Game-wide countdown for timed mode.
+ * Derived from gameStartedAt + timeLimit; the server decides when the final round starts.
+ */
+import React, { useState, useEffect } from 'react';
+import { Box, Typography } from '@mui/material';
+import TimerIcon from '@mui/icons-material/Timer';
+import { useLanguage } from '../../../i18n';
+import { useTinhTuy } from '../TinhTuyContext';
+
+const LOW_TIME_MS = 60 * 1000;
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export const TinhTuyGameClock: React.FC = () => {
+  const { t } = useLanguage();
+  const { state } = useTinhTuy();
+  const timeLimit = state.settings?.timeLimit || 0;
+  const endsAt = state.gameStartedAt + timeLimit * 60 * 1000;
+  const [remaining, setRemaining] = useState(() => Math.max(0, endsAt - Date.now()));
+
+  useEffect(() => {
+    if (!state.gameStartedAt || !timeLimit) return;
+    const tick = () => setRemaining(Math.max(0, endsAt - Date.now()));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt, state.gameStartedAt, timeLimit]);
+
+  if (state.settings?.gameMode !== 'timed' || !timeLimit || !state.gameStartedAt) return null;
+
+  const isFinal = state.finalRound != null;
+  const isLow = isFinal || remaining <= LOW_TIME_MS;
+
+  return (
+    <Box
+      sx={{
+        display: 'flex', alignItems: 'center', gap: 1,
+        px: 1.25, py: 0.75, borderRadius: 2,
+        bgcolor: isLow ? 'rgba(231, 76, 60, 0.1)' : 'rgba(155, 89, 182, 0.08)',
+      }}
+    >
+      <TimerIcon sx={{ fontSize: 18, color: isLow ? '#e74c3c' : '#9b59b6' }} />
+      <Typography variant="caption" sx={{ fontWeight: 600, color: 'text.secondary', flex: 1 }}>
+        {t('tinhTuy.game.gameClock')}
+      </Typography>
+      {isFinal ? (
+        <Typography
+          variant="caption"
+          sx={{ fontWeight: 800, color: '#e74c3c', animation: 'pulse 1.5s infinite' }}
+        >
+          {t('tinhTuy.game.finalRound')}
+        </Typography>
+      ) : (
+        <Typography
+          variant="body2"
+          sx={{ fontWeight: 800, fontVariantNumeric: 'tabular-nums', color: isLow ? '#e74c3c' : '#9b59b6' }}
+        >
+          {formatClock(remaining)}
+        </Typography>
+      )}
+    </Box>
+  );
+};
@@ -54,11 +54,13 @@ export const TinhTuyGameOverModal: React.FC = () => {
 
   const reasonText = reason === 'roundsComplete'
     ? t('tinhTuy.result.reasonRoundsComplete' as any)
-    : reason === 'edgeDomination'
-      ? t('tinhTuy.result.reasonEdgeDomination' as any)
-      : reason === 'monopolyGroupDomination'
-        ? t('tinhTuy.result.reasonMonopolyGroupDomination' as any)
-        : t('tinhTuy.result.reasonLastStanding' as any);
+    : reason === 'timeUp'
+      ? t('tinhTuy.result.reasonTimeUp' as any)
+      : reason === 'edgeDomination'
+        ? t('tinhTuy.result.reasonEdgeDomination' as any)
+        : reason === 'monopolyGroupDomination'
+          ? t('tinhTuy.result.reasonMonopolyGroupDomination' as any)
+          : t('tinhTuy.result.reasonLastStanding' as any);
 
   return (
     <Dialog
@@ -18,6 +18,7 @@ import { PLAYER_COLORS, TinhTuyState } from '../tinh-tuy-types';
 import { TinhTuyBoard } from './TinhTuyBoard';
 import { TinhTuyDice3D } from './TinhTuyDice3D';
 import { TinhTuyTurnTimer } from './TinhTuyTurnTimer';
+import { TinhTuyGameClock } from './TinhTuyGameClock';
 import { TinhTuyActionModal } from './TinhTuyActionModal';
 import { TinhTuyCardModal } from './TinhTuyCardModal';
 import { TinhTuyBuildModal } from './TinhTuyBuildModal';
@@ -36,6 +37,7 @@ import { TinhTuyMonopolyAlert } from './TinhTuyMonopolyAlert';
 import { TinhTuyGameOverModal } from './TinhTuyGameOverModal';
 import { TinhTuyVolumeControl } from './TinhTuyVolumeControl';
 import { TinhTuyChat, TinhTuyChatOverlay, TinhTuyFloatingReaction } from './TinhTuyChat';
+import { SpectatorPanel } from '../../Spectator';
 import { TinhTuyAttackPropertyModal } from './TinhTuyAttackPropertyModal';
 import { TinhTuyForcedTradeModal } from './TinhTuyForcedTradeModal';
 import { TinhTuyRentFreezeModal } from './TinhTuyRentFreezeModal';
@@ -46,8 +48,9 @@ import { TinhTuyAutoSoldAlert } from './TinhTuyAutoSoldAlert';
 import { TinhTuyNearWinAlert } from './TinhTuyNearWinAlert';
 import { TinhTuyBuyBlockModal } from './TinhTuyBuyBlockModal';
 import { TinhTuyEminentDomainModal } from './TinhTuyEminentDomainModal';
-import { TinhTuyNegotiateWizard } from './TinhTuyNegotiateWizard';
-import { TinhTuyNegotiateModal } from './TinhTuyNegotiateModal';
+import { TinhTuyTradeBuilder } from './TinhTuyTradeBuilder';
+import { TinhTuyTradePanel } from './TinhTuyTradePanel';
+import { TinhTuyAuctionModal } from './TinhTuyAuctionModal';
 import { TinhTuyAbilityButton } from './TinhTuyAbilityButton';
 import { TinhTuyAbilityModal } from './TinhTuyAbilityModal';
 import { TinhTuyOwlPickModal } from './TinhTuyOwlPickModal';
@@ -57,7 +60,6 @@ import { TinhTuyRabbitBonusModal } from './TinhTuyRabbitBonusModal';
 import { TinhTuyFoxSwapAlert } from './TinhTuyFoxSwapAlert';
 import { TinhTuyAbilityUsedAlert } from './TinhTuyAbilityUsedAlert';
 import { TinhTuyAbilityInfoModal } from './TinhTuyAbilityInfoModal';
-import HandshakeIcon from '@mui/icons-material/Handshake';
 import MenuBookIcon from '@mui/icons-material/MenuBook';
 
 /* ─── Reusable Player Card ─────────────────────────────── */
@@ -189,7 +191,7 @@ export const TinhTuyPlayView: React.FC = () => {
   const { t } = useLanguage();
   const { setFullscreen } = useMainLayout();
   const { isAuthenticated } = useAuth();
-  const { state, leaveRoom, surrender, updateGuestName, openNegotiateWizard, dismissReaction } = useTinhTuy();
+  const { state, leaveRoom, surrender, updateGuestName, dismissReaction } = useTinhTuy();
 
   useEffect(() => {
     setFullscreen(true);
@@ -206,7 +208,8 @@ export const TinhTuyPlayView: React.FC = () => {
   const isMyTurn = state.currentPlayerSlot === state.mySlot;
   const myPlayer = state.players.find(p => p.slot === state.mySlot);
   const hasProperties = myPlayer && myPlayer.properties.length > 0;
-  const isBankrupt = myPlayer?.isBankrupt;
+  // Spectators have no player, so treat them like a bankrupt seat: no in-game actions
+  const isBankrupt = state.isSpectator || myPlayer?.isBankrupt;
 
   const isGuest = !isAuthenticated;
 
@@ -263,8 +266,17 @@ export const TinhTuyPlayView: React.FC = () => {
             </Tooltip>
           )}
           <TinhTuyVolumeControl />
+          <SpectatorPanel
+            room={state.roomId}
+            isSpectator={state.isSpectator}
+            initialSpectators={state.spectators}
+            hideWhenEmpty
+          />
         </Box>
 
+        {/* Game clock (timed mode) */}
+        <TinhTuyGameClock />
+
         {/* Turn Timer */}
         <TinhTuyTurnTimer />
 
@@ -303,26 +315,7 @@ export const TinhTuyPlayView: React.FC = () => {
               {t('tinhTuy.game.build' as any)}
             </Button>
           )}
-          {!isBankrupt && state.round >= 40 && !state.pendingNegotiate
-            && state.negotiateCooldownUntil <= state.round && (
-            <Button
-              size="small"
-              variant="outlined"
-              startIcon={<HandshakeIcon />}
-              onClick={() => openNegotiateWizard()}
-              sx={{
-                borderColor: 'rgba(230,126,34,0.5)', color: '#e67e22', fontWeight: 600,
-                '&:hover': { borderColor: '#d35400', bgcolor: 'rgba(230,126,34,0.08)' },
-              }}
-            >
-              {t('tinhTuy.game.negotiate' as any)}
-            </Button>
-          )}
-          {!isBankrupt && state.negotiateCooldownUntil > state.round && (
-            <Typography variant="caption" sx={{ color: 'text.secondary', textAlign: 'center', py: 0.5 }}>
-              {t('tinhTuy.game.negotiateCooldown' as any, { round: state.negotiateCooldownUntil })}
-            </Typography>
-          )}
+          <TinhTuyTradePanel />
           {!isBankrupt && (
             <Button
               size="small"
@@ -341,7 +334,7 @@ export const TinhTuyPlayView: React.FC = () => {
             size="small"
             variant="outlined"
             startIcon={<ExitToAppIcon />}
-            onClick={() => setShowLeaveConfirm(true)}
+            onClick={() => (state.isSpectator ? leaveRoom() : setShowLeaveConfirm(true))}
             sx={{
               borderColor: 'rgba(231,76,60,0.4)', color: '#e74c3c', fontWeight: 600,
               '&:hover': { borderColor: '#c0392b', bgcolor: 'rgba(231,76,60,0.08)' },
@@ -450,8 +443,8 @@ export const TinhTuyPlayView: React.FC = () => {
       <TinhTuyNearWinAlert />
       <TinhTuyBuyBlockModal />
       <TinhTuyEminentDomainModal />
-      <TinhTuyNegotiateWizard />
-      <TinhTuyNegotiateModal />
+      <TinhTuyTradeBuilder />
+      <TinhTuyAuctionModal />
       <TinhTuyAbilityModal />
       <TinhTuyOwlPickModal />
       <TinhTuyHorseAdjustModal />
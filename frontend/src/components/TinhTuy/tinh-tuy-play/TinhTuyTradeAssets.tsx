@@ -0,0 +1,60 @@
+/**
+ * TinhTuyTradeAssets — Compact read-only list of what one side of a trade hands over.
+ * Shared by the trade panel (open offers) and the trade log.
+ */
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useLanguage } from '../../../i18n';
+import { BOARD_CELLS, GROUP_COLORS, PropertyGroup, TradeAssets } from '../tinh-tuy-types';
+
+/** i18n label per tradable held card */
+export const TRADE_CARD_LABELS: Record<string, string> = {
+  'escape-island': 'tinhTuy.game.buffEscapeIsland',
+  shield: 'tinhTuy.game.buffShield',
+};
+
+export const isEmptyTradeAssets = (assets: TradeAssets) =>
+  assets.cells.length === 0 && assets.points === 0 && assets.cards.length === 0;
+
+interface Props {
+  assets: TradeAssets;
+}
+
+export const TinhTuyTradeAssets: React.FC<Props> = ({ assets }) => {
+  const { t } = useLanguage();
+
+  if (isEmptyTradeAssets(assets)) {
+    return (
+      <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+        {t('tinhTuy.trade.nothing')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25 }}>
+      {assets.cells.map(idx => {
+        const cell = BOARD_CELLS[idx];
+        const groupColor = cell?.group ? GROUP_COLORS[cell.group as PropertyGroup] : '#666';
+        return (
+          <Box key={idx} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+            <Box sx={{ width: 4, height: 14, borderRadius: 1, bgcolor: groupColor, flexShrink: 0 }} />
+            <Typography variant="caption" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+              {cell ? t(cell.name as any) : `#${idx}`}
+            </Typography>
+          </Box>
+        );
+      })}
+      {assets.points > 0 && (
+        <Typography variant="caption" sx={{ fontWeight: 700, color: '#27ae60' }}>
+          💰 {assets.points.toLocaleString()} TT
+        </Typography>
+      )}
+      {assets.cards.map((cardId, i) => (
+        <Typography key={`${cardId}-${i}`} variant="caption" sx={{ fontWeight: 600 }}>
+          🃏 {TRADE_CARD_LABELS[cardId] ? t(TRADE_CARD_LABELS[cardId] as any) : cardId}
+        </Typography>
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,284 @@
+/**
+ * TinhTuyTradeBuilder — Dialog to compose a trade offer or a counter-offer.
+ * Each side can mix properties, TT and tradable held cards.
+ * Counter-offers start from the original trade with both sides swapped.
+ */
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions,
+  Button, Typography, Box, TextField, Chip,
+} from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { useLanguage } from '../../../i18n';
+import { useTinhTuy } from '../TinhTuyContext';
+import {
+  BOARD_CELLS, GROUP_COLORS, PLAYER_COLORS, PropertyGroup,
+  TinhTuyPlayer, TradeAssets, TRADABLE_CARDS,
+} from '../tinh-tuy-types';
+import { TRADE_CARD_LABELS, isEmptyTradeAssets } from './TinhTuyTradeAssets';
+
+const ACCENT = '#e67e22';
+const EMPTY_ASSETS: TradeAssets = { cells: [], points: 0, cards: [] };
+
+export const TinhTuyTradeBuilder: React.FC = () => {
+  const { t } = useLanguage();
+  const { state, proposeTrade, counterTrade, closeTradeBuilder } = useTinhTuy();
+  const builder = state.tradeBuilder;
+  const mySlot = state.mySlot;
+  const myPlayer = state.players.find(p => p.slot === mySlot);
+
+  const counterOf = builder?.counterOf
+    ? state.pendingTrades.find(tr => tr.id === builder.counterOf) || null
+    : null;
+
+  const [partnerSlot, setPartnerSlot] = useState<number | null>(null);
+  const [offer, setOffer] = useState<TradeAssets>(EMPTY_ASSETS);
+  const [request, setRequest] = useState<TradeAssets>(EMPTY_ASSETS);
+  const [sending, setSending] = useState(false);
+
+  // Reset the form every time the dialog opens; a counter starts from the swapped original
+  useEffect(() => {
+    if (!builder) return;
+    if (counterOf) {
+      setPartnerSlot(counterOf.fromSlot);
+      setOffer(counterOf.request);
+      setRequest(counterOf.offer);
+    } else {
+      setPartnerSlot(builder.toSlot);
+      setOffer(EMPTY_ASSETS);
+      setRequest(EMPTY_ASSETS);
+    }
+    setSending(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [builder?.toSlot, builder?.counterOf]);
+
+  const partner = state.players.find(p => p.slot === partnerSlot);
+
+  // Players I can open a new trade with: alive, no open trade between us, no cooldown
+  const partners = useMemo(() => state.players.filter(p => {
+    if (p.isBankrupt || p.slot === mySlot) return false;
+    const hasOpenTrade = state.pendingTrades.some(tr =>
+      (tr.fromSlot === mySlot && tr.toSlot === p.slot) || (tr.fromSlot === p.slot && tr.toSlot === mySlot));
+    return !hasOpenTrade;
+  }), [state.players, state.pendingTrades, mySlot]);
+
+  const cooldownUntil = partnerSlot != null ? state.tradeCooldowns[`${mySlot}:${partnerSlot}`] || 0 : 0;
+  const onCooldown = !counterOf && cooldownUntil > state.round;
+
+  if (!builder || !myPlayer) return null;
+
+  const handleClose = () => {
+    if (!sending) closeTradeBuilder();
+  };
+
+  const handleSend = async () => {
+    if (partnerSlot == null) return;
+    setSending(true);
+    const ok = counterOf
+      ? await counterTrade(counterOf.id, offer, request)
+      : await proposeTrade(partnerSlot, offer, request);
+    setSending(false);
+    if (ok) closeTradeBuilder();
+  };
+
+  const toggleCell = (side: 'offer' | 'request', cellIdx: number) => {
+    const setter = side === 'offer' ? setOffer : setRequest;
+    setter(prev => ({
+      ...prev,
+      cells: prev.cells.includes(cellIdx) ? prev.cells.filter(c => c !== cellIdx) : [...prev.cells, cellIdx],
+    }));
+  };
+
+  // Cards are picked by id; holding two of the same card lets you add it twice
+  const toggleCard = (side: 'offer' | 'request', cardId: string, held: number) => {
+    const setter = side === 'offer' ? setOffer : setRequest;
+    setter(prev => {
+      const picked = prev.cards.filter(c => c === cardId).length;
+      const others = prev.cards.filter(c => c !== cardId);
+      const next = picked < held ? picked + 1 : 0;
+      return { ...prev, cards: [...others, ...Array(next).fill(cardId)] };
+    });
+  };
+
+  const setPoints = (side: 'offer' | 'request', raw: string, max: number) => {
+    const setter = side === 'offer' ? setOffer : setRequest;
+    const value = Math.max(0, Math.min(max, Math.floor(Number(raw) || 0)));
+    setter(prev => ({ ...prev, points: value }));
+  };
+
+  const renderSide = (side: 'offer' | 'request', owner: TinhTuyPlayer) => {
+    const assets = side === 'offer' ? offer : request;
+    const heldCards = TRADABLE_CARDS
+      .map(cardId => ({ cardId, held: owner.cards.filter(c => c === cardId).length }))
+      .filter(c => c.held > 0);
+
+    return (
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mb: 1 }}>
+          <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: PLAYER_COLORS[owner.slot], flexShrink: 0 }} />
+          <Typography variant="subtitle2" sx={{ fontWeight: 700 }}>
+            {side === 'offer' ? t('tinhTuy.trade.give') : t('tinhTuy.trade.get')}
+          </Typography>
+        </Box>
+
+        {/* Properties */}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, maxHeight: 220, overflowY: 'auto', mb: 1 }}>
+          {owner.properties.length === 0 && (
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              {t('tinhTuy.trade.noProperties')}
+            </Typography>
+          )}
+          {owner.properties.map(cellIdx => {
+            const cell = BOARD_CELLS[cellIdx];
+            if (!cell) return null;
+            const selected = assets.cells.includes(cellIdx);
+            const groupColor = cell.group ? GROUP_COLORS[cell.group as PropertyGroup] : '#666';
+            const houses = (owner.houses || {})[String(cellIdx)] || 0;
+            const hotel = !!(owner.hotels || {})[String(cellIdx)];
+            return (
+              <Button
+                key={cellIdx}
+                onClick={() => toggleCell(side, cellIdx)}
+                variant="outlined"
+                fullWidth
+                size="small"
+                sx={{
+                  justifyContent: 'flex-start', textTransform: 'none', py: 0.5,
+                  borderColor: selected ? ACCENT : 'divider',
+                  bgcolor: selected ? 'rgba(230,126,34,0.1)' : 'transparent',
+                  borderWidth: selected ? 2 : 1,
+                  '&:hover': { bgcolor: 'rgba(230,126,34,0.08)', borderColor: ACCENT },
+                }}
+              >
+                <Box sx={{ width: 5, minHeight: 24, alignSelf: 'stretch', bgcolor: groupColor, borderRadius: 1, mr: 1, flexShrink: 0 }} />
+                <Box sx={{ flex: 1, textAlign: 'left', minWidth: 0 }}>
+                  <Typography variant="body2" noWrap sx={{ fontWeight: 600, lineHeight: 1.2 }}>
+                    {t(cell.name as any)}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    {hotel ? '🏨' : houses > 0 ? `🏠x${houses}` : t('tinhTuy.game.land' as any)}
+                    {cell.price ? ` | ${cell.price} TT` : ''}
+                  </Typography>
+                </Box>
+              </Button>
+            );
+          })}
+        </Box>
+
+        {/* Cash */}
+        <TextField
+          type="number"
+          size="small"
+          fullWidth
+          label={t('tinhTuy.trade.cash')}
+          value={assets.points || ''}
+          onChange={(e) => setPoints(side, e.target.value, owner.points)}
+          inputProps={{ min: 0, max: owner.points, step: 100 }}
+          helperText={t('tinhTuy.trade.cashMax', { max: owner.points.toLocaleString() })}
+          sx={{ mb: 1 }}
+        />
+
+        {/* Held cards */}
+        {heldCards.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {heldCards.map(({ cardId, held }) => {
+              const picked = assets.cards.filter(c => c === cardId).length;
+              return (
+                <Chip
+                  key={cardId}
+                  size="small"
+                  label={`${t(TRADE_CARD_LABELS[cardId] as any)}${held > 1 ? ` ${picked}/${held}` : ''}`}
+                  onClick={() => toggleCard(side, cardId, held)}
+                  variant={picked > 0 ? 'filled' : 'outlined'}
+                  sx={picked > 0 ? { bgcolor: ACCENT, color: '#fff', '&:hover': { bgcolor: '#d35400' } } : undefined}
+                />
+              );
+            })}
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  const canSend = partner != null && !onCooldown && !sending
+    && !isEmptyTradeAssets(offer) && !isEmptyTradeAssets(request);
+
+  return (
+    <Dialog
+      open={true}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      TransitionProps={{ timeout: 400 }}
+      PaperProps={{ sx: { borderRadius: 3, borderTop: `4px solid ${ACCENT}` } }}
+    >
+      <DialogTitle sx={{ fontWeight: 700, textAlign: 'center', pb: 0.5 }}>
+        <SwapHorizIcon sx={{ fontSize: 32, color: ACCENT, mb: 0.5 }} />
+        <Typography variant="h6" sx={{ fontWeight: 700 }}>
+          {counterOf ? t('tinhTuy.trade.counterTitle') : t('tinhTuy.trade.title')}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent sx={{ pb: 1 }}>
+        {/* Partner — fixed when countering */}
+        {!counterOf && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75, mb: 2, justifyContent: 'center' }}>
+            {partners.length === 0 ? (
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                {t('tinhTuy.trade.noPartners')}
+              </Typography>
+            ) : partners.map(p => (
+              <Chip
+                key={p.slot}
+                label={p.displayName}
+                onClick={() => {
+                  setPartnerSlot(p.slot);
+                  setRequest(EMPTY_ASSETS);
+                }}
+                variant={partnerSlot === p.slot ? 'filled' : 'outlined'}
+                sx={{
+                  fontWeight: 600,
+                  borderColor: PLAYER_COLORS[p.slot],
+                  ...(partnerSlot === p.slot ? { bgcolor: PLAYER_COLORS[p.slot], color: '#fff' } : {}),
+                }}
+              />
+            ))}
+          </Box>
+        )}
+
+        {partner ? (
+          <>
+            <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', sm: 'row' } }}>
+              {renderSide('offer', myPlayer)}
+              {renderSide('request', partner)}
+            </Box>
+            {onCooldown && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 1.5, color: '#e74c3c', textAlign: 'center' }}>
+                {t('tinhTuy.trade.cooldown', { round: cooldownUntil })}
+              </Typography>
+            )}
+          </>
+        ) : partners.length > 0 && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', textAlign: 'center' }}>
+            {t('tinhTuy.trade.selectPartner')}
+          </Typography>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={handleClose} size="small" color="inherit" disabled={sending}>
+          {t('tinhTuy.trade.close')}
+        </Button>
+        <Button
+          onClick={handleSend}
+          variant="contained"
+          size="small"
+          disabled={!canSend}
+          sx={{ bgcolor: ACCENT, '&:hover': { bgcolor: '#d35400' } }}
+        >
+          {counterOf ? t('tinhTuy.trade.sendCounter') : t('tinhTuy.trade.propose')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,199 @@
+/**
+ * TinhTuyTradePanel — Open trades and trade history in the side panel.
+ * Incoming offers can be accepted, rejected or countered; my own offers can be withdrawn.
+ */
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Collapse, Typography } from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import { useLanguage } from '../../../i18n';
+import { useTinhTuy } from '../TinhTuyContext';
+import { PLAYER_COLORS, TinhTuyTrade, TradeStatus } from '../tinh-tuy-types';
+import { TinhTuyTradeAssets } from './TinhTuyTradeAssets';
+
+const ACCENT = '#e67e22';
+
+const STATUS_COLORS: Record<TradeStatus, string> = {
+  accepted: '#27ae60',
+  rejected: '#e74c3c',
+  countered: '#e67e22',
+  cancelled: '#95a5a6',
+  expired: '#95a5a6',
+};
+
+/** Seconds left before the server expires an offer — ticks locally */
+function useSecondsLeft(expiresAt: string): number {
+  const end = new Date(expiresAt).getTime();
+  const [left, setLeft] = useState(() => Math.max(0, Math.ceil((end - Date.now()) / 1000)));
+  useEffect(() => {
+    const tick = () => setLeft(Math.max(0, Math.ceil((end - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [end]);
+  return left;
+}
+
+const TradeCard: React.FC<{ trade: TinhTuyTrade; mySlot: number | null }> = ({ trade, mySlot }) => {
+  const { t } = useLanguage();
+  const { state, respondTrade, cancelTrade, openTradeBuilder } = useTinhTuy();
+  const secondsLeft = useSecondsLeft(trade.expiresAt);
+  const incoming = trade.toSlot === mySlot;
+  const otherSlot = incoming ? trade.fromSlot : trade.toSlot;
+  const other = state.players.find(p => p.slot === otherSlot);
+  // Always show from my point of view: what I give on the left, what I get on the right
+  const give = incoming ? trade.request : trade.offer;
+  const get = incoming ? trade.offer : trade.request;
+
+  return (
+    <Box sx={{ p: 1, borderRadius: 2, border: '1px solid', borderColor: incoming ? ACCENT : 'divider', bgcolor: incoming ? 'rgba(230,126,34,0.06)' : 'transparent' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mb: 0.75 }}>
+        <Box sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: PLAYER_COLORS[otherSlot], flexShrink: 0 }} />
+        <Typography variant="caption" sx={{ fontWeight: 700, flex: 1 }} noWrap>
+          {incoming
+            ? t('tinhTuy.trade.fromPlayer', { name: other?.displayName || '' })
+            : t('tinhTuy.trade.toPlayer', { name: other?.displayName || '' })}
+        </Typography>
+        <Typography variant="caption" sx={{ color: secondsLeft <= 15 ? '#e74c3c' : 'text.secondary', fontVariantNumeric: 'tabular-nums' }}>
+          {secondsLeft}s
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary', fontWeight: 600 }}>
+            {t('tinhTuy.trade.give')}
+          </Typography>
+          <TinhTuyTradeAssets assets={give} />
+        </Box>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary', fontWeight: 600 }}>
+            {t('tinhTuy.trade.get')}
+          </Typography>
+          <TinhTuyTradeAssets assets={get} />
+        </Box>
+      </Box>
+
+      {incoming ? (
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          <Button
+            size="small"
+            variant="contained"
+            onClick={() => respondTrade(trade.id, true)}
+            sx={{ flex: 1, minWidth: 0, bgcolor: '#27ae60', '&:hover': { bgcolor: '#2ecc71' }, fontSize: '0.7rem' }}
+          >
+            {t('tinhTuy.trade.accept')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => openTradeBuilder(trade.fromSlot, trade.id)}
+            sx={{ flex: 1, minWidth: 0, borderColor: ACCENT, color: ACCENT, fontSize: '0.7rem' }}
+          >
+            {t('tinhTuy.trade.counter')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => respondTrade(trade.id, false)}
+            sx={{ flex: 1, minWidth: 0, borderColor: 'rgba(231,76,60,0.4)', color: '#e74c3c', fontSize: '0.7rem' }}
+          >
+            {t('tinhTuy.trade.reject')}
+          </Button>
+        </Box>
+      ) : (
+        <Button
+          size="small"
+          fullWidth
+          variant="outlined"
+          color="inherit"
+          onClick={() => cancelTrade(trade.id)}
+          sx={{ fontSize: '0.7rem' }}
+        >
+          {t('tinhTuy.trade.withdraw')}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export const TinhTuyTradePanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { state, openTradeBuilder } = useTinhTuy();
+  const [showLog, setShowLog] = useState(false);
+  const mySlot = state.mySlot;
+  const me = state.players.find(p => p.slot === mySlot);
+  const canTrade = !!me && !me.isBankrupt && state.gameStatus === 'playing';
+
+  const myTrades = state.pendingTrades.filter(tr => tr.fromSlot === mySlot || tr.toSlot === mySlot);
+  const otherTrades = state.pendingTrades.filter(tr => tr.fromSlot !== mySlot && tr.toSlot !== mySlot);
+  const nameOf = (slot: number) => state.players.find(p => p.slot === slot)?.displayName || `P${slot}`;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+      {canTrade && (
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<SwapHorizIcon />}
+          onClick={() => openTradeBuilder()}
+          sx={{
+            borderColor: 'rgba(230,126,34,0.5)', color: ACCENT, fontWeight: 600,
+            '&:hover': { borderColor: '#d35400', bgcolor: 'rgba(230,126,34,0.08)' },
+          }}
+        >
+          {t('tinhTuy.trade.button')}
+        </Button>
+      )}
+
+      {myTrades.map(trade => <TradeCard key={trade.id} trade={trade} mySlot={mySlot} />)}
+
+      {/* Trades between other players — names only */}
+      {otherTrades.map(trade => (
+        <Typography key={trade.id} variant="caption" sx={{ color: 'text.secondary', textAlign: 'center' }}>
+          {t('tinhTuy.trade.othersTrading', { from: nameOf(trade.fromSlot), to: nameOf(trade.toSlot) })}
+        </Typography>
+      ))}
+
+      {state.tradeLog.length > 0 && (
+        <>
+          <Button
+            size="small"
+            color="inherit"
+            onClick={() => setShowLog(v => !v)}
+            endIcon={showLog ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            sx={{ fontSize: '0.7rem', color: 'text.secondary', textTransform: 'none' }}
+          >
+            {t('tinhTuy.trade.log', { count: state.tradeLog.length })}
+          </Button>
+          <Collapse in={showLog}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75, maxHeight: 240, overflowY: 'auto' }}>
+              {[...state.tradeLog].reverse().map(entry => (
+                <Box key={entry.id} sx={{ p: 0.75, borderRadius: 1.5, bgcolor: 'rgba(0,0,0,0.03)' }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+                    <Typography variant="caption" sx={{ fontWeight: 700, flex: 1 }} noWrap>
+                      {nameOf(entry.fromSlot)} → {nameOf(entry.toSlot)}
+                    </Typography>
+                    <Typography variant="caption" sx={{ fontWeight: 700, color: STATUS_COLORS[entry.status] }}>
+                      {t(`tinhTuy.trade.status.${entry.status}` as any)}
+                    </Typography>
+                  </Box>
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <TinhTuyTradeAssets assets={entry.offer} />
+                    </Box>
+                    <SwapHorizIcon sx={{ fontSize: 14, color: 'text.disabled', mt: 0.25 }} />
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <TinhTuyTradeAssets assets={entry.request} />
+                    </Box>
+                  </Box>
+                </Box>
+              ))}
+            </Box>
+          </Collapse>
+        </>
+      )}
+    </Box>
+  );
+};
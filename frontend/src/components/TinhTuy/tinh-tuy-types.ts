@@ -3,6 +3,8 @@
  * Mirrors backend types + UI-specific extensions.
  */
 
+import { SpectatorInfo } from '../../types/socket.types';
+
 // ─── Character ───────────────────────────────────────
 export type TinhTuyCharacter = 'shiba' | 'kungfu' | 'fox' | 'elephant' | 'trau' | 'horse' | 'canoc' | 'seahorse' | 'pigfish' | 'chicken' | 'rabbit' | 'sloth' | 'owl';
 export const VALID_CHARACTERS: TinhTuyCharacter[] = ['shiba', 'kungfu', 'fox', 'elephant', 'trau', 'horse', 'canoc', 'seahorse', 'pigfish', 'chicken', 'rabbit', 'sloth', 'owl'];
@@ -28,7 +30,7 @@ export type TinhTuyView = 'lobby' | 'waiting' | 'playing' | 'result';
 // ─── Enums ────────────────────────────────────────────
 export type TinhTuyGameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
 export type TinhTuyGameMode = 'classic' | 'timed' | 'rounds';
-export type TurnPhase = 'ROLL_DICE' | 'MOVING' | 'AWAITING_ACTION' | 'AWAITING_BUILD' | 'AWAITING_FREE_HOUSE' | 'AWAITING_FREE_HOTEL' | 'AWAITING_CARD' | 'AWAITING_CARD_DISPLAY' | 'AWAITING_TRAVEL' | 'AWAITING_FESTIVAL' | 'AWAITING_SELL' | 'AWAITING_DESTROY_PROPERTY' | 'AWAITING_DOWNGRADE_BUILDING' | 'AWAITING_BUYBACK' | 'AWAITING_CARD_DESTINATION' | 'AWAITING_FORCED_TRADE' | 'AWAITING_RENT_FREEZE' | 'AWAITING_BUY_BLOCK_TARGET' | 'AWAITING_EMINENT_DOMAIN' | 'AWAITING_ABILITY_CHOICE' | 'AWAITING_OWL_PICK' | 'AWAITING_HORSE_ADJUST' | 'AWAITING_HORSE_MOVE' | 'AWAITING_SHIBA_REROLL_PICK' | 'AWAITING_RABBIT_BONUS' | 'ISLAND_TURN' | 'END_TURN';
+export type TurnPhase = 'ROLL_DICE' | 'MOVING' | 'AWAITING_ACTION' | 'AWAITING_BUILD' | 'AWAITING_FREE_HOUSE' | 'AWAITING_FREE_HOTEL' | 'AWAITING_CARD' | 'AWAITING_CARD_DISPLAY' | 'AWAITING_TRAVEL' | 'AWAITING_FESTIVAL' | 'AWAITING_SELL' | 'AWAITING_DESTROY_PROPERTY' | 'AWAITING_DOWNGRADE_BUILDING' | 'AWAITING_BUYBACK' | 'AWAITING_CARD_DESTINATION' | 'AWAITING_FORCED_TRADE' | 'AWAITING_RENT_FREEZE' | 'AWAITING_BUY_BLOCK_TARGET' | 'AWAITING_EMINENT_DOMAIN' | 'AWAITING_ABILITY_CHOICE' | 'AWAITING_OWL_PICK' | 'AWAITING_HORSE_ADJUST' | 'AWAITING_HORSE_MOVE' | 'AWAITING_SHIBA_REROLL_PICK' | 'AWAITING_RABBIT_BONUS' | 'AWAITING_AUCTION' | 'ISLAND_TURN' | 'END_TURN';
 
 export type CellType =
   | 'GO' | 'PROPERTY' | 'STATION' | 'UTILITY'
@@ -48,14 +50,17 @@ export interface TinhTuySettings {
   maxRounds?: number;
   turnDuration: number;
   abilitiesEnabled: boolean;
+  auctionEnabled?: boolean;
 }
 
 export const DEFAULT_SETTINGS: TinhTuySettings = {
   maxPlayers: 4,
   startingPoints: 20000,
   gameMode: 'classic',
+  timeLimit: 60,
   turnDuration: 60,
   abilitiesEnabled: true,
+  auctionEnabled: false,
 };
 
 // ─── Player ───────────────────────────────────────────
@@ -96,6 +101,60 @@ export interface TinhTuyWinner {
   finalPoints: number;
 }
 
+// ─── Trading ──────────────────────────────────────────
+/** Assets one side of a trade hands over */
+export interface TradeAssets {
+  cells: number[];
+  points: number;
+  cards: string[];
+}
+
+export type TradeStatus = 'accepted' | 'rejected' | 'countered' | 'cancelled' | 'expired';
+
+export interface TinhTuyTrade {
+  id: string;
+  fromSlot: number;
+  toSlot: number;
+  /** What fromSlot gives */
+  offer: TradeAssets;
+  /** What fromSlot asks for */
+  request: TradeAssets;
+  counterOf: string | null;
+  expiresAt: string;
+}
+
+export interface TinhTuyTradeLogEntry {
+  id: string;
+  fromSlot: number;
+  toSlot: number;
+  offer: TradeAssets;
+  request: TradeAssets;
+  status: TradeStatus;
+  round: number;
+  resolvedAt: string;
+}
+
+/** Held cards that can be traded */
+export const TRADABLE_CARDS = ['escape-island', 'shield'];
+
+// ─── Auction ──────────────────────────────────────────
+export interface TinhTuyAuction {
+  cellIndex: number;
+  /** Player who declined to buy */
+  declinedSlot: number;
+  bidders: number[];
+  passed: number[];
+  highBid: number;
+  highBidderSlot: number | null;
+  endsAt: string;
+}
+
+/** Minimum raise over the current high bid (also the opening bid) */
+export const AUCTION_MIN_INCREMENT = 100;
+
+export const getMinAuctionBid = (auction: TinhTuyAuction) =>
+  auction.highBid > 0 ? auction.highBid + AUCTION_MIN_INCREMENT : AUCTION_MIN_INCREMENT;
+
 // ─── Turn Phase ───────────────────────────────────────
 export type PendingAction =
   | { type: 'BUY_PROPERTY'; cellIndex: number; price: number; canAfford: boolean; cellType?: string }
@@ -150,6 +209,9 @@ export interface TinhTuyState {
   isHost: boolean;
   mySlot: number | null;
   hasPassword: boolean;
+  /** Watching read-only — never holds a slot */
+  isSpectator: boolean;
+  spectators: SpectatorInfo[];
   gameStatus: TinhTuyGameStatus;
   currentPlayerSlot: number;
   turnPhase: TurnPhase;
@@ -160,6 +222,10 @@ export interface TinhTuyState {
   round: number;
   /** True when round > LATE_GAME_START (60) — triggers UI badge */
   lateGameActive: boolean;
+  /** Timed mode: game start (ms epoch) — game clock counts down from here */
+  gameStartedAt: number;
+  /** Timed mode: round in progress when the clock ran out (null = clock still running) */
+  finalRound: number | null;
   pendingAction: PendingAction;
   /** Global festival — only 1 on the board at a time */
   festival: { slot: number; cellIndex: number; multiplier: number } | null;
@@ -290,12 +356,16 @@ export interface TinhTuyState {
   buyBlockPrompt: { slot: number; targets: Array<{ slot: number; displayName: string }>; turns: number } | null;
   /** Eminent domain prompt — player chooses opponent's property to force-buy */
   eminentDomainPrompt: { slot: number; targetCells: number[] } | null;
-  /** Pending negotiate trade — one active at a time */
-  pendingNegotiate: { fromSlot: number; toSlot: number; cellIndex: number; offerAmount: number } | null;
-  /** Round when negotiate cooldown expires for this player */
-  negotiateCooldownUntil: number;
-  /** Whether the negotiate wizard (requester) is open */
-  negotiateWizardOpen: boolean;
+  /** Open trade proposals between any pair of players */
+  pendingTrades: TinhTuyTrade[];
+  /** Resolved trades, newest last */
+  tradeLog: TinhTuyTradeLogEntry[];
+  /** Trade cooldowns after a rejection — "fromSlot:toSlot" → round when cooldown expires */
+  tradeCooldowns: Record<string, number>;
+  /** Trade builder dialog — null when closed. counterOf = trade being answered */
+  tradeBuilder: { toSlot: number | null; counterOf: string | null } | null;
+  /** Live auction of a declined property — null when none is running */
+  auction: TinhTuyAuction | null;
   // ─── Ability State ───────────────────────────────────
   /** Ability target modal — pick opponent / cell / house / steps / deck */
   abilityModal: {
@@ -328,7 +398,7 @@ export type TinhTuyAction =
   | { type: 'SET_ROOMS'; payload: WaitingRoomInfo[] }
   | { type: 'SET_LOADING_ROOMS'; payload: boolean }
   | { type: 'ROOM_CREATED'; payload: { roomId: string; roomCode: string; settings: TinhTuySettings; players: TinhTuyPlayer[] } }
-  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; settings: TinhTuySettings; players: TinhTuyPlayer[]; gameStatus: TinhTuyGameStatus; game?: any; reconnected?: boolean } }
+  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; settings: TinhTuySettings; players: TinhTuyPlayer[]; gameStatus: TinhTuyGameStatus; game?: any; reconnected?: boolean; isSpectator?: boolean; spectators?: SpectatorInfo[] } }
   | { type: 'ROOM_UPDATED'; payload: { players?: TinhTuyPlayer[]; settings?: TinhTuySettings; gameStatus?: TinhTuyGameStatus; hostPlayerId?: string } }
   | { type: 'GAME_STARTED'; payload: { game: any } }
   | { type: 'DICE_RESULT'; payload: { dice1: number; dice2: number; total: number; isDouble: boolean } }
@@ -339,6 +409,7 @@ export type TinhTuyAction =
   | { type: 'TAX_PAID'; payload: { slot: number; amount: number; cellIndex: number; houseCount: number; hotelCount: number; perHouse: number; perHotel: number } }
   | { type: 'TURN_CHANGED'; payload: { currentSlot: number; turnPhase: TurnPhase; turnStartedAt?: any; round?: number; extraTurn?: boolean; buffs?: Array<{ slot: number; cards: string[]; immunityNextRent: boolean; doubleRentTurns: number; buyBlockedTurns: number; skipNextTurn: boolean }>; frozenProperties?: Array<{ cellIndex: number; turnsRemaining: number }> } }
   | { type: 'LATE_GAME_STARTED' }
+  | { type: 'FINAL_ROUND'; payload: { round: number } }
   | { type: 'PLAYER_BANKRUPT'; payload: { slot: number } }
   | { type: 'PLAYER_SURRENDERED'; payload: { slot: number } }
   | { type: 'PLAYER_ISLAND'; payload: { slot: number; turnsRemaining: number } }
@@ -424,11 +495,14 @@ export type TinhTuyAction =
   | { type: 'CLEAR_BUY_BLOCK_PROMPT' }
   | { type: 'EMINENT_DOMAIN_PROMPT'; payload: { slot: number; targetCells: number[] } }
   | { type: 'CLEAR_EMINENT_DOMAIN_PROMPT' }
-  | { type: 'NEGOTIATE_INCOMING'; payload: { fromSlot: number; toSlot: number; cellIndex: number; offerAmount: number } }
-  | { type: 'NEGOTIATE_COMPLETED'; payload: { accepted: boolean; fromSlot: number; toSlot: number; cellIndex?: number; offerAmount?: number; cooldownUntilRound?: number; festival?: any } }
-  | { type: 'NEGOTIATE_CANCELLED'; payload: { fromSlot: number } }
-  | { type: 'OPEN_NEGOTIATE_WIZARD' }
-  | { type: 'CLOSE_NEGOTIATE_WIZARD' }
+  | { type: 'TRADE_PROPOSED'; payload: { trade: TinhTuyTrade } }
+  | { type: 'TRADE_RESOLVED'; payload: { tradeId: string; status: TradeStatus; entry: TinhTuyTradeLogEntry; cooldownUntilRound?: number; players?: Array<Pick<TinhTuyPlayer, 'slot' | 'points' | 'properties' | 'houses' | 'hotels' | 'cards'>>; festival?: any } }
+  | { type: 'OPEN_TRADE_BUILDER'; payload: { toSlot: number | null; counterOf: string | null } }
+  | { type: 'CLOSE_TRADE_BUILDER' }
+  | { type: 'AUCTION_STARTED'; payload: { auction: TinhTuyAuction } }
+  | { type: 'AUCTION_BID'; payload: { slot: number; amount: number; endsAt: string } }
+  | { type: 'AUCTION_PASS'; payload: { slot: number } }
+  | { type: 'AUCTION_ENDED'; payload: { cellIndex: number; winnerSlot: number | null; amount: number; remainingPoints?: number } }
   // ─── Ability Actions ───────────────────────────────
   | { type: 'ABILITY_MODAL'; payload: TinhTuyState['abilityModal'] }
   | { type: 'CLEAR_ABILITY_MODAL' }
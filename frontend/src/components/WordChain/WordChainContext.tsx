@@ -15,12 +15,14 @@ import {
   WordChainState,
   WordChainAction,
   WordChainView,
+  WordChainBotLevel,
   WordChainRules,
   WordChainPlayer,
   WaitingRoomInfo,
   CreateRoomPayload,
   ReceivedReaction,
   ChatMessage,
+  WordChallenge,
   DEFAULT_RULES,
 } from './word-chain-types';
 
@@ -53,6 +55,8 @@ const initialState: WordChainState = {
   isHost: false,
   mySlot: null,
   hasPassword: false,
+  isSpectator: false,
+  spectators: [],
   gameStatus: 'waiting',
   currentWord: '',
   currentPlayerSlot: 1,
@@ -60,6 +64,9 @@ const initialState: WordChainState = {
   turnStartedAt: 0,
   turnDuration: 60,
   roundNumber: 0,
+  challenge: null,
+  contestDeadline: null,
+  disputable: null,
   winner: null,
   lastWord: '',
   showResult: false,
@@ -99,7 +106,8 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
       };
 
     case 'ROOM_JOINED': {
-      saveRoomSession(action.payload.roomCode);
+      // Spectators don't auto-rejoin - join-room would try to take a slot
+      if (!action.payload.isSpectator) saveRoomSession(action.payload.roomCode);
       const isPlaying = action.payload.gameStatus === 'playing';
       return {
         ...state,
@@ -124,7 +132,12 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
             timestamp: 0,
             accepted: true,
           })) || state.wordChain,
+          challenge: action.payload.challenge || null,
+          contestDeadline: action.payload.contestDeadline || null,
+          disputable: null,
         } : {}),
+        isSpectator: !!action.payload.isSpectator,
+        spectators: action.payload.spectators || [],
         error: null,
       };
     }
@@ -160,6 +173,9 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
           timestamp: action.payload.turnStartedAt,
           accepted: true,
         }],
+        challenge: null,
+        contestDeadline: null,
+        disputable: null,
         winner: null,
         showResult: false,
       };
@@ -179,7 +195,12 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
           playerName: action.payload.playerName,
           timestamp: Date.now(),
           accepted: true,
+          points: action.payload.points,
         }],
+        contestDeadline: null,
+        disputable: action.payload.disputableUntil
+          ? { word: action.payload.word, authorSlot: action.payload.playerSlot, until: action.payload.disputableUntil }
+          : null,
       };
 
     case 'WORD_REJECTED':
@@ -194,6 +215,10 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
           accepted: false,
           reason: action.payload.reason,
         }],
+        // Only the rejected player gets to contest
+        contestDeadline: action.payload.contestDeadline && action.payload.playerSlot === state.mySlot
+          ? action.payload.contestDeadline
+          : state.contestDeadline,
       };
 
     case 'TURN_TIMEOUT':
@@ -227,6 +252,9 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
         winner: action.payload.winner,
         players: action.payload.players,
         lastWord: action.payload.lastWord || state.currentWord,
+        challenge: null,
+        contestDeadline: null,
+        disputable: null,
         showResult: true,
       };
 
@@ -258,6 +286,9 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
         showResult: false,
         roundNumber: 0,
         currentPlayerSlot: 1,
+        challenge: null,
+        contestDeadline: null,
+        disputable: null,
       };
 
     case 'DISMISS_RESULT':
@@ -291,6 +322,7 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
         turnDuration: action.payload.turnDuration,
         // Updated players with current lives after life deduction
         ...(action.payload.players ? { players: action.payload.players } : {}),
+        contestDeadline: null,
       };
 
     case 'PLAYER_DISCONNECTED': {
@@ -316,6 +348,9 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
         hasPassword: action.payload.hasPassword,
       };
 
+    case 'TEAMS_UPDATED':
+      return { ...state, players: action.payload };
+
     case 'PLAYER_NAME_UPDATED':
       return {
         ...state,
@@ -336,17 +371,49 @@ function wordChainReducer(state: WordChainState, action: WordChainAction): WordC
     case 'CLEAR_CHAT':
       return { ...state, chatMessages: state.chatMessages.filter(m => m.id !== action.payload) };
 
+    case 'CONTEST_CLOSED':
+      return { ...state, contestDeadline: null };
+
+    case 'CHALLENGE_STARTED':
+      return { ...state, challenge: action.payload, contestDeadline: null, disputable: null };
+
+    case 'CHALLENGE_VOTE':
+      if (state.challenge?.id !== action.payload.challengeId) return state;
+      return { ...state, challenge: { ...state.challenge, votedSlots: action.payload.votedSlots } };
+
+    case 'CHALLENGE_RESOLVED': {
+      const { kind, word, upheld } = action.payload;
+      // A struck word stays in the history, marked as voted out
+      let wordChain = state.wordChain;
+      if (kind === 'dispute' && !upheld) {
+        const idx = wordChain.map(e => e.accepted && e.word === word).lastIndexOf(true);
+        if (idx > 0) {
+          wordChain = wordChain.map((e, i) => (i === idx ? { ...e, accepted: false, reason: 'voted_out' as const } : e));
+        }
+      }
+      return { ...state, challenge: null, wordChain };
+    }
+
     default:
       return state;
   }
 }
 
+// Challenge errors the player can act on; anything else is a stale button press
+const CHALLENGE_ERROR_KEYS: Record<string, string> = {
+  challengeClosed: 'wordChain.challenge.errors.challengeClosed',
+  challengeInProgress: 'wordChain.challenge.errors.challengeInProgress',
+  noChallengesLeft: 'wordChain.challenge.errors.noChallengesLeft',
+  turnExpired: 'wordChain.challenge.errors.challengeClosed',
+};
+
 // ─── Context Type ─────────────────────────────────────────────
 
 interface WordChainContextValue {
   state: WordChainState;
   createRoom: (payload: CreateRoomPayload) => void;
   joinRoom: (roomCode: string, password?: string) => void;
+  spectateRoom: (roomCode: string, password?: string) => void;
   leaveRoom: () => void;
   startGame: () => Promise<boolean>;
   submitWord: (word: string) => void;
@@ -356,12 +423,17 @@ interface WordChainContextValue {
   refreshRooms: () => void;
   setView: (view: WordChainView) => void;
   kickPlayer: (slot: number) => void;
+  addBot: (level: WordChainBotLevel) => void;
+  switchTeam: (team: number, slot?: number) => void;
   updateRoom: (payload: { rules?: Partial<WordChainRules>; maxPlayers?: number; password?: string | null }) => Promise<boolean>;
   updateGuestName: (name: string) => void;
   sendReaction: (emoji: string) => void;
   clearReaction: (id: string) => void;
-  sendChat: (message: string) => void;
+  sendChat: (message: string, teamOnly?: boolean) => void;
   clearChat: (id: string) => void;
+  contestRejection: () => void;
+  challengeWord: () => void;
+  voteChallenge: (accept: boolean) => void;
 }
 
 const WordChainContext = createContext<WordChainContextValue | undefined>(undefined);
@@ -397,6 +469,12 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       return Date.now();
     };
 
+    const toChallenge = (c: any): WordChallenge => ({
+      ...c,
+      votedSlots: c.votedSlots || [],
+      deadline: toTimestamp(c.deadline),
+    });
+
     // Note: room-created is handled via callback in createRoom() to avoid double dispatch.
     // Only joined-room needs an event listener (for reconnect scenarios).
 
@@ -417,6 +495,10 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
           turnDuration: data.turnDuration,
           roundNumber: data.roundNumber,
           wordChain: data.wordChain,
+          isSpectator: data.isSpectator,
+          spectators: data.spectators,
+          challenge: data.challenge ? toChallenge(data.challenge) : null,
+          contestDeadline: data.contestDeadline ? toTimestamp(data.contestDeadline) : undefined,
         },
       });
       // Use mySlot directly from backend response
@@ -490,6 +572,8 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
           turnDuration: data.turnDuration,
           roundNumber: data.roundNumber,
           players: data.players || stateRef.current.players,
+          disputableUntil: data.disputableUntil ? toTimestamp(data.disputableUntil) : undefined,
+          points: data.points,
         },
       });
     };
@@ -499,6 +583,8 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       wrong_type: 'wordChain.game.wrongType',
       wrong_chain: 'wordChain.game.wrongChain',
       already_used: 'wordChain.game.alreadyUsed',
+      proper_noun: 'wordChain.game.properNoun',
+      slang: 'wordChain.game.slang',
     };
 
     const handleWordRejected = (data: any) => {
@@ -510,6 +596,7 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
           playerName: data.playerName,
           reason: data.reason,
           players: data.players || stateRef.current.players,
+          contestDeadline: data.contestDeadline ? toTimestamp(data.contestDeadline) : undefined,
         },
       });
       const reasonKey = REJECT_REASON_KEYS[data.reason] || 'wordChain.game.invalid';
@@ -583,8 +670,11 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
         payload: {
           currentWord: data.currentWord,
           currentPlayerSlot: data.currentPlayerSlot,
-          // BUG FIX: Use client-side timestamp to avoid server-client clock drift
-          turnStartedAt: Date.now(),
+          // BUG FIX: Use client-side timestamp to avoid server-client clock drift.
+          // A turn resumed after a challenge vote only has `remainingMs` left.
+          turnStartedAt: data.remainingMs != null
+            ? Date.now() - (data.turnDuration * 1000 - data.remainingMs)
+            : Date.now(),
           turnDuration: data.turnDuration,
           players: data.players,
         },
@@ -621,6 +711,11 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       }
     };
 
+    const handleTeamsUpdated = (data: any) => {
+      if (!Array.isArray(data?.players)) return;
+      dispatch({ type: 'TEAMS_UPDATED', payload: data.players });
+    };
+
     const handlePlayerNameUpdated = (data: any) => {
       dispatch({
         type: 'PLAYER_NAME_UPDATED',
@@ -648,11 +743,36 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
         fromName: data.playerName || `Player ${data.slot}`,
         slot: data.slot,
         isSelf: false,
+        teamOnly: !!data.teamOnly,
       };
       dispatch({ type: 'CHAT_RECEIVED', payload: chat });
       playChatSound();
     };
 
+    const handleChallengeStarted = (data: any) => {
+      if (!data?.challenge) return;
+      dispatch({ type: 'CHALLENGE_STARTED', payload: toChallenge(data.challenge) });
+      const key = data.challenge.kind === 'contest' ? 'wordChain.challenge.contestStarted' : 'wordChain.challenge.disputeStarted';
+      getToast()?.info(key, { params: { name: data.challengerName || 'Player', word: data.challenge.word } });
+    };
+
+    const handleChallengeVote = (data: any) => {
+      dispatch({ type: 'CHALLENGE_VOTE', payload: { challengeId: data.challengeId, votedSlots: data.votedSlots || [] } });
+    };
+
+    const handleChallengeResolved = (data: any) => {
+      dispatch({
+        type: 'CHALLENGE_RESOLVED',
+        payload: { challengeId: data.challengeId, kind: data.kind, word: data.word, upheld: !!data.upheld },
+      });
+      const params = { word: data.word, accept: data.votes?.accept ?? 0, reject: data.votes?.reject ?? 0 };
+      if (data.upheld) {
+        getToast()?.success(data.kind === 'contest' ? 'wordChain.challenge.contestWon' : 'wordChain.challenge.disputeLost', { params });
+      } else {
+        getToast()?.warning(data.kind === 'contest' ? 'wordChain.challenge.contestLost' : 'wordChain.challenge.disputeWon', { params });
+      }
+    };
+
     const handleError = (data: any) => {
       const errorCode = data.error || data.message || 'serverError';
       dispatch({ type: 'SET_ERROR', payload: errorCode });
@@ -692,9 +812,13 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     socket.on('word-chain:player-reconnected' as any, handlePlayerReconnected);
     socket.on('word-chain:kicked' as any, handleKicked);
     socket.on('word-chain:room-updated' as any, handleRoomUpdated);
+    socket.on('word-chain:teams-updated' as any, handleTeamsUpdated);
     socket.on('word-chain:player-name-updated' as any, handlePlayerNameUpdated);
     socket.on('word-chain:reaction-received' as any, handleReactionReceived);
     socket.on('word-chain:chat-received' as any, handleChatReceived);
+    socket.on('word-chain:challenge-started' as any, handleChallengeStarted);
+    socket.on('word-chain:challenge-vote' as any, handleChallengeVote);
+    socket.on('word-chain:challenge-resolved' as any, handleChallengeResolved);
     socket.on('word-chain:error' as any, handleError);
     socket.on('word-chain:rooms-updated' as any, handleRoomsUpdated);
 
@@ -716,9 +840,13 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       socket.off('word-chain:player-reconnected' as any, handlePlayerReconnected);
       socket.off('word-chain:kicked' as any, handleKicked);
       socket.off('word-chain:room-updated' as any, handleRoomUpdated);
+      socket.off('word-chain:teams-updated' as any, handleTeamsUpdated);
       socket.off('word-chain:player-name-updated' as any, handlePlayerNameUpdated);
       socket.off('word-chain:reaction-received' as any, handleReactionReceived);
       socket.off('word-chain:chat-received' as any, handleChatReceived);
+      socket.off('word-chain:challenge-started' as any, handleChallengeStarted);
+      socket.off('word-chain:challenge-vote' as any, handleChallengeVote);
+      socket.off('word-chain:challenge-resolved' as any, handleChallengeResolved);
       socket.off('word-chain:error' as any, handleError);
       socket.off('word-chain:rooms-updated' as any, handleRoomsUpdated);
     };
@@ -831,6 +959,31 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     });
   }, [getPlayerId, getPlayerName, isAuthenticated]);
 
+  const spectateRoom = useCallback((roomCode: string, password?: string) => {
+    const socket = socketService.getSocket();
+    if (!socket) {
+      dispatch({ type: 'SET_ERROR', payload: 'socketNotConnected' });
+      return;
+    }
+
+    const playerId = getPlayerId();
+    const playerName = getPlayerName();
+
+    socket.emit('word-chain:join-room' as any, {
+      roomCode: roomCode.toUpperCase(),
+      password,
+      spectate: true,
+      userId: isAuthenticated ? playerId : undefined,
+      guestId: isAuthenticated ? undefined : playerId,
+      guestName: isAuthenticated ? undefined : playerName,
+    }, (res: any) => {
+      // Full state comes via 'word-chain:joined-room' event
+      if (res && !res.success) {
+        dispatch({ type: 'SET_ERROR', payload: res.error || 'failedToJoin' });
+      }
+    });
+  }, [getPlayerId, getPlayerName, isAuthenticated]);
+
   const leaveRoom = useCallback(() => {
     const socket = socketService.getSocket();
     if (!socket || !stateRef.current.roomId) return;
@@ -912,6 +1065,39 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     });
   }, []);
 
+  const addBot = useCallback((level: WordChainBotLevel) => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+
+    socket.emit('word-chain:add-bot' as any, {
+      roomId: stateRef.current.roomId,
+      level,
+    }, (res: any) => {
+      if (res && !res.success) {
+        const errorCode = res.error || 'failedToAddBot';
+        dispatch({ type: 'SET_ERROR', payload: errorCode });
+        getToast()?.error(`wordChain.errors.${errorCode}`);
+      }
+    });
+  }, []);
+
+  const switchTeam = useCallback((team: number, slot?: number) => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+
+    socket.emit('word-chain:switch-team' as any, {
+      roomId: stateRef.current.roomId,
+      team,
+      slot,
+    }, (res: any) => {
+      if (res && !res.success) {
+        const errorCode = res.error || 'failedToSwitchTeam';
+        dispatch({ type: 'SET_ERROR', payload: errorCode });
+        getToast()?.error(`wordChain.errors.${errorCode}`);
+      }
+    });
+  }, []);
+
   const updateRoom = useCallback((payload: { rules?: Partial<WordChainRules>; maxPlayers?: number; password?: string | null }): Promise<boolean> => {
     return new Promise((resolve) => {
       const socket = socketService.getSocket();
@@ -969,7 +1155,7 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     dispatch({ type: 'CLEAR_REACTION', payload: id });
   }, []);
 
-  const sendChat = useCallback((message: string) => {
+  const sendChat = useCallback((message: string, teamOnly = false) => {
     const socket = socketService.getSocket();
     if (!socket || !stateRef.current.roomId || !stateRef.current.mySlot) return;
 
@@ -985,6 +1171,7 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       fromName: myName,
       slot: stateRef.current.mySlot,
       isSelf: true,
+      teamOnly,
     };
     dispatch({ type: 'CHAT_RECEIVED', payload: selfChat });
     playChatSound();
@@ -992,6 +1179,7 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     socket.emit('word-chain:send-chat' as any, {
       roomId: stateRef.current.roomId,
       message: trimmed,
+      teamOnly,
     });
   }, []);
 
@@ -999,6 +1187,49 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
     dispatch({ type: 'CLEAR_CHAT', payload: id });
   }, []);
 
+  const handleChallengeCallback = useCallback((res: any) => {
+    if (res && !res.success) {
+      const key = CHALLENGE_ERROR_KEYS[res.error];
+      if (key) getToast()?.warning(key);
+    }
+  }, []);
+
+  const contestRejection = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+
+    dispatch({ type: 'CONTEST_CLOSED' });
+    socket.emit('word-chain:contest-rejection' as any, {
+      roomId: stateRef.current.roomId,
+    }, handleChallengeCallback);
+  }, [handleChallengeCallback]);
+
+  const challengeWord = useCallback(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !stateRef.current.roomId) return;
+
+    socket.emit('word-chain:challenge-word' as any, {
+      roomId: stateRef.current.roomId,
+    }, (res: any) => {
+      handleChallengeCallback(res);
+      if (res?.success && typeof res.challengesLeft === 'number') {
+        getToast()?.info('wordChain.challenge.challengesLeft', { params: { count: res.challengesLeft } });
+      }
+    });
+  }, [handleChallengeCallback]);
+
+  const voteChallenge = useCallback((accept: boolean) => {
+    const socket = socketService.getSocket();
+    const challenge = stateRef.current.challenge;
+    if (!socket || !stateRef.current.roomId || !challenge) return;
+
+    socket.emit('word-chain:vote-challenge' as any, {
+      roomId: stateRef.current.roomId,
+      challengeId: challenge.id,
+      accept,
+    }, handleChallengeCallback);
+  }, [handleChallengeCallback]);
+
   // Auto-cleanup stale reactions (older than 5s)
   useEffect(() => {
     const interval = setInterval(() => {
@@ -1089,6 +1320,7 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       state,
       createRoom,
       joinRoom,
+      spectateRoom,
       leaveRoom,
       startGame,
       submitWord,
@@ -1098,12 +1330,17 @@ export const WordChainProvider: React.FC<{ children: ReactNode }> = ({ children
       refreshRooms,
       setView,
       kickPlayer,
+      addBot,
+      switchTeam,
       updateRoom,
       updateGuestName,
       sendReaction,
       clearReaction,
       sendChat,
       clearChat,
+      contestRejection,
+      challengeWord,
+      voteChallenge,
     }}>
       {children}
     </WordChainContext.Provider>
@@ -0,0 +1,164 @@
+/**
+ * WordChainChallenge - Strip between the reactions bar and the word history for word votes.
+ * Shows, in priority order: an open vote, the contest offer after my word was rejected,
+ * or a challenge button for the word just accepted.
+ */
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Typography, LinearProgress } from '@mui/material';
+import GavelIcon from '@mui/icons-material/Gavel';
+import ThumbUpIcon from '@mui/icons-material/ThumbUp';
+import ThumbDownIcon from '@mui/icons-material/ThumbDown';
+import { useLanguage } from '../../../i18n';
+import { useWordChain } from '../WordChainContext';
+
+const CHALLENGE_COLOR = '#8e44ad';
+const VOTE_WINDOW_SECONDS = 15; // matches VOTE_WINDOW_MS on the server
+
+/** Seconds left until `deadline`, ticking while the deadline is set */
+function useSecondsLeft(deadline: number | null | undefined): number {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+}
+
+const buttonSx = {
+  textTransform: 'none',
+  fontWeight: 600,
+  borderRadius: 2,
+  px: 1.5,
+  py: 0.25,
+  whiteSpace: 'nowrap',
+} as const;
+
+export const WordChainChallenge: React.FC = () => {
+  const { t } = useLanguage();
+  const { state, contestRejection, challengeWord, voteChallenge } = useWordChain();
+  const { challenge, contestDeadline, disputable, mySlot } = state;
+
+  const voteSecondsLeft = useSecondsLeft(challenge?.deadline);
+  const contestSecondsLeft = useSecondsLeft(contestDeadline);
+  const disputeSecondsLeft = useSecondsLeft(disputable?.until);
+
+  if (state.isSpectator || state.gameStatus !== 'playing') return null;
+
+  const me = state.players.find(p => p.slot === mySlot);
+  const nameOf = (slot: number) => state.players.find(p => p.slot === slot)?.name || `Player ${slot}`;
+
+  const wrapperSx = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    px: { xs: 1.5, sm: 3, md: 6 },
+    py: 0.75,
+    bgcolor: 'rgba(142, 68, 173, 0.06)',
+    borderBottom: '1px solid rgba(142, 68, 173, 0.15)',
+    flexShrink: 0,
+    flexWrap: 'wrap',
+  } as const;
+
+  // ─── Open vote ─────────────────────────────────────────────
+  if (challenge) {
+    const canVote = mySlot != null && challenge.voterSlots.includes(mySlot) && !challenge.votedSlots.includes(mySlot);
+    const question = challenge.kind === 'contest'
+      ? t('wordChain.challenge.contestQuestion', { name: nameOf(challenge.authorSlot), word: challenge.word })
+      : t('wordChain.challenge.disputeQuestion', { name: nameOf(challenge.challengerSlot), word: challenge.word });
+
+    return (
+      <Box sx={{ ...wrapperSx, flexDirection: 'column', alignItems: 'stretch' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <GavelIcon sx={{ color: CHALLENGE_COLOR, fontSize: 18 }} />
+          <Typography variant="body2" sx={{ flex: 1, fontWeight: 600, minWidth: 0 }}>
+            {question}
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'text.secondary', fontVariantNumeric: 'tabular-nums' }}>
+            {t('wordChain.challenge.votes', { voted: challenge.votedSlots.length, total: challenge.voterSlots.length })}
+            {' · '}{voteSecondsLeft}s
+          </Typography>
+        </Box>
+        <LinearProgress
+          variant="determinate"
+          value={Math.min(100, (voteSecondsLeft * 100) / VOTE_WINDOW_SECONDS)}
+          sx={{ height: 3, borderRadius: 2, bgcolor: 'rgba(142, 68, 173, 0.1)', '& .MuiLinearProgress-bar': { bgcolor: CHALLENGE_COLOR } }}
+        />
+        {canVote ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', gap: 1 }}>
+            <Button
+              size="small"
+              variant="contained"
+              startIcon={<ThumbUpIcon sx={{ fontSize: 16 }} />}
+              onClick={() => voteChallenge(true)}
+              sx={{ ...buttonSx, bgcolor: '#2ecc71', '&:hover': { bgcolor: '#27ae60' } }}
+            >
+              {t('wordChain.challenge.voteValid')}
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              startIcon={<ThumbDownIcon sx={{ fontSize: 16 }} />}
+              onClick={() => voteChallenge(false)}
+              sx={{ ...buttonSx, bgcolor: '#e74c3c', '&:hover': { bgcolor: '#c0392b' } }}
+            >
+              {t('wordChain.challenge.voteInvalid')}
+            </Button>
+          </Box>
+        ) : (
+          <Typography variant="caption" sx={{ textAlign: 'center', color: 'text.secondary' }}>
+            {t('wordChain.challenge.waitingVotes')}
+          </Typography>
+        )}
+      </Box>
+    );
+  }
+
+  // ─── My word was rejected — offer a contest ────────────────
+  if (contestDeadline && contestSecondsLeft > 0) {
+    return (
+      <Box sx={wrapperSx}>
+        <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }}>
+          {t('wordChain.challenge.contestPrompt')}
+        </Typography>
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={<GavelIcon sx={{ fontSize: 16 }} />}
+          onClick={contestRejection}
+          sx={{ ...buttonSx, bgcolor: CHALLENGE_COLOR, '&:hover': { bgcolor: '#71368a' } }}
+        >
+          {t('wordChain.challenge.contest')} ({contestSecondsLeft}s)
+        </Button>
+      </Box>
+    );
+  }
+
+  // ─── Someone else's word just went in — allow a challenge ──
+  if (
+    disputable &&
+    disputeSecondsLeft > 0 &&
+    disputable.word === state.currentWord &&
+    me && !me.isEliminated &&
+    disputable.authorSlot !== mySlot
+  ) {
+    return (
+      <Box sx={{ ...wrapperSx, justifyContent: 'center' }}>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<GavelIcon sx={{ fontSize: 16 }} />}
+          onClick={challengeWord}
+          sx={{ ...buttonSx, color: CHALLENGE_COLOR, borderColor: 'rgba(142, 68, 173, 0.4)' }}
+        >
+          {t('wordChain.challenge.challengeWord', { word: disputable.word })} ({disputeSecondsLeft}s)
+        </Button>
+      </Box>
+    );
+  }
+
+  return null;
+};
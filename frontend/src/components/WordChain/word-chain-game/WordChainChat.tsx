@@ -2,6 +2,7 @@
  * WordChainChat - Floating chat for Word Chain game.
  * ChatButton: icon + mini input popup.
  * FloatingChatMessage: fly-up danmaku-style animation.
+ * Team mode: the button can switch to team-only messages.
  *
  * PERF FIX: Same fixes as CaroChat — plain div + inline styles, no backdropFilter,
  * React.memo to prevent re-renders.
@@ -13,6 +14,8 @@ import {
   Popover,
   InputAdornment,
   Tooltip,
+  Switch,
+  FormControlLabel,
 } from '@mui/material';
 import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
 import SendIcon from '@mui/icons-material/Send';
@@ -59,14 +62,17 @@ if (typeof document !== 'undefined' && !document.getElementById('wc-chat-keyfram
 // ─── ChatButton ─────────────────────────────────────────────────
 
 interface ChatButtonProps {
-  onSend: (message: string) => void;
+  onSend: (message: string, teamOnly?: boolean) => void;
   disabled?: boolean;
+  /** Team mode: offer a team-only toggle */
+  teamChat?: boolean;
 }
 
-export const ChatButton: React.FC<ChatButtonProps> = ({ onSend, disabled = false }) => {
+export const ChatButton: React.FC<ChatButtonProps> = ({ onSend, disabled = false, teamChat = false }) => {
   const { t } = useLanguage();
   const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
   const [message, setMessage] = useState('');
+  const [teamOnly, setTeamOnly] = useState(false);
   const [cooldownEnd, setCooldownEnd] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -86,10 +92,10 @@ export const ChatButton: React.FC<ChatButtonProps> = ({ onSend, disabled = false
     const trimmed = message.trim();
     if (!trimmed || disabled || Date.now() < cooldownEnd) return;
 
-    onSend(trimmed);
+    onSend(trimmed, teamChat && teamOnly);
     setMessage('');
     setCooldownEnd(Date.now() + CHAT_COOLDOWN_MS);
-  }, [message, disabled, cooldownEnd, onSend]);
+  }, [message, disabled, cooldownEnd, onSend, teamChat, teamOnly]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -145,6 +151,13 @@ export const ChatButton: React.FC<ChatButtonProps> = ({ onSend, disabled = false
           },
         }}
       >
+        {teamChat && (
+          <FormControlLabel
+            control={<Switch size="small" checked={teamOnly} onChange={(e) => setTeamOnly(e.target.checked)} />}
+            label={t('wordChain.team.chatTeamOnly')}
+            sx={{ ml: 0, mb: 0.5, '& .MuiFormControlLabel-label': { fontSize: '0.8rem' } }}
+          />
+        )}
         <TextField
           inputRef={inputRef}
           value={message}
@@ -194,6 +207,8 @@ interface FloatingChatMessageProps {
 }
 
 const FloatingChatMessageInner: React.FC<FloatingChatMessageProps> = ({ chat, onDismiss }) => {
+  const { t } = useLanguage();
+  const teamLabel = t('wordChain.team.chatTag');
   const color = PLAYER_COLORS[(chat.slot - 1) % PLAYER_COLORS.length];
   const onDismissRef = React.useRef(onDismiss);
   onDismissRef.current = onDismiss;
@@ -246,7 +261,7 @@ const FloatingChatMessageInner: React.FC<FloatingChatMessageProps> = ({ chat, on
         flexShrink: 0,
         whiteSpace: 'nowrap',
       }}>
-        {chat.fromName}
+        {chat.teamOnly ? `[${teamLabel}] ` : ''}{chat.fromName}
       </span>
       <span style={{
         fontSize: '0.85rem',
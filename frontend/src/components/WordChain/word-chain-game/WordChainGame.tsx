@@ -10,12 +10,14 @@ import { WordChainTimer } from './WordChainTimer';
 import { WordChainPlayerBar } from './WordChainPlayerBar';
 import { WordChainWordHistory } from './WordChainWordHistory';
 import { WordChainInput } from './WordChainInput';
+import { WordChainChallenge } from './WordChainChallenge';
 import { WordChainResultModal } from './WordChainResult';
 import { GameReactions, ReactionPopup } from '../../GameReactions';
 import { ChatButton, FloatingChatMessage, WordChainChatOverlay } from './WordChainChat';
 import { useLanguage } from '../../../i18n';
 import GuestNameDialog from '../../GuestNameDialog/GuestNameDialog';
 import { useAuth } from '../../../contexts/AuthContext';
+import { SpectatorPanel } from '../../Spectator';
 
 export const WordChainGame: React.FC = () => {
   const { t } = useLanguage();
@@ -86,6 +88,7 @@ export const WordChainGame: React.FC = () => {
             turnStartedAt={state.turnStartedAt}
             turnDuration={state.turnDuration}
             isActive={state.gameStatus === 'playing'}
+            paused={!!state.challenge}
           />
         </Box>
 
@@ -140,17 +143,31 @@ export const WordChainGame: React.FC = () => {
         borderBottom: '1px solid rgba(0,0,0,0.06)',
         flexShrink: 0,
       }}>
-        <ChatButton
-          onSend={sendChat}
-          disabled={state.gameStatus !== 'playing'}
-        />
-        <GameReactions
-          onSendReaction={sendReaction}
-          disabled={state.gameStatus !== 'playing'}
-          compact
+        {!state.isSpectator && (
+          <>
+            <ChatButton
+              onSend={sendChat}
+              disabled={state.gameStatus !== 'playing'}
+              teamChat={state.rules?.gameMode === 'team'}
+            />
+            <GameReactions
+              onSendReaction={sendReaction}
+              disabled={state.gameStatus !== 'playing'}
+              compact
+            />
+          </>
+        )}
+        <SpectatorPanel
+          room={state.roomId}
+          isSpectator={state.isSpectator}
+          initialSpectators={state.spectators}
+          hideWhenEmpty
         />
       </Box>
 
+      {/* Contest / challenge / vote strip */}
+      <WordChainChallenge />
+
       {/* Word History - flex grow, scrollable */}
       <WordChainWordHistory
         wordChain={state.wordChain}
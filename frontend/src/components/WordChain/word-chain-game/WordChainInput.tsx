@@ -28,7 +28,8 @@ export const WordChainInput: React.FC = () => {
   const prevChainLen = useRef(state.wordChain.length);
   const submittingRef = useRef(false); // Guard against double submissions
 
-  const isMyTurn = state.currentPlayerSlot === state.mySlot && state.gameStatus === 'playing';
+  // Turn is held while a challenge vote is open
+  const isMyTurn = state.currentPlayerSlot === state.mySlot && state.gameStatus === 'playing' && !state.challenge;
   const isPlaying = state.gameStatus === 'playing';
 
   useEffect(() => {
@@ -69,6 +70,29 @@ export const WordChainInput: React.FC = () => {
     ? state.currentWord.split(' ').pop() || ''
     : '';
 
+  // Spectators can only stop watching - leaving never affects the game
+  if (state.isSpectator) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: { xs: 1.5, md: 2 }, borderTop: '1px solid rgba(0,0,0,0.08)', bgcolor: '#fff', mb: { xs: 5, sm: 0 } }}>
+        <Button
+          onClick={leaveRoom}
+          size="small"
+          variant="outlined"
+          startIcon={<ExitToAppIcon sx={{ fontSize: 16 }} />}
+          sx={{
+            color: '#95a5a6',
+            borderColor: 'rgba(149, 165, 166, 0.3)',
+            '&:hover': { borderColor: '#e74c3c', color: '#e74c3c', bgcolor: 'rgba(231, 76, 60, 0.06)' },
+            textTransform: 'none',
+            px: 3,
+          }}
+        >
+          {t('spectator.stopWatching')}
+        </Button>
+      </Box>
+    );
+  }
+
   return (
     <Box sx={{ pl: { xs: 2, sm: 3, md: 6 }, pr: { xs: 2, sm: 3, md: 6 }, py: { xs: 1.5, md: 2 }, borderTop: '1px solid rgba(0,0,0,0.08)', bgcolor: '#fff', mb: { xs: 5, sm: 0 } }}>
       {/* Hint */}
@@ -1,6 +1,7 @@
 /**
  * WordChainPlayerBar - Horizontal scrollable bar showing all players.
  * Active player highlighted, eliminated players grayed out.
+ * Team mode: grouped and colored by team, lives shown as the shared pool.
  */
 import React from 'react';
 import { Box, Typography, keyframes, IconButton, Tooltip } from '@mui/material';
@@ -11,7 +12,7 @@ import PhoneIphoneIcon from '@mui/icons-material/PhoneIphone';
 import TabletMacIcon from '@mui/icons-material/TabletMac';
 import LaptopMacIcon from '@mui/icons-material/LaptopMac';
 import { useLanguage } from '../../../i18n';
-import { WordChainPlayer } from '../word-chain-types';
+import { WordChainPlayer, TEAM_COLORS } from '../word-chain-types';
 
 interface Props {
   players: WordChainPlayer[];
@@ -47,10 +48,12 @@ export const WordChainPlayerBar: React.FC<Props> = ({ players, currentPlayerSlot
         '&::-webkit-scrollbar-thumb': { bgcolor: 'rgba(0,0,0,0.1)', borderRadius: 2 },
       }}
     >
-      {players.map((player) => {
+      {[...players].sort((a, b) => (a.team || 0) - (b.team || 0)).map((player) => {
         const isActive = player.slot === currentPlayerSlot && !player.isEliminated;
         const isMe = player.slot === mySlot;
-        const color = PLAYER_COLORS[(player.slot - 1) % PLAYER_COLORS.length];
+        const color = player.team
+          ? TEAM_COLORS[player.team]
+          : PLAYER_COLORS[(player.slot - 1) % PLAYER_COLORS.length];
 
         return (
           <Box
@@ -108,7 +111,7 @@ export const WordChainPlayerBar: React.FC<Props> = ({ players, currentPlayerSlot
                   fontSize: { xs: '0.85rem', md: '0.85rem' },
                 }}
               >
-                {player.name || t('common.player' as any)}{isMe ? ' *' : ''}
+                {player.isBot ? '🤖 ' : ''}{player.name || t('common.player' as any)}{isMe ? ' *' : ''}
 
                 {/* Connection + Device Status */}
                 <Tooltip title={player.isConnected ? t('common.online' as any) : t('common.disconnected' as any)}>
@@ -158,7 +161,9 @@ export const WordChainPlayerBar: React.FC<Props> = ({ players, currentPlayerSlot
               {/* Lives + Score */}
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                 <Typography variant="caption" sx={{ fontSize: { xs: '0.85rem', md: '0.75rem' }, lineHeight: 1 }}>
-                  {'❤️'.repeat(player.lives)}{'🖤'.repeat(Math.max(0, 3 - player.lives))}
+                  {player.team
+                    ? `❤️×${player.lives}`
+                    : <>{'❤️'.repeat(player.lives)}{'🖤'.repeat(Math.max(0, 3 - player.lives))}</>}
                 </Typography>
                 <Typography variant="caption" sx={{ fontWeight: 700, fontSize: { xs: '0.85rem', md: '0.8rem' }, color: '#2ecc71' }}>
                   {player.score}
@@ -16,7 +16,7 @@ import ExitToAppIcon from '@mui/icons-material/ExitToApp';
 import CloseIcon from '@mui/icons-material/Close';
 import { useLanguage } from '../../../i18n';
 import { useWordChain } from '../WordChainContext';
-import { WordChainWinner } from '../word-chain-types';
+import { WordChainWinner, TEAM_COLORS } from '../word-chain-types';
 
 const MEDAL_ICONS = ['🥇', '🥈', '🥉'];
 
@@ -31,14 +31,28 @@ export const WordChainResultModal: React.FC = () => {
   const { t } = useLanguage();
   const { state, newGame, leaveRoom, dismissResult } = useWordChain();
   const isDraw = state.winner === 'draw';
+  const winnerTeam = !isDraw && state.winner && typeof state.winner !== 'string'
+    ? (state.winner as WordChainWinner).team
+    : undefined;
+  const myTeam = state.players.find(p => p.slot === state.mySlot)?.team;
 
-  // Determine personal result
+  // Determine personal result (team mode: the whole team wins)
   const isWinner = !isDraw && state.winner && typeof state.winner !== 'string'
-    && (state.winner as WordChainWinner).slot === state.mySlot;
+    && (winnerTeam ? myTeam === winnerTeam : (state.winner as WordChainWinner).slot === state.mySlot);
 
-  // Sort players: winner first, then by score desc, then by lives desc
+  // Team mode: total score per team
+  const teamScores = [1, 2].map(team => ({
+    team,
+    score: state.players.filter(p => p.team === team).reduce((sum, p) => sum + p.score, 0),
+  }));
+  const isTeamGame = state.players.some(p => !!p.team);
+
+  // Sort players: winner (or winning team) first, then by score desc, then by lives desc
   const ranked = [...state.players].sort((a, b) => {
-    if (!isDraw && state.winner && typeof state.winner !== 'string') {
+    if (winnerTeam && a.team !== b.team) {
+      return Number(b.team === winnerTeam) - Number(a.team === winnerTeam);
+    }
+    if (!winnerTeam && !isDraw && state.winner && typeof state.winner !== 'string') {
       const winnerSlot = (state.winner as WordChainWinner).slot;
       if (a.slot === winnerSlot) return -1;
       if (b.slot === winnerSlot) return 1;
@@ -50,7 +64,9 @@ export const WordChainResultModal: React.FC = () => {
   const totalWords = state.wordChain.filter(w => w.accepted && w.playerSlot !== 0).length;
 
   // Personal status config
-  const statusConfig = isDraw
+  const statusConfig = state.isSpectator
+    ? { icon: <EmojiEventsIcon sx={{ fontSize: 40, color: '#f39c12' }} />, label: t('spectator.gameOver'), color: '#2c3e50', bg: 'rgba(44, 62, 80, 0.06)' }
+    : isDraw
     ? { icon: <BalanceIcon sx={{ fontSize: 40, color: '#f39c12' }} />, label: t('wordChain.game.draw'), color: '#f39c12', bg: 'rgba(243, 156, 18, 0.08)' }
     : isWinner
       ? { icon: <EmojiEventsIcon sx={{ fontSize: 40, color: '#f39c12' }} />, label: t('wordChain.game.youWin'), color: '#2ecc71', bg: 'rgba(46, 204, 113, 0.08)' }
@@ -103,12 +119,23 @@ export const WordChainResultModal: React.FC = () => {
           >
             {statusConfig.label}
           </Typography>
-          {!isDraw && state.winner && typeof state.winner !== 'string' && !isWinner && (
+          {!isDraw && state.winner && typeof state.winner !== 'string' && (winnerTeam || !isWinner) && (
             <Typography variant="body2" sx={{ color: 'text.secondary', mt: 0.5 }}>
-              {(state.winner as WordChainWinner).name || (state.winner as WordChainWinner).guestName || 'Player'}{' '}
+              {winnerTeam
+                ? t('wordChain.team.name', { team: winnerTeam })
+                : (state.winner as WordChainWinner).name || (state.winner as WordChainWinner).guestName || 'Player'}{' '}
               {t('wordChain.game.wins')}
             </Typography>
           )}
+          {isTeamGame && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2, mt: 1 }}>
+              {teamScores.map(({ team, score }) => (
+                <Typography key={team} variant="body2" sx={{ fontWeight: 700, color: TEAM_COLORS[team] }}>
+                  {t('wordChain.team.name', { team })}: {score}
+                </Typography>
+              ))}
+            </Box>
+          )}
         </Box>
 
         {/* Stats Row */}
@@ -187,6 +214,9 @@ export const WordChainResultModal: React.FC = () => {
                     whiteSpace: 'nowrap',
                   }}
                 >
+                  {player.team && (
+                    <Box component="span" sx={{ display: 'inline-block', width: 8, height: 8, borderRadius: '50%', bgcolor: TEAM_COLORS[player.team], mr: 0.75, verticalAlign: 'middle' }} />
+                  )}
                   {player.name || 'Player'}
                   {player.slot === state.mySlot && (
                     <Typography component="span" variant="caption" sx={{ ml: 0.5, color: '#2ecc71' }}>
@@ -211,21 +241,23 @@ export const WordChainResultModal: React.FC = () => {
 
         {/* Actions */}
         <Box sx={{ display: 'flex', gap: 1.5, p: 2, pt: 1 }}>
-          <Button
-            variant="contained"
-            startIcon={<ReplayIcon />}
-            onClick={newGame}
-            sx={{
-              flex: 1,
-              background: 'linear-gradient(135deg, #2ecc71 0%, #27ae60 100%)',
-              '&:hover': { background: 'linear-gradient(135deg, #27ae60 0%, #219a52 100%)' },
-              py: 1.25,
-              fontWeight: 700,
-              borderRadius: 2.5,
-            }}
-          >
-            {t('wordChain.game.playAgain')}
-          </Button>
+          {!state.isSpectator && (
+            <Button
+              variant="contained"
+              startIcon={<ReplayIcon />}
+              onClick={newGame}
+              sx={{
+                flex: 1,
+                background: 'linear-gradient(135deg, #2ecc71 0%, #27ae60 100%)',
+                '&:hover': { background: 'linear-gradient(135deg, #27ae60 0%, #219a52 100%)' },
+                py: 1.25,
+                fontWeight: 700,
+                borderRadius: 2.5,
+              }}
+            >
+              {t('wordChain.game.playAgain')}
+            </Button>
+          )}
           <Button
             variant="outlined"
             startIcon={<ExitToAppIcon />}
@@ -10,6 +10,7 @@ interface Props {
   turnStartedAt: number;  // timestamp ms
   turnDuration: number;   // seconds
   isActive: boolean;
+  paused?: boolean;       // freeze the display (turn held for a challenge vote)
 }
 
 const pulse = keyframes`
@@ -26,7 +27,7 @@ const getColor = (pct: number): string => {
   return '#F44336';
 };
 
-export const WordChainTimer: React.FC<Props> = ({ turnStartedAt, turnDuration, isActive }) => {
+export const WordChainTimer: React.FC<Props> = ({ turnStartedAt, turnDuration, isActive, paused = false }) => {
   const [displaySeconds, setDisplaySeconds] = useState(turnDuration);
   const [progress, setProgress] = useState(1); // 1 = full, 0 = empty
   const rafRef = useRef<number | null>(null);
@@ -50,6 +51,7 @@ export const WordChainTimer: React.FC<Props> = ({ turnStartedAt, turnDuration, i
       setProgress(1);
       return;
     }
+    if (paused) return;
 
     // Start animation loop
     rafRef.current = requestAnimationFrame(tick);
@@ -57,11 +59,11 @@ export const WordChainTimer: React.FC<Props> = ({ turnStartedAt, turnDuration, i
     return () => {
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
     };
-  }, [turnStartedAt, turnDuration, isActive, tick]);
+  }, [turnStartedAt, turnDuration, isActive, paused, tick]);
 
   const safeOffset = isNaN(CIRCUMFERENCE * (1 - progress)) ? 0 : CIRCUMFERENCE * (1 - progress);
   const color = getColor(progress);
-  const shouldPulse = displaySeconds <= 10 && displaySeconds > 0 && isActive;
+  const shouldPulse = displaySeconds <= 10 && displaySeconds > 0 && isActive && !paused;
   const display = isNaN(displaySeconds) ? turnDuration : displaySeconds;
 
   return (
@@ -4,7 +4,7 @@
  */
 import React, { useRef, useEffect } from 'react';
 import { Box, Typography, Chip } from '@mui/material';
-import { WordEntry } from '../word-chain-types';
+import { WordEntry, ScoreBonus } from '../word-chain-types';
 import { PLAYER_COLORS } from './WordChainPlayerBar';
 import { useLanguage } from '../../../i18n';
 
@@ -19,8 +19,13 @@ const REJECTION_LABELS: Record<string, string> = {
   wrong_type: 'wordChain.game.wrongType',
   wrong_chain: 'wordChain.game.wrongChain',
   already_used: 'wordChain.game.alreadyUsed',
+  proper_noun: 'wordChain.game.properNoun',
+  slang: 'wordChain.game.slang',
+  voted_out: 'wordChain.challenge.votedOut',
 };
 
+const SCORE_BONUSES: ScoreBonus[] = ['syllables', 'rarity', 'speed', 'combo', 'trap'];
+
 export const WordChainWordHistory: React.FC<Props> = ({ wordChain, mySlot, currentWord }) => {
   const { t } = useLanguage();
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -53,6 +58,8 @@ export const WordChainWordHistory: React.FC<Props> = ({ wordChain, mySlot, curre
         const isMine = entry.playerSlot === mySlot;
         const color = isSystem ? '#95a5a6' : PLAYER_COLORS[(entry.playerSlot - 1) % PLAYER_COLORS.length];
         const isRejected = !entry.accepted;
+        const points = entry.points;
+        const bonuses = points ? SCORE_BONUSES.filter(b => points[b] > 0) : [];
 
         if (isSystem) {
           // System message (first word)
@@ -147,6 +154,41 @@ export const WordChainWordHistory: React.FC<Props> = ({ wordChain, mySlot, curre
                 </Typography>
               )}
             </Box>
+
+            {/* Points breakdown — only when a bonus applied */}
+            {points && bonuses.length > 0 && (
+              <Box
+                sx={{
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  justifyContent: isMine ? 'flex-end' : 'flex-start',
+                  alignItems: 'center',
+                  gap: 0.5,
+                  mt: 0.25,
+                  px: 0.5,
+                  maxWidth: '80%',
+                }}
+              >
+                <Typography variant="caption" sx={{ fontWeight: 700, color: '#27ae60', fontSize: '0.7rem' }}>
+                  +{points.total}
+                </Typography>
+                {bonuses.map(bonus => (
+                  <Typography
+                    key={bonus}
+                    variant="caption"
+                    sx={{
+                      fontSize: '0.65rem',
+                      color: 'text.secondary',
+                      bgcolor: 'rgba(46, 204, 113, 0.08)',
+                      borderRadius: 1,
+                      px: 0.5,
+                    }}
+                  >
+                    {t(`wordChain.scoring.short.${bonus}`)} +{points[bonus]}
+                  </Typography>
+                ))}
+              </Box>
+            )}
           </Box>
         );
       })}
@@ -9,7 +9,7 @@ import {
 import CloseIcon from '@mui/icons-material/Close';
 import { useLanguage } from '../../../i18n';
 import { useWordChain } from '../WordChainContext';
-import { WordType, WordChainGameMode } from '../word-chain-types';
+import { WordType, WordChainGameMode, WordChainScoring, DEFAULT_SCORING } from '../word-chain-types';
 import { WordChainSettingsForm } from './WordChainSettingsForm';
 
 interface Props {
@@ -28,6 +28,9 @@ export const WordChainCreateRoom: React.FC<Props> = ({ open, onClose }) => {
   const [lives, setLives] = useState(3);
   const [allowRepeat, setAllowRepeat] = useState(false);
   const [showHint, setShowHint] = useState(true);
+  const [allowProperNouns, setAllowProperNouns] = useState(false);
+  const [allowSlang, setAllowSlang] = useState(false);
+  const [scoring, setScoring] = useState<WordChainScoring>(DEFAULT_SCORING);
   const [password, setPassword] = useState('');
 
   const handleCreate = () => {
@@ -40,8 +43,9 @@ export const WordChainCreateRoom: React.FC<Props> = ({ open, onClose }) => {
         lives,
         allowRepeat,
         showHint,
-        allowProperNouns: false,
-        allowSlang: false,
+        allowProperNouns,
+        allowSlang,
+        scoring,
       },
       password: password.trim() || undefined,
     });
@@ -76,6 +80,9 @@ export const WordChainCreateRoom: React.FC<Props> = ({ open, onClose }) => {
           lives={lives} setLives={setLives}
           allowRepeat={allowRepeat} setAllowRepeat={setAllowRepeat}
           showHint={showHint} setShowHint={setShowHint}
+          allowProperNouns={allowProperNouns} setAllowProperNouns={setAllowProperNouns}
+          allowSlang={allowSlang} setAllowSlang={setAllowSlang}
+          scoring={scoring} setScoring={setScoring}
           password={password} setPassword={setPassword}
         />
       </DialogContent>
@@ -2,32 +2,46 @@
  * WordChainJoinRoom - Join room by 6-char room code input.
  */
 import React, { useState } from 'react';
-import { Box, TextField, Button, Dialog, DialogTitle, DialogContent, DialogActions, Typography } from '@mui/material';
+import { Box, TextField, Button, IconButton, Tooltip, Dialog, DialogTitle, DialogContent, DialogActions, Typography } from '@mui/material';
 import LoginIcon from '@mui/icons-material/Login';
+import VisibilityIcon from '@mui/icons-material/Visibility';
 import { useLanguage } from '../../../i18n';
 import { useWordChain } from '../WordChainContext';
 
 export const WordChainJoinRoom: React.FC = () => {
   const { t } = useLanguage();
-  const { joinRoom, state } = useWordChain();
+  const { joinRoom, spectateRoom, state } = useWordChain();
   const [code, setCode] = useState('');
   const [passwordDialog, setPasswordDialog] = useState(false);
   const [password, setPassword] = useState('');
   const [pendingCode, setPendingCode] = useState('');
+  const [pendingSpectate, setPendingSpectate] = useState(false);
 
   const handleJoin = () => {
     const trimmed = code.trim().toUpperCase();
     if (trimmed.length !== 6) return;
     // Join directly, if password needed the server will respond with error
+    setPendingSpectate(false);
     joinRoom(trimmed);
     setCode('');
   };
 
+  const handleWatch = () => {
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed.length !== 6) return;
+    setPendingSpectate(true);
+    setPendingCode(trimmed);
+    spectateRoom(trimmed);
+    setCode('');
+  };
+
   const handlePasswordJoin = () => {
-    joinRoom(pendingCode, password);
+    if (pendingSpectate) spectateRoom(pendingCode, password);
+    else joinRoom(pendingCode, password);
     setPasswordDialog(false);
     setPassword('');
     setPendingCode('');
+    setPendingSpectate(false);
   };
 
   // Listen for password-required error
@@ -75,6 +89,17 @@ export const WordChainJoinRoom: React.FC = () => {
         >
           {t('wordChain.join')}
         </Button>
+        <Tooltip title={t('spectator.watch')}>
+          <span>
+            <IconButton
+              onClick={handleWatch}
+              disabled={code.trim().length !== 6}
+              sx={{ color: '#27ae60', flexShrink: 0 }}
+            >
+              <VisibilityIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
       </Box>
 
       {/* Password Dialog */}
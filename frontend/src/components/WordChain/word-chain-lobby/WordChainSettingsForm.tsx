@@ -10,10 +10,11 @@ import {
 import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
 import LockOpenIcon from '@mui/icons-material/LockOpen';
 import { useLanguage } from '../../../i18n';
-import { WordType, WordChainGameMode } from '../word-chain-types';
+import { WordType, WordChainGameMode, WordChainScoring, ScoreBonus } from '../word-chain-types';
 
 const TURN_DURATION_OPTIONS = [15, 30, 60, 90, 120];
 const LIVES_OPTIONS = [1, 2, 3, 4, 5];
+const SCORE_BONUSES: ScoreBonus[] = ['syllables', 'rarity', 'speed', 'combo', 'trap'];
 
 interface Props {
   maxPlayers: number;
@@ -30,6 +31,12 @@ interface Props {
   setAllowRepeat: (v: boolean) => void;
   showHint: boolean;
   setShowHint: (v: boolean) => void;
+  allowProperNouns: boolean;
+  setAllowProperNouns: (v: boolean) => void;
+  allowSlang: boolean;
+  setAllowSlang: (v: boolean) => void;
+  scoring: WordChainScoring;
+  setScoring: (v: WordChainScoring) => void;
   password: string;
   setPassword: (v: string) => void;
   minMaxPlayers?: number;
@@ -40,6 +47,7 @@ interface Props {
 }
 
 const PLAYER_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+const TEAM_PLAYER_OPTIONS = [4, 6]; // 2v2, 3v3
 
 export const WordChainSettingsForm: React.FC<Props> = ({
   maxPlayers, setMaxPlayers,
@@ -49,6 +57,9 @@ export const WordChainSettingsForm: React.FC<Props> = ({
   lives, setLives,
   allowRepeat, setAllowRepeat,
   showHint, setShowHint,
+  allowProperNouns, setAllowProperNouns,
+  allowSlang, setAllowSlang,
+  scoring, setScoring,
   password, setPassword,
   minMaxPlayers = 2,
   hasPassword,
@@ -58,7 +69,16 @@ export const WordChainSettingsForm: React.FC<Props> = ({
   const isEditMode = hasPassword !== undefined;
   const [showPasswordInput, setShowPasswordInput] = useState(false);
 
-  const playerOptions = PLAYER_OPTIONS.filter(n => n >= minMaxPlayers);
+  const playerOptions = (gameMode === 'team' ? TEAM_PLAYER_OPTIONS : PLAYER_OPTIONS).filter(n => n >= minMaxPlayers);
+
+  const handleGameModeChange = (mode: WordChainGameMode) => {
+    setGameMode(mode);
+    // Team games need an even room: snap to the nearest 2v2 / 3v3 size
+    if (mode === 'team' && !TEAM_PLAYER_OPTIONS.includes(maxPlayers)) {
+      const size = TEAM_PLAYER_OPTIONS.find(n => n >= Math.max(maxPlayers, minMaxPlayers));
+      setMaxPlayers(size ?? TEAM_PLAYER_OPTIONS[TEAM_PLAYER_OPTIONS.length - 1]);
+    }
+  };
 
   return (
     <>
@@ -71,7 +91,7 @@ export const WordChainSettingsForm: React.FC<Props> = ({
           {playerOptions.map(n => (
             <Chip
               key={n}
-              label={`${n}`}
+              label={gameMode === 'team' ? t('wordChain.team.format', { size: n / 2 }) : `${n}`}
               onClick={() => setMaxPlayers(n)}
               color={maxPlayers === n ? 'success' : 'default'}
               variant={maxPlayers === n ? 'filled' : 'outlined'}
@@ -107,13 +127,19 @@ export const WordChainSettingsForm: React.FC<Props> = ({
         <ToggleButtonGroup
           value={gameMode}
           exclusive
-          onChange={(_, v) => v && setGameMode(v)}
+          onChange={(_, v) => v && handleGameModeChange(v)}
           size="small"
           sx={{ '& .MuiToggleButton-root': { px: 2 }, borderRadius: 2 }}
         >
           <ToggleButton value="classic">{t('wordChain.modeClassic')}</ToggleButton>
           <ToggleButton value="speed">{t('wordChain.modeSpeed')}</ToggleButton>
+          <ToggleButton value="team">{t('wordChain.modeTeam')}</ToggleButton>
         </ToggleButtonGroup>
+        {gameMode === 'team' && (
+          <Typography variant="caption" sx={{ display: 'block', mt: 0.75, color: 'text.secondary' }}>
+            {t('wordChain.team.modeHint')}
+          </Typography>
+        )}
       </Box>
 
       {/* Turn Duration */}
@@ -164,6 +190,46 @@ export const WordChainSettingsForm: React.FC<Props> = ({
           control={<Switch checked={showHint} onChange={(_, v) => setShowHint(v)} color="success" />}
           label={t('wordChain.showHint')}
         />
+        <FormControlLabel
+          control={<Switch checked={allowProperNouns} onChange={(_, v) => setAllowProperNouns(v)} color="success" />}
+          label={t('wordChain.allowProperNouns')}
+        />
+        <FormControlLabel
+          control={<Switch checked={allowSlang} onChange={(_, v) => setAllowSlang(v)} color="success" />}
+          label={t('wordChain.allowSlang')}
+        />
+      </Box>
+
+      {/* Scoring bonuses — all off = 1 point per word */}
+      <Box sx={{ mb: 2.5 }}>
+        <Typography variant="subtitle2" sx={{ mb: 0.5, fontWeight: 600 }}>
+          {t('wordChain.scoring.title')}
+        </Typography>
+        <Typography variant="caption" sx={{ display: 'block', mb: 1, color: 'text.secondary' }}>
+          {t('wordChain.scoring.hint')}
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          {SCORE_BONUSES.map(bonus => (
+            <FormControlLabel
+              key={bonus}
+              control={
+                <Switch
+                  checked={scoring[bonus]}
+                  onChange={(_, v) => setScoring({ ...scoring, [bonus]: v })}
+                  color="success"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">{t(`wordChain.scoring.${bonus}`)}</Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    {t(`wordChain.scoring.${bonus}Desc`)}
+                  </Typography>
+                </Box>
+              }
+            />
+          ))}
+        </Box>
       </Box>
 
       {/* Password */}
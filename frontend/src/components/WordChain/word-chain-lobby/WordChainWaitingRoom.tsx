@@ -6,7 +6,7 @@
 import React, { useState } from 'react';
 import {
   Box, Typography, Paper, Button, Chip, IconButton, Tooltip,
-  Dialog, DialogTitle, DialogContent, DialogActions, CircularProgress,
+  Dialog, DialogTitle, DialogContent, DialogActions, CircularProgress, Menu, MenuItem,
 } from '@mui/material';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
@@ -22,15 +22,18 @@ import LaptopMacIcon from '@mui/icons-material/LaptopMac';
 import SettingsIcon from '@mui/icons-material/Settings';
 import CloseIcon from '@mui/icons-material/Close';
 import EditIcon from '@mui/icons-material/Edit';
+import SmartToyIcon from '@mui/icons-material/SmartToy';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
 import { useLanguage } from '../../../i18n';
 import { useWordChain } from '../WordChainContext';
 import { useToast } from '../../../contexts/ToastContext';
 import { useAuth } from '../../../contexts/AuthContext';
-import { WordType, WordChainGameMode } from '../word-chain-types';
+import { WordType, WordChainGameMode, WordChainScoring, WordChainBotLevel, DEFAULT_SCORING, TEAM_COLORS } from '../word-chain-types';
 import { WordChainSettingsForm } from './WordChainSettingsForm';
 import ConfirmDialog from '../../ConfirmDialog/ConfirmDialog';
 import GuestNameDialog from '../../GuestNameDialog/GuestNameDialog';
 import { ChatButton, FloatingChatMessage, WordChainChatOverlay } from '../word-chain-game/WordChainChat';
+import { SpectatorPanel } from '../../Spectator';
 
 export const WordChainWaitingRoom: React.FC = () => {
   const { t } = useLanguage();
@@ -41,13 +44,14 @@ export const WordChainWaitingRoom: React.FC = () => {
     'all': t('wordChain.wordTypeAll'),
   };
   const toast = useToast();
-  const { state, startGame, leaveRoom, kickPlayer, updateRoom, updateGuestName, sendChat, clearChat } = useWordChain();
+  const { state, startGame, leaveRoom, kickPlayer, addBot, updateRoom, updateGuestName, sendChat, clearChat, switchTeam } = useWordChain();
   const { isAuthenticated } = useAuth();
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
   const [kickTarget, setKickTarget] = useState<{ slot: number; name: string } | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showGuestNameDialog, setShowGuestNameDialog] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
+  const [botMenuAnchor, setBotMenuAnchor] = useState<HTMLElement | null>(null);
 
   // Edit settings state (initialized when dialog opens)
   const [editMaxPlayers, setEditMaxPlayers] = useState(state.maxPlayers);
@@ -57,6 +61,9 @@ export const WordChainWaitingRoom: React.FC = () => {
   const [editLives, setEditLives] = useState(state.rules?.lives || 3);
   const [editAllowRepeat, setEditAllowRepeat] = useState(state.rules?.allowRepeat || false);
   const [editShowHint, setEditShowHint] = useState(state.rules?.showHint !== false);
+  const [editAllowProperNouns, setEditAllowProperNouns] = useState(state.rules?.allowProperNouns || false);
+  const [editAllowSlang, setEditAllowSlang] = useState(state.rules?.allowSlang || false);
+  const [editScoring, setEditScoring] = useState<WordChainScoring>(state.rules?.scoring || DEFAULT_SCORING);
   const [editPassword, setEditPassword] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -68,6 +75,9 @@ export const WordChainWaitingRoom: React.FC = () => {
     setEditLives(state.rules?.lives || 3);
     setEditAllowRepeat(state.rules?.allowRepeat || false);
     setEditShowHint(state.rules?.showHint !== false);
+    setEditAllowProperNouns(state.rules?.allowProperNouns || false);
+    setEditAllowSlang(state.rules?.allowSlang || false);
+    setEditScoring(state.rules?.scoring || DEFAULT_SCORING);
     setEditPassword('');
     setShowSettings(true);
   };
@@ -83,6 +93,9 @@ export const WordChainWaitingRoom: React.FC = () => {
         lives: editLives,
         allowRepeat: editAllowRepeat,
         showHint: editShowHint,
+        allowProperNouns: editAllowProperNouns,
+        allowSlang: editAllowSlang,
+        scoring: editScoring,
       },
       password: editPassword || undefined,
     });
@@ -106,6 +119,21 @@ export const WordChainWaitingRoom: React.FC = () => {
   };
 
   const canStart = state.isHost && state.players.length >= 2 && !isStarting;
+  const canAddBot = state.isHost && state.players.length < state.maxPlayers;
+
+  // Team mode: two equal teams, players sorted by team
+  const isTeamMode = state.rules?.gameMode === 'team';
+  const teamSize = Math.floor(state.maxPlayers / 2);
+  const teamCounts = [1, 2].map(team => state.players.filter(p => p.team === team).length);
+  const myTeam = state.players.find(p => p.slot === state.mySlot)?.team;
+  const listedPlayers = isTeamMode
+    ? [...state.players].sort((a, b) => (a.team || 0) - (b.team || 0))
+    : state.players;
+
+  const handleAddBot = (level: WordChainBotLevel) => {
+    setBotMenuAnchor(null);
+    addBot(level);
+  };
 
   const handleStartGame = async () => {
     if (isStarting) return;
@@ -145,7 +173,13 @@ export const WordChainWaitingRoom: React.FC = () => {
       >
         {/* Top right actions: chat + settings */}
         <Box sx={{ position: 'absolute', top: 8, right: 8, display: 'flex', alignItems: 'center', gap: 0.5 }}>
-          <ChatButton onSend={sendChat} />
+          <SpectatorPanel
+            room={state.roomId}
+            isSpectator={state.isSpectator}
+            initialSpectators={state.spectators}
+            hideWhenEmpty
+          />
+          {!state.isSpectator && <ChatButton onSend={sendChat} teamChat={state.rules?.gameMode === 'team'} />}
           {state.isHost && (
             <Tooltip title={t('wordChain.editSettings')}>
               <IconButton
@@ -211,7 +245,11 @@ export const WordChainWaitingRoom: React.FC = () => {
             sx={{ fontWeight: 600, bgcolor: 'rgba(231, 76, 60, 0.12)', color: '#c0392b', border: '1px solid rgba(231, 76, 60, 0.25)' }}
           />
           <Chip
-            label={state.rules?.gameMode === 'speed' ? t('wordChain.modeSpeed') : t('wordChain.modeClassic')}
+            label={state.rules?.gameMode === 'speed'
+              ? t('wordChain.modeSpeed')
+              : isTeamMode
+                ? `${t('wordChain.modeTeam')} ${t('wordChain.team.format', { size: teamSize })}`
+                : t('wordChain.modeClassic')}
             size="small"
             sx={{ fontWeight: 600, bgcolor: 'rgba(46, 204, 113, 0.12)', color: '#27ae60', border: '1px solid rgba(46, 204, 113, 0.25)' }}
           />
@@ -222,16 +260,95 @@ export const WordChainWaitingRoom: React.FC = () => {
               sx={{ fontWeight: 600, bgcolor: 'rgba(241, 196, 15, 0.12)', color: '#f39c12', border: '1px solid rgba(241, 196, 15, 0.25)' }}
             />
           )}
+          {state.rules?.allowProperNouns && (
+            <Chip
+              label={t('wordChain.allowProperNouns')}
+              size="small"
+              sx={{ fontWeight: 600, bgcolor: 'rgba(241, 196, 15, 0.12)', color: '#f39c12', border: '1px solid rgba(241, 196, 15, 0.25)' }}
+            />
+          )}
+          {state.rules?.allowSlang && (
+            <Chip
+              label={t('wordChain.allowSlang')}
+              size="small"
+              sx={{ fontWeight: 600, bgcolor: 'rgba(241, 196, 15, 0.12)', color: '#f39c12', border: '1px solid rgba(241, 196, 15, 0.25)' }}
+            />
+          )}
+          {state.rules?.scoring && Object.values(state.rules.scoring).some(Boolean) && (
+            <Chip
+              label={t('wordChain.scoring.bonusCount', { count: Object.values(state.rules.scoring).filter(Boolean).length })}
+              size="small"
+              sx={{ fontWeight: 600, bgcolor: 'rgba(52, 152, 219, 0.12)', color: '#2980b9', border: '1px solid rgba(52, 152, 219, 0.25)' }}
+            />
+          )}
         </Box>
       </Paper>
 
       {/* Players List */}
       <Paper elevation={1} sx={{ p: { xs: 2, sm: 2.5 }, borderRadius: 3, mb: 3 }}>
-        <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1.5, textTransform: 'capitalize' }}>
-          {t('wordChain.playersLabel')} ({state.players.length}/{state.maxPlayers})
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1.5 }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 700, textTransform: 'capitalize' }}>
+            {t('wordChain.playersLabel')} ({state.players.length}/{state.maxPlayers})
+          </Typography>
+          {canAddBot && (
+            <Button
+              size="small"
+              startIcon={<SmartToyIcon />}
+              onClick={(e) => setBotMenuAnchor(e.currentTarget)}
+              sx={{ color: '#2ecc71', fontWeight: 600 }}
+            >
+              {t('wordChain.bot.add')}
+            </Button>
+          )}
+        </Box>
+        <Menu
+          anchorEl={botMenuAnchor}
+          open={!!botMenuAnchor}
+          onClose={() => setBotMenuAnchor(null)}
+        >
+          {(['easy', 'medium', 'hard'] as WordChainBotLevel[]).map(level => (
+            <MenuItem key={level} onClick={() => handleAddBot(level)}>
+              <Box>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {t(`wordChain.bot.levels.${level}` as any)}
+                </Typography>
+                <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                  {t(`wordChain.bot.levelHints.${level}` as any)}
+                </Typography>
+              </Box>
+            </MenuItem>
+          ))}
+        </Menu>
+        {isTeamMode && (
+          <Box sx={{ display: 'flex', gap: 1, mb: 1.5 }}>
+            {[1, 2].map(team => (
+              <Button
+                key={team}
+                fullWidth
+                size="small"
+                variant={myTeam === team ? 'contained' : 'outlined'}
+                disabled={!state.mySlot || myTeam === team || teamCounts[team - 1] >= teamSize}
+                onClick={() => switchTeam(team)}
+                sx={{
+                  fontWeight: 600,
+                  borderColor: TEAM_COLORS[team],
+                  color: myTeam === team ? '#fff' : TEAM_COLORS[team],
+                  '&.Mui-disabled': myTeam === team ? { bgcolor: TEAM_COLORS[team], color: '#fff' } : {},
+                }}
+              >
+                {t('wordChain.team.name', { team })} ({teamCounts[team - 1]}/{teamSize})
+                {myTeam !== team && ` · ${t('wordChain.team.join')}`}
+              </Button>
+            ))}
+          </Box>
+        )}
+        {isTeamMode && teamCounts[0] !== teamCounts[1] && (
+          <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary', mb: 1 }}>
+            {t('wordChain.team.unevenHint')}
+          </Typography>
+        )}
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-          {state.players.map((player, idx) => (
+          {listedPlayers.map((player) => (
             <Box
               key={player.slot}
               sx={{
@@ -254,7 +371,7 @@ export const WordChainWaitingRoom: React.FC = () => {
                   display: 'flex',
                   alignItems: 'center',
                   justifyContent: 'center',
-                  bgcolor: '#2ecc71',
+                  bgcolor: player.team ? TEAM_COLORS[player.team] : '#2ecc71',
                   color: '#fff',
                   fontWeight: 700,
                   fontSize: '0.9rem',
@@ -286,27 +403,53 @@ export const WordChainWaitingRoom: React.FC = () => {
                 {player.isHost && (
                   <Chip label={t('wordChain.host')} size="small" sx={{ height: 20, fontSize: '0.65rem' }} />
                 )}
+                {player.isBot && (
+                  <Chip label={t('wordChain.bot.badge')} size="small" sx={{ height: 20, fontSize: '0.65rem', bgcolor: 'rgba(52, 152, 219, 0.12)', color: '#2980b9' }} />
+                )}
+                {isTeamMode && player.team && (
+                  <Chip label={t('wordChain.team.name', { team: player.team })} size="small" sx={{ height: 20, fontSize: '0.65rem', bgcolor: TEAM_COLORS[player.team], color: '#fff' }} />
+                )}
               </Box>
 
-              {/* Connection + Device */}
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                {player.isConnected ? (
-                  <WifiIcon sx={{ fontSize: 18, color: '#2ecc71' }} />
-                ) : (
-                  <WifiOffIcon sx={{ fontSize: 18, color: '#e74c3c' }} />
-                )}
-                <Tooltip title={player.deviceType === 'mobile' ? t('common.device.mobile' as any) : player.deviceType === 'tablet' ? t('common.device.tablet' as any) : t('common.device.desktop' as any)}>
-                  <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center' }}>
-                    {player.deviceType === 'mobile' ? (
-                      <PhoneIphoneIcon sx={{ fontSize: 16, color: '#3498db' }} />
-                    ) : player.deviceType === 'tablet' ? (
-                      <TabletMacIcon sx={{ fontSize: 16, color: '#9b59b6' }} />
-                    ) : (
-                      <LaptopMacIcon sx={{ fontSize: 16, color: '#7f8c8d' }} />
-                    )}
-                  </Box>
+              {/* Move to the other team — host only, not self */}
+              {isTeamMode && state.isHost && player.slot !== state.mySlot && player.team && (
+                <Tooltip title={t('wordChain.team.move', { team: 3 - player.team })}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      disabled={teamCounts[2 - player.team] >= teamSize}
+                      onClick={() => switchTeam(3 - player.team!, player.slot)}
+                      sx={{ color: TEAM_COLORS[3 - player.team] }}
+                    >
+                      <SwapHorizIcon sx={{ fontSize: 18 }} />
+                    </IconButton>
+                  </span>
                 </Tooltip>
-              </Box>
+              )}
+
+              {/* Connection + Device */}
+              {player.isBot ? (
+                <SmartToyIcon sx={{ fontSize: 18, color: '#3498db' }} />
+              ) : (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  {player.isConnected ? (
+                    <WifiIcon sx={{ fontSize: 18, color: '#2ecc71' }} />
+                  ) : (
+                    <WifiOffIcon sx={{ fontSize: 18, color: '#e74c3c' }} />
+                  )}
+                  <Tooltip title={player.deviceType === 'mobile' ? t('common.device.mobile' as any) : player.deviceType === 'tablet' ? t('common.device.tablet' as any) : t('common.device.desktop' as any)}>
+                    <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center' }}>
+                      {player.deviceType === 'mobile' ? (
+                        <PhoneIphoneIcon sx={{ fontSize: 16, color: '#3498db' }} />
+                      ) : player.deviceType === 'tablet' ? (
+                        <TabletMacIcon sx={{ fontSize: 16, color: '#9b59b6' }} />
+                      ) : (
+                        <LaptopMacIcon sx={{ fontSize: 16, color: '#7f8c8d' }} />
+                      )}
+                    </Box>
+                  </Tooltip>
+                </Box>
+              )}
 
               {/* Kick button — host only, not self */}
               {state.isHost && player.slot !== state.mySlot && (
@@ -381,7 +524,7 @@ export const WordChainWaitingRoom: React.FC = () => {
         <Button
           variant="outlined"
           startIcon={<ExitToAppIcon />}
-          onClick={() => setShowLeaveConfirm(true)}
+          onClick={() => (state.isSpectator ? leaveRoom() : setShowLeaveConfirm(true))}
           sx={{
             borderColor: '#e74c3c',
             color: '#e74c3c',
@@ -444,6 +587,9 @@ export const WordChainWaitingRoom: React.FC = () => {
             lives={editLives} setLives={setEditLives}
             allowRepeat={editAllowRepeat} setAllowRepeat={setEditAllowRepeat}
             showHint={editShowHint} setShowHint={setEditShowHint}
+            allowProperNouns={editAllowProperNouns} setAllowProperNouns={setEditAllowProperNouns}
+            allowSlang={editAllowSlang} setAllowSlang={setEditAllowSlang}
+            scoring={editScoring} setScoring={setEditScoring}
             password={editPassword} setPassword={setEditPassword}
             minMaxPlayers={state.players.length}
             hasPassword={state.hasPassword}
@@ -109,7 +109,7 @@ export const WordChainWaitingRooms: React.FC = () => {
 interface RoomCardProps {
   room: WaitingRoomInfo;
   onJoin: (room: WaitingRoomInfo) => void;
-  t: (key: string) => string;
+  t: (key: string, params?: Record<string, string | number>) => string;
 }
 
 const RoomCard: React.FC<RoomCardProps> = ({ room, onJoin, t }) => {
@@ -196,6 +196,19 @@ const RoomCard: React.FC<RoomCardProps> = ({ room, onJoin, t }) => {
             border: '1px solid rgba(230, 126, 34, 0.25)',
           }}
         />
+        {room.rules?.gameMode === 'team' && (
+          <Chip
+            label={t('wordChain.team.format', { size: room.maxPlayers / 2 })}
+            size="small"
+            sx={{
+              fontSize: '0.75rem',
+              fontWeight: 600,
+              bgcolor: 'rgba(46, 204, 113, 0.12)',
+              color: '#27ae60',
+              border: '1px solid rgba(46, 204, 113, 0.25)',
+            }}
+          />
+        )}
       </Box>
 
       {/* Host + Join */}
@@ -3,13 +3,44 @@
  * Mirrors backend types + UI-specific extensions.
  */
 
+import { SpectatorInfo } from '../../types/socket.types';
+
 // ─── Enums / Literals ─────────────────────────────────────────
 
 export type WordType = '2+' | '3+' | 'all';
-export type WordChainGameMode = 'classic' | 'speed';
+export type WordChainGameMode = 'classic' | 'speed' | 'team';
 export type WordChainGameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
-export type RejectionReason = 'not_in_dictionary' | 'wrong_type' | 'wrong_chain' | 'already_used' | 'timeout';
+export type RejectionReason =
+  | 'not_in_dictionary' | 'wrong_type' | 'wrong_chain' | 'already_used' | 'timeout'
+  | 'proper_noun' | 'slang' | 'voted_out';
 export type WordChainView = 'lobby' | 'waiting' | 'playing' | 'result';
+export type WordChainBotLevel = 'easy' | 'medium' | 'hard';
+
+// ─── Scoring ──────────────────────────────────────────────────
+
+/** Optional bonuses on top of 1 point per word */
+export interface WordChainScoring {
+  syllables: boolean;
+  rarity: boolean;
+  speed: boolean;
+  combo: boolean;
+  trap: boolean;
+}
+
+export type ScoreBonus = keyof WordChainScoring;
+
+export interface WordScoreBreakdown extends Record<ScoreBonus, number> {
+  base: number;
+  total: number;
+}
+
+export const DEFAULT_SCORING: WordChainScoring = {
+  syllables: false,
+  rarity: false,
+  speed: false,
+  combo: false,
+  trap: false,
+};
 
 // ─── Rules ────────────────────────────────────────────────────
 
@@ -22,6 +53,7 @@ export interface WordChainRules {
   gameMode: WordChainGameMode;
   allowRepeat: boolean;
   showHint: boolean;
+  scoring: WordChainScoring;
 }
 
 export const DEFAULT_RULES: WordChainRules = {
@@ -33,6 +65,7 @@ export const DEFAULT_RULES: WordChainRules = {
   gameMode: 'classic',
   allowRepeat: false,
   showHint: true,
+  scoring: DEFAULT_SCORING,
 };
 
 // ─── Player ───────────────────────────────────────────────────
@@ -49,9 +82,17 @@ export interface WordChainPlayer {
   isEliminated: boolean;
   isConnected: boolean;
   isHost?: boolean;
+  isBot?: boolean;             // built-in dictionary bot (solo practice)
+  team?: number | null;        // team mode: 1 or 2, lives shared with teammates
   deviceType?: 'mobile' | 'tablet' | 'desktop';
 }
 
+/** Team mode colors, keyed by team number */
+export const TEAM_COLORS: Record<number, string> = {
+  1: '#e74c3c',
+  2: '#3498db',
+};
+
 // ─── Winner ───────────────────────────────────────────────────
 
 export interface WordChainWinner {
@@ -60,6 +101,7 @@ export interface WordChainWinner {
   guestId?: string;
   guestName?: string;
   name?: string;
+  team?: number;               // team mode: the winning team
 }
 
 // ─── Word Entry (for word chain history) ──────────────────────
@@ -71,6 +113,29 @@ export interface WordEntry {
   timestamp: number;
   accepted: boolean;
   reason?: RejectionReason;
+  points?: WordScoreBreakdown;  // accepted words only
+}
+
+// ─── Challenge (room vote on a disputed word) ────────────────
+
+export type WordChallengeKind = 'contest' | 'dispute';
+
+export interface WordChallenge {
+  id: string;
+  kind: WordChallengeKind;     // contest = overrule a rejection, dispute = strike an accepted word
+  word: string;
+  authorSlot: number;
+  challengerSlot: number;
+  voterSlots: number[];
+  votedSlots: number[];
+  deadline: number;            // timestamp ms
+}
+
+/** The last accepted word, open to a challenge until `until` */
+export interface DisputableWord {
+  word: string;
+  authorSlot: number;
+  until: number;               // timestamp ms
 }
 
 // ─── Reaction ────────────────────────────────────────────────
@@ -91,6 +156,7 @@ export interface ChatMessage {
   fromName: string;
   slot: number;
   isSelf: boolean;
+  teamOnly?: boolean;          // team chat, only teammates see it
 }
 
 // ─── Waiting Room Info (lobby card) ───────────────────────────
@@ -136,6 +202,8 @@ export interface WordChainState {
   isHost: boolean;
   mySlot: number | null;
   hasPassword: boolean;
+  isSpectator: boolean;           // watching read-only, no slot
+  spectators: SpectatorInfo[];
 
   // Game state (populated when playing)
   gameStatus: WordChainGameStatus;
@@ -146,6 +214,11 @@ export interface WordChainState {
   turnDuration: number;        // seconds
   roundNumber: number;
 
+  // Challenges
+  challenge: WordChallenge | null;
+  contestDeadline: number | null;   // my rejected word can be contested until then
+  disputable: DisputableWord | null;
+
   // Result
   winner: WordChainWinner | 'draw' | null;
   lastWord: string;              // the final word that ended the game
@@ -169,12 +242,12 @@ export type WordChainAction =
   | { type: 'SET_ROOMS'; payload: WaitingRoomInfo[] }
   | { type: 'SET_LOADING_ROOMS'; payload: boolean }
   | { type: 'ROOM_CREATED'; payload: { roomId: string; roomCode: string; rules: WordChainRules; players: WordChainPlayer[]; maxPlayers: number; hasPassword?: boolean } }
-  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; rules: WordChainRules; players: WordChainPlayer[]; maxPlayers: number; gameStatus: WordChainGameStatus; currentWord?: string; currentPlayerSlot?: number; turnStartedAt?: number; turnDuration?: number; roundNumber?: number; wordChain?: string[] } }
+  | { type: 'ROOM_JOINED'; payload: { roomId: string; roomCode: string; rules: WordChainRules; players: WordChainPlayer[]; maxPlayers: number; gameStatus: WordChainGameStatus; currentWord?: string; currentPlayerSlot?: number; turnStartedAt?: number; turnDuration?: number; roundNumber?: number; wordChain?: string[]; isSpectator?: boolean; spectators?: SpectatorInfo[]; challenge?: WordChallenge | null; contestDeadline?: number } }
   | { type: 'PLAYER_JOINED'; payload: { player: WordChainPlayer; playerCount: number } }
   | { type: 'PLAYER_LEFT'; payload: { slot: number; players: WordChainPlayer[] } }
   | { type: 'GAME_STARTED'; payload: { currentWord: string; currentPlayerSlot: number; turnStartedAt: number; turnDuration: number; roundNumber: number; players: WordChainPlayer[] } }
-  | { type: 'WORD_ACCEPTED'; payload: { word: string; playerSlot: number; playerName: string; nextPlayerSlot: number; currentWord: string; turnStartedAt: number; turnDuration: number; roundNumber: number; players: WordChainPlayer[] } }
-  | { type: 'WORD_REJECTED'; payload: { word: string; playerSlot: number; playerName: string; reason: RejectionReason; players: WordChainPlayer[] } }
+  | { type: 'WORD_ACCEPTED'; payload: { word: string; playerSlot: number; playerName: string; nextPlayerSlot: number; currentWord: string; turnStartedAt: number; turnDuration: number; roundNumber: number; players: WordChainPlayer[]; disputableUntil?: number; points?: WordScoreBreakdown } }
+  | { type: 'WORD_REJECTED'; payload: { word: string; playerSlot: number; playerName: string; reason: RejectionReason; players: WordChainPlayer[]; contestDeadline?: number } }
   | { type: 'TURN_TIMEOUT'; payload: { playerSlot: number; playerName: string; nextPlayerSlot: number; turnStartedAt: number; turnDuration: number; players: WordChainPlayer[] } }
   | { type: 'PLAYER_ELIMINATED'; payload: { slot: number; players: WordChainPlayer[] } }
   | { type: 'GAME_FINISHED'; payload: { winner: WordChainWinner | 'draw'; players: WordChainPlayer[]; lastWord?: string } }
@@ -191,8 +264,13 @@ export type WordChainAction =
   | { type: 'PLAYER_DISCONNECTED'; payload: { slot: number } }
   | { type: 'PLAYER_RECONNECTED'; payload: { slot: number } }
   | { type: 'ROOM_UPDATED'; payload: { rules: WordChainRules; maxPlayers: number; players: WordChainPlayer[]; hasPassword: boolean } }
+  | { type: 'TEAMS_UPDATED'; payload: WordChainPlayer[] }
   | { type: 'PLAYER_NAME_UPDATED'; payload: { slot: number; name: string } }
   | { type: 'REACTION_RECEIVED'; payload: ReceivedReaction }
   | { type: 'CLEAR_REACTION'; payload: string }
   | { type: 'CHAT_RECEIVED'; payload: ChatMessage }
-  | { type: 'CLEAR_CHAT'; payload: string };
+  | { type: 'CLEAR_CHAT'; payload: string }
+  | { type: 'CONTEST_CLOSED' }
+  | { type: 'CHALLENGE_STARTED'; payload: WordChallenge }
+  | { type: 'CHALLENGE_VOTE'; payload: { challengeId: string; votedSlots: number[] } }
+  | { type: 'CHALLENGE_RESOLVED'; payload: { challengeId: string; kind: WordChallengeKind; word: string; upheld: boolean } };
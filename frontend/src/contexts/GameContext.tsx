@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
-import { Game, GameMove, PlayerInfo, PlayerNumber, Winner } from '../types/game.types';
+import { Game, GameClock, GameMove, OpeningChoice, OpeningState, PlayerInfo, PlayerNumber, Winner, WinReason } from '../types/game.types';
 import { socketService } from '../services/socketService';
 import { getGuestId } from '../utils/guestId';
 import { getGuestName } from '../utils/guestName';
@@ -12,6 +12,7 @@ import { logger } from '../utils/logger';
 import { AchievementDefinition } from '../constants/achievements';
 import { getToast } from './ToastContext';
 import { playChatSound } from '../utils/sound';
+import { SpectatorInfo } from '../types/socket.types';
 
 /**
  * GameContext - Split into 3 separate contexts to prevent re-render cascade
@@ -34,6 +35,8 @@ interface GameStateContextType {
   players: PlayerInfo[];
   myPlayerNumber: PlayerNumber | null;
   roomId: string | null;
+  isSpectator: boolean;
+  initialSpectators: SpectatorInfo[];
 }
 
 interface GamePlayContextType {
@@ -55,6 +58,7 @@ interface GameActionsContextType {
   surrender: () => void;
   startGame: () => void;
   newGame: () => void;
+  chooseOpening: (choice: OpeningChoice) => void;
   leaveRoom: () => Promise<void>;
   clearPendingUndo: () => void;
   refreshPlayers: () => void;
@@ -128,6 +132,8 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [players, setPlayers] = useState<PlayerInfo[]>([]);
   const [roomId, setRoomId] = useState<string | null>(null);
   const [myPlayerNumber, setMyPlayerNumber] = useState<PlayerNumber | null>(null);
+  const [isSpectator, setIsSpectator] = useState<boolean>(false);
+  const [initialSpectators, setInitialSpectators] = useState<SpectatorInfo[]>([]);
   const [pendingUndoMove, setPendingUndoMove] = useState<number | null>(null);
   const [undoRequestSent, setUndoRequestSent] = useState<boolean>(false);
   const [undoUsedCount, setUndoUsedCount] = useState<number>(0);
@@ -183,6 +189,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const userRef = useRef(user);
   const myPlayerNumberRef = useRef(myPlayerNumber);
   const roomIdRef = useRef(roomId);
+  const isSpectatorRef = useRef(isSpectator);
   const playersRef = useRef(players);
   const gameRef = useRef(game);
   const pendingTimeoutsRef = useRef<NodeJS.Timeout[]>([]);
@@ -197,6 +204,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   useEffect(() => { userRef.current = user; }, [user]);
   useEffect(() => { myPlayerNumberRef.current = myPlayerNumber; }, [myPlayerNumber]);
   useEffect(() => { roomIdRef.current = roomId; }, [roomId]);
+  useEffect(() => { isSpectatorRef.current = isSpectator; }, [isSpectator]);
   useEffect(() => { playersRef.current = players; }, [players]);
   useEffect(() => { gameRef.current = game; }, [game]);
   useEffect(() => { undoRequestSentRef.current = undoRequestSent; }, [undoRequestSent]);
@@ -342,7 +350,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       pendingReloadRef.current = false;
     };
 
-    const handleRoomJoined = (data: { roomId: string; players: PlayerInfo[]; gameStatus?: string; currentPlayer?: PlayerNumber }) => {
+    const handleRoomJoined = (data: { roomId: string; players: PlayerInfo[]; gameStatus?: string; currentPlayer?: PlayerNumber; clock?: GameClock | null; isSpectator?: boolean; spectators?: SpectatorInfo[] }) => {
       if (!isMountedRef.current) return;
 
       // Safety check: validate data structure
@@ -378,6 +386,8 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       } else {
         setMyPlayerNumber(null);
       }
+      setIsSpectator(!!data.isSpectator);
+      setInitialSpectators(data.spectators || []);
 
       // Update game state with player info from room-joined
       // This ensures game has correct player2 info if they joined before we connected to room
@@ -391,6 +401,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           ...prevGame,
           gameStatus: (data.gameStatus as any) || prevGame.gameStatus,
           currentPlayer: data.currentPlayer || prevGame.currentPlayer,
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
           // Update player2 info if present in room-joined data
           ...(player2 ? {
             player2: player2.isGuest ? null : player2.id,
@@ -566,7 +577,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
     };
 
-    const handleMoveMade = (data: { move: GameMove | null; board: number[][]; currentPlayer: PlayerNumber }) => {
+    const handleMoveMade = (data: { move: GameMove | null; board: number[][]; currentPlayer: PlayerNumber; clock?: GameClock | null }) => {
       if (!isMountedRef.current) return;
 
       // Safety check: validate data structure
@@ -582,6 +593,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           board: data.board,
           currentPlayer: data.currentPlayer,
           gameStatus: 'playing',
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
         };
       });
       if (data.move) {
@@ -593,8 +605,10 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const handleGameFinished = async (data: {
       winner: Winner;
       reason: string;
+      winReason?: WinReason | null;
       winningLine?: Array<{ row: number; col: number }>;
       score?: { player1: number; player2: number };
+      clock?: GameClock | null;
     }) => {
       if (!isMountedRef.current) return;
 
@@ -649,8 +663,10 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           ...prevGame,
           gameStatus: 'finished',
           winner: data.winner,
+          winReason: data.winReason || null,
           winningLine: winningLine,
           score: score,
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
         };
       });
 
@@ -691,6 +707,12 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               myResult = 'loss';
             }
 
+            // Moves are only kept on the server until the next round, so grab them now for replays
+            const { moves } = await gameApi.getMoves(currentFinishedData.roomId).catch((error) => {
+              logger.error('[GameContext] Failed to load moves for guest history:', error);
+              return { moves: undefined };
+            });
+
             saveGuestHistory({
               roomId: currentFinishedData.roomId,
               roomCode: currentFinishedData.roomCode,
@@ -698,6 +720,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               board: currentFinishedData.board,
               winner: currentFinishedData.winner,
               winningLine: currentFinishedData.winningLine,
+              moves,
               score: currentFinishedData.score,
               finishedAt: currentFinishedData.finishedAt,
               createdAt: currentFinishedData.createdAt,
@@ -710,7 +733,10 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           }
         }
 
-        if (currentIsAuthenticated && currentUser && currentFinishedData && currentMyPlayerNumber) {
+        // Bot games are unranked - don't submit them to GameStats
+        const isBotGame = !!currentGame?.botDifficulty;
+
+        if (currentIsAuthenticated && currentUser && currentFinishedData && currentMyPlayerNumber && !isBotGame) {
           try {
             let myResult: 'win' | 'loss' | 'draw';
             const winner = currentFinishedData.winner;
@@ -780,7 +806,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
     };
 
-    const handleUndoApproved = (data: { moveNumber: number; board: number[][]; currentPlayer: PlayerNumber }) => {
+    const handleUndoApproved = (data: { moveNumber: number; board: number[][]; currentPlayer: PlayerNumber; clock?: GameClock | null }) => {
       if (!isMountedRef.current) return;
 
       // Safety check: validate data structure
@@ -795,6 +821,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           ...prevGame,
           board: data.board,
           currentPlayer: data.currentPlayer || prevGame.currentPlayer,
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
         };
       });
 
@@ -817,11 +844,19 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setUndoRequestSent(false);
     };
 
-    const handleGameStarted = (data: { currentPlayer: PlayerNumber }) => {
+    const handleGameStarted = (data: { currentPlayer: PlayerNumber; clock?: GameClock | null; blackPlayer?: PlayerNumber | null; opening?: OpeningState }) => {
       if (!isMountedRef.current) return;
       setGame(prevGame => {
         if (!prevGame) return prevGame;
-        return { ...prevGame, gameStatus: 'playing', currentPlayer: data.currentPlayer };
+        return {
+          ...prevGame,
+          gameStatus: 'playing',
+          currentPlayer: data.currentPlayer,
+          winReason: null,
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
+          blackPlayer: data.blackPlayer !== undefined ? data.blackPlayer : prevGame.blackPlayer,
+          opening: data.opening || prevGame.opening,
+        };
       });
       setLastMove(null);
       // Reset undo state when game starts
@@ -837,6 +872,9 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       gameStatus: string;
       winner: null;
       winningLine: null;
+      clock?: GameClock | null;
+      blackPlayer?: PlayerNumber | null;
+      opening?: OpeningState;
     }) => {
       if (!isMountedRef.current) return;
 
@@ -854,13 +892,45 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           currentPlayer: data.currentPlayer,
           gameStatus: data.gameStatus as any,
           winner: data.winner,
+          winReason: null,
           winningLine: undefined, // Clear winning line
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
+          blackPlayer: data.blackPlayer !== undefined ? data.blackPlayer : prevGame.blackPlayer,
+          opening: data.opening || prevGame.opening,
         };
       });
       setLastMove(null); // Clear last move highlight
       setUndoUsedCount(0); // Reset undo count for new game
     };
 
+    const handleOpeningUpdated = (data: {
+      board: number[][];
+      currentPlayer: PlayerNumber;
+      blackPlayer: PlayerNumber | null;
+      opening: OpeningState;
+      clock?: GameClock | null;
+    }) => {
+      if (!isMountedRef.current) return;
+
+      if (!data || !Array.isArray(data.board) || !data.opening) {
+        logger.error('[GameContext] Invalid opening-updated data:', data);
+        return;
+      }
+
+      setGame(prevGame => {
+        if (!prevGame) return prevGame;
+        return {
+          ...prevGame,
+          board: data.board,
+          currentPlayer: data.currentPlayer,
+          blackPlayer: data.blackPlayer,
+          opening: data.opening,
+          clock: data.clock !== undefined ? data.clock : prevGame.clock,
+        };
+      });
+      setLastMove(null);
+    };
+
     const handleGameError = (data: { message: string }) => {
       logger.error('Game error received:', data.message);
       getToast()?.error('toast.gameError', { params: { message: data.message } });
@@ -1017,6 +1087,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     socket.on('undo-rejected', handleUndoRejected);
     socket.on('game-started', handleGameStarted);
     socket.on('game-reset', handleGameReset);
+    socket.on('opening-updated', handleOpeningUpdated);
     socket.on('game-error', handleGameError);
     socket.on('marker-updated', handleMarkerUpdated);
     socket.on('guest-name-updated', handleGuestNameUpdated);
@@ -1043,6 +1114,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       socket.off('undo-rejected', handleUndoRejected);
       socket.off('game-started', handleGameStarted);
       socket.off('game-reset', handleGameReset);
+      socket.off('opening-updated', handleOpeningUpdated);
       socket.off('game-error', handleGameError);
       socket.off('marker-updated', handleMarkerUpdated);
       socket.off('guest-name-updated', handleGuestNameUpdated);
@@ -1113,7 +1185,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       isGuest = !isAuthenticatedRef.current;
     }
 
-    socket.emit('join-room', { roomId: newRoomId, playerId, isGuest });
+    socket.emit('join-room', { roomId: newRoomId, playerId, isGuest, guestName: isGuest ? getGuestName() || undefined : undefined });
     setRoomId(newRoomId);
     // Reset undo state when joining a new room
     setUndoUsedCount(0);
@@ -1206,10 +1278,31 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     socket.emit('new-game', { roomId: currentRoomId });
   }, []);
 
+  const chooseOpening = useCallback((choice: OpeningChoice): void => {
+    const currentRoomId = roomIdRef.current;
+    if (!currentRoomId) return;
+
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    socket.emit('choose-opening', { roomId: currentRoomId, choice });
+  }, []);
+
   const leaveRoom = useCallback(async (): Promise<void> => {
     const currentRoomId = roomIdRef.current;
     if (!currentRoomId) return;
 
+    // Spectators never held a seat - just stop watching
+    if (isSpectatorRef.current) {
+      socketService.getSocket()?.emit('leave-room', { roomId: currentRoomId });
+      setRoomId(null);
+      setGame(null);
+      setPlayers([]);
+      setIsSpectator(false);
+      setInitialSpectators([]);
+      return;
+    }
+
     try {
       await gameApi.leaveGame(currentRoomId);
 
@@ -1411,7 +1504,9 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     players,
     myPlayerNumber,
     roomId,
-  }), [game, players, myPlayerNumber, roomId]);
+    isSpectator,
+    initialSpectators,
+  }), [game, players, myPlayerNumber, roomId, isSpectator, initialSpectators]);
 
   // Play context - changes frequently during gameplay
   const playValue = useMemo<GamePlayContextType>(() => ({
@@ -1434,12 +1529,13 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     surrender,
     startGame,
     newGame,
+    chooseOpening,
     leaveRoom,
     clearPendingUndo,
     refreshPlayers,
     updateGuestName,
     sendReaction,
-  }), [joinRoom, makeMove, requestUndo, approveUndo, rejectUndo, surrender, startGame, newGame, leaveRoom, clearPendingUndo, refreshPlayers, updateGuestName, sendReaction]);
+  }), [joinRoom, makeMove, requestUndo, approveUndo, rejectUndo, surrender, startGame, newGame, chooseOpening, leaveRoom, clearPendingUndo, refreshPlayers, updateGuestName, sendReaction]);
 
   // Reaction context value
   const reactionValue = useMemo<ReactionContextType>(() => ({
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { socketService } from '../services/socketService';
+import { getGuestId } from '../utils/guestId';
+import { getGuestName } from '../utils/guestName';
+import {
+  MatchmakingGameType,
+  MatchPreferences,
+  MatchmakingStatus,
+  MatchmakingMatched,
+} from '../types/matchmaking.types';
+
+/**
+ * Hook for the quick-match queue. While searching, the server pushes status updates
+ * (wait time, rating window, queue size) until a match is found or the search is cancelled.
+ * Leaving the page (unmount) cancels any search in progress.
+ */
+export const useMatchmaking = (isAuthenticated: boolean, onMatched: (match: MatchmakingMatched) => void) => {
+  const [searching, setSearching] = useState(false);
+  const [status, setStatus] = useState<MatchmakingStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const searchingRef = useRef(false);
+  const onMatchedRef = useRef(onMatched);
+  onMatchedRef.current = onMatched;
+
+  const stopSearching = useCallback(() => {
+    searchingRef.current = false;
+    setSearching(false);
+    setStatus(null);
+  }, []);
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleStatus = (data: MatchmakingStatus) => {
+      if (searchingRef.current) setStatus(data);
+    };
+
+    const handleMatched = (data: MatchmakingMatched) => {
+      if (!searchingRef.current) return;
+      stopSearching();
+      onMatchedRef.current(data);
+    };
+
+    // Another tab (or a new search) took over this player's place in the queue
+    const handleCancelled = () => {
+      if (!searchingRef.current) return;
+      stopSearching();
+      setError('MATCHMAKING_REPLACED');
+    };
+
+    socket.on('matchmaking:status', handleStatus);
+    socket.on('matchmaking:matched', handleMatched);
+    socket.on('matchmaking:cancelled', handleCancelled);
+    return () => {
+      socket.off('matchmaking:status', handleStatus);
+      socket.off('matchmaking:matched', handleMatched);
+      socket.off('matchmaking:cancelled', handleCancelled);
+      if (searchingRef.current) socket.emit('matchmaking:cancel', {});
+    };
+  }, [stopSearching]);
+
+  const join = useCallback((gameType: MatchmakingGameType, preferences: MatchPreferences, rated: boolean) => {
+    const socket = socketService.getSocket();
+    if (!socket) {
+      setError('MATCHMAKING_NOT_CONNECTED');
+      return;
+    }
+
+    setError(null);
+    searchingRef.current = true;
+    setSearching(true);
+    socket.emit('matchmaking:join', {
+      gameType,
+      preferences,
+      rated,
+      ...(!isAuthenticated && { guestId: getGuestId(), guestName: getGuestName() || undefined }),
+    }, (res) => {
+      if (!res.success) {
+        stopSearching();
+        setError(res.error || 'MATCHMAKING_JOIN_FAILED');
+        return;
+      }
+      // The match may already have been made before the acknowledgement arrived
+      if (searchingRef.current && res.status) setStatus(res.status);
+    });
+  }, [isAuthenticated, stopSearching]);
+
+  const cancel = useCallback(() => {
+    if (!searchingRef.current) return;
+    stopSearching();
+    socketService.getSocket()?.emit('matchmaking:cancel', {});
+  }, [stopSearching]);
+
+  return { searching, status, error, join, cancel };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { socketService } from '../services/socketService';
+import { SpectatorInfo, SpectatorChatMessage } from '../types/socket.types';
+
+const MAX_CHAT_MESSAGES = 100;
+
+/**
+ * Hook to track who is watching a room and, for spectators, the spectator-only chat.
+ * `room` is the socket room name used by the game (Go rooms are prefixed with `go:`).
+ */
+export const useSpectators = (room: string | null, initialSpectators: SpectatorInfo[] = []) => {
+  const [spectators, setSpectators] = useState<SpectatorInfo[]>(initialSpectators);
+  const [messages, setMessages] = useState<SpectatorChatMessage[]>([]);
+
+  // Seed from the join payload whenever the room or its initial list changes
+  useEffect(() => {
+    setSpectators(initialSpectators);
+    setMessages([]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [room]);
+
+  useEffect(() => {
+    if (initialSpectators.length > 0) setSpectators(initialSpectators);
+  }, [initialSpectators]);
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket || !room) return;
+
+    const handleListUpdated = (data: { room: string; spectators: SpectatorInfo[] }) => {
+      if (data.room !== room) return;
+      setSpectators(data.spectators || []);
+    };
+
+    const handleChatReceived = (data: SpectatorChatMessage) => {
+      if (data.room !== room) return;
+      setMessages(prev => [...prev, data].slice(-MAX_CHAT_MESSAGES));
+    };
+
+    socket.on('spectator:list-updated', handleListUpdated);
+    socket.on('spectator:chat-received', handleChatReceived);
+    return () => {
+      socket.off('spectator:list-updated', handleListUpdated);
+      socket.off('spectator:chat-received', handleChatReceived);
+    };
+  }, [room]);
+
+  const sendChat = useCallback((message: string) => {
+    const socket = socketService.getSocket();
+    const trimmed = message.trim();
+    if (!socket || !trimmed) return;
+    socket.emit('spectator:send-chat', { message: trimmed });
+  }, []);
+
+  return { spectators, count: spectators.length, messages, sendChat };
+};
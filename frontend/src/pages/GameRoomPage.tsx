@@ -19,6 +19,7 @@ import GameErrorBoundary from '../components/GameErrorBoundary';
 import GuestNameDialog from '../components/GuestNameDialog/GuestNameDialog';
 import { GameReactions, ReactionPopup } from '../components/GameReactions';
 import { ChatButton, FloatingChatMessage } from '../components/CaroChat';
+import { SpectatorPanel } from '../components/Spectator';
 import { logger } from '../utils/logger';
 import { hasGuestName } from '../utils/guestName';
 import {
@@ -89,7 +90,7 @@ const GameRoomPage: React.FC = () => {
   const toast = useToast();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
-  const { game, players, joinRoom, setGame, myPlayerNumber, leaveRoom, startGame, updateGuestName, sendReaction } = useGame();
+  const { game, players, joinRoom, setGame, myPlayerNumber, isSpectator, initialSpectators, leaveRoom, startGame, updateGuestName, sendReaction } = useGame();
   const { reactions, clearReaction } = useReaction();
   const { isAuthenticated } = useAuth();
   
@@ -159,13 +160,15 @@ const GameRoomPage: React.FC = () => {
   const initialLoadCompleteRef = useRef(false);
 
   // Derived state
-  const isWaiting = game && game.gameStatus === 'waiting' && players.length < 2;
-  const canStartGame = game && game.gameStatus === 'waiting' && players.length === 2;
+  // Spectators always see the board - the waiting/ready screens are seat controls
+  const isWaiting = !isSpectator && game && game.gameStatus === 'waiting' && players.length < 2;
+  const canStartGame = !isSpectator && game && game.gameStatus === 'waiting' && players.length === 2;
 
   // Block navigation when in game
   const blocker = useBlocker(
     ({ currentLocation, nextLocation }) =>
       game !== null &&
+      !isSpectator &&
       !hasLeftRef.current &&
       currentLocation.pathname !== nextLocation.pathname
   );
@@ -183,7 +186,7 @@ const GameRoomPage: React.FC = () => {
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       // Only prevent unload if game is active and playing
-      if (game && !hasLeftRef.current && roomId && game.gameStatus === 'playing') {
+      if (game && !isSpectator && !hasLeftRef.current && roomId && game.gameStatus === 'playing') {
         e.preventDefault();
         e.returnValue = '';
         return '';
@@ -194,7 +197,7 @@ const GameRoomPage: React.FC = () => {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [game, roomId]);
+  }, [game, roomId, isSpectator]);
 
   // Load game on mount
   useEffect(() => {
@@ -433,11 +436,17 @@ const GameRoomPage: React.FC = () => {
                 position: 'relative',
                 overflow: 'hidden',
               }}>
+                <SpectatorPanel
+                  room={roomId || null}
+                  isSpectator={isSpectator}
+                  initialSpectators={initialSpectators}
+                  hideWhenEmpty
+                />
                 <GameErrorBoundary roomId={roomId}>
                   <GameBoard />
                 </GameErrorBoundary>
                 {/* Reactions + Chat - mobile only (desktop shows in right sidebar) */}
-                {game.gameStatus === 'playing' && players.length === 2 && (
+                {game.gameStatus === 'playing' && players.length === 2 && !isSpectator && (
                   <Box sx={{ display: { xs: 'flex', lg: 'none' }, alignItems: 'center', gap: 1 }}>
                     <CaroChatButton disabled={game.gameStatus !== 'playing'} />
                     <GameReactions
@@ -7,8 +7,9 @@ import { Box, Container, IconButton, useTheme, useMediaQuery } from '@mui/materi
 import MenuIcon from '@mui/icons-material/Menu';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { gameApi } from '../services/api';
+import { BotDifficulty } from '../types/game.types';
 import { useAuth } from '../contexts/AuthContext';
-import { DEFAULT_BOARD_SIZE } from '../utils/constants';
+import { DEFAULT_BOARD_SIZE, DEFAULT_TIME_CONTROL, DEFAULT_CARO_OPPONENT, TIME_CONTROLS } from '../utils/constants';
 import { validateRoomCode, formatRoomCode } from '../utils/roomCode';
 import HistoryModal from '../components/HistoryModal/HistoryModal';
 import GuestNameDialog from '../components/GuestNameDialog/GuestNameDialog';
@@ -67,6 +68,8 @@ const HomePage: React.FC = () => {
   // Create game state
   const [boardSize, setBoardSize] = useState<number>(DEFAULT_BOARD_SIZE);
   const [blockTwoEnds, setBlockTwoEnds] = useState(false);
+  const [timeControl, setTimeControl] = useState<string>(DEFAULT_TIME_CONTROL);
+  const [opponent, setOpponent] = useState<string>(DEFAULT_CARO_OPPONENT);
 
   // Join game state
   const [joinRoomCode, setJoinRoomCode] = useState('');
@@ -279,13 +282,16 @@ const HomePage: React.FC = () => {
   // Event handlers
   const handleCreateGame = async (): Promise<void> => {
     try {
-      logger.log('[HomePage] Creating game with:', { boardSize, blockTwoEnds });
+      logger.log('[HomePage] Creating game with:', { boardSize, blockTwoEnds, timeControl, opponent });
+      const preset = TIME_CONTROLS.find(tc => tc.id === timeControl) || TIME_CONTROLS[0];
       const game = await gameApi.create(boardSize, {
         blockTwoEnds,
         allowUndo: true,
         maxUndoPerGame: 3,
-        timeLimit: null,
-      });
+        timeLimit: preset.timeLimit,
+        gameTimeLimit: preset.gameTimeLimit,
+        timeIncrement: preset.timeIncrement,
+      }, opponent === 'human' ? null : opponent as BotDifficulty);
       logger.log('[HomePage] Game created successfully:', game.roomId);
       navigate(`/game/${game.roomId}`);
     } catch (error: any) {
@@ -306,12 +312,17 @@ const HomePage: React.FC = () => {
     setJoinLoading(true);
     try {
       const game = await gameApi.getGameByCode(formattedCode);
-      const canJoin = game.gameStatus === 'waiting' ||
-        (game.gameStatus === 'playing' && (!game.player2 && !game.player2GuestId));
-
-      if (!canJoin && game.gameStatus !== 'waiting') {
-        setJoinError('This game is already full or finished');
-        setJoinLoading(false);
+      const hasOpenSeat = !game.player2 && !game.player2GuestId;
+      const canJoin = hasOpenSeat && (game.gameStatus === 'waiting' || game.gameStatus === 'playing');
+
+      // Full or in-progress rooms open read-only as a spectator (private rooms stay closed)
+      if (!canJoin) {
+        if (game.hasPassword) {
+          setJoinError('This game is already full or finished');
+          setJoinLoading(false);
+          return;
+        }
+        navigate(`/game/${game.roomId}`);
         return;
       }
 
@@ -471,6 +482,10 @@ const HomePage: React.FC = () => {
                 setBoardSize={setBoardSize}
                 blockTwoEnds={blockTwoEnds}
                 setBlockTwoEnds={setBlockTwoEnds}
+                timeControl={timeControl}
+                setTimeControl={setTimeControl}
+                opponent={opponent}
+                setOpponent={setOpponent}
                 onCreateGame={handleCreateGame}
               />
               <JoinGameCard
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { Container, Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Tabs, Tab, CircularProgress, useTheme, useMediaQuery } from '@mui/material';
-import { leaderboardApi } from '../services/api';
+import { Container, Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Tabs, Tab, CircularProgress, ToggleButton, ToggleButtonGroup, useTheme, useMediaQuery } from '@mui/material';
+import { leaderboardApi, LeaderboardSortBy } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../i18n';
 import { logger } from '../utils/logger';
@@ -10,11 +10,21 @@ interface LeaderboardEntry {
   userId: string;
   username: string;
   score: number;
+  rating?: number;
+  ratingDeviation?: number;
   wins: number;
   losses?: number;
   draws?: number;
 }
 
+// Games with server-side ratings, keyed by backend gameId
+const RATED_GAMES: { gameId: string; labelKey: string }[] = [
+  { gameId: 'caro', labelKey: 'games.caro' },
+  { gameId: 'go', labelKey: 'games.go' },
+  { gameId: 'word-chain', labelKey: 'games.wordChain' },
+  { gameId: 'tinh-tuy', labelKey: 'games.tinhTuy' },
+];
+
 interface LeaderboardData {
   gameId: string;
   period: string;
@@ -29,7 +39,8 @@ const LeaderboardPage: React.FC = () => {
   const { t } = useLanguage();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const [gameId] = useState<string>('caro');
+  const [gameId, setGameId] = useState<string>('caro');
+  const [sortBy, setSortBy] = useState<LeaderboardSortBy>('rating');
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'all-time'>('all-time');
   const [leaderboard, setLeaderboard] = useState<LeaderboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -39,24 +50,26 @@ const LeaderboardPage: React.FC = () => {
   const loadLeaderboard = useCallback(async (): Promise<void> => {
     try {
       setLoading(true);
-      const data = await leaderboardApi.getLeaderboard(gameId, period, 50, 0);
+      const data = await leaderboardApi.getLeaderboard(gameId, period, 50, 0, sortBy);
       setLeaderboard(data);
     } catch (error) {
       logger.error('Failed to load leaderboard:', error);
+      setLeaderboard(null);
     } finally {
       setLoading(false);
     }
-  }, [gameId, period]);
+  }, [gameId, period, sortBy]);
 
   const loadUserRank = useCallback(async (): Promise<void> => {
     if (!user) return;
     try {
-      const rankData = await leaderboardApi.getUserRank(gameId, user._id, period);
+      const rankData = await leaderboardApi.getUserRank(gameId, user._id, period, sortBy);
       setUserRank(rankData);
     } catch (error) {
       logger.error('Failed to load user rank:', error);
+      setUserRank(null);
     }
-  }, [gameId, user, period]);
+  }, [gameId, user, period, sortBy]);
 
   useEffect(() => {
     loadLeaderboard();
@@ -100,9 +113,34 @@ const LeaderboardPage: React.FC = () => {
           🏆 {t('leaderboard.title')}
         </Typography>
         <Typography variant="body1" sx={{ color: '#5a6a7a', fontSize: '1.1rem', mb: 3 }}>
-          {t('leaderboard.subtitle')} - {gameId.toUpperCase()}
+          {sortBy === 'rating' ? t('leaderboard.subtitleRating') : t('leaderboard.subtitle')}
         </Typography>
 
+        {/* Game + ranking mode */}
+        <Box sx={{ display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: 1.5, mb: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={gameId}
+            onChange={(_, value: string | null) => value && setGameId(value)}
+          >
+            {RATED_GAMES.map(game => (
+              <ToggleButton key={game.gameId} value={game.gameId} sx={{ textTransform: 'none', fontWeight: 600 }}>
+                {t(game.labelKey)}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={sortBy}
+            onChange={(_, value: LeaderboardSortBy | null) => value && setSortBy(value)}
+          >
+            <ToggleButton value="rating" sx={{ textTransform: 'none', fontWeight: 600 }}>{t('leaderboard.rating')}</ToggleButton>
+            <ToggleButton value="score" sx={{ textTransform: 'none', fontWeight: 600 }}>{t('leaderboard.score')}</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
         {/* Period Tabs */}
         <Box sx={{ display: 'flex', justifyContent: 'center', mb: 3 }}>
           <Tabs
@@ -168,7 +206,9 @@ const LeaderboardPage: React.FC = () => {
               <TableCell sx={{ fontWeight: 700, color: '#2c3e50', fontSize: '0.95rem', width: '15%' }}>{t('leaderboard.rank')}</TableCell>
               <TableCell sx={{ fontWeight: 700, color: '#2c3e50', fontSize: '0.95rem', width: '45%' }}>{t('leaderboard.username')}</TableCell>
               <TableCell align="right" sx={{ fontWeight: 700, color: '#2c3e50', fontSize: '0.95rem', width: '20%' }}>{t('leaderboard.wins')}</TableCell>
-              <TableCell align="right" sx={{ fontWeight: 700, color: '#2c3e50', fontSize: '0.95rem', width: '20%' }}>{t('leaderboard.score')}</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 700, color: '#2c3e50', fontSize: '0.95rem', width: '20%' }}>
+                {sortBy === 'rating' ? t('leaderboard.rating') : t('leaderboard.score')}
+              </TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -221,7 +261,16 @@ const LeaderboardPage: React.FC = () => {
                   </TableCell>
                   <TableCell sx={{ fontWeight: 600, color: '#2c3e50' }}>{entry.username}</TableCell>
                   <TableCell align="right" sx={{ color: '#a8e6cf', fontWeight: 600 }}>{entry.wins}</TableCell>
-                  <TableCell align="right" sx={{ color: '#7ec8e3', fontWeight: 700, fontSize: '1.05rem' }}>{entry.score}</TableCell>
+                  <TableCell align="right" sx={{ color: '#7ec8e3', fontWeight: 700, fontSize: '1.05rem' }}>
+                    {sortBy === 'rating' ? (
+                      <>
+                        {entry.rating}
+                        <Typography component="span" variant="caption" sx={{ color: '#8a9ba8', ml: 0.5 }}>
+                          ±{entry.ratingDeviation}
+                        </Typography>
+                      </>
+                    ) : entry.score}
+                  </TableCell>
                 </TableRow>
               ))
             )}
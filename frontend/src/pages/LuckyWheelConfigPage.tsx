@@ -17,7 +17,7 @@ import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import SaveIcon from '@mui/icons-material/Save';
 import RefreshIcon from '@mui/icons-material/Refresh';
-import { useLuckyWheel, LuckyWheelProvider } from '../components/LuckyWheel';
+import { useLuckyWheel, LuckyWheelProvider, LuckyWheelWheelsPanel, LuckyWheelHistoryPanel } from '../components/LuckyWheel';
 import { useLanguage } from '../i18n';
 import { useToast } from '../contexts/ToastContext';
 import { MainLayout } from '../components/MainLayout';
@@ -134,6 +134,9 @@ const LuckyWheelConfigPageContent: React.FC = () => {
             </Typography>
           </Box>
 
+          {/* Saved wheels + elimination mode */}
+          <LuckyWheelWheelsPanel />
+
           {/* Config Form */}
           <Paper
             elevation={0}
@@ -272,6 +275,9 @@ const LuckyWheelConfigPageContent: React.FC = () => {
                 'Changes are automatically saved to the server. You can have between 2 and 12 items.'}
             </Typography>
           </Paper>
+
+          {/* Spin history + per-item stats */}
+          <LuckyWheelHistoryPanel />
         </Container>
       </Box>
     </MainLayout>
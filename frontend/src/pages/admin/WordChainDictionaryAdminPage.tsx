@@ -0,0 +1,640 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  CircularProgress,
+  Pagination,
+  Tabs,
+  Tab,
+  TextField,
+  Button,
+  Checkbox,
+  MenuItem,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import { adminApi } from '../../services/api';
+import { useLanguage } from '../../i18n';
+import { useToast } from '../../contexts/ToastContext';
+import AdminRoute from '../../components/AdminRoute';
+import { MainLayout } from '../../components/MainLayout';
+
+type MissingWordsResponse = Awaited<ReturnType<typeof adminApi.listWordChainMissingWords>>;
+type MissingWordRow = MissingWordsResponse['words'][number];
+type DictionaryInfo = Awaited<ReturnType<typeof adminApi.getWordChainDictionary>>;
+type AuditEntry = Awaited<ReturnType<typeof adminApi.listWordChainDictionaryAudit>>['entries'][number];
+type StatusFilter = 'pending' | 'accepted' | 'rejected' | 'all';
+type SortField = 'count' | 'lastSeen' | 'firstSeen' | 'word' | 'challenges';
+
+const PAGE_SIZE = 25;
+
+const STATUS_COLORS: Record<string, { bg: string; fg: string }> = {
+  pending: { bg: 'rgba(255, 152, 0, 0.15)', fg: '#ff9800' },
+  accepted: { bg: 'rgba(76, 175, 80, 0.1)', fg: '#4caf50' },
+  rejected: { bg: 'rgba(231, 76, 60, 0.1)', fg: '#e74c3c' },
+  add: { bg: 'rgba(76, 175, 80, 0.1)', fg: '#4caf50' },
+  accept: { bg: 'rgba(76, 175, 80, 0.1)', fg: '#4caf50' },
+  remove: { bg: 'rgba(231, 76, 60, 0.1)', fg: '#e74c3c' },
+  reject: { bg: 'rgba(231, 76, 60, 0.1)', fg: '#e74c3c' },
+  reload: { bg: 'rgba(126, 200, 227, 0.15)', fg: '#3498db' },
+};
+
+const headCellSx = { fontWeight: 700, color: '#2c3e50' };
+
+const paperSx = {
+  background: '#ffffff',
+  border: '2px solid transparent',
+  borderRadius: 4,
+  backgroundImage:
+    'linear-gradient(#ffffff, #ffffff), linear-gradient(135deg, #7ec8e3 0%, #a8e6cf 100%)',
+  backgroundOrigin: 'border-box',
+  backgroundClip: 'padding-box, border-box',
+  boxShadow: '0 12px 40px rgba(126, 200, 227, 0.15)',
+  overflow: 'hidden',
+};
+
+const paginationSx = {
+  '& .MuiPaginationItem-root': {
+    color: '#7ec8e3',
+    '&.Mui-selected': { bgcolor: '#7ec8e3', color: '#ffffff' },
+  },
+};
+
+/** Split textarea input on newlines and commas */
+const splitWords = (text: string) =>
+  text.split(/[\n,]+/).map((w) => w.trim()).filter(Boolean);
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const StatusChip: React.FC<{ value: string; label: string }> = ({ value, label }) => {
+  const colors = STATUS_COLORS[value] || STATUS_COLORS.reload;
+  return (
+    <Chip label={label} size="small" sx={{ bgcolor: colors.bg, color: colors.fg, fontWeight: 600 }} />
+  );
+};
+
+const WordChainDictionaryAdminPage: React.FC = () => {
+  const { t } = useLanguage();
+  const toast = useToast();
+  const [tab, setTab] = useState(0);
+
+  // ─── Missing words ─────────────────────────────────────────
+  const [words, setWords] = useState<MissingWordRow[]>([]);
+  const [counts, setCounts] = useState<MissingWordsResponse['counts']>({ pending: 0, accepted: 0, rejected: 0 });
+  const [loadingWords, setLoadingWords] = useState(true);
+  const [status, setStatus] = useState<StatusFilter>('pending');
+  const [sort, setSort] = useState<SortField>('count');
+  const [search, setSearch] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reviewing, setReviewing] = useState(false);
+
+  const loadWords = useCallback(async () => {
+    try {
+      setLoadingWords(true);
+      const response = await adminApi.listWordChainMissingWords({
+        page,
+        limit: PAGE_SIZE,
+        status,
+        search: search || undefined,
+        sort,
+        order: sort === 'word' ? 'asc' : 'desc',
+      });
+      setWords(response.words);
+      setCounts(response.counts);
+      setTotalPages(response.pagination.totalPages);
+      setTotal(response.pagination.total);
+      setSelected(new Set());
+    } catch {
+      toast.error('toast.loadFailed');
+    } finally {
+      setLoadingWords(false);
+    }
+  }, [page, status, search, sort, toast]);
+
+  useEffect(() => {
+    loadWords();
+  }, [loadWords]);
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const toggleSelected = (word: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(word)) next.delete(word);
+      else next.add(word);
+      return next;
+    });
+  };
+
+  const allSelected = words.length > 0 && words.every((w) => selected.has(w.word));
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(words.map((w) => w.word)));
+  };
+
+  const handleReview = async (reviewStatus: 'accepted' | 'rejected') => {
+    if (selected.size === 0) return;
+    try {
+      setReviewing(true);
+      const result = await adminApi.reviewWordChainMissingWords(Array.from(selected), reviewStatus);
+      toast.success('admin.wordChain.reviewed', {
+        params: { count: result.applied.length, size: result.dictionarySize },
+      });
+      if (result.invalid.length > 0) {
+        toast.warning('admin.wordChain.invalidWords', { params: { words: result.invalid.join(', ') } });
+      }
+      await loadWords();
+    } catch (error: any) {
+      toast.error('toast.saveFailed', { params: { message: error.response?.data?.message || '' } });
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  // ─── Dictionary ────────────────────────────────────────────
+  const [dictInfo, setDictInfo] = useState<DictionaryInfo | null>(null);
+  const [dictSearch, setDictSearch] = useState('');
+  const [editText, setEditText] = useState('');
+  const [editing, setEditing] = useState(false);
+
+  const loadDictionary = useCallback(async (query?: string) => {
+    try {
+      setDictInfo(await adminApi.getWordChainDictionary(query));
+    } catch {
+      toast.error('toast.loadFailed');
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (tab !== 1) return;
+    const timer = setTimeout(() => loadDictionary(dictSearch.trim() || undefined), 300);
+    return () => clearTimeout(timer);
+  }, [tab, dictSearch, loadDictionary]);
+
+  const handleEdit = async (action: 'add' | 'remove') => {
+    const list = splitWords(editText);
+    if (list.length === 0) return;
+    try {
+      setEditing(true);
+      const result = action === 'add'
+        ? await adminApi.addWordChainWords(list)
+        : await adminApi.removeWordChainWords(list);
+      toast.success(action === 'add' ? 'admin.wordChain.added' : 'admin.wordChain.removed', {
+        params: { count: result.applied.length, size: result.dictionarySize },
+      });
+      if (result.invalid.length > 0) {
+        toast.warning('admin.wordChain.invalidWords', { params: { words: result.invalid.join(', ') } });
+      }
+      setEditText('');
+      await loadDictionary(dictSearch.trim() || undefined);
+    } catch (error: any) {
+      toast.error('toast.saveFailed', { params: { message: error.response?.data?.message || '' } });
+    } finally {
+      setEditing(false);
+    }
+  };
+
+  const handleReload = async () => {
+    try {
+      setEditing(true);
+      const result = await adminApi.reloadWordChainDictionary();
+      toast.success('admin.wordChain.reloaded', { params: { size: result.dictionarySize } });
+      await loadDictionary(dictSearch.trim() || undefined);
+    } catch (error: any) {
+      toast.error('toast.saveFailed', { params: { message: error.response?.data?.message || '' } });
+    } finally {
+      setEditing(false);
+    }
+  };
+
+  // ─── Audit log ─────────────────────────────────────────────
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditPage, setAuditPage] = useState(1);
+  const [auditTotalPages, setAuditTotalPages] = useState(1);
+  const [loadingAudit, setLoadingAudit] = useState(false);
+
+  const loadAudit = useCallback(async () => {
+    try {
+      setLoadingAudit(true);
+      const response = await adminApi.listWordChainDictionaryAudit(auditPage, PAGE_SIZE);
+      setAuditEntries(response.entries);
+      setAuditTotalPages(response.pagination.totalPages);
+    } catch {
+      toast.error('toast.loadFailed');
+    } finally {
+      setLoadingAudit(false);
+    }
+  }, [auditPage, toast]);
+
+  useEffect(() => {
+    if (tab === 2) loadAudit();
+  }, [tab, loadAudit]);
+
+  const statusLabel = (value: string) => t(`admin.wordChain.status.${value}`) || value;
+  const actionLabel = (value: string) => t(`admin.wordChain.actions.${value}`) || value;
+
+  return (
+    <AdminRoute>
+      <MainLayout>
+        <Box
+          sx={{
+            minHeight: '100vh',
+            width: '100%',
+            background: 'linear-gradient(135deg, #f8fbff 0%, #e8f5ff 50%, #d4edff 100%)',
+            py: { xs: 4, md: 6 },
+            px: 2,
+          }}
+        >
+          <Container maxWidth="lg">
+            {/* Header */}
+            <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <AdminPanelSettingsIcon sx={{ fontSize: 40, color: '#7ec8e3' }} />
+              <Typography
+                variant="h4"
+                sx={{
+                  fontWeight: 700,
+                  background: 'linear-gradient(135deg, #7ec8e3 0%, #a8e6cf 100%)',
+                  WebkitBackgroundClip: 'text',
+                  WebkitTextFillColor: 'transparent',
+                  backgroundClip: 'text',
+                }}
+              >
+                {t('admin.wordChain.title') || 'Word Chain Dictionary'}
+              </Typography>
+            </Box>
+
+            <Tabs
+              value={tab}
+              onChange={(_, value) => setTab(value)}
+              sx={{ mb: 2, '& .MuiTab-root': { textTransform: 'none', fontWeight: 600 } }}
+            >
+              <Tab label={`${t('admin.wordChain.tabs.missing') || 'Reported words'} (${counts.pending})`} />
+              <Tab label={t('admin.wordChain.tabs.dictionary') || 'Dictionary'} />
+              <Tab label={t('admin.wordChain.tabs.audit') || 'Audit log'} />
+            </Tabs>
+
+            {/* ─── Reported words ─── */}
+            {tab === 0 && (
+              <Paper elevation={0} sx={paperSx}>
+                <Box sx={{ p: 2, display: 'flex', gap: 1.5, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <TextField
+                    size="small"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder={t('admin.wordChain.search') || 'Search words...'}
+                    InputProps={{
+                      startAdornment: (
+                        <InputAdornment position="start">
+                          <SearchIcon sx={{ fontSize: 20, color: '#7ec8e3' }} />
+                        </InputAdornment>
+                      ),
+                    }}
+                    sx={{ flex: 1, minWidth: 180 }}
+                  />
+                  <TextField
+                    select
+                    size="small"
+                    label={t('admin.wordChain.statusLabel') || 'Status'}
+                    value={status}
+                    onChange={(e) => { setStatus(e.target.value as StatusFilter); setPage(1); }}
+                    sx={{ minWidth: 140 }}
+                  >
+                    {(['pending', 'accepted', 'rejected', 'all'] as StatusFilter[]).map((value) => (
+                      <MenuItem key={value} value={value}>
+                        {statusLabel(value)}{value !== 'all' ? ` (${counts[value]})` : ''}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    select
+                    size="small"
+                    label={t('admin.wordChain.sortLabel') || 'Sort by'}
+                    value={sort}
+                    onChange={(e) => { setSort(e.target.value as SortField); setPage(1); }}
+                    sx={{ minWidth: 160 }}
+                  >
+                    {(['count', 'lastSeen', 'firstSeen', 'challenges', 'word'] as SortField[]).map((value) => (
+                      <MenuItem key={value} value={value}>
+                        {t(`admin.wordChain.sort.${value}`) || value}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Box>
+
+                <Box sx={{ px: 2, pb: 2, display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                  <Typography variant="body2" sx={{ color: '#5a6a7a', mr: 'auto' }}>
+                    {t('admin.wordChain.selected', { count: selected.size }) || `${selected.size} selected`}
+                  </Typography>
+                  <Button
+                    variant="contained"
+                    size="small"
+                    startIcon={<CheckIcon />}
+                    disabled={selected.size === 0 || reviewing}
+                    onClick={() => handleReview('accepted')}
+                    sx={{ textTransform: 'none', bgcolor: '#4caf50', '&:hover': { bgcolor: '#43a047' } }}
+                  >
+                    {t('admin.wordChain.accept') || 'Accept'}
+                  </Button>
+                  <Button
+                    variant="contained"
+                    size="small"
+                    startIcon={<CloseIcon />}
+                    disabled={selected.size === 0 || reviewing}
+                    onClick={() => handleReview('rejected')}
+                    sx={{ textTransform: 'none', bgcolor: '#e74c3c', '&:hover': { bgcolor: '#c0392b' } }}
+                  >
+                    {t('admin.wordChain.reject') || 'Reject'}
+                  </Button>
+                </Box>
+
+                {loadingWords ? (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+                    <CircularProgress sx={{ color: '#7ec8e3' }} />
+                  </Box>
+                ) : words.length === 0 ? (
+                  <Box sx={{ textAlign: 'center', py: 8 }}>
+                    <Typography sx={{ color: '#5a6a7a' }}>
+                      {t('admin.wordChain.noWords') || 'No reported words'}
+                    </Typography>
+                  </Box>
+                ) : (
+                  <>
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow sx={{ bgcolor: 'rgba(126, 200, 227, 0.08)' }}>
+                            <TableCell padding="checkbox">
+                              <Checkbox checked={allSelected} onChange={toggleAll} />
+                            </TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.word') || 'Word'}</TableCell>
+                            <TableCell sx={headCellSx} align="right">{t('admin.wordChain.count') || 'Reports'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.votes') || 'Votes'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.statusLabel') || 'Status'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.lastSeen') || 'Last seen'}</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {words.map((row) => (
+                            <TableRow
+                              key={row.word}
+                              hover
+                              onClick={() => toggleSelected(row.word)}
+                              sx={{ cursor: 'pointer' }}
+                            >
+                              <TableCell padding="checkbox">
+                                <Checkbox checked={selected.has(row.word)} />
+                              </TableCell>
+                              <TableCell>
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                                  <Typography sx={{ fontWeight: 600, color: '#2c3e50' }}>{row.word}</Typography>
+                                  {row.kind === 'disputed' && (
+                                    <Chip size="small" label={t('admin.wordChain.disputed') || 'Disputed'} sx={{ height: 20, fontSize: '0.7rem' }} />
+                                  )}
+                                  {row.inDictionary && (
+                                    <Chip size="small" label={t('admin.wordChain.inDictionary') || 'In dictionary'} sx={{ height: 20, fontSize: '0.7rem', bgcolor: 'rgba(126, 200, 227, 0.15)' }} />
+                                  )}
+                                </Box>
+                              </TableCell>
+                              <TableCell align="right">{row.count}</TableCell>
+                              <TableCell>
+                                {row.challenges > 0 ? (
+                                  <Typography variant="body2" sx={{ color: '#5a6a7a' }}>
+                                    <Box component="span" sx={{ color: '#4caf50', fontWeight: 600 }}>{row.votes.accept}</Box>
+                                    {' / '}
+                                    <Box component="span" sx={{ color: '#e74c3c', fontWeight: 600 }}>{row.votes.reject}</Box>
+                                    {' · '}{row.challenges}×
+                                  </Typography>
+                                ) : '—'}
+                              </TableCell>
+                              <TableCell>
+                                <StatusChip value={row.status} label={statusLabel(row.status)} />
+                              </TableCell>
+                              <TableCell>
+                                <Typography variant="body2" sx={{ color: '#5a6a7a' }}>{formatDate(row.lastSeenAt)}</Typography>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+
+                    {totalPages > 1 && (
+                      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                        <Pagination count={totalPages} page={page} onChange={(_, value) => setPage(value)} color="primary" sx={paginationSx} />
+                      </Box>
+                    )}
+
+                    <Box sx={{ px: 3, pb: 2 }}>
+                      <Typography variant="body2" sx={{ color: '#5a6a7a' }}>
+                        {t('admin.wordChain.total') || 'Total'}: {total}
+                      </Typography>
+                    </Box>
+                  </>
+                )}
+              </Paper>
+            )}
+
+            {/* ─── Dictionary ─── */}
+            {tab === 1 && (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Paper elevation={0} sx={{ ...paperSx, p: 2.5 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+                    <Typography sx={{ fontWeight: 700, color: '#2c3e50', mr: 'auto' }}>
+                      {t('admin.wordChain.dictionarySize', {
+                        total: dictInfo?.totalWords ?? 0,
+                        compound: dictInfo?.totalCompound ?? 0,
+                      })}
+                    </Typography>
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      startIcon={<RefreshIcon />}
+                      disabled={editing}
+                      onClick={handleReload}
+                      sx={{ textTransform: 'none', color: '#7ec8e3', borderColor: '#7ec8e3' }}
+                    >
+                      {t('admin.wordChain.reload') || 'Reload from disk'}
+                    </Button>
+                  </Box>
+
+                  <TextField
+                    multiline
+                    minRows={3}
+                    fullWidth
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    placeholder={t('admin.wordChain.editPlaceholder') || 'One word per line (or comma-separated)'}
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1.5 }}>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      disabled={!editText.trim() || editing}
+                      onClick={() => handleEdit('add')}
+                      sx={{ textTransform: 'none', bgcolor: '#4caf50', '&:hover': { bgcolor: '#43a047' } }}
+                    >
+                      {t('admin.wordChain.addWords') || 'Add words'}
+                    </Button>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      disabled={!editText.trim() || editing}
+                      onClick={() => handleEdit('remove')}
+                      sx={{ textTransform: 'none', bgcolor: '#e74c3c', '&:hover': { bgcolor: '#c0392b' } }}
+                    >
+                      {t('admin.wordChain.removeWords') || 'Remove words'}
+                    </Button>
+                  </Box>
+                </Paper>
+
+                <Paper elevation={0} sx={{ ...paperSx, p: 2.5 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    value={dictSearch}
+                    onChange={(e) => setDictSearch(e.target.value)}
+                    placeholder={t('admin.wordChain.lookup') || 'Look up a word or prefix...'}
+                    InputProps={{
+                      startAdornment: (
+                        <InputAdornment position="start">
+                          <SearchIcon sx={{ fontSize: 20, color: '#7ec8e3' }} />
+                        </InputAdornment>
+                      ),
+                    }}
+                  />
+                  {dictInfo?.search && (
+                    <Box sx={{ mt: 1.5 }}>
+                      <Typography variant="body2" sx={{ color: dictInfo.exact ? '#4caf50' : '#e74c3c', fontWeight: 600, mb: 1 }}>
+                        {dictInfo.exact
+                          ? t('admin.wordChain.found', { word: dictInfo.search })
+                          : t('admin.wordChain.notFound', { word: dictInfo.search })}
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                        {dictInfo.matches.map((word) => (
+                          <Chip key={word} label={word} size="small" onClick={() => setEditText(word)} />
+                        ))}
+                      </Box>
+                    </Box>
+                  )}
+                </Paper>
+
+                <Paper elevation={0} sx={paperSx}>
+                  <Typography sx={{ fontWeight: 700, color: '#2c3e50', px: 2.5, pt: 2 }}>
+                    {t('admin.wordChain.overrides') || 'Admin overrides'}
+                  </Typography>
+                  {!dictInfo || dictInfo.overrides.length === 0 ? (
+                    <Typography sx={{ color: '#5a6a7a', textAlign: 'center', py: 4 }}>
+                      {t('admin.wordChain.noOverrides') || 'No overrides yet'}
+                    </Typography>
+                  ) : (
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow sx={{ bgcolor: 'rgba(126, 200, 227, 0.08)' }}>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.word') || 'Word'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.action') || 'Action'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.by') || 'By'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.when') || 'When'}</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {dictInfo.overrides.map((o) => (
+                            <TableRow key={o.word}>
+                              <TableCell sx={{ fontWeight: 600, color: '#2c3e50' }}>{o.word}</TableCell>
+                              <TableCell><StatusChip value={o.action} label={actionLabel(o.action)} /></TableCell>
+                              <TableCell>{o.updatedBy || '—'}</TableCell>
+                              <TableCell>{formatDate(o.updatedAt)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  )}
+                </Paper>
+              </Box>
+            )}
+
+            {/* ─── Audit log ─── */}
+            {tab === 2 && (
+              <Paper elevation={0} sx={paperSx}>
+                {loadingAudit ? (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+                    <CircularProgress sx={{ color: '#7ec8e3' }} />
+                  </Box>
+                ) : auditEntries.length === 0 ? (
+                  <Box sx={{ textAlign: 'center', py: 8 }}>
+                    <Typography sx={{ color: '#5a6a7a' }}>
+                      {t('admin.wordChain.noAudit') || 'No changes recorded'}
+                    </Typography>
+                  </Box>
+                ) : (
+                  <>
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow sx={{ bgcolor: 'rgba(126, 200, 227, 0.08)' }}>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.when') || 'When'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.by') || 'By'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.action') || 'Action'}</TableCell>
+                            <TableCell sx={headCellSx}>{t('admin.wordChain.words') || 'Words'}</TableCell>
+                            <TableCell sx={headCellSx} align="right">{t('admin.wordChain.size') || 'Size'}</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {auditEntries.map((entry) => (
+                            <TableRow key={entry.id}>
+                              <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDate(entry.createdAt)}</TableCell>
+                              <TableCell>{entry.username}</TableCell>
+                              <TableCell><StatusChip value={entry.action} label={actionLabel(entry.action)} /></TableCell>
+                              <TableCell sx={{ maxWidth: 360 }}>
+                                <Typography variant="body2" sx={{ color: '#2c3e50', wordBreak: 'break-word' }}>
+                                  {entry.words.length > 0 ? entry.words.join(', ') : '—'}
+                                </Typography>
+                              </TableCell>
+                              <TableCell align="right">{entry.dictionarySize}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+
+                    {auditTotalPages > 1 && (
+                      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                        <Pagination count={auditTotalPages} page={auditPage} onChange={(_, value) => setAuditPage(value)} color="primary" sx={paginationSx} />
+                      </Box>
+                    )}
+                  </>
+                )}
+              </Paper>
+            )}
+          </Container>
+        </Box>
+      </MainLayout>
+    </AdminRoute>
+  );
+};
+
+export default WordChainDictionaryAdminPage;
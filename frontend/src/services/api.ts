@@ -1,7 +1,14 @@
 import axios, { isCancel } from 'axios';
 import { API_BASE_URL } from '../utils/constants';
 import { AuthResponse, User, UpdateProfileData, ChangePasswordData } from '../types/user.types';
-import { Game, GameHistory } from '../types/game.types';
+import { Game, GameHistory, HistoryMove, BotDifficulty } from '../types/game.types';
+import {
+  GoHistoryEntry,
+  GoHistoryDetail,
+  GoProblem,
+  GoProblemSummary,
+  GoProblemAttemptResult,
+} from '../components/Go/go-types';
 
 // Re-export axios isCancel for consumers to check if error is cancellation
 export { isCancel };
@@ -49,7 +56,7 @@ export const authApi = {
 
 // Game APIs
 export const gameApi = {
-  create: async (boardSize: number, rules: any): Promise<Game> => {
+  create: async (boardSize: number, rules: any, botDifficulty: BotDifficulty | null = null): Promise<Game> => {
     try {
     // Use getGuestId() from utils instead of localStorage
     const { getGuestId } = await import('../utils/guestId');
@@ -57,8 +64,8 @@ export const gameApi = {
     const guestId = getGuestId();
     const guestName = getGuestName();
       const { logger } = await import('../utils/logger');
-      logger.log('[gameApi.create] Calling API with:', { boardSize, rules, guestId, guestName });
-    const response = await api.post('/games/create', { boardSize, rules, guestId, guestName });
+      logger.log('[gameApi.create] Calling API with:', { boardSize, rules, guestId, guestName, botDifficulty });
+    const response = await api.post('/games/create', { boardSize, rules, guestId, guestName, botDifficulty });
       logger.log('[gameApi.create] Response received:', response.data);
     return response.data;
     } catch (error: any) {
@@ -139,6 +146,10 @@ export const gameApi = {
       return { history, total: history.length };
     }
   },
+  getMoves: async (roomId: string): Promise<{ moves: HistoryMove[] }> => {
+    const response = await api.get(`/games/${roomId}/moves`);
+    return response.data;
+  },
   updateMarker: async (roomId: string, marker: string): Promise<{ message: string; player1Marker: string | null; player2Marker: string | null }> => {
     const { getGuestId } = await import('../utils/guestId');
     const guestId = getGuestId();
@@ -171,17 +182,24 @@ export const gameStatsApi = {
 };
 
 // Leaderboard APIs
+export type LeaderboardSortBy = 'rating' | 'score';
+
 export const leaderboardApi = {
-  getLeaderboard: async (gameId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time', limit: number = 50, offset: number = 0, signal?: AbortSignal) => {
-    const response = await api.get(`/leaderboard/${gameId}?period=${period}&limit=${limit}&offset=${offset}`, { signal });
+  getLeaderboard: async (gameId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time', limit: number = 50, offset: number = 0, sortBy: LeaderboardSortBy = 'rating', signal?: AbortSignal) => {
+    const response = await api.get(`/leaderboard/${gameId}?period=${period}&limit=${limit}&offset=${offset}&sortBy=${sortBy}`, { signal });
     return response.data;
   },
-  getUserRank: async (gameId: string, userId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time') => {
-    const response = await api.get(`/leaderboard/${gameId}/rank/${userId}?period=${period}`);
+  getUserRank: async (gameId: string, userId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time', sortBy: LeaderboardSortBy = 'rating') => {
+    const response = await api.get(`/leaderboard/${gameId}/rank/${userId}?period=${period}&sortBy=${sortBy}`);
     return response.data;
   },
-  getRankAroundUser: async (gameId: string, userId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time', range: number = 5) => {
-    const response = await api.get(`/leaderboard/${gameId}/around/${userId}?period=${period}&range=${range}`);
+  getRankAroundUser: async (gameId: string, userId: string, period: 'daily' | 'weekly' | 'all-time' = 'all-time', range: number = 5, sortBy: LeaderboardSortBy = 'rating') => {
+    const response = await api.get(`/leaderboard/${gameId}/around/${userId}?period=${period}&range=${range}&sortBy=${sortBy}`);
+    return response.data;
+  },
+  // Glicko-2 rating after each rated game (newest first)
+  getRatingHistory: async (gameId: string, userId: string, limit: number = 50) => {
+    const response = await api.get(`/leaderboard/${gameId}/ratings/${userId}?limit=${limit}`);
     return response.data;
   },
   // Legacy endpoints for backward compatibility
@@ -238,6 +256,37 @@ export interface WheelItem {
   weight: number;
 }
 
+export interface LuckyWheelWheel {
+  _id: string;
+  name: string;
+  items: WheelItem[];
+  eliminationMode: boolean;
+  eliminated: number[];
+  createdAt: string;
+}
+
+export interface LuckyWheelWheelsResponse {
+  items: WheelItem[];
+  wheels: LuckyWheelWheel[];
+  activeWheelId: string | null;
+}
+
+export interface LuckyWheelSpinRecord {
+  _id: string;
+  label: string;
+  weight: number;
+  totalWeight: number;
+  itemCount: number;
+  spunAt: string;
+}
+
+export interface LuckyWheelItemStat {
+  label: string;
+  count: number;
+  percentage: number;
+  expected: number;
+}
+
 export const luckyWheelApi = {
   saveConfig: async (items: WheelItem[]): Promise<{ message: string; config: any }> => {
     const { getGuestId } = await import('../utils/guestId');
@@ -251,7 +300,7 @@ export const luckyWheelApi = {
     });
     return response.data;
   },
-  getMyConfig: async (signal?: AbortSignal): Promise<{ config: any; items: WheelItem[]; isDefault: boolean }> => {
+  getMyConfig: async (signal?: AbortSignal): Promise<{ config: any; items: WheelItem[]; isDefault: boolean; wheels: LuckyWheelWheel[]; activeWheelId: string | null }> => {
     const { getGuestId } = await import('../utils/guestId');
     const guestId = getGuestId();
     const response = await api.get(`/lucky-wheel/config?guestId=${guestId}`, { signal });
@@ -278,6 +327,46 @@ export const luckyWheelApi = {
     });
     return response.data;
   },
+  createWheel: async (name: string, items?: WheelItem[]): Promise<LuckyWheelWheelsResponse> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.post('/lucky-wheel/wheels', { name, items, guestId: getGuestId() });
+    return response.data;
+  },
+  updateWheel: async (wheelId: string, data: { name?: string; items?: WheelItem[]; eliminationMode?: boolean }): Promise<LuckyWheelWheelsResponse> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.patch(`/lucky-wheel/wheels/${wheelId}`, { ...data, guestId: getGuestId() });
+    return response.data;
+  },
+  deleteWheel: async (wheelId: string): Promise<LuckyWheelWheelsResponse> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.delete(`/lucky-wheel/wheels/${wheelId}?guestId=${getGuestId()}`);
+    return response.data;
+  },
+  activateWheel: async (wheelId: string): Promise<LuckyWheelWheelsResponse> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.post(`/lucky-wheel/wheels/${wheelId}/activate`, { guestId: getGuestId() });
+    return response.data;
+  },
+  recordSpin: async (wheelId: string, index: number): Promise<{ spin: LuckyWheelSpinRecord; eliminated: number[]; remaining: number }> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.post(`/lucky-wheel/wheels/${wheelId}/spins`, { index, guestId: getGuestId() });
+    return response.data;
+  },
+  resetElimination: async (wheelId: string): Promise<{ eliminated: number[] }> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.post(`/lucky-wheel/wheels/${wheelId}/reset-elimination`, { guestId: getGuestId() });
+    return response.data;
+  },
+  getSpinHistory: async (wheelId: string, limit = 50): Promise<{ history: LuckyWheelSpinRecord[]; stats: LuckyWheelItemStat[]; total: number }> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.get(`/lucky-wheel/wheels/${wheelId}/spins?guestId=${getGuestId()}&limit=${limit}`);
+    return response.data;
+  },
+  clearSpinHistory: async (wheelId: string): Promise<{ deletedCount: number }> => {
+    const { getGuestId } = await import('../utils/guestId');
+    const response = await api.delete(`/lucky-wheel/wheels/${wheelId}/spins?guestId=${getGuestId()}`);
+    return response.data;
+  },
 };
 
 // Admin APIs
@@ -355,6 +444,96 @@ export const adminApi = {
     const response = await api.put(`/admin/tinh-tuy/rooms/${roomId}/dice`, { overrides });
     return response.data;
   },
+
+  // Word Chain admin — dictionary management
+  listWordChainMissingWords: async (params: {
+    page?: number;
+    limit?: number;
+    status?: 'pending' | 'accepted' | 'rejected' | 'all';
+    search?: string;
+    sort?: 'count' | 'lastSeen' | 'firstSeen' | 'word' | 'challenges';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    words: Array<{
+      word: string;
+      count: number;
+      status: 'pending' | 'accepted' | 'rejected';
+      kind: 'missing' | 'disputed';
+      votes: { accept: number; reject: number };
+      challenges: number;
+      lastChallengeResult: 'accepted' | 'rejected' | null;
+      firstSeenAt: string;
+      lastSeenAt: string;
+      inDictionary: boolean;
+    }>;
+    counts: Record<'pending' | 'accepted' | 'rejected', number>;
+    pagination: { page: number; limit: number; total: number; totalPages: number };
+  }> => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.append(key, String(value));
+    });
+    const response = await api.get(`/admin/word-chain/missing-words?${query.toString()}`);
+    return response.data;
+  },
+  reviewWordChainMissingWords: async (words: string[], status: 'accepted' | 'rejected'): Promise<{
+    message: string;
+    applied: string[];
+    invalid: string[];
+    dictionarySize: number;
+  }> => {
+    const response = await api.post('/admin/word-chain/missing-words/review', { words, status });
+    return response.data;
+  },
+  getWordChainDictionary: async (search?: string): Promise<{
+    totalWords: number;
+    totalCompound: number;
+    totalSingle: number;
+    search: string;
+    exact: boolean;
+    matches: string[];
+    overrides: Array<{ word: string; action: 'add' | 'remove'; updatedBy: string | null; updatedAt: string }>;
+  }> => {
+    const params = search ? `?search=${encodeURIComponent(search)}` : '';
+    const response = await api.get(`/admin/word-chain/dictionary${params}`);
+    return response.data;
+  },
+  addWordChainWords: async (words: string[]): Promise<{
+    message: string;
+    applied: string[];
+    invalid: string[];
+    dictionarySize: number;
+  }> => {
+    const response = await api.post('/admin/word-chain/dictionary/add', { words });
+    return response.data;
+  },
+  removeWordChainWords: async (words: string[]): Promise<{
+    message: string;
+    applied: string[];
+    invalid: string[];
+    dictionarySize: number;
+  }> => {
+    const response = await api.post('/admin/word-chain/dictionary/remove', { words });
+    return response.data;
+  },
+  reloadWordChainDictionary: async (): Promise<{ message: string; dictionarySize: number }> => {
+    const response = await api.post('/admin/word-chain/dictionary/reload');
+    return response.data;
+  },
+  listWordChainDictionaryAudit: async (page: number = 1, limit: number = 50): Promise<{
+    entries: Array<{
+      id: string;
+      action: 'accept' | 'reject' | 'add' | 'remove' | 'reload';
+      words: string[];
+      username: string;
+      dictionarySize: number;
+      createdAt: string;
+    }>;
+    pagination: { page: number; limit: number; total: number; totalPages: number };
+  }> => {
+    const response = await api.get(`/admin/word-chain/dictionary/audit?page=${page}&limit=${limit}`);
+    return response.data;
+  },
 };
 
 // Xi Dach Session APIs
@@ -446,3 +625,38 @@ export const xiDachApi = {
 
 export default api;
 
+
+// Go APIs
+export const goApi = {
+  // Archived games of the logged-in user (newest first)
+  getHistory: async (): Promise<{ history: GoHistoryEntry[]; total: number }> => {
+    const response = await api.get('/go/history');
+    return response.data;
+  },
+
+  // Full record of one archived game for the replay viewer
+  getHistoryDetail: async (historyId: string): Promise<GoHistoryDetail> => {
+    const response = await api.get(`/go/history/${historyId}`);
+    return response.data;
+  },
+
+  // Built-in tsumego list (with the user's progress when signed in)
+  getProblems: async (): Promise<{ problems: GoProblemSummary[]; total: number }> => {
+    const response = await api.get('/go/problems');
+    return response.data;
+  },
+
+  getProblem: async (problemId: string): Promise<GoProblem> => {
+    const response = await api.get(`/go/problems/${problemId}`);
+    return response.data;
+  },
+
+  // Check the solver's moves so far; the server answers with its reply or the verdict
+  submitProblemAttempt: async (
+    problemId: string,
+    moves: { row: number; col: number }[]
+  ): Promise<GoProblemAttemptResult> => {
+    const response = await api.post(`/go/problems/${problemId}/attempt`, { moves });
+    return response.data;
+  },
+};
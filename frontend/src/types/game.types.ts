@@ -1,12 +1,39 @@
 export type GameStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
 export type PlayerNumber = 1 | 2;
 export type Winner = PlayerNumber | null | 'draw';
+export type WinReason = 'line' | 'surrender' | 'timeout';
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+export type CaroOpening = 'standard' | 'swap' | 'swap2';
+export type OpeningChoice = 'black' | 'white' | 'place2';
 
 export interface GameRules {
   blockTwoEnds: boolean;
   allowUndo: boolean;
   maxUndoPerGame: number;
-  timeLimit: number | null;
+  timeLimit: number | null;        // seconds per move
+  gameTimeLimit?: number | null;   // seconds in each player's bank
+  timeIncrement?: number;          // Fischer increment (seconds per move)
+  exactFive?: boolean;             // six or more in a row does not win
+  renju?: boolean;                 // black may not play double-three, double-four or overline
+  opening?: CaroOpening;
+}
+
+// Swap/Swap2 progress: the first player lays tentative stones, then a color is chosen
+export interface OpeningState {
+  phase: 'none' | 'placing' | 'choosing';
+  firstPlayer: PlayerNumber | null;
+  stonesPlaced: number;
+  chooser: PlayerNumber | null;
+  extended: boolean; // Swap2: two extra stones were added
+}
+
+// Server clock snapshot - times in milliseconds as of when the event was sent
+export interface GameClock {
+  player1TimeLeft: number | null;
+  player2TimeLeft: number | null;
+  moveTimeLeft: number | null;
+  currentPlayer: PlayerNumber;
+  running: boolean;
 }
 
 export interface GameScore {
@@ -26,6 +53,7 @@ export interface Game {
   player2GuestName: string | null;
   player1Marker: string | null;
   player2Marker: string | null;
+  botDifficulty?: BotDifficulty | null; // Player 2 is the server-side bot
   hasPassword?: boolean; // Indicates if game has password (without exposing actual password)
   boardSize: number;
   board: number[][];
@@ -33,7 +61,11 @@ export interface Game {
   gameStatus: GameStatus;
   winner: Winner;
   winningLine?: Array<{ row: number; col: number }>;
+  winReason?: WinReason | null;
   rules: GameRules;
+  clock?: GameClock | null;
+  blackPlayer?: PlayerNumber | null;
+  opening?: OpeningState;
   score: GameScore;
   createdAt: string;
   updatedAt: string;
@@ -58,6 +90,15 @@ export interface PlayerInfo {
   playerNumber: PlayerNumber;
 }
 
+export interface HistoryMove {
+  player: PlayerNumber;
+  row: number;
+  col: number;
+  moveNumber: number;
+  timestamp: string;
+  isUndone: boolean; // taken back with an undo
+}
+
 export interface GameHistory {
   _id: string;
   roomId: string;
@@ -66,6 +107,7 @@ export interface GameHistory {
   board: number[][];
   winner: Winner;
   winningLine?: Array<{ row: number; col: number }>;
+  moves?: HistoryMove[]; // play order, undone moves included; missing on older records
   result: 'win' | 'loss' | 'draw';
   opponentUsername: string;
   finishedAt: string | null;
@@ -0,0 +1,57 @@
+/**
+ * Matchmaking (quick match) types - mirrors backend/src/types/matchmaking.types.ts
+ */
+
+export type MatchmakingGameType = 'caro' | 'go';
+
+export interface CaroMatchPreferences {
+  boardSize: number;
+  blockTwoEnds: boolean;
+  timeLimit: number | null;
+  gameTimeLimit: number | null;
+  timeIncrement: number;
+}
+
+export interface GoMatchPreferences {
+  boardSize: 9 | 13 | 19;
+  mainTime: number;
+  byoyomiPeriods: number;
+  byoyomiTime: number;
+  ruleset: 'chinese' | 'japanese' | 'korean' | 'aga';
+  timeSystem: 'byoyomi' | 'canadian' | 'fischer';
+  canadianStones: number;
+  canadianTime: number;
+  fischerIncrement: number;
+}
+
+export type MatchPreferences = CaroMatchPreferences | GoMatchPreferences;
+
+export interface MatchmakingStatus {
+  gameType: MatchmakingGameType;
+  rated: boolean;
+  rating: number;
+  waitedMs: number;
+  estimatedWaitMs: number | null; // null until the server has recent matches to go by
+  ratingWindow: number | null;    // null = any rating accepted
+  queueSize: number;
+}
+
+export interface MatchmakingMatched {
+  gameType: MatchmakingGameType;
+  roomId: string;
+  roomCode: string;
+  rated: boolean;
+  opponent: {
+    name: string;
+    rating: number;
+    isGuest: boolean;
+  };
+}
+
+export interface MatchmakingJoinRequest {
+  gameType: MatchmakingGameType;
+  preferences: MatchPreferences;
+  rated: boolean;
+  guestId?: string;
+  guestName?: string;
+}
@@ -1,9 +1,10 @@
-import { Game, GameMove, PlayerInfo, PlayerNumber, Winner } from './game.types';
-import { GameRules, GameScore } from './game.types';
+import { Game, GameMove, PlayerInfo, PlayerNumber, Winner, WinReason } from './game.types';
+import { GameRules, GameScore, GameClock, OpeningChoice, OpeningState } from './game.types';
+import { MatchmakingJoinRequest, MatchmakingStatus, MatchmakingMatched } from './matchmaking.types';
 
 // Client → Server Events
 export interface ClientToServerEvents {
-  'join-room': (data: { roomId: string; playerId: string; isGuest: boolean }) => void;
+  'join-room': (data: { roomId: string; playerId: string; isGuest: boolean; guestName?: string }) => void;
   'leave-room': (data: { roomId: string }) => void;
   'make-move': (data: { roomId: string; row: number; col: number }) => void;
   'request-undo': (data: { roomId: string; moveNumber: number }) => void;
@@ -12,15 +13,20 @@ export interface ClientToServerEvents {
   'surrender': (data: { roomId: string }) => void;
   'start-game': (data: { roomId: string }) => void;
   'new-game': (data: { roomId: string }) => void;
+  'choose-opening': (data: { roomId: string; choice: OpeningChoice }) => void;
   'update-rules': (data: { roomId: string; rules: GameRules }) => void;
   'update-guest-name': (data: { roomId: string; guestName: string }) => void;
   'send-reaction': (data: { roomId: string; emoji: string }) => void;
   'send-chat': (data: { roomId: string; message: string }) => void;
+  'spectator:send-chat': (data: { message: string }, callback?: (res: { success: boolean; error?: string }) => void) => void;
+  'spectator:leave': (data: Record<string, never>, callback?: (res: { success: boolean }) => void) => void;
+  'matchmaking:join': (data: MatchmakingJoinRequest, callback?: (res: { success: boolean; error?: string; status?: MatchmakingStatus }) => void) => void;
+  'matchmaking:cancel': (data: Record<string, never>, callback?: (res: { success: boolean }) => void) => void;
 }
 
 // Server → Client Events
 export interface ServerToClientEvents {
-  'room-joined': (data: { roomId: string; players: PlayerInfo[]; gameStatus?: string; currentPlayer?: PlayerNumber }) => void;
+  'room-joined': (data: { roomId: string; players: PlayerInfo[]; gameStatus?: string; currentPlayer?: PlayerNumber; clock?: GameClock | null; isSpectator?: boolean; spectators?: SpectatorInfo[] }) => void;
   'player-joined': (data: { player: PlayerInfo }) => void;
   'player-left': (data: { 
     playerId?: string; 
@@ -38,14 +44,15 @@ export interface ServerToClientEvents {
     };
   }) => void;
   'game-deleted': (data: { roomId: string }) => void;
-  'move-made': (data: { move: GameMove | null; board: number[][]; currentPlayer: PlayerNumber }) => void;
+  'move-made': (data: { move: GameMove | null; board: number[][]; currentPlayer: PlayerNumber; clock?: GameClock | null }) => void;
   'move-validated': (data: { valid: boolean; message?: string }) => void;
   'undo-requested': (data: { moveNumber: number; requestedBy: PlayerNumber }) => void;
-  'undo-approved': (data: { moveNumber: number; board: number[][]; currentPlayer: PlayerNumber }) => void;
+  'undo-approved': (data: { moveNumber: number; board: number[][]; currentPlayer: PlayerNumber; clock?: GameClock | null }) => void;
   'undo-rejected': (data: { moveNumber: number }) => void;
-  'game-finished': (data: { winner: Winner; reason: string }) => void;
-  'game-started': (data: { currentPlayer: PlayerNumber }) => void;
-  'game-reset': (data: { board: number[][]; currentPlayer: PlayerNumber; gameStatus: string; winner: null; winningLine: null }) => void;
+  'game-finished': (data: { winner: Winner; reason: string; winReason?: WinReason | null; clock?: GameClock | null }) => void;
+  'game-started': (data: { currentPlayer: PlayerNumber; clock?: GameClock | null; blackPlayer?: PlayerNumber | null; opening?: OpeningState }) => void;
+  'game-reset': (data: { board: number[][]; currentPlayer: PlayerNumber; gameStatus: string; winner: null; winningLine: null; clock?: GameClock | null; blackPlayer?: PlayerNumber | null; opening?: OpeningState }) => void;
+  'opening-updated': (data: { board: number[][]; currentPlayer: PlayerNumber; blackPlayer: PlayerNumber | null; opening: OpeningState; clock?: GameClock | null }) => void;
   'game-error': (data: { message: string }) => void;
   'score-updated': (data: { score: GameScore }) => void;
   'game-created': (data: { roomId: string; roomCode: string; boardSize: number; gameStatus: string; player1Username: string | null; createdAt: string }) => void;
@@ -57,5 +64,26 @@ export interface ServerToClientEvents {
   'chat-received': (data: { fromPlayerNumber: 1 | 2; message: string; fromName: string }) => void;
   'lucky-wheel-config-updated': (data: { targetId: string; targetType: 'guest' | 'user'; items: Array<{ label: string; weight: number }>; updatedAt: string }) => void;
   'lucky-wheel-guest-left': (data: { guestId: string }) => void;
+  'spectator:list-updated': (data: { room: string; count: number; spectators: SpectatorInfo[] }) => void;
+  'spectator:chat-received': (data: SpectatorChatMessage) => void;
+  'spectator:room-closed': (data: { room: string }) => void;
+  'matchmaking:status': (data: MatchmakingStatus) => void;
+  'matchmaking:matched': (data: MatchmakingMatched) => void;
+  'matchmaking:cancelled': (data: { reason: 'replaced' }) => void;
+}
+
+// Spectators (shared by Caro, Go, Word Chain and Tinh Tuy rooms)
+export interface SpectatorInfo {
+  id: string;
+  name: string;
+  isGuest: boolean;
+}
+
+export interface SpectatorChatMessage {
+  room: string;
+  fromId: string;
+  fromName: string;
+  message: string;
+  timestamp: number;
 }
 
@@ -4,5 +4,31 @@ export const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || 'http://localhost:
 export const BOARD_SIZES = [3, 15, 20, 25] as const;
 export const DEFAULT_BOARD_SIZE = 15;
 
+// Caro time controls (seconds). 'none' keeps the untimed behaviour.
+export interface TimeControlPreset {
+  id: string;
+  timeLimit: number | null;
+  gameTimeLimit: number | null;
+  timeIncrement: number;
+}
+
+export const TIME_CONTROLS: TimeControlPreset[] = [
+  { id: 'none', timeLimit: null, gameTimeLimit: null, timeIncrement: 0 },
+  { id: 'move30', timeLimit: 30, gameTimeLimit: null, timeIncrement: 0 },
+  { id: 'blitz', timeLimit: null, gameTimeLimit: 180, timeIncrement: 2 },
+  { id: 'rapid', timeLimit: null, gameTimeLimit: 600, timeIncrement: 5 },
+  { id: 'classic', timeLimit: 60, gameTimeLimit: 900, timeIncrement: 0 },
+];
+export const DEFAULT_TIME_CONTROL = 'none';
+
+// Caro opponent choices: another player, or the server-side bot at a given strength
+export const CARO_OPPONENTS = ['human', 'easy', 'medium', 'hard'] as const;
+export const DEFAULT_CARO_OPPONENT = 'human';
+
+// Freestyle: five or more wins. Exact five: overlines don't count. Renju: restrictions on black.
+export const CARO_VARIANTS = ['freestyle', 'exactFive', 'renju'] as const;
+export const RENJU_MIN_BOARD_SIZE = 15; // the server rejects Renju on smaller boards
+export const CARO_OPENINGS = ['standard', 'swap', 'swap2'] as const;
+
 export const GUEST_ID_KEY = 'caro_guest_id';
 
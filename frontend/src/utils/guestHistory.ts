@@ -1,4 +1,4 @@
-import { GameHistory } from '../types/game.types';
+import { GameHistory, HistoryMove } from '../types/game.types';
 import { logger } from './logger';
 
 const GUEST_HISTORY_KEY = 'caro_guest_history';
@@ -15,6 +15,7 @@ export const saveGuestHistory = (game: {
   board: number[][];
   winner: 1 | 2 | null | 'draw';
   winningLine?: Array<{ row: number; col: number }>;
+  moves?: HistoryMove[];
   score: { player1: number; player2: number };
   finishedAt: string | null;
   createdAt: string;
@@ -35,6 +36,7 @@ export const saveGuestHistory = (game: {
       board: game.board,
       winner: game.winner,
       winningLine: game.winningLine,
+      moves: game.moves,
       result: game.result,
       opponentUsername: game.opponentUsername,
       finishedAt: game.finishedAt,